@@ -1,6 +1,12 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: false,
+  experimental: {
+    // API route'ları paket dosyalarını diskten okur (panoPackFiles.ts)
+    outputFileTracingIncludes: {
+      "/api/**": ["./data/packs/**"],
+    },
+  },
   async headers() {
     return [
       {
@@ -3,14 +3,16 @@
  * Production-Safe PanoId Mapping Applicator (P2.1)
  *
  * refreshPanoIds.js'den indirilen panoId_mapping.json'ı
- * panoPackages.ts dosyasına uygular.
+ * paket dosyalarına (data/packs/{urban,geo}.ndjson) uygular.
  *
  * Güvenlik:
  *   - .bak yedek oluşturur (yazmadan önce)
  *   - Multi-pano detection: Paket içinde farklı panoId varsa ATLAR
  *   - Sadece eşleşen paket ID'leri için panoId değiştirir
- *   - Koordinatları, heading'i, formatting'i DEĞİŞTİRMEZ
+ *   - Koordinatları, heading'i, satır düzenini DEĞİŞTİRMEZ
+ *   - Değişen paketin revizyonunu artırır
  *   - Bulunamayan ID'leri listeler
+ *   - Eski şemadaki dosyalara dokunmaz (önce: node scripts/panoPackages.js migrate)
  *
  * Kullanım:
  *   node scripts/applyPanoIdMapping.js <panoId_mapping.json yolu>
@@ -37,11 +39,15 @@ if (!fs.existsSync(mappingPath)) {
   process.exit(1);
 }
 
-const PANO_PACKAGES_PATH = path.join(__dirname, "..", "src", "data", "panoPackages.ts");
+const PACKS_DIR = path.join(__dirname, "..", "data", "packs");
+const PACK_FILES = ["urban", "geo"].map((pack) => path.join(PACKS_DIR, `${pack}.ndjson`));
+const SCHEMA_VERSION = 2; // src/services/panoPacks.ts PACK_SCHEMA_VERSION
 
-if (!fs.existsSync(PANO_PACKAGES_PATH)) {
-  console.error(`HATA: panoPackages.ts bulunamadı: ${PANO_PACKAGES_PATH}`);
-  process.exit(1);
+for (const file of PACK_FILES) {
+  if (!fs.existsSync(file)) {
+    console.error(`HATA: Paket dosyası bulunamadı: ${file}`);
+    process.exit(1);
+  }
 }
 
 // ═══════════════════════════════════════════════════════
@@ -68,19 +74,22 @@ for (const [id, data] of Object.entries(mapping)) {
 }
 
 // ═══════════════════════════════════════════════════════
-// BACKUP
+// LOAD PACK FILES
 // ═══════════════════════════════════════════════════════
 
-const backupPath = PANO_PACKAGES_PATH + ".bak";
-fs.copyFileSync(PANO_PACKAGES_PATH, backupPath);
-console.log(`Yedek oluşturuldu: ${backupPath}`);
-
-// ═══════════════════════════════════════════════════════
-// LOAD SOURCE FILE
-// ═══════════════════════════════════════════════════════
+// NDJSON: satır 1 başlık, sonra satır başına bir paket (arms: panos[4])
+const packs = PACK_FILES.map((file) => {
+  const lines = fs.readFileSync(file, "utf-8").split("\n").filter((line) => line.trim());
+  const header = JSON.parse(lines[0]);
+  if (header.schemaVersion !== SCHEMA_VERSION) {
+    console.error(`HATA: ${file} şema ${header.schemaVersion} — önce: node scripts/panoPackages.js migrate`);
+    process.exit(1);
+  }
+  return { file, header, packages: lines.slice(1).map((line) => JSON.parse(line)), changed: false };
+});
 
-let content = fs.readFileSync(PANO_PACKAGES_PATH, "utf-8");
-const originalContent = content;
+const packageById = new Map();
+packs.forEach((pack) => pack.packages.forEach((pkg) => packageById.set(pkg.id, { pack, pkg })));
 
 // ═══════════════════════════════════════════════════════
 // PROCESS EACH PACKAGE
@@ -95,39 +104,16 @@ const multiPanoIds = [];
 for (const [pkgId, data] of Object.entries(mapping)) {
   const { panoId: newPanoId } = data;
 
-  // Find the package block by its id
-  const idPattern = `id: "${pkgId}"`;
-  const idIndex = content.indexOf(idPattern);
-
-  if (idIndex === -1) {
-    console.warn(`  UYARI: "${pkgId}" dosyada bulunamadı, atlanıyor`);
+  const entry = packageById.get(pkgId);
+  if (!entry) {
+    console.warn(`  UYARI: "${pkgId}" paketlerde bulunamadı, atlanıyor`);
     notFoundIds.push(pkgId);
     skippedNotFound++;
     continue;
   }
 
-  // Find the end of this package block (next package's "id:" or closing bracket)
-  const nextIdIndex = content.indexOf('id: "', idIndex + idPattern.length);
-  const packageEnd = nextIdIndex === -1 ? content.length : nextIdIndex;
-
-  // Extract the package block
-  const packageBlock = content.substring(idIndex, packageEnd);
-
   // ── Multi-pano detection ──
-  // Extract ALL panoId values in this block
-  const panoIdRegex = /panoId: "([^"]+)"/g;
-  const existingPanoIds = new Set();
-  let match;
-  while ((match = panoIdRegex.exec(packageBlock)) !== null) {
-    existingPanoIds.add(match[1]);
-  }
-
-  if (existingPanoIds.size === 0) {
-    console.warn(`  UYARI: "${pkgId}" için panoId bulunamadı, atlanıyor`);
-    skippedNotFound++;
-    notFoundIds.push(pkgId);
-    continue;
-  }
+  const existingPanoIds = new Set(entry.pkg.panos.map((arm) => arm.panoId));
 
   if (existingPanoIds.size > 1) {
     console.warn(
@@ -138,15 +124,14 @@ for (const [pkgId, data] of Object.entries(mapping)) {
     continue;
   }
 
-  // ── Replace all panoId values in this block ──
-  // All 4 panos (pano0-pano3) share the same panoId, replace all
-  const newBlock = packageBlock.replace(
-    /panoId: "[^"]+"/g,
-    `panoId: "${newPanoId}"`
-  );
-
-  // Replace the block in content
-  content = content.substring(0, idIndex) + newBlock + content.substring(packageEnd);
+  // ── Replace all panoId values in this package ──
+  // All 4 panos share the same panoId, replace all
+  if (!existingPanoIds.has(newPanoId)) {
+    entry.pkg.panos.forEach((arm) => {
+      arm.panoId = newPanoId;
+    });
+    entry.pack.changed = true;
+  }
   replacedCount++;
 
   if (replacedCount % 20 === 0) {
@@ -155,20 +140,29 @@ for (const [pkgId, data] of Object.entries(mapping)) {
 }
 
 // ═══════════════════════════════════════════════════════
-// VERIFY & WRITE
+// VERIFY & WRITE (.bak yedek)
 // ═══════════════════════════════════════════════════════
 
-if (content === originalContent) {
-  console.error("\nHATA: Dosyada hiçbir değişiklik yapılmadı!");
-  console.log("  Mapping'teki ID'ler dosyadakilerle eşleşmiyor olabilir.");
+const changedPacks = packs.filter((pack) => pack.changed);
+if (changedPacks.length === 0) {
+  console.error("\nHATA: Paketlerde hiçbir değişiklik yapılmadı!");
+  console.log("  Mapping'teki ID'ler paketlerdekilerle eşleşmiyor olabilir.");
   process.exit(1);
 }
 
-// Count remaining old panoIds (CAoSLEFG...)
-const remainingOld = (content.match(/CAoSLEFG/g) || []).length;
+changedPacks.forEach((pack) => {
+  fs.copyFileSync(pack.file, pack.file + ".bak");
+  console.log(`Yedek oluşturuldu: ${pack.file}.bak`);
+  const header = { ...pack.header, revision: pack.header.revision + 1 };
+  const lines = [header, ...pack.packages].map((row) => JSON.stringify(row));
+  fs.writeFileSync(pack.file, lines.join("\n") + "\n", "utf-8");
+});
 
-// Write back
-fs.writeFileSync(PANO_PACKAGES_PATH, content, "utf-8");
+// Count remaining old panoIds (CAoSLEFG...)
+const remainingOld = packs.reduce(
+  (sum, pack) => sum + pack.packages.filter((pkg) => pkg.panos[0].panoId.startsWith("CAoSLEFG")).length,
+  0
+);
 
 // ═══════════════════════════════════════════════════════
 // SUMMARY
@@ -195,10 +189,12 @@ if (multiPanoIds.length > 0) {
 
 if (remainingOld > 0) {
   console.log(
-    `\n  ⚠️ ${remainingOld} adet eski CAoSLEFG panoId kaldı (mapping'te karşılığı yok)`
+    `\n  ⚠️ ${remainingOld} paket hâlâ eski CAoSLEFG panoId kullanıyor (mapping'te karşılığı yok)`
   );
 }
 
-console.log(`\n  Dosya güncellendi: ${PANO_PACKAGES_PATH}`);
-console.log(`  Yedek: ${backupPath}`);
+changedPacks.forEach((pack) => {
+  console.log(`\n  Paket güncellendi: ${pack.file} (r${pack.header.revision + 1})`);
+  console.log(`  Yedek: ${pack.file}.bak`);
+});
 console.log(`${"═".repeat(50)}\n`);
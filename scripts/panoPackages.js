@@ -0,0 +1,244 @@
+#!/usr/bin/env node
+/**
+ * Pano Paketi CLI — offline doğrulama + ekleme/çıkarma + şema göçü
+ *
+ * data/packs/{urban,geo}.ndjson paketlerini Street View'a gitmeden denetler
+ * (kurallar: src/services/packageAuthoring.ts, format: src/services/panoPacks.ts).
+ * TS kaynakları typescript ile anında derlenir; ek bağımlılık yok.
+ *
+ * Kullanım:
+ *   node scripts/panoPackages.js lint [--json] [--strict]
+ *   node scripts/panoPackages.js add <paket.json> [--json] [--force]
+ *   node scripts/panoPackages.js remove <id> [<id> ...]
+ *   node scripts/panoPackages.js migrate
+ *   node scripts/panoPackages.js pull-approved [--json]
+ *
+ *   lint     Tüm paketleri denetler. --json: makine okunur rapor (stdout)
+ *            --strict: uyarılar da başarısız sayılır
+ *   add      JSON dosyasındaki paketi (veya paket dizisini) mevcut paketlerle
+ *            birlikte doğrular; yeni paketlerde hata/uyarı yoksa ilgili modun
+ *            paketinin sonuna ekler. Şema v1 (pano0..pano3) veya v2 (panos).
+ *            --force: uyarılara rağmen ekle (hatalar yine engeller)
+ *   remove   Paketleri id ile siler
+ *   migrate  Eski şemadaki paket dosyalarını güncel şemaya yeniden yazar
+ *   pull-approved
+ *            Moderasyonda onaylanan topluluk önerilerini (submissions/,
+ *            status "approved") RTDB'den çeker, mevcut paketlerle denetler,
+ *            paketlere ekler ve önerileri "merged" işaretler.
+ *            Gerekli: NEXT_PUBLIC_FIREBASE_DATABASE_URL, FIREBASE_DATABASE_SECRET
+ *
+ * add/remove/pull-approved paket revizyonunu artırır. Yazmadan önce .bak yedek oluşturulur.
+ * Çıkış kodu: 0 = temiz, 1 = lint hatası / geçersiz kullanım
+ */
+
+const fs = require("fs");
+const path = require("path");
+const Module = require("module");
+const ts = require("typescript");
+
+const ROOT = path.join(__dirname, "..");
+const SRC = path.join(ROOT, "src");
+const PACKS_DIR = path.join(ROOT, "data", "packs");
+
+// ═══════════════════════════════════════════════════════
+// TS LOADER — "@/..." → src/, .ts → CommonJS
+// ═══════════════════════════════════════════════════════
+
+const originalResolve = Module._resolveFilename;
+Module._resolveFilename = function (request, parent, ...rest) {
+  const target = request.startsWith("@/") ? path.join(SRC, request.slice(2)) : request;
+  return originalResolve.call(this, target, parent, ...rest);
+};
+
+require.extensions[".ts"] = function (module, filename) {
+  const source = fs.readFileSync(filename, "utf-8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const authoring = require(path.join(SRC, "services", "packageAuthoring.ts"));
+const packs = require(path.join(SRC, "services", "panoPacks.ts"));
+const packFiles = require(path.join(SRC, "services", "panoPackFiles.ts"));
+const submissions = require(path.join(SRC, "services", "locationSubmissions.ts"));
+const adminSubmissions = require(path.join(SRC, "services", "adminSubmissionStorage.ts"));
+
+// Paket dosyaları her komutta diskten taze okunur (mod sırasıyla: urban, geo)
+function loadPacks() {
+  return packs.PACK_IDS.map((id) => packFiles.readPackFile(id, PACKS_DIR));
+}
+
+function allPackages(loaded) {
+  return loaded.flatMap((pack) => pack.packages);
+}
+
+// ═══════════════════════════════════════════════════════
+// COMMANDS
+// ═══════════════════════════════════════════════════════
+
+function printReport(report, json) {
+  if (json) console.log(JSON.stringify(report, null, 2));
+  else console.log(authoring.formatLintReport(report));
+}
+
+function writePack(pack) {
+  const file = packFiles.writePackFile(pack, PACKS_DIR);
+  console.error(`Yazıldı: ${file} (r${pack.header.revision}, yedek: ${path.basename(file)}.bak)`);
+}
+
+function lint(flags) {
+  const report = authoring.lintPackages(allPackages(loadPacks()));
+  printReport(report, flags.json);
+  return report.ok && !(flags.strict && report.warnings > 0) ? 0 : 1;
+}
+
+function add(file, flags) {
+  if (!file || !fs.existsSync(file)) {
+    console.error(`HATA: Dosya bulunamadı: ${file}`);
+    return 1;
+  }
+  let input;
+  try {
+    input = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (e) {
+    console.error(`HATA: JSON parse hatası: ${e.message}`);
+    return 1;
+  }
+  const incoming = (Array.isArray(input) ? input : [input]).map(authoring.toLintShape);
+
+  // Yeni paketler mevcutlarla birlikte denetlenir (duplicate id / panoId)
+  const loaded = loadPacks();
+  const report = authoring.lintNewPackages(allPackages(loaded), incoming);
+  if (!report.ok || (report.warnings > 0 && !flags.force)) {
+    printReport(report, flags.json);
+    console.error(report.ok ? "HATA: Uyarılar var, paket eklenmedi (--force ile ekle)" : "HATA: Paket eklenmedi");
+    return 1;
+  }
+
+  loaded.forEach((pack) => {
+    const added = incoming.filter((pkg) => pkg.mode === pack.header.pack);
+    if (added.length > 0) writePack(authoring.addToPack(pack, added));
+  });
+  report.issues.forEach((issue) => console.error(`warn  ${issue.packageId} [${issue.rule}] ${issue.message}`));
+  console.error(`Eklendi: ${incoming.map((p) => p.id).join(", ")}`);
+  return 0;
+}
+
+function remove(ids) {
+  if (ids.length === 0) {
+    console.error("Kullanım: node scripts/panoPackages.js remove <id> [<id> ...]");
+    return 1;
+  }
+  const loaded = loadPacks();
+  const missing = ids.filter((id) => !allPackages(loaded).some((pkg) => pkg.id === id));
+  if (missing.length > 0) {
+    console.error(`HATA: Paket bulunamadı: ${missing.join(", ")}`);
+    return 1;
+  }
+  loaded.forEach((pack) => {
+    const own = ids.filter((id) => pack.packages.some((pkg) => pkg.id === id));
+    if (own.length > 0) writePack(authoring.removeFromPack(pack, own));
+  });
+  console.error(`Silindi: ${ids.join(", ")}`);
+  return 0;
+}
+
+function migrate() {
+  packs.PACK_IDS.forEach((id) => {
+    // NDJSON: başlık ilk satır; tek JSON belgesi: belgenin kendisi
+    const text = fs.readFileSync(packFiles.packFilePath(id, PACKS_DIR), "utf-8");
+    let version;
+    try {
+      version = JSON.parse(text.split("\n")[0]).schemaVersion;
+    } catch {
+      version = JSON.parse(text).schemaVersion;
+    }
+    if (version === packs.PACK_SCHEMA_VERSION) {
+      console.error(`${id}: şema ${version}, güncel`);
+      return;
+    }
+    console.error(`${id}: şema ${version} → ${packs.PACK_SCHEMA_VERSION}`);
+    writePack(packFiles.readPackFile(id, PACKS_DIR));
+  });
+  return 0;
+}
+
+async function pullApproved(flags) {
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!databaseURL || !secret) {
+    console.error("HATA: NEXT_PUBLIC_FIREBASE_DATABASE_URL ve FIREBASE_DATABASE_SECRET gerekli");
+    return 1;
+  }
+  const storage = adminSubmissions.createAdminSubmissionStorage({ databaseURL, secret });
+  const approved = submissions.listQueue(await storage.getAllSubmissions(), "approved");
+  if (approved.length === 0) {
+    console.error("Onaylanmış öneri yok");
+    return 0;
+  }
+
+  // Uyarılar onayda moderatöre gösterildi; burada sadece hatalar engeller
+  const incoming = approved.map((item) => item.submission.package);
+  const loaded = loadPacks();
+  const report = authoring.lintNewPackages(allPackages(loaded), incoming);
+  if (!report.ok) {
+    printReport(report, flags.json);
+    console.error("HATA: Onaylı öneriler paketlere eklenmedi");
+    return 1;
+  }
+
+  loaded.forEach((pack) => {
+    const added = incoming.filter((pkg) => pkg.mode === pack.header.pack);
+    if (added.length > 0) writePack(authoring.addToPack(pack, added));
+  });
+  for (const item of approved) {
+    const merged = await submissions.markMerged(storage, item.uid, item.id);
+    if (!merged.ok) console.error(`warn  ${item.uid}/${item.id}: ${merged.reason}`);
+  }
+  console.error(`Eklendi: ${incoming.map((p) => p.id).join(", ")}`);
+  return 0;
+}
+
+// ═══════════════════════════════════════════════════════
+// MAIN
+// ═══════════════════════════════════════════════════════
+
+const [command, ...rest] = process.argv.slice(2);
+const flags = { json: rest.includes("--json"), strict: rest.includes("--strict"), force: rest.includes("--force") };
+const args = rest.filter((arg) => !arg.startsWith("--"));
+
+// Servis modüllerinin console.log'ları raporu (özellikle --json) kirletmesin
+console.log = ((log) => (...items) => {
+  if (typeof items[0] === "string" && items[0].startsWith("[")) return;
+  log(...items);
+})(console.log);
+
+async function main() {
+  switch (command) {
+    case "lint":
+      return lint(flags);
+    case "add":
+      return add(args[0], flags);
+    case "remove":
+      return remove(args);
+    case "migrate":
+      return migrate();
+    case "pull-approved":
+      return pullApproved(flags);
+    default:
+      console.error("Kullanım: node scripts/panoPackages.js <lint|add|remove|migrate|pull-approved> ... (ayrıntı: dosya başı)");
+      return 1;
+  }
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(`HATA: ${err.message}`);
+    process.exitCode = 1;
+  }
+);
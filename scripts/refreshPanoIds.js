@@ -68,7 +68,7 @@
   const INTER_PACKAGE_DELAY = 300; // ms between packages
 
   // ═══════════════════════════════════════════════════════
-  // ALL 142 PACKAGE COORDINATES (pano0 from panoPackages.ts)
+  // ALL 142 PACKAGE COORDINATES (pano0 from data/packs/*.ndjson)
   // Format: { id, lat, lng }
   // ═══════════════════════════════════════════════════════
   const packages = [
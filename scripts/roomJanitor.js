@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+/**
+ * Oda Janitor'ı — RTDB'deki zombi odaları ve hayalet oyuncuları temizler
+ *
+ * Kurallar: src/services/roomJanitor.ts (süresi dolan / boş / bitmiş odalar,
+ * lastSeen'i eski oyuncular, MAX_ACTIVE_ROOMS). Aynı iş cron'dan
+ * POST /api/room-janitor ile de çalıştırılabilir.
+ * TS kaynakları typescript ile anında derlenir; ek bağımlılık yok.
+ *
+ * Kullanım:
+ *   node scripts/roomJanitor.js [--dry-run] [--json] [--every <dakika>]
+ *
+ *   --dry-run  Hiçbir şey silmez, sadece planı raporlar
+ *   --json     Makine okunur rapor (stdout)
+ *   --every    Süreç olarak çalışır: her <dakika>'da bir tarar
+ *              (değer verilmezse ROOM_LIFECYCLE.JANITOR_INTERVAL_MS)
+ *
+ * Gerekli: NEXT_PUBLIC_FIREBASE_DATABASE_URL, FIREBASE_DATABASE_SECRET
+ * Çıkış kodu: 0 = temiz, 1 = hata / geçersiz kullanım
+ */
+
+const fs = require("fs");
+const path = require("path");
+const Module = require("module");
+const ts = require("typescript");
+
+const ROOT = path.join(__dirname, "..");
+const SRC = path.join(ROOT, "src");
+
+// ═══════════════════════════════════════════════════════
+// TS LOADER — "@/..." → src/, .ts → CommonJS
+// ═══════════════════════════════════════════════════════
+
+const originalResolve = Module._resolveFilename;
+Module._resolveFilename = function (request, parent, ...rest) {
+  const target = request.startsWith("@/") ? path.join(SRC, request.slice(2)) : request;
+  return originalResolve.call(this, target, parent, ...rest);
+};
+
+require.extensions[".ts"] = function (module, filename) {
+  const source = fs.readFileSync(filename, "utf-8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const janitor = require(path.join(SRC, "services", "roomJanitor.ts"));
+const adminJanitor = require(path.join(SRC, "services", "adminJanitorStorage.ts"));
+const { ROOM_LIFECYCLE } = require(path.join(SRC, "config", "production.ts"));
+
+// ═══════════════════════════════════════════════════════
+// SWEEP
+// ═══════════════════════════════════════════════════════
+
+async function sweep(storage, flags) {
+  const report = await janitor.runJanitor(storage, Date.now(), { dryRun: flags.dryRun });
+  if (flags.json) console.log(JSON.stringify(report, null, 2));
+  else console.error(janitor.formatJanitorReport(report));
+  return report.failed.length === 0 ? 0 : 1;
+}
+
+// ═══════════════════════════════════════════════════════
+// MAIN
+// ═══════════════════════════════════════════════════════
+
+const args = process.argv.slice(2);
+const everyIndex = args.indexOf("--every");
+const everyValue = everyIndex >= 0 ? args[everyIndex + 1] : undefined;
+const flags = {
+  dryRun: args.includes("--dry-run"),
+  json: args.includes("--json"),
+  everyMs: everyIndex < 0 ? 0
+    : everyValue && !everyValue.startsWith("--") ? Number(everyValue) * 60_000
+    : ROOM_LIFECYCLE.JANITOR_INTERVAL_MS,
+};
+
+// Servis modüllerinin console.log'ları raporu (özellikle --json) kirletmesin
+console.log = ((log) => (...items) => {
+  if (typeof items[0] === "string" && items[0].startsWith("[")) return;
+  log(...items);
+})(console.log);
+
+async function main() {
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!databaseURL || !secret) {
+    console.error("HATA: NEXT_PUBLIC_FIREBASE_DATABASE_URL ve FIREBASE_DATABASE_SECRET gerekli");
+    return 1;
+  }
+  if (!(flags.everyMs >= 0) || (everyIndex >= 0 && flags.everyMs === 0)) {
+    console.error("Kullanım: node scripts/roomJanitor.js [--dry-run] [--json] [--every <dakika>]");
+    return 1;
+  }
+  const storage = adminJanitor.createAdminJanitorStorage({ databaseURL, secret });
+  if (!flags.everyMs) return sweep(storage, flags);
+
+  // Süreç modu: bir tarama hata verse de bir sonrakinde tekrar denenir
+  console.error(`Janitor her ${flags.everyMs / 60_000} dakikada bir çalışıyor (Ctrl+C ile dur)`);
+  for (;;) {
+    await sweep(storage, flags).catch((err) => console.error(`HATA: ${err.message}`));
+    await new Promise((resolve) => setTimeout(resolve, flags.everyMs));
+  }
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(`HATA: ${err.message}`);
+    process.exitCode = 1;
+  }
+);
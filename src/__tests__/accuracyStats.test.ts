@@ -0,0 +1,221 @@
+// @vitest-environment node
+/**
+ * Accuracy Stats — Tests
+ *
+ * Tests cover:
+ * - samplesFromRoom: only players who guessed, il from the scored result, bölge from the package
+ * - foldSamples: per package / il / bölge buckets, dynamic packages skipped per package
+ * - summarizeBucket: average distance, histogram median
+ * - runAccuracyAggregation: pending samples folded once, snapshot published, re-run is a no-op
+ * - accuracyHeat / provinceHeatMap / combinePackageStats: min guesses, weighting
+ * - loadAccuracySnapshot: server-rendered pages read accuracy/stats; no env / failed read → null
+ * - Scoring authority leaves one sample batch per scored round
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Room, Player, PanoPackage } from '@/types';
+import {
+  ACCURACY_MIN_GUESSES,
+  AccuracySample,
+  accuracyHeat,
+  buildAccuracySnapshot,
+  combinePackageStats,
+  emptyAggregate,
+  foldSamples,
+  provinceHeatMap,
+  runAccuracyAggregation,
+  sampleIdFor,
+  samplesFromRoom,
+  summarizeBucket,
+} from '@/services/accuracyStats';
+import { loadAccuracySnapshot } from '@/services/adminAccuracyStorage';
+import { createScoringAuthority } from '@/services/scoringAuthority';
+import { createMemoryAccuracyStorage, createMemoryRoomStorage } from './fakes';
+import { T0, createPlayer, createRoom, playersOf } from './fixtures';
+
+// ==================== HELPERS ====================
+
+const KADIKOY = { lat: 40.99, lng: 29.03 };
+
+/** Players here have guessed unless a test says otherwise */
+const guessed = (id: string, overrides: Partial<Player> = {}) => createPlayer(id, { hasGuessed: true, ...overrides });
+
+function scoredRoom(overrides: Partial<Room> = {}): Room {
+  return createRoom({
+    status: 'roundEnd',
+    currentRound: 2,
+    players: playersOf(guessed('host'), guessed('p2'), guessed('afk')),
+    mapFilter: null,
+    currentPanoPackageId: 'ist_kadikoy_1',
+    currentPanoPackage: { id: 'ist_kadikoy_1', region: 'marmara' } as PanoPackage,
+    currentLocation: KADIKOY,
+    currentLocationName: 'Kadıköy, İstanbul',
+    roundResults: [
+      { playerId: 'host', playerName: 'Oyuncu host', guess: KADIKOY, distance: 0.42, score: 4990, correctProvince: 'İstanbul' },
+      { playerId: 'p2', playerName: 'Oyuncu p2', guess: { lat: 39.9, lng: 32.8 }, distance: 351.27, score: 1200, correctProvince: 'İstanbul' },
+      { playerId: 'afk', playerName: 'Oyuncu afk', guess: { lat: 0, lng: 0 }, distance: 9999, score: 0 },
+    ],
+    roundStartTime: T0 - 60_000,
+    roundState: 'ended',
+    roundVersion: 2,
+    activePlayerCount: 3,
+    expectedGuesses: 3,
+    currentGuesses: 2,
+    lastActivityAt: T0,
+    ...overrides,
+  });
+}
+
+function sample(score: number, overrides: Partial<AccuracySample> = {}): AccuracySample {
+  return { packageId: 'ist_kadikoy_1', province: 'İstanbul', region: 'marmara', score, distance: 100, ...overrides };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+// ==================== COLLECTION ====================
+
+describe('samplesFromRoom', () => {
+  it('samples every player who guessed, with il and bölge', () => {
+    expect(samplesFromRoom(scoredRoom())).toEqual([
+      { packageId: 'ist_kadikoy_1', province: 'İstanbul', region: 'marmara', score: 4990, distance: 0.4 },
+      { packageId: 'ist_kadikoy_1', province: 'İstanbul', region: 'marmara', score: 1200, distance: 351.3 },
+    ]);
+    expect(sampleIdFor(scoredRoom())).toBe(`ROOM01_${T0 - 60_000}_2`);
+  });
+
+  it('samples nothing without results or package', () => {
+    expect(samplesFromRoom(scoredRoom({ roundResults: null }))).toEqual([]);
+    expect(samplesFromRoom(scoredRoom({ currentPanoPackage: null }))).toEqual([]);
+  });
+});
+
+// ==================== AGGREGATION ====================
+
+describe('foldSamples / summarizeBucket', () => {
+  it('buckets per package, il and bölge — dynamic packages only count for il / bölge', () => {
+    const aggregate = foldSamples(emptyAggregate(), [
+      sample(4990),
+      sample(1200, { distance: 300 }),
+      sample(3000, { packageId: 'dyn_41.0_29.0' }),
+      sample(2500, { packageId: 'ank_1', province: 'Ankara', region: 'ic_anadolu' }),
+    ]);
+    expect(Object.keys(aggregate.packages).sort()).toEqual(['ank_1', 'ist_kadikoy_1']);
+    expect(aggregate.provinces['İstanbul']).toEqual({ guesses: 3, totalDistance: 500, scoreBuckets: { 49: 1, 12: 1, 30: 1 } });
+    expect(aggregate.regions.marmara?.guesses).toBe(3);
+    expect(aggregate.regions.ic_anadolu?.guesses).toBe(1);
+  });
+
+  it('takes the median from the 100-point histogram', () => {
+    const aggregate = foldSamples(emptyAggregate(), [5000, 4000, 100, 3020, 2999].map((s) => sample(s)));
+    expect(summarizeBucket(aggregate.provinces['İstanbul'])).toEqual({ guesses: 5, averageDistance: 100, medianScore: 3050 });
+    // Perfect scores stay within the cap
+    expect(summarizeBucket(foldSamples(emptyAggregate(), [sample(5000)]).provinces['İstanbul']).medianScore).toBe(5000);
+  });
+});
+
+describe('runAccuracyAggregation', () => {
+  it('folds pending samples once and publishes the snapshot', async () => {
+    const storage = createMemoryAccuracyStorage();
+    await storage.addSamples('r1', [sample(4000), sample(2000)]);
+    await storage.addSamples('r2', [sample(3000, { province: 'Ankara', region: 'ic_anadolu', packageId: 'ank_1' })]);
+
+    expect(await runAccuracyAggregation(storage, T0)).toBe(3);
+    const snapshot = await storage.getSnapshot();
+    expect(snapshot?.updatedAt).toBe(T0);
+    expect(snapshot?.provinces['İstanbul']).toEqual({ guesses: 2, averageDistance: 100, medianScore: 3050 });
+    expect(snapshot?.packages.ank_1.guesses).toBe(1);
+
+    // Nothing pending → no-op, snapshot untouched
+    expect(await runAccuracyAggregation(storage, T0 + 1)).toBe(0);
+    expect((await storage.getSnapshot())?.updatedAt).toBe(T0);
+
+    // New samples add to the running buckets
+    await storage.addSamples('r3', [sample(5000)]);
+    expect(await runAccuracyAggregation(storage, T0 + 2)).toBe(1);
+    expect((await storage.getSnapshot())?.provinces['İstanbul'].guesses).toBe(3);
+  });
+});
+
+// ==================== PRESENTATION ====================
+
+describe('heat', () => {
+  it('needs ACCURACY_MIN_GUESSES before a place gets a heat value', () => {
+    const few = Array.from({ length: ACCURACY_MIN_GUESSES - 1 }, () => sample(1000));
+    const snapshot = buildAccuracySnapshot(foldSamples(emptyAggregate(), [
+      ...few,
+      ...Array.from({ length: ACCURACY_MIN_GUESSES }, () => sample(1000, { province: 'Van' })),
+    ]), T0);
+    expect(accuracyHeat(snapshot.provinces['İstanbul'])).toBeNull();
+    expect(provinceHeatMap(snapshot)).toEqual({ Van: 0.79 });
+    expect(provinceHeatMap(null)).toEqual({});
+  });
+
+  it('combines several packages weighted by guesses', () => {
+    const snapshot = buildAccuracySnapshot(foldSamples(emptyAggregate(), [
+      sample(4000, { packageId: 'a', distance: 10 }),
+      sample(4000, { packageId: 'a', distance: 10 }),
+      sample(1000, { packageId: 'b', distance: 40 }),
+    ]), T0);
+    expect(combinePackageStats(snapshot, ['a', 'b', 'missing'])).toEqual({ guesses: 3, averageDistance: 20, medianScore: 3050 });
+    expect(combinePackageStats(snapshot, ['missing'])).toBeUndefined();
+  });
+});
+
+describe('loadAccuracySnapshot', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('reads accuracy/stats with the server secret', async () => {
+    const snapshot = buildAccuracySnapshot(foldSamples(emptyAggregate(), [sample(4000)]), T0);
+    const fetchMock = vi.fn(() => Promise.resolve(new Response(JSON.stringify(snapshot))));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('NEXT_PUBLIC_FIREBASE_DATABASE_URL', 'https://db.example.com/');
+    vi.stubEnv('FIREBASE_DATABASE_SECRET', 's3cret');
+
+    expect(await loadAccuracySnapshot()).toEqual(snapshot);
+    expect(fetchMock).toHaveBeenCalledWith('https://db.example.com/accuracy/stats.json?auth=s3cret');
+  });
+
+  it('null without server env or when the read fails — the page still renders', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn(() => Promise.resolve(new Response('{}', { status: 500 })));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('NEXT_PUBLIC_FIREBASE_DATABASE_URL', 'https://db.example.com');
+    vi.stubEnv('FIREBASE_DATABASE_SECRET', '');
+    expect(await loadAccuracySnapshot()).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    vi.stubEnv('FIREBASE_DATABASE_SECRET', 's3cret');
+    expect(await loadAccuracySnapshot()).toBeNull();
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
+
+// ==================== AUTHORITY ====================
+
+describe('scoring authority → accuracy samples', () => {
+  it('leaves one sample batch per scored round', async () => {
+    const roomStorage = createMemoryRoomStorage({ now: () => T0 });
+    const accuracy = createMemoryAccuracyStorage();
+    const authority = createScoringAuthority(roomStorage, { accuracy });
+
+    await roomStorage.setRoom('ROOM01', scoredRoom({
+      roundResults: null,
+      players: {
+        host: guessed('host', { currentGuess: KADIKOY }),
+        afk: guessed('afk', { hasGuessed: false }),
+      },
+    }));
+    expect((await authority.scoreRound('ROOM01', 2)).scored).toBe(true);
+    expect((await authority.scoreRound('ROOM01', 2)).scored).toBe(false);
+
+    expect(await runAccuracyAggregation(accuracy, T0)).toBe(1);
+    const snapshot = await accuracy.getSnapshot();
+    expect(snapshot?.packages.ist_kadikoy_1).toEqual({ guesses: 1, averageDistance: 0, medianScore: 5000 });
+    expect(snapshot?.provinces['İstanbul']?.guesses).toBe(1);
+  });
+});
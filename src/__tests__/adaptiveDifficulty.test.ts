@@ -0,0 +1,151 @@
+// @vitest-environment node
+/**
+ * Adaptive Difficulty — Tests
+ *
+ * Tests cover:
+ * - Recent average: each player's last ADAPTIVE_WINDOW_ROUNDS rounds, RTDB object form, no rounds → null
+ * - Mix shifts towards hard for strong rooms, easy for struggling ones, bounded by maxShift / ADAPTIVE_MIN_SHARE
+ * - Adaptive off or round 1 → DIFFICULTY_MIX
+ * - validateRoomSettings accepts known levels and null only
+ * - Engine: pickDifficultyTier follows the room mix; seeded draws ignore it
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Room } from '@/types';
+import {
+  ADAPTIVE_MIN_SHARE,
+  ADAPTIVE_PIVOT_SCORE,
+  adaptiveMix,
+  formatDifficultyMix,
+  recentAverageScore,
+  roomDifficultyMix,
+} from '@/services/adaptiveDifficulty';
+import {
+  DIFFICULTY_MIX,
+  drawSeededPackages,
+  getDifficultyMix,
+  resetLocationEngine,
+  setDifficultyMix,
+  setMapFilter,
+  _testExports,
+} from '@/services/locationEngine';
+import { validateRoomSettings } from '@/services/roomStateMachine';
+import { createSeededRandom, setRandomSource } from '@/utils/random';
+import { createPlayer, createRoom, playersOf } from './fixtures';
+
+const { pickDifficultyTier } = _testExports;
+
+// ==================== HELPERS ====================
+
+/** Room after round 3 with each player's round scores */
+function scoredRoom(scores: Record<string, number[]>, overrides: Partial<Room> = {}): Room {
+  const players = Object.entries(scores).map(([id, roundScores]) =>
+    createPlayer(id, { roundScores, totalScore: roundScores.reduce((sum, s) => sum + s, 0) })
+  );
+  return createRoom({ status: 'roundEnd', currentRound: 3, players: playersOf(...players), ...overrides });
+}
+
+const sum = (mix: { easy: number; medium: number; hard: number }) => mix.easy + mix.medium + mix.hard;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  resetLocationEngine();
+  setMapFilter(null);
+});
+
+afterEach(() => {
+  setDifficultyMix(null);
+  setRandomSource(null);
+});
+
+// ==================== AVERAGE ====================
+
+describe('recentAverageScore', () => {
+  it('averages each player\'s latest rounds only', () => {
+    const room = scoredRoom({ host: [0, 0, 4000, 5000, 3000], p2: [1000, 2000, 3000] });
+    // host: 4000, 5000, 3000 · p2: 1000, 2000, 3000
+    expect(recentAverageScore(room)).toBe(3000);
+    expect(recentAverageScore(room, 1)).toBe(3000);
+    expect(recentAverageScore(room, 5)).toBe(Math.round(18000 / 8));
+  });
+
+  it('reads RTDB object-form scores and returns null before any round', () => {
+    const room = scoredRoom({ host: [] });
+    room.players.host.roundScores = { 0: 4000, 1: 2000 } as unknown as number[];
+    expect(recentAverageScore(room)).toBe(3000);
+    expect(recentAverageScore(scoredRoom({ host: [], p2: [] }))).toBeNull();
+  });
+});
+
+// ==================== MIX ====================
+
+describe('adaptive mix', () => {
+  it('moves weight to hard for strong rooms and to easy for struggling ones', () => {
+    expect(adaptiveMix(ADAPTIVE_PIVOT_SCORE, 0.2)).toEqual(DIFFICULTY_MIX);
+    expect(adaptiveMix(null, 0.2)).toEqual(DIFFICULTY_MIX);
+
+    const strong = adaptiveMix(ADAPTIVE_PIVOT_SCORE * 1.5, 0.1);
+    expect(strong).toEqual({ easy: 0.1, medium: 0.55, hard: 0.35 });
+    const weak = adaptiveMix(ADAPTIVE_PIVOT_SCORE * 0.5, 0.1);
+    expect(weak).toEqual({ easy: 0.2, medium: 0.55, hard: 0.25 });
+  });
+
+  it('stays within maxShift and never drops a tier below the minimum share', () => {
+    [0, 1000, 2500, 4000, 5000, 9999].forEach((average) => {
+      const mix = adaptiveMix(average, 0.2);
+      expect(sum(mix)).toBeCloseTo(1, 5);
+      expect(Math.abs(mix.hard - DIFFICULTY_MIX.hard)).toBeLessThanOrEqual(0.2 + 1e-9);
+      Object.values(mix).forEach((share) => expect(share).toBeGreaterThanOrEqual(ADAPTIVE_MIN_SHARE));
+    });
+    expect(adaptiveMix(5000, 0.2)).toEqual({ easy: ADAPTIVE_MIN_SHARE, medium: 0.45, hard: 0.5 });
+    expect(adaptiveMix(0, 0.2)).toEqual({ easy: 0.35, medium: 0.55, hard: 0.1 });
+  });
+
+  it('uses the room\'s level; off → fixed mix', () => {
+    const scores = { host: [5000, 5000, 5000], p2: [4500, 5000, 4500] };
+    const off = roomDifficultyMix(scoredRoom(scores));
+    expect(off).toMatchObject({ mix: DIFFICULTY_MIX, level: null });
+    expect(off.average).toBe(4833);
+
+    const gentle = roomDifficultyMix(scoredRoom(scores, { adaptiveDifficulty: 'gentle' }));
+    const strong = roomDifficultyMix(scoredRoom(scores, { adaptiveDifficulty: 'strong' }));
+    expect(gentle.level).toBe('gentle');
+    expect(strong.mix.hard).toBeGreaterThan(gentle.mix.hard);
+    expect(gentle.mix.hard).toBeGreaterThan(DIFFICULTY_MIX.hard);
+
+    const fresh = roomDifficultyMix(scoredRoom({ host: [] }, { adaptiveDifficulty: 'strong' }));
+    expect(fresh).toMatchObject({ mix: DIFFICULTY_MIX, average: null, level: 'strong' });
+    expect(formatDifficultyMix(DIFFICULTY_MIX)).toBe('15/55/30');
+  });
+
+  it('validateRoomSettings accepts known levels and null', () => {
+    expect(validateRoomSettings({ adaptiveDifficulty: 'strong' })).toEqual({ ok: true, settings: { adaptiveDifficulty: 'strong' } });
+    expect(validateRoomSettings({ adaptiveDifficulty: null })).toEqual({ ok: true, settings: { adaptiveDifficulty: null } });
+    expect(validateRoomSettings({ adaptiveDifficulty: 'brutal' as never }).ok).toBe(false);
+  });
+});
+
+// ==================== ENGINE ====================
+
+describe('engine with a room mix', () => {
+  it('pickDifficultyTier follows the mix', () => {
+    setRandomSource(() => 0.12);
+    expect(pickDifficultyTier()).toBe('easy');
+    setDifficultyMix({ easy: 0.05, medium: 0.45, hard: 0.5 });
+    expect(pickDifficultyTier()).toBe('medium');
+    setRandomSource(() => 0.6);
+    expect(pickDifficultyTier()).toBe('hard');
+    expect(getDifficultyMix()).toEqual({ easy: 0.05, medium: 0.45, hard: 0.5 });
+
+    setDifficultyMix(null);
+    expect(pickDifficultyTier()).toBe('medium');
+    expect(getDifficultyMix()).toEqual(DIFFICULTY_MIX);
+  });
+
+  it('seeded draws ignore the room mix and keep it afterwards', () => {
+    const before = drawSeededPackages('urban', 5, createSeededRandom('gunun-turu:2024-03-01')).map((p) => p.id);
+    setDifficultyMix({ easy: 0.05, medium: 0.05, hard: 0.9 });
+    expect(drawSeededPackages('urban', 5, createSeededRandom('gunun-turu:2024-03-01')).map((p) => p.id)).toEqual(before);
+    expect(getDifficultyMix().hard).toBe(0.9);
+  });
+});
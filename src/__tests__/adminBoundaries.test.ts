@@ -0,0 +1,122 @@
+// @vitest-environment node
+/**
+ * Admin Boundaries — Tests
+ *
+ * Tests cover:
+ * - Bundled GeoJSON: 81 il, plate codes 1..81, unique names
+ * - Point-in-polygon for inland, coastal and island points (MultiPolygon)
+ * - Sea / abroad → null, coast tolerance for shoreline panos
+ * - Bundled ilçe seats: every il covered, each seat inside its own il
+ * - İlçe zone = nearest seat of the il under the point
+ * - formatPlace output matches PanoPackage.locationName
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TURKEY_PROVINCES } from '@/data/turkeyProvinces';
+import { TURKEY_DISTRICTS } from '@/data/turkeyDistricts';
+import { findDistrict, findProvince, findProvinceByName, findPlace, formatPlace } from '@/services/adminBoundaries';
+
+// ==================== DATA ====================
+
+describe('TURKEY_PROVINCES', () => {
+  it('has all 81 il with plate codes 1..81', () => {
+    const plates = TURKEY_PROVINCES.features.map((f) => f.properties.plate).sort((a, b) => a - b);
+    expect(plates).toEqual(Array.from({ length: 81 }, (_, i) => i + 1));
+    expect(new Set(TURKEY_PROVINCES.features.map((f) => f.properties.name)).size).toBe(81);
+  });
+
+  it('every feature is a closed MultiPolygon', () => {
+    TURKEY_PROVINCES.features.forEach((f) => {
+      expect(f.geometry.type).toBe('MultiPolygon');
+      f.geometry.coordinates.forEach((polygon) => {
+        const outer = polygon[0];
+        expect(outer.length).toBeGreaterThan(3);
+        expect(outer[0]).toEqual(outer[outer.length - 1]);
+      });
+    });
+  });
+});
+
+describe('TURKEY_DISTRICTS', () => {
+  it('has ilçe seats for all 81 il, unique within each il', () => {
+    expect(Object.keys(TURKEY_DISTRICTS).map(Number).sort((a, b) => a - b)).toEqual(Array.from({ length: 81 }, (_, i) => i + 1));
+    Object.values(TURKEY_DISTRICTS).forEach((seats) => {
+      expect(new Set(seats.map(([name]) => name)).size).toBe(seats.length);
+    });
+    expect(Object.values(TURKEY_DISTRICTS).flat()).toHaveLength(972);
+    expect(TURKEY_DISTRICTS[34]).toHaveLength(38); // Adalar hariç
+  });
+
+  it('every seat lies in its own il and is its own zone', () => {
+    Object.entries(TURKEY_DISTRICTS).forEach(([plate, seats]) => {
+      seats.forEach(([name, lat, lng]) => {
+        expect(findProvince({ lat, lng })?.plate, name).toBe(Number(plate));
+        expect(findDistrict({ lat, lng }), name).toBe(name);
+      });
+    });
+  });
+});
+
+// ==================== LOOKUP ====================
+
+describe('findProvince', () => {
+  it('resolves city centres', () => {
+    expect(findProvince({ lat: 39.9334, lng: 32.8597 })).toEqual({ plate: 6, name: 'Ankara' });
+    expect(findProvince({ lat: 41.0086, lng: 28.9802 })).toEqual({ plate: 34, name: 'İstanbul' });
+    expect(findProvince({ lat: 38.6748, lng: 39.2225 })?.name).toBe('Elazığ');
+    expect(findProvince({ lat: 37.5744, lng: 43.7408 })?.name).toBe('Hakkari');
+  });
+
+  it('resolves both sides of the Bosphorus and islands', () => {
+    expect(findProvince({ lat: 40.9903, lng: 29.029 })?.name).toBe('İstanbul'); // Kadıköy
+    expect(findProvince({ lat: 39.835, lng: 26.07 })?.name).toBe('Çanakkale');   // Bozcaada
+  });
+
+  it('splits neighbouring il at the border', () => {
+    expect(findProvince({ lat: 39.9, lng: 33.3 })?.name).toBe('Ankara');
+    expect(findProvince({ lat: 39.9, lng: 33.36 })?.name).toBe('Kırıkkale');
+  });
+
+  it('snaps points just off the simplified coastline to the nearest il', () => {
+    // Kocaeli Karadeniz kıyısı (lng 30.0) poligonda ~41.146'da bitiyor
+    expect(findProvince({ lat: 41.166, lng: 30.0 })?.name).toBe('Kocaeli'); // ~2 km açık
+    expect(findProvince({ lat: 41.2, lng: 30.0 })).toBeNull();              // ~6 km açık
+  });
+
+  it('returns null for open sea, abroad and invalid input', () => {
+    expect(findProvince({ lat: 34.0, lng: 20.0 })).toBeNull();
+    expect(findProvince({ lat: 43.0, lng: 34.0 })).toBeNull();  // Karadeniz ortası
+    expect(findProvince({ lat: 37.98, lng: 23.73 })).toBeNull(); // Atina
+    expect(findProvince({ lat: NaN, lng: 29 })).toBeNull();
+  });
+
+  it('finds il by name case-insensitively (tr)', () => {
+    expect(findProvinceByName('izmir')).toEqual({ plate: 35, name: 'İzmir' });
+    expect(findProvinceByName('Toros Dağları')).toBeNull();
+  });
+});
+
+describe('findDistrict / findPlace / formatPlace', () => {
+  it('takes the ilçe zone from the nearest seat of the il under the point', () => {
+    expect(findPlace({ lat: 41.01, lng: 28.982 })).toEqual({ province: 'İstanbul', district: 'Fatih' });
+    expect(formatPlace(findPlace({ lat: 41.01, lng: 28.982 }))).toBe('Fatih, İstanbul');
+    expect(findDistrict({ lat: 40.99, lng: 29.029 })).toBe('Kadıköy');
+    expect(findDistrict({ lat: 37.94, lng: 27.34 })).toBe('Selçuk');            // Efes
+    expect(findDistrict({ lat: 38.715, lng: 34.85 })).toBe('Avanos');
+    expect(findDistrict({ lat: 38.62, lng: 34.72 })).toBe('Merkez');            // Nevşehir
+  });
+
+  it('never crosses the il border, even when a seat across it is nearer', () => {
+    // Kırıkkale side of the Ankara border: the Elmadağ seat is ~9 km away, Yahşihan ~12 km
+    expect(findPlace({ lat: 39.9, lng: 33.33 })).toEqual({ province: 'Kırıkkale', district: 'Yahşihan' });
+    expect(findDistrict({ lat: 34.0, lng: 20.0 })).toBeNull();
+  });
+
+  it('formats a merkez ilçe as the il alone', () => {
+    expect(findPlace({ lat: 37.5744, lng: 43.7408 })).toEqual({ province: 'Hakkari', district: 'Merkez' });
+    expect(formatPlace(findPlace({ lat: 37.5744, lng: 43.7408 }))).toBe('Hakkari');
+    expect(formatPlace({ province: 'Hakkari', district: null })).toBe('Hakkari');
+    expect(formatPlace({ province: 'Rize', district: 'Merkez' })).toBe('Rize');
+    expect(formatPlace(null)).toBeNull();
+  });
+});
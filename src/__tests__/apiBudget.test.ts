@@ -0,0 +1,292 @@
+// @vitest-environment node
+/**
+ * API Budget — Tests
+ *
+ * Tests cover:
+ * - Reservations: daily total refused at the degrade threshold or the USD budget, room cap per scope
+ * - Concurrent reservations never overshoot a cap (ETag transaction on apiBudget/{day})
+ * - Recording pano loads: clamped to the step size, the daily cap and the scope's loads
+ * - Server requests: parsed strictly, a room is charged only for its players
+ * - Client: no ledger → allowed, refusal → static-only for that day + scope only
+ * - Ledger errors refuse a single call without degrading the tab
+ * - Remote ledger POSTs to /api/budget with the caller's ID token
+ * - Spend report: per-day totals, USD, state flags, top rooms, newest day first
+ * - Admin storage GETs apiBudget/{day} with the database secret, charges in an ETag transaction
+ */
+
+import { describe, it, expect, afterEach, vi, beforeEach } from 'vitest';
+import {
+  BudgetLimits,
+  BudgetRequest,
+  budgetScope,
+  createRemoteBudgetLedger,
+  installApiBudget,
+  isApiBudgetDegraded,
+  loadBudgetReport,
+  parseBudgetRequest,
+  recordApiCalls,
+  reserveApiCalls,
+  setApiBudgetScope,
+  settleBudgetRequest,
+  spendStreetViewCall,
+  summarizeBudgetDay,
+} from '@/services/apiBudget';
+import { createAdminBudgetStorage } from '@/services/adminBudgetStorage';
+import { API_COST_CONTROL } from '@/config/production';
+import { Room } from '@/types';
+import { createMemoryBudgetStorage } from './fakes';
+
+// ==================== FIXTURES ====================
+
+const T0 = Date.UTC(2026, 9, 18, 12); // 2026-10-18 12:00 UTC
+const DAY = '2026-10-18';
+const NEXT_DAY = T0 + 24 * 60 * 60 * 1000;
+
+const COST = API_COST_CONTROL.STREET_VIEW_COST_PER_CALL;
+const LIMITS: BudgetLimits = { dailyCalls: 10, degradeAt: 8, dailyBudgetUsd: 10 * COST, roomDailyCalls: 3, roomDailyLoads: 6, maxStep: 4 };
+
+/**
+ * RTDB REST for apiBudget/{DAY}: GET with X-Firebase-ETag, PUT with if-match
+ * → 412 when another write got there first. Every response waits a tick so
+ * concurrent transactions interleave.
+ */
+function etagDatabase(initial: object | null = null) {
+  let value: unknown = initial;
+  let version = 0;
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+  const fetchImpl = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+    await tick();
+    if (init?.method === 'PUT') {
+      if ((init.headers as Record<string, string>)['if-match'] !== String(version)) return new Response(null, { status: 412 });
+      value = JSON.parse(String(init.body));
+      version++;
+      return new Response(String(init.body));
+    }
+    return new Response(JSON.stringify(value), { headers: { ETag: String(version) } });
+  });
+  return { fetchImpl, read: () => value as Record<string, unknown> | null };
+}
+
+/** ROOM01 with u1 as its only player */
+const rooms = { getRoom: async (roomId: string) => (roomId === 'ROOM01' ? ({ id: roomId, players: { u1: {} } } as unknown as Room) : null) };
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  installApiBudget(null);
+  setApiBudgetScope(null);
+  vi.restoreAllMocks();
+});
+
+// ==================== LEDGER ====================
+
+describe('reserveApiCalls', () => {
+  it('refuses past the degrade threshold', async () => {
+    const storage = createMemoryBudgetStorage({ [DAY]: { total: 7 } });
+    expect(await reserveApiCalls(storage, 'ROOM01', 'findPano', 1, T0, LIMITS)).toEqual({ ok: true });
+    expect(await reserveApiCalls(storage, 'ROOM02', 'findPano', 1, T0, LIMITS)).toEqual({ ok: false, reason: 'daily budget' });
+    expect(storage.peek()[DAY]).toEqual({ total: 8, rooms: { ROOM01: { findPano: 1 } }, kinds: { findPano: 1 } });
+  });
+
+  it('caps dynamic calls per room, pano loads don\'t count', async () => {
+    const storage = createMemoryBudgetStorage({ [DAY]: { total: 0, rooms: { ROOM01: { findPano: 2, panoLoad: 5 } } } });
+    expect(await reserveApiCalls(storage, 'ROOM01', 'resolvePano', 1, T0, LIMITS)).toEqual({ ok: true });
+    expect(await reserveApiCalls(storage, 'ROOM01', 'findPano', 1, T0, LIMITS)).toEqual({ ok: false, reason: 'room budget' });
+    expect(await reserveApiCalls(storage, budgetScope(null, 'u1'), 'findPano', 1, T0, LIMITS)).toEqual({ ok: true });
+    expect(storage.peek()[DAY].rooms).toEqual({ ROOM01: { findPano: 2, panoLoad: 5, resolvePano: 1 }, solo_u1: { findPano: 1 } });
+  });
+
+  it('refuses a charge that would take the day past the USD budget', async () => {
+    const storage = createMemoryBudgetStorage({ [DAY]: { total: 4 } });
+    const limits = { ...LIMITS, dailyBudgetUsd: 5 * COST };
+    expect(await reserveApiCalls(storage, 'ROOM01', 'findPano', 1, T0, limits)).toEqual({ ok: true });
+    expect(await reserveApiCalls(storage, 'ROOM01', 'findPano', 1, T0, limits)).toEqual({ ok: false, reason: 'daily budget' });
+    expect(storage.peek()[DAY].total).toBe(5);
+  });
+
+  it('concurrent reservations stop exactly at the cap', async () => {
+    const db = etagDatabase({ total: 5 });
+    const storage = createAdminBudgetStorage({ databaseURL: 'https://db.example', secret: 's3cret', fetchImpl: db.fetchImpl, maxRetries: 50 });
+    const scopes = Array.from({ length: 8 }, (_, i) => `solo_u${i}`);
+
+    const results = await Promise.all(scopes.map((scope) => reserveApiCalls(storage, scope, 'findPano', 1, T0, LIMITS)));
+    expect(results.filter((r) => r.ok)).toHaveLength(3);
+    expect(results.filter((r) => !r.ok)).toEqual(Array(5).fill({ ok: false, reason: 'daily budget' }));
+    expect(db.read()).toMatchObject({ total: 8, kinds: { findPano: 3 } });
+    expect(Object.keys((db.read()?.rooms as object) || {})).toHaveLength(3);
+  });
+
+  it('concurrent reservations in one room stop at the room cap', async () => {
+    const db = etagDatabase();
+    const storage = createAdminBudgetStorage({ databaseURL: 'https://db.example', secret: 's3cret', fetchImpl: db.fetchImpl, maxRetries: 50 });
+
+    const results = await Promise.all(Array.from({ length: 6 }, () => reserveApiCalls(storage, 'ROOM01', 'findPano', 1, T0, LIMITS)));
+    expect(results.filter((r) => r.ok)).toHaveLength(LIMITS.roomDailyCalls);
+    expect(db.read()).toEqual({ total: 3, kinds: { findPano: 3 }, rooms: { ROOM01: { findPano: 3 } } });
+  });
+});
+
+describe('recordApiCalls', () => {
+  it('clamps to the step size and the daily cap', async () => {
+    const storage = createMemoryBudgetStorage({ [DAY]: { total: 3 } });
+    expect(await recordApiCalls(storage, 'ROOM01', 'panoLoad', 6, T0, LIMITS)).toBe(4);
+    expect(await recordApiCalls(storage, 'ROOM02', 'panoLoad', 6, T0, LIMITS)).toBe(3);
+    expect(await recordApiCalls(storage, 'ROOM03', 'panoLoad', 1, T0, LIMITS)).toBe(0);
+    expect(storage.peek()[DAY]).toEqual({ total: 10, rooms: { ROOM01: { panoLoad: 4 }, ROOM02: { panoLoad: 3 } }, kinds: { panoLoad: 7 } });
+  });
+
+  it('clamps to the scope\'s daily pano loads', async () => {
+    const storage = createMemoryBudgetStorage({ [DAY]: { total: 0, rooms: { ROOM01: { panoLoad: 4 } } } });
+    expect(await recordApiCalls(storage, 'ROOM01', 'panoLoad', 4, T0, LIMITS)).toBe(2);
+    expect(await recordApiCalls(storage, 'ROOM01', 'panoLoad', 1, T0, LIMITS)).toBe(0);
+  });
+});
+
+// ==================== SERVER ====================
+
+describe('parseBudgetRequest', () => {
+  it('accepts reservations of metered kinds and records of pano loads', () => {
+    expect(parseBudgetRequest({ mode: 'reserve', kind: 'findPano', calls: 1, roomId: 'ROOM01' })).toEqual({ mode: 'reserve', kind: 'findPano', calls: 1, roomId: 'ROOM01' });
+    expect(parseBudgetRequest({ mode: 'record', kind: 'panoLoad', calls: 3 })).toEqual({ mode: 'record', kind: 'panoLoad', calls: 3, roomId: null });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseBudgetRequest({ mode: 'reserve', kind: 'panoLoad', calls: 1 })).toBeNull();
+    expect(parseBudgetRequest({ mode: 'record', kind: 'findPano', calls: 1 })).toBeNull();
+    expect(parseBudgetRequest({ mode: 'set', kind: 'findPano', calls: 1 })).toBeNull();
+    expect(parseBudgetRequest({ mode: 'record', kind: 'panoLoad', calls: 0 })).toBeNull();
+    expect(parseBudgetRequest({ mode: 'record', kind: 'panoLoad', calls: API_COST_CONTROL.MAX_BUDGET_STEP + 1 })).toBeNull();
+    expect(parseBudgetRequest({ mode: 'record', kind: 'panoLoad', calls: 1.5 })).toBeNull();
+    expect(parseBudgetRequest({ mode: 'reserve', kind: 'findPano', calls: 1, roomId: 'room01' })).toBeNull();
+    expect(parseBudgetRequest(null)).toBeNull();
+  });
+});
+
+describe('settleBudgetRequest', () => {
+  const reserve: BudgetRequest = { mode: 'reserve', kind: 'findPano', calls: 1, roomId: 'ROOM01' };
+
+  it('charges the room only for its players, solo calls to the caller\'s scope', async () => {
+    const storage = createMemoryBudgetStorage();
+    expect(await settleBudgetRequest(storage, rooms, 'u1', reserve, T0, LIMITS)).toEqual({ ok: true, reason: 'reserved', calls: 1 });
+    expect(await settleBudgetRequest(storage, rooms, 'u2', reserve, T0, LIMITS)).toEqual({ ok: false, reason: 'not in room', calls: 0 });
+    expect(await settleBudgetRequest(storage, rooms, 'u2', { ...reserve, roomId: null }, T0, LIMITS)).toMatchObject({ ok: true });
+    expect(storage.peek()[DAY].rooms).toEqual({ ROOM01: { findPano: 1 }, solo_u2: { findPano: 1 } });
+  });
+
+  it('reports refusals and the number of loads recorded', async () => {
+    const storage = createMemoryBudgetStorage({ [DAY]: { total: 8 } });
+    expect(await settleBudgetRequest(storage, rooms, 'u1', reserve, T0, LIMITS)).toEqual({ ok: false, reason: 'daily budget', calls: 0 });
+    const record: BudgetRequest = { mode: 'record', kind: 'panoLoad', calls: 4, roomId: 'ROOM01' };
+    expect(await settleBudgetRequest(storage, rooms, 'u1', record, T0, LIMITS)).toEqual({ ok: true, reason: 'recorded', calls: 2 });
+  });
+});
+
+// ==================== CLIENT ====================
+
+describe('spendStreetViewCall', () => {
+  it('allows every call without a ledger', async () => {
+    expect(await spendStreetViewCall('findPano', T0)).toBe(true);
+    expect(isApiBudgetDegraded(T0)).toBe(false);
+  });
+
+  it('degrades the refused scope until the next day', async () => {
+    const full = API_COST_CONTROL.MAX_ROOM_DAILY_API_CALLS;
+    const storage = createMemoryBudgetStorage({ [DAY]: { total: 0, rooms: { ROOM01: { findPano: full } } } });
+    installApiBudget((request) => settleBudgetRequest(storage, rooms, 'u1', request, T0));
+    setApiBudgetScope('ROOM01');
+
+    expect(await spendStreetViewCall('findPano', T0)).toBe(false);
+    expect(isApiBudgetDegraded(T0)).toBe(true);
+    expect(isApiBudgetDegraded(NEXT_DAY)).toBe(false);
+
+    setApiBudgetScope(null); // solo oyun kendi kapsamında devam eder
+    expect(isApiBudgetDegraded(T0)).toBe(false);
+    expect(await spendStreetViewCall('resolvePano', T0)).toBe(true);
+    expect(storage.peek()[DAY].rooms?.solo_u1).toEqual({ resolvePano: 1 });
+  });
+
+  it('refuses a single call when the ledger is unreachable', async () => {
+    installApiBudget(() => Promise.reject(new Error('offline')));
+    expect(await spendStreetViewCall('findPano', T0)).toBe(false);
+    expect(isApiBudgetDegraded(T0)).toBe(false);
+  });
+});
+
+describe('createRemoteBudgetLedger', () => {
+  it('POSTs the request with the caller\'s ID token, throws on HTTP errors', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ ok: true, reason: 'reserved', calls: 1 })))
+      .mockResolvedValueOnce(new Response('{}', { status: 401 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const ledger = createRemoteBudgetLedger(() => Promise.resolve('id-token'));
+    const request: BudgetRequest = { mode: 'reserve', kind: 'findPano', calls: 1, roomId: null };
+
+    expect(await ledger(request)).toEqual({ ok: true, reason: 'reserved', calls: 1 });
+    expect(fetchMock).toHaveBeenCalledWith('/api/budget', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer id-token' }),
+      body: JSON.stringify(request),
+    }));
+    await expect(ledger(request)).rejects.toThrow('HTTP 401');
+  });
+});
+
+// ==================== REPORT ====================
+
+describe('loadBudgetReport', () => {
+  it('summarizes spend per day, newest first', async () => {
+    const storage = createMemoryBudgetStorage({
+      [DAY]: {
+        total: 9,
+        kinds: { findPano: 4, panoLoad: 5 },
+        rooms: { ROOM01: { findPano: 1, panoLoad: 2 }, solo_u1: { findPano: 3, panoLoad: 3 } },
+      },
+    });
+    const report = await loadBudgetReport(storage, ['2026-10-17', DAY], LIMITS);
+
+    expect(report.days.map((day) => day.day)).toEqual([DAY, '2026-10-17']);
+    expect(report.days[0]).toMatchObject({
+      calls: 9,
+      ratio: 0.9,
+      degraded: true,
+      exhausted: false,
+      kinds: { findPano: 4, resolvePano: 0, panoLoad: 5 },
+    });
+    expect(report.days[0].costUsd).toBeCloseTo(9 * API_COST_CONTROL.STREET_VIEW_COST_PER_CALL);
+    expect(report.days[0].rooms.map((row) => [row.scope, row.calls])).toEqual([['solo_u1', 6], ['ROOM01', 3]]);
+    expect(report.days[1]).toMatchObject({ calls: 0, degraded: false, rooms: [] });
+    expect(report).toMatchObject({ dailyCalls: 10, degradeAt: 8, dailyBudgetUsd: API_COST_CONTROL.DAILY_API_BUDGET_USD });
+  });
+
+  it('keeps only the top rooms', () => {
+    const rooms = Object.fromEntries(['AAAAAA', 'BBBBBB', 'CCCCCC'].map((scope, index) => [scope, { findPano: index + 1 }]));
+    expect(summarizeBudgetDay(DAY, { total: 6, rooms }, LIMITS, 2).rooms.map((row) => row.scope)).toEqual(['CCCCCC', 'BBBBBB']);
+  });
+
+  it('admin storage GETs apiBudget/{day} with the database secret', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ total: 4 })))
+      .mockResolvedValueOnce(new Response(null, { status: 401 }));
+    const storage = createAdminBudgetStorage({ databaseURL: 'https://db.example/', secret: 's3cret', fetchImpl });
+    expect(await storage.getDay(DAY)).toEqual({ total: 4 });
+    expect(fetchImpl).toHaveBeenCalledWith(`https://db.example/apiBudget/${DAY}.json?auth=s3cret`);
+    await expect(storage.getDay('2026-10-19')).rejects.toThrow('GET apiBudget/2026-10-19 failed: HTTP 401');
+  });
+
+  it('admin storage charges total, kind and scope in one conditional PUT of apiBudget/{day}', async () => {
+    const db = etagDatabase({ total: 1, kinds: { panoLoad: 1 } });
+    const storage = createAdminBudgetStorage({ databaseURL: 'https://db.example', secret: 's3cret', fetchImpl: db.fetchImpl });
+    expect(await reserveApiCalls(storage, 'ROOM01', 'findPano', 2, T0, LIMITS)).toEqual({ ok: true });
+
+    expect(db.fetchImpl).toHaveBeenCalledTimes(2);
+    expect(db.fetchImpl).toHaveBeenLastCalledWith(`https://db.example/apiBudget/${DAY}.json?auth=s3cret`, expect.objectContaining({
+      method: 'PUT',
+      headers: expect.objectContaining({ 'if-match': '0' }),
+    }));
+    expect(db.read()).toEqual({ total: 3, kinds: { panoLoad: 1, findPano: 2 }, rooms: { ROOM01: { findPano: 2 } } });
+  });
+});
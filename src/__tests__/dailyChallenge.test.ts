@@ -0,0 +1,210 @@
+// @vitest-environment node
+/**
+ * Daily Challenge (Günün Turu) — Tests
+ *
+ * Tests cover:
+ * - Seeded RNG: same seed → same sequence, values in [0, 1)
+ * - Same date → same five packages, different dates → different sets
+ * - The day's first draw is pinned (dailyDraws), later reads return it unchanged
+ * - The dealer keys the day's seed with the server secret
+ * - Seeded draw keeps engine rules (no back-to-back il, no repeats) and leaves live state alone
+ * - Istanbul date key (day switches at 00:00 TRT), Pazar = geo
+ * - Emoji share card
+ * - One attempt per day (localStorage), write-once leaderboard + ranking
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createSeededRandom, hashSeed, keyedSeed } from '@/utils/random';
+import {
+  drawSeededPackages,
+  resetLocationEngine,
+  selectStaticPackage,
+  getAntiRepeatState,
+  setMapFilter,
+  getMapFilter,
+  _testExports,
+} from '@/services/locationEngine';
+import {
+  DAILY_ROUNDS,
+  DAILY_MAX_SCORE,
+  getDailyKey,
+  getDailyMode,
+  getDailyPackages,
+  loadDailyPackages,
+  DailyDraw,
+  DailyDrawStorage,
+  buildShareCard,
+  rankDailyEntries,
+  toDailyEntry,
+  loadDailyAttempt,
+  startDailyAttempt,
+  finishDailyAttempt,
+} from '@/services/dailyChallenge';
+import { SoloStorage } from '@/services/soloGame';
+import { createMemoryDailyLeaderboard } from './fakes';
+import { T0 } from './fixtures'; // 2023-11-14 22:13 UTC = 2023-11-15 01:13 TRT
+
+const { extractProvince } = _testExports;
+
+function memoryStorage(): SoloStorage {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: (key) => { data.delete(key); },
+  };
+}
+
+// ==================== SEEDED RNG ====================
+
+describe('createSeededRandom', () => {
+  it('replays the same sequence for the same seed', () => {
+    const a = createSeededRandom('gunun-turu:2024-03-01');
+    const b = createSeededRandom('gunun-turu:2024-03-01');
+    const c = createSeededRandom('gunun-turu:2024-03-02');
+    const seqA = Array.from({ length: 50 }, a);
+    expect(Array.from({ length: 50 }, b)).toEqual(seqA);
+    expect(Array.from({ length: 50 }, c)).not.toEqual(seqA);
+    seqA.forEach((v) => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    });
+    expect(hashSeed(42)).toBe(hashSeed('42'));
+  });
+});
+
+// ==================== DAILY DRAW ====================
+
+describe('getDailyPackages', () => {
+  beforeEach(() => {
+    resetLocationEngine();
+    setMapFilter(null);
+  });
+
+  it('gives everyone the same five packages on a given day', () => {
+    const first = getDailyPackages('2024-03-01').map((p) => p.id);
+    const replay = drawSeededPackages('urban', DAILY_ROUNDS, createSeededRandom('gunun-turu:2024-03-01')).map((p) => p.id);
+    expect(first).toHaveLength(DAILY_ROUNDS);
+    expect(replay).toEqual(first);
+    expect(getDailyPackages('2024-03-02').map((p) => p.id)).not.toEqual(first);
+  });
+
+  it('keeps the engine rules: no back-to-back il, no repeated package', () => {
+    for (let day = 1; day <= 20; day++) {
+      const seed = createSeededRandom(`rules:${day}`);
+      const packages = drawSeededPackages('urban', DAILY_ROUNDS, seed);
+      expect(new Set(packages.map((p) => p.id)).size).toBe(packages.length);
+      const provinces = packages.map((p) => extractProvince(p.locationName));
+      provinces.slice(1).forEach((province, i) => expect(province).not.toBe(provinces[i]));
+    }
+  });
+
+  it('does not touch the live game\'s anti-repeat state or map', () => {
+    setMapFilter({ type: 'regions', regions: ['ege'] });
+    selectStaticPackage('urban');
+    const before = getAntiRepeatState();
+
+    drawSeededPackages('urban', DAILY_ROUNDS, createSeededRandom('isolation'));
+    expect(getAntiRepeatState()).toEqual(before);
+    expect(getMapFilter()).toEqual({ type: 'regions', regions: ['ege'] });
+    setMapFilter(null);
+  });
+
+  it('uses the Istanbul date and geo on Sundays', () => {
+    expect(getDailyKey(T0)).toBe('2023-11-15');
+    expect(getDailyKey(Date.UTC(2024, 2, 1, 20, 59))).toBe('2024-03-01');
+    expect(getDailyKey(Date.UTC(2024, 2, 1, 21, 0))).toBe('2024-03-02');
+    expect(getDailyMode('2024-03-03')).toBe('geo'); // Pazar
+    expect(getDailyMode('2024-03-04')).toBe('urban');
+    expect(getDailyPackages('2024-03-03').every((p) => p.mode === 'geo')).toBe(true);
+  });
+
+  it('pins the first draw of a day, later pack revisions don\'t change it', async () => {
+    const draws = new Map<string, DailyDraw>();
+    const storage: DailyDrawStorage = {
+      getDraw: async (dateKey) => draws.get(dateKey) || null,
+      pinDraw: async (dateKey, draw) => {
+        if (!draws.has(dateKey)) draws.set(dateKey, draw);
+        return draws.get(dateKey)!;
+      },
+    };
+
+    const first = await loadDailyPackages('2024-03-01', storage, T0);
+    expect(first.map((p) => p.id)).toEqual(getDailyPackages('2024-03-01').map((p) => p.id));
+    expect(draws.get('2024-03-01')).toMatchObject({ drawnAt: T0, revision: expect.any(Number) });
+
+    const pinned = [...first].reverse();
+    draws.set('2024-03-01', { revision: 0, packages: pinned, drawnAt: T0 });
+    expect(await loadDailyPackages('2024-03-01', storage, T0 + 1)).toEqual(pinned);
+  });
+
+  it('keys the day\'s draw with the server secret — the date alone doesn\'t give it away', async () => {
+    const storage: DailyDrawStorage = { getDraw: async () => null, pinDraw: async (_dateKey, draw) => draw };
+    const keyed = (await loadDailyPackages('2024-03-01', storage, T0, null, 's3cret')).map((p) => p.id);
+
+    expect(keyed).not.toEqual(getDailyPackages('2024-03-01').map((p) => p.id));
+    expect(keyed).toEqual(getDailyPackages('2024-03-01', null, await keyedSeed('s3cret', 'gunun-turu:2024-03-01')).map((p) => p.id));
+    expect((await loadDailyPackages('2024-03-01', storage, T0, null, 'other')).map((p) => p.id)).not.toEqual(keyed);
+  });
+});
+
+// ==================== SHARE CARD ====================
+
+describe('buildShareCard', () => {
+  it('shows one square per round and the total, no locations', () => {
+    const card = buildShareCard('2024-03-01', [4900, 3200, 1500, 10, 0], 9610);
+    expect(card.split('\n')).toEqual([
+      '🇹🇷 TürkiyeGuessr — Günün Turu 2024-03-01',
+      '🟩🟨🟧🟥⬛',
+      `${(9610).toLocaleString('tr-TR')} / ${DAILY_MAX_SCORE.toLocaleString('tr-TR')}`,
+      'https://turkiyeguessr.xyz',
+    ]);
+    // Missing rounds (quit early) count as empty squares
+    expect(buildShareCard('2024-03-01', [4900], 4900).split('\n')[1]).toBe('🟩⬛⬛⬛⬛');
+  });
+});
+
+// ==================== ATTEMPTS + LEADERBOARD ====================
+
+describe('daily attempts', () => {
+  it('allows one attempt per day, starting counts', () => {
+    const storage = memoryStorage();
+    expect(startDailyAttempt('2024-03-01', T0, storage)).toBe(true);
+    expect(startDailyAttempt('2024-03-01', T0 + 1, storage)).toBe(false);
+    expect(loadDailyAttempt('2024-03-01', storage)).toMatchObject({ score: null });
+
+    finishDailyAttempt('2024-03-01', [5000, 0, 0, 0, 0], 5000, storage);
+    expect(loadDailyAttempt('2024-03-01', storage)).toMatchObject({ startedAt: T0, score: 5000 });
+    expect(startDailyAttempt('2024-03-01', T0 + 2, storage)).toBe(false);
+
+    // Next day is a fresh attempt
+    expect(loadDailyAttempt('2024-03-02', storage)).toBeNull();
+    expect(startDailyAttempt('2024-03-02', T0 + 3, storage)).toBe(true);
+  });
+});
+
+describe('daily leaderboard', () => {
+  it('accepts one entry per player per day and ranks by score, then finish time', async () => {
+    const board = createMemoryDailyLeaderboard();
+    const day = '2024-03-01';
+    expect(await board.submitEntry(day, 'a', toDailyEntry('Ayşe', [4000, 4000], 'urban', T0 + 20))).toBe(true);
+    expect(await board.submitEntry(day, 'b', toDailyEntry('Bora', [5000, 3000], 'urban', T0 + 10))).toBe(true);
+    expect(await board.submitEntry(day, 'c', toDailyEntry('Cem', [100], 'urban', T0))).toBe(true);
+    expect(await board.submitEntry(day, 'a', toDailyEntry('Ayşe', [5000, 5000], 'urban', T0 + 30))).toBe(false);
+
+    const ranked = rankDailyEntries(await board.getEntries(day));
+    expect(ranked.map((r) => [r.rank, r.uid, r.score])).toEqual([
+      [1, 'b', 8000],
+      [2, 'a', 8000],
+      [3, 'c', 100],
+    ]);
+    expect(rankDailyEntries(await board.getEntries('2024-03-02'))).toEqual([]);
+  });
+
+  it('clamps entries to what the rules accept', () => {
+    const entry = toDailyEntry('  Çok uzun bir oyuncu adı burada  ', [6000, -5, 2500.6, 1, 1, 1], 'geo', T0);
+    expect(entry.name).toHaveLength(20);
+    expect(entry.rounds).toEqual([5000, 0, 2501, 1, 1]);
+    expect(entry.score).toBe(7503);
+  });
+});
@@ -0,0 +1,162 @@
+// @vitest-environment node
+/**
+ * Difficulty Calibration — Tests
+ *
+ * Tests cover:
+ * - Observed tiers follow the median score, split with the DIFFICULTY_MIX percentiles
+ * - Packages under CALIBRATION_MIN_GUESSES keep their heuristic tier
+ * - Drift report: heuristic → observed matrix, agreement, biggest jumps first
+ * - Engine: calibrated tiers drive selectFromTier; seeded draws ignore them
+ * - Pipeline: job publishes tiers from the snapshot, client loads them into the engine
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  AccuracyStats,
+  buildAccuracySnapshot,
+  emptyAggregate,
+  foldSamples,
+  runAccuracyAggregation,
+} from '@/services/accuracyStats';
+import {
+  CALIBRATION_MIN_GUESSES,
+  HeuristicTier,
+  calibrateDifficulty,
+  formatDriftReport,
+  loadDifficultyCalibration,
+  runDifficultyCalibration,
+} from '@/services/difficultyCalibration';
+import {
+  Difficulty,
+  drawSeededPackages,
+  getEnrichedPackages,
+  resetLocationEngine,
+  setDifficultyCalibration,
+  setMapFilter,
+  _testExports,
+} from '@/services/locationEngine';
+import { createSeededRandom } from '@/utils/random';
+import { createMemoryAccuracyStorage } from './fakes';
+import { T0 } from './fixtures';
+
+const { selectFromTier, tierOf } = _testExports;
+
+function heuristic(id: string, difficulty: Difficulty): HeuristicTier {
+  return { pkg: { id }, difficulty };
+}
+
+function observed(medianScore: number, guesses: number = CALIBRATION_MIN_GUESSES, averageDistance: number = 50): AccuracyStats {
+  return { guesses, averageDistance, medianScore };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  resetLocationEngine();
+  setMapFilter(null);
+});
+
+afterEach(() => {
+  setDifficultyCalibration(null);
+});
+
+// ==================== CALIBRATION ====================
+
+describe('calibrateDifficulty', () => {
+  // 20 packages, all heuristically "medium"; p0 scores best … p19 worst
+  const packages = Array.from({ length: 20 }, (_, i) => heuristic(`p${i}`, 'medium'));
+  const stats: Record<string, AccuracyStats> = {};
+  packages.forEach((ep, i) => { stats[ep.pkg.id] = observed(4950 - i * 200); });
+
+  it('re-tiers by median score with the 15/55/30 mix', () => {
+    const { calibration } = calibrateDifficulty(packages, stats, T0);
+    const tiers = packages.map((ep) => calibration.tiers[ep.pkg.id]);
+    expect(tiers.filter((t) => t === 'easy')).toHaveLength(3);
+    expect(tiers.filter((t) => t === 'medium')).toHaveLength(11);
+    expect(tiers.filter((t) => t === 'hard')).toHaveLength(6);
+    expect(tiers.slice(0, 3)).toEqual(['easy', 'easy', 'easy']);
+    expect(calibration.tiers.p19).toBe('hard');
+    expect(calibration.generatedAt).toBe(T0);
+  });
+
+  it('leaves packages without enough guesses on their heuristic tier', () => {
+    const sparse = { ...stats, p0: observed(5000, CALIBRATION_MIN_GUESSES - 1) };
+    const { calibration, report } = calibrateDifficulty([...packages, heuristic('new', 'hard')], sparse, T0);
+    expect(calibration.tiers.p0).toBeUndefined();
+    expect(calibration.tiers.new).toBeUndefined();
+    expect(report.calibrated).toBe(19);
+    expect(report.uncalibrated).toBe(2);
+  });
+
+  it('reports drift between heuristic and observed tiers', () => {
+    const mixed = [heuristic('a', 'hard'), heuristic('b', 'medium'), heuristic('c', 'easy'), ...packages.slice(3)];
+    const mixedStats = { ...stats, a: observed(5000), b: observed(4990), c: observed(10) };
+    const { report } = calibrateDifficulty(mixed, mixedStats, T0);
+
+    expect(report.matrix.hard.easy).toBe(1);     // a: heuristic hard, players nail it
+    expect(report.matrix.easy.hard).toBe(1);     // c: heuristic easy, nobody finds it
+    expect(report.moved.slice(0, 2).map((d) => [d.packageId, d.heuristic, d.observed])).toEqual([
+      ['a', 'hard', 'easy'],
+      ['c', 'easy', 'hard'],
+    ]);
+    expect(report.agreement).toBeCloseTo((20 - report.moved.length) / 20, 2);
+
+    const text = formatDriftReport(report, 2);
+    expect(text).toContain('a: hard → easy (median 5000');
+    expect(text).toContain(`... and ${report.moved.length - 2} more`);
+  });
+});
+
+// ==================== ENGINE ====================
+
+describe('engine with calibrated tiers', () => {
+  it('selectFromTier picks by the calibrated tier', () => {
+    const urban = getEnrichedPackages('urban').filter((ep) => !ep.bannedUrban);
+    const target = urban.find((ep) => ep.difficulty === 'hard')!;
+    const candidates = urban.filter((ep) => ep.province === target.province);
+
+    setDifficultyCalibration({ generatedAt: T0, tiers: { [target.pkg.id]: 'easy' } });
+    expect(tierOf(target)).toBe('easy');
+    const picked = selectFromTier(candidates.filter((ep) => ep.pkg.id === target.pkg.id), 'easy');
+    expect(picked?.pkg.id).toBe(target.pkg.id);
+    expect(selectFromTier([target], 'hard')).toBeNull();
+
+    setDifficultyCalibration(null);
+    expect(tierOf(target)).toBe('hard');
+  });
+
+  it('seeded draws are the same with or without calibration', () => {
+    const before = drawSeededPackages('urban', 5, createSeededRandom('gunun-turu:2024-03-01')).map((p) => p.id);
+    const tiers: Record<string, Difficulty> = {};
+    getEnrichedPackages('urban').forEach((ep) => { tiers[ep.pkg.id] = 'hard'; });
+    setDifficultyCalibration({ generatedAt: T0, tiers });
+    expect(drawSeededPackages('urban', 5, createSeededRandom('gunun-turu:2024-03-01')).map((p) => p.id)).toEqual(before);
+    expect(tierOf(getEnrichedPackages('urban')[0])).toBe('hard');
+  });
+});
+
+// ==================== PIPELINE ====================
+
+describe('calibration pipeline', () => {
+  it('publishes tiers from the snapshot and loads them into the engine', async () => {
+    const storage = createMemoryAccuracyStorage();
+    expect(await runDifficultyCalibration(storage, [], T0)).toBeNull();
+
+    const target = getEnrichedPackages('urban')[0];
+    const samples = Array.from({ length: CALIBRATION_MIN_GUESSES }, () => ({
+      packageId: target.pkg.id, province: null, region: null, score: 0, distance: 800,
+    }));
+    await storage.transactAccuracy(() => ({ stats: buildAccuracySnapshot(foldSamples(emptyAggregate(), samples), T0) }));
+
+    const report = await runDifficultyCalibration(storage, [target], T0 + 1);
+    expect(report?.calibrated).toBe(1);
+    expect((await storage.getCalibration())?.tiers).toEqual({ [target.pkg.id]: 'hard' });
+
+    // Next aggregation keeps the published tiers
+    await storage.addSamples('r1', [samples[0]]);
+    expect(await runAccuracyAggregation(storage, T0 + 2)).toBe(1);
+    expect(await storage.getCalibration()).not.toBeNull();
+
+    expect(await loadDifficultyCalibration(storage)).toBe(1);
+    expect(tierOf(target)).toBe('hard');
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * In-memory storages — test fakes for the service storage interfaces
+ *
+ * Same semantics as the Firebase / admin adapters (write-once adds,
+ * transactions whose updater aborts by returning undefined), kept out of the
+ * runtime modules so they never ship with the app.
+ */
+
+import { Player, Room, RoundAnswer } from '@/types';
+import { RoomStorageAdapter, RoundAnswerStorage } from '@/services/roomStorage';
+import { BudgetDay, BudgetStorage } from '@/services/apiBudget';
+import { DailyEntry, DailyLeaderboardStorage } from '@/services/dailyChallenge';
+import { PlayerProfile, ProfileStorage, applyGameToProfile } from '@/services/playerProfile';
+import { LocationReport, Quarantine, ReportQuota, ReportStorage } from '@/services/locationReports';
+import { LocationSubmission, SubmissionStorage } from '@/services/locationSubmissions';
+import { LeaderboardEntry, LeaderboardStorage, ScoreCounts, applyCountDeltas, mergeIntoBoard } from '@/services/leaderboard';
+import { AccuracyNode, AccuracyStorage } from '@/services/accuracyStats';
+import { OpsStorage, TelemetryDay } from '@/services/opsMetrics';
+import { JanitorStorage } from '@/services/roomJanitor';
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// ==================== ROOMS ====================
+
+export interface MemoryRoomStorage extends RoomStorageAdapter, RoundAnswerStorage {
+  /** Fire registered onDisconnect handlers for a player (simulated socket drop) */
+  simulateDisconnect(playerId: string): void;
+  setServerTimeOffset(offsetMs: number): void;
+  /** Synchronous peek for assertions */
+  peekRoom(roomId: string): Room | null;
+  peekRoundAnswer(roomId: string, roundId: number): RoundAnswer | null;
+}
+
+interface MemoryRoomStorageOptions {
+  now?: () => number;
+  serverTimeOffset?: number;
+}
+
+export function createMemoryRoomStorage(options: MemoryRoomStorageOptions = {}): MemoryRoomStorage {
+  const now = options.now || (() => Date.now());
+  let serverTimeOffset = options.serverTimeOffset || 0;
+
+  const rooms = new Map<string, Room>();
+  const answers = new Map<string, RoundAnswer>(); // key: `${roomId}/${roundId}`
+  const listeners = new Map<string, Set<(room: Room | null) => void>>();
+  const disconnectHandlers = new Map<string, { roomId: string; playerId: string; patch: Partial<Player> }>();
+  let handlerSeq = 0;
+
+  const read = (roomId: string): Room | null => clone(rooms.get(roomId) || null);
+
+  const write = (roomId: string, room: Room | null) => {
+    if (room) rooms.set(roomId, clone(room));
+    else rooms.delete(roomId);
+    listeners.get(roomId)?.forEach((listener) => listener(read(roomId)));
+  };
+
+  const patchPlayer = (roomId: string, playerId: string, patch: Record<string, unknown>) => {
+    const room = read(roomId);
+    if (!room?.players?.[playerId]) return;
+    room.players[playerId] = { ...room.players[playerId], ...patch };
+    write(roomId, room);
+  };
+
+  const storage: MemoryRoomStorage = {
+    async getRoom(roomId) {
+      return read(roomId);
+    },
+    async setRoom(roomId, room) {
+      write(roomId, room);
+    },
+    async updateRoom(roomId, patch) {
+      const room = read(roomId);
+      if (!room) return;
+      write(roomId, { ...room, ...clone(patch) });
+    },
+    async removeRoom(roomId) {
+      write(roomId, null);
+    },
+
+    async setPlayer(roomId, player) {
+      const room = read(roomId);
+      if (!room) return;
+      write(roomId, { ...room, players: { ...(room.players || {}), [player.id]: clone(player) } });
+    },
+    async updatePlayer(roomId, playerId, patch) {
+      patchPlayer(roomId, playerId, clone(patch));
+    },
+    async removePlayer(roomId, playerId) {
+      const room = read(roomId);
+      if (!room?.players?.[playerId]) return;
+      delete room.players[playerId];
+      write(roomId, room);
+    },
+
+    async transactRoom(roomId, updater) {
+      const next = updater(read(roomId));
+      if (next === undefined) return { committed: false, value: read(roomId) };
+      write(roomId, next);
+      return { committed: true, value: read(roomId) };
+    },
+    async transactPlayer(roomId, playerId, updater) {
+      const room = read(roomId);
+      const next = updater(room?.players?.[playerId] || null);
+      if (next === undefined) return { committed: false, value: room?.players?.[playerId] || null };
+      if (room) {
+        if (next) room.players = { ...(room.players || {}), [playerId]: next };
+        else delete room.players[playerId];
+        write(roomId, room);
+      }
+      return { committed: true, value: next };
+    },
+    async incrementGuessCount(roomId) {
+      const room = read(roomId);
+      if (!room) return;
+      write(roomId, { ...room, currentGuesses: (room.currentGuesses || 0) + 1 });
+    },
+    async touchServerNow(roomId) {
+      const room = read(roomId);
+      if (!room) return;
+      write(roomId, { ...room, meta: { ...(room.meta || {}), serverNow: storage.getServerNow() } });
+    },
+
+    async setRoundAnswer(roomId, answer) {
+      answers.set(`${roomId}/${answer.roundId}`, clone(answer));
+    },
+    async getRoundAnswer(roomId, roundId) {
+      return clone(answers.get(`${roomId}/${roundId}`) || null);
+    },
+
+    subscribeRoom(roomId, listener) {
+      if (!listeners.has(roomId)) listeners.set(roomId, new Set());
+      listeners.get(roomId)!.add(listener);
+      listener(read(roomId));
+      return () => {
+        listeners.get(roomId)?.delete(listener);
+      };
+    },
+    onPlayerDisconnect(roomId, playerId, patch) {
+      const key = `${++handlerSeq}`;
+      disconnectHandlers.set(key, { roomId, playerId, patch: clone(patch) });
+      return () => {
+        disconnectHandlers.delete(key);
+      };
+    },
+
+    getServerNow() {
+      return now() + serverTimeOffset;
+    },
+
+    simulateDisconnect(playerId) {
+      disconnectHandlers.forEach((handler, key) => {
+        if (handler.playerId !== playerId) return;
+        disconnectHandlers.delete(key);
+        patchPlayer(handler.roomId, handler.playerId, handler.patch);
+      });
+    },
+    setServerTimeOffset(offsetMs) {
+      serverTimeOffset = offsetMs;
+    },
+    peekRoom(roomId) {
+      return read(roomId);
+    },
+    peekRoundAnswer(roomId, roundId) {
+      return clone(answers.get(`${roomId}/${roundId}`) || null);
+    },
+  };
+
+  return storage;
+}
+
+// ==================== API BUDGET ====================
+
+export function createMemoryBudgetStorage(days: Record<string, BudgetDay> = {}): BudgetStorage & { peek(): Record<string, BudgetDay> } {
+
+  return {
+    async transactDay(day, updater) {
+      const current = days[day] ? clone(days[day]) : null;
+      const next = updater(current);
+      if (next === undefined) return { committed: false, value: current };
+      if (next === null) delete days[day];
+      else days[day] = clone(next);
+      return { committed: true, value: next };
+    },
+    async getDay(day) {
+      return days[day] ? clone(days[day]) : null;
+    },
+    peek() {
+      return clone(days);
+    },
+  };
+}
+
+// ==================== GÜNÜN TURU ====================
+
+/** Günün Turu board with the same write-once semantics */
+export function createMemoryDailyLeaderboard(): DailyLeaderboardStorage {
+  const days = new Map<string, Record<string, DailyEntry>>();
+  return {
+    async submitEntry(dateKey, uid, entry) {
+      const day = days.get(dateKey) || {};
+      if (day[uid]) return false;
+      days.set(dateKey, { ...day, [uid]: { ...entry, rounds: [...entry.rounds] } });
+      return true;
+    },
+    async getEntries(dateKey) {
+      return { ...(days.get(dateKey) || {}) };
+    },
+  };
+}
+
+// ==================== PLAYER PROFILES ====================
+
+/** Profile store with the Firebase adapter's semantics */
+export function createMemoryProfileStorage(): ProfileStorage {
+  const profiles = new Map<string, PlayerProfile>();
+  return {
+    async getProfile(uid) {
+      const profile = profiles.get(uid);
+      return profile ? clone(profile) : null;
+    },
+    async createProfile(uid, profile) {
+      if (profiles.has(uid)) return false;
+      profiles.set(uid, clone(profile));
+      return true;
+    },
+    async deleteProfile(uid) {
+      profiles.delete(uid);
+    },
+    async recordGame(uid, game) {
+      const before = profiles.get(uid);
+      if (!before) return null;
+      const after = applyGameToProfile(before, game);
+      if (after === before) return null;
+      profiles.set(uid, clone(after));
+      return { before: clone(before), after: clone(after) };
+    },
+  };
+}
+
+// ==================== LOCATION REPORTS ====================
+
+export function createMemoryReportStorage(): ReportStorage {
+  const reports = new Map<string, Record<string, LocationReport>>();
+  const quotas = new Map<string, ReportQuota>();
+  let quarantine: Quarantine = {};
+  return {
+    async addReport(packageId, uid, report) {
+      const own = reports.get(packageId) || {};
+      if (own[uid]) return false;
+      reports.set(packageId, { ...own, [uid]: report });
+      return true;
+    },
+    async getReports(packageId) {
+      return { ...(reports.get(packageId) || {}) };
+    },
+    async getQuarantine() {
+      return { ...quarantine };
+    },
+    async transactQuarantine(packageId, updater) {
+      const current = quarantine[packageId] ?? null;
+      const next = updater(current);
+      if (next === undefined) return { committed: false, value: current };
+      const updated = { ...quarantine };
+      if (next === null) delete updated[packageId];
+      else updated[packageId] = next;
+      quarantine = updated;
+      return { committed: true, value: next };
+    },
+    async transactQuota(uid, updater) {
+      const current = quotas.get(uid) ?? null;
+      const next = updater(current);
+      if (next === undefined) return { committed: false, value: current };
+      if (next === null) quotas.delete(uid);
+      else quotas.set(uid, next);
+      return { committed: true, value: next };
+    },
+  };
+}
+
+// ==================== LOCATION SUBMISSIONS ====================
+
+export function createMemorySubmissionStorage(): SubmissionStorage {
+  const data = new Map<string, Record<string, LocationSubmission>>();
+  const quotas = new Map<string, ReportQuota>();
+  return {
+    async addSubmission(uid, id, submission) {
+      const own = data.get(uid) || {};
+      if (own[id]) return false;
+      data.set(uid, { ...own, [id]: submission });
+      return true;
+    },
+    async getSubmissions(uid) {
+      return { ...(data.get(uid) || {}) };
+    },
+    async getAllSubmissions() {
+      const all: Record<string, Record<string, LocationSubmission>> = {};
+      data.forEach((own, uid) => { all[uid] = { ...own }; });
+      return all;
+    },
+    async transactSubmission(uid, id, updater) {
+      const current = data.get(uid)?.[id] ?? null;
+      const next = updater(current);
+      if (next === undefined) return { committed: false, value: current };
+      const own = { ...(data.get(uid) || {}) };
+      if (next === null) delete own[id];
+      else own[id] = next;
+      data.set(uid, own);
+      return { committed: true, value: next };
+    },
+    async transactQuota(uid, updater) {
+      const current = quotas.get(uid) ?? null;
+      const next = updater(current);
+      if (next === undefined) return { committed: false, value: current };
+      if (next === null) quotas.delete(uid);
+      else quotas.set(uid, next);
+      return { committed: true, value: next };
+    },
+  };
+}
+
+// ==================== LEADERBOARDS ====================
+
+/** Boards with the same write-once + trim semantics, plus untrimmed bests and score counts */
+export function createMemoryLeaderboard(): LeaderboardStorage {
+  const boards = new Map<string, Record<string, LeaderboardEntry>>();
+  const bests = new Map<string, number>();
+  const counts = new Map<string, ScoreCounts>();
+  return {
+    async getBoard(boardId) {
+      return { ...(boards.get(boardId) || {}) };
+    },
+    async addEntries(boardId, entries) {
+      const merged = mergeIntoBoard(boards.get(boardId) || null, entries);
+      if (!merged) return 0;
+      boards.set(boardId, merged.board);
+      return merged.added;
+    },
+    async getBest(boardId, uid) {
+      return bests.get(`${boardId}/${uid}`) ?? null;
+    },
+    async raiseBest(boardId, uid, score) {
+      const previous = bests.get(`${boardId}/${uid}`) ?? null;
+      if (previous !== null && previous >= score) return { raised: false, previous };
+      bests.set(`${boardId}/${uid}`, score);
+      return { raised: true, previous };
+    },
+    async getCounts(boardId) {
+      return { ...(counts.get(boardId) || {}) };
+    },
+    async adjustCounts(boardId, deltas) {
+      counts.set(boardId, applyCountDeltas(counts.get(boardId) || null, deltas));
+    },
+  };
+}
+
+// ==================== ACCURACY STATS ====================
+
+/** The accuracy/ node */
+export function createMemoryAccuracyStorage(): AccuracyStorage {
+  let node: AccuracyNode | null = null;
+  return {
+    async addSamples(sampleId, samples) {
+      if (samples.length === 0) return;
+      node = { ...(node || {}), samples: { ...(node?.samples || {}), [sampleId]: clone(samples) } };
+    },
+    async getSnapshot() {
+      return node?.stats ? clone(node.stats) : null;
+    },
+    async getCalibration() {
+      return node?.calibration ? clone(node.calibration) : null;
+    },
+    async setCalibration(calibration) {
+      node = { ...(node || {}), calibration: clone(calibration) };
+    },
+    async transactAccuracy(updater) {
+      const next = updater(node ? clone(node) : null);
+      if (next === undefined) return { committed: false, value: node };
+      node = next ? clone(next) : null;
+      return { committed: true, value: node };
+    },
+  };
+}
+
+// ==================== OPS METRICS ====================
+
+export function createMemoryOpsStorage(days: Record<string, TelemetryDay> = {}): OpsStorage {
+  return {
+    async getTelemetryDay(day) {
+      return days[day] || null;
+    },
+  };
+}
+
+// ==================== ROOM JANITOR ====================
+
+export function createMemoryJanitorStorage(
+  initialRooms: Record<string, Room> = {},
+  roundAnswerRoomIds: string[] = []
+): JanitorStorage & { peekRooms(): Record<string, Room>; peekAnswerRoomIds(): string[] } {
+  let rooms = clone(initialRooms);
+  const answers = new Set(roundAnswerRoomIds);
+  return {
+    async getRooms() {
+      return clone(rooms);
+    },
+    async getRoundAnswerRoomIds() {
+      return Array.from(answers);
+    },
+    async transactRoom(roomId, updater) {
+      const current = rooms[roomId] ? clone(rooms[roomId]) : null;
+      const next = updater(current);
+      if (next === undefined) return { committed: false, value: current };
+      const updated = { ...rooms };
+      if (next === null) delete updated[roomId];
+      else updated[roomId] = clone(next);
+      rooms = updated;
+      return { committed: true, value: next };
+    },
+    async removeRoundAnswers(roomId) {
+      answers.delete(roomId);
+    },
+    peekRooms() {
+      return clone(rooms);
+    },
+    peekAnswerRoomIds() {
+      return Array.from(answers);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Shared test fixtures — players and rooms in a known state
+ *
+ * Suites run on the fixed clock T0; createPlayer / createRoom return a
+ * complete, valid object that each test overrides field by field.
+ */
+
+import { Player, Room } from '@/types';
+
+export const T0 = 1_700_000_000_000;
+
+/** Online player who joined at T0 — 'host' is the host */
+export function createPlayer(id: string, overrides: Partial<Player> = {}): Player {
+  return {
+    id,
+    name: `Oyuncu ${id}`,
+    isHost: id === 'host',
+    totalScore: 0,
+    currentGuess: null,
+    hasGuessed: false,
+    roundScores: [],
+    movesUsed: 0,
+    status: 'online',
+    lastSeen: T0,
+    disconnectedAt: null,
+    sessionToken: `t_${id}`,
+    joinedAt: T0,
+    ...overrides,
+  };
+}
+
+/** Room ROOM01 in the lobby, hosted by 'host', created at T0 */
+export function createRoom(overrides: Partial<Room> = {}): Room {
+  return {
+    id: 'ROOM01',
+    hostId: 'host',
+    status: 'waiting',
+    currentRound: 0,
+    totalRounds: 5,
+    players: {},
+    gameMode: 'urban',
+    timeLimit: 90,
+    moveLimit: 3,
+    currentPanoPackageId: null,
+    currentPanoPackage: null,
+    currentLocation: null,
+    currentLocationName: null,
+    roundResults: null,
+    roundStartTime: null,
+    roundState: 'waiting',
+    roundVersion: 0,
+    activePlayerCount: 0,
+    expectedGuesses: 0,
+    currentGuesses: 0,
+    createdAt: T0,
+    ...overrides,
+  };
+}
+
+/** Room.players keyed by id */
+export function playersOf(...players: Player[]): Record<string, Player> {
+  return Object.fromEntries(players.map((player) => [player.id, player]));
+}
@@ -0,0 +1,271 @@
+// @vitest-environment node
+/**
+ * Leaderboards — Tests
+ *
+ * Tests cover:
+ * - ISO week keys in Istanbul time, board ids and the fan-out per entry
+ * - Entries only from a scored final round: min rounds, score caps, totalScore match
+ * - Only comparable games: no il-list maps, no non-default scoring profiles
+ * - One entry per game per player: write-once ids, retried fan-out is a no-op
+ * - Boards trimmed to LEADERBOARD_MAX_ENTRIES, ranking ties, pagination, "your rank"
+ * - Player standings from untrimmed bests + score counts, past the kept list
+ * - Scoring authority feeds the boards when it scores the final round
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Room, Player, SCORING } from '@/types';
+import {
+  LEADERBOARD_MAX_ENTRIES,
+  LEADERBOARD_MIN_ROUNDS,
+  LeaderboardEntry,
+  boardIdsForEntry,
+  buildLeaderboardEntries,
+  findPlayerRank,
+  applyCountDeltas,
+  getBoardId,
+  getPlayerStanding,
+  getWeekKey,
+  isBoardId,
+  mergeIntoBoard,
+  pageLeaderboard,
+  rankLeaderboard,
+  recordFinishedGame,
+  standingFromCounts,
+} from '@/services/leaderboard';
+import { createScoringAuthority } from '@/services/scoringAuthority';
+import { createMemoryLeaderboard, createMemoryRoomStorage } from './fakes';
+import { T0, createPlayer, createRoom, playersOf } from './fixtures'; // T0 = Çarşamba 2023-11-15 01:13 TRT
+
+// ==================== HELPERS ====================
+
+/** Guessed every round so far; totalScore matches the round scores */
+function scoredPlayer(id: string, roundScores: number[], overrides: Partial<Player> = {}): Player {
+  return createPlayer(id, { hasGuessed: true, roundScores, totalScore: roundScores.reduce((sum, s) => sum + s, 0), ...overrides });
+}
+
+/** Final round (3/3) scored — scores are final */
+function finishedRoom(overrides: Partial<Room> = {}): Room {
+  return createRoom({
+    status: 'roundEnd',
+    currentRound: 3,
+    totalRounds: 3,
+    players: playersOf(scoredPlayer('host', [5000, 4000, 3000]), scoredPlayer('p2', [1000, 2000, 3000])),
+    mapFilter: null,
+    currentLocation: { lat: 41, lng: 29 },
+    currentLocationName: 'Kadıköy, İstanbul',
+    roundResults: [{ playerId: 'host', playerName: 'Oyuncu host', guess: { lat: 41, lng: 29 }, distance: 0, score: 3000 }],
+    roundStartTime: T0 - 60_000,
+    roundState: 'ended',
+    roundVersion: 3,
+    activePlayerCount: 2,
+    expectedGuesses: 2,
+    currentGuesses: 2,
+    lastActivityAt: T0,
+    ...overrides,
+  });
+}
+
+function entry(uid: string, score: number, finishedAt: number = T0): LeaderboardEntry {
+  return { uid, name: uid, score, rounds: 5, mode: 'urban', region: null, roomId: 'ROOM01', finishedAt };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+// ==================== BOARD IDS ====================
+
+describe('board ids', () => {
+  it('uses the ISO week of the Istanbul date', () => {
+    expect(getWeekKey(T0)).toBe('2023-W46');
+    // Pazar 23:59 TRT vs Pazartesi 00:00 TRT
+    expect(getWeekKey(Date.UTC(2024, 2, 3, 20, 59))).toBe('2024-W09');
+    expect(getWeekKey(Date.UTC(2024, 2, 3, 21, 0))).toBe('2024-W10');
+    // 1 Ocak 2021 Cuma → önceki yılın 53. haftası
+    expect(getWeekKey(Date.UTC(2021, 0, 1, 12))).toBe('2020-W53');
+  });
+
+  it('fans an entry out to all-time + weekly, overall, mode and region boards', () => {
+    expect(getBoardId('alltime', { type: 'all' }, T0)).toBe('alltime');
+    expect(getBoardId('weekly', { type: 'mode', mode: 'geo' }, T0)).toBe('2023-W46_geo');
+    expect(boardIdsForEntry({ ...entry('a', 1), region: 'ege' })).toEqual([
+      'alltime', 'alltime_urban', 'alltime_ege',
+      '2023-W46', '2023-W46_urban', '2023-W46_ege',
+    ]);
+    expect(boardIdsForEntry(entry('a', 1))).toHaveLength(4);
+    boardIdsForEntry({ ...entry('a', 1), region: 'dogu_anadolu' }).forEach((id) => expect(isBoardId(id)).toBe(true));
+    expect(isBoardId('hepsi')).toBe(false);
+  });
+});
+
+// ==================== ENTRIES ====================
+
+describe('buildLeaderboardEntries', () => {
+  it('creates one entry per player, keyed by game + uid', () => {
+    const { entries, rejected } = buildLeaderboardEntries(finishedRoom({ mapFilter: { type: 'regions', regions: ['ege'] } }));
+    expect(rejected).toEqual([]);
+    expect(Object.keys(entries)).toEqual([`ROOM01_${T0 - 60_000}_host`, `ROOM01_${T0 - 60_000}_p2`]);
+    expect(entries[`ROOM01_${T0 - 60_000}_host`]).toEqual({
+      uid: 'host', name: 'Oyuncu host', score: 12000, rounds: 3, mode: 'urban', region: 'ege', roomId: 'ROOM01', finishedAt: T0,
+    });
+    // Multi-region map → no region board
+    const multi = buildLeaderboardEntries(finishedRoom({ mapFilter: { type: 'regions', regions: ['ege', 'akdeniz'] } }));
+    expect(Object.values(multi.entries).every((e) => e.region === null)).toBe(true);
+  });
+
+  it('ignores games that are not over or too short', () => {
+    expect(buildLeaderboardEntries(finishedRoom({ currentRound: 2 })).entries).toEqual({});
+    expect(buildLeaderboardEntries(finishedRoom({ roundResults: null })).entries).toEqual({});
+    expect(buildLeaderboardEntries(finishedRoom({ status: 'playing' })).entries).toEqual({});
+    const short = finishedRoom({ currentRound: 2, totalRounds: 2 });
+    expect(LEADERBOARD_MIN_ROUNDS).toBeGreaterThan(2);
+    expect(buildLeaderboardEntries(short).entries).toEqual({});
+  });
+
+  it('leaves out il-list maps and non-default scoring profiles', () => {
+    const provinces = buildLeaderboardEntries(finishedRoom({ mapFilter: { type: 'provinces', provinces: ['İstanbul'] } }));
+    expect(provinces).toEqual({ entries: {}, rejected: [] });
+    expect(buildLeaderboardEntries(finishedRoom({ scoringProfile: 'provinceBonus' })).entries).toEqual({});
+    expect(buildLeaderboardEntries(finishedRoom({ scoringProfile: 'districtZone' })).entries).toEqual({});
+    // Default profile, explicit or missing, is ranked
+    expect(Object.keys(buildLeaderboardEntries(finishedRoom({ scoringProfile: 'exponential' })).entries)).toHaveLength(2);
+    expect(Object.keys(buildLeaderboardEntries(finishedRoom({ scoringProfile: undefined })).entries)).toHaveLength(2);
+  });
+
+  it('rejects players whose scores fail validation', () => {
+    const room = finishedRoom({
+      players: {
+        host: scoredPlayer('host', [5000, 4000, 3000]),
+        late: scoredPlayer('late', [3000, 3000]),                                   // joined late
+        capped: scoredPlayer('capped', [SCORING.maxScore + 1, 0, 0]),               // over the cap
+        forged: scoredPlayer('forged', [100, 100, 100], { totalScore: 15000 }),     // totalScore mismatch
+      },
+    });
+    const { entries, rejected } = buildLeaderboardEntries(room);
+    expect(Object.values(entries).map((e) => e.uid)).toEqual(['host']);
+    expect(rejected.sort()).toEqual(['capped', 'forged', 'late']);
+  });
+});
+
+// ==================== BOARDS ====================
+
+describe('boards', () => {
+  it('never overwrites an entry and trims to the best entries', () => {
+    const first = mergeIntoBoard(null, { a: entry('a', 100) });
+    expect(first?.added).toBe(1);
+    expect(mergeIntoBoard(first!.board, { a: entry('a', 25000) })).toBeNull();
+
+    const full: Record<string, LeaderboardEntry> = {};
+    for (let i = 0; i < LEADERBOARD_MAX_ENTRIES; i++) full[`e${i}`] = entry(`u${i}`, 1000 + i);
+    const low = mergeIntoBoard(full, { low: entry('low', 1) });
+    expect(low?.added).toBe(0);
+    expect(Object.keys(low!.board)).toHaveLength(LEADERBOARD_MAX_ENTRIES);
+    const high = mergeIntoBoard(full, { high: entry('high', 9000) });
+    expect(high?.added).toBe(1);
+    expect(high!.board.e0).toBeUndefined();
+  });
+
+  it('ranks by score, earlier finish first on ties; pages and finds your rank', () => {
+    const board: Record<string, LeaderboardEntry> = {};
+    for (let i = 0; i < 45; i++) board[`e${i}`] = entry(`u${i}`, 1000 + i * 10);
+    board.tieLate = entry('me', 1440, T0 + 10);
+    board.tieEarly = entry('other', 1440, T0);
+    board.myWorse = entry('me', 500);
+
+    const ranked = rankLeaderboard(board);
+    expect(ranked[0]).toMatchObject({ id: 'e44', rank: 1 });
+    expect(ranked.slice(0, 3).map((r) => r.id)).toEqual(['e44', 'tieEarly', 'tieLate']);
+
+    const page = pageLeaderboard(ranked, 2, 20);
+    expect(page).toMatchObject({ page: 2, pageCount: 3, total: 48 });
+    expect(page.entries.map((e) => e.rank)).toEqual(Array.from({ length: 8 }, (_, i) => 41 + i));
+    expect(pageLeaderboard(ranked, 99, 20).page).toBe(2);
+    expect(pageLeaderboard([], 0).pageCount).toBe(1);
+
+    expect(findPlayerRank(ranked, 'me')?.rank).toBe(3);
+    expect(findPlayerRank(ranked, 'nobody')).toBeNull();
+  });
+
+  it('records a finished game once, however often it is retried', async () => {
+    const storage = createMemoryLeaderboard();
+    const room = finishedRoom();
+    expect(await recordFinishedGame(room, storage)).toBe(2);
+    expect(await recordFinishedGame(room, storage)).toBe(0);
+    expect(Object.keys(await storage.getBoard('alltime'))).toHaveLength(2);
+    expect(Object.keys(await storage.getBoard('2023-W46_urban'))).toHaveLength(2);
+    expect(await storage.getBoard('alltime_geo')).toEqual({});
+    expect(await storage.getCounts('alltime')).toEqual({ s12000: 1, s6000: 1 });
+  });
+});
+
+// ==================== STANDINGS ====================
+
+describe('standings', () => {
+  it('ranks against every player\'s best, equal bests sharing a rank', () => {
+    const counts = applyCountDeltas({ s9000: 1, s500: 2 }, { s9000: 2, s500: -2, s700: 1 });
+    expect(counts).toEqual({ s9000: 3, s700: 1 });
+    expect(standingFromCounts(counts, 9000)).toEqual({ rank: 1, score: 9000, players: 4 });
+    expect(standingFromCounts(counts, 700)).toEqual({ rank: 4, score: 700, players: 4 });
+  });
+
+  it('finds a rank beyond the kept top list', async () => {
+    const storage = createMemoryLeaderboard();
+    for (let i = 0; i <= LEADERBOARD_MAX_ENTRIES; i++) {
+      const host = 3 * SCORING.maxScore - i;
+      await recordFinishedGame(finishedRoom({
+        id: `R${String(i).padStart(5, '0')}`,
+        players: playersOf(scoredPlayer(`u${i}`, [SCORING.maxScore, SCORING.maxScore, host - 2 * SCORING.maxScore])),
+      }), storage);
+    }
+    const ranked = rankLeaderboard(await storage.getBoard('alltime'));
+    const last = `u${LEADERBOARD_MAX_ENTRIES}`;
+    expect(findPlayerRank(ranked, last)).toBeNull();
+    expect(await getPlayerStanding(storage, 'alltime', last)).toEqual({
+      rank: LEADERBOARD_MAX_ENTRIES + 1,
+      score: 3 * SCORING.maxScore - LEADERBOARD_MAX_ENTRIES,
+      players: LEADERBOARD_MAX_ENTRIES + 1,
+    });
+    expect(await getPlayerStanding(storage, 'alltime', 'nobody')).toBeNull();
+  });
+
+  it('moves a player to their new best and ignores a worse game', async () => {
+    const storage = createMemoryLeaderboard();
+    const game = (start: number, host: number[]) => finishedRoom({ roundStartTime: start, players: playersOf(scoredPlayer('host', host), scoredPlayer('p2', [2000, 2000, 2000])) });
+    await recordFinishedGame(game(T0 - 60_000, [1000, 1000, 1000]), storage);
+    expect(await getPlayerStanding(storage, 'alltime', 'host')).toMatchObject({ rank: 2, score: 3000 });
+
+    await recordFinishedGame(game(T0 - 30_000, [5000, 5000, 5000]), storage);
+    expect(await getPlayerStanding(storage, 'alltime', 'host')).toEqual({ rank: 1, score: 15000, players: 2 });
+    await recordFinishedGame(game(T0 - 10_000, [100, 100, 100]), storage);
+    expect(await storage.getCounts('alltime')).toEqual({ s15000: 1, s6000: 1 });
+    expect(await getPlayerStanding(storage, 'alltime', 'p2')).toEqual({ rank: 2, score: 6000, players: 2 });
+  });
+});
+
+// ==================== AUTHORITY ====================
+
+describe('scoring authority → leaderboards', () => {
+  it('writes the boards when it scores the final round, not before', async () => {
+    const roomStorage = createMemoryRoomStorage({ now: () => T0 });
+    const leaderboard = createMemoryLeaderboard();
+    const authority = createScoringAuthority(roomStorage, { leaderboard });
+
+    const players = {
+      host: scoredPlayer('host', [5000, 4000], { currentGuess: { lat: 41, lng: 29 } }),
+      p2: scoredPlayer('p2', [1000, 2000], { currentGuess: { lat: 40, lng: 29 } }),
+    };
+    await roomStorage.setRoom('ROOM01', finishedRoom({ currentRound: 2, roundResults: null, players: {
+      host: scoredPlayer('host', [5000], { currentGuess: { lat: 41, lng: 29 } }),
+      p2: scoredPlayer('p2', [1000], { currentGuess: { lat: 40, lng: 29 } }),
+    } }));
+    expect((await authority.scoreRound('ROOM01', 2)).scored).toBe(true);
+    expect(await leaderboard.getBoard('alltime')).toEqual({});
+
+    await roomStorage.setRoom('ROOM01', finishedRoom({ roundResults: null, players }));
+    expect((await authority.scoreRound('ROOM01', 3)).scored).toBe(true);
+    const board = rankLeaderboard(await leaderboard.getBoard('alltime'));
+    expect(board.map((e) => e.uid)).toEqual(['host', 'p2']);
+    expect(board[0].score).toBe(5000 + 4000 + 5000);
+  });
+});
@@ -0,0 +1,207 @@
+// @vitest-environment node
+/**
+ * Location Reports — Tests
+ *
+ * Tests cover:
+ * - reportLocation: one report per player and package, invalid input never stored
+ * - Quarantine at the threshold of distinct reporters, majority panoId, reason counts
+ * - evaluateQuarantine: below threshold writes nothing, first quarantine wins
+ * - Honoured by selectStaticPackage and the persistent history (dynamic panos)
+ * - Seeded draws ignore the live quarantine; the Günün Turu draw skips the one it is given
+ * - submitReport: anonymous callers only for packages they were dealt, hourly quota per player
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  QUARANTINE_THRESHOLD,
+  REPORT_QUOTA,
+  REPORT_QUOTA_WINDOW_MS,
+  PlayHistorySources,
+  ReportStorage,
+  applyQuarantine,
+  evaluateQuarantine,
+  hasPlayedPackage,
+  loadQuarantine,
+  parseReportRequest,
+  quarantineFromReports,
+  reportLocation,
+  submitReport,
+  takeReportQuota,
+} from '@/services/locationReports';
+import { getDailyPackages } from '@/services/dailyChallenge';
+import { Room, RoundAnswer } from '@/types';
+import { drawSeededPackages, resetLocationEngine, selectStaticPackage } from '@/services/locationEngine';
+import { checkPersistentHistory, resetPersistentHistoryState } from '@/services/persistentHistory';
+import { getLoadedPackages } from '@/services/panoPacks';
+import { createSeededRandom } from '@/utils/random';
+import { createMemoryReportStorage, createMemoryRoomStorage } from './fakes';
+import { T0 } from './fixtures';
+
+// ==================== FIXTURES ====================
+
+const GEO = getLoadedPackages('geo');
+const PKG = GEO[0];
+
+let storage: ReportStorage;
+
+async function reportBy(uids: string[], packageId = PKG.id, panoId = PKG.pano0.panoId) {
+  for (const uid of uids) {
+    await reportLocation(storage, uid, packageId, panoId, 'indoor', T0);
+  }
+}
+
+beforeEach(() => {
+  storage = createMemoryReportStorage();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  applyQuarantine(null);
+  resetPersistentHistoryState();
+  resetLocationEngine();
+});
+
+// ==================== REPORTING ====================
+
+describe('reportLocation', () => {
+  it('stores one report per player and package', async () => {
+    expect(await reportLocation(storage, 'p2', PKG.id, PKG.pano0.panoId, 'black_screen', T0)).toEqual({ ok: true });
+    expect(await reportLocation(storage, 'p2', PKG.id, PKG.pano0.panoId, 'indoor', T0 + 1)).toEqual({ ok: false, reason: 'already reported' });
+    expect(await reportLocation(storage, 'p3', PKG.id, PKG.pano0.panoId, 'indoor', T0 + 2)).toEqual({ ok: true });
+
+    const reports = await storage.getReports(PKG.id);
+    expect(reports.p2).toEqual({ reason: 'black_screen', panoId: PKG.pano0.panoId, at: T0 });
+    expect(Object.keys(reports)).toEqual(['p2', 'p3']);
+  });
+
+  it('rejects invalid package ids, panos and reasons', async () => {
+    expect(await reportLocation(storage, 'p2', 'bad/id', 'pano', 'indoor', T0)).toEqual({ ok: false, reason: 'invalid packageId' });
+    expect(await reportLocation(storage, 'p2', PKG.id, '', 'indoor', T0)).toEqual({ ok: false, reason: 'invalid panoId' });
+    expect(await reportLocation(storage, 'p2', PKG.id, 'pano', 'boring' as never, T0)).toEqual({ ok: false, reason: 'invalid reason' });
+    expect(await storage.getReports('bad/id')).toEqual({});
+  });
+});
+
+describe('submitReport', () => {
+  const request = (overrides = {}) => ({ packageId: PKG.id, panoId: PKG.pano0.panoId, reason: 'indoor' as const, roomId: null, ...overrides });
+  const answer = (roundId: number, panoPackageId: string): RoundAnswer =>
+    ({ roundId, panoPackageId, panoPackage: null, location: { lat: 0, lng: 0 }, locationName: null });
+
+  /** p2 was dealt PKG in solo, ROOM01 (p3 plays in it) had PKG in round 1 */
+  async function playHistory(): Promise<PlayHistorySources> {
+    const rooms = createMemoryRoomStorage({ now: () => T0 });
+    await rooms.setRoom('ROOM01', { id: 'ROOM01', currentRound: 2, players: { p3: { id: 'p3' } } } as unknown as Room);
+    await rooms.setRoundAnswer('ROOM01', answer(1, PKG.id));
+    await rooms.setRoundAnswer('ROOM01', answer(2, GEO[1].id));
+    return {
+      ...rooms,
+      getSoloDeal: async (uid) =>
+        uid === 'p2' ? { runId: 'r', roundId: 2, answer: answer(2, GEO[1].id), history: [PKG.id], daily: null, dealtAt: T0 } : null,
+    };
+  }
+
+  it('lets anonymous players report only packages they were dealt', async () => {
+    const sources = await playHistory();
+    expect(await hasPlayedPackage(sources, 'p2', PKG.id, null)).toBe(true);
+    expect(await hasPlayedPackage(sources, 'p3', PKG.id, 'ROOM01')).toBe(true);
+    expect(await hasPlayedPackage(sources, 'p3', PKG.id, null)).toBe(false);
+    expect(await hasPlayedPackage(sources, 'eve', PKG.id, 'ROOM01')).toBe(false);
+
+    expect(await submitReport(storage, sources, { uid: 'eve', anonymous: true }, request({ roomId: 'ROOM01' }), T0)).toEqual({
+      ok: false,
+      reason: 'not played',
+    });
+    expect(await submitReport(storage, sources, { uid: 'p3', anonymous: true }, request({ roomId: 'ROOM01' }), T0)).toEqual({
+      ok: true,
+      quarantined: false,
+      reports: 1,
+    });
+    expect(await submitReport(storage, sources, { uid: 'google', anonymous: false }, request(), T0)).toMatchObject({ ok: true, reports: 2 });
+    expect(await submitReport(storage, sources, { uid: 'p2', anonymous: true }, request(), T0)).toEqual({ ok: true, quarantined: true, reports: 3 });
+    expect(Object.keys(await storage.getReports(PKG.id))).toEqual(['p3', 'google', 'p2']);
+  });
+
+  it('caps reports per player and window', async () => {
+    const sources = await playHistory();
+    const caller = { uid: 'p4', anonymous: false };
+    for (let i = 0; i < REPORT_QUOTA; i++) {
+      await submitReport(storage, sources, caller, request({ packageId: GEO[i % GEO.length].id }), T0 + i);
+    }
+    expect(await submitReport(storage, sources, caller, request({ packageId: 'urban_x' }), T0 + 60_000)).toEqual({ ok: false, reason: 'rate limited' });
+    expect(await submitReport(storage, sources, caller, request({ packageId: 'urban_x' }), T0 + REPORT_QUOTA_WINDOW_MS)).toMatchObject({ ok: true });
+
+    expect(takeReportQuota(null, T0)).toEqual({ windowStart: T0, count: 1 });
+    expect(takeReportQuota({ windowStart: T0, count: 1 }, T0 + 1, 2)).toEqual({ windowStart: T0, count: 2 });
+    expect(takeReportQuota({ windowStart: T0, count: 2 }, T0 + 1, 2)).toBeUndefined();
+  });
+
+  it('parses the route body', () => {
+    expect(parseReportRequest({ packageId: PKG.id, panoId: 'p', reason: 'indoor', roomId: 'ABC123' })).toEqual({
+      packageId: PKG.id,
+      panoId: 'p',
+      reason: 'indoor',
+      roomId: 'ABC123',
+    });
+    expect(parseReportRequest({ packageId: PKG.id, panoId: 'p', reason: 'indoor' })?.roomId).toBeNull();
+    expect(parseReportRequest({ packageId: 'bad/id', panoId: 'p', reason: 'indoor' })).toBeNull();
+    expect(parseReportRequest({ packageId: PKG.id, panoId: '', reason: 'indoor' })).toBeNull();
+    expect(parseReportRequest({ packageId: PKG.id, panoId: 'p', reason: 'boring' })).toBeNull();
+    expect(parseReportRequest({ packageId: PKG.id, panoId: 'p', reason: 'indoor', roomId: '../x' })).toBeNull();
+  });
+});
+
+// ==================== QUARANTINE ====================
+
+describe('quarantine', () => {
+  it('quarantines at the threshold with the majority pano', () => {
+    const report = (reason: 'indoor' | 'wrong_country', panoId: string) => ({ reason, panoId, at: T0 });
+    expect(QUARANTINE_THRESHOLD).toBe(3);
+    expect(quarantineFromReports({ a: report('indoor', 'x'), b: report('indoor', 'x') }, T0)).toBeNull();
+    expect(quarantineFromReports({ a: report('indoor', 'x'), b: report('wrong_country', 'y'), c: report('indoor', 'x') }, T0 + 5))
+      .toEqual({ panoId: 'x', at: T0 + 5, reports: 3, reasons: { indoor: 2, wrong_country: 1 } });
+  });
+
+  it('evaluateQuarantine writes nothing below the threshold, then once', async () => {
+    await reportBy(['p1', 'p2']);
+    expect(await evaluateQuarantine(storage, PKG.id, T0)).toEqual({ quarantined: false, reports: 2 });
+    expect(await storage.getQuarantine()).toEqual({});
+
+    await reportBy(['p3']);
+    expect(await evaluateQuarantine(storage, PKG.id, T0 + 1_000)).toEqual({ quarantined: true, reports: 3 });
+    await reportBy(['p4']);
+    expect(await evaluateQuarantine(storage, PKG.id, T0 + 2_000)).toEqual({ quarantined: true, reports: 4 });
+    expect((await storage.getQuarantine())[PKG.id]).toMatchObject({ panoId: PKG.pano0.panoId, at: T0 + 1_000, reports: 3 });
+  });
+
+  it('selectStaticPackage skips quarantined packages and their shared panos', async () => {
+    const keep = GEO[GEO.length - 1];
+    const quarantined = GEO.filter((pkg) => pkg.pano0.panoId !== keep.pano0.panoId);
+    for (const pkg of quarantined) {
+      await reportBy(['p1', 'p2', 'p3'], pkg.id, pkg.pano0.panoId);
+      await evaluateQuarantine(storage, pkg.id, T0);
+    }
+    expect(await loadQuarantine(storage)).toBe(quarantined.length);
+
+    const picks = Array.from({ length: 10 }, () => selectStaticPackage('geo')).filter((pkg) => pkg !== null);
+    expect(picks.length).toBeGreaterThan(0);
+    expect(picks.every((pkg) => pkg.pano0.panoId === keep.pano0.panoId)).toBe(true);
+    expect(checkPersistentHistory(quarantined[0].pano0.panoId, '0.000,0.000')).toBe('quarantined_panoId');
+    expect(checkPersistentHistory(keep.pano0.panoId, '0.000,0.000')).toBeNull();
+  });
+
+  it('seeded draws ignore the quarantine', () => {
+    const before = drawSeededPackages('geo', 5, createSeededRandom(42));
+    applyQuarantine({ [before[0].id]: { panoId: before[0].pano0.panoId, at: T0, reports: 3, reasons: { indoor: 3 } } });
+    expect(drawSeededPackages('geo', 5, createSeededRandom(42))).toEqual(before);
+  });
+
+  it('the Günün Turu draw skips the quarantine it is given', () => {
+    const day = '2024-03-03'; // Pazar → geo
+    const before = getDailyPackages(day);
+    const quarantine = { [before[0].id]: { panoId: before[0].pano0.panoId, at: T0, reports: 3, reasons: { indoor: 3 } } };
+    const after = getDailyPackages(day, quarantine);
+    expect(after).toHaveLength(before.length);
+    expect(after.some((pkg) => pkg.pano0.panoId === before[0].pano0.panoId)).toBe(false);
+    expect(getDailyPackages(day)).toEqual(before);
+  });
+});
@@ -0,0 +1,249 @@
+// @vitest-environment node
+/**
+ * Location Submissions — Tests
+ *
+ * Tests cover:
+ * - Draft validation + stored shape (heading normalized, tags deduped, empty note → null)
+ * - submitLocation: pending, write-once per id, invalid drafts never stored
+ * - submitVerifiedLocation: anonymous players only after a dealt round, hourly
+ *   quota per player; the route body parser
+ * - Queue: one status, oldest first
+ * - Approval: PanoPackage on the proposed pano, region from the il, community ids,
+ *   moderator overrides, lint errors block and leave the submission pending
+ * - Transitions: reject / merge only from the right status
+ * - Approved packages flow into a pack as data (addToPack → installPack)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DealtRoundSources,
+  LocationSubmission,
+  SUBMISSION_QUOTA,
+  SubmissionDraft,
+  SubmissionStorage,
+  approveSubmission,
+  communityPackageId,
+  createSubmission,
+  draftProblems,
+  listQueue,
+  markMerged,
+  packageFromSubmission,
+  parseSubmissionRequest,
+  rejectSubmission,
+  submitLocation,
+  submitVerifiedLocation,
+} from '@/services/locationSubmissions';
+import { REPORT_QUOTA_WINDOW_MS } from '@/services/locationReports';
+import { addToPack } from '@/services/packageAuthoring';
+import { PACK_IDS, clearPacks, getLoadedPackages, installPack } from '@/services/panoPacks';
+import { installPacksFromDisk, readPackFile } from '@/services/panoPackFiles';
+import { Room } from '@/types';
+import { createMemoryRoomStorage, createMemorySubmissionStorage } from './fakes';
+import { T0 } from './fixtures';
+
+// ==================== FIXTURES ====================
+
+const DRAFT: SubmissionDraft = {
+  panoId: 'community_test_pano_sultanahmet',
+  lat: 41.0054,
+  lng: 28.9768,
+  heading: 120,
+  pitch: 5,
+  mode: 'urban',
+  roadType: 'urban_street',
+  hintTags: ['mosque', 'historic'],
+  region: null,
+  note: 'Meydandan camiye bakış',
+  source: 'round',
+};
+
+let storage: SubmissionStorage;
+
+async function submitted(draft: Partial<SubmissionDraft> = {}, now = T0, uid = 'p2'): Promise<string> {
+  const result = await submitLocation(storage, uid, 'Ayşe', { ...DRAFT, ...draft }, now);
+  if (!result.ok) throw new Error(result.reason);
+  return result.id;
+}
+
+beforeEach(() => {
+  storage = createMemorySubmissionStorage();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  clearPacks();
+  installPacksFromDisk(PACK_IDS, { force: true });
+});
+
+// ==================== SUBMIT ====================
+
+describe('submitting', () => {
+  it('validates drafts like the rules do', () => {
+    expect(draftProblems(DRAFT)).toEqual([]);
+    expect(draftProblems({ ...DRAFT, panoId: '', lat: 48, pitch: 120 })).toEqual(['panoId', 'position', 'pov']);
+    expect(draftProblems({ ...DRAFT, hintTags: ['Tabela'], region: 'atlantis' as never, note: 'x'.repeat(201) }))
+      .toEqual(['hintTags', 'region', 'note']);
+  });
+
+  it('stores a normalized pending submission', () => {
+    const sub = createSubmission({ ...DRAFT, heading: -30.04, hintTags: ['sea', 'sea', 'port'], note: '  ' }, ' Ayşe ', T0);
+    expect(sub).toMatchObject({ heading: 330, hintTags: ['sea', 'port'], note: null, name: 'Ayşe', createdAt: T0, status: 'pending' });
+  });
+
+  it('writes once per id and never stores invalid drafts', async () => {
+    expect(await submitLocation(storage, 'p2', 'Ayşe', DRAFT, T0)).toEqual({ ok: true, id: String(T0) });
+    expect(await submitLocation(storage, 'p2', 'Ayşe', { ...DRAFT, note: 'tekrar' }, T0)).toEqual({ ok: false, reason: 'duplicate submission' });
+    expect(await submitLocation(storage, 'p2', 'Ayşe', { ...DRAFT, mode: 'space' as never }, T0 + 1)).toMatchObject({ ok: false });
+    expect(await submitLocation(storage, 'p2', ' ', DRAFT, T0 + 2)).toEqual({ ok: false, reason: 'name required' });
+
+    const own = await storage.getSubmissions('p2');
+    expect(Object.keys(own)).toEqual([String(T0)]);
+    expect(own[String(T0)].note).toBe(DRAFT.note);
+  });
+});
+
+describe('submitVerifiedLocation', () => {
+  const request = (roomId: string | null = null, draft: Partial<SubmissionDraft> = {}) => ({ draft: { ...DRAFT, ...draft }, name: 'Ayşe', roomId });
+
+  /** p2 has a solo deal; ROOM01 (p3 plays in it) has started, LOBBY1 (p4) hasn't */
+  async function dealtRounds(): Promise<DealtRoundSources> {
+    const rooms = createMemoryRoomStorage({ now: () => T0 });
+    await rooms.setRoom('ROOM01', { id: 'ROOM01', currentRound: 1, players: { p3: { id: 'p3' } } } as unknown as Room);
+    await rooms.setRoom('LOBBY1', { id: 'LOBBY1', currentRound: 0, players: { p4: { id: 'p4' } } } as unknown as Room);
+    return {
+      ...rooms,
+      getSoloDeal: async (uid) => (uid === 'p2' ? { runId: 'r', roundId: 1, answer: null, history: [], daily: null, dealtAt: T0 } : null),
+    } as DealtRoundSources;
+  }
+
+  it('takes anonymous proposals only from players who were dealt a round', async () => {
+    const sources = await dealtRounds();
+    const anonymous = (uid: string) => ({ uid, anonymous: true });
+
+    expect(await submitVerifiedLocation(storage, sources, anonymous('p2'), request(), T0)).toEqual({ ok: true, id: String(T0) });
+    expect(await submitVerifiedLocation(storage, sources, anonymous('p3'), request('ROOM01'), T0)).toMatchObject({ ok: true });
+    expect(await submitVerifiedLocation(storage, sources, anonymous('p3'), request(), T0)).toEqual({ ok: false, reason: 'not played' });
+    expect(await submitVerifiedLocation(storage, sources, anonymous('p4'), request('LOBBY1'), T0)).toEqual({ ok: false, reason: 'not played' });
+    expect(await submitVerifiedLocation(storage, sources, anonymous('eve'), request('ROOM01'), T0)).toEqual({ ok: false, reason: 'not played' });
+    expect(await submitVerifiedLocation(storage, sources, { uid: 'google', anonymous: false }, request(), T0)).toMatchObject({ ok: true });
+    expect(Object.keys(await storage.getAllSubmissions())).toEqual(['p2', 'p3', 'google']);
+  });
+
+  it('caps proposals per player and hour', async () => {
+    const sources = await dealtRounds();
+    const caller = { uid: 'p2', anonymous: true };
+    for (let i = 0; i < SUBMISSION_QUOTA; i++) {
+      expect(await submitVerifiedLocation(storage, sources, caller, request(), T0 + i)).toMatchObject({ ok: true });
+    }
+    expect(await submitVerifiedLocation(storage, sources, caller, request(), T0 + 60_000)).toEqual({ ok: false, reason: 'rate limited' });
+    expect(await submitVerifiedLocation(storage, sources, { uid: 'google', anonymous: false }, request(), T0 + 60_000)).toMatchObject({ ok: true });
+    expect(await submitVerifiedLocation(storage, sources, caller, request(), T0 + REPORT_QUOTA_WINDOW_MS)).toMatchObject({ ok: true });
+    expect(Object.keys(await storage.getSubmissions('p2'))).toHaveLength(SUBMISSION_QUOTA + 1);
+  });
+
+  it('parses the route body', () => {
+    expect(parseSubmissionRequest({ draft: DRAFT, name: 'Ayşe', roomId: 'ABC123' })).toEqual({ draft: DRAFT, name: 'Ayşe', roomId: 'ABC123' });
+    expect(parseSubmissionRequest({ draft: { ...DRAFT, hintTags: undefined, region: undefined, note: undefined }, name: 'Ayşe' }))
+      .toEqual({ draft: { ...DRAFT, hintTags: [], region: null, note: null }, name: 'Ayşe', roomId: null });
+    expect(parseSubmissionRequest({ draft: { ...DRAFT, extra: 'dropped' }, name: 'Ayşe' })?.draft).toEqual(DRAFT);
+    expect(parseSubmissionRequest({ draft: { ...DRAFT, lat: 48 }, name: 'Ayşe' })).toBeNull();
+    expect(parseSubmissionRequest({ draft: DRAFT })).toBeNull();
+    expect(parseSubmissionRequest({ draft: DRAFT, name: 'Ayşe', roomId: '../x' })).toBeNull();
+    expect(parseSubmissionRequest(null)).toBeNull();
+  });
+});
+
+// ==================== QUEUE ====================
+
+describe('listQueue', () => {
+  it('lists one status, oldest first', async () => {
+    await submitted({}, T0 + 2_000, 'p2');
+    await submitted({}, T0, 'p3');
+    const rejected = await submitted({}, T0 + 1_000, 'p4');
+    await rejectSubmission(storage, 'p4', rejected, T0 + 5_000);
+
+    const all = await storage.getAllSubmissions();
+    expect(listQueue(all).map((item) => item.uid)).toEqual(['p3', 'p2']);
+    expect(listQueue(all, 'rejected')).toEqual([{ uid: 'p4', id: rejected, submission: expect.objectContaining({ status: 'rejected' }) }]);
+    expect(listQueue(null)).toEqual([]);
+  });
+});
+
+// ==================== APPROVAL ====================
+
+describe('approval', () => {
+  const submission = (draft: Partial<SubmissionDraft> = {}): LocationSubmission => createSubmission({ ...DRAFT, ...draft }, 'Ayşe', T0);
+
+  it('builds a package on the proposed pano with the il\'s region', () => {
+    const pkg = packageFromSubmission(submission(), []);
+    expect(pkg).toMatchObject({ mode: 'urban', region: 'marmara', blacklist: false, qualityScore: 3, hintTags: ['mosque', 'historic'] });
+    expect(pkg?.locationName).toMatch(/İstanbul$/);
+    expect(pkg?.id).toMatch(/^community_istanbul_.+_1$/);
+    expect([pkg?.pano0, pkg?.pano1, pkg?.pano2, pkg?.pano3].map((arm) => arm?.heading)).toEqual([120, 30, 210, 300]);
+    expect(new Set([pkg?.pano0, pkg?.pano1, pkg?.pano2, pkg?.pano3].map((arm) => arm?.panoId))).toEqual(new Set([DRAFT.panoId]));
+
+    expect(packageFromSubmission(submission(), [pkg!.id])?.id).toBe(pkg!.id.replace(/_1$/, '_2'));
+    expect(packageFromSubmission(submission({ lat: 42, lng: 30 }), [])).toBeNull();
+  });
+
+  it('applies moderator overrides and the submitted region', () => {
+    expect(packageFromSubmission(submission({ region: 'ege' }), [])?.region).toBe('ege');
+    const pkg = packageFromSubmission(submission(), [], { id: 'community_ayasofya_1', locationName: 'Fatih, İstanbul', qualityScore: 5, hintTags: ['museum'] });
+    expect(pkg).toMatchObject({ id: 'community_ayasofya_1', locationName: 'Fatih, İstanbul', qualityScore: 5, hintTags: ['museum'] });
+    expect(communityPackageId('Fatih, İstanbul', ['community_istanbul_fatih_1'])).toBe('community_istanbul_fatih_2');
+  });
+
+  it('approves a pending submission once, linted against the packs', async () => {
+    const id = await submitted();
+    const existing = getLoadedPackages();
+    const result = await approveSubmission(storage, 'p2', id, existing, T0 + 10_000, { note: 'güzel' });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.submission).toMatchObject({ status: 'approved', review: { at: T0 + 10_000, note: 'güzel' } });
+    expect(result.submission.package?.blacklist).toBe(false);
+    expect(result.report?.errors).toBe(0);
+
+    expect(await approveSubmission(storage, 'p2', id, existing, T0 + 20_000)).toEqual({ ok: false, reason: 'submission is approved' });
+    expect(await approveSubmission(storage, 'p2', '1', existing, T0)).toEqual({ ok: false, reason: 'submission not found' });
+  });
+
+  it('lint errors block approval and leave the submission pending', async () => {
+    const id = await submitted();
+    const existing = getLoadedPackages();
+    const result = await approveSubmission(storage, 'p2', id, existing, T0, { overrides: { id: existing[0].id } });
+    expect(result).toMatchObject({ ok: false, reason: 'lint errors' });
+    expect(!result.ok && result.report?.issues.some((issue) => issue.rule === 'duplicateId')).toBe(true);
+    expect((await storage.getSubmissions('p2'))[id].status).toBe('pending');
+  });
+});
+
+// ==================== TRANSITIONS ====================
+
+describe('status transitions', () => {
+  it('rejects only pending and merges only approved', async () => {
+    const rejected = await submitted({}, T0);
+    expect(await rejectSubmission(storage, 'p2', rejected, T0 + 1_000, 'bulanık')).toMatchObject({
+      ok: true,
+      submission: { status: 'rejected', review: { at: T0 + 1_000, note: 'bulanık' } },
+    });
+    expect(await rejectSubmission(storage, 'p2', rejected, T0 + 2_000)).toEqual({ ok: false, reason: 'submission is rejected' });
+    expect(await approveSubmission(storage, 'p2', rejected, [], T0)).toEqual({ ok: false, reason: 'submission is rejected' });
+
+    const approved = await submitted({}, T0 + 5_000);
+    expect(await markMerged(storage, 'p2', approved)).toEqual({ ok: false, reason: 'submission is pending' });
+    await approveSubmission(storage, 'p2', approved, getLoadedPackages(), T0 + 6_000);
+    expect(await markMerged(storage, 'p2', approved)).toMatchObject({ ok: true, submission: { status: 'merged' } });
+  });
+
+  it('approved packages reach the game as pack data', async () => {
+    const id = await submitted({ mode: 'geo', roadType: 'rural' });
+    await approveSubmission(storage, 'p2', id, getLoadedPackages(), T0);
+    const [item] = listQueue(await storage.getAllSubmissions(), 'approved');
+    const pkg = item.submission.package!;
+
+    const geo = readPackFile('geo');
+    installPack(addToPack(geo, [pkg]));
+    expect(getLoadedPackages('geo').map((p) => p.id)).toContain(pkg.id);
+    expect(getLoadedPackages('geo')).toHaveLength(geo.packages.length + 1);
+  });
+});
@@ -0,0 +1,184 @@
+// @vitest-environment node
+/**
+ * Map Filter — Tests
+ *
+ * Tests cover:
+ * - normalizeMapFilter: canonical il names, dedupe, all regions / empty → null
+ * - validateRoomSettings rejects unknown regions / iller
+ * - Static selection stays inside the map (regions + provinces)
+ * - Province bag only holds iller inside the map, restarts when the map changes
+ * - Single-il map → relaxed anti-repeat + narrow notice
+ * - Map without packages → all of Türkiye + fallback notice
+ * - Dynamic mint rejects provinces outside the map
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MapFilter, MAP_REGIONS, RegionId } from '@/types';
+import {
+  normalizeMapFilter,
+  matchesMapFilter,
+  describeMapFilter,
+  mapFilterKey,
+  MAP_NOTICES,
+} from '@/services/mapFilter';
+import {
+  resetLocationEngine,
+  selectStaticPackage,
+  setMapFilter,
+  getMapNotice,
+  _testExports,
+} from '@/services/locationEngine';
+import { mintDynamicPackageSync, setMockPanoResolver } from '@/services/dynamicUrbanGenerator';
+import { validateRoomSettings } from '@/services/roomStateMachine';
+
+const { extractProvince, fillProvinceBag, getProvinceBag } = _testExports;
+
+const KARADENIZ: MapFilter = { type: 'regions', regions: ['karadeniz'] };
+
+function provinceOf(locationName: string): string {
+  return extractProvince(locationName);
+}
+
+// ==================== NORMALIZATION ====================
+
+describe('normalizeMapFilter', () => {
+  it('canonicalizes il names and drops duplicates', () => {
+    expect(normalizeMapFilter({ type: 'provinces', provinces: ['izmir', 'İzmir', 'elazığ'] })).toEqual({
+      type: 'provinces',
+      provinces: ['İzmir', 'Elazığ'],
+    });
+  });
+
+  it('treats empty filters and all regions as the whole of Türkiye', () => {
+    expect(normalizeMapFilter(null)).toBeNull();
+    expect(normalizeMapFilter({ type: 'regions', regions: [] })).toBeNull();
+    expect(normalizeMapFilter({ type: 'regions', regions: Object.keys(MAP_REGIONS) })).toBeNull();
+    expect(describeMapFilter(null)).toBe('Tüm Türkiye');
+  });
+
+  it('accepts RTDB object-form lists', () => {
+    expect(normalizeMapFilter({ type: 'regions', regions: { 0: 'ege', 1: 'marmara' } })).toEqual({
+      type: 'regions',
+      regions: ['ege', 'marmara'],
+    });
+  });
+
+  it('throws on unknown regions, iller and types', () => {
+    expect(() => normalizeMapFilter({ type: 'regions', regions: ['atlantis'] })).toThrow(/region/);
+    expect(() => normalizeMapFilter({ type: 'provinces', provinces: ['Toros Dağları'] })).toThrow(/province/);
+    expect(() => normalizeMapFilter({ type: 'districts' })).toThrow(/type/);
+  });
+
+  it('validateRoomSettings writes the canonical filter and rejects bad input', () => {
+    expect(validateRoomSettings({ mapFilter: { type: 'provinces', provinces: ['rize'] } })).toEqual({
+      ok: true,
+      settings: { mapFilter: { type: 'provinces', provinces: ['Rize'] } },
+    });
+    expect(validateRoomSettings({ mapFilter: null })).toEqual({ ok: true, settings: { mapFilter: null } });
+    const bad = validateRoomSettings({ mapFilter: { type: 'regions', regions: ['mars' as RegionId] } });
+    expect(bad.ok).toBe(false);
+  });
+
+  it('matches by region or il and keys order-independently', () => {
+    expect(matchesMapFilter(KARADENIZ, 'Rize', 'karadeniz')).toBe(true);
+    expect(matchesMapFilter(KARADENIZ, 'İzmir', 'ege')).toBe(false);
+    expect(matchesMapFilter({ type: 'provinces', provinces: ['Van'] }, 'Van', 'dogu_anadolu')).toBe(true);
+    expect(mapFilterKey({ type: 'regions', regions: ['ege', 'marmara'] }))
+      .toBe(mapFilterKey({ type: 'regions', regions: ['marmara', 'ege'] }));
+  });
+});
+
+// ==================== STATIC SELECTION ====================
+
+describe('locationEngine with a map filter', () => {
+  beforeEach(() => {
+    resetLocationEngine();
+    setMapFilter(null);
+  });
+
+  afterEach(() => {
+    setMapFilter(null);
+  });
+
+  it('keeps urban and geo selections inside the chosen regions', () => {
+    const regions: RegionId[] = ['karadeniz', 'ege'];
+    for (let i = 0; i < 40; i++) {
+      setMapFilter({ type: 'regions', regions });
+      const urban = selectStaticPackage('urban');
+      expect(urban).not.toBeNull();
+      expect(regions).toContain(urban!.region);
+    }
+    for (let i = 0; i < 10; i++) {
+      setMapFilter(KARADENIZ);
+      const geo = selectStaticPackage('geo');
+      expect(geo?.region).toBe('karadeniz');
+    }
+  });
+
+  it('keeps selections inside hand-picked iller without back-to-back repeats', () => {
+    const provinces = ['İstanbul', 'Ankara', 'İzmir'];
+    let last: string | null = null;
+    for (let i = 0; i < 30; i++) {
+      setMapFilter({ type: 'provinces', provinces });
+      const pkg = selectStaticPackage('urban');
+      const province = provinceOf(pkg!.locationName);
+      expect(provinces).toContain(province);
+      expect(province).not.toBe(last);
+      expect(getMapNotice()).toBeNull();
+      last = province;
+    }
+  });
+
+  it('fills the province bag from the map and restarts it when the map changes', () => {
+    setMapFilter({ type: 'provinces', provinces: ['Rize', 'Trabzon'] });
+    fillProvinceBag();
+    expect([...getProvinceBag()].sort()).toEqual(['Rize', 'Trabzon']);
+
+    setMapFilter(KARADENIZ);
+    expect(getProvinceBag()).toEqual([]);
+  });
+
+  it('relaxes anti-repeat on a single-il map and tells the players', () => {
+    const seen: string[] = [];
+    for (let i = 0; i < 6; i++) {
+      setMapFilter({ type: 'provinces', provinces: ['İstanbul'] });
+      const pkg = selectStaticPackage('urban');
+      expect(provinceOf(pkg!.locationName)).toBe('İstanbul');
+      if (i > 0) expect(getMapNotice()).toBe(MAP_NOTICES.narrow);
+      seen.push(pkg!.pano0.panoId);
+    }
+    // Aynı pano arka arkaya gelmez
+    seen.slice(1).forEach((panoId, i) => expect(panoId).not.toBe(seen[i]));
+  });
+
+  it('falls back to all of Türkiye when the map has no packages', () => {
+    setMapFilter({ type: 'provinces', provinces: ['Hakkari'] });
+    const pkg = selectStaticPackage('urban');
+    expect(pkg).not.toBeNull();
+    expect(getMapNotice()).toBe(MAP_NOTICES.fallback);
+
+    // Notice is per round
+    setMapFilter({ type: 'provinces', provinces: ['Hakkari'] });
+    expect(getMapNotice()).toBeNull();
+  });
+});
+
+// ==================== DYNAMIC MINT ====================
+
+describe('mintDynamicPackage with a map filter', () => {
+  afterEach(() => {
+    setMockPanoResolver(null);
+  });
+
+  it('rejects provinces outside the map before any Street View call', () => {
+    let calls = 0;
+    setMockPanoResolver((lat, lng) => {
+      calls++;
+      return { panoId: `map_${calls}`, lat, lng };
+    });
+    const result = mintDynamicPackageSync('İzmir', null, undefined, KARADENIZ);
+    expect(result.package).toBeNull();
+    expect(result.failReason).toBe('province_outside_map');
+    expect(calls).toBe(0);
+  });
+});
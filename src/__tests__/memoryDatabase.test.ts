@@ -0,0 +1,277 @@
+// @vitest-environment node
+/**
+ * In-memory RTDB stand-in — Tests
+ *
+ * Tests cover:
+ * - ref/get/set/update/remove/push/onValue semantics (null pruning, no-op listeners)
+ * - serverTimestamp + .info/serverTimeOffset with server clock skew
+ * - increment in multi-path updates
+ * - runTransaction: cold-cache retry, abort, concurrent increments
+ * - onDisconnect: fires on simulated socket drop, cancel
+ * - Full multiplayer flow (RoomEngine over RTDB adapter): host drop → migration → roundEnd lock
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_RTDB_BACKEND = 'memory';
+});
+vi.unmock('@/config/firebase');
+
+import type { Database } from 'firebase/database';
+import {
+  MemoryBackend,
+  MemoryDatabase,
+  ref,
+  get,
+  set,
+  update,
+  remove,
+  push,
+  onValue,
+  onDisconnect,
+  runTransaction,
+  serverTimestamp,
+  increment,
+} from '@/config/memoryDatabase';
+import { USE_MEMORY_DATABASE } from '@/config/firebase';
+import { createFirebaseRoomStorage, createFirebaseRoundAnswerStorage } from '@/services/firebaseRoomStorage';
+import { RoomEngine } from '@/services/roomEngine';
+import { createRoundAuthority } from '@/services/roundAuthority';
+import { electNewHost, DISCONNECT_GRACE_PERIOD } from '@/services/roomStateMachine';
+import { PanoPackage } from '@/types';
+import { T0, createPlayer, createRoom } from './fixtures';
+
+
+describe('memory RTDB basics', () => {
+  let clock: number;
+  let backend: MemoryBackend;
+  let db: MemoryDatabase;
+
+  beforeEach(() => {
+    clock = T0;
+    backend = new MemoryBackend(() => clock);
+    db = backend.connect();
+  });
+
+  it('set/get/update/remove with RTDB null semantics', async () => {
+    await set(ref(db, 'rooms/A'), { name: 'x', players: { p1: { score: 1 } }, empty: {}, gone: null });
+    const snap = await get(ref(db, 'rooms/A'));
+    expect(snap.exists()).toBe(true);
+    expect(snap.val()).toEqual({ name: 'x', players: { p1: { score: 1 } } });
+    expect(snap.child('players/p1/score').val()).toBe(1);
+
+    await update(ref(db, 'rooms/A'), { 'players/p2/score': 2, name: null });
+    expect((await get(ref(db, 'rooms/A'))).val()).toEqual({ players: { p1: { score: 1 }, p2: { score: 2 } } });
+
+    await remove(ref(db, 'rooms/A/players'));
+    expect((await get(ref(db, 'rooms/A'))).exists()).toBe(false);
+  });
+
+  it('push generates ordered unique keys', async () => {
+    const first = push(ref(db, 'log'), { n: 1 });
+    clock += 1;
+    const second = push(ref(db, 'log'), { n: 2 });
+    expect(first.key).not.toBe(second.key);
+    expect(first.key! < second.key!).toBe(true);
+    expect((await get(ref(db, 'log'))).numChildren()).toBe(2);
+  });
+
+  it('onValue fires immediately, on change, and not on no-op writes', async () => {
+    const seen: unknown[] = [];
+    const unsubscribe = onValue(ref(db, 'rooms/A/status'), (snap) => seen.push(snap.val()));
+    await set(ref(db, 'rooms/A/status'), 'waiting');
+    await set(ref(db, 'rooms/A/other'), 1);          // sibling write — not our value
+    await set(ref(db, 'rooms/A'), { status: 'waiting', other: 2 }); // same status
+    await update(ref(db, 'rooms/A'), { status: 'playing' });
+    unsubscribe();
+    await set(ref(db, 'rooms/A/status'), 'roundEnd');
+    expect(seen).toEqual([null, 'waiting', 'playing']);
+  });
+
+  it('serverTimestamp and .info/serverTimeOffset follow server clock skew', async () => {
+    backend.setServerTimeOffset(2500);
+    await set(ref(db, 'meta/serverNow'), serverTimestamp());
+    expect((await get(ref(db, 'meta/serverNow'))).val()).toBe(T0 + 2500);
+
+    const offsets: number[] = [];
+    onValue(ref(db, '.info/serverTimeOffset'), (snap) => offsets.push(snap.val()));
+    backend.setServerTimeOffset(-400);
+    expect(offsets).toEqual([2500, -400]);
+  });
+
+  it('increment adds to the stored number, a missing one counts as 0', async () => {
+    await set(ref(db, 'ledger/total'), 7);
+    await update(ref(db, 'ledger'), { total: increment(2), 'rooms/A': increment(1) });
+    await update(ref(db, 'ledger'), { rooms: { A: increment(3) } });
+    expect((await get(ref(db, 'ledger'))).val()).toEqual({ total: 9, rooms: { A: 4 } });
+  });
+});
+
+describe('memory RTDB transactions', () => {
+  let backend: MemoryBackend;
+  let db: MemoryDatabase;
+
+  beforeEach(() => {
+    backend = new MemoryBackend(() => T0);
+    db = backend.connect();
+  });
+
+  it('cold cache: first attempt sees null, retried with server value', async () => {
+    await set(ref(db, 'rooms/A'), { count: 5 });
+    const seen: unknown[] = [];
+    const result = await runTransaction(ref(db, 'rooms/A'), (current) => {
+      seen.push(current);
+      if (!current) return current; // useRoom pattern — must NOT abort on null
+      return { ...current, count: current.count + 1 };
+    });
+    expect(seen).toEqual([null, { count: 5 }]);
+    expect(result.committed).toBe(true);
+    expect(result.snapshot.val()).toEqual({ count: 6 });
+    expect(backend.stats.transactionRetries).toBe(1);
+  });
+
+  it('warm cache (active listener) commits on first attempt', async () => {
+    await set(ref(db, 'counter'), 1);
+    onValue(ref(db, 'counter'), () => {});
+    await runTransaction(ref(db, 'counter'), (current) => (current || 0) + 1);
+    expect(backend.stats.transactionRetries).toBe(0);
+    expect((await get(ref(db, 'counter'))).val()).toBe(2);
+  });
+
+  it('returning undefined aborts without writing', async () => {
+    await set(ref(db, 'moves'), 3);
+    onValue(ref(db, 'moves'), () => {});
+    const result = await runTransaction(ref(db, 'moves'), (current) => (current >= 3 ? undefined : current + 1));
+    expect(result.committed).toBe(false);
+    expect(result.snapshot.val()).toBe(3);
+  });
+
+  it('concurrent increments from several clients never lose updates', async () => {
+    const clients = [db, backend.connect(), backend.connect()];
+    await Promise.all(
+      Array.from({ length: 30 }, (_, i) =>
+        runTransaction(ref(clients[i % 3], 'currentGuesses'), (current) => (current || 0) + 1)
+      )
+    );
+    expect((await get(ref(db, 'currentGuesses'))).val()).toBe(30);
+  });
+});
+
+describe('memory RTDB onDisconnect', () => {
+  it('fires queued ops on socket drop only for that client, cancel removes them', async () => {
+    const backend = new MemoryBackend(() => T0);
+    const alice = backend.connect();
+    const bob = backend.connect();
+    await set(ref(alice, 'rooms/A/players'), { alice: { status: 'online' }, bob: { status: 'online' } });
+
+    await onDisconnect(ref(alice, 'rooms/A/players/alice')).update({ status: 'disconnected' });
+    const bobHandler = onDisconnect(ref(bob, 'rooms/A/players/bob'));
+    await bobHandler.remove();
+    await bobHandler.cancel();
+
+    const connected: boolean[] = [];
+    onValue(ref(alice, '.info/connected'), (snap) => connected.push(snap.val()));
+
+    alice.simulateSocketDrop();
+    bob.simulateSocketDrop();
+
+    const players = (await get(ref(bob, 'rooms/A/players'))).val();
+    expect(players.alice.status).toBe('disconnected');
+    expect(players.bob.status).toBe('online');
+    expect(connected).toEqual([true, false]);
+  });
+});
+
+// ==================== FULL FLOW ====================
+
+const joinedAt = (id: string, at: number) => createPlayer(id, { joinedAt: at, lastSeen: at });
+
+const PACKAGE: PanoPackage = {
+  id: 'flow_pkg',
+  mode: 'urban',
+  region: 'marmara',
+  roadType: 'urban_street',
+  hintTags: [],
+  qualityScore: 4,
+  blacklist: false,
+  pano0: { panoId: 'a', lat: 41.01, lng: 28.97, heading: 0 },
+  pano1: { panoId: 'b', lat: 41.011, lng: 28.97, heading: 90 },
+  pano2: { panoId: 'c', lat: 41.012, lng: 28.97, heading: 180 },
+  pano3: { panoId: 'd', lat: 41.013, lng: 28.97, heading: 270 },
+  locationName: 'Fatih, İstanbul',
+};
+
+describe('multiplayer flow on memory RTDB', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'table').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('config/firebase selects the memory backend via env flag', () => {
+    expect(USE_MEMORY_DATABASE).toBe(true);
+  });
+
+  it('host drops mid-round → presence cleanup, migration, single roundEnd', async () => {
+    let clock = T0;
+    const backend = new MemoryBackend(() => clock);
+    const clients = {
+      host: backend.connect(),
+      p2: backend.connect(),
+      p3: backend.connect(),
+    };
+    const engines = Object.fromEntries(
+      Object.entries(clients).map(([id, client]) => {
+        const db = client as unknown as Database;
+        const storage = createFirebaseRoomStorage(db);
+        const answers = createFirebaseRoundAnswerStorage(db);
+        const rounds = createRoundAuthority(
+          { ...storage, ...answers },
+          { draw: async () => ({ panoPackage: PACKAGE, mapNotice: null }) }
+        );
+        return [id, new RoomEngine({ storage, answers, rounds, now: () => clock })];
+      })
+    ) as Record<keyof typeof clients, RoomEngine>;
+
+    const room = createRoom({ id: 'FLOW01', totalRounds: 3 });
+    await engines.host.createRoom({ ...room, players: { host: joinedAt('host', T0) } });
+    await engines.p2.addPlayer('FLOW01', joinedAt('p2', T0 + 1));
+    await engines.p3.addPlayer('FLOW01', joinedAt('p3', T0 + 2));
+    (Object.keys(engines) as Array<keyof typeof engines>).forEach((id) => engines[id].registerDisconnect('FLOW01', id));
+
+    expect(await engines.host.startGame('FLOW01', 'host')).toBe(true);
+    await engines.p2.submitGuess('FLOW01', 'p2', { lat: 41.0, lng: 29.0 }, 1, 90);
+
+    // Host tab dies — server runs its onDisconnect
+    clients.host.simulateSocketDrop();
+    let snapshot = (await engines.p2.readRoom('FLOW01'))!;
+    expect(snapshot.players.host.status).toBe('disconnected');
+
+    // Elected candidate (lowest joinedAt) migrates; the other candidate's attempt is a no-op
+    expect(electNewHost(snapshot)?.id).toBe('p2');
+    expect(await engines.p2.migrateHost('FLOW01', 'host', 'p2')).toBe(true);
+    expect(await engines.p3.migrateHost('FLOW01', 'host', 'p3')).toBe(false);
+
+    // New host removes the ghost after the grace period
+    clock = T0 + DISCONNECT_GRACE_PERIOD + 1000;
+    await engines.p2.heartbeat('FLOW01', 'p2', true);
+    await engines.p3.heartbeat('FLOW01', 'p3', false);
+    const cleanup = await engines.p2.cleanupOfflinePlayers('FLOW01', 'p2');
+    expect(cleanup.removed).toEqual(['host']);
+
+    // Timer expiry: recovery + watchdog race — exactly one roundEnd
+    clock = T0 + 100_000;
+    await Promise.all([
+      engines.p2.endRound({ roomId: 'FLOW01', roundId: 1, ownerId: 'p2', trigger: 'recovery' }),
+      engines.p2.watchdogTick('FLOW01', 'p2', { expectedRound: 1, roundStartTime: T0, timeLimit: 90, attempts: 0 }),
+    ]);
+
+    snapshot = (await engines.p3.readRoom('FLOW01'))!;
+    expect(snapshot.status).toBe('roundEnd');
+    expect(snapshot.hostId).toBe('p2');
+    expect(snapshot.roundEndLock?.lockedBy).toBe('p2');
+    expect(snapshot.roundResults).toHaveLength(2);
+    expect(snapshot.players.p2.roundScores).toHaveLength(1);
+  });
+});
@@ -0,0 +1,135 @@
+// @vitest-environment node
+/**
+ * Ops Metrics — Tests
+ *
+ * Tests cover:
+ * - Nearest-rank percentiles (empty sample → null)
+ * - RoundEndLatency p50/p90/p99, SLO breaches over 3 s, early finishes kept apart
+ * - Watchdog escalations counted once per room/round
+ * - mpCounters: last snapshot per session, summed across sessions
+ * - Street View cost per round + per-room rows; time range and room filters
+ * - Day walk over telemetry/{day}, range cap; admin storage reads with the secret
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  loadOpsSummary,
+  opsDays,
+  percentile,
+  summarizeOps,
+} from '@/services/opsMetrics';
+import { createAdminTelemetryStorage } from '@/services/adminTelemetryStorage';
+import { TelemetryRecord } from '@/utils/telemetryExporter';
+import { createMemoryOpsStorage } from './fakes';
+
+// ==================== FIXTURES ====================
+
+const T0 = Date.UTC(2026, 9, 18, 12); // 2026-10-18 12:00 UTC
+const MIN = 60_000;
+
+let seq = 0;
+const record = (event: string, data: Record<string, unknown>, overrides: Partial<TelemetryRecord> = {}): TelemetryRecord => ({
+  kind: 'event',
+  event,
+  at: T0 + seq++ * MIN,
+  sessionId: 'ses_a',
+  roomId: 'ROOM01',
+  data,
+  ...overrides,
+});
+
+function fixture(): TelemetryRecord[] {
+  seq = 0;
+  return [
+    record('roundEnd', { trigger: 'timeUp', latencyMs: 400 }, { roundId: 1 }),
+    record('roundEnd', { trigger: 'watchdog', latencyMs: 5200 }, { roundId: 2 }),
+    record('roundEnd', { trigger: 'allGuessed', earlyFinishMs: 30_000 }, { roundId: 3 }),
+    record('roundEnd', { trigger: 'timeUp', latencyMs: 900 }, { roundId: 1, roomId: 'ROOM02', sessionId: 'ses_b' }),
+    record('watchdogEscalation', { attempts: 4 }, { roundId: 2 }),
+    record('watchdogEscalation', { attempts: 5 }, { roundId: 2 }),
+    record('streetViewCost', { calls: 3, costUsd: 0.021 }),
+    record('streetViewCost', { calls: 10, costUsd: 0.07 }, { roomId: 'ROOM02', sessionId: 'ses_b' }),
+    record('mpCounters', { roundEndLockAcquireAttempts: 2, ghostRemovedCount: 0 }),
+    record('mpCounters', { roundEndLockAcquireAttempts: 5, ghostRemovedCount: 1 }),
+    record('mpCounters', { roundEndLockAcquireAttempts: 1, ghostRemovedCount: 2 }, { roomId: 'ROOM02', sessionId: 'ses_b' }),
+    { ...record('error', {}), kind: 'error', message: 'boom' },
+  ];
+}
+
+const ALL = { from: T0, to: T0 + 60 * MIN };
+
+// ==================== PERCENTILES ====================
+
+describe('percentile', () => {
+  it('uses nearest rank', () => {
+    const values = [5, 1, 4, 2, 3, 10, 9, 8, 7, 6];
+    expect(percentile(values, 50)).toBe(5);
+    expect(percentile(values, 90)).toBe(9);
+    expect(percentile(values, 99)).toBe(10);
+    expect(percentile([42], 0)).toBe(42);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+// ==================== SUMMARY ====================
+
+describe('summarizeOps', () => {
+  it('aggregates latency, SLO breaches, escalations, counters and cost', () => {
+    const summary = summarizeOps(fixture(), ALL);
+    expect(summary.rounds).toBe(4);
+    expect(summary.roundEndLatency).toEqual({ count: 3, p50: 900, p90: 5200, p99: 5200, max: 5200 });
+    expect(summary.sloBreaches).toBe(1);
+    expect(summary.sloBreachRate).toBeCloseTo(1 / 3);
+    expect(summary.earlyFinish.count).toBe(1);
+    expect(summary.watchdogEscalations).toBe(1);
+    expect(summary.counters).toMatchObject({ sessions: 2, roundEndLockAcquireAttempts: 6, ghostRemovedCount: 3 });
+    expect(summary.streetView).toMatchObject({ rounds: 2, calls: 13, avgUsdPerRound: expect.closeTo(0.0455, 5) });
+    expect(summary.errors).toBe(1);
+    expect(summary.rooms.map((row) => [row.roomId, row.rounds, row.sloBreaches, row.watchdogEscalations])).toEqual([
+      ['ROOM01', 3, 1, 1],
+      ['ROOM02', 1, 0, 0],
+    ]);
+  });
+
+  it('filters by room and time range', () => {
+    const room = summarizeOps(fixture(), { ...ALL, roomId: 'ROOM02' });
+    expect(room).toMatchObject({ roomId: 'ROOM02', rounds: 1, sloBreaches: 0, watchdogEscalations: 0, errors: 0 });
+    expect(room.streetView.totalUsd).toBeCloseTo(0.07);
+
+    const firstTwo = summarizeOps(fixture(), { from: T0, to: T0 + MIN });
+    expect(firstTwo.roundEndLatency.count).toBe(2);
+    expect(firstTwo.counters.sessions).toBe(0);
+    expect(firstTwo.streetView.avgUsdPerRound).toBeNull();
+  });
+});
+
+// ==================== LOADING ====================
+
+describe('loadOpsSummary', () => {
+  it('walks UTC days and caps the range', () => {
+    expect(opsDays(T0, T0 + 36 * 60 * MIN)).toEqual(['2026-10-18', '2026-10-19', '2026-10-20']);
+    expect(() => opsDays(T0, T0 + 40 * 24 * 60 * MIN)).toThrow('31 days');
+    expect(() => opsDays(T0, T0 - 1)).toThrow('invalid range');
+  });
+
+  it('reads stored batches from every day in range', async () => {
+    const [first, ...rest] = fixture();
+    const nextDay = { ...first, at: T0 + 24 * 60 * MIN, roundId: 9 };
+    const storage = createMemoryOpsStorage({
+      '2026-10-18': { b1: { uid: 'u1', at: T0, records: rest }, b2: { at: T0, records: [first] } },
+      '2026-10-19': { b3: { at: nextDay.at, records: [nextDay] } },
+    });
+    const summary = await loadOpsSummary(storage, { from: T0, to: nextDay.at });
+    expect(summary.rounds).toBe(5);
+  });
+
+  it('admin storage GETs telemetry/{day} with the database secret', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ b1: { at: T0, records: [] } })))
+      .mockResolvedValueOnce(new Response(null, { status: 401 }));
+    const storage = createAdminTelemetryStorage({ databaseURL: 'https://db.example/', secret: 's3cret', fetchImpl });
+    expect(await storage.getTelemetryDay('2026-10-18')).toEqual({ b1: { at: T0, records: [] } });
+    expect(fetchImpl).toHaveBeenCalledWith('https://db.example/telemetry/2026-10-18.json?auth=s3cret');
+    await expect(storage.getTelemetryDay('2026-10-19')).rejects.toThrow('GET telemetry/2026-10-19 failed: HTTP 401');
+  });
+});
@@ -0,0 +1,147 @@
+// @vitest-environment node
+/**
+ * Pano Package Authoring — Tests
+ *
+ * Tests cover:
+ * - Shipped packages lint without errors (warnings allowed)
+ * - Each rule: schema, duplicate ids, bounds, headings, "İlçe, İl", il / bölge / polygon consistency,
+ *   identical arms, shared panoIds
+ * - New packages are linted against the existing set, only their own issues reported
+ * - Pack edits: v2 input is linted like v1, add / remove keep order and bump the revision
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PanoPackage } from '@/types';
+import { encodePackage, getLoadedPackages } from '@/services/panoPacks';
+import { readPackFile } from '@/services/panoPackFiles';
+import {
+  addToPack,
+  lintNewPackages,
+  lintPackages,
+  parseLocationName,
+  removeFromPack,
+  schemaProblems,
+  toLintShape,
+} from '@/services/packageAuthoring';
+
+// ==================== HELPERS ====================
+
+const ALL_PANO_PACKAGES = getLoadedPackages();
+const URBAN_PACKAGES = getLoadedPackages('urban');
+
+function createPackage(overrides: Partial<PanoPackage> = {}): PanoPackage {
+  const arm = (lng: number, heading: number) => ({ panoId: 'testPano_cankaya', lat: 39.9, lng, heading });
+  return {
+    id: 'ank_test_1',
+    mode: 'urban',
+    region: 'ic_anadolu',
+    roadType: 'urban_street',
+    hintTags: ['signage'],
+    qualityScore: 4,
+    blacklist: false,
+    pano0: arm(32.86, 0),
+    pano1: arm(32.8595, 270),
+    pano2: arm(32.8605, 90),
+    pano3: { panoId: 'testPano_cankaya', lat: 39.9005, lng: 32.86, heading: 180 },
+    locationName: 'Çankaya, Ankara',
+    ...overrides,
+  };
+}
+
+const rules = (pkg: unknown) => lintPackages([pkg]).issues.map((i) => i.rule);
+
+// ==================== LINT ====================
+
+describe('lintPackages', () => {
+  it('passes the shipped packages (warnings only)', () => {
+    const report = lintPackages(ALL_PANO_PACKAGES);
+    expect(report.errors).toBe(0);
+    expect(report.ok).toBe(true);
+    expect(report.packages).toBe(ALL_PANO_PACKAGES.length);
+    expect(report.issues.every((i) => i.severity === 'warning')).toBe(true);
+  });
+
+  it('reports schema problems and skips the other rules for that package', () => {
+    expect(schemaProblems(createPackage())).toEqual([]);
+    expect(schemaProblems(null)).toEqual(['not an object']);
+    const bad = { ...createPackage(), id: 'Ank Test', qualityScore: 7, pano2: { panoId: '', lat: 39.9, lng: 32.86, heading: 0 } };
+    const problems = schemaProblems(bad);
+    expect(problems).toHaveLength(3);
+    expect(rules(bad)).toEqual(['schema']);
+    expect(lintPackages([bad, 'x']).issues.map((i) => i.packageId)).toEqual(['Ank Test', '#1']);
+  });
+
+  it('flags duplicate ids once, coordinates outside Türkiye and bad headings', () => {
+    const dup = lintPackages([createPackage(), createPackage({ pano0: { panoId: 'other', lat: 39.9, lng: 32.86, heading: 0 } })]);
+    expect(dup.issues.filter((i) => i.rule === 'duplicateId')).toHaveLength(1);
+
+    const abroad = createPackage({ pano3: { panoId: 'testPano_cankaya', lat: 35.1, lng: 33.4, heading: 0 } });
+    expect(rules(abroad)).toEqual(['bounds']);
+    const turned = createPackage({ pano1: { panoId: 'testPano_cankaya', lat: 39.9, lng: 32.8595, heading: 400 } });
+    expect(rules(turned)).toEqual(['heading']);
+    expect(lintPackages([turned]).ok).toBe(false);
+  });
+
+  it('checks the name, il and bölge', () => {
+    expect(parseLocationName('Çankaya, Ankara')).toEqual({ district: 'Çankaya', province: 'Ankara' });
+    expect(parseLocationName('Toros Dağları')).toBeNull();
+
+    expect(rules(createPackage({ locationName: 'Ankara' }))).toEqual(['locationName']);
+    expect(rules(createPackage({ locationName: 'Çankaya, Anadolu' }))).toEqual(['unknownProvince']);
+    expect(rules(createPackage({ region: 'ege' }))).toEqual(['regionMismatch']);
+    expect(rules(createPackage({ locationName: 'Kadıköy, İstanbul', region: 'marmara' }))).toEqual(['provinceMismatch']);
+  });
+
+  it('warns about identical arms and panoIds shared across packages', () => {
+    const lazy = createPackage();
+    lazy.pano3 = { ...lazy.pano0 };
+    expect(rules(lazy)).toEqual(['identicalArms']);
+
+    const twin = createPackage({ id: 'ank_test_2' });
+    const report = lintPackages([createPackage(), twin]);
+    expect(report.issues.map((i) => `${i.packageId}:${i.rule}`)).toEqual(['ank_test_1:sharedPanoId', 'ank_test_2:sharedPanoId']);
+    expect(report.ok).toBe(true);
+    expect(report.singlePanoPackages).toBe(2);
+  });
+});
+
+describe('lintNewPackages', () => {
+  it('reports only the incoming packages\' issues', () => {
+    const clean = lintNewPackages(ALL_PANO_PACKAGES, [createPackage()]);
+    expect(clean).toMatchObject({ ok: true, packages: 1, errors: 0, warnings: 0 });
+
+    const existing = URBAN_PACKAGES[0];
+    const copy = lintNewPackages(ALL_PANO_PACKAGES, [{ ...existing }, { id: 1 }]);
+    expect(copy.issues.map((i) => `${i.packageId}:${i.rule}`).sort()).toEqual(['#1:schema', `${existing.id}:duplicateId`]);
+    expect(copy.ok).toBe(false);
+
+    const sameView = lintNewPackages(ALL_PANO_PACKAGES, [{ ...existing, id: 'ist_copy_1' }]);
+    expect(sameView.issues.map((i) => `${i.packageId}:${i.rule}`)).toEqual(['ist_copy_1:sharedPanoId']);
+    expect(sameView.ok).toBe(true);
+  });
+});
+
+// ==================== PACK EDITS ====================
+
+describe('pack edits', () => {
+  it('lints schema v2 input like v1', () => {
+    const pkg = createPackage();
+    expect(toLintShape(encodePackage(pkg))).toEqual(pkg);
+    expect(toLintShape(pkg)).toBe(pkg);
+    expect(rules(toLintShape(encodePackage(createPackage({ qualityScore: 9 }))))).toEqual(['schema']);
+  });
+
+  it('appends to the mode\'s pack and removes again, bumping the revision', () => {
+    const urban = readPackFile('urban');
+    const added = addToPack(urban, [createPackage()]);
+    expect(added.header.revision).toBe(urban.header.revision + 1);
+    expect(added.packages.slice(0, -1)).toEqual(urban.packages);
+    expect(added.packages[added.packages.length - 1].id).toBe('ank_test_1');
+    expect(() => addToPack(urban, [createPackage({ mode: 'geo' })])).toThrow(/geo package/);
+
+    const removed = removeFromPack(added, ['ank_test_1']);
+    expect(removed.packages).toEqual(urban.packages);
+    expect(removed.header.revision).toBe(urban.header.revision + 2);
+    expect(() => removeFromPack(urban, ['nope_1'])).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,154 @@
+// @vitest-environment node
+/**
+ * Pano Packs — Tests
+ *
+ * Tests cover:
+ * - Shipped packs parse at the current schema and round-trip through serializePack
+ * - Migration: a schema v1 file (pano0..pano3) loads to the same packages; JSON document form
+ * - Format errors carry the line: bad JSON, newer schema, wrong mode, duplicate id, missing arms
+ * - loadPack fetches only the requested pack once, installs it; failures install nothing
+ * - Consumers (locationEngine enrichment, urbanSeeds) follow the installed revision
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  MIGRATIONS,
+  PACK_IDS,
+  PACK_SCHEMA_VERSION,
+  PackFormatError,
+  PanoPack,
+  clearPacks,
+  encodePackage,
+  getLoadedPackages,
+  getPacksRevision,
+  installPack,
+  isPackLoaded,
+  loadPack,
+  parsePack,
+  serializePack,
+} from '@/services/panoPacks';
+import { installPacksFromDisk, readPackFile } from '@/services/panoPackFiles';
+import { getEnrichedPackages } from '@/services/locationEngine';
+import { buildUrbanSeedMap, getUrbanSeedMap } from '@/data/urbanSeeds';
+
+// ==================== HELPERS ====================
+
+const URBAN = readPackFile('urban');
+const GEO = readPackFile('geo');
+
+/** The pack as an old schema v1 NDJSON file */
+function toV1Text(pack: PanoPack): string {
+  const header = { schemaVersion: 1, pack: pack.header.pack, revision: pack.header.revision };
+  return [header, ...pack.packages].map((row) => JSON.stringify(row)).join('\n') + '\n';
+}
+
+function ndjson(pack: string, rows: unknown[], schemaVersion: number = PACK_SCHEMA_VERSION): string {
+  return [{ schemaVersion, pack, revision: 1 }, ...rows].map((row) => JSON.stringify(row)).join('\n');
+}
+
+function fakeFetch(files: Record<string, string>) {
+  return vi.fn(async (url: string) => {
+    const name = url.split('/').pop() as string;
+    const body = files[name];
+    return { ok: body !== undefined, status: body === undefined ? 404 : 200, text: async () => body ?? '' };
+  }) as unknown as typeof fetch & ReturnType<typeof vi.fn>;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  clearPacks();
+  installPacksFromDisk(PACK_IDS, { force: true });
+});
+
+// ==================== FORMAT ====================
+
+describe('parsePack', () => {
+  it('reads the shipped packs at the current schema and round-trips them', () => {
+    expect(URBAN.header).toMatchObject({ schemaVersion: PACK_SCHEMA_VERSION, pack: 'urban' });
+    expect(URBAN.packages.length).toBeGreaterThan(50);
+    expect(GEO.packages.every((p) => p.mode === 'geo')).toBe(true);
+    expect(URBAN.packages[0]).toHaveProperty('pano3.panoId');
+
+    const text = serializePack(URBAN);
+    expect(text.split('\n')).toHaveLength(URBAN.packages.length + 2);
+    expect(parsePack(text)).toEqual(URBAN);
+  });
+
+  it('migrates schema v1 files and accepts a single JSON document', () => {
+    expect(Object.keys(MIGRATIONS).map(Number)).toEqual([1]);
+    const migrated = parsePack(toV1Text(GEO));
+    expect(migrated.header.schemaVersion).toBe(PACK_SCHEMA_VERSION);
+    expect(migrated.packages).toEqual(GEO.packages);
+
+    const document = JSON.stringify({ ...GEO.header, packages: GEO.packages.map(encodePackage) }, null, 2);
+    expect(parsePack(document).packages).toEqual(GEO.packages);
+  });
+
+  it('reports format errors with the line', () => {
+    const good = encodePackage(GEO.packages[0]);
+    const attempt = (text: string) => {
+      try {
+        parsePack(text);
+      } catch (err) {
+        expect(err).toBeInstanceOf(PackFormatError);
+        return (err as PackFormatError).line;
+      }
+      return 'parsed';
+    };
+
+    expect(attempt(ndjson('geo', [good]) + '\n{oops')).toBe(3);
+    expect(attempt(ndjson('geo', [good], PACK_SCHEMA_VERSION + 1))).toBe(1);
+    expect(attempt(ndjson('urban', [good]))).toBe(2);
+    expect(attempt(ndjson('geo', [good, good]))).toBe(3);
+    expect(attempt(ndjson('geo', [{ ...good, panos: good.panos.slice(0, 3) }]))).toBe(2);
+    expect(attempt(ndjson('rural', [good]))).toBe(1);
+    expect(attempt(ndjson('geo', [good]))).toBe('parsed');
+  });
+});
+
+// ==================== LOADING ====================
+
+describe('loadPack', () => {
+  it('fetches only the requested pack, once', async () => {
+    clearPacks();
+    const fetchImpl = fakeFetch({ 'geo.ndjson': serializePack(GEO) });
+
+    const [first, second] = await Promise.all([loadPack('geo', fetchImpl, '/packs'), loadPack('geo', fetchImpl, '/packs')]);
+    expect(first).toBe(second);
+    expect(first).toHaveLength(GEO.packages.length);
+    await loadPack('geo', fetchImpl, '/packs');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(fetchImpl).toHaveBeenCalledWith('/packs/geo.ndjson');
+
+    expect(isPackLoaded('geo')).toBe(true);
+    expect(isPackLoaded('urban')).toBe(false);
+    expect(getLoadedPackages()).toEqual(GEO.packages);
+  });
+
+  it('installs nothing when the request or the file fails', async () => {
+    clearPacks();
+    await expect(loadPack('urban', fakeFetch({}), '/packs')).rejects.toThrow(/404/);
+    await expect(loadPack('urban', fakeFetch({ 'urban.ndjson': '{}' }), '/packs')).rejects.toBeInstanceOf(PackFormatError);
+    expect(isPackLoaded('urban')).toBe(false);
+  });
+});
+
+// ==================== CONSUMERS ====================
+
+describe('consumers follow the installed revision', () => {
+  it('rebuild engine enrichment and the urban seed map', () => {
+    const fullSeeds = getUrbanSeedMap();
+    expect(getEnrichedPackages('urban')).toHaveLength(URBAN.packages.length);
+
+    const revision = getPacksRevision();
+    installPack({ header: { ...URBAN.header, revision: 99 }, packages: URBAN.packages.slice(0, 2) });
+    expect(getPacksRevision()).toBeGreaterThan(revision);
+    expect(getEnrichedPackages('urban').map((ep) => ep.pkg.id)).toEqual(URBAN.packages.slice(0, 2).map((p) => p.id));
+    expect(getUrbanSeedMap()).not.toBe(fullSeeds);
+    expect(getUrbanSeedMap().size).toBeLessThan(fullSeeds.size);
+    expect(buildUrbanSeedMap(URBAN.packages).size).toBe(fullSeeds.size);
+  });
+});
@@ -0,0 +1,106 @@
+// @vitest-environment node
+/**
+ * Pano Resolver — Tests
+ *
+ * Tests cover:
+ * - Metadata resolver: GET with location, radius, outdoor source and the server key
+ * - No pano / HTTP error / network error → null, never a throw
+ * - Budgeted resolver: refused or failed reservation → no lookup at all
+ * - Ledger resolver: every lookup charged to the scope, static-only at the room cap; no key → none
+ */
+
+import { describe, it, expect, afterEach, vi, beforeEach } from 'vitest';
+import {
+  PanoResolver,
+  STREET_VIEW_METADATA_URL,
+  budgetedPanoResolver,
+  createLedgerPanoResolver,
+  createMetadataPanoResolver,
+} from '@/services/panoResolver';
+import { budgetDayKey } from '@/services/apiBudget';
+import { API_COST_CONTROL } from '@/config/production';
+import { createMemoryBudgetStorage } from './fakes';
+
+// ==================== FIXTURES ====================
+
+const LOOKUP = { lat: 41.0082, lng: 28.9784, radius: 100, kind: 'findPano' as const };
+
+const metadata = (body: object, status = 200) => new Response(JSON.stringify(body), { status });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ==================== METADATA ====================
+
+describe('createMetadataPanoResolver', () => {
+  it('asks the metadata API for the nearest outdoor pano with the server key', async () => {
+    const fetchImpl = vi.fn(async () => metadata({ status: 'OK', pano_id: 'abc', location: { lat: 41.0083, lng: 28.9785 } }));
+    const resolve = createMetadataPanoResolver({ apiKey: 'server-key', fetchImpl });
+
+    expect(await resolve(LOOKUP)).toEqual({ panoId: 'abc', lat: 41.0083, lng: 28.9785 });
+    const url = new URL(String((fetchImpl.mock.calls[0] as unknown[])[0]));
+    expect(`${url.origin}${url.pathname}`).toBe(STREET_VIEW_METADATA_URL);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      location: '41.0082,28.9784',
+      radius: '100',
+      source: 'outdoor',
+      key: 'server-key',
+    });
+  });
+
+  it('null when there is no pano or the lookup fails', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(metadata({ status: 'ZERO_RESULTS' }))
+      .mockResolvedValueOnce(metadata({ status: 'REQUEST_DENIED' }))
+      .mockResolvedValueOnce(metadata({}, 500))
+      .mockRejectedValueOnce(new Error('offline'));
+    const resolve = createMetadataPanoResolver({ apiKey: 'k', fetchImpl });
+
+    for (let i = 0; i < 4; i++) expect(await resolve(LOOKUP)).toBeNull();
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+});
+
+// ==================== BUDGET ====================
+
+describe('budgetedPanoResolver', () => {
+  it('reserves the lookup\'s kind first and skips Google when refused', async () => {
+    const inner = vi.fn<PanoResolver>(async ({ lat, lng }) => ({ panoId: 'p', lat, lng }));
+    const reserve = vi.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false).mockRejectedValueOnce(new Error('ledger down'));
+    const resolve = budgetedPanoResolver(inner, reserve);
+
+    expect(await resolve(LOOKUP)).toMatchObject({ panoId: 'p' });
+    expect(await resolve({ ...LOOKUP, kind: 'resolvePano' })).toBeNull();
+    expect(await resolve(LOOKUP)).toBeNull();
+    expect(reserve.mock.calls).toEqual([['findPano'], ['resolvePano'], ['findPano']]);
+    expect(inner).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createLedgerPanoResolver', () => {
+  it('charges every lookup to the scope and stops at the room cap', async () => {
+    vi.useFakeTimers({ now: Date.UTC(2026, 9, 18, 12) });
+    const storage = createMemoryBudgetStorage();
+    const fetchImpl = vi.fn(async () => metadata({ status: 'OK', pano_id: 'abc', location: { lat: 41, lng: 29 } }));
+    const resolve = createLedgerPanoResolver('server-key', storage, 'ROOM01', fetchImpl)!;
+
+    const found = [];
+    for (let i = 0; i <= API_COST_CONTROL.MAX_ROOM_DAILY_API_CALLS; i++) found.push(await resolve(LOOKUP));
+    expect(found.filter(Boolean)).toHaveLength(API_COST_CONTROL.MAX_ROOM_DAILY_API_CALLS);
+    expect(found[found.length - 1]).toBeNull();
+    expect(fetchImpl).toHaveBeenCalledTimes(API_COST_CONTROL.MAX_ROOM_DAILY_API_CALLS);
+    expect(storage.peek()[budgetDayKey(Date.now())].rooms?.ROOM01).toEqual({ findPano: API_COST_CONTROL.MAX_ROOM_DAILY_API_CALLS });
+  });
+
+  it('no server key → no resolver (static-only)', () => {
+    expect(createLedgerPanoResolver(undefined, createMemoryBudgetStorage(), 'ROOM01')).toBeUndefined();
+    expect(createLedgerPanoResolver('', createMemoryBudgetStorage(), 'ROOM01')).toBeUndefined();
+  });
+});
@@ -0,0 +1,185 @@
+// @vitest-environment node
+/**
+ * Player Profile — Tests
+ *
+ * Tests cover:
+ * - applyGameToProfile: lifetime sums, bests, per-region / per-mode buckets
+ * - Same game id twice → no-op (gameOver re-render, second tab)
+ * - profileStats averages (distance over guessed rounds only)
+ * - personalBests "Yeni rekor!" flags
+ * - Multiplayer extraction: roundEnd rows + roundScores at gameOver, missed rounds still count
+ * - Solo result → CareerGame
+ * - Memory storage: no profile → nothing recorded, write-once create
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Room, PanoPackage } from '@/types';
+import {
+  CareerGame,
+  NO_GUESS_DISTANCE,
+  applyGameToProfile,
+  buildCareerGame,
+  careerGameFromSolo,
+  collectRound,
+  createPlayerProfile,
+  personalBests,
+  profileStats,
+} from '@/services/playerProfile';
+import { createSoloRun, SoloResult } from '@/services/soloGame';
+import { createMemoryProfileStorage } from './fakes';
+import { T0 } from './fixtures';
+
+function game(id: string, rounds: [number, number | null, 'marmara' | 'ege' | null][], mode: 'urban' | 'geo' = 'urban'): CareerGame {
+  return {
+    id,
+    name: 'Ayşe',
+    mode,
+    rounds: rounds.map(([score, distance, region], i) => ({ round: i + 1, score, distance, region, locationName: `Konum ${i + 1}` })),
+    finishedAt: T0 + 1_000,
+  };
+}
+
+function baseRoom(): Room {
+  return { ...createSoloRun('Ayşe', 'urban', T0, { seed: 1 }).room, id: 'ABC123', lastActivityAt: T0 + 5_000 };
+}
+
+// ==================== PROFILE MATH ====================
+
+describe('applyGameToProfile', () => {
+  it('adds one game to the lifetime sums and buckets', () => {
+    const profile = applyGameToProfile(
+      createPlayerProfile('Ayşe', T0),
+      game('g1', [[4000, 20, 'marmara'], [1000, 300, 'ege'], [0, null, 'ege']])
+    );
+    expect(profile).toMatchObject({
+      games: 1,
+      rounds: 3,
+      guessedRounds: 2,
+      totalScore: 5000,
+      totalDistance: 320,
+      lastGameId: 'g1',
+      bestRound: { score: 4000, distance: 20, locationName: 'Konum 1' },
+      bestGame: { score: 5000, rounds: 3, mode: 'urban' },
+    });
+    expect(profile.regions?.ege).toEqual({ rounds: 2, guessedRounds: 1, totalScore: 1000, totalDistance: 300 });
+    expect(profile.modes?.urban).toEqual({ games: 1, rounds: 3, totalScore: 5000 });
+  });
+
+  it('ignores a game it has already recorded', () => {
+    const once = applyGameToProfile(createPlayerProfile('Ayşe', T0), game('g1', [[4000, 20, null]]));
+    expect(applyGameToProfile(once, game('g1', [[4000, 20, null]]))).toBe(once);
+  });
+
+  it('keeps older bests when the new game is worse', () => {
+    const first = applyGameToProfile(createPlayerProfile('Ayşe', T0), game('g1', [[4900, 1, null], [4900, 1, null]]));
+    const second = applyGameToProfile(first, game('g2', [[3000, 50, null]], 'geo'));
+    expect(second.bestRound?.score).toBe(4900);
+    expect(second.bestGame?.score).toBe(9800);
+    expect(second.modes).toEqual({
+      urban: { games: 1, rounds: 2, totalScore: 9800 },
+      geo: { games: 1, rounds: 1, totalScore: 3000 },
+    });
+  });
+});
+
+describe('profileStats / personalBests', () => {
+  it('averages score per round and distance over guessed rounds only', () => {
+    const profile = applyGameToProfile(
+      createPlayerProfile('Ayşe', T0),
+      game('g1', [[4000, 20, 'marmara'], [2000, 100, 'marmara'], [0, null, 'ege']])
+    );
+    const stats = profileStats(profile);
+    expect(stats.averageScore).toBe(2000);
+    expect(stats.averageDistance).toBe(60);
+    expect(stats.regions.map((r) => [r.region, r.averageScore, r.averageDistance])).toEqual([
+      ['marmara', 3000, 60],
+      ['ege', 0, null],
+    ]);
+    expect(stats.modes).toEqual([{ mode: 'urban', games: 1, averageGameScore: 6000, averageRoundScore: 2000 }]);
+    expect(profileStats(createPlayerProfile('Yeni', T0))).toMatchObject({ averageScore: 0, averageDistance: null, regions: [], modes: [] });
+  });
+
+  it('flags bests set by this game', () => {
+    const before = applyGameToProfile(createPlayerProfile('Ayşe', T0), game('g1', [[3000, 50, null]]));
+    const better = applyGameToProfile(before, game('g2', [[4500, 5, null]]));
+    expect(personalBests(before, better)).toEqual({ bestRound: 4500, bestGame: 4500, newBestRound: true, newBestGame: true });
+    const worse = applyGameToProfile(before, game('g3', [[100, 900, null]]));
+    expect(personalBests(before, worse)).toEqual({ bestRound: 3000, bestGame: 3000, newBestRound: false, newBestGame: false });
+  });
+});
+
+// ==================== GAME EXTRACTION ====================
+
+describe('multiplayer extraction', () => {
+  it('collects this player\'s row at roundEnd and fills missed rounds from roundScores', () => {
+    const room = baseRoom();
+    const playerId = room.hostId;
+    const roundEnd: Room = {
+      ...room,
+      status: 'roundEnd',
+      currentRound: 1,
+      currentLocationName: 'Kadıköy, İstanbul',
+      currentPanoPackage: { region: 'marmara' } as PanoPackage,
+      roundResults: [
+        { playerId: 'other', playerName: 'Bora', guess: { lat: 39, lng: 32 }, distance: 5, score: 4900 },
+        { playerId, playerName: 'Ayşe', guess: { lat: 41, lng: 29 }, distance: 12.5, score: 4700 },
+      ],
+    };
+    const row = collectRound(roundEnd, playerId);
+    expect(row).toEqual({ round: 1, score: 4700, distance: 12.5, region: 'marmara', locationName: 'Kadıköy, İstanbul' });
+    expect(collectRound({ ...roundEnd, status: 'playing' }, playerId)).toBeNull();
+
+    const over: Room = {
+      ...roundEnd,
+      status: 'gameOver',
+      players: { [playerId]: { ...room.players[playerId], roundScores: [4700, 2100] } },
+    };
+    const career = buildCareerGame(over, playerId, [row!]);
+    expect(career?.id).toBe(`ABC123_${T0 + 5_000}`);
+    expect(career?.rounds).toEqual([
+      row,
+      { round: 2, score: 2100, distance: null, region: null, locationName: null },
+    ]);
+    expect(buildCareerGame({ ...over, status: 'roundEnd' }, playerId, [])).toBeNull();
+  });
+
+  it('turns a solo result into a career game', () => {
+    const result: SoloResult = {
+      id: 'solo_1',
+      playerName: 'Ayşe',
+      gameMode: 'geo',
+      scoringProfile: 'exponential',
+      totalRounds: 2,
+      totalScore: 3000,
+      rounds: [
+        { round: 1, locationName: 'Van', region: 'dogu_anadolu', distance: 40, score: 3000 },
+        { round: 2, locationName: 'Rize', distance: NO_GUESS_DISTANCE, score: 0 },
+      ],
+      startedAt: T0,
+      finishedAt: T0 + 60_000,
+    };
+    const career = careerGameFromSolo(result);
+    expect(career.id).toBe('solo_1');
+    expect(career.rounds.map((r) => [r.distance, r.region])).toEqual([[40, 'dogu_anadolu'], [null, null]]);
+  });
+});
+
+// ==================== STORAGE ====================
+
+describe('memory profile storage', () => {
+  it('records only for existing profiles, once per game', async () => {
+    const storage = createMemoryProfileStorage();
+    expect(await storage.recordGame('u1', game('g1', [[100, 10, null]]))).toBeNull();
+
+    expect(await storage.createProfile('u1', createPlayerProfile('Ayşe', T0))).toBe(true);
+    expect(await storage.createProfile('u1', createPlayerProfile('Başka', T0))).toBe(false);
+
+    const recorded = await storage.recordGame('u1', game('g1', [[100, 10, null]]));
+    expect(recorded?.before.games).toBe(0);
+    expect(recorded?.after.games).toBe(1);
+    expect(await storage.recordGame('u1', game('g1', [[100, 10, null]]))).toBeNull();
+
+    await storage.deleteProfile('u1');
+    expect(await storage.getProfile('u1')).toBeNull();
+  });
+});
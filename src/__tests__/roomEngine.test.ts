@@ -0,0 +1,628 @@
+// @vitest-environment node
+/**
+ * RoomEngine — headless multiplayer tests
+ *
+ * Runs against the in-memory storage fake: no jsdom, no Google Maps, no Firebase.
+ * Tests cover:
+ * - Pure state machine transitions (settings / start / roundEnd / next / gameOver / restart)
+ * - Hidden answer: rounds dealt by the round authority, only currentPano while
+ *   playing, revealed by END_ROUND (solo) or the scoring authority
+ * - RoundEnd lock: exactly-once under concurrent triggers, stale lock override
+ * - Ghost removal: grace period, stale heartbeat marking, expectedGuesses decrement
+ * - Watchdog: timer buffer, lock wait, stale override, escalation
+ * - Host migration + onDisconnect simulation
+ * - RoomSession: migration election, allGuessed / timeUp triggers, dispose
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Room, Player, PanoPackage } from '@/types';
+import { RoomEngine, RoomSession, WatchdogState } from '@/services/roomEngine';
+import { applyRoundScores } from '@/services/scoringAuthority';
+import { createRoundAuthority } from '@/services/roundAuthority';
+import {
+  transitionRoom,
+  roundFromPanoPackage,
+  roundAnswer,
+  validateRoomSettings,
+  electNewHost,
+  needsHostMigration,
+  findOfflinePlayers,
+  evaluateWatchdog,
+  DISCONNECT_GRACE_PERIOD,
+  STALE_HEARTBEAT_THRESHOLD,
+  WATCHDOG_BUFFER,
+  WATCHDOG_MAX_ATTEMPTS,
+  WATCHDOG_LOCK_STALE_THRESHOLD,
+} from '@/services/roomStateMachine';
+import { createMemoryRoomStorage, MemoryRoomStorage } from './fakes';
+import { T0, createPlayer, createRoom, playersOf } from './fixtures';
+
+// ==================== HELPERS ====================
+
+/** Lobby of three: host, p2 and p3 joined in that order */
+function createLobby(overrides: Partial<Room> = {}): Room {
+  return createRoom({
+    totalRounds: 2,
+    players: playersOf(createPlayer('host'), createPlayer('p2', { joinedAt: T0 + 10 }), createPlayer('p3', { joinedAt: T0 + 20 })),
+    ...overrides,
+  });
+}
+
+const PACKAGE: PanoPackage = {
+  id: 'test_pkg',
+  mode: 'urban',
+  region: 'ic_anadolu',
+  roadType: 'urban_street',
+  hintTags: [],
+  qualityScore: 4,
+  blacklist: false,
+  pano0: { panoId: 'p0', lat: 39.92, lng: 32.85, heading: 0 },
+  pano1: { panoId: 'p1', lat: 39.921, lng: 32.85, heading: 90 },
+  pano2: { panoId: 'p2', lat: 39.922, lng: 32.85, heading: 180 },
+  pano3: { panoId: 'p3', lat: 39.923, lng: 32.85, heading: 270 },
+  locationName: 'Çankaya, Ankara',
+};
+
+function playingRoom(overrides: Partial<Room> = {}): Room {
+  const result = transitionRoom(createLobby(), {
+    type: 'START_GAME',
+    actorId: 'host',
+    round: roundFromPanoPackage(PACKAGE),
+    startTime: T0,
+  });
+  if (!result.ok) throw new Error(result.reason);
+  return { ...result.room, ...overrides };
+}
+
+const ANSWER = (roundId: number) => roundAnswer(roundFromPanoPackage(PACKAGE), roundId);
+
+/** END_ROUND + scoring authority pass (what the server does after the lock) */
+function endAndScore(room: Room, roundId: number): Room {
+  const ended = transitionRoom(room, { type: 'END_ROUND', actorId: 'host', roundId, lockedAt: T0, answer: ANSWER(roundId) });
+  if (!ended.ok) throw new Error(ended.reason);
+  const scored = applyRoundScores(ended.room, roundId);
+  if (!scored.ok) throw new Error(scored.reason);
+  return scored.room;
+}
+
+/** In-process authorities over the memory storage; every round deals `deal()` */
+function createEngine(storage: MemoryRoomStorage, now: () => number, deal: () => PanoPackage = () => PACKAGE): RoomEngine {
+  return new RoomEngine({
+    storage,
+    now,
+    answers: storage,
+    rounds: createRoundAuthority(storage, { draw: async () => ({ panoPackage: deal(), mapNotice: null }) }),
+  });
+}
+
+// ==================== STATE MACHINE ====================
+
+describe('roomStateMachine transitions', () => {
+  it('UPDATE_SETTINGS: host can change rounds / time / moves while waiting', () => {
+    const result = transitionRoom(createLobby(), {
+      type: 'UPDATE_SETTINGS', actorId: 'host', settings: { totalRounds: 10, timeLimit: 300, moveLimit: 0 },
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.room).toMatchObject({ totalRounds: 10, timeLimit: 300, moveLimit: 0, status: 'waiting' });
+  });
+
+  it('UPDATE_SETTINGS rejected for non-host, after start and outside GAME_SETTINGS', () => {
+    const update = (room: Room, actorId: string, settings: Partial<Room>) =>
+      transitionRoom(room, { type: 'UPDATE_SETTINGS', actorId, settings });
+    expect(update(createLobby(), 'p2', { totalRounds: 3 }).ok).toBe(false);
+    expect(update(playingRoom(), 'host', { totalRounds: 3 }).ok).toBe(false);
+    expect(update(createLobby(), 'host', { totalRounds: 11 }).ok).toBe(false);
+    expect(update(createLobby(), 'host', { timeLimit: 20 }).ok).toBe(false);
+    expect(update(createLobby(), 'host', { timeLimit: 100 }).ok).toBe(false); // 15 sn adım
+    expect(update(createLobby(), 'host', { moveLimit: 11 }).ok).toBe(false);
+    expect(update(createLobby(), 'host', { moveLimit: 2.5 }).ok).toBe(false);
+  });
+
+  it('validateRoomSettings keeps only known fields and rejects empty patches', () => {
+    expect(validateRoomSettings({ moveLimit: 5, status: 'playing' } as Partial<Room>)).toEqual({ ok: true, settings: { moveLimit: 5 } });
+    expect(validateRoomSettings({ gameMode: 'geo', scoringProfile: 'linear' })).toEqual({ ok: true, settings: { gameMode: 'geo', scoringProfile: 'linear' } });
+    expect(validateRoomSettings({ gameMode: 'space' as Room['gameMode'] }).ok).toBe(false);
+    expect(validateRoomSettings({ scoringProfile: 'cubic' as Room['scoringProfile'] }).ok).toBe(false);
+    expect(validateRoomSettings({}).ok).toBe(false);
+  });
+
+  it('START_GAME: waiting → playing/active, players reset, expectedGuesses = online count', () => {
+    const room = createLobby();
+    room.players.p3.status = 'disconnected';
+    const result = transitionRoom(room, { type: 'START_GAME', actorId: 'host', round: roundFromPanoPackage(PACKAGE), startTime: T0 });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.room.status).toBe('playing');
+    expect(result.room.roundState).toBe('active');
+    expect(result.room.currentRound).toBe(1);
+    expect(result.room.roundVersion).toBe(1);
+    expect(result.room.expectedGuesses).toBe(2);
+    expect(result.room.currentPano).toEqual({ panoId: 'p0', heading: 0 });
+    expect(result.room.currentLocation).toBeNull();
+    expect(result.room.currentLocationName).toBeNull();
+    expect(result.room.currentPanoPackage).toBeNull();
+    expect(result.room.currentPanoPackageId).toBeNull();
+    expect(result.room.roundEndLock).toBeNull();
+  });
+
+  it('START_GAME rejected for non-host and when not waiting', () => {
+    const room = createLobby();
+    expect(transitionRoom(room, { type: 'START_GAME', actorId: 'p2', round: roundFromPanoPackage(PACKAGE), startTime: T0 }).ok).toBe(false);
+    expect(transitionRoom(playingRoom(), { type: 'START_GAME', actorId: 'host', round: roundFromPanoPackage(PACKAGE), startTime: T0 }).ok).toBe(false);
+  });
+
+  it('END_ROUND acquires the lock but leaves scoring to the authority', () => {
+    const room = playingRoom();
+    room.players.p2 = { ...room.players.p2, hasGuessed: true, currentGuess: { lat: 39.92, lng: 32.85 } };
+
+    const result = transitionRoom(room, {
+      type: 'END_ROUND', actorId: 'host', roundId: 1, lockedAt: T0 + 5000,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.room.status).toBe('roundEnd');
+    expect(result.room.roundState).toBe('ended');
+    expect(result.room.roundEndLock).toEqual({ lockedBy: 'host', roundId: 1, lockedAt: T0 + 5000 });
+
+    expect(result.room.roundResults).toBeNull();
+    expect(result.room.players.p2.totalScore).toBe(0);
+    expect(result.room.players.p2.roundScores).toEqual([]);
+  });
+
+  it('END_ROUND reveals the answer of this round only', () => {
+    const event = { type: 'END_ROUND' as const, actorId: 'host', roundId: 1, lockedAt: T0 };
+
+    const revealed = transitionRoom(playingRoom(), { ...event, answer: ANSWER(1) });
+    if (!revealed.ok) throw new Error(revealed.reason);
+    expect(revealed.room.currentLocation).toEqual({ lat: 39.92, lng: 32.85 });
+    expect(revealed.room.currentLocationName).toBe('Çankaya, Ankara');
+    expect(revealed.room.currentPanoPackage?.id).toBe('test_pkg');
+
+    // Stale round / different pano → round still ends, answer stays hidden
+    const stale = transitionRoom(playingRoom(), { ...event, answer: ANSWER(2) });
+    const wrongPano = transitionRoom(playingRoom({ currentPano: { panoId: 'other', heading: 0 } }), { ...event, answer: ANSWER(1) });
+    for (const result of [stale, wrongPano]) {
+      if (!result.ok) throw new Error(result.reason);
+      expect(result.room.status).toBe('roundEnd');
+      expect(result.room.currentLocation).toBeNull();
+    }
+  });
+
+  it('END_ROUND rejected when lock already held unless forcing override', () => {
+    const room = playingRoom({ roundEndLock: { lockedBy: 'p2', roundId: 1, lockedAt: T0 } });
+    const event = { type: 'END_ROUND' as const, actorId: 'host', roundId: 1, lockedAt: T0 };
+
+    expect(transitionRoom(room, event).ok).toBe(false);
+    expect(transitionRoom(room, { ...event, forceOverrideStaleLock: true }).ok).toBe(true);
+    // Lock from a previous round does not block
+    expect(transitionRoom({ ...room, roundEndLock: { lockedBy: 'p2', roundId: 0, lockedAt: T0 } }, event).ok).toBe(true);
+  });
+
+  it('NEXT_ROUND advances, then ends the game at totalRounds', () => {
+    const ended = endAndScore(playingRoom(), 1);
+
+    const next = transitionRoom(ended, {
+      type: 'NEXT_ROUND', actorId: 'host', expectedRoundVersion: 1, round: roundFromPanoPackage(PACKAGE), startTime: T0 + 100000,
+    });
+    if (!next.ok) throw new Error(next.reason);
+    expect(next.room.currentRound).toBe(2);
+    expect(next.room.status).toBe('playing');
+    expect(next.room.roundVersion).toBe(2);
+
+    const ended2 = endAndScore(next.room, 2);
+    const over = transitionRoom(ended2, {
+      type: 'NEXT_ROUND', actorId: 'host', expectedRoundVersion: 2, round: roundFromPanoPackage(PACKAGE), startTime: T0,
+    });
+    expect(over.ok && over.gameOver).toBe(true);
+    if (over.ok) expect(over.room.status).toBe('gameOver');
+  });
+
+  it('NEXT_ROUND rejected on roundVersion mismatch (double-advance guard)', () => {
+    const ended = endAndScore(playingRoom(), 1);
+    const result = transitionRoom(ended, {
+      type: 'NEXT_ROUND', actorId: 'host', expectedRoundVersion: 0, round: roundFromPanoPackage(PACKAGE), startTime: T0,
+    });
+    expect(result.ok).toBe(false);
+  });
+
+  it('NEXT_ROUND rejected until the round is scored', () => {
+    const ended = transitionRoom(playingRoom(), { type: 'END_ROUND', actorId: 'host', roundId: 1, lockedAt: T0 });
+    if (!ended.ok) throw new Error(ended.reason);
+    const result = transitionRoom(ended.room, {
+      type: 'NEXT_ROUND', actorId: 'host', expectedRoundVersion: 1, round: roundFromPanoPackage(PACKAGE), startTime: T0,
+    });
+    expect(result).toEqual({ ok: false, reason: 'round not scored yet' });
+  });
+
+  it('RESTART resets scores and lifecycle fields', () => {
+    const room = playingRoom();
+    room.players.p2.totalScore = 1234;
+    const result = transitionRoom(room, { type: 'RESTART', actorId: 'host', now: T0 });
+    if (!result.ok) throw new Error(result.reason);
+    expect(result.room.status).toBe('waiting');
+    expect(result.room.roundState).toBe('waiting');
+    expect(result.room.players.p2.totalScore).toBe(0);
+    expect(result.room.currentPanoPackage).toBeNull();
+    expect(result.room.currentPano).toBeNull();
+  });
+});
+
+describe('roomStateMachine presence queries', () => {
+  it('host election picks lowest joinedAt among online players', () => {
+    const room = createLobby();
+    room.players.host.status = 'disconnected';
+    room.players.p2.status = 'disconnected';
+    expect(needsHostMigration(room)).toBe(true);
+    expect(electNewHost(room)?.id).toBe('p3');
+  });
+
+  it('findOfflinePlayers: ghosts after grace, stale after heartbeat threshold, never self', () => {
+    const room = createLobby();
+    room.players.p2 = { ...room.players.p2, status: 'disconnected', lastSeen: T0 };
+    room.players.p3 = { ...room.players.p3, status: 'online', lastSeen: T0 };
+    room.players.host = { ...room.players.host, lastSeen: T0 - 999999 };
+
+    const early = findOfflinePlayers(room, 'host', T0 + DISCONNECT_GRACE_PERIOD - 1);
+    expect(early.ghosts).toHaveLength(0);
+
+    const later = findOfflinePlayers(room, 'host', T0 + STALE_HEARTBEAT_THRESHOLD + 1);
+    expect(later.ghosts.map(p => p.id)).toEqual(['p2']);
+    expect(later.stale.map(p => p.id)).toEqual(['p3']);
+  });
+});
+
+// ==================== ENGINE ====================
+
+describe('RoomEngine round-end lock', () => {
+  let clock: number;
+  let storage: MemoryRoomStorage;
+  let engine: RoomEngine;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'table').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    clock = T0;
+    storage = createMemoryRoomStorage({ now: () => clock });
+    engine = createEngine(storage, () => clock);
+  });
+
+  it('updateSettings syncs to the room and the next round uses the new limits', async () => {
+    await storage.setRoom('ROOM01', createLobby());
+    expect(await engine.updateSettings('ROOM01', 'p2', { timeLimit: 60 })).toBeNull();
+    expect(await engine.updateSettings('ROOM01', 'host', { timeLimit: 60, moveLimit: 0 })).not.toBeNull();
+    expect(storage.peekRoom('ROOM01')).toMatchObject({ timeLimit: 60, moveLimit: 0 });
+
+    await engine.startGame('ROOM01', 'host');
+    expect(await engine.updateSettings('ROOM01', 'host', { timeLimit: 120 })).toBeNull();
+    expect(storage.peekRoom('ROOM01')).toMatchObject({ status: 'playing', timeLimit: 60, moveLimit: 0 });
+  });
+
+  it('setGameMode / setScoringProfile go through UPDATE_SETTINGS (host, waiting only)', async () => {
+    await storage.setRoom('ROOM01', createLobby());
+    expect(await engine.setGameMode('ROOM01', 'p2', 'geo')).toBeNull();
+    expect(await engine.setScoringProfile('ROOM01', 'p2', 'linear')).toBeNull();
+    expect(await engine.setGameMode('ROOM01', 'host', 'geo')).not.toBeNull();
+    expect(await engine.setScoringProfile('ROOM01', 'host', 'linear')).not.toBeNull();
+    expect(storage.peekRoom('ROOM01')).toMatchObject({ gameMode: 'geo', timeLimit: 120, moveLimit: 4, scoringProfile: 'linear' });
+
+    await engine.startGame('ROOM01', 'host');
+    expect(await engine.setGameMode('ROOM01', 'host', 'urban')).toBeNull();
+    expect(storage.peekRoom('ROOM01')!.gameMode).toBe('geo');
+  });
+
+  it('startGame publishes the dealt pano ID only; the answer waits in roundAnswers', async () => {
+    await storage.setRoom('ROOM01', createLobby());
+    expect(await engine.startGame('ROOM01', 'host')).toBe(true);
+
+    const room = storage.peekRoom('ROOM01')!;
+    expect(room.currentPano).toEqual({ panoId: 'p0', heading: 0 });
+    expect(JSON.stringify(room)).not.toContain('Çankaya');
+    expect(storage.peekRoundAnswer('ROOM01', 1)).toMatchObject(ANSWER(1));
+    expect(await engine.startGame('ROOM01', 'p2')).toBe(false);
+
+    clock = T0 + 95_000;
+    await engine.endRound({ roomId: 'ROOM01', roundId: 1, ownerId: 'host', trigger: 'timeUp' });
+    expect(storage.peekRoom('ROOM01')!.currentLocationName).toBe('Çankaya, Ankara');
+  });
+
+  it('advanceRound deals the next answer under the next round id', async () => {
+    let dealt: PanoPackage = { ...PACKAGE, id: 'next_pkg', pano0: { ...PACKAGE.pano0, panoId: 'n0' } };
+    engine = createEngine(storage, () => clock, () => dealt);
+    await storage.setRoom('ROOM01', endAndScore(playingRoom(), 1));
+
+    expect((await engine.advanceRound('ROOM01', 'host', 1)).committed).toBe(true);
+    expect(storage.peekRoundAnswer('ROOM01', 2)?.panoPackageId).toBe('next_pkg');
+    expect(storage.peekRoom('ROOM01')!.currentPano).toEqual({ panoId: 'n0', heading: 0 });
+
+    // Stale roundVersion: nothing dealt or committed, round 2's answer untouched
+    dealt = PACKAGE;
+    expect((await engine.advanceRound('ROOM01', 'host', 1)).committed).toBe(false);
+    expect(storage.peekRoundAnswer('ROOM01', 2)?.panoPackageId).toBe('next_pkg');
+  });
+
+  it('advanceRound after the final round ends the game without a deal', async () => {
+    const deal = vi.fn(() => PACKAGE);
+    engine = createEngine(storage, () => clock, deal);
+    await storage.setRoom('ROOM01', endAndScore(playingRoom({ totalRounds: 1 }), 1));
+
+    expect(await engine.advanceRound('ROOM01', 'host', 1)).toEqual({ committed: true, isGameOver: true });
+    expect(deal).not.toHaveBeenCalled();
+  });
+
+  it('concurrent triggers write roundEnd exactly once', async () => {
+    await storage.setRoom('ROOM01', playingRoom());
+    await storage.setRoundAnswer('ROOM01', ANSWER(1));
+    clock = T0 + 95_000;
+
+    const outcomes = await Promise.all([
+      engine.endRound({ roomId: 'ROOM01', roundId: 1, ownerId: 'host', trigger: 'allGuessed' }),
+      engine.endRound({ roomId: 'ROOM01', roundId: 1, ownerId: 'host', trigger: 'timeUp' }),
+      engine.endRound({ roomId: 'ROOM01', roundId: 1, ownerId: 'host', trigger: 'recovery' }),
+    ]);
+
+    expect(outcomes.filter(Boolean)).toHaveLength(1);
+    const room = storage.peekRoom('ROOM01')!;
+    expect(room.status).toBe('roundEnd');
+    expect(room.players.host.roundScores).toEqual([0]);
+  });
+
+  it('aborts for a stale round id', async () => {
+    await storage.setRoom('ROOM01', playingRoom());
+    expect(await engine.endRound({ roomId: 'ROOM01', roundId: 2, ownerId: 'host', trigger: 'timeUp' })).toBe(false);
+    expect(storage.peekRoom('ROOM01')!.status).toBe('playing');
+  });
+
+  it('submitGuess writes once and bumps currentGuesses', async () => {
+    await storage.setRoom('ROOM01', playingRoom());
+    clock = T0 + 10_000;
+    const guess = { lat: 39.9, lng: 32.8 };
+
+    expect(await engine.submitGuess('ROOM01', 'p2', guess, 1, 90)).toEqual({ accepted: true, reason: 'accepted' });
+    expect(await engine.submitGuess('ROOM01', 'p2', guess, 1, 90)).toEqual({ accepted: true, reason: 'already_guessed_db' });
+    expect(storage.peekRoom('ROOM01')!.currentGuesses).toBe(1);
+
+    clock = T0 + 200_000;
+    expect((await engine.submitGuess('ROOM01', 'p3', guess, 1, 90)).reason).toBe('time_expired');
+  });
+});
+
+describe('RoomEngine ghost removal', () => {
+  let clock: number;
+  let storage: MemoryRoomStorage;
+  let engine: RoomEngine;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    clock = T0;
+    storage = createMemoryRoomStorage({ now: () => clock });
+    engine = createEngine(storage, () => clock);
+  });
+
+  it('removes disconnected ghost and decrements expectedGuesses mid-round', async () => {
+    await storage.setRoom('ROOM01', playingRoom());
+    engine.registerDisconnect('ROOM01', 'p2');
+    storage.simulateDisconnect('p2');
+    expect(storage.peekRoom('ROOM01')!.players.p2.status).toBe('disconnected');
+
+    // Within grace period → kept
+    clock = T0 + DISCONNECT_GRACE_PERIOD - 1000;
+    await engine.cleanupOfflinePlayers('ROOM01', 'host');
+    expect(storage.peekRoom('ROOM01')!.players.p2).toBeDefined();
+
+    clock = T0 + DISCONNECT_GRACE_PERIOD + 1000;
+    const report = await engine.cleanupOfflinePlayers('ROOM01', 'host');
+    const room = storage.peekRoom('ROOM01')!;
+    expect(report.removed).toEqual(['p2']);
+    expect(room.players.p2).toBeUndefined();
+    expect(room.expectedGuesses).toBe(2);
+  });
+
+  it('marks stale heartbeat as disconnected, then removes it next cycle', async () => {
+    await storage.setRoom('ROOM01', createLobby());
+    clock = T0 + STALE_HEARTBEAT_THRESHOLD + 1000;
+    // host + p2 keep heartbeating
+    await engine.heartbeat('ROOM01', 'p2', false);
+
+    const first = await engine.cleanupOfflinePlayers('ROOM01', 'host');
+    expect(first.markedStale).toEqual(['p3']);
+    expect(storage.peekRoom('ROOM01')!.players.p3.status).toBe('disconnected');
+
+    const second = await engine.cleanupOfflinePlayers('ROOM01', 'host');
+    expect(second.removed).toEqual(['p3']);
+    // Not playing → expectedGuesses untouched
+    expect(storage.peekRoom('ROOM01')!.expectedGuesses).toBe(0);
+  });
+
+  it('host migration commits once and is idempotent', async () => {
+    await storage.setRoom('ROOM01', playingRoom());
+    expect(await engine.migrateHost('ROOM01', 'host', 'p2')).toBe(true);
+    expect(await engine.migrateHost('ROOM01', 'host', 'p3')).toBe(false);
+    const room = storage.peekRoom('ROOM01')!;
+    expect(room.hostId).toBe('p2');
+    expect(room.players.p2.isHost).toBe(true);
+    expect(room.players.host.isHost).toBe(false);
+  });
+});
+
+describe('RoomEngine watchdog', () => {
+  let clock: number;
+  let storage: MemoryRoomStorage;
+  let engine: RoomEngine;
+  let state: WatchdogState;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'table').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    clock = T0;
+    storage = createMemoryRoomStorage({ now: () => clock });
+    engine = createEngine(storage, () => clock);
+    state = { expectedRound: 1, roundStartTime: T0, timeLimit: 90, attempts: 0 };
+  });
+
+  it('stays idle until timeLimit + buffer', async () => {
+    await storage.setRoom('ROOM01', playingRoom());
+    clock = T0 + (90 + WATCHDOG_BUFFER) * 1000;
+    expect((await engine.watchdogTick('ROOM01', 'host', state)).action).toBe('idle');
+    expect(state.attempts).toBe(0);
+  });
+
+  it('resolves an expired round using meta/serverNow', async () => {
+    await storage.setRoom('ROOM01', playingRoom());
+    storage.setServerTimeOffset(120_000); // server clock ahead — client alone would stay idle
+    await storage.touchServerNow('ROOM01');
+
+    const decision = await engine.watchdogTick('ROOM01', 'host', state);
+    expect(decision.action).toBe('resolve');
+    expect(state.attempts).toBe(1);
+    expect(storage.peekRoom('ROOM01')!.status).toBe('roundEnd');
+  });
+
+  it('waits on a fresh lock and overrides a stale one', async () => {
+    clock = T0 + 100_000;
+    await storage.setRoom('ROOM01', playingRoom({ roundEndLock: { lockedBy: 'p2', roundId: 1, lockedAt: clock - 1000 } }));
+    expect((await engine.watchdogTick('ROOM01', 'host', state)).action).toBe('wait');
+
+    clock += WATCHDOG_LOCK_STALE_THRESHOLD;
+    const decision = await engine.watchdogTick('ROOM01', 'host', state);
+    expect(decision).toMatchObject({ action: 'resolve', staleLock: true });
+    const room = storage.peekRoom('ROOM01')!;
+    expect(room.status).toBe('roundEnd');
+    expect(room.roundEndLock?.lockedBy).toBe('host');
+  });
+
+  it('escalates after max attempts', () => {
+    const room = playingRoom();
+    const ctx = { selfId: 'host', expectedRound: 1, roundStartTime: T0, timeLimit: 90, now: T0 + 120_000 };
+    expect(evaluateWatchdog(room, { ...ctx, attempts: WATCHDOG_MAX_ATTEMPTS - 1 }).action).toBe('resolve');
+    expect(evaluateWatchdog(room, { ...ctx, attempts: WATCHDOG_MAX_ATTEMPTS }).action).toBe('escalate');
+  });
+
+  it('ignores rounds it does not own', () => {
+    const room = playingRoom({ hostId: 'p2' });
+    const decision = evaluateWatchdog(room, { selfId: 'host', expectedRound: 1, roundStartTime: T0, timeLimit: 90, attempts: 0, now: T0 + 120_000 });
+    expect(decision).toEqual({ action: 'idle', reason: 'not host' });
+  });
+});
+
+describe('RoomSession', () => {
+  let clock: number;
+  let storage: MemoryRoomStorage;
+  let engine: RoomEngine;
+  const sessions: RoomSession[] = [];
+
+  const open = (selfId: string, onResync?: (room: Room) => void) => {
+    const session = engine.openSession('ROOM01', selfId, { onResync });
+    sessions.push(session);
+    return session;
+  };
+
+  const allGuessed = (room: Room): Room => ({
+    ...room,
+    players: Object.fromEntries(Object.entries(room.players).map(([id, p]) => [id, { ...p, hasGuessed: true }])),
+    currentGuesses: Object.keys(room.players).length,
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'table').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    clock = T0;
+    storage = createMemoryRoomStorage({ now: () => clock });
+    engine = createEngine(storage, () => clock);
+    await storage.setRoundAnswer('ROOM01', ANSWER(1));
+  });
+
+  afterEach(() => {
+    sessions.splice(0).forEach((session) => session.dispose());
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('only the elected candidate migrates, then polls until the round ends', async () => {
+    const room = playingRoom();
+    room.players.host = { ...room.players.host, status: 'disconnected' };
+    await storage.setRoom('ROOM01', room);
+    const migrate = vi.spyOn(engine, 'migrateHost');
+
+    open('p3').handleSnapshot(room);
+    const p2 = open('p2');
+    p2.handleSnapshot(room);
+    p2.handleSnapshot(room); // guard: one attempt per dead host
+    await vi.advanceTimersByTimeAsync(0);
+    expect(migrate).toHaveBeenCalledTimes(1);
+    expect(migrate).toHaveBeenCalledWith('ROOM01', 'host', 'p2');
+    expect(storage.peekRoom('ROOM01')!.hostId).toBe('p2');
+    expect(p2.isRecoveringAfterMigration).toBe(true);
+
+    clock = T0 + 200_000;
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(storage.peekRoom('ROOM01')!.status).toBe('roundEnd');
+    expect(p2.isRecoveringAfterMigration).toBe(false);
+  });
+
+  it('allGuessed ends the round once, however many snapshots arrive', async () => {
+    const room = allGuessed(playingRoom());
+    await storage.setRoom('ROOM01', room);
+    const endRound = vi.spyOn(engine, 'endRound');
+
+    const host = open('host');
+    host.handleSnapshot(room);
+    host.handleSnapshot(room);
+    open('p2').handleSnapshot(room); // not host → no trigger
+    expect(host.isProcessingRound).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(endRound).toHaveBeenCalledTimes(1);
+    expect(endRound.mock.calls[0][0]).toMatchObject({ roundId: 1, ownerId: 'host', trigger: 'allGuessed' });
+    expect(storage.peekRoom('ROOM01')!.status).toBe('roundEnd');
+    expect(host.isProcessingRound).toBe(false);
+  });
+
+  it('timeUp waits for server time and fires once per round', async () => {
+    const room = playingRoom();
+    await storage.setRoom('ROOM01', room);
+    const endRound = vi.spyOn(engine, 'endRound');
+    const host = open('host');
+
+    clock = T0 + 30_000;
+    await host.handleTimeUp(room);
+    expect(endRound).not.toHaveBeenCalled();
+
+    clock = T0 + 90_000;
+    await host.handleTimeUp(room);
+    await host.handleTimeUp(room);
+    expect(endRound).toHaveBeenCalledTimes(1);
+    expect(endRound.mock.calls[0][0]).toMatchObject({ trigger: 'timeUp', timing: { serverNow: clock } });
+  });
+
+  it('stuck client re-reads and hands a missed transition to onResync', async () => {
+    const room = playingRoom();
+    room.players.p2 = { ...room.players.p2, hasGuessed: true };
+    await storage.setRoom('ROOM01', endAndScore(room, 1));
+    const onResync = vi.fn();
+
+    clock = T0 + 100_000;
+    open('p2', onResync).handleSnapshot(room);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(onResync).toHaveBeenCalledWith(expect.objectContaining({ status: 'roundEnd' }));
+  });
+
+  it('dispose cancels pending triggers', async () => {
+    const room = allGuessed(playingRoom());
+    await storage.setRoom('ROOM01', room);
+    const endRound = vi.spyOn(engine, 'endRound');
+
+    const host = open('host');
+    host.handleSnapshot(room);
+    host.dispose();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(endRound).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+// @vitest-environment node
+/**
+ * Room Janitor — Tests
+ *
+ * Tests cover:
+ * - Activity from createdAt / lastActivityAt / roundStartTime + player lastSeen
+ * - Delete reasons: expired (max age), empty (no live player), finished (gameOver)
+ * - Ghost players removed only while live players remain; playing round drops expectedGuesses
+ * - MAX_ACTIVE_ROOMS: least recently active deleted first
+ * - Orphaned roundAnswers; deleted rooms take their roundAnswers with them
+ * - dryRun writes nothing; activity between plan and apply skips the action
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Player, Room } from '@/types';
+import {
+  DEFAULT_JANITOR_POLICY,
+  JanitorPolicy,
+  deleteReason,
+  formatJanitorReport,
+  lastActivity,
+  planJanitor,
+  runJanitor,
+} from '@/services/roomJanitor';
+import { createMemoryJanitorStorage } from './fakes';
+import { T0, createPlayer, createRoom, playersOf } from './fixtures';
+
+// ==================== HELPERS ====================
+
+const MIN = 60_000;
+
+const playerSeenAt = (id: string, lastSeen: number, overrides: Partial<Player> = {}) => createPlayer(id, { lastSeen, ...overrides });
+
+const roomWith = (id: string, players: Player[], overrides: Partial<Room> = {}) =>
+  createRoom({ id, players: playersOf(...players), lastActivityAt: T0, ...overrides });
+
+const NOW = T0 + 60 * MIN;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+// ==================== DECISIONS ====================
+
+describe('deleteReason', () => {
+  it('uses the freshest of room timestamps and player heartbeats', () => {
+    const room = roomWith('ROOM01', [playerSeenAt('host', T0 + 10 * MIN)], { roundStartTime: T0 + 20 * MIN });
+    expect(lastActivity(room)).toBe(T0 + 20 * MIN);
+    expect(lastActivity({ ...room, players: {} })).toBe(T0 + 20 * MIN);
+  });
+
+  it('deletes empty, abandoned, finished and too-old rooms', () => {
+    expect(deleteReason(roomWith('ROOM01', []), NOW)).toBe('empty');
+    expect(deleteReason(roomWith('ROOM01', [playerSeenAt('host', NOW - 6 * MIN)]), NOW)).toBe('empty');
+    expect(deleteReason(roomWith('ROOM01', [], { lastActivityAt: NOW - 2 * MIN }), NOW)).toBeNull();
+    expect(deleteReason(roomWith('ROOM01', [playerSeenAt('host', NOW)], { status: 'gameOver' }), NOW)).toBe('finished');
+    expect(deleteReason(roomWith('ROOM01', [playerSeenAt('host', NOW)], { status: 'gameOver', lastActivityAt: NOW - 10 * MIN }), NOW)).toBeNull();
+    expect(deleteReason(roomWith('ROOM01', [playerSeenAt('host', NOW)], { lastActivityAt: NOW }), T0 + 25 * 60 * MIN)).toBe('expired');
+    expect(deleteReason(roomWith('ROOM01', [playerSeenAt('host', NOW)]), NOW)).toBeNull();
+  });
+});
+
+// ==================== PLAN ====================
+
+describe('planJanitor', () => {
+  it('removes ghosts only while live players remain', () => {
+    const rooms = {
+      MIXED1: roomWith('MIXED1', [playerSeenAt('host', NOW), playerSeenAt('afk', NOW - 4 * MIN)]),
+      ALLAFK: roomWith('ALLAFK', [playerSeenAt('host', NOW - 4 * MIN)], { lastActivityAt: NOW - MIN }),
+    };
+    expect(planJanitor(rooms, [], NOW)).toEqual({
+      scanned: 2,
+      actions: [{ type: 'removeGhosts', roomId: 'MIXED1', playerIds: ['afk'] }],
+      remaining: 2,
+    });
+  });
+
+  it('enforces MAX_ACTIVE_ROOMS, least recently active first', () => {
+    const policy: JanitorPolicy = { ...DEFAULT_JANITOR_POLICY, maxActiveRooms: 2 };
+    const rooms = {
+      NEWEST: roomWith('NEWEST', [playerSeenAt('host', NOW)]),
+      OLDEST: roomWith('OLDEST', [playerSeenAt('host', NOW - 2 * MIN), playerSeenAt('afk', NOW - 4 * MIN)]),
+      MIDDLE: roomWith('MIDDLE', [playerSeenAt('host', NOW - MIN)]),
+    };
+    const plan = planJanitor(rooms, [], NOW, policy);
+    expect(plan.actions).toEqual([{ type: 'deleteRoom', roomId: 'OLDEST', reason: 'overCapacity', lastActivity: NOW - 2 * MIN }]);
+    expect(plan.remaining).toBe(2);
+  });
+
+  it('finds roundAnswers whose room is gone', () => {
+    const rooms = { ROOM01: roomWith('ROOM01', [playerSeenAt('host', NOW)]) };
+    expect(planJanitor(rooms, ['ROOM01', 'GONE01'], NOW).actions).toEqual([{ type: 'removeOrphanAnswers', roomId: 'GONE01' }]);
+    expect(planJanitor(null, [], NOW)).toEqual({ scanned: 0, actions: [], remaining: 0 });
+  });
+});
+
+// ==================== RUN ====================
+
+describe('runJanitor', () => {
+  const rooms = () => ({
+    EMPTY1: roomWith('EMPTY1', []),
+    PLAYNG: roomWith('PLAYNG', [playerSeenAt('host', NOW), playerSeenAt('afk', NOW - 4 * MIN)], {
+      status: 'playing',
+      roundState: 'active',
+      expectedGuesses: 2,
+      lastActivityAt: NOW,
+    }),
+    ALIVE1: roomWith('ALIVE1', [playerSeenAt('host', NOW)]),
+  });
+
+  it('dry run reports the plan and writes nothing', async () => {
+    const storage = createMemoryJanitorStorage(rooms(), ['EMPTY1', 'GONE01']);
+    const report = await runJanitor(storage, NOW, { dryRun: true });
+    expect(report).toMatchObject({ dryRun: true, scanned: 3, remaining: 2, applied: 0 });
+    expect(report.actions.map((action) => `${action.type}:${action.roomId}`)).toEqual([
+      'deleteRoom:EMPTY1',
+      'removeGhosts:PLAYNG',
+      'removeOrphanAnswers:GONE01',
+    ]);
+    expect(Object.keys(storage.peekRooms())).toEqual(['EMPTY1', 'PLAYNG', 'ALIVE1']);
+    expect(formatJanitorReport(report)).toMatch(/^\[dry-run\] 3 oda tarandı, 2 oda kalıyor/);
+  });
+
+  it('deletes rooms with their answers and drops un-guessed ghosts', async () => {
+    const storage = createMemoryJanitorStorage(rooms(), ['EMPTY1', 'GONE01', 'ALIVE1']);
+    const report = await runJanitor(storage, NOW);
+    expect(report).toMatchObject({ dryRun: false, applied: 3, remaining: 2, skipped: [], failed: [] });
+
+    const after = storage.peekRooms();
+    expect(Object.keys(after)).toEqual(['PLAYNG', 'ALIVE1']);
+    expect(Object.keys(after.PLAYNG.players)).toEqual(['host']);
+    expect(after.PLAYNG.expectedGuesses).toBe(1);
+    expect(storage.peekAnswerRoomIds()).toEqual(['ALIVE1']);
+  });
+
+  it('skips a room that became active after planning', async () => {
+    const storage = createMemoryJanitorStorage(rooms());
+    const getRooms = storage.getRooms.bind(storage);
+    storage.getRooms = async () => {
+      const snapshot = await getRooms();
+      // oyuncu plan ile uygulama arasında geri geldi
+      await storage.transactRoom('EMPTY1', (room) => room && { ...room, players: { host: playerSeenAt('host', NOW) } });
+      await storage.transactRoom('PLAYNG', (room) => room && { ...room, players: { ...room.players, afk: playerSeenAt('afk', NOW) } });
+      return snapshot;
+    };
+    const report = await runJanitor(storage, NOW);
+    expect(report.skipped.map((action) => action.roomId)).toEqual(['EMPTY1', 'PLAYNG']);
+    expect(report.remaining).toBe(3);
+    expect(Object.keys(storage.peekRooms().PLAYNG.players)).toEqual(['host', 'afk']);
+  });
+});
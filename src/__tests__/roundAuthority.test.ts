@@ -0,0 +1,289 @@
+// @vitest-environment node
+/**
+ * Round Authority — Tests
+ *
+ * Tests cover:
+ * - Only the host gets a round; round 1 from the lobby, N+1 after round N ended
+ * - The answer goes to roundAnswers, the host only gets the public pano
+ * - Idempotent per seed + roundVersion; a restarted game is dealt anew
+ * - Earlier rounds of the game prime the draw's anti-repeat history
+ * - The draw seed is keyed with the server secret, not just the public room seed
+ * - Expired pano: any player gets one fresh pano near the answer per round, never its coordinates
+ * - Default draw applies the room's map filter and the quarantine
+ * - With a pano resolver the draw generates dynamically first (inside the room's map), static as fallback
+ * - Remote proxy sends the caller's ID token; caller verification via accounts:lookup
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Room, PanoPackage } from '@/types';
+import { createRemoteRoundAuthority, createRoundAuthority, createRoundDraw, RoundDraw } from '@/services/roundAuthority';
+import { bearerToken, verifyIdToken } from '@/services/callerAuth';
+import { getLoadedPackages } from '@/services/panoPacks';
+import { PanoResolver } from '@/services/panoResolver';
+import { createSeededRandom, keyedSeed } from '@/utils/random';
+import { createMemoryRoomStorage, MemoryRoomStorage } from './fakes';
+import { T0, createPlayer, createRoom, playersOf } from './fixtures';
+
+// ==================== FIXTURES ====================
+
+const [FIRST, SECOND] = getLoadedPackages('urban');
+
+/** Lobby of a two-round game on seed 42 */
+const createLobby = (overrides: Partial<Room> = {}) => createRoom({ totalRounds: 2, seed: 42, ...overrides });
+
+/** Draw that hands out `packages` in order and records the history it was given */
+function scriptedDraw(packages: PanoPackage[]) {
+  const histories: string[][] = [];
+  let next = 0;
+  const draw: RoundDraw = async (_room, _source, history) => {
+    histories.push(history);
+    const panoPackage = packages[next++];
+    return panoPackage ? { panoPackage, mapNotice: null } : null;
+  };
+  return { draw: vi.fn(draw), histories };
+}
+
+let storage: MemoryRoomStorage;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  storage = createMemoryRoomStorage({ now: () => T0 });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// ==================== AUTHORITY ====================
+
+describe('createRoundAuthority', () => {
+  it('deals round 1 to the host only and keeps the answer server-side', async () => {
+    const { draw } = scriptedDraw([FIRST]);
+    const authority = createRoundAuthority(storage, { draw });
+    await storage.setRoom('ROOM01', createLobby());
+
+    expect(await authority.dealRound('ROOM01', 'p2')).toEqual({ dealt: false, reason: 'not host' });
+    expect(await authority.dealRound('NOPE00', 'host')).toEqual({ dealt: false, reason: 'room not found' });
+
+    const outcome = await authority.dealRound('ROOM01', 'host');
+    expect(outcome).toEqual({
+      dealt: true,
+      reason: 'dealt',
+      round: { pano: { panoId: FIRST.pano0.panoId, heading: FIRST.pano0.heading }, mapNotice: null },
+    });
+    expect(JSON.stringify(outcome)).not.toContain(FIRST.locationName);
+    expect(storage.peekRoundAnswer('ROOM01', 1)).toMatchObject({
+      roundId: 1,
+      panoPackageId: FIRST.id,
+      location: { lat: FIRST.pano0.lat, lng: FIRST.pano0.lng },
+      dealKey: '42:0',
+    });
+  });
+
+  it('repeats the same deal for the same room state, redeals after a restart', async () => {
+    const { draw } = scriptedDraw([FIRST, SECOND]);
+    const authority = createRoundAuthority(storage, { draw });
+    await storage.setRoom('ROOM01', createLobby());
+
+    const first = await authority.dealRound('ROOM01', 'host');
+    expect(await authority.dealRound('ROOM01', 'host')).toEqual({ ...first, reason: 'already dealt' });
+    expect(draw).toHaveBeenCalledTimes(1);
+
+    await storage.setRoom('ROOM01', createLobby({ seed: 7 }));
+    expect((await authority.dealRound('ROOM01', 'host')).round?.pano.panoId).toBe(SECOND.pano0.panoId);
+    expect(storage.peekRoundAnswer('ROOM01', 1)).toMatchObject({ panoPackageId: SECOND.id, dealKey: '7:0' });
+  });
+
+  it('deals N+1 after round N ended, with this game\'s earlier rounds as history', async () => {
+    const { draw, histories } = scriptedDraw([FIRST, SECOND]);
+    const authority = createRoundAuthority(storage, { draw });
+    await storage.setRoom('ROOM01', createLobby());
+    await authority.dealRound('ROOM01', 'host');
+
+    await storage.setRoom('ROOM01', createLobby({ status: 'playing', currentRound: 1, roundVersion: 1 }));
+    expect(await authority.dealRound('ROOM01', 'host')).toMatchObject({ dealt: false, reason: 'status=playing (expected waiting or roundEnd)' });
+
+    await storage.setRoom('ROOM01', createLobby({ status: 'roundEnd', currentRound: 1, roundVersion: 1 }));
+    expect((await authority.dealRound('ROOM01', 'host')).dealt).toBe(true);
+    expect(histories).toEqual([[], [FIRST.id]]);
+    expect(storage.peekRoundAnswer('ROOM01', 2)).toMatchObject({ panoPackageId: SECOND.id, dealKey: '42:1' });
+
+    await storage.setRoom('ROOM01', createLobby({ status: 'roundEnd', currentRound: 2, roundVersion: 2 }));
+    expect(await authority.dealRound('ROOM01', 'host')).toEqual({ dealt: false, reason: 'final round played' });
+  });
+
+  it('reports an empty pool instead of dealing', async () => {
+    const authority = createRoundAuthority(storage, { draw: scriptedDraw([]).draw });
+    await storage.setRoom('ROOM01', createLobby());
+    expect(await authority.dealRound('ROOM01', 'host')).toEqual({ dealt: false, reason: 'no package available' });
+    expect(storage.peekRoundAnswer('ROOM01', 1)).toBeNull();
+  });
+
+  it('keys the draw with the server secret so the public room seed does not replay it', async () => {
+    const firstValues: number[] = [];
+    const draw: RoundDraw = async (_room, source) => {
+      firstValues.push(source());
+      return { panoPackage: FIRST, mapNotice: null };
+    };
+    for (const drawSecret of ['s3cret', 's3cret', 'other', null]) {
+      const rooms = createMemoryRoomStorage({ now: () => T0 });
+      await rooms.setRoom('ROOM01', createLobby());
+      await createRoundAuthority(rooms, { draw, drawSecret }).dealRound('ROOM01', 'host');
+    }
+
+    const [keyed, again, otherKey, unkeyed] = firstValues;
+    expect(again).toBe(keyed);
+    expect(otherKey).not.toBe(keyed);
+    expect(unkeyed).toBe(createSeededRandom('ROOM01:42:0')());
+    expect(keyed).not.toBe(unkeyed);
+    expect(keyed).toBe(createSeededRandom(await keyedSeed('s3cret', 'ROOM01:42:0'))());
+  });
+});
+
+describe('refreshPano', () => {
+  /** Round 1 of the game, host + p2 in the room */
+  const inRound = (overrides: Partial<Room> = {}) =>
+    createLobby({ currentRound: 1, roundVersion: 1, players: playersOf(createPlayer('host'), createPlayer('p2')), ...overrides });
+
+  /** Round 1 of ROOM01 dealt (FIRST) and being played */
+  async function playing(resolver?: PanoResolver) {
+    const authority = createRoundAuthority(storage, { draw: scriptedDraw([FIRST]).draw, resolver });
+    await storage.setRoom('ROOM01', createLobby());
+    const { round } = await authority.dealRound('ROOM01', 'host');
+    await storage.setRoom('ROOM01', inRound({ status: 'playing', currentPano: round!.pano }));
+    return authority;
+  }
+
+  it('resolves a fresh pano near the hidden answer once per round, for any player', async () => {
+    const resolver = vi.fn<PanoResolver>(async ({ lat, lng }) => ({ panoId: 'fresh-pano', lat: lat + 0.001, lng }));
+    const authority = await playing(resolver);
+
+    const outcome = await authority.refreshPano('ROOM01', 'p2');
+    expect(outcome).toEqual({ refreshed: true, reason: 'refreshed', pano: { panoId: 'fresh-pano', heading: FIRST.pano0.heading } });
+    expect(JSON.stringify(outcome)).not.toContain(String(FIRST.pano0.lat));
+    expect(resolver).toHaveBeenCalledWith({ lat: FIRST.pano0.lat, lng: FIRST.pano0.lng, radius: 1000, kind: 'resolvePano' });
+
+    expect(await authority.refreshPano('ROOM01', 'host')).toEqual({ ...outcome, reason: 'already refreshed' });
+    expect(resolver).toHaveBeenCalledTimes(1);
+    // Oda dağıtılan panoyu tutar — açılış yine eşleşir
+    expect(storage.peekRoundAnswer('ROOM01', 1)).toMatchObject({ panoPackageId: FIRST.id, refreshedPano: outcome.pano });
+    expect((await storage.getRoom('ROOM01'))?.currentPano?.panoId).toBe(FIRST.pano0.panoId);
+  });
+
+  it('refuses outsiders, rounds not being played and lookups that find nothing new', async () => {
+    const authority = await playing(async () => ({ panoId: FIRST.pano0.panoId, lat: 0, lng: 0 }));
+    expect(await authority.refreshPano('ROOM01', 'stranger')).toEqual({ refreshed: false, reason: 'not in room' });
+    expect(await authority.refreshPano('ROOM01', 'p2')).toEqual({ refreshed: false, reason: 'no fresh pano' });
+    expect(await (await playing()).refreshPano('ROOM01', 'p2')).toEqual({ refreshed: false, reason: 'refresh unavailable' });
+
+    await storage.setRoom('ROOM01', inRound({ status: 'roundEnd' }));
+    expect(await authority.refreshPano('ROOM01', 'p2')).toEqual({ refreshed: false, reason: 'status=roundEnd (expected playing)' });
+    await storage.setRoom('ROOM01', inRound({ status: 'playing', currentPano: { panoId: 'other', heading: 0 } }));
+    expect(await authority.refreshPano('ROOM01', 'p2')).toEqual({ refreshed: false, reason: 'not dealt' });
+  });
+});
+
+describe('createRoundDraw', () => {
+  it('honours the map filter and skips quarantined packages', async () => {
+    const inIstanbul = getLoadedPackages('urban').filter((pkg) => pkg.locationName.endsWith('İstanbul'));
+    const room = createLobby({ mapFilter: { type: 'provinces', provinces: ['İstanbul'] } });
+    const quarantine = Object.fromEntries(
+      inIstanbul.slice(1).map((pkg) => [pkg.id, { panoId: pkg.pano0.panoId, reports: 3, at: T0, reasons: {} }])
+    );
+
+    const drawn = await createRoundDraw({ quarantine })(room, createSeededRandom('room'), []);
+    expect(drawn?.panoPackage.id).toBe(inIstanbul[0].id);
+  });
+
+  /** Street View everywhere: the pano sits right at the requested point */
+  const everywhere: PanoResolver = async ({ lat, lng }) => ({ panoId: `sv_${lat.toFixed(6)}_${lng.toFixed(6)}`, lat, lng });
+
+  it('generates the round through the resolver first, static packs when it finds nothing', async () => {
+    const resolver = vi.fn(everywhere);
+    const drawn = await createRoundDraw({ resolver })(createLobby({ gameMode: 'geo' }), createSeededRandom('room'), []);
+    expect(drawn?.panoPackage.id).toMatch(/^dynamic_geo_/);
+    expect(drawn?.panoPackage.pano0.panoId).toMatch(/^sv_/);
+    expect(resolver).toHaveBeenCalledWith(expect.objectContaining({ kind: 'findPano' }));
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const nothing = vi.fn<PanoResolver>(async () => null);
+    const fallback = await createRoundDraw({ resolver: nothing })(createLobby({ gameMode: 'geo' }), createSeededRandom('other room'), []);
+    expect(nothing).toHaveBeenCalled();
+    expect(getLoadedPackages('geo').map((pkg) => pkg.id)).toContain(fallback?.panoPackage.id);
+  });
+
+  it('mints inside the room\'s map once its static pool would repeat', async () => {
+    // Bursa ve Adana'nın birer statik paketi var, ikisi de bu oyunda oynandı
+    const played = ['Bursa', 'Adana'].map((name) => getLoadedPackages('urban').find((pkg) => pkg.locationName.endsWith(name))!);
+    const room = createLobby({ mapFilter: { type: 'provinces', provinces: ['Bursa', 'Adana'] } });
+    const resolver = vi.fn(everywhere);
+
+    const drawn = await createRoundDraw({ resolver })(room, createSeededRandom('room'), played.map((pkg) => pkg.id));
+    expect(drawn?.panoPackage.pano0.panoId).toMatch(/^sv_/);
+    expect(drawn?.panoPackage.locationName).toMatch(/Bursa$/);
+    expect(resolver).toHaveBeenCalledWith(expect.objectContaining({ kind: 'resolvePano' }));
+  });
+});
+
+// ==================== TRANSPORTS ====================
+
+describe('createRemoteRoundAuthority', () => {
+  it('POSTs the roomId with the caller\'s ID token', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(new Response(JSON.stringify({ dealt: false, reason: 'not host' }))));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const authority = createRemoteRoundAuthority(() => Promise.resolve('id-token'));
+    expect(await authority.dealRound('ROOM01', 'host')).toEqual({ dealt: false, reason: 'not host' });
+    expect(fetchMock).toHaveBeenCalledWith('/api/deal-round', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer id-token' }),
+      body: JSON.stringify({ roomId: 'ROOM01' }),
+    }));
+  });
+
+  it('asks for a pano refresh with the same endpoint and token', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(new Response(JSON.stringify({ refreshed: false, reason: 'not in room' }))));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const authority = createRemoteRoundAuthority(() => Promise.resolve('id-token'));
+    expect(await authority.refreshPano('ROOM01', 'p2')).toEqual({ refreshed: false, reason: 'not in room' });
+    expect(fetchMock).toHaveBeenCalledWith('/api/deal-round', expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer id-token' }),
+      body: JSON.stringify({ roomId: 'ROOM01', action: 'refresh' }),
+    }));
+  });
+
+  it('throws on HTTP errors so the host can retry', async () => {
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response('{}', { status: 401 }))));
+    await expect(createRemoteRoundAuthority(() => Promise.resolve('x')).dealRound('ROOM01', 'host')).rejects.toThrow('HTTP 401');
+  });
+});
+
+describe('verifyIdToken', () => {
+  it('reads the uid and whether the account is anonymous', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ users: [{ localId: 'u1' }] })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ users: [{ localId: 'u2', providerUserInfo: [{ providerId: 'google.com' }] }] })));
+
+    expect(await verifyIdToken('t1', { apiKey: 'key', fetchImpl })).toEqual({ uid: 'u1', anonymous: true });
+    expect(await verifyIdToken('t2', { apiKey: 'key', fetchImpl })).toEqual({ uid: 'u2', anonymous: false });
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=key',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ idToken: 't1' }) })
+    );
+  });
+
+  it('null for a rejected token, throws when the lookup itself fails', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(new Response('{}', { status: 400 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 503 }));
+    expect(await verifyIdToken('bad', { apiKey: 'key', fetchImpl })).toBeNull();
+    await expect(verifyIdToken('t', { apiKey: 'key', fetchImpl })).rejects.toThrow('HTTP 503');
+  });
+
+  it('bearerToken reads the Authorization header', () => {
+    expect(bearerToken(new Request('https://x/', { headers: { Authorization: 'Bearer abc' } }))).toBe('abc');
+    expect(bearerToken(new Request('https://x/'))).toBeNull();
+  });
+});
@@ -0,0 +1,250 @@
+// @vitest-environment node
+/**
+ * Scoring Authority — Tests
+ *
+ * Tests cover:
+ * - applyRoundScores: recomputes from stored guesses + hidden answer, guards
+ * - createScoringAuthority: idempotent, concurrent requests score once
+ * - RoomEngine: endRound triggers scoring, advanceRound retries a lost request
+ * - Remote proxy + admin REST storage (ETag conditional writes)
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { Room } from '@/types';
+import { RoomEngine, mpCounters } from '@/services/roomEngine';
+import { roundAnswer, roundFromPanoPackage, transitionRoom } from '@/services/roomStateMachine';
+import {
+  applyRoundScores,
+  createScoringAuthority,
+  createRemoteScoringAuthority,
+  ScoringAuthority,
+} from '@/services/scoringAuthority';
+import { createAdminRoomStorage } from '@/services/adminRoomStorage';
+import { getLoadedPackages } from '@/services/panoPacks';
+import { createMemoryRoomStorage, MemoryRoomStorage } from './fakes';
+import { T0, createPlayer, createRoom, playersOf } from './fixtures';
+
+// ==================== HELPERS ====================
+
+const URBAN_PACKAGES = getLoadedPackages('urban');
+const PACKAGE = URBAN_PACKAGES[0];
+const ANSWER = { lat: PACKAGE.pano0.lat, lng: PACKAGE.pano0.lng };
+const HIDDEN = roundAnswer(roundFromPanoPackage(PACKAGE), 1);
+
+function playingRoom(): Room {
+  const waiting = createRoom({ totalRounds: 2, players: playersOf(createPlayer('host'), createPlayer('p2'), createPlayer('p3')) });
+  const started = transitionRoom(waiting, { type: 'START_GAME', actorId: 'host', round: roundFromPanoPackage(PACKAGE), startTime: T0 });
+  if (!started.ok) throw new Error(started.reason);
+  return started.room;
+}
+
+/** Round 1 ended; the host's END_ROUND could not read the answer (reveal left to the authority) */
+function endedRoom(): Room {
+  const room = playingRoom();
+  room.players.host = { ...room.players.host, hasGuessed: true, currentGuess: ANSWER };
+  room.players.p2 = { ...room.players.p2, hasGuessed: true, currentGuess: { lat: ANSWER.lat + 1, lng: ANSWER.lng } };
+  const ended = transitionRoom(room, { type: 'END_ROUND', actorId: 'host', roundId: 1, lockedAt: T0, answer: null });
+  if (!ended.ok) throw new Error(ended.reason);
+  return ended.room;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'table').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ==================== PURE SCORING ====================
+
+describe('applyRoundScores', () => {
+  it('scores stored guesses against the hidden answer; non-guessers get 0', () => {
+    const result = applyRoundScores(endedRoom(), 1, HIDDEN);
+    if (!result.ok) throw new Error(result.reason);
+
+    const byId = Object.fromEntries(result.room.roundResults!.map((r) => [r.playerId, r]));
+    expect(byId.host.score).toBe(5000);
+    expect(byId.p2.distance).toBeGreaterThan(100);
+    expect(byId.p2.score).toBeLessThan(5000);
+    expect(byId.p3).toMatchObject({ score: 0, distance: 9999 });
+
+    expect(result.room.players.host.totalScore).toBe(5000);
+    expect(result.room.players.p2.roundScores).toEqual([byId.p2.score]);
+    expect(result.room.players.p3.hasGuessed).toBe(true);
+    // Reveal rides along with the scores
+    expect(result.room.currentLocationName).toBe(PACKAGE.locationName);
+    expect(result.room.currentPanoPackage?.id).toBe(PACKAGE.id);
+  });
+
+  it('rejects rounds that are still playing, stale, unlocated, mismatched or already scored', () => {
+    expect(applyRoundScores(playingRoom(), 1, HIDDEN)).toMatchObject({ ok: false });
+    expect(applyRoundScores(endedRoom(), 2, HIDDEN)).toMatchObject({ ok: false });
+    expect(applyRoundScores(endedRoom(), 1)).toEqual({ ok: false, reason: 'hidden location missing' });
+    expect(applyRoundScores(endedRoom(), 1, { ...HIDDEN, roundId: 2 })).toEqual({ ok: false, reason: 'answer does not match round' });
+    const otherPano = roundAnswer(roundFromPanoPackage(URBAN_PACKAGES[1]), 1);
+    expect(applyRoundScores(endedRoom(), 1, otherPano)).toEqual({ ok: false, reason: 'answer does not match round' });
+
+    const scored = applyRoundScores(endedRoom(), 1, HIDDEN);
+    if (!scored.ok) throw new Error(scored.reason);
+    expect(applyRoundScores(scored.room, 1, HIDDEN)).toEqual({ ok: false, reason: 'already scored' });
+  });
+});
+
+// ==================== AUTHORITY ====================
+
+describe('createScoringAuthority', () => {
+  let storage: MemoryRoomStorage;
+
+  beforeEach(() => {
+    storage = createMemoryRoomStorage({ now: () => T0 });
+  });
+
+  it('scores exactly once under concurrent requests', async () => {
+    await storage.setRoom('ROOM01', endedRoom());
+    await storage.setRoundAnswer('ROOM01', HIDDEN);
+    const authority = createScoringAuthority(storage);
+
+    const outcomes = await Promise.all([1, 2, 3].map(() => authority.scoreRound('ROOM01', 1)));
+    expect(outcomes.filter((o) => o.scored)).toHaveLength(1);
+    expect(outcomes.filter((o) => !o.scored).map((o) => o.reason)).toEqual(['already scored', 'already scored']);
+    expect(storage.peekRoom('ROOM01')!.players.host.roundScores).toEqual([5000]);
+  });
+
+  it('reports missing rooms without writing', async () => {
+    const outcome = await createScoringAuthority(storage).scoreRound('NOPE00', 1);
+    expect(outcome.scored).toBe(false);
+    expect(storage.peekRoom('NOPE00')).toBeNull();
+  });
+});
+
+describe('RoomEngine + scoring authority', () => {
+  let clock: number;
+  let storage: MemoryRoomStorage;
+
+  beforeEach(() => {
+    clock = T0 + 95_000;
+    storage = createMemoryRoomStorage({ now: () => clock });
+  });
+
+  it('endRound hands scoring to the injected authority', async () => {
+    const scoreRound = vi.fn<ScoringAuthority['scoreRound']>(() => Promise.resolve({ scored: true, reason: 'scored' }));
+    const engine = new RoomEngine({ storage, now: () => clock, answers: storage, scoring: { scoreRound } });
+    await storage.setRoom('ROOM01', playingRoom());
+
+    expect(await engine.endRound({ roomId: 'ROOM01', roundId: 1, ownerId: 'host', trigger: 'timeUp' })).toBe(true);
+    expect(scoreRound).toHaveBeenCalledWith('ROOM01', 1);
+    expect(storage.peekRoom('ROOM01')!.roundResults).toBeNull(); // host wrote no scores itself
+  });
+
+  it('a lost scoring request is retried before the next round', async () => {
+    const inProcess = createScoringAuthority(storage);
+    let available = false;
+    const flaky: ScoringAuthority = {
+      scoreRound: (roomId, roundId) =>
+        available ? inProcess.scoreRound(roomId, roundId) : Promise.reject(new Error('HTTP 503')),
+    };
+    const engine = new RoomEngine({ storage, now: () => clock, answers: storage, scoring: flaky });
+    await storage.setRoom('ROOM01', playingRoom());
+    await storage.setRoundAnswer('ROOM01', HIDDEN);
+    const failuresBefore = mpCounters.scoringFailureCount;
+
+    expect(await engine.endRound({ roomId: 'ROOM01', roundId: 1, ownerId: 'host', trigger: 'timeUp' })).toBe(true);
+    expect(mpCounters.scoringFailureCount).toBe(failuresBefore + 1);
+
+    // Authority still down → NEXT_ROUND refuses to skip the unscored round
+    expect((await engine.advanceRound('ROOM01', 'host', 1)).committed).toBe(false);
+
+    available = true;
+    expect((await engine.advanceRound('ROOM01', 'host', 1)).committed).toBe(true);
+    const room = storage.peekRoom('ROOM01')!;
+    expect(room.currentRound).toBe(2);
+    expect(room.players.host.roundScores).toEqual([0]);
+  });
+});
+
+// ==================== TRANSPORTS ====================
+
+describe('createRemoteScoringAuthority', () => {
+  it('POSTs roomId/roundId to the score endpoint with the caller\'s ID token', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(new Response(JSON.stringify({ scored: true, reason: 'scored' }))));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const outcome = await createRemoteScoringAuthority(() => Promise.resolve('id-token')).scoreRound('ROOM01', 3);
+    expect(outcome.scored).toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith('/api/score-round', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer id-token' }),
+      body: JSON.stringify({ roomId: 'ROOM01', roundId: 3 }),
+    }));
+  });
+
+  it('throws on HTTP errors so the engine can retry later', async () => {
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response('{}', { status: 503 }))));
+    await expect(createRemoteScoringAuthority(() => Promise.resolve('id-token')).scoreRound('ROOM01', 1)).rejects.toThrow('HTTP 503');
+  });
+});
+
+describe('createAdminRoomStorage', () => {
+  /** Minimal RTDB REST fake: ETag = write counter, if-match mismatch → 412 */
+  function createRestFake(initial: Room) {
+    let value: Room | null = initial;
+    let version = 0;
+    const calls: string[] = [];
+    const fetchImpl = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+      const method = init?.method || 'GET';
+      calls.push(`${method} ${String(url)}`);
+      if (String(url).includes('/roundAnswers/ROOM01/1.json')) {
+        return new Response(JSON.stringify(HIDDEN));
+      }
+      if (method === 'GET') {
+        return new Response(JSON.stringify(value), { headers: { ETag: `v${version}` } });
+      }
+      const ifMatch = (init?.headers as Record<string, string>)['if-match'];
+      if (ifMatch !== `v${version}`) return new Response('{}', { status: 412 });
+      value = JSON.parse(String(init?.body));
+      version++;
+      return new Response(String(init?.body));
+    });
+    return {
+      fetchImpl: fetchImpl as unknown as typeof fetch,
+      calls,
+      bump: (room: Room) => { value = room; version++; },
+      peek: () => value,
+    };
+  }
+
+  it('retries on 412 and commits against the fresh value', async () => {
+    const fake = createRestFake(endedRoom());
+    const storage = createAdminRoomStorage({ databaseURL: 'https://db.example.com/', secret: 's3cret', fetchImpl: fake.fetchImpl });
+
+    let firstAttempt = true;
+    const outcome = await storage.transactRoom('ROOM01', (current) => {
+      if (firstAttempt) {
+        firstAttempt = false;
+        fake.bump({ ...current!, currentGuesses: 7 }); // concurrent writer sneaks in
+      }
+      return { ...current!, lastActivityAt: T0 };
+    });
+
+    expect(outcome.committed).toBe(true);
+    expect(fake.peek()).toMatchObject({ currentGuesses: 7, lastActivityAt: T0 });
+    expect(fake.calls[0]).toBe('GET https://db.example.com/rooms/ROOM01.json?auth=s3cret');
+    expect(fake.calls.filter((c) => c.startsWith('PUT'))).toHaveLength(2);
+  });
+
+  it('scores a round end-to-end through the REST transport', async () => {
+    const fake = createRestFake(endedRoom());
+    const storage = createAdminRoomStorage({ databaseURL: 'https://db.example.com', secret: 's', fetchImpl: fake.fetchImpl });
+
+    const outcome = await createScoringAuthority(storage).scoreRound('ROOM01', 1);
+    expect(outcome.scored).toBe(true);
+    expect(fake.calls[0]).toBe('GET https://db.example.com/roundAnswers/ROOM01/1.json?auth=s');
+    expect(fake.peek()!.players.host.totalScore).toBe(5000);
+    expect(fake.peek()!.currentLocation).toEqual(ANSWER);
+    expect((await createScoringAuthority(storage).scoreRound('ROOM01', 1)).scored).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+// @vitest-environment node
+/**
+ * Scoring Profiles — Tests
+ *
+ * Tests cover:
+ * - Per-profile curves (exponential / linear / province bonus / district zone)
+ * - Per-mode distance scale (urban vs geo)
+ * - Il/ilçe bonus on top of the exponential / linear curves
+ * - Il/ilçe resolution (parsePlaceName, matchPlaces — ilçe zone under the answer)
+ * - computeRoundResults uses + records the room's profile
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Room, SCORING_PROFILES } from '@/types';
+import { calculateScore } from '@/utils';
+import {
+  scoreGuess,
+  parsePlaceName,
+  matchPlaces,
+  resolveScoringProfile,
+  GuessContext,
+  PlaceResolver,
+} from '@/services/scoringProfiles';
+import { computeRoundResults } from '@/services/roomStateMachine';
+import { createPlayer, createRoom, playersOf } from './fixtures';
+
+// ==================== HELPERS ====================
+
+const FATIH = { lat: 41.0086, lng: 28.9802 };
+
+function context(distanceKm: number, overrides: Partial<GuessContext> = {}): GuessContext {
+  return { distanceKm, guess: FATIH, answerName: 'Fatih, İstanbul', mode: 'urban', ...overrides };
+}
+
+const resolveTo = (province: string, district: string | null = null): PlaceResolver => () => ({ province, district });
+const nowhere: PlaceResolver = () => null;
+
+// ==================== CURVES ====================
+
+describe('scoreGuess', () => {
+  it('every profile gives full points inside 0.1 km', () => {
+    (Object.keys(SCORING_PROFILES) as (keyof typeof SCORING_PROFILES)[]).forEach((profile) => {
+      expect(scoreGuess(profile, context(0.05), resolveTo('Ankara'))).toBe(5000);
+    });
+  });
+
+  it('exponential: classic curve in urban, wider scale in geo', () => {
+    expect(scoreGuess('exponential', context(50), nowhere)).toBe(calculateScore(50));
+    expect(scoreGuess('exponential', context(50, { mode: 'geo' }), nowhere)).toBeGreaterThan(calculateScore(50));
+    expect(scoreGuess('exponential', context(600), nowhere)).toBe(0);
+    expect(scoreGuess('exponential', context(600, { mode: 'geo' }), nowhere)).toBeGreaterThan(0);
+  });
+
+  it('linear: proportional to the remaining distance', () => {
+    expect(scoreGuess('linear', context(250), nowhere)).toBe(2500);
+    expect(scoreGuess('linear', context(250, { mode: 'geo' }), nowhere)).toBe(3750);
+    expect(scoreGuess('linear', context(500), nowhere)).toBe(0);
+  });
+
+  it('exponential / linear: +300 for the right il, +200 more for the right ilçe', () => {
+    const base = calculateScore(40);
+    expect(scoreGuess('exponential', context(40), resolveTo('Kocaeli'))).toBe(base);
+    expect(scoreGuess('exponential', context(40), resolveTo('İstanbul'))).toBe(base + 300);
+    expect(scoreGuess('exponential', context(40), resolveTo('İstanbul', 'Fatih'))).toBe(base + 500);
+    expect(scoreGuess('exponential', context(40), resolveTo('Kocaeli', 'Fatih'))).toBe(base);
+    expect(scoreGuess('linear', context(250), resolveTo('İstanbul'))).toBe(2800);
+    // Bonus never pushes a round above maxScore
+    expect(scoreGuess('exponential', context(1), resolveTo('İstanbul', 'Fatih'))).toBe(5000);
+  });
+
+  it('at the same distance, the side of the il border decides the bonus', () => {
+    // Ankara / Kırıkkale border east of Elmadağ
+    const answer = { answerName: 'Elmadağ, Ankara', answerLocation: { lat: 39.92, lng: 33.23 } };
+    const inside = scoreGuess('exponential', context(30, { ...answer, guess: { lat: 39.9, lng: 33.3 } }));
+    const across = scoreGuess('exponential', context(30, { ...answer, guess: { lat: 39.9, lng: 33.36 } }));
+    expect(inside - across).toBe(500); // il + Elmadağ ilçe bölgesi
+  });
+
+  it('provinceBonus: +1000 in the right il, capped base otherwise', () => {
+    const right = scoreGuess('provinceBonus', context(30), resolveTo('İstanbul'));
+    const wrong = scoreGuess('provinceBonus', context(30), resolveTo('Kocaeli'));
+    expect(right - wrong).toBe(1000);
+    expect(wrong).toBe(Math.round(calculateScore(30) * 0.8));
+    expect(scoreGuess('provinceBonus', context(30), () => null)).toBe(wrong);
+  });
+
+  it('districtZone: right ilçe = full points, wrong ilçe falls back to exponential', () => {
+    expect(scoreGuess('districtZone', context(3), resolveTo('İstanbul', 'Fatih'))).toBe(5000);
+    expect(scoreGuess('districtZone', context(3), resolveTo('İstanbul', 'Beyoğlu'))).toBe(calculateScore(3));
+    // Answer without an ilçe name or location never matches
+    expect(scoreGuess('districtZone', context(3, { answerName: 'İstanbul' }), resolveTo('İstanbul', 'Fatih'))).toBe(calculateScore(3));
+    // Landmark answers score on the ilçe zone under the answer (Efes → Selçuk)
+    const efes = { answerName: 'Efes, İzmir', answerLocation: { lat: 37.94, lng: 27.34 } };
+    expect(scoreGuess('districtZone', context(3, { ...efes, guess: { lat: 37.95, lng: 27.37 } }))).toBe(5000);
+  });
+
+  it('unknown profile ids fall back to exponential', () => {
+    expect(resolveScoringProfile('everyoneWins')).toBe('exponential');
+    expect(resolveScoringProfile('districtZone')).toBe('districtZone');
+    expect(resolveScoringProfile(undefined)).toBe('exponential');
+    expect(resolveScoringProfile('linear')).toBe('linear');
+  });
+});
+
+// ==================== PLACES ====================
+
+describe('place resolution', () => {
+  it('parses \'İlçe, İl\' names', () => {
+    expect(parsePlaceName('Fatih, İstanbul')).toEqual({ province: 'İstanbul', district: 'Fatih' });
+    expect(parsePlaceName('Ankara')).toEqual({ province: 'Ankara', district: null });
+    expect(parsePlaceName(null)).toBeNull();
+  });
+
+  it('matchPlaces: answer il from the curated name, polygon as fallback', () => {
+    const match = matchPlaces(context(5, { guess: { lat: 41.02, lng: 28.97 } }));
+    expect(match).toMatchObject({ guessProvince: 'İstanbul', correctProvince: 'İstanbul', province: true });
+
+    // "Toros Dağları" is not an il → polygon under the answer location
+    const toros = matchPlaces(context(20, {
+      answerName: 'Toros Dağları',
+      answerLocation: { lat: 37.0, lng: 34.6 },
+      guess: { lat: 36.8, lng: 34.63 },
+    }));
+    expect(toros).toMatchObject({ guessProvince: 'Mersin', correctProvince: 'Mersin', province: true });
+
+    expect(matchPlaces(context(900, { guess: { lat: 34.0, lng: 20.0 } }))).toMatchObject({ guessProvince: null, province: false });
+  });
+
+  it('matchPlaces: ilçe from the zone under the answer, or a curated ilçe name', () => {
+    // "Efes" is a landmark, not an ilçe → Selçuk zone under the answer
+    const efes = { answerName: 'Efes, İzmir', answerLocation: { lat: 37.94, lng: 27.34 } };
+    expect(matchPlaces(context(3, { ...efes, guess: { lat: 37.95, lng: 27.37 } }))).toMatchObject({ province: true, district: true });
+    expect(matchPlaces(context(35, { ...efes, guess: { lat: 38.09, lng: 27.73 } }))).toMatchObject({ province: true, district: false }); // Tire
+
+    // No answer location: the curated ilçe name alone
+    expect(matchPlaces(context(1, { guess: { lat: 41.01, lng: 28.955 } }))).toMatchObject({ province: true, district: true });
+    expect(matchPlaces(context(3, { guess: { lat: 41.037, lng: 28.975 } }))).toMatchObject({ province: true, district: false }); // Beyoğlu
+  });
+});
+
+// ==================== ROUND RESULTS ====================
+
+describe('computeRoundResults + profiles', () => {
+  function room(scoringProfile?: Room['scoringProfile']): Room {
+    return createRoom({
+      hostId: 'a',
+      status: 'roundEnd',
+      currentRound: 1,
+      players: playersOf(
+        createPlayer('a', { currentGuess: { lat: 41.01, lng: 28.982 }, hasGuessed: true }),
+        createPlayer('b', { currentGuess: null, hasGuessed: false })
+      ),
+      scoringProfile,
+      currentPanoPackageId: 'ist_fatih_1',
+      currentLocation: { lat: 41.0, lng: 28.95 },
+      currentLocationName: 'Fatih, İstanbul',
+      roundStartTime: 0,
+      roundState: 'ended',
+      roundVersion: 1,
+      activePlayerCount: 2,
+      expectedGuesses: 2,
+      currentGuesses: 1,
+    });
+  }
+
+  it('scores with the room\'s profile and tags every result with it', () => {
+    const zone = computeRoundResults(room('districtZone'), null, room().currentLocation);
+    expect(zone.map((r) => [r.playerId, r.score, r.scoringProfile])).toEqual([
+      ['a', 5000, 'districtZone'],
+      ['b', 0, 'districtZone'],
+    ]);
+
+    const linear = computeRoundResults(room('linear'), null, room().currentLocation);
+    expect(linear.map((r) => [r.playerId, r.scoringProfile])).toEqual([
+      ['a', 'linear'],
+      ['b', 'linear'],
+    ]);
+    expect(linear[1].score).toBe(0);
+
+    const bonus = computeRoundResults(room('provinceBonus'), null, room().currentLocation);
+    expect(bonus[0].scoringProfile).toBe('provinceBonus');
+    expect(bonus[0].score).toBeLessThan(5000);
+  });
+
+  it('records guessProvince / correctProvince for guessers', () => {
+    const [a, b] = computeRoundResults(room(), null, room().currentLocation);
+    expect(a).toMatchObject({ guessProvince: 'İstanbul', correctProvince: 'İstanbul' });
+    expect(b).toMatchObject({ guessProvince: null, correctProvince: null });
+  });
+});
@@ -0,0 +1,951 @@
+// @vitest-environment node
+/**
+ * database.rules.json — Security Rules Spec
+ *
+ * Every rule location gets at least one positive (allowed) and one negative
+ * (denied) case; the final coverage test fails when a rule is added to the
+ * file without a spec. Evaluated locally via services/securityRules.
+ *
+ * Tests cover:
+ * - Root / room / player read + write cascade
+ * - Host-only fields (status, currentRound, roundEndLock, meta/serverNow ...)
+ * - Anti-cheat guards: currentGuesses +1 only while playing, one-shot owner-only guesses
+ *   frozen by roundEndLock / reveal / time limit,
+ *   no client-written scores (roundResults / totalScore / roundScores),
+ *   monotonic roundVersion / roundStartTime / movesUsed
+ * - Hidden answers: roundAnswers, soloRounds, dailyDraws, dailyRuns are server-only, answer fields stay empty while playing
+ * - Lobby map filter: regions xor provinces, known region ids only
+ * - Günün Turu leaderboard: public per-day read, server-only writes
+ * - Player profiles: owner-only, lifetime counters only move forward
+ * - Location submissions: owner creates once as pending, owner reads, moderation fields server-only
+ * - Location reports + quotas: server-only; quarantine public, server-only
+ * - API budget ledger: server-only
+ * - Telemetry: write-once batches by signed-in players, own uid, record shape, unreadable
+ * - Leaderboards: public per-board read, server-only writes (boards, player bests, score counts)
+ * - $other catch-alls
+ */
+
+import { describe, it, expect } from 'vitest';
+import rulesFile from '../../database.rules.json';
+import {
+  createRulesEvaluator,
+  listRuleLocations,
+  RulesDecision,
+  RulesFile,
+  RulesSyntaxError,
+} from '@/services/securityRules';
+import { T0, createPlayer as basePlayer, createRoom as baseRoom } from './fixtures';
+
+// ==================== FIXTURES ====================
+
+const ROOM_ID = 'ABC123';
+const ROOM = `rooms/${ROOM_ID}`;
+
+const rules = createRulesEvaluator(rulesFile as RulesFile);
+
+/** Player as stored in RTDB; overrides may break the schema on purpose */
+function createPlayer(id: string, overrides: Record<string, unknown> = {}) {
+  return { ...basePlayer(id, { sessionToken: `token_${id}_0123456789` }), ...overrides };
+}
+
+/** Room ABC123 in round 1 of 5, host + p2 */
+function createRoom(overrides: Record<string, unknown> = {}) {
+  return {
+    ...baseRoom({
+      id: ROOM_ID,
+      status: 'playing',
+      currentRound: 1,
+      scoringProfile: 'exponential',
+      seed: 123456789,
+      currentPano: { panoId: 'a', heading: 0 },
+      roundStartTime: T0,
+      roundState: 'active',
+      roundVersion: 1,
+      activePlayerCount: 2,
+      expectedGuesses: 2,
+      createdAt: T0 - 60_000,
+      lastActivityAt: T0,
+    }),
+    players: {
+      host: createPlayer('host'),
+      p2: createPlayer('p2', { joinedAt: T0 + 1 }),
+    },
+    ...overrides,
+  };
+}
+
+const ANSWER = {
+  roundId: 1,
+  panoPackageId: 'pkg_1',
+  panoPackage: {
+    id: 'pkg_1',
+    pano0: { panoId: 'a', lat: 41.01, lng: 28.97, heading: 0 },
+    locationName: 'Fatih, İstanbul',
+  },
+  location: { lat: 41.01, lng: 28.97 },
+  locationName: 'Fatih, İstanbul',
+};
+
+function database(room: Record<string, unknown> = createRoom()) {
+  return { rooms: { [ROOM_ID]: room }, roundAnswers: { [ROOM_ID]: { 1: ANSWER } } };
+}
+
+/** Round over, answer not revealed yet */
+const roundEnded = () => database(createRoom({ status: 'roundEnd', roundState: 'ended' }));
+
+const write = (auth: string | null, path: string, newData: unknown, data: unknown = database()) =>
+  rules.canWrite({ auth, path, data, newData, now: T0 });
+
+const update = (auth: string | null, path: string, patch: Record<string, unknown>, data: unknown = database()) =>
+  rules.canUpdate({ auth, path, data, patch, now: T0 });
+
+const read = (auth: string | null, path: string, data: unknown = database()) =>
+  rules.canRead({ auth, path, data, now: T0 });
+
+// ==================== COVERAGE BOOKKEEPING ====================
+
+const coverage = new Map<string, { allow: number; deny: number }>();
+
+function record(location: string, kind: 'allow' | 'deny') {
+  const entry = coverage.get(location) ?? { allow: 0, deny: 0 };
+  entry[kind]++;
+  coverage.set(location, entry);
+}
+
+function allow(location: string, decision: RulesDecision) {
+  record(location, 'allow');
+  expect(decision.reason).toBeNull();
+  expect(decision.allowed).toBe(true);
+}
+
+function deny(location: string, decision: RulesDecision) {
+  record(location, 'deny');
+  expect(decision.allowed).toBe(false);
+}
+
+// ==================== ROOT + ROOM ACCESS ====================
+
+describe('rooms (root)', () => {
+  it('cannot list or wipe all rooms', () => {
+    deny('rooms', read('host', 'rooms'));
+    const twoRooms = { rooms: { [ROOM_ID]: createRoom(), XYZ789: createRoom({ id: 'XYZ789', hostId: 'other', players: { other: createPlayer('other') } }) } };
+    deny('rooms', write('host', 'rooms', null, twoRooms));
+  });
+
+  it('access cascades down to a single room', () => {
+    allow('rooms', read('p2', ROOM));
+    allow('rooms', write('newbie', 'rooms/NEW001', createRoom({ id: 'NEW001', hostId: 'newbie', players: { newbie: createPlayer('newbie') } }), {}));
+  });
+});
+
+describe('rooms/$roomId', () => {
+  it('.validate — room id must be 6 uppercase alphanumerics', () => {
+    allow('rooms/$roomId', write('host', ROOM, createRoom(), {}));
+    deny('rooms/$roomId', write('host', 'rooms/abc123', createRoom({ id: 'abc123' }), {}));
+    deny('rooms/$roomId', write('host', 'rooms/ABCD', createRoom({ id: 'ABCD' }), {}));
+  });
+
+  it('.read — any signed-in user, never anonymous-less clients', () => {
+    allow('rooms/$roomId', read('eve', ROOM));
+    deny('rooms/$roomId', read(null, ROOM));
+  });
+
+  it('.write — creator, host or member only', () => {
+    allow('rooms/$roomId', write('host', ROOM, createRoom(), {}));
+    allow('rooms/$roomId', update('host', ROOM, { lastActivityAt: T0 + 1 }));
+    allow('rooms/$roomId', update('p2', ROOM, { lastActivityAt: T0 + 1 }));
+    deny('rooms/$roomId', update('eve', ROOM, { lastActivityAt: T0 + 1 }));
+    deny('rooms/$roomId', write(null, ROOM, createRoom(), {}));
+  });
+});
+
+// ==================== ROOM FIELDS ====================
+
+describe('room fields', () => {
+  it('id — must equal $roomId', () => {
+    allow('rooms/$roomId/id', write('host', ROOM, createRoom(), {}));
+    deny('rooms/$roomId/id', write('host', ROOM, createRoom({ id: 'XYZ789' }), {}));
+  });
+
+  it('hostId — only the new host may claim it, 1-128 chars', () => {
+    allow('rooms/$roomId/hostId', write('p2', `${ROOM}/hostId`, 'p2'));
+    deny('rooms/$roomId/hostId', write('p2', `${ROOM}/hostId`, 'p3'));
+    deny('rooms/$roomId/hostId', write('host', ROOM, createRoom({ hostId: '' }), {}));
+    deny('rooms/$roomId/hostId', write('h'.repeat(129), ROOM, createRoom({ hostId: 'h'.repeat(129) }), {}));
+  });
+
+  it('status — host only, known values only', () => {
+    allow('rooms/$roomId/status', write('host', `${ROOM}/status`, 'gameOver'));
+    deny('rooms/$roomId/status', write('p2', `${ROOM}/status`, 'gameOver'));
+    deny('rooms/$roomId/status', write('host', `${ROOM}/status`, 'paused'));
+  });
+
+  it('currentRound — host only, 0..20', () => {
+    allow('rooms/$roomId/currentRound', write('host', `${ROOM}/currentRound`, 2));
+    deny('rooms/$roomId/currentRound', write('p2', `${ROOM}/currentRound`, 2));
+    deny('rooms/$roomId/currentRound', write('host', `${ROOM}/currentRound`, 21));
+  });
+
+  it('totalRounds — host only, 1..10', () => {
+    allow('rooms/$roomId/totalRounds', write('host', `${ROOM}/totalRounds`, 10));
+    deny('rooms/$roomId/totalRounds', write('host', `${ROOM}/totalRounds`, 11));
+    deny('rooms/$roomId/totalRounds', write('host', `${ROOM}/totalRounds`, 0));
+    deny('rooms/$roomId/totalRounds', write('p2', `${ROOM}/totalRounds`, 3));
+  });
+
+  it('gameMode — host only, urban|geo', () => {
+    allow('rooms/$roomId/gameMode', write('host', `${ROOM}/gameMode`, 'geo'));
+    deny('rooms/$roomId/gameMode', write('p2', `${ROOM}/gameMode`, 'geo'));
+    deny('rooms/$roomId/gameMode', write('host', `${ROOM}/gameMode`, 'rural'));
+  });
+
+  it('timeLimit — host only, 30..300', () => {
+    allow('rooms/$roomId/timeLimit', write('host', `${ROOM}/timeLimit`, 30));
+    deny('rooms/$roomId/timeLimit', write('host', `${ROOM}/timeLimit`, 29));
+    deny('rooms/$roomId/timeLimit', write('p2', `${ROOM}/timeLimit`, 300));
+  });
+
+  it('moveLimit — host only, 0 (no moving)..10', () => {
+    allow('rooms/$roomId/moveLimit', write('host', `${ROOM}/moveLimit`, 10));
+    allow('rooms/$roomId/moveLimit', write('host', `${ROOM}/moveLimit`, 0));
+    deny('rooms/$roomId/moveLimit', write('host', `${ROOM}/moveLimit`, -1));
+    deny('rooms/$roomId/moveLimit', write('host', `${ROOM}/moveLimit`, 11));
+    deny('rooms/$roomId/moveLimit', write('p2', `${ROOM}/moveLimit`, 5));
+  });
+
+  it('scoringProfile — host only, known profiles only', () => {
+    allow('rooms/$roomId/scoringProfile', write('host', `${ROOM}/scoringProfile`, 'provinceBonus'));
+    allow('rooms/$roomId/scoringProfile', write('host', `${ROOM}/scoringProfile`, 'districtZone'));
+    deny('rooms/$roomId/scoringProfile', write('host', `${ROOM}/scoringProfile`, 'everyoneWins'));
+    deny('rooms/$roomId/scoringProfile', write('p2', `${ROOM}/scoringProfile`, 'linear'));
+  });
+
+  it('adaptiveDifficulty — host only, known levels only', () => {
+    allow('rooms/$roomId/adaptiveDifficulty', write('host', `${ROOM}/adaptiveDifficulty`, 'strong'));
+    deny('rooms/$roomId/adaptiveDifficulty', write('host', `${ROOM}/adaptiveDifficulty`, 'brutal'));
+    const adaptive = database(createRoom({ adaptiveDifficulty: 'gentle' }));
+    deny('rooms/$roomId/adaptiveDifficulty', write('p2', `${ROOM}/adaptiveDifficulty`, 'strong', adaptive));
+  });
+
+  it('mapFilter — host only, regions xor provinces', () => {
+    const mapped = database(createRoom({ mapFilter: { type: 'regions', regions: ['ege'] } }));
+    allow('rooms/$roomId/mapFilter', write('host', `${ROOM}/mapFilter`, { type: 'regions', regions: ['karadeniz', 'ege'] }));
+    allow('rooms/$roomId/mapFilter', write('host', `${ROOM}/mapFilter`, null, mapped));
+    deny('rooms/$roomId/mapFilter', write('host', `${ROOM}/mapFilter`, { type: 'regions', provinces: ['İzmir'] }));
+    deny('rooms/$roomId/mapFilter', write('host', `${ROOM}/mapFilter`, { type: 'districts', regions: ['ege'] }));
+    deny('rooms/$roomId/mapFilter', write('p2', `${ROOM}/mapFilter`, { type: 'regions', regions: ['marmara'] }, mapped));
+  });
+
+  it('mapFilter/type — string', () => {
+    allow('rooms/$roomId/mapFilter/type', write('host', `${ROOM}/mapFilter`, { type: 'provinces', provinces: ['Rize'] }));
+    deny('rooms/$roomId/mapFilter/type', write('host', `${ROOM}/mapFilter/type`, 1));
+  });
+
+  it('mapFilter/regions/$i — known region ids only', () => {
+    allow('rooms/$roomId/mapFilter/regions/$i', write('host', `${ROOM}/mapFilter`, { type: 'regions', regions: ['guneydogu'] }));
+    deny('rooms/$roomId/mapFilter/regions/$i', write('host', `${ROOM}/mapFilter`, { type: 'regions', regions: ['atlantis'] }));
+    deny('rooms/$roomId/mapFilter/regions/$i', write('host', `${ROOM}/mapFilter`, { type: 'regions', regions: { x: 'ege' } }));
+  });
+
+  it('mapFilter/provinces/$i — short il names', () => {
+    allow('rooms/$roomId/mapFilter/provinces/$i', write('host', `${ROOM}/mapFilter`, { type: 'provinces', provinces: ['İstanbul', 'Van'] }));
+    deny('rooms/$roomId/mapFilter/provinces/$i', write('host', `${ROOM}/mapFilter`, { type: 'provinces', provinces: [''] }));
+    deny('rooms/$roomId/mapFilter/provinces/$i', write('host', `${ROOM}/mapFilter`, { type: 'provinces', provinces: ['x'.repeat(31)] }));
+  });
+
+  it('mapFilter/$other — nothing else rides along', () => {
+    allow('rooms/$roomId/mapFilter/$other', write('host', `${ROOM}/mapFilter`, { type: 'regions', regions: ['ege'] }));
+    deny('rooms/$roomId/mapFilter/$other', write('host', `${ROOM}/mapFilter`, { type: 'regions', regions: ['ege'], note: 'x' }));
+  });
+
+  it('mapNotice — host only, short string', () => {
+    allow('rooms/$roomId/mapNotice', write('host', `${ROOM}/mapNotice`, 'Seçili harita küçük'));
+    allow('rooms/$roomId/mapNotice', write('host', `${ROOM}/mapNotice`, null));
+    deny('rooms/$roomId/mapNotice', write('host', `${ROOM}/mapNotice`, 'x'.repeat(201)));
+    deny('rooms/$roomId/mapNotice', write('p2', `${ROOM}/mapNotice`, 'Herkes kazandı'));
+  });
+
+  it('seed — host only, 32-bit unsigned', () => {
+    allow('rooms/$roomId/seed', write('host', `${ROOM}/seed`, 4294967295));
+    allow('rooms/$roomId/seed', write('host', `${ROOM}/seed`, null));
+    deny('rooms/$roomId/seed', write('host', `${ROOM}/seed`, -1));
+    deny('rooms/$roomId/seed', write('host', `${ROOM}/seed`, '42'));
+    deny('rooms/$roomId/seed', write('p2', `${ROOM}/seed`, 42));
+  });
+
+  it('currentPano — host only, panoId + heading, nothing else', () => {
+    allow('rooms/$roomId/currentPano', write('host', `${ROOM}/currentPano`, { panoId: 'b', heading: 90 }));
+    allow('rooms/$roomId/currentPano', write('host', `${ROOM}/currentPano`, null));
+    deny('rooms/$roomId/currentPano', write('host', `${ROOM}/currentPano`, { panoId: 'b' }));
+    deny('rooms/$roomId/currentPano', write('p2', `${ROOM}/currentPano`, { panoId: 'b', heading: 90 }));
+  });
+
+  it('currentPano/panoId — 1..200 char string', () => {
+    allow('rooms/$roomId/currentPano/panoId', write('host', `${ROOM}/currentPano/panoId`, 'b'));
+    deny('rooms/$roomId/currentPano/panoId', write('host', `${ROOM}/currentPano/panoId`, ''));
+    deny('rooms/$roomId/currentPano/panoId', write('host', `${ROOM}/currentPano/panoId`, 7));
+  });
+
+  it('currentPano/heading — number', () => {
+    allow('rooms/$roomId/currentPano/heading', write('host', `${ROOM}/currentPano/heading`, 180));
+    deny('rooms/$roomId/currentPano/heading', write('host', `${ROOM}/currentPano/heading`, 'north'));
+  });
+
+  it('currentPano/$other — coordinates never ride along with the pano ID', () => {
+    allow('rooms/$roomId/currentPano/$other', write('host', `${ROOM}/currentPano`, { panoId: 'b', heading: 0 }));
+    deny('rooms/$roomId/currentPano/$other', write('host', `${ROOM}/currentPano`, { panoId: 'b', heading: 0, lat: 41.01, lng: 28.97 }));
+  });
+
+  it('currentLocation — host only, inside Turkey bounds, never while playing', () => {
+    allow('rooms/$roomId/currentLocation', write('host', `${ROOM}/currentLocation`, { lat: 39.9, lng: 32.8 }, roundEnded()));
+    allow('rooms/$roomId/currentLocation', write('host', `${ROOM}/currentLocation`, null));
+    deny('rooms/$roomId/currentLocation', write('host', `${ROOM}/currentLocation`, { lat: 39.9, lng: 32.8 }));
+    deny('rooms/$roomId/currentLocation', write('host', `${ROOM}/currentLocation`, { lat: 50, lng: 32.8 }, roundEnded()));
+    deny('rooms/$roomId/currentLocation', write('host', `${ROOM}/currentLocation`, { lat: '39.9', lng: 32.8 }, roundEnded()));
+    deny('rooms/$roomId/currentLocation', write('p2', `${ROOM}/currentLocation`, { lat: 39.9, lng: 32.8 }, roundEnded()));
+  });
+
+  it('currentPanoPackageId — host only, string, never while playing', () => {
+    allow('rooms/$roomId/currentPanoPackageId', write('host', `${ROOM}/currentPanoPackageId`, 'pkg_2', roundEnded()));
+    deny('rooms/$roomId/currentPanoPackageId', write('host', `${ROOM}/currentPanoPackageId`, 'pkg_2'));
+    deny('rooms/$roomId/currentPanoPackageId', write('host', `${ROOM}/currentPanoPackageId`, 2, roundEnded()));
+    deny('rooms/$roomId/currentPanoPackageId', write('p2', `${ROOM}/currentPanoPackageId`, 'pkg_2', roundEnded()));
+  });
+
+  it('currentPanoPackage — host only, id + pano0 + locationName (≤100), never while playing', () => {
+    const pkg = { id: 'pkg_2', pano0: { panoId: 'b' }, locationName: 'Çankaya, Ankara' };
+    allow('rooms/$roomId/currentPanoPackage', write('host', `${ROOM}/currentPanoPackage`, pkg, roundEnded()));
+    deny('rooms/$roomId/currentPanoPackage', write('host', `${ROOM}/currentPanoPackage`, pkg));
+    deny('rooms/$roomId/currentPanoPackage', write('host', `${ROOM}/currentPanoPackage`, { ...pkg, pano0: null }, roundEnded()));
+    deny('rooms/$roomId/currentPanoPackage', write('host', `${ROOM}/currentPanoPackage`, { ...pkg, locationName: 'x'.repeat(101) }, roundEnded()));
+    deny('rooms/$roomId/currentPanoPackage', write('p2', `${ROOM}/currentPanoPackage`, pkg, roundEnded()));
+  });
+
+  it('currentLocationName — host only, ≤100 chars, never while playing', () => {
+    allow('rooms/$roomId/currentLocationName', write('host', `${ROOM}/currentLocationName`, 'Çankaya, Ankara', roundEnded()));
+    deny('rooms/$roomId/currentLocationName', write('host', `${ROOM}/currentLocationName`, 'Çankaya, Ankara'));
+    deny('rooms/$roomId/currentLocationName', write('host', `${ROOM}/currentLocationName`, 'x'.repeat(101), roundEnded()));
+    deny('rooms/$roomId/currentLocationName', write('p2', `${ROOM}/currentLocationName`, 'Çankaya, Ankara', roundEnded()));
+  });
+
+  it('roundResults — scoring authority only; clients may only clear them', () => {
+    const results = [{ playerId: 'host', distance: 0.1, score: 5000 }];
+    const withResults = database(createRoom({ status: 'roundEnd', roundResults: results }));
+    allow('rooms/$roomId/roundResults', write('host', `${ROOM}/roundResults`, null, withResults));
+    allow('rooms/$roomId/roundResults', update('host', ROOM, { status: 'playing', roundResults: null }, withResults));
+    deny('rooms/$roomId/roundResults', write('host', `${ROOM}/roundResults`, results));
+    deny('rooms/$roomId/roundResults', write('p2', `${ROOM}/roundResults`, results));
+    deny('rooms/$roomId/roundResults', write('host', `${ROOM}/roundResults`, [{ ...results[0], score: 4000 }], withResults));
+  });
+
+  it('roundStartTime — host only, never moves backwards', () => {
+    allow('rooms/$roomId/roundStartTime', write('host', `${ROOM}/roundStartTime`, T0 + 90_000));
+    deny('rooms/$roomId/roundStartTime', write('host', `${ROOM}/roundStartTime`, T0 - 1));
+    deny('rooms/$roomId/roundStartTime', write('p2', `${ROOM}/roundStartTime`, T0 + 90_000));
+  });
+
+  it('createdAt — number, not in the future on create', () => {
+    allow('rooms/$roomId/createdAt', write('host', ROOM, createRoom({ createdAt: T0 }), {}));
+    deny('rooms/$roomId/createdAt', write('host', ROOM, createRoom({ createdAt: T0 + 60_000 }), {}));
+    deny('rooms/$roomId/createdAt', write('host', `${ROOM}/createdAt`, 'yesterday'));
+  });
+
+  it('lastActivityAt — number', () => {
+    allow('rooms/$roomId/lastActivityAt', write('p2', `${ROOM}/lastActivityAt`, T0 + 5));
+    deny('rooms/$roomId/lastActivityAt', write('p2', `${ROOM}/lastActivityAt`, 'now'));
+  });
+
+  it('lastActiveAt — number', () => {
+    allow('rooms/$roomId/lastActiveAt', write('host', `${ROOM}/lastActiveAt`, T0));
+    deny('rooms/$roomId/lastActiveAt', write('host', `${ROOM}/lastActiveAt`, true));
+  });
+
+  it('roundState — host only, waiting|active|ended', () => {
+    allow('rooms/$roomId/roundState', write('host', `${ROOM}/roundState`, 'ended'));
+    deny('rooms/$roomId/roundState', write('host', `${ROOM}/roundState`, 'ending'));
+    deny('rooms/$roomId/roundState', write('p2', `${ROOM}/roundState`, 'ended'));
+  });
+
+  it('roundVersion — host only, monotonic', () => {
+    allow('rooms/$roomId/roundVersion', write('host', `${ROOM}/roundVersion`, 2));
+    deny('rooms/$roomId/roundVersion', write('host', `${ROOM}/roundVersion`, 0));
+    deny('rooms/$roomId/roundVersion', write('p2', `${ROOM}/roundVersion`, 2));
+  });
+
+  it('activePlayerCount — host only, ≥ 0', () => {
+    allow('rooms/$roomId/activePlayerCount', write('host', `${ROOM}/activePlayerCount`, 1));
+    deny('rooms/$roomId/activePlayerCount', write('host', `${ROOM}/activePlayerCount`, -1));
+    deny('rooms/$roomId/activePlayerCount', write('p2', `${ROOM}/activePlayerCount`, 1));
+  });
+
+  it('expectedGuesses — host only, ≥ 0', () => {
+    allow('rooms/$roomId/expectedGuesses', write('host', `${ROOM}/expectedGuesses`, 1));
+    deny('rooms/$roomId/expectedGuesses', write('host', `${ROOM}/expectedGuesses`, -1));
+    deny('rooms/$roomId/expectedGuesses', write('p2', `${ROOM}/expectedGuesses`, 1));
+  });
+
+  it('currentGuesses — players may only add 1 while playing; host may reset', () => {
+    allow('rooms/$roomId/currentGuesses', write('p2', `${ROOM}/currentGuesses`, 1));
+    allow('rooms/$roomId/currentGuesses', write('host', `${ROOM}/currentGuesses`, 0, database(createRoom({ currentGuesses: 2 }))));
+    deny('rooms/$roomId/currentGuesses', write('p2', `${ROOM}/currentGuesses`, 2));
+    deny('rooms/$roomId/currentGuesses', write('p2', `${ROOM}/currentGuesses`, 1, database(createRoom({ status: 'roundEnd' }))));
+    deny('rooms/$roomId/currentGuesses', write('host', `${ROOM}/currentGuesses`, -1));
+  });
+
+  it('locationHistory — host, or anyone while still empty', () => {
+    const withHistory = database(createRoom({ locationHistory: ['pkg_1'] }));
+    allow('rooms/$roomId/locationHistory', write('host', `${ROOM}/locationHistory`, ['pkg_1', 'pkg_2'], withHistory));
+    allow('rooms/$roomId/locationHistory', write('p2', `${ROOM}/locationHistory`, ['pkg_1']));
+    deny('rooms/$roomId/locationHistory', write('p2', `${ROOM}/locationHistory`, ['pkg_9'], withHistory));
+  });
+
+  it('roundEndLock — lockedBy == auth.uid, complete shape, host once a lock exists', () => {
+    const lock = (lockedBy: string) => ({ lockedBy, roundId: 1, lockedAt: T0 });
+    const locked = database(createRoom({ roundEndLock: lock('host') }));
+    allow('rooms/$roomId/roundEndLock', write('host', `${ROOM}/roundEndLock`, lock('host')));
+    allow('rooms/$roomId/roundEndLock', write('p2', `${ROOM}/roundEndLock`, lock('p2')));
+    allow('rooms/$roomId/roundEndLock', write('host', `${ROOM}/roundEndLock`, null, locked));
+    deny('rooms/$roomId/roundEndLock', write('host', `${ROOM}/roundEndLock`, lock('p2')));
+    deny('rooms/$roomId/roundEndLock', write('p2', `${ROOM}/roundEndLock`, { ...lock('p2'), roundId: 2 }, locked));
+    deny('rooms/$roomId/roundEndLock', write('host', `${ROOM}/roundEndLock`, { lockedBy: 'host', roundId: 1 }));
+  });
+
+  it('meta/serverNow — host only', () => {
+    allow('rooms/$roomId/meta/serverNow', update('host', `${ROOM}/meta`, { serverNow: T0 }));
+    deny('rooms/$roomId/meta/serverNow', update('p2', `${ROOM}/meta`, { serverNow: T0 }));
+  });
+
+  it('meta/$other — unknown meta keys rejected', () => {
+    allow('rooms/$roomId/meta/$other', update('host', `${ROOM}/meta`, { serverNow: T0 }));
+    deny('rooms/$roomId/meta/$other', update('host', `${ROOM}/meta`, { debug: true }));
+  });
+
+  it('$other — unknown room fields rejected', () => {
+    allow('rooms/$roomId/$other', write('host', `${ROOM}/totalRounds`, 3));
+    deny('rooms/$roomId/$other', write('host', `${ROOM}/cheatMode`, true));
+    deny('rooms/$roomId/$other', write('host', ROOM, createRoom({ cheatMode: true }), {}));
+  });
+});
+
+// ==================== PLAYERS ====================
+
+describe('rooms/$roomId/players/$playerId', () => {
+  const P = (id: string) => `${ROOM}/players/${id}`;
+
+  it('.validate — player key 1..128 chars', () => {
+    allow('rooms/$roomId/players/$playerId', write('eve', P('eve'), createPlayer('eve')));
+    const longId = 'e'.repeat(129);
+    deny('rooms/$roomId/players/$playerId', write(longId, P(longId), createPlayer(longId)));
+  });
+
+  it('.read — signed-in users only', () => {
+    allow('rooms/$roomId/players/$playerId', read('eve', P('p2')));
+    deny('rooms/$roomId/players/$playerId', read(null, P('p2')));
+  });
+
+  it('.write — self or host; outsiders can only join as themselves', () => {
+    allow('rooms/$roomId/players/$playerId', write('eve', P('eve'), createPlayer('eve')));
+    allow('rooms/$roomId/players/$playerId', write('host', P('p2'), null));
+    deny('rooms/$roomId/players/$playerId', write('eve', P('p2'), null));
+    deny('rooms/$roomId/players/$playerId', write('eve', P('mallory'), createPlayer('mallory')));
+  });
+
+  it('id — must equal $playerId', () => {
+    allow('rooms/$roomId/players/$playerId/id', write('eve', P('eve'), createPlayer('eve')));
+    deny('rooms/$roomId/players/$playerId/id', write('eve', P('eve'), createPlayer('eve', { id: 'host' })));
+  });
+
+  it('name — 1..20 chars', () => {
+    allow('rooms/$roomId/players/$playerId/name', write('p2', `${P('p2')}/name`, 'x'.repeat(20)));
+    deny('rooms/$roomId/players/$playerId/name', write('p2', `${P('p2')}/name`, 'x'.repeat(21)));
+    deny('rooms/$roomId/players/$playerId/name', write('p2', `${P('p2')}/name`, ''));
+  });
+
+  it('isHost — boolean', () => {
+    allow('rooms/$roomId/players/$playerId/isHost', write('host', `${P('p2')}/isHost`, true));
+    deny('rooms/$roomId/players/$playerId/isHost', write('host', `${P('p2')}/isHost`, 'yes'));
+  });
+
+  it('totalScore — clients may only write 0 (join / restart); scores come from the authority', () => {
+    const scored = database(createRoom({ players: { host: createPlayer('host', { totalScore: 9000 }), p2: createPlayer('p2', { totalScore: 4500 }) } }));
+    allow('rooms/$roomId/players/$playerId/totalScore', write('eve', P('eve'), createPlayer('eve')));
+    allow('rooms/$roomId/players/$playerId/totalScore', write('host', `${P('p2')}/totalScore`, 0, scored));
+    deny('rooms/$roomId/players/$playerId/totalScore', write('host', `${P('host')}/totalScore`, 5000));
+    deny('rooms/$roomId/players/$playerId/totalScore', write('host', `${P('p2')}/totalScore`, 4500));
+    deny('rooms/$roomId/players/$playerId/totalScore', write('p2', `${P('p2')}/totalScore`, 4500));
+    deny('rooms/$roomId/players/$playerId/totalScore', write('eve', P('eve'), createPlayer('eve', { totalScore: 100 })));
+  });
+
+  it('currentGuess — in bounds, one-shot, owner only', () => {
+    const guess = { lat: 39.9, lng: 32.8 };
+    const guessed = database(createRoom({ players: { host: createPlayer('host'), p2: createPlayer('p2', { currentGuess: guess, hasGuessed: true }) } }));
+    allow('rooms/$roomId/players/$playerId/currentGuess', write('p2', `${P('p2')}/currentGuess`, guess));
+    allow('rooms/$roomId/players/$playerId/currentGuess', write('host', `${P('p2')}/currentGuess`, null, guessed));
+    deny('rooms/$roomId/players/$playerId/currentGuess', write('host', `${P('p2')}/currentGuess`, { lat: 40, lng: 33 }, guessed));
+    deny('rooms/$roomId/players/$playerId/currentGuess', write('host', `${P('p2')}/currentGuess`, guess));
+    deny('rooms/$roomId/players/$playerId/currentGuess', write('p2', `${P('p2')}/currentGuess`, { lat: 48.8, lng: 2.3 }));
+    deny('rooms/$roomId/players/$playerId/currentGuess', write('p2', `${P('p2')}/currentGuess`, { lat: 40, lng: 33 }, guessed));
+  });
+
+  it('currentGuess — only while the round is open (no lock, no reveal, within the time limit)', () => {
+    const guess = { lat: 41.01, lng: 28.97 };
+    const locked = database(createRoom({ roundEndLock: { lockedBy: 'host', roundId: 1, lockedAt: T0 } }));
+    const revealed = database(createRoom({ status: 'roundEnd', roundState: 'ended', currentLocation: guess }));
+    const oldLock = database(createRoom({ roundEndLock: { lockedBy: 'host', roundId: 0, lockedAt: T0 - 120_000 } }));
+    allow('rooms/$roomId/players/$playerId/currentGuess', write('p2', `${P('p2')}/currentGuess`, guess, oldLock));
+    deny('rooms/$roomId/players/$playerId/currentGuess', write('p2', `${P('p2')}/currentGuess`, guess, locked));
+    deny('rooms/$roomId/players/$playerId/currentGuess', write('p2', `${P('p2')}/currentGuess`, guess, revealed));
+    deny('rooms/$roomId/players/$playerId/currentGuess', write('p2', `${P('p2')}/currentGuess`, guess, database(createRoom({ roundStartTime: T0 - 96_000 }))));
+    // Host can't end the round and slip its own guess into the same write
+    deny('rooms/$roomId/players/$playerId/currentGuess', update('host', ROOM, { status: 'roundEnd', roundState: 'ended', 'players/host/currentGuess': guess }));
+  });
+
+  it('currentGuess/{lat,lng} — numbers, no other fields', () => {
+    allow('rooms/$roomId/players/$playerId/currentGuess/lat', write('p2', `${P('p2')}/currentGuess`, { lat: 39.9, lng: 32.8 }));
+    allow('rooms/$roomId/players/$playerId/currentGuess/lng', write('p2', `${P('p2')}/currentGuess`, { lat: 39.9, lng: 32.8 }));
+    deny('rooms/$roomId/players/$playerId/currentGuess/lat', write('p2', `${P('p2')}/currentGuess`, { lat: '39.9', lng: 32.8 }));
+    deny('rooms/$roomId/players/$playerId/currentGuess/lng', write('p2', `${P('p2')}/currentGuess`, { lat: 39.9, lng: '32.8' }));
+    allow('rooms/$roomId/players/$playerId/currentGuess/$other', write('p2', `${P('p2')}/currentGuess`, { lat: 39.9, lng: 32.8 }));
+    deny('rooms/$roomId/players/$playerId/currentGuess/$other', write('p2', `${P('p2')}/currentGuess`, { lat: 39.9, lng: 32.8, score: 5000 }));
+  });
+
+  it('hasGuessed — true needs the owner\'s guess while playing; only host resets to false', () => {
+    const guessed = database(createRoom({ players: { host: createPlayer('host'), p2: createPlayer('p2', { currentGuess: { lat: 39.9, lng: 32.8 }, hasGuessed: true }) } }));
+    allow('rooms/$roomId/players/$playerId/hasGuessed', update('p2', P('p2'), { currentGuess: { lat: 39.9, lng: 32.8 }, hasGuessed: true }));
+    const guessPending = database(createRoom({ players: { host: createPlayer('host'), p2: createPlayer('p2', { currentGuess: { lat: 39.9, lng: 32.8 } }) } }));
+    deny('rooms/$roomId/players/$playerId/hasGuessed', write('host', `${P('p2')}/hasGuessed`, true, guessPending));
+    allow('rooms/$roomId/players/$playerId/hasGuessed', write('host', `${P('p2')}/hasGuessed`, false, guessed));
+    allow('rooms/$roomId/players/$playerId/hasGuessed', write('eve', P('eve'), createPlayer('eve')));
+    deny('rooms/$roomId/players/$playerId/hasGuessed', write('p2', `${P('p2')}/hasGuessed`, true));
+    deny('rooms/$roomId/players/$playerId/hasGuessed', write('p2', `${P('p2')}/hasGuessed`, false, guessed));
+    deny('rooms/$roomId/players/$playerId/hasGuessed', write('p2', `${P('p2')}/hasGuessed`, 'true'));
+  });
+
+  it('roundScores — scoring authority only; clients may only clear them', () => {
+    const scored = database(createRoom({ players: { host: createPlayer('host'), p2: createPlayer('p2', { roundScores: [4200] }) } }));
+    allow('rooms/$roomId/players/$playerId/roundScores', write('host', `${P('p2')}/roundScores`, null, scored));
+    allow('rooms/$roomId/players/$playerId/roundScores', write('eve', P('eve'), createPlayer('eve')));
+    deny('rooms/$roomId/players/$playerId/roundScores', write('host', `${P('p2')}/roundScores`, [4200]));
+    deny('rooms/$roomId/players/$playerId/roundScores', write('p2', `${P('p2')}/roundScores`, [5000], scored));
+  });
+
+  it.each(['lastActiveAt', 'joinedAt', 'lastSeen', 'disconnectedAt'])('%s — number', (field) => {
+    allow(`rooms/$roomId/players/$playerId/${field}`, write('p2', `${P('p2')}/${field}`, T0 + 10));
+    deny(`rooms/$roomId/players/$playerId/${field}`, write('p2', `${P('p2')}/${field}`, 'later'));
+  });
+
+  it('status — online|offline|disconnected', () => {
+    allow('rooms/$roomId/players/$playerId/status', write('p2', `${P('p2')}/status`, 'disconnected'));
+    deny('rooms/$roomId/players/$playerId/status', write('p2', `${P('p2')}/status`, 'away'));
+  });
+
+  it('sessionToken — string of ≥ 10 chars', () => {
+    allow('rooms/$roomId/players/$playerId/sessionToken', write('p2', `${P('p2')}/sessionToken`, '0123456789'));
+    deny('rooms/$roomId/players/$playerId/sessionToken', write('p2', `${P('p2')}/sessionToken`, 'short'));
+  });
+
+  it('movesUsed — 0..10, players can only increase', () => {
+    const moved = database(createRoom({ players: { host: createPlayer('host'), p2: createPlayer('p2', { movesUsed: 2 }) } }));
+    allow('rooms/$roomId/players/$playerId/movesUsed', write('p2', `${P('p2')}/movesUsed`, 3, moved));
+    allow('rooms/$roomId/players/$playerId/movesUsed', write('host', `${P('p2')}/movesUsed`, 0, moved));
+    deny('rooms/$roomId/players/$playerId/movesUsed', write('p2', `${P('p2')}/movesUsed`, 1, moved));
+    deny('rooms/$roomId/players/$playerId/movesUsed', write('host', `${P('p2')}/movesUsed`, 11));
+  });
+
+  it('$other — unknown player fields rejected', () => {
+    allow('rooms/$roomId/players/$playerId/$other', write('p2', `${P('p2')}/lastSeen`, T0 + 1));
+    deny('rooms/$roomId/players/$playerId/$other', write('p2', `${P('p2')}/wallhack`, true));
+  });
+});
+
+// ==================== ROUND ANSWERS ====================
+
+describe('roundAnswers', () => {
+  const ANSWERS = `roundAnswers/${ROOM_ID}`;
+
+  // No rule at all: only the round / scoring authorities (database secret) touch answers
+  it('closed to every client, the host included', () => {
+    expect(listRuleLocations(rulesFile as RulesFile).some((location) => location.path.startsWith('roundAnswers'))).toBe(false);
+    for (const uid of ['host', 'p2', null]) {
+      expect(read(uid, `${ANSWERS}/1`).allowed).toBe(false);
+      expect(write(uid, `${ANSWERS}/2`, { ...ANSWER, roundId: 2 }).allowed).toBe(false);
+    }
+    expect(read('host', 'roundAnswers').allowed).toBe(false);
+    expect(write('host', ANSWERS, null).allowed).toBe(false);
+  });
+
+  // Solo rounds (soloRounds/{uid}) and the pinned Günün Turu draw hold answers too
+  it('solo deals, daily draws and daily runs are closed as well, even to their owner', () => {
+    const locations = listRuleLocations(rulesFile as RulesFile);
+    expect(locations.some((location) => /^(soloRounds|dailyDraws|dailyRuns)/.test(location.path))).toBe(false);
+    expect(read('p2', 'soloRounds/p2').allowed).toBe(false);
+    expect(write('p2', 'soloRounds/p2', { runId: '1', roundId: 1, answer: ANSWER, history: [] }).allowed).toBe(false);
+    expect(read('p2', 'dailyDraws/2023-11-14').allowed).toBe(false);
+    expect(write('p2', 'dailyDraws/2023-11-14', { revision: 1, packages: [], drawnAt: T0 }).allowed).toBe(false);
+    expect(write('p2', 'dailyRuns/2023-11-14/p2', { runId: '1', name: 'Ayşe', mode: 'urban', rounds: [5000], startedAt: T0 }).allowed).toBe(false);
+  });
+});
+
+describe('dailyLeaderboard', () => {
+  const DAY = 'dailyLeaderboard/2023-11-14';
+  const ENTRY = { name: 'Ayşe', score: 18240, rounds: [4900, 3200, 4100, 2040, 4000], mode: 'urban', finishedAt: T0 - 1_000 };
+  const submitted = () => ({ ...database(), dailyLeaderboard: { '2023-11-14': { p2: ENTRY } } });
+
+  it('root — no listing every day, no wipe', () => {
+    deny('dailyLeaderboard', read('p2', 'dailyLeaderboard'));
+    deny('dailyLeaderboard', write('host', 'dailyLeaderboard', null, submitted()));
+    allow('dailyLeaderboard', read(null, DAY, submitted()));
+  });
+
+  // Entries are written by the solo round authority after it scored the last round
+  it('$date — anyone reads a day, date-shaped keys only, nobody writes', () => {
+    allow('dailyLeaderboard/$date', read(null, DAY, submitted()));
+    deny('dailyLeaderboard/$date', read('p2', 'dailyLeaderboard/today'));
+    deny('dailyLeaderboard/$date', write('p2', `${DAY}/p2`, ENTRY));
+    deny('dailyLeaderboard/$date', write('p3', `${DAY}/p3`, { ...ENTRY, score: 25000 }));
+    deny('dailyLeaderboard/$date', write('p2', `${DAY}/p2`, null, submitted()));
+  });
+});
+
+describe('profiles', () => {
+  const PROFILE_PATH = 'profiles/p2';
+  const PROFILE = {
+    name: 'Ayşe',
+    createdAt: T0 - 86_400_000,
+    updatedAt: T0 - 1_000,
+    lastGameId: 'ABC123_1699999999000',
+    games: 3,
+    rounds: 15,
+    guessedRounds: 14,
+    totalScore: 52_000,
+    totalDistance: 1_240.5,
+    bestRound: { score: 4_990, distance: 0.4, locationName: 'Kadıköy, İstanbul', at: T0 - 5_000 },
+    bestGame: { score: 21_000, rounds: 5, mode: 'urban', at: T0 - 5_000 },
+    regions: { marmara: { rounds: 6, guessedRounds: 6, totalScore: 25_000, totalDistance: 300 } },
+    modes: { urban: { games: 3, rounds: 15, totalScore: 52_000 } },
+  };
+  const withProfile = () => ({ ...database(), profiles: { p2: PROFILE } });
+  const nextGame = { ...PROFILE, games: 4, rounds: 20, totalScore: 70_000, updatedAt: T0 };
+
+  it('root — no listing every profile', () => {
+    deny('profiles', read('p2', 'profiles', withProfile()));
+    const twoProfiles = { ...database(), profiles: { p2: PROFILE, other: PROFILE } };
+    deny('profiles', write('p2', 'profiles', null, twoProfiles));
+    allow('profiles', read('p2', PROFILE_PATH, withProfile()));
+  });
+
+  it('$uid — owner only (read, create, update, delete)', () => {
+    allow('profiles/$uid', read('p2', PROFILE_PATH, withProfile()));
+    allow('profiles/$uid', write('p2', PROFILE_PATH, PROFILE));
+    allow('profiles/$uid', write('p2', PROFILE_PATH, nextGame, withProfile()));
+    allow('profiles/$uid', write('p2', PROFILE_PATH, null, withProfile()));
+    deny('profiles/$uid', read('eve', PROFILE_PATH, withProfile()));
+    deny('profiles/$uid', write('eve', PROFILE_PATH, PROFILE));
+    deny('profiles/$uid', write(null, PROFILE_PATH, PROFILE));
+    deny('profiles/$uid', write('p2', PROFILE_PATH, { name: 'Ayşe', games: 0 }));
+  });
+
+  it('name + timestamps', () => {
+    allow('profiles/$uid/name', write('p2', PROFILE_PATH, { ...PROFILE, name: 'x'.repeat(20) }));
+    deny('profiles/$uid/name', write('p2', PROFILE_PATH, { ...PROFILE, name: '' }));
+    allow('profiles/$uid/createdAt', write('p2', PROFILE_PATH, nextGame, withProfile()));
+    deny('profiles/$uid/createdAt', write('p2', PROFILE_PATH, { ...nextGame, createdAt: T0 }, withProfile()));
+    deny('profiles/$uid/createdAt', write('p2', PROFILE_PATH, { ...PROFILE, createdAt: T0 + 60_000 }));
+    allow('profiles/$uid/updatedAt', write('p2', PROFILE_PATH, { ...PROFILE, updatedAt: T0 }));
+    deny('profiles/$uid/updatedAt', write('p2', PROFILE_PATH, { ...PROFILE, updatedAt: T0 + 60_000 }));
+    allow('profiles/$uid/lastGameId', write('p2', PROFILE_PATH, { ...PROFILE, lastGameId: 'solo_1' }));
+    deny('profiles/$uid/lastGameId', write('p2', PROFILE_PATH, { ...PROFILE, lastGameId: 7 }));
+  });
+
+  it('counters — one game per write, never backwards, score within rounds × 5000', () => {
+    allow('profiles/$uid/games', write('p2', PROFILE_PATH, nextGame, withProfile()));
+    deny('profiles/$uid/games', write('p2', PROFILE_PATH, { ...nextGame, games: 10 }, withProfile()));
+    deny('profiles/$uid/games', write('p2', PROFILE_PATH, { ...nextGame, games: 2 }, withProfile()));
+    allow('profiles/$uid/rounds', write('p2', PROFILE_PATH, nextGame, withProfile()));
+    deny('profiles/$uid/rounds', write('p2', PROFILE_PATH, { ...nextGame, rounds: 10, totalScore: 40_000 }, withProfile()));
+    allow('profiles/$uid/guessedRounds', write('p2', PROFILE_PATH, { ...PROFILE, guessedRounds: 15 }));
+    deny('profiles/$uid/guessedRounds', write('p2', PROFILE_PATH, { ...PROFILE, guessedRounds: 16 }));
+    allow('profiles/$uid/totalScore', write('p2', PROFILE_PATH, { ...PROFILE, totalScore: 75_000 }));
+    deny('profiles/$uid/totalScore', write('p2', PROFILE_PATH, { ...PROFILE, totalScore: 75_001 }));
+    allow('profiles/$uid/totalDistance', write('p2', PROFILE_PATH, { ...PROFILE, totalDistance: 0 }));
+    deny('profiles/$uid/totalDistance', write('p2', PROFILE_PATH, { ...PROFILE, totalDistance: -1 }));
+  });
+
+  it('bests, regions, modes and unknown fields', () => {
+    allow('profiles/$uid/bestRound', write('p2', PROFILE_PATH, { ...PROFILE, bestRound: { score: 5_000, at: T0 } }));
+    deny('profiles/$uid/bestRound', write('p2', PROFILE_PATH, { ...PROFILE, bestRound: { score: 5_001, at: T0 } }));
+    allow('profiles/$uid/bestGame', write('p2', PROFILE_PATH, { ...PROFILE, bestGame: { score: 25_000, rounds: 5, mode: 'geo', at: T0 } }));
+    deny('profiles/$uid/bestGame', write('p2', PROFILE_PATH, { ...PROFILE, bestGame: { score: 25_001, rounds: 5, mode: 'geo', at: T0 } }));
+    allow('profiles/$uid/regions/$region', write('p2', PROFILE_PATH, { ...PROFILE, regions: { ege: { rounds: 1, totalScore: 10 } } }));
+    deny('profiles/$uid/regions/$region', write('p2', PROFILE_PATH, { ...PROFILE, regions: { atlantis: { rounds: 1, totalScore: 10 } } }));
+    allow('profiles/$uid/modes/$mode', write('p2', PROFILE_PATH, { ...PROFILE, modes: { geo: { games: 1, rounds: 5, totalScore: 10 } } }));
+    deny('profiles/$uid/modes/$mode', write('p2', PROFILE_PATH, { ...PROFILE, modes: { space: { games: 1, rounds: 5, totalScore: 10 } } }));
+    allow('profiles/$uid/$other', write('p2', PROFILE_PATH, PROFILE));
+    deny('profiles/$uid/$other', write('p2', PROFILE_PATH, { ...PROFILE, isAdmin: true }));
+  });
+});
+
+describe('submissions', () => {
+  const ID = String(T0 - 1_000);
+  const PATH = `submissions/p2/${ID}`;
+  const SUBMISSION = {
+    panoId: 'mxQ27bCqI95iQMkaDa8_nA', lat: 41.0086, lng: 28.9802, heading: 180, pitch: 0,
+    mode: 'urban', roadType: 'urban_street', hintTags: ['signage', 'mosque'], region: 'marmara',
+    note: 'Sultanahmet meydanı', source: 'round', name: 'Ayşe', createdAt: T0 - 1_000, status: 'pending',
+  };
+  const submitted = () => ({ ...database(), submissions: { p2: { [ID]: SUBMISSION } } });
+
+  it('root — no listing the queue, no wipe', () => {
+    deny('submissions', read('p2', 'submissions', submitted()));
+    deny('submissions', write('p2', 'submissions', null, submitted()));
+    allow('submissions', read('p2', PATH, submitted()));
+  });
+
+  it('$uid — owner reads their own', () => {
+    allow('submissions/$uid', read('p2', 'submissions/p2', submitted()));
+    deny('submissions/$uid', read('eve', 'submissions/p2', submitted()));
+    deny('submissions/$uid', read(null, 'submissions/p2', submitted()));
+  });
+
+  // No write rule: /api/submit-location writes submissions and quotas after checking the caller
+  it('writes — closed to every client, the owner included', () => {
+    const locations = listRuleLocations(rulesFile as RulesFile);
+    expect(locations.some((location) => location.path.startsWith('submissions/$uid/') || location.path.startsWith('submissionQuota'))).toBe(false);
+    deny('submissions/$uid', write('p2', PATH, SUBMISSION));
+    deny('submissions/$uid', write('p2', PATH, null, submitted()));
+    deny('submissions/$uid', write('p2', `${PATH}/status`, 'approved', submitted()));
+    expect(write('p2', 'submissionQuota/p2', { windowStart: T0, count: 0 }).allowed).toBe(false);
+  });
+});
+
+describe('locationReports + quarantine', () => {
+  const PATH = 'locationReports/urban_kadikoy_1/p2';
+  const REPORT = { reason: 'indoor', panoId: 'mxQ27bCqI95iQMkaDa8_nA', at: T0 - 1_000 };
+  const reported = () => ({
+    ...database(),
+    locationReports: { urban_kadikoy_1: { p2: REPORT } },
+    quarantine: { urban_kadikoy_1: { panoId: REPORT.panoId, at: T0, reports: 3, reasons: { indoor: 3 } } },
+  });
+
+  // No rule: /api/report-location writes reports and quotas after checking the caller
+  it('reports and report quotas — closed to every client, the reporter included', () => {
+    const locations = listRuleLocations(rulesFile as RulesFile);
+    expect(locations.some((location) => /^(locationReports|reportQuota)/.test(location.path))).toBe(false);
+    expect(write('p2', PATH, REPORT).allowed).toBe(false);
+    expect(read('p2', PATH, reported()).allowed).toBe(false);
+    expect(write('p2', 'reportQuota/p2', { windowStart: T0, count: 0 }).allowed).toBe(false);
+  });
+
+  it('quarantine — public read, only the server writes', () => {
+    allow('quarantine', read(null, 'quarantine', reported()));
+    deny('quarantine', write('p2', 'quarantine/urban_kadikoy_1', { panoId: 'x', at: T0, reports: 3 }));
+    deny('quarantine', write('p2', 'quarantine/urban_kadikoy_1', null, reported()));
+  });
+});
+
+describe('apiBudget', () => {
+  const DAY = 'apiBudget/2023-11-14';
+  const ledger = () => ({ ...database(), apiBudget: { '2023-11-14': { total: 7_000, rooms: { [ROOM_ID]: { findPano: 48 } } } } });
+
+  // No rule: /api/budget reserves and records after checking the caller
+  it('closed to every client — the server route is the only writer', () => {
+    const locations = listRuleLocations(rulesFile as RulesFile);
+    expect(locations.some((location) => location.path.startsWith('apiBudget'))).toBe(false);
+    expect(read('p2', DAY, ledger()).allowed).toBe(false);
+    expect(write('p2', `${DAY}/total`, 7_001, ledger()).allowed).toBe(false);
+    expect(write('p2', `${DAY}/rooms/solo_p2uid`, { findPano: 1 }, ledger()).allowed).toBe(false);
+  });
+});
+
+describe('telemetry', () => {
+  const PATH = 'telemetry/2023-11-14/1699999999000_abc123';
+  const RECORD = { kind: 'event', event: 'roundEnd', at: T0 - 2_000, sessionId: 'ses_1_abc', data: { latencyMs: 420 } };
+  const BATCH = { uid: 'p2', at: T0 - 1_000, records: [RECORD] };
+  const exported = () => ({ ...database(), telemetry: { '2023-11-14': { '1699999999000_abc123': BATCH } } });
+  const field = (location: string, good: Record<string, unknown>, bad: Record<string, unknown>) => {
+    allow(`telemetry/$day/$batchId/${location}`, write('p2', PATH, { ...BATCH, ...good }));
+    deny(`telemetry/$day/$batchId/${location}`, write('p2', PATH, { ...BATCH, ...bad }));
+  };
+
+  it('root — batches are never readable or bulk-written', () => {
+    deny('telemetry', read('p2', 'telemetry', exported()));
+    deny('telemetry', write('p2', 'telemetry', null, exported()));
+    allow('telemetry', write('p2', PATH, BATCH));
+  });
+
+  it('$batchId — signed-in players write a batch once, valid day and id', () => {
+    allow('telemetry/$day/$batchId', write('p2', PATH, BATCH));
+    deny('telemetry/$day/$batchId', write(null, PATH, BATCH));
+    deny('telemetry/$day/$batchId', write('p2', PATH, BATCH, exported()));
+    deny('telemetry/$day/$batchId', write('p2', 'telemetry/14-11-2023/1699999999000_abc123', BATCH));
+    deny('telemetry/$day/$batchId', write('p2', 'telemetry/2023-11-14/bad.id', BATCH));
+    deny('telemetry/$day/$batchId', write('p2', PATH, { uid: 'p2', at: T0 }));
+  });
+
+  it('fields — own uid, no future timestamps, record shape, nothing else', () => {
+    field('uid', { uid: 'p2' }, { uid: 'eve' });
+    field('at', { at: T0 }, { at: T0 + 60_000 });
+    field('records/$index', { records: [RECORD, { ...RECORD, kind: 'error', event: 'error' }] }, { records: [{ kind: 'event' }] });
+    field('records/$index/kind', { records: [{ ...RECORD, kind: 'error' }] }, { records: [{ ...RECORD, kind: 'metric' }] });
+    field('$other', {}, { playerName: 'Ayşe' });
+    deny('telemetry/$day/$batchId/records/$index', write('p2', PATH, { ...BATCH, records: Array.from({ length: 101 }, () => RECORD) }));
+  });
+});
+
+describe('leaderboards', () => {
+  const ENTRY = { uid: 'p2', name: 'Ayşe', score: 21_000, rounds: 5, mode: 'urban', region: null, roomId: ROOM_ID, finishedAt: T0 };
+  const boards = () => ({ ...database(), leaderboards: { alltime: { [`${ROOM_ID}_1_p2`]: ENTRY } } });
+
+  it('root — boards are read one at a time, never written by clients', () => {
+    deny('leaderboards', read('p2', 'leaderboards', boards()));
+    deny('leaderboards', write('host', 'leaderboards', null, boards()));
+    allow('leaderboards', read(null, 'leaderboards/alltime', boards()));
+  });
+
+  it('$boardId — anyone reads a known board id, nobody writes', () => {
+    allow('leaderboards/$boardId', read(null, 'leaderboards/2024-W09_ege', boards()));
+    allow('leaderboards/$boardId', read('p2', 'leaderboards/alltime_geo', boards()));
+    deny('leaderboards/$boardId', read('p2', 'leaderboards/hepsi', boards()));
+    deny('leaderboards/$boardId', write('p2', `leaderboards/alltime/${ROOM_ID}_2_p2`, { ...ENTRY, score: 25_000 }, boards()));
+    deny('leaderboards/$boardId', write('p2', `leaderboards/alltime/${ROOM_ID}_1_p2`, null, boards()));
+  });
+
+  const standings = () => ({ ...database(), leaderboardBests: { alltime: { p2: 21_000 } }, leaderboardCounts: { alltime: { s21000: 1 } } });
+
+  it('bests — one player\'s best is read on a known board, the board\'s bests are not listed', () => {
+    deny('leaderboardBests', read(null, 'leaderboardBests/alltime', standings()));
+    deny('leaderboardBests', write('p2', 'leaderboardBests', null, standings()));
+    allow('leaderboardBests', read(null, 'leaderboardBests/alltime/p2', standings()));
+    allow('leaderboardBests/$boardId/$uid', read('p2', 'leaderboardBests/alltime/p2', standings()));
+    deny('leaderboardBests/$boardId/$uid', read('p2', 'leaderboardBests/hepsi/p2', standings()));
+    deny('leaderboardBests/$boardId/$uid', write('p2', 'leaderboardBests/alltime/p2', 50_000, standings()));
+  });
+
+  it('counts — anyone reads a known board\'s counts, nobody writes', () => {
+    deny('leaderboardCounts', read(null, 'leaderboardCounts', standings()));
+    deny('leaderboardCounts', write('p2', 'leaderboardCounts', null, standings()));
+    allow('leaderboardCounts', read(null, 'leaderboardCounts/alltime', standings()));
+    allow('leaderboardCounts/$boardId', read('p2', 'leaderboardCounts/2024-W09_geo', standings()));
+    deny('leaderboardCounts/$boardId', read('p2', 'leaderboardCounts/hepsi', standings()));
+    deny('leaderboardCounts/$boardId', write('p2', 'leaderboardCounts/alltime/s21000', 0, standings()));
+  });
+});
+
+describe('accuracy', () => {
+  const SAMPLE = { packageId: 'ist_kadikoy_1', province: 'İstanbul', region: 'marmara', score: 4200, distance: 12 };
+  const STATS = { updatedAt: T0, packages: {}, provinces: { 'İstanbul': { guesses: 5, averageDistance: 12, medianScore: 4250 } }, regions: {} };
+  const CALIBRATION = { generatedAt: T0, tiers: { ist_kadikoy_1: 'hard' } };
+  const accuracy = () => ({ ...database(), accuracy: { samples: { [`${ROOM_ID}_1_1`]: [SAMPLE] }, stats: STATS, calibration: CALIBRATION } });
+
+  it('root — samples and aggregate are server-only', () => {
+    deny('accuracy', read('p2', 'accuracy', accuracy()));
+    deny('accuracy', read(null, 'accuracy/samples', accuracy()));
+    deny('accuracy', write('p2', `accuracy/samples/${ROOM_ID}_2_1`, [{ ...SAMPLE, score: 5000 }], accuracy()));
+    allow('accuracy', read(null, 'accuracy/stats', accuracy()));
+  });
+
+  it('stats — public heatmap, nobody writes', () => {
+    allow('accuracy/stats', read(null, 'accuracy/stats', accuracy()));
+    allow('accuracy/stats', read('p2', 'accuracy/stats/provinces', accuracy()));
+    deny('accuracy/stats', write('p2', 'accuracy/stats/provinces/İstanbul/medianScore', 0, accuracy()));
+    deny('accuracy/stats', write('host', 'accuracy/stats', null, accuracy()));
+  });
+
+  it('calibration — public tiers, nobody writes', () => {
+    allow('accuracy/calibration', read(null, 'accuracy/calibration', accuracy()));
+    deny('accuracy/calibration', write('p2', 'accuracy/calibration/tiers/ist_kadikoy_1', 'easy', accuracy()));
+  });
+});
+
+// ==================== APP FLOWS ====================
+
+describe('app write patterns stay allowed', () => {
+  /** Client-side view of an update() landing (no pruning needed for these fixtures) */
+  function applyUpdate(state: unknown, path: string, patch: Record<string, unknown>) {
+    const next = JSON.parse(JSON.stringify(state));
+    for (const [relative, value] of Object.entries(patch)) {
+      const segments = `${path}/${relative}`.split('/');
+      const parent = segments.slice(0, -1).reduce((node, key) => (node[key] ??= {}), next);
+      parent[segments[segments.length - 1]] = value;
+    }
+    return next;
+  }
+
+  it('join → heartbeat → guess → disconnect as a non-host player', () => {
+    let state: unknown = database(createRoom({ players: { host: createPlayer('host') } }));
+    const step = (path: string, patch: Record<string, unknown>) => {
+      expect(update('p2', path, patch, state)).toEqual({ allowed: true, reason: null });
+      state = applyUpdate(state, path, patch);
+    };
+
+    step(`${ROOM}/players`, { p2: createPlayer('p2') });
+    step(ROOM, { lastActivityAt: T0 + 1 });
+    step(`${ROOM}/players/p2`, { lastSeen: T0 + 5000, status: 'online' });
+    step(`${ROOM}/players/p2`, { currentGuess: { lat: 38.4, lng: 27.1 }, hasGuessed: true });
+    step(ROOM, { currentGuesses: 1 });
+    step(`${ROOM}/players/p2`, { status: 'disconnected', disconnectedAt: T0 + 9000 });
+  });
+
+  it('players see only the pano ID while playing; the host reveals the answer at roundEnd', () => {
+    expect(read('p2', `${ROOM}/currentPano`).allowed).toBe(true);
+    expect(read('p2', `roundAnswers/${ROOM_ID}/1`).allowed).toBe(false);
+
+    const reveal = {
+      status: 'roundEnd',
+      roundState: 'ended',
+      roundEndLock: { lockedBy: 'host', roundId: 1, lockedAt: T0 },
+      currentPanoPackageId: ANSWER.panoPackageId,
+      currentPanoPackage: ANSWER.panoPackage,
+      currentLocation: ANSWER.location,
+      currentLocationName: ANSWER.locationName,
+    };
+    expect(update('host', ROOM, reveal)).toEqual({ allowed: true, reason: null });
+    expect(update('host', ROOM, { ...reveal, status: 'playing', roundState: 'active' }).allowed).toBe(false);
+  });
+
+  it('a modified host client cannot award itself points with its round-end transaction', () => {
+    const ended = createRoom({
+      status: 'roundEnd',
+      roundState: 'ended',
+      roundEndLock: { lockedBy: 'host', roundId: 1, lockedAt: T0 },
+    });
+    const forged = {
+      ...ended,
+      roundResults: [{ playerId: 'host', playerName: 'host', guess: { lat: 41.01, lng: 28.97 }, distance: 0, score: 5000 }],
+      players: { ...ended.players, host: createPlayer('host', { totalScore: 5000, roundScores: [5000], hasGuessed: true }) },
+    };
+    const decision = write('host', ROOM, forged, database(createRoom()));
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toMatch(/validation failed/);
+  });
+
+  it('non-host cannot end the game or inflate their score in one update', () => {
+    const decision = update('p2', ROOM, { status: 'gameOver', 'players/p2/totalScore': 25_000 });
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toMatch(/validation failed/);
+  });
+});
+
+// ==================== EVALUATOR ====================
+
+describe('rules evaluator', () => {
+  it('rejects malformed rule expressions at load time', () => {
+    expect(() => createRulesEvaluator({ rules: { a: { '.read': 'auth != null &&' } } })).toThrow(RulesSyntaxError);
+  });
+
+  it('expression errors evaluate to false, not throw', () => {
+    const evaluator = createRulesEvaluator({ rules: { a: { '.read': 'auth.uid == \'x\'' } } });
+    expect(evaluator.canRead({ auth: null, path: 'a', data: null }).allowed).toBe(false);
+    expect(evaluator.canRead({ auth: 'x', path: 'a', data: null }).allowed).toBe(true);
+  });
+
+  it('every rule in database.rules.json has positive and negative cases', () => {
+    const missing = listRuleLocations(rulesFile as RulesFile)
+      .map((location) => location.path)
+      .filter((path) => {
+        const entry = coverage.get(path);
+        return !entry || entry.allow === 0 || entry.deny === 0;
+      });
+    expect(missing).toEqual([]);
+  });
+});
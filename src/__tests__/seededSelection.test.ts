@@ -0,0 +1,123 @@
+// @vitest-environment node
+/**
+ * Seeded Location Selection — Replay Tests
+ *
+ * Tests cover:
+ * - Two independent engine instances with the same seed → identical draws (urban + geo)
+ * - Different seeds diverge
+ * - runSimulation(draws, seed) is reproducible
+ * - Dynamic path: sampleFromSeed + mint read the shared source
+ * - Room.seed: RESTART takes the new seed, keeps the old one when none is given
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GameMode, Room } from '@/types';
+import { createSeededRandom, setRandomSource } from '@/utils/random';
+import { runSimulation } from '@/services/locationEngine';
+import { getUrbanSeedMap, sampleFromSeed } from '@/data/urbanSeeds';
+import { transitionRoom } from '@/services/roomStateMachine';
+import { createSoloRun } from '@/services/soloGame';
+
+// ==================== HELPERS ====================
+
+/**
+ * Fresh module graph → a second, fully independent engine (own anti-repeat
+ * state, province bag, random source and pack store), like another host's
+ * browser — which loads the packs before drawing.
+ */
+async function loadIsolatedEngine() {
+  vi.resetModules();
+  (await import('@/services/panoPackFiles')).installPacksFromDisk();
+  const random = await import('@/utils/random');
+  const engine = await import('@/services/locationEngine');
+  const generator = await import('@/services/dynamicUrbanGenerator');
+  return { random, engine, generator };
+}
+
+async function drawWithSeed(seed: number, mode: GameMode, rounds: number): Promise<string[]> {
+  const { random, engine } = await loadIsolatedEngine();
+  engine.resetLocationEngine();
+  random.setRandomSource(random.createSeededRandom(seed));
+  const ids: string[] = [];
+  for (let i = 0; i < rounds; i++) {
+    ids.push(engine.selectStaticPackage(mode)?.id ?? 'none');
+  }
+  random.setRandomSource(null);
+  return ids;
+}
+
+afterEach(() => {
+  setRandomSource(null);
+});
+
+// ==================== REPLAY ====================
+
+describe('seeded replay', () => {
+  it('two engines with the same seed return identical urban draws', async () => {
+    const first = await drawWithSeed(20240301, 'urban', 40);
+    const second = await drawWithSeed(20240301, 'urban', 40);
+    expect(first).not.toContain('none');
+    expect(second).toEqual(first);
+  });
+
+  it('two engines with the same seed return identical geo draws', async () => {
+    expect(await drawWithSeed(7, 'geo', 15)).toEqual(await drawWithSeed(7, 'geo', 15));
+  });
+
+  it('different seeds give different sequences', async () => {
+    expect(await drawWithSeed(1, 'urban', 20)).not.toEqual(await drawWithSeed(2, 'urban', 20));
+  });
+
+  it('runSimulation is reproducible with a seed', () => {
+    const a = runSimulation(200, 'sim-seed');
+    const b = runSimulation(200, 'sim-seed');
+    expect(b.sampleLog).toEqual(a.sampleLog);
+    expect(b.difficultyDist).toEqual(a.difficultyDist);
+    expect(a.consecutiveSameProvince).toBe(0);
+  });
+});
+
+// ==================== DYNAMIC PATH ====================
+
+describe('dynamic generators use the shared source', () => {
+  it('sampleFromSeed replays with the same seed', () => {
+    const seed = Array.from(getUrbanSeedMap().values())[0].seeds[0];
+    setRandomSource(createSeededRandom('urban-seed'));
+    const first = Array.from({ length: 5 }, () => sampleFromSeed(seed));
+    setRandomSource(createSeededRandom('urban-seed'));
+    expect(Array.from({ length: 5 }, () => sampleFromSeed(seed))).toEqual(first);
+  });
+
+  it('two generators with the same seed mint the same coordinates and heading', async () => {
+    const mint = async () => {
+      // Fresh graph: persistent history is empty in both, so "same history" holds
+      const { random, generator } = await loadIsolatedEngine();
+      generator.setMockPanoResolver((lat, lng) => ({ panoId: `pano_${lat.toFixed(5)}_${lng.toFixed(5)}`, lat, lng }));
+      random.setRandomSource(random.createSeededRandom(99));
+      const pkg = generator.mintDynamicPackageSync('İstanbul', null).package;
+      random.setRandomSource(null);
+      generator.setMockPanoResolver(null);
+      return pkg;
+    };
+
+    const first = await mint();
+    const second = await mint();
+    expect(first).not.toBeNull();
+    expect(second?.pano0).toEqual(first?.pano0);
+    expect(second?.locationName).toBe(first?.locationName);
+  });
+});
+
+// ==================== ROOM SEED ====================
+
+describe('Room.seed', () => {
+  const T0 = 1_700_000_000_000;
+
+  it('RESTART swaps in a new seed, or keeps the current one', () => {
+    const room: Room = { ...createSoloRun('Ayşe', 'urban', T0, { seed: 11 }).room, status: 'gameOver' };
+    const reseeded = transitionRoom(room, { type: 'RESTART', actorId: room.hostId, now: T0 + 1, seed: 22 });
+    expect(reseeded.ok && reseeded.room.seed).toBe(22);
+    const kept = transitionRoom(room, { type: 'RESTART', actorId: room.hostId, now: T0 + 1 });
+    expect(kept.ok && kept.room.seed).toBe(11);
+  });
+});
@@ -1,27 +1,31 @@
 import '@testing-library/jest-dom';
 import { vi } from 'vitest';
+import { installPacksFromDisk } from '../services/panoPackFiles';
 
-// Mock window.matchMedia
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: vi.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: vi.fn(),
-    removeListener: vi.fn(),
-    addEventListener: vi.fn(),
-    removeEventListener: vi.fn(),
-    dispatchEvent: vi.fn(),
-  })),
-});
+// DOM mocks — skipped for `@vitest-environment node` specs
+if (typeof window !== 'undefined') {
+  // Mock window.matchMedia
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: vi.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
 
-// Mock navigator
-Object.defineProperty(navigator, 'clipboard', {
-  value: {
-    writeText: vi.fn(),
-  },
-});
+  // Mock navigator
+  Object.defineProperty(navigator, 'clipboard', {
+    value: {
+      writeText: vi.fn(),
+    },
+  });
+}
 
 // Mock Google Maps
 (global as any).google = {
@@ -54,5 +58,9 @@ vi.mock('@/config/firebase', () => ({
   onDisconnect: vi.fn(() => ({ remove: vi.fn(), cancel: vi.fn() })),
   runTransaction: vi.fn(() => Promise.resolve({ committed: true, snapshot: { val: () => 1 } })),
   serverTimestamp: vi.fn(() => ({ '.sv': 'timestamp' })),
+  increment: vi.fn((delta: number) => ({ '.sv': { increment: delta } })),
   push: vi.fn(),
 }));
+
+// Pano packs — installed from data/packs like the API routes do (no fetch in tests)
+installPacksFromDisk();
@@ -0,0 +1,190 @@
+// @vitest-environment node
+/**
+ * Solo Game — Tests
+ *
+ * Tests cover:
+ * - Full local run: START_GAME → guess → scored roundEnd → NEXT_ROUND → gameOver
+ * - The run only holds the dealt pano; the revealed answer comes in at round end
+ * - Guess checks (status, already guessed, time) run before the answer is revealed
+ * - Time up / late guesses: 0 points, time_expired after the 2s grace
+ * - Retry (restart) and resume (fresh clock for an interrupted round)
+ * - localStorage persistence: unfinished run, finished-run history cap
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getLoadedPackages } from '@/services/panoPacks';
+import { publicPano, roundAnswer, roundFromPanoPackage } from '@/services/roomStateMachine';
+import {
+  SoloRun,
+  SoloStep,
+  SoloStorage,
+  SOLO_PLAYER_ID,
+  SOLO_STORAGE_KEYS,
+  MAX_SOLO_RESULTS,
+  createSoloRun,
+  soloGuessRejection,
+  startSoloRound,
+  submitSoloGuess,
+  endSoloRound,
+  restartSoloRun,
+  resumeSoloRun,
+  summarizeSoloRun,
+  loadSoloRun,
+  saveSoloRun,
+  clearSoloRun,
+  loadSoloResults,
+  saveSoloResult,
+} from '@/services/soloGame';
+import { T0 } from './fixtures';
+
+// ==================== FIXTURES ====================
+
+const URBAN_PACKAGES = getLoadedPackages('urban');
+
+function memoryStorage(): SoloStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: (key) => { data.delete(key); },
+  };
+}
+
+function expectOk(step: SoloStep): SoloRun {
+  if (!step.ok) throw new Error(step.reason);
+  return step.run;
+}
+
+/** What the solo round authority hands the browser for package i */
+function round(i: number) {
+  return { pano: publicPano(roundFromPanoPackage(URBAN_PACKAGES[i])), mapNotice: null };
+}
+
+/** What it reveals for package i once round `roundId` is over */
+function revealed(i: number, roundId: number = 1) {
+  return roundAnswer(roundFromPanoPackage(URBAN_PACKAGES[i]), roundId);
+}
+
+function answerOf(i: number) {
+  return { lat: URBAN_PACKAGES[i].pano0.lat, lng: URBAN_PACKAGES[i].pano0.lng };
+}
+
+// ==================== LIFECYCLE ====================
+
+describe('solo run lifecycle', () => {
+  it('plays a whole run locally and ends in gameOver', () => {
+    let run = createSoloRun('Ayşe', 'urban', T0);
+    expect(run.room.players[SOLO_PLAYER_ID].isHost).toBe(true);
+    const total = run.room.totalRounds;
+
+    for (let i = 0; i < total; i++) {
+      run = expectOk(startSoloRound(run, round(i), T0 + i * 60_000));
+      expect(run.room.status).toBe('playing');
+      expect(run.room.currentRound).toBe(i + 1);
+      run = expectOk(submitSoloGuess(run, answerOf(i), T0 + i * 60_000 + 5_000, revealed(i, i + 1)));
+      expect(run.room.status).toBe('roundEnd');
+      expect(run.room.roundResults?.[0].score).toBeGreaterThan(4000);
+    }
+
+    const over = startSoloRound(run, null, T0 + total * 60_000);
+    expect(over.ok && over.gameOver).toBe(true);
+    run = expectOk(over);
+    expect(run.room.status).toBe('gameOver');
+    expect(run.rounds).toHaveLength(total);
+    expect(run.room.players[SOLO_PLAYER_ID].totalScore).toBe(run.rounds.reduce((sum, r) => sum + r.score, 0));
+  });
+
+  it('holds only the dealt pano until the revealed answer ends the round', () => {
+    let run = expectOk(startSoloRound(createSoloRun('Ayşe', 'urban', T0), round(0), T0));
+    expect(run.room.currentLocation).toBeNull();
+    expect(run.room.currentLocationName).toBeNull();
+    expect(run.room.currentPano?.panoId).toBe(URBAN_PACKAGES[0].pano0.panoId);
+    expect(JSON.stringify(run)).not.toContain(URBAN_PACKAGES[0].locationName);
+    expect(startSoloRound(createSoloRun('Ayşe', 'urban', T0), null, T0)).toEqual({ ok: false, reason: 'no round dealt' });
+
+    expect(submitSoloGuess(run, answerOf(0), T0 + 1_000, revealed(1)).ok).toBe(false);
+    run = expectOk(submitSoloGuess(run, { lat: 39.9, lng: 32.85 }, T0 + 1_000, revealed(0)));
+    expect(run.room.currentLocationName).toBe(URBAN_PACKAGES[0].locationName);
+  });
+
+  it('time up scores 0 and late guesses are rejected after the grace period', () => {
+    const started = expectOk(startSoloRound(createSoloRun('Ayşe', 'urban', T0), round(0), T0));
+    const limitMs = started.room.timeLimit * 1000;
+
+    expect(soloGuessRejection(started, T0 + limitMs + 2_001)).toBe('time_expired');
+    const late = submitSoloGuess(started, answerOf(0), T0 + limitMs + 2_001, revealed(0));
+    expect(late).toEqual({ ok: false, reason: 'time_expired' });
+    expect(soloGuessRejection(started, T0 + limitMs + 1_000)).toBeNull();
+    expect(submitSoloGuess(started, answerOf(0), T0 + limitMs + 1_000, revealed(0)).ok).toBe(true);
+
+    const timedOut = expectOk(endSoloRound(started, T0 + limitMs, revealed(0)));
+    expect(timedOut.room.roundResults?.[0]).toMatchObject({ score: 0, distance: 9999 });
+    expect(timedOut.rounds[0]).toMatchObject({ round: 1, score: 0 });
+  });
+
+  it('rejects a second guess and guesses outside a playing round', () => {
+    const started = expectOk(startSoloRound(createSoloRun('Ayşe', 'urban', T0), round(0), T0));
+    const guessed = expectOk(submitSoloGuess(started, answerOf(0), T0 + 1_000, revealed(0)));
+    expect(soloGuessRejection(guessed, T0 + 2_000)).toBe('status=roundEnd (expected playing)');
+    expect(submitSoloGuess(guessed, answerOf(0), T0 + 2_000, revealed(0)).ok).toBe(false);
+    expect(submitSoloGuess(createSoloRun('Ayşe', 'urban', T0), answerOf(0), T0, revealed(0)).ok).toBe(false);
+  });
+
+  it('retry resets scores but keeps the mode and player', () => {
+    let run = expectOk(startSoloRound(createSoloRun('Ayşe', 'geo', T0), round(0), T0));
+    run = expectOk(submitSoloGuess(run, answerOf(0), T0 + 1_000, revealed(0)));
+    const retried = restartSoloRun(run, T0 + 10_000);
+    expect(retried.room.status).toBe('waiting');
+    expect(retried.room.gameMode).toBe('geo');
+    expect(retried.room.players[SOLO_PLAYER_ID]).toMatchObject({ name: 'Ayşe', totalScore: 0, roundScores: [] });
+    expect(retried.rounds).toEqual([]);
+    expect(retried.startedAt).toBe(T0 + 10_000);
+  });
+
+  it('resume gives an interrupted round a fresh clock', () => {
+    const started = expectOk(startSoloRound(createSoloRun('Ayşe', 'urban', T0), round(0), T0));
+    const resumed = resumeSoloRun(started, T0 + 3_600_000);
+    expect(resumed.room.roundStartTime).toBe(T0 + 3_600_000);
+    expect(submitSoloGuess(resumed, answerOf(0), T0 + 3_601_000, revealed(0)).ok).toBe(true);
+
+    const ended = expectOk(endSoloRound(started, T0 + 1_000, revealed(0)));
+    expect(resumeSoloRun(ended, T0 + 3_600_000)).toBe(ended);
+  });
+});
+
+// ==================== PERSISTENCE ====================
+
+describe('solo persistence', () => {
+  it('round-trips an unfinished run and clears it', () => {
+    const storage = memoryStorage();
+    const run = expectOk(startSoloRound(createSoloRun('Ayşe', 'urban', T0), round(0), T0));
+    saveSoloRun(run, storage);
+    expect(loadSoloRun(storage)).toEqual(run);
+
+    clearSoloRun(storage);
+    expect(loadSoloRun(storage)).toBeNull();
+  });
+
+  it('ignores corrupt or finished runs', () => {
+    const storage = memoryStorage();
+    storage.setItem(SOLO_STORAGE_KEYS.run, '{not json');
+    expect(loadSoloRun(storage)).toBeNull();
+
+    const run = createSoloRun('Ayşe', 'urban', T0);
+    saveSoloRun({ ...run, room: { ...run.room, status: 'gameOver' } }, storage);
+    expect(loadSoloRun(storage)).toBeNull();
+  });
+
+  it('keeps the newest finished runs first, capped', () => {
+    const storage = memoryStorage();
+    for (let i = 0; i < MAX_SOLO_RESULTS + 5; i++) {
+      const run = { ...createSoloRun('Ayşe', 'urban', T0 + i), startedAt: T0 + i };
+      saveSoloResult(summarizeSoloRun(run, T0 + i + 1), storage);
+    }
+    const results = loadSoloResults(storage);
+    expect(results).toHaveLength(MAX_SOLO_RESULTS);
+    expect(results[0].id).toBe(`solo_${T0 + MAX_SOLO_RESULTS + 4}`);
+    expect(loadSoloResults(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,335 @@
+// @vitest-environment node
+/**
+ * Solo Round Authority — Tests
+ *
+ * Tests cover:
+ * - Deal keeps the answer server-side, reveal only for the dealt run + round
+ * - Same run + round is dealt once; a new run starts with an empty history
+ * - Earlier packages of the run prime the draw's anti-repeat history
+ * - The draw seed is keyed with the server secret
+ * - Expired pano: one fresh pano near the open round's answer per deal, only for that run + round
+ * - Günün Turu rounds come from the day's pinned packages, today or yesterday only
+ * - One daily run per player and day; guesses scored once on reveal, 0 past the time limit,
+ *   the last round writes the leaderboard entry
+ * - Request parsing rejects malformed run ids, rounds, modes and daily keys
+ * - Remote proxy sends the caller's ID token
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GAME_MODE_CONFIG, PanoPackage } from '@/types';
+import {
+  SoloDeal,
+  SoloDraw,
+  SoloRoundStorage,
+  createRemoteSoloRoundAuthority,
+  createSoloRoundAuthority,
+  parseSoloDealRequest,
+  parseSoloRefreshRequest,
+  parseSoloRevealRequest,
+  scoreSoloGuess,
+} from '@/services/soloRoundAuthority';
+import { DAILY_ROUNDS, DailyEntry, DailyRun, DailyRunStorage } from '@/services/dailyChallenge';
+import { getLoadedPackages } from '@/services/panoPacks';
+import { PanoResolver } from '@/services/panoResolver';
+import { createSeededRandom, keyedSeed } from '@/utils/random';
+
+// ==================== FIXTURES ====================
+
+const T0 = Date.UTC(2026, 9, 19, 12); // 2026-10-19 (Pazartesi) 15:00 İstanbul
+const TODAY = '2026-10-19';
+const [FIRST, SECOND, THIRD] = getLoadedPackages('urban');
+
+const request = (overrides: Record<string, unknown> = {}) => ({
+  runId: 'run1',
+  roundId: 1,
+  mode: 'urban' as const,
+  mapFilter: null,
+  daily: null,
+  ...overrides,
+});
+
+/** soloRounds/{uid} in a Map */
+function fakeStorage() {
+  const deals = new Map<string, SoloDeal>();
+  const storage: SoloRoundStorage = {
+    getSoloDeal: async (uid) => deals.get(uid) || null,
+    setSoloDeal: async (uid, deal) => {
+      deals.set(uid, deal);
+    },
+  };
+  return { storage, deals };
+}
+
+/** dailyRuns/{date}/{uid} + dailyLeaderboard/{date}/{uid} in Maps */
+function fakeDaily() {
+  const runs = new Map<string, DailyRun>();
+  const entries = new Map<string, DailyEntry>();
+  const dailyRuns: DailyRunStorage = {
+    getRun: async (dateKey, uid) => runs.get(`${dateKey}/${uid}`) || null,
+    claimRun: async (dateKey, uid, run) => {
+      if (!runs.has(`${dateKey}/${uid}`)) runs.set(`${dateKey}/${uid}`, run);
+      return runs.get(`${dateKey}/${uid}`)!;
+    },
+    setRun: async (dateKey, uid, run) => {
+      runs.set(`${dateKey}/${uid}`, run);
+    },
+  };
+  const dailyLeaderboard = {
+    submitEntry: vi.fn(async (dateKey: string, uid: string, entry: DailyEntry) => {
+      if (entries.has(`${dateKey}/${uid}`)) return false;
+      entries.set(`${dateKey}/${uid}`, entry);
+      return true;
+    }),
+  };
+  return { dailyRuns, dailyLeaderboard, runs, entries };
+}
+
+const at = (pkg: PanoPackage) => ({ lat: pkg.pano0.lat, lng: pkg.pano0.lng });
+
+/** Draw that hands out `packages` in order and records the history it was given */
+function scriptedDraw(packages: PanoPackage[]) {
+  const histories: string[][] = [];
+  let next = 0;
+  const draw: SoloDraw = async (_request, _source, history) => {
+    histories.push(history);
+    const panoPackage = packages[next++];
+    return panoPackage ? { panoPackage, mapNotice: null } : null;
+  };
+  return { draw: vi.fn(draw), histories };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// ==================== AUTHORITY ====================
+
+describe('createSoloRoundAuthority', () => {
+  it('deals only the public pano and reveals the answer for that run + round', async () => {
+    const { storage, deals } = fakeStorage();
+    const authority = createSoloRoundAuthority(storage, { draw: scriptedDraw([FIRST]).draw, now: () => T0 });
+
+    const outcome = await authority.dealSoloRound('u1', request());
+    expect(outcome).toEqual({
+      dealt: true,
+      reason: 'dealt',
+      round: { pano: { panoId: FIRST.pano0.panoId, heading: FIRST.pano0.heading }, mapNotice: null },
+    });
+    expect(JSON.stringify(outcome)).not.toContain(FIRST.locationName);
+    expect(deals.get('u1')).toMatchObject({ runId: 'run1', roundId: 1, history: [], daily: null, dealtAt: T0 });
+
+    const reveal = (runId: string, roundId: number) => ({ runId, roundId, guess: null });
+    expect(await authority.revealSoloRound('u2', reveal('run1', 1))).toEqual({ revealed: false, reason: 'not dealt' });
+    expect(await authority.revealSoloRound('u1', reveal('run1', 2))).toEqual({ revealed: false, reason: 'not dealt' });
+    expect(await authority.revealSoloRound('u1', reveal('other', 1))).toEqual({ revealed: false, reason: 'not dealt' });
+    expect(await authority.revealSoloRound('u1', reveal('run1', 1))).toMatchObject({
+      revealed: true,
+      answer: { roundId: 1, panoPackageId: FIRST.id, location: { lat: FIRST.pano0.lat, lng: FIRST.pano0.lng } },
+    });
+  });
+
+  it('repeats the open deal, primes the history and resets it for a new run', async () => {
+    const { storage } = fakeStorage();
+    const { draw, histories } = scriptedDraw([FIRST, SECOND, THIRD]);
+    const authority = createSoloRoundAuthority(storage, { draw, now: () => T0 });
+
+    const first = await authority.dealSoloRound('u1', request());
+    expect(await authority.dealSoloRound('u1', request())).toEqual({ ...first, reason: 'already dealt' });
+    expect(draw).toHaveBeenCalledTimes(1);
+
+    expect((await authority.dealSoloRound('u1', request({ roundId: 2 }))).round?.pano.panoId).toBe(SECOND.pano0.panoId);
+    expect((await authority.dealSoloRound('u1', request({ runId: 'run2' }))).round?.pano.panoId).toBe(THIRD.pano0.panoId);
+    expect(histories).toEqual([[], [FIRST.id], []]);
+  });
+
+  it('reports an empty pool instead of dealing', async () => {
+    const { storage, deals } = fakeStorage();
+    const authority = createSoloRoundAuthority(storage, { draw: scriptedDraw([]).draw, now: () => T0 });
+    expect(await authority.dealSoloRound('u1', request())).toEqual({ dealt: false, reason: 'no package available' });
+    expect(deals.size).toBe(0);
+  });
+
+  it('keys the draw seed with the server secret, not the client\'s run id alone', async () => {
+    const firstValues: number[] = [];
+    const draw: SoloDraw = async (_request, source) => {
+      firstValues.push(source());
+      return { panoPackage: FIRST, mapNotice: null };
+    };
+    for (const drawSecret of ['s3cret', null]) {
+      await createSoloRoundAuthority(fakeStorage().storage, { draw, drawSecret, now: () => T0 }).dealSoloRound('u1', request());
+    }
+
+    expect(firstValues).toEqual([
+      createSeededRandom(await keyedSeed('s3cret', 'u1:run1:1'))(),
+      createSeededRandom('u1:run1:1')(),
+    ]);
+    expect(firstValues[0]).not.toBe(firstValues[1]);
+  });
+
+  it('refreshes an expired pano of the open round once, without its coordinates', async () => {
+    const { storage, deals } = fakeStorage();
+    const resolver = vi.fn<PanoResolver>(async ({ lat, lng }) => ({ panoId: 'fresh-pano', lat, lng: lng + 0.001 }));
+    const authority = createSoloRoundAuthority(storage, { draw: scriptedDraw([FIRST]).draw, resolver, now: () => T0 });
+    await authority.dealSoloRound('u1', request());
+
+    expect(await authority.refreshSoloPano('u1', { runId: 'run1', roundId: 2 })).toEqual({ refreshed: false, reason: 'not dealt' });
+    const outcome = await authority.refreshSoloPano('u1', { runId: 'run1', roundId: 1 });
+    expect(outcome).toEqual({ refreshed: true, reason: 'refreshed', pano: { panoId: 'fresh-pano', heading: FIRST.pano0.heading } });
+    expect(resolver).toHaveBeenCalledWith({ ...at(FIRST), radius: 1000, kind: 'resolvePano' });
+    expect(await authority.refreshSoloPano('u1', { runId: 'run1', roundId: 1 })).toEqual({ ...outcome, reason: 'already refreshed' });
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(deals.get('u1')?.answer).toMatchObject({ panoPackageId: FIRST.id, refreshedPano: outcome.pano });
+
+    const { storage: other } = fakeStorage();
+    const unresolved = createSoloRoundAuthority(other, { draw: scriptedDraw([FIRST]).draw });
+    await unresolved.dealSoloRound('u1', request());
+    expect(await unresolved.refreshSoloPano('u1', { runId: 'run1', roundId: 1 })).toEqual({ refreshed: false, reason: 'refresh unavailable' });
+  });
+
+  it('deals Günün Turu from the pinned packages of today or yesterday', async () => {
+    const { storage } = fakeStorage();
+    const { dailyRuns } = fakeDaily();
+    const dailyPackages = vi.fn(async () => [FIRST, SECOND]);
+    const { draw } = scriptedDraw([THIRD]);
+    const authority = createSoloRoundAuthority(storage, { draw, dailyPackages, dailyRuns, now: () => T0 });
+
+    await authority.dealSoloRound('u1', request({ daily: TODAY }));
+    expect((await authority.dealSoloRound('u1', request({ roundId: 2, daily: TODAY }))).round?.pano.panoId).toBe(SECOND.pano0.panoId);
+    expect((await authority.dealSoloRound('u2', request({ daily: '2026-10-18' }))).round?.pano.panoId).toBe(FIRST.pano0.panoId);
+    expect(dailyPackages).toHaveBeenCalledWith('2026-10-18');
+    expect(draw).not.toHaveBeenCalled();
+
+    expect(await authority.dealSoloRound('u3', request({ daily: '2026-10-17' }))).toEqual({ dealt: false, reason: 'not today\'s tur' });
+    expect(await authority.dealSoloRound('u3', request({ roundId: DAILY_ROUNDS + 1, daily: TODAY }))).toEqual({
+      dealt: false,
+      reason: `round=${DAILY_ROUNDS + 1} (tur has ${DAILY_ROUNDS})`,
+    });
+    expect(await authority.dealSoloRound('u1', request({ roundId: 3, daily: TODAY }))).toEqual({ dealt: false, reason: 'no package available' });
+  });
+
+  it('refuses Günün Turu without the daily packages or runs', async () => {
+    const authority = createSoloRoundAuthority(fakeStorage().storage, { now: () => T0 });
+    expect(await authority.dealSoloRound('u1', request({ daily: TODAY }))).toEqual({ dealt: false, reason: 'daily unavailable' });
+  });
+
+  it('gives a player one daily run per day', async () => {
+    const { dailyRuns, runs } = fakeDaily();
+    const authority = createSoloRoundAuthority(fakeStorage().storage, { dailyPackages: async () => [FIRST, SECOND], dailyRuns, now: () => T0 });
+
+    expect(await authority.dealSoloRound('u1', request({ roundId: 2, daily: TODAY }))).toEqual({ dealt: false, reason: 'daily not started' });
+    expect((await authority.dealSoloRound('u1', request({ daily: TODAY, playerName: ' Ayşe ' }))).dealt).toBe(true);
+    expect(runs.get(`${TODAY}/u1`)).toEqual({ runId: 'run1', name: 'Ayşe', mode: 'urban', rounds: [], startedAt: T0 });
+
+    expect(await authority.dealSoloRound('u1', request({ runId: 'retry', daily: TODAY }))).toEqual({ dealt: false, reason: 'daily already played' });
+    expect(await authority.dealSoloRound('u1', request({ runId: 'retry', roundId: 2, daily: TODAY }))).toEqual({
+      dealt: false,
+      reason: 'daily already played',
+    });
+  });
+
+  it('scores daily guesses once on reveal and writes the leaderboard after the last round', async () => {
+    const { storage } = fakeStorage();
+    const { dailyRuns, dailyLeaderboard, runs, entries } = fakeDaily();
+    const packages = getLoadedPackages('urban').slice(0, DAILY_ROUNDS);
+    let clock = T0;
+    const authority = createSoloRoundAuthority(storage, { dailyPackages: async () => packages, dailyRuns, dailyLeaderboard, now: () => clock });
+    const limitMs = GAME_MODE_CONFIG.urban.timeLimit * 1000;
+
+    for (let roundId = 1; roundId <= DAILY_ROUNDS; roundId++) {
+      clock += 60_000;
+      await authority.dealSoloRound('u1', request({ roundId, daily: TODAY, playerName: 'Ayşe' }));
+      // 3. tur: tahmin yok; 4. tur: süre çoktan bitti
+      if (roundId === 4) clock += limitMs + 10_000;
+      const guess = roundId === 3 ? null : at(packages[roundId - 1]);
+      await authority.revealSoloRound('u1', { runId: 'run1', roundId, guess });
+      if (roundId === 1) {
+        // Cevap açıldıktan sonra gelen ikinci tahmin puanı değiştirmez
+        await authority.revealSoloRound('u1', { runId: 'run1', roundId, guess: at(packages[1]) });
+      }
+    }
+
+    expect(runs.get(`${TODAY}/u1`)?.rounds).toEqual([5000, 5000, 0, 0, 5000]);
+    expect(dailyLeaderboard.submitEntry).toHaveBeenCalledTimes(1);
+    expect(entries.get(`${TODAY}/u1`)).toEqual({ name: 'Ayşe', score: 15000, rounds: [5000, 5000, 0, 0, 5000], mode: 'urban', finishedAt: clock });
+  });
+});
+
+describe('scoreSoloGuess', () => {
+  it('scores like a room round, nothing without a guess', () => {
+    const answer = { roundId: 1, panoPackageId: FIRST.id, panoPackage: FIRST, location: at(FIRST), locationName: FIRST.locationName };
+    expect(scoreSoloGuess(answer, at(FIRST), 'urban')).toBe(5000);
+    expect(scoreSoloGuess(answer, { lat: at(FIRST).lat + 1, lng: at(FIRST).lng }, 'urban')).toBeLessThan(5000);
+    expect(scoreSoloGuess(answer, null, 'urban')).toBe(0);
+  });
+});
+
+describe('parseSoloDealRequest', () => {
+  it('accepts a well-formed request and normalizes the optional fields', () => {
+    expect(parseSoloDealRequest({ runId: 'run1', roundId: 3, mode: 'geo' })).toEqual({
+      runId: 'run1',
+      roundId: 3,
+      mode: 'geo',
+      mapFilter: null,
+      daily: null,
+    });
+    expect(parseSoloDealRequest(request({ daily: TODAY }))?.daily).toBe(TODAY);
+    expect(parseSoloDealRequest(request({ playerName: 'x'.repeat(30) }))?.playerName).toBe('x'.repeat(20));
+    expect(parseSoloRevealRequest({ runId: 'run1', roundId: 2 })).toEqual({ runId: 'run1', roundId: 2, guess: null });
+    expect(parseSoloRevealRequest({ runId: 'run1', roundId: 2, guess: { lat: 41, lng: 29, extra: 1 } })?.guess).toEqual({ lat: 41, lng: 29 });
+    expect(parseSoloRefreshRequest({ runId: 'run1', roundId: 2, guess: 'ignored' })).toEqual({ runId: 'run1', roundId: 2 });
+  });
+
+  it('rejects malformed run ids, rounds, modes, daily keys and map filters', () => {
+    expect(parseSoloDealRequest(null)).toBeNull();
+    expect(parseSoloDealRequest(request({ runId: '../x' }))).toBeNull();
+    expect(parseSoloDealRequest(request({ roundId: 0 }))).toBeNull();
+    expect(parseSoloDealRequest(request({ roundId: 1.5 }))).toBeNull();
+    expect(parseSoloDealRequest(request({ mode: 'districtZone' }))).toBeNull();
+    expect(parseSoloDealRequest(request({ daily: '18.10.2026' }))).toBeNull();
+    expect(parseSoloDealRequest(request({ mapFilter: { type: 'provinces', provinces: ['Atlantis'] } }))).toBeNull();
+    expect(parseSoloDealRequest(request({ playerName: 42 }))).toBeNull();
+    expect(parseSoloRevealRequest({ runId: 'run1' })).toBeNull();
+    expect(parseSoloRefreshRequest({ runId: 'run 1', roundId: 1 })).toBeNull();
+    expect(parseSoloRevealRequest({ runId: 'run1', roundId: 1, guess: { lat: 91, lng: 29 } })).toBeNull();
+    expect(parseSoloRevealRequest({ runId: 'run1', roundId: 1, guess: { lat: '41', lng: 29 } })).toBeNull();
+  });
+});
+
+// ==================== TRANSPORT ====================
+
+describe('createRemoteSoloRoundAuthority', () => {
+  it('POSTs deal, reveal and refresh with the caller\'s ID token', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(new Response(JSON.stringify({ revealed: false, reason: 'not dealt' }))));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const authority = createRemoteSoloRoundAuthority(() => Promise.resolve('id-token'));
+    await authority.dealSoloRound('u1', request());
+    expect(await authority.revealSoloRound('u1', { runId: 'run1', roundId: 1, guess: { lat: 41, lng: 29 } })).toEqual({
+      revealed: false,
+      reason: 'not dealt',
+    });
+    expect(fetchMock).toHaveBeenNthCalledWith(1, '/api/solo-round', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer id-token' }),
+      body: JSON.stringify({ action: 'deal', ...request() }),
+    }));
+    expect(fetchMock).toHaveBeenNthCalledWith(2, '/api/solo-round', expect.objectContaining({
+      body: JSON.stringify({ action: 'reveal', runId: 'run1', roundId: 1, guess: { lat: 41, lng: 29 } }),
+    }));
+
+    await authority.refreshSoloPano('u1', { runId: 'run1', roundId: 1 });
+    expect(fetchMock).toHaveBeenNthCalledWith(3, '/api/solo-round', expect.objectContaining({
+      body: JSON.stringify({ action: 'refresh', runId: 'run1', roundId: 1 }),
+    }));
+  });
+
+  it('throws on HTTP errors so the run can retry', async () => {
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response('{}', { status: 401 }))));
+    await expect(createRemoteSoloRoundAuthority(() => Promise.resolve('x')).revealSoloRound('u1', { runId: 'run1', roundId: 1, guess: null })).rejects.toThrow('HTTP 401');
+  });
+});
@@ -0,0 +1,238 @@
+// @vitest-environment node
+/**
+ * Telemetry Export — Tests
+ *
+ * Tests cover:
+ * - PII scrubbing: playerName / name keys dropped, player's name masked in strings
+ * - Keys RTDB refuses (`.`, `$`, `/` ...) rewritten
+ * - Gating: analytics + sampling for events, error reporting for errors
+ * - Batching to the file sink (batch size, explicit flush)
+ * - Offline queue: failed / offline batches persisted, restored and re-sent next visit
+ * - A batch the sink keeps rejecting is dropped after MAX_SEND_ATTEMPTS
+ * - pagehide: unload-safe sinks flush, RTDB-like sinks persist instead
+ * - Beacon sink: sendBeacon refusal and HTTP errors reject the batch
+ * - telemetry.ts feeds trackEvent / trackError into the installed exporter
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  TELEMETRY_QUEUE_KEY,
+  TelemetryExporterOptions,
+  TelemetryQueueStorage,
+  TelemetryRecord,
+  TelemetrySink,
+  createBeaconSink,
+  createTelemetryExporter,
+  installExportTriggers,
+  scrubRecord,
+} from '@/utils/telemetryExporter';
+import { createFileSink, readFileSink } from '@/utils/telemetryFileSink';
+import { cleanupTelemetry, initTelemetry, setTelemetryContext, setTelemetryExporter, trackError, trackEvent } from '@/utils/telemetry';
+import { T0 } from './fixtures';
+
+// ==================== FIXTURES ====================
+
+const event = (name: string, data: Record<string, unknown> = {}): TelemetryRecord => ({
+  kind: 'event',
+  event: name,
+  at: T0,
+  sessionId: 'ses_1_abc',
+  data,
+});
+
+function createMemoryStorage(): TelemetryQueueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+let dir: string;
+let file: string;
+
+function exporterFor(sink: TelemetrySink, options: Partial<TelemetryExporterOptions> = {}) {
+  return createTelemetryExporter({ sink, analytics: true, errors: true, sampleRate: 1, batchSize: 3, random: () => 0.5, now: () => T0, ...options });
+}
+
+const failingSink: TelemetrySink = { name: 'down', unloadSafe: false, send: () => Promise.reject(new Error('offline')) };
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'telemetry-'));
+  file = path.join(dir, 'batches.ndjson');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  setTelemetryExporter(null);
+  vi.restoreAllMocks();
+});
+
+// ==================== SCRUBBING ====================
+
+describe('scrubRecord', () => {
+  it('drops name fields and masks the player\'s name', () => {
+    const scrubbed = scrubRecord(
+      { ...event('join', { playerName: 'Ayşe', players: [{ id: 'p2', name: 'Ayşe' }], note: 'Ayşe katıldı', ratio: NaN }), message: undefined },
+      'Ayşe'
+    );
+    expect(scrubbed).toEqual({ kind: 'event', event: 'join', at: T0, sessionId: 'ses_1_abc', data: { players: [{ id: 'p2' }], note: '[oyuncu] katıldı' } });
+    expect(JSON.stringify(scrubbed)).not.toContain('Ayşe');
+  });
+
+  it('rewrites keys RTDB can\'t store', () => {
+    const scrubbed = scrubRecord(event('error', { 'a.b': 1, $ref: { 'x/y': 2, '#[0]': 3 }, '': 4 }), null);
+    expect(scrubbed.data).toEqual({ a_b: 1, _ref: { x_y: 2, __0_: 3 }, _: 4 });
+  });
+});
+
+// ==================== GATING + BATCHING ====================
+
+describe('createTelemetryExporter', () => {
+  it('ENABLE_ANALYTICS gates events, ENABLE_ERROR_REPORTING gates errors', () => {
+    const sink = createFileSink(file);
+    const noAnalytics = exporterFor(sink, { analytics: false });
+    noAnalytics.enqueue(event('join'));
+    noAnalytics.enqueue({ ...event('error'), kind: 'error', message: 'boom' });
+    expect(noAnalytics.pending()).toBe(1);
+
+    const noErrors = exporterFor(sink, { errors: false });
+    noErrors.enqueue({ ...event('error'), kind: 'error', message: 'boom' });
+    expect(noErrors.pending()).toBe(0);
+  });
+
+  it('samples whole sessions, never errors', () => {
+    const unsampled = exporterFor(createFileSink(file), { sampleRate: 0.25, random: () => 0.9 });
+    expect(unsampled.sampled).toBe(false);
+    unsampled.enqueue(event('join'));
+    unsampled.enqueue({ ...event('error'), kind: 'error', message: 'boom' });
+    expect(unsampled.pending()).toBe(1);
+    expect(exporterFor(createFileSink(file), { sampleRate: 0.25, random: () => 0.1 }).sampled).toBe(true);
+  });
+
+  it('ships full batches on its own and the rest on flush', async () => {
+    const exporter = exporterFor(createFileSink(file));
+    ['join', 'roundStart', 'submitGuess', 'roundEnd'].forEach((name) => exporter.enqueue(event(name)));
+    expect(await exporter.flush()).toBe(4); // flush joins the drain the full batch started
+
+    const batches = readFileSink(file);
+    expect(batches.map((batch) => batch.records.map((record) => record.event))).toEqual([['join', 'roundStart', 'submitGuess'], ['roundEnd']]);
+    expect(batches[0].id).toMatch(/^1700000000000_[a-z0-9]+$/);
+    expect(exporter.pending()).toBe(0);
+  });
+});
+
+// ==================== OFFLINE QUEUE ====================
+
+describe('offline queue', () => {
+  it('persists undelivered records and re-sends them on the next visit', async () => {
+    const storage = createMemoryStorage();
+    const down = exporterFor(failingSink, { storage });
+    down.enqueue(event('join'));
+    down.enqueue(event('roundStart'));
+    expect(await down.flush()).toBe(0);
+    expect(JSON.parse(storage.items.get(TELEMETRY_QUEUE_KEY)!)).toHaveLength(2);
+
+    const nextVisit = exporterFor(createFileSink(file), { storage });
+    expect(nextVisit.pending()).toBe(2);
+    expect(await nextVisit.flush()).toBe(2);
+    expect(readFileSink(file)[0].records.map((record) => record.event)).toEqual(['join', 'roundStart']);
+    expect(storage.items.has(TELEMETRY_QUEUE_KEY)).toBe(false);
+  });
+
+  it('drops a batch the sink rejects MAX_SEND_ATTEMPTS times in a row', async () => {
+    const storage = createMemoryStorage();
+    const picky: TelemetrySink = {
+      name: 'picky',
+      unloadSafe: false,
+      send: (batch) => (batch.records.some((record) => record.event === 'poison') ? Promise.reject(new Error('HTTP 400')) : Promise.resolve()),
+    };
+    const exporter = exporterFor(picky, { storage, maxAttempts: 3 });
+    exporter.enqueue(event('poison'));
+    expect(await exporter.flush()).toBe(0);
+    expect(await exporter.flush()).toBe(0);
+    expect(exporter.pending()).toBe(1);
+
+    expect(await exporter.flush()).toBe(0);
+    expect(exporter.pending()).toBe(0);
+    exporter.enqueue(event('join'));
+    expect(await exporter.flush()).toBe(1);
+  });
+
+  it('queues without sending while offline', async () => {
+    const storage = createMemoryStorage();
+    const exporter = exporterFor(createFileSink(file), { storage, isOnline: () => false });
+    exporter.enqueue(event('join'));
+    expect(await exporter.flush()).toBe(0);
+    expect(readFileSink(file)).toEqual([]);
+    expect(storage.items.has(TELEMETRY_QUEUE_KEY)).toBe(true);
+  });
+
+  it('pagehide flushes unload-safe sinks and persists the others', async () => {
+    const target = new EventTarget() as unknown as Window;
+    const storage = createMemoryStorage();
+    const rtdbLike: TelemetrySink = { name: 'rtdb', unloadSafe: false, send: vi.fn(() => Promise.resolve()) };
+    const rtdbExporter = exporterFor(rtdbLike, { storage });
+    const beaconExporter = exporterFor(createFileSink(file));
+    const uninstall = [installExportTriggers(rtdbExporter, target, 60_000), installExportTriggers(beaconExporter, target, 60_000)];
+
+    rtdbExporter.enqueue(event('leave'));
+    beaconExporter.enqueue(event('leave'));
+    target.dispatchEvent(new Event('pagehide'));
+    await beaconExporter.flush();
+    uninstall.forEach((remove) => remove());
+
+    expect(rtdbLike.send).not.toHaveBeenCalled();
+    expect(JSON.parse(storage.items.get(TELEMETRY_QUEUE_KEY)!)).toHaveLength(1);
+    expect(readFileSink(file)).toHaveLength(1);
+  });
+});
+
+// ==================== BEACON SINK ====================
+
+describe('createBeaconSink', () => {
+  const batch = { id: '1_a', at: T0, records: [event('join')] };
+
+  it('uses sendBeacon and rejects when the browser refuses', async () => {
+    const sendBeacon = vi.fn().mockReturnValueOnce(true).mockReturnValueOnce(false);
+    const sink = createBeaconSink('https://collector.example/t', { sendBeacon });
+    await expect(sink.send(batch)).resolves.toBeUndefined();
+    await expect(sink.send(batch)).rejects.toThrow('sendBeacon refused');
+    expect(sendBeacon).toHaveBeenCalledWith('https://collector.example/t', expect.any(Blob));
+  });
+
+  it('falls back to fetch and rejects HTTP errors', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response(null, { status: 503 }));
+    await expect(createBeaconSink('https://collector.example/t', null, fetchImpl).send(batch)).rejects.toThrow('HTTP 503');
+    expect(JSON.parse(fetchImpl.mock.calls[0][1].body)).toEqual(batch);
+  });
+});
+
+// ==================== TELEMETRY INTEGRATION ====================
+
+describe('telemetry.ts → exporter', () => {
+  it('exports tracked events and errors without the player\'s name', async () => {
+    const exporter = exporterFor(createFileSink(file), { batchSize: 10 });
+    cleanupTelemetry();
+    initTelemetry();
+    setTelemetryExporter(exporter);
+    setTelemetryContext({ roomId: 'ABC123', playerId: 'p2', playerName: 'Ayşe' });
+    trackEvent('roundEnd', { roundId: 2, latencyMs: 420 });
+    trackError(new Error('Ayşe için tahmin gönderilemedi'), 'submitGuess');
+    await exporter.flush();
+
+    const [{ records }] = readFileSink(file);
+    expect(records[0]).toMatchObject({ kind: 'event', event: 'roundEnd', roomId: 'ABC123', roundId: 2, playerId: 'p2', data: { latencyMs: 420 } });
+    expect(records[1]).toMatchObject({ kind: 'error', event: 'error', message: '[oyuncu] için tahmin gönderilemedi', context: 'submitGuess' });
+    expect(JSON.stringify(records)).not.toContain('Ayşe');
+    cleanupTelemetry();
+  });
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { runAccuracyAggregation } from "@/services/accuracyStats";
+import { createAdminAccuracyStorage } from "@/services/adminAccuracyStorage";
+import { formatDriftReport, runDifficultyCalibration } from "@/services/difficultyCalibration";
+import { getEnrichedPackages } from "@/services/locationEngine";
+import { installPacksFromDisk } from "@/services/panoPackFiles";
+
+/**
+ * POST /api/aggregate-accuracy  (Authorization: Bearer ACCURACY_JOB_SECRET)
+ * İsabet toplama işi — bekleyen tur örneklerini il / paket / bölge
+ * istatistiklerine katlar ve accuracy/stats'ı yayınlar; ardından paket
+ * zorluklarını gerçek puanlara göre kalibre eder (accuracy/calibration) ve
+ * sapma raporunu döner. Cron ile çağrılır.
+ */
+export async function POST(request: Request) {
+  const jobSecret = process.env.ACCURACY_JOB_SECRET;
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!jobSecret || !databaseURL || !secret) {
+    return NextResponse.json({ error: "accuracy job not configured" }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${jobSecret}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  try {
+    installPacksFromDisk();
+    const storage = createAdminAccuracyStorage({ databaseURL, secret });
+    const folded = await runAccuracyAggregation(storage, Date.now());
+    console.log(`[Accuracy] folded ${folded} samples`);
+
+    const packages = [...getEnrichedPackages("urban"), ...getEnrichedPackages("geo")];
+    const drift = await runDifficultyCalibration(storage, packages, Date.now());
+    if (drift) console.log(formatDriftReport(drift));
+    return NextResponse.json({ folded, drift });
+  } catch (err) {
+    console.error("[Accuracy] aggregation failed:", err);
+    return NextResponse.json({ error: "aggregation failed" }, { status: 502 });
+  }
+}
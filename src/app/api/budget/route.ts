@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { parseBudgetRequest, settleBudgetRequest } from "@/services/apiBudget";
+import { createAdminBudgetStorage } from "@/services/adminBudgetStorage";
+import { createAdminRoomStorage } from "@/services/adminRoomStorage";
+import { verifyCaller } from "@/services/callerAuth";
+
+/**
+ * POST /api/budget { mode, kind, calls, roomId? }
+ *   (Authorization: Bearer <Firebase ID token>)
+ * Street View bütçe defterini sadece sunucu yazar: reserve dinamik üretimden
+ * önce çağrı ayırır (günlük / oda tavanında reddedilir), record yapılmış pano
+ * yüklemelerini yazar. Kapsam oyuncunun oynadığı oda, yoksa solo_{uid}.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+
+  const budgetRequest = parseBudgetRequest(body);
+  if (!budgetRequest) {
+    return NextResponse.json({ error: "invalid budget request" }, { status: 400 });
+  }
+
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!databaseURL || !secret || !apiKey) {
+    return NextResponse.json({ error: "budget ledger not configured" }, { status: 503 });
+  }
+
+  try {
+    const caller = await verifyCaller(request, { apiKey });
+    if (!caller) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    const storage = createAdminBudgetStorage({ databaseURL, secret });
+    const rooms = createAdminRoomStorage({ databaseURL, secret });
+    return NextResponse.json(await settleBudgetRequest(storage, rooms, caller.uid, budgetRequest, Date.now()));
+  } catch (err) {
+    console.error("[Budget] ledger request failed:", err);
+    return NextResponse.json({ error: "ledger request failed" }, { status: 502 });
+  }
+}
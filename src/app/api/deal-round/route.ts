@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { createRoundAuthority, createRoundDraw } from "@/services/roundAuthority";
+import { createAdminRoomStorage } from "@/services/adminRoomStorage";
+import { createAdminAccuracyStorage } from "@/services/adminAccuracyStorage";
+import { createAdminReportStorage } from "@/services/adminReportStorage";
+import { createAdminBudgetStorage } from "@/services/adminBudgetStorage";
+import { createLedgerPanoResolver } from "@/services/panoResolver";
+import { installPacksFromDisk } from "@/services/panoPackFiles";
+import { verifyCaller } from "@/services/callerAuth";
+
+/**
+ * POST /api/deal-round  (Authorization: Bearer <Firebase ID token>)
+ *   { roomId }                    → { dealt, reason, round? }
+ *   { roomId, action: "refresh" } → { refreshed, reason, pano? }
+ * Sunucu tarafı tur otoritesi — odanın sıradaki turunu seçer, cevabı
+ * roundAnswers'a (istemciye kapalı) yazar ve host'a sadece panoyu döner.
+ * Sadece odanın host'u (token'daki uid) tur alabilir. Çekiliş seed'i veritabanı
+ * sırrıyla anahtarlanır (Room.seed tek başına cevabı ele verirdi). Kalibrasyon
+ * ve karantina yüklenemezse seçim onlarsız yapılır. GOOGLE_MAPS_SERVER_KEY
+ * varsa dinamik Street View üretimi önce denenir (her arama odanın bütçesinden).
+ * "refresh": süresi dolan pano yerine cevabın yakınındaki panoyu çözer — odadaki
+ * her oyuncu isteyebilir, turda bir kez aranır, koordinat dönmez.
+ */
+export async function POST(request: Request) {
+  let body: { roomId?: unknown; action?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+
+  const { roomId, action } = body;
+  if (typeof roomId !== "string" || !/^[A-Z0-9]{6}$/.test(roomId)) {
+    return NextResponse.json({ error: "invalid roomId" }, { status: 400 });
+  }
+  if (action !== undefined && action !== "refresh") {
+    return NextResponse.json({ error: "invalid action" }, { status: 400 });
+  }
+
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!databaseURL || !secret || !apiKey) {
+    return NextResponse.json({ error: "round authority not configured" }, { status: 503 });
+  }
+
+  try {
+    const caller = await verifyCaller(request, { apiKey });
+    if (!caller) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    const rooms = createAdminRoomStorage({ databaseURL, secret });
+    const resolver = createLedgerPanoResolver(process.env.GOOGLE_MAPS_SERVER_KEY, createAdminBudgetStorage({ databaseURL, secret }), roomId);
+    if (action === "refresh") {
+      return NextResponse.json(await createRoundAuthority(rooms, { resolver }).refreshPano(roomId, caller.uid));
+    }
+
+    installPacksFromDisk();
+    const [calibration, quarantine] = await Promise.all([
+      createAdminAccuracyStorage({ databaseURL, secret }).getCalibration().catch((err) => {
+        console.warn("[Rounds] calibration unavailable:", err);
+        return null;
+      }),
+      createAdminReportStorage({ databaseURL, secret }).getQuarantine().catch((err) => {
+        console.warn("[Rounds] quarantine unavailable:", err);
+        return null;
+      }),
+    ]);
+    const authority = createRoundAuthority(rooms, {
+      draw: createRoundDraw({ calibration, quarantine, resolver }),
+      drawSecret: secret,
+    });
+    return NextResponse.json(await authority.dealRound(roomId, caller.uid));
+  } catch (err) {
+    console.error("[Rounds] deal-round failed:", err);
+    return NextResponse.json({ error: "deal failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import {
+  SubmissionStatus,
+  approveSubmission,
+  listQueue,
+  rejectSubmission,
+} from "@/services/locationSubmissions";
+import { createAdminSubmissionStorage } from "@/services/adminSubmissionStorage";
+import { getLoadedPackages } from "@/services/panoPacks";
+import { installPacksFromDisk } from "@/services/panoPackFiles";
+
+const STATUSES: SubmissionStatus[] = ["pending", "approved", "rejected", "merged"];
+
+/** Bearer MODERATION_SECRET + admin storage; a Response when not allowed */
+function moderationStorage(request: Request) {
+  const moderationSecret = process.env.MODERATION_SECRET;
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!moderationSecret || !databaseURL || !secret) {
+    return NextResponse.json({ error: "moderation not configured" }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${moderationSecret}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  return createAdminSubmissionStorage({ databaseURL, secret });
+}
+
+/**
+ * GET /api/moderation?status=pending  (Authorization: Bearer MODERATION_SECRET)
+ * Topluluk konum önerileri kuyruğu — en eski önce.
+ */
+export async function GET(request: Request) {
+  const storage = moderationStorage(request);
+  if (storage instanceof Response) return storage;
+
+  const status = (new URL(request.url).searchParams.get("status") || "pending") as SubmissionStatus;
+  if (!STATUSES.includes(status)) {
+    return NextResponse.json({ error: "invalid status" }, { status: 400 });
+  }
+  try {
+    return NextResponse.json({ queue: listQueue(await storage.getAllSubmissions(), status) });
+  } catch (err) {
+    console.error("[Moderation] queue failed:", err);
+    return NextResponse.json({ error: "queue failed" }, { status: 502 });
+  }
+}
+
+/**
+ * POST /api/moderation { uid, id, action: "approve" | "reject", note?, overrides? }
+ * Onay öneriyi PanoPackage'a çevirir ve yüklü paketler + önceki onaylarla
+ * birlikte denetler (lint hatası engeller); paketlere ekleme
+ * `npm run packages pull-approved` ile yapılır.
+ */
+export async function POST(request: Request) {
+  const storage = moderationStorage(request);
+  if (storage instanceof Response) return storage;
+
+  let body: { uid?: unknown; id?: unknown; action?: unknown; note?: unknown; overrides?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+
+  const { uid, id, action } = body;
+  if (typeof uid !== "string" || !uid || typeof id !== "string" || !/^[0-9]{13}$/.test(id)) {
+    return NextResponse.json({ error: "invalid submission" }, { status: 400 });
+  }
+  if (action !== "approve" && action !== "reject") {
+    return NextResponse.json({ error: "invalid action" }, { status: 400 });
+  }
+  const note = typeof body.note === "string" ? body.note.slice(0, 200) : null;
+
+  try {
+    if (action === "reject") {
+      const result = await rejectSubmission(storage, uid, id, Date.now(), note);
+      return NextResponse.json(result, { status: result.ok ? 200 : 409 });
+    }
+
+    installPacksFromDisk();
+    const approved = listQueue(await storage.getAllSubmissions(), "approved")
+      .flatMap((item) => (item.submission.package ? [item.submission.package] : []));
+    const overrides = body.overrides && typeof body.overrides === "object" ? body.overrides : {};
+    const result = await approveSubmission(storage, uid, id, [...getLoadedPackages(), ...approved], Date.now(), {
+      note,
+      overrides,
+    });
+    return NextResponse.json(result, { status: result.ok ? 200 : 409 });
+  } catch (err) {
+    console.error("[Moderation] action failed:", err);
+    return NextResponse.json({ error: "moderation failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { OPS_METRICS } from "@/config/production";
+import { createAdminBudgetStorage } from "@/services/adminBudgetStorage";
+import { budgetDayKey, loadBudgetReport } from "@/services/apiBudget";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/ops/budget?days=7  (Authorization: Bearer OPS_SECRET)
+ * Street View harcama raporu — apiBudget/{gün} defterinden günlük çağrı,
+ * USD, tür dağılımı ve en çok harcayan odalar (en yeni gün önce).
+ */
+export async function GET(request: Request) {
+  const opsSecret = process.env.OPS_SECRET;
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!opsSecret || !databaseURL || !secret) {
+    return NextResponse.json({ error: "ops dashboard not configured" }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${opsSecret}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  const count = Number(new URL(request.url).searchParams.get("days") || 7);
+  if (!Number.isInteger(count) || count < 1 || count > OPS_METRICS.MAX_RANGE_DAYS) {
+    return NextResponse.json({ error: `days must be 1-${OPS_METRICS.MAX_RANGE_DAYS}` }, { status: 400 });
+  }
+  const now = Date.now();
+  const days = Array.from({ length: count }, (_, index) => budgetDayKey(now - index * DAY_MS));
+
+  try {
+    const storage = createAdminBudgetStorage({ databaseURL, secret });
+    return NextResponse.json(await loadBudgetReport(storage, days));
+  } catch (err) {
+    console.error("[Budget] report failed:", err);
+    return NextResponse.json({ error: "report failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { createAdminTelemetryStorage } from "@/services/adminTelemetryStorage";
+import { loadOpsSummary, opsDays } from "@/services/opsMetrics";
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/ops?from=<ms>&to=<ms>&roomId=ABC123  (Authorization: Bearer OPS_SECRET)
+ * Çok oyunculu sağlık özeti — telemetry/{gün} kayıtlarından RoundEndLatency
+ * yüzdelikleri, SLO ihlalleri, watchdog eskalasyonları ve tur başına
+ * Street View maliyeti. Varsayılan aralık: son 24 saat.
+ */
+export async function GET(request: Request) {
+  const opsSecret = process.env.OPS_SECRET;
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!opsSecret || !databaseURL || !secret) {
+    return NextResponse.json({ error: "ops dashboard not configured" }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${opsSecret}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const to = params.has("to") ? Number(params.get("to")) : Date.now();
+  const from = params.has("from") ? Number(params.get("from")) : to - DEFAULT_RANGE_MS;
+  const roomId = params.get("roomId")?.trim().toUpperCase() || null;
+  try {
+    opsDays(from, to);
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+
+  try {
+    const storage = createAdminTelemetryStorage({ databaseURL, secret });
+    return NextResponse.json(await loadOpsSummary(storage, { from, to, roomId }));
+  } catch (err) {
+    console.error("[Ops] summary failed:", err);
+    return NextResponse.json({ error: "summary failed" }, { status: 502 });
+  }
+}
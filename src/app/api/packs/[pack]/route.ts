@@ -0,0 +1,20 @@
+import * as fs from "fs";
+import { NextResponse } from "next/server";
+import { PACK_IDS, PackId } from "@/services/panoPacks";
+import { packFilePath } from "@/services/panoPackFiles";
+
+/**
+ * GET /api/packs/{urban|geo}.ndjson
+ * Sadece memory backend (NEXT_PUBLIC_RTDB_BACKEND=memory): tur/skor otoriteleri
+ * orada tarayıcıda çalışır ve paketi buradan alır. Diğer her ortamda 404 —
+ * paketler sunucuya özel, tarayıcıya cevap tablosu gitmez.
+ */
+export async function GET(_request: Request, { params }: { params: { pack: string } }) {
+  const pack = params.pack.replace(/\.ndjson$/, "") as PackId;
+  if (process.env.NEXT_PUBLIC_RTDB_BACKEND !== "memory" || !PACK_IDS.includes(pack)) {
+    return NextResponse.json({ error: "not found" }, { status: 404 });
+  }
+  return new NextResponse(fs.readFileSync(packFilePath(pack), "utf-8"), {
+    headers: { "Content-Type": "application/x-ndjson; charset=utf-8" },
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { parseReportRequest, submitReport } from "@/services/locationReports";
+import { createAdminReportStorage } from "@/services/adminReportStorage";
+import { createAdminRoomStorage } from "@/services/adminRoomStorage";
+import { createAdminSoloRoundStorage } from "@/services/adminSoloRoundStorage";
+import { verifyCaller } from "@/services/callerAuth";
+
+/**
+ * POST /api/report-location { packageId, panoId, reason, roomId? }
+ *   (Authorization: Bearer <Firebase ID token>)
+ * Oyuncu bildirimini sunucu yazar: oyuncu başına saatlik kota, anonim hesaplar
+ * sadece kendilerine dağıtılan paketi bildirebilir (solo turu ya da odasının
+ * bir turu). Ardından paketin bildirimleri sayılır, eşik aşılınca
+ * quarantine/{packageId} yazılır.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+
+  const report = parseReportRequest(body);
+  if (!report) {
+    return NextResponse.json({ error: "invalid report" }, { status: 400 });
+  }
+
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!databaseURL || !secret || !apiKey) {
+    return NextResponse.json({ error: "reports not configured" }, { status: 503 });
+  }
+
+  try {
+    const caller = await verifyCaller(request, { apiKey });
+    if (!caller) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    const rooms = createAdminRoomStorage({ databaseURL, secret });
+    const sources = { ...rooms, getSoloDeal: createAdminSoloRoundStorage({ databaseURL, secret }).getSoloDeal };
+    const storage = createAdminReportStorage({ databaseURL, secret });
+    return NextResponse.json(await submitReport(storage, sources, caller, report, Date.now()));
+  } catch (err) {
+    console.error("[Reports] report failed:", err);
+    return NextResponse.json({ error: "report failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { createAdminJanitorStorage } from "@/services/adminJanitorStorage";
+import { formatJanitorReport, runJanitor } from "@/services/roomJanitor";
+
+/**
+ * POST /api/room-janitor[?dryRun=1]  (Authorization: Bearer JANITOR_SECRET)
+ * Oda temizliği — süresi dolan / boş / bitmiş odaları ve hayalet oyuncuları
+ * siler, MAX_ACTIVE_ROOMS sınırını uygular. Cron ile çağrılır; dryRun=1
+ * hiçbir şey yazmadan planı döner. Aynı iş: scripts/roomJanitor.js
+ */
+export async function POST(request: Request) {
+  const jobSecret = process.env.JANITOR_SECRET;
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!jobSecret || !databaseURL || !secret) {
+    return NextResponse.json({ error: "room janitor not configured" }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${jobSecret}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  const dryRun = new URL(request.url).searchParams.get("dryRun") === "1";
+  try {
+    const storage = createAdminJanitorStorage({ databaseURL, secret });
+    const report = await runJanitor(storage, Date.now(), { dryRun });
+    console.log(formatJanitorReport(report));
+    return NextResponse.json(report);
+  } catch (err) {
+    console.error("[Janitor] sweep failed:", err);
+    return NextResponse.json({ error: "sweep failed" }, { status: 502 });
+  }
+}
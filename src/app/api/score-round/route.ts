@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { createScoringAuthority } from "@/services/scoringAuthority";
+import { createAdminRoomStorage } from "@/services/adminRoomStorage";
+import { createAdminLeaderboardStorage } from "@/services/adminLeaderboardStorage";
+import { createAdminAccuracyStorage } from "@/services/adminAccuracyStorage";
+import { installPacksFromDisk } from "@/services/panoPackFiles";
+import { verifyCaller } from "@/services/callerAuth";
+
+/**
+ * POST /api/score-round { roomId, roundId }  (Authorization: Bearer <Firebase ID token>)
+ * Sunucu tarafı puanlama otoritesi — roundResults/totalScore'u sadece burası yazar.
+ * Sadece odadaki bir oyuncu tetikleyebilir (uid token'dan gelir).
+ * Son tur puanlanınca oyun liderlik tablolarına da buradan işlenir; her tur
+ * isabet örnekleri bırakır (aggregate-accuracy işi toplar).
+ */
+export async function POST(request: Request) {
+  let body: { roomId?: unknown; roundId?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+
+  const { roomId, roundId } = body;
+  if (typeof roomId !== "string" || !/^[A-Z0-9]{6}$/.test(roomId)) {
+    return NextResponse.json({ error: "invalid roomId" }, { status: 400 });
+  }
+  if (typeof roundId !== "number" || !Number.isInteger(roundId) || roundId < 1) {
+    return NextResponse.json({ error: "invalid roundId" }, { status: 400 });
+  }
+
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!databaseURL || !secret || !apiKey) {
+    return NextResponse.json({ error: "scoring authority not configured" }, { status: 503 });
+  }
+
+  try {
+    const caller = await verifyCaller(request, { apiKey });
+    if (!caller) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+    const storage = createAdminRoomStorage({ databaseURL, secret });
+    const room = await storage.getRoom(roomId);
+    if (!room?.players?.[caller.uid]) {
+      return NextResponse.json({ error: "not a player of this room" }, { status: 403 });
+    }
+
+    installPacksFromDisk();
+    const authority = createScoringAuthority(storage, {
+      leaderboard: createAdminLeaderboardStorage({ databaseURL, secret }),
+      accuracy: createAdminAccuracyStorage({ databaseURL, secret }),
+    });
+    return NextResponse.json(await authority.scoreRound(roomId, roundId));
+  } catch (err) {
+    console.error("[Scoring] score-round failed:", err);
+    return NextResponse.json({ error: "scoring failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import {
+  createSoloDraw,
+  createSoloRoundAuthority,
+  parseSoloDealRequest,
+  parseSoloRefreshRequest,
+  parseSoloRevealRequest,
+} from "@/services/soloRoundAuthority";
+import { createAdminSoloRoundStorage } from "@/services/adminSoloRoundStorage";
+import { createAdminAccuracyStorage } from "@/services/adminAccuracyStorage";
+import { createAdminReportStorage } from "@/services/adminReportStorage";
+import { createAdminBudgetStorage } from "@/services/adminBudgetStorage";
+import { loadDailyPackages } from "@/services/dailyChallenge";
+import { budgetScope } from "@/services/apiBudget";
+import { createLedgerPanoResolver } from "@/services/panoResolver";
+import { installPacksFromDisk } from "@/services/panoPackFiles";
+import { verifyCaller } from "@/services/callerAuth";
+
+/**
+ * POST /api/solo-round  (Authorization: Bearer <Firebase ID token>)
+ *   { action: "deal", runId, roundId, mode, mapFilter?, daily?, playerName? } → { dealt, reason, round? }
+ *   { action: "reveal", runId, roundId, guess? }                             → { revealed, reason, answer? }
+ *   { action: "refresh", runId, roundId }                                    → { refreshed, reason, pano? }
+ * Solo ve Günün Turu turlarını sunucu seçer (tarayıcıda paket yok); cevap
+ * soloRounds/{uid}'de (istemciye kapalı) durur, tur bitince açılır. Günün
+ * Turu günün sabitlenmiş çekilişinden (dailyDraws/{tarih}) gelir — seed'i
+ * veritabanı sırrıyla anahtarlanır, tarihten önceden hesaplanamaz; tahmini
+ * burada puanlanır ve son turda günlük liderlik tablosuna sunucu yazar.
+ * Serbest solo turlarda GOOGLE_MAPS_SERVER_KEY varsa dinamik üretim önce
+ * denenir (aramalar solo_{uid} bütçesinden); aynı anahtar süresi dolan panoyu
+ * açık turun cevabı yakınında yeniler.
+ */
+export async function POST(request: Request) {
+  let body: { action?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+
+  const deal = body.action === "deal" ? parseSoloDealRequest(body) : null;
+  const reveal = body.action === "reveal" ? parseSoloRevealRequest(body) : null;
+  const refresh = body.action === "refresh" ? parseSoloRefreshRequest(body) : null;
+  if (!deal && !reveal && !refresh) {
+    return NextResponse.json({ error: "invalid request" }, { status: 400 });
+  }
+
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!databaseURL || !secret || !apiKey) {
+    return NextResponse.json({ error: "solo round authority not configured" }, { status: 503 });
+  }
+
+  try {
+    const caller = await verifyCaller(request, { apiKey });
+    if (!caller) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    const storage = createAdminSoloRoundStorage({ databaseURL, secret });
+    const resolver = createLedgerPanoResolver(
+      process.env.GOOGLE_MAPS_SERVER_KEY,
+      createAdminBudgetStorage({ databaseURL, secret }),
+      budgetScope(null, caller.uid)
+    );
+    if (refresh) {
+      return NextResponse.json(await createSoloRoundAuthority(storage, { resolver }).refreshSoloPano(caller.uid, refresh));
+    }
+    if (reveal) {
+      const authority = createSoloRoundAuthority(storage, { dailyRuns: storage, dailyLeaderboard: storage });
+      return NextResponse.json(await authority.revealSoloRound(caller.uid, reveal));
+    }
+
+    installPacksFromDisk();
+    const [calibration, quarantine] = await Promise.all([
+      createAdminAccuracyStorage({ databaseURL, secret }).getCalibration().catch((err) => {
+        console.warn("[SoloRounds] calibration unavailable:", err);
+        return null;
+      }),
+      createAdminReportStorage({ databaseURL, secret }).getQuarantine().catch((err) => {
+        console.warn("[SoloRounds] quarantine unavailable:", err);
+        return null;
+      }),
+    ]);
+    const authority = createSoloRoundAuthority(storage, {
+      draw: createSoloDraw({ calibration, quarantine, resolver }),
+      dailyPackages: (dateKey) => loadDailyPackages(dateKey, storage, Date.now(), quarantine, secret),
+      dailyRuns: storage,
+      drawSecret: secret,
+    });
+    return NextResponse.json(await authority.dealSoloRound(caller.uid, deal!));
+  } catch (err) {
+    console.error("[SoloRounds] solo-round failed:", err);
+    return NextResponse.json({ error: "solo round failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { parseSubmissionRequest, submitVerifiedLocation } from "@/services/locationSubmissions";
+import { createAdminSubmissionStorage } from "@/services/adminSubmissionStorage";
+import { createAdminRoomStorage } from "@/services/adminRoomStorage";
+import { createAdminSoloRoundStorage } from "@/services/adminSoloRoundStorage";
+import { verifyCaller } from "@/services/callerAuth";
+
+/**
+ * POST /api/submit-location { draft, name, roomId? }
+ *   (Authorization: Bearer <Firebase ID token>)
+ * Konum önerisini sunucu yazar (submissions/{uid}, "pending"): oyuncu başına
+ * saatlik kota, anonim hesaplar sadece en az bir tur dağıtıldıktan sonra
+ * önerebilir (solo turu ya da odasının başlamış oyunu).
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+
+  const submission = parseSubmissionRequest(body);
+  if (!submission) {
+    return NextResponse.json({ error: "invalid submission" }, { status: 400 });
+  }
+
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!databaseURL || !secret || !apiKey) {
+    return NextResponse.json({ error: "submissions not configured" }, { status: 503 });
+  }
+
+  try {
+    const caller = await verifyCaller(request, { apiKey });
+    if (!caller) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    const rooms = createAdminRoomStorage({ databaseURL, secret });
+    const sources = { ...rooms, getSoloDeal: createAdminSoloRoundStorage({ databaseURL, secret }).getSoloDeal };
+    const storage = createAdminSubmissionStorage({ databaseURL, secret });
+    return NextResponse.json(await submitVerifiedLocation(storage, sources, caller, submission, Date.now()));
+  } catch (err) {
+    console.error("[Submissions] submit failed:", err);
+    return NextResponse.json({ error: "submit failed" }, { status: 502 });
+  }
+}
@@ -2,8 +2,14 @@ import { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import { SeoLayout } from "@/components/seo/SeoLayout";
+import { RegionAccuracyPanel } from "@/components/accuracy/AccuracyPanel";
+import { loadAccuracySnapshot } from "@/services/adminAccuracyStorage";
 import { getAllRegions, getRegionBySlug } from "@/data/seoData";
 import { getRegionDescription } from "@/data/regionDescriptions";
+import { RegionId } from "@/types";
+
+// İsabet paneli accuracy/stats'ı sunucuda okur — sayfa saatte bir yeniden üretilir
+export const revalidate = 3600;
 
 interface Props {
   params: { slug: string };
@@ -30,9 +36,10 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   };
 }
 
-export default function BolgeDetailPage({ params }: Props) {
+export default async function BolgeDetailPage({ params }: Props) {
   const region = getRegionBySlug(params.slug);
   if (!region) notFound();
+  const accuracy = await loadAccuracySnapshot();
 
   const desc = getRegionDescription(params.slug);
   const uniqueProvinces = new Set(region.cities.map((c) => c.province)).size;
@@ -115,6 +122,13 @@ export default function BolgeDetailPage({ params }: Props) {
           </section>
         )}
 
+        {/* Gerçek oyuncu isabeti — il bazında zorluk */}
+        <RegionAccuracyPanel
+          snapshot={accuracy}
+          region={params.slug as RegionId}
+          provinces={Array.from(new Set(region.cities.map((c) => c.province))).sort((a, b) => a.localeCompare(b, "tr"))}
+        />
+
         {/* Şehir listesi */}
         <section className="space-y-4">
           <h2 className="text-xl font-semibold text-red-400">
@@ -0,0 +1,34 @@
+import { Metadata } from "next";
+import { SeoLayout } from "@/components/seo/SeoLayout";
+import { SuggestLocationView } from "@/components/submissions/SuggestLocationView";
+
+export const metadata: Metadata = {
+  title: "Konum Öner",
+  description: "TürkiyeGuessr'a yeni bir konum öner: Sokak Görünümü'nde yeri bul, ipuçlarını işaretle, onaylanınca oyuna eklensin.",
+  alternates: { canonical: "/konum-oner" },
+  robots: { index: false, follow: true },
+};
+
+export default function KonumOnerPage() {
+  return (
+    <SeoLayout
+      breadcrumbs={[
+        { name: "Anasayfa", url: "/" },
+        { name: "Konum Öner", url: "/konum-oner" },
+      ]}
+    >
+      <article className="space-y-8 max-w-3xl">
+        <header>
+          <h1 className="text-3xl sm:text-4xl font-bold tracking-wide" style={{ fontFamily: "var(--font-display)" }}>
+            Konum Öner
+          </h1>
+          <p className="text-gray-400 mt-2">
+            Bir il seç, Sokak Görünümü&apos;nde güzel bir nokta bul ve öner. Moderasyondan geçen öneriler oyuna eklenir.
+          </p>
+        </header>
+
+        <SuggestLocationView />
+      </article>
+    </SeoLayout>
+  );
+}
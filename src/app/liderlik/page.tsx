@@ -0,0 +1,50 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { SeoLayout } from "@/components/seo/SeoLayout";
+import { LeaderboardView } from "@/components/leaderboard/LeaderboardView";
+import { LEADERBOARD_MIN_ROUNDS, LEADERBOARD_MAX_ENTRIES } from "@/services/leaderboard";
+
+export const metadata: Metadata = {
+  title: "Liderlik Tablosu — Haftalık ve Tüm Zamanlar",
+  description:
+    "TürkiyeGuessr liderlik tablosu: haftanın ve tüm zamanların en yüksek skorları, Urban ve Geo modları ile bölge haritalarına göre sıralama.",
+  alternates: { canonical: "/liderlik" },
+};
+
+export default function LiderlikPage() {
+  return (
+    <SeoLayout
+      breadcrumbs={[
+        { name: "Anasayfa", url: "/" },
+        { name: "Liderlik", url: "/liderlik" },
+      ]}
+    >
+      <article className="space-y-8 max-w-3xl">
+        <header>
+          <h1 className="text-3xl sm:text-4xl font-bold tracking-wide" style={{ fontFamily: "var(--font-display)" }}>
+            Liderlik Tablosu
+          </h1>
+          <p className="text-gray-400 mt-2 leading-relaxed">
+            Biten çok oyunculu oyunların skorları, puanları sunucu hesapladıktan sonra tabloya girer.
+            Haftalık tablo her pazartesi 00:00&apos;da (TSİ) sıfırlanır.
+          </p>
+        </header>
+
+        <LeaderboardView />
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold text-red-400">Tabloya Nasıl Girilir?</h2>
+          <ul className="text-gray-400 leading-relaxed list-disc pl-5 space-y-1">
+            <li>En az {LEADERBOARD_MIN_ROUNDS} turluk bir çok oyunculu oyunu sonuna kadar oyna.</li>
+            <li>Her oyun, her oyuncu için tek kayıt olarak eklenir; skor sunucuda doğrulanır.</li>
+            <li>Tek bölgelik haritada oynanan oyunlar o bölgenin tablosunda da listelenir.</li>
+            <li>Her tabloda en iyi {LEADERBOARD_MAX_ENTRIES} skor tutulur.</li>
+          </ul>
+          <p className="text-gray-400">
+            <Link href="/" className="text-red-400 hover:text-red-300">Hemen bir oda kur</Link> ve arkadaşlarını davet et.
+          </p>
+        </section>
+      </article>
+    </SeoLayout>
+  );
+}
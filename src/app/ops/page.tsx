@@ -0,0 +1,33 @@
+import { Metadata } from "next";
+import { SeoLayout } from "@/components/seo/SeoLayout";
+import { OpsDashboard } from "@/components/ops/OpsDashboard";
+
+export const metadata: Metadata = {
+  title: "Operasyon Paneli",
+  description: "Çok oyunculu sağlık sayaçları: tur sonu gecikmesi, SLO ihlalleri, watchdog ve Street View maliyeti.",
+  robots: { index: false, follow: false },
+};
+
+export default function OpsPage() {
+  return (
+    <SeoLayout
+      breadcrumbs={[
+        { name: "Anasayfa", url: "/" },
+        { name: "Operasyon Paneli", url: "/ops" },
+      ]}
+    >
+      <article className="space-y-8">
+        <header>
+          <h1 className="text-3xl sm:text-4xl font-bold tracking-wide" style={{ fontFamily: "var(--font-display)" }}>
+            Operasyon Paneli
+          </h1>
+          <p className="text-gray-400 mt-2">
+            Örneklenmiş oturumların telemetrisinden çok oyunculu sağlık özeti. Erişim için OPS_SECRET gerekir.
+          </p>
+        </header>
+
+        <OpsDashboard />
+      </article>
+    </SeoLayout>
+  );
+}
@@ -1,13 +1,17 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import { useRoom, useStreetView, useGuessMap, useTimer, useAsyncLock } from "@/hooks";
+import { useRoom, useSoloGame, useDailyChallenge, useProfile, useAccuracyStats, useLocationSubmission, useLocationReport, useStreetView, useGuessMap, useTimer, useAsyncLock } from "@/hooks";
 import { Coordinates, GameMode, AD_FREQUENCY_LIMIT } from "@/types";
-import { getRandomPanoPackage, onNewGameStart, initStreetViewService } from "@/services/panoService";
+import { initApiBudget } from "@/services/panoService";
 import { MenuScreen } from "@/components/screens/MenuScreen";
 import { LobbyScreen } from "@/components/screens/LobbyScreen";
 import { GameScreen } from "@/components/screens/GameScreen";
 import { GameErrorBoundary } from "@/components/shared/ErrorBoundary";
+import { SuggestLocationModal, SuggestLocationFields } from "@/components/game/SuggestLocationModal";
+import { ReportLocationModal } from "@/components/game/ReportLocationModal";
+import { SubmissionDraft } from "@/services/locationSubmissions";
+import { ReportReason } from "@/services/locationReports";
 import { trackError } from "@/utils/telemetry";
 
 export default function HomePage() {
@@ -19,34 +23,71 @@ export default function HomePage() {
   const [copied, setCopied] = useState(false);
   const [guessLocation, setGuessLocation] = useState<Coordinates | null>(null);
   const [mapExpanded, setMapExpanded] = useState(false);
+  const [heatmapOn, setHeatmapOn] = useState(false);
   const [showToast, setShowToast] = useState<string | null>(null);
+  // Konum önerisi: buton anındaki pano + bakış (form açıkken oyuncu dönse de)
+  const [suggestion, setSuggestion] = useState<Omit<SubmissionDraft, "roadType" | "hintTags" | "region" | "note"> | null>(null);
+  // Konum bildirimi: paket id'si tur sonunda açılır, bildirim o zamana kadar bekler
+  const [reportOpen, setReportOpen] = useState(false);
+  const [pendingReport, setPendingReport] = useState<{ round: number; panoId: string; reason: ReportReason } | null>(null);
+  const [reportedRound, setReportedRound] = useState<string | null>(null);
   const [lastAdTime, setLastAdTime] = useState(0);
   // BUG-005: Name validation error state
   const [nameError, setNameError] = useState<string | null>(null);
 
   // ==================== HOOKS ====================
   const {
-    room, playerId, currentPlayer, isHost, players, error, isLoading,
-    connectionState, notifications, dismissNotification,
-    createRoom, joinRoom, setGameMode, startGame, startGameWithPanoPackage,
-    submitGuess, checkAllGuessed, handleTimeUp, nextRound, nextRoundWithPanoPackage,
-    leaveRoom, restartGame,
+    room: mpRoom, playerId: mpPlayerId, currentPlayer: mpCurrentPlayer, isHost: mpIsHost, players: mpPlayers,
+    error, isLoading, connectionState: mpConnectionState, notifications, dismissNotification,
+    createRoom, joinRoom, setGameMode, setScoringProfile, updateRoomSettings, startGame,
+    submitGuess, checkAllGuessed, handleTimeUp, nextRound,
+    leaveRoom, restartGame, refreshPano,
   } = useRoom();
 
+  // Solo: yerel oda (Firebase yok) — aktifken ekranlar solo odayı gösterir
+  // Günün Turu: tarihli solo oyun — bitince liderlik tablosuna bir kez yazılır
+  // Profil (isteğe bağlı): biten her oyun kariyer istatistiklerine işlenir
+  const daily = useDailyChallenge();
+  const profile = useProfile();
+  const solo = useSoloGame({
+    onFinished: (result) => {
+      void daily.recordResult(result);
+      void profile.recordSoloResult(result);
+    },
+  });
+  const isSolo = solo.room !== null;
+  const room = isSolo ? solo.room : mpRoom;
+  const playerId = isSolo ? solo.playerId : mpPlayerId;
+  const currentPlayer = isSolo ? solo.currentPlayer : mpCurrentPlayer;
+  const isHost = isSolo || mpIsHost;
+  const players = isSolo ? solo.players : mpPlayers;
+  const connectionState = isSolo ? "online" : mpConnectionState;
+
   const {
-    isLoading: streetViewLoading, streetViewRef, loadNewLocation,
-    showStreetView, showPanoPackage, initializeGoogleMaps,
+    isLoading: streetViewLoading, streetViewRef,
+    showRoundPano, initializeGoogleMaps,
     setMoves, resetMoves, movesRemaining, movesUsed,
     isMovementLocked, showBudgetWarning, returnToStart,
     navigationError, panoLoadFailed,
-  } = useStreetView(room?.id, playerId);
+    getCurrentPanoId, getCurrentPov, getCurrentPosition,
+  } = useStreetView(isSolo ? undefined : room?.id, playerId);
+
+  const locationSubmission = useLocationSubmission();
+  const { report: sendLocationReport } = useLocationReport();
 
-  const { guessMapRef, initializeMap, resetMap } = useGuessMap(setGuessLocation);
+  const { guessMapRef, initializeMap, resetMap, setAccuracyHeatmap } = useGuessMap(setGuessLocation);
+
+  // İsabet ısı haritası — ilk açılışta accuracy/stats okunur
+  const accuracy = useAccuracyStats(heatmapOn);
+  useEffect(() => {
+    setAccuracyHeatmap(heatmapOn ? accuracy.provinceHeat : null);
+  }, [heatmapOn, accuracy.provinceHeat, setAccuracyHeatmap]);
 
   const { timeRemaining, formattedTime, isRunning: timerRunning, percentRemaining } = useTimer({
     initialTime: room?.timeLimit || 90,
     onTimeUp: () => {
-      if (isHost) handleTimeUp();
+      if (isSolo) solo.handleTimeUp();
+      else if (isHost) handleTimeUp();
     },
     serverStartTime: room?.roundStartTime || null,
   });
@@ -95,6 +136,24 @@ export default function HomePage() {
 
   // ==================== EFFECTS ====================
 
+  // API bütçe defteri — pano yüklemeleri ortak günlük bütçeye yazılır
+  // (tur seçimi, kalibrasyon ve karantina sunucuda)
+  useEffect(() => {
+    void initApiBudget();
+  }, []);
+
+  // Bekleyen konum bildirimi: cevap açılınca (roundEnd) paket id'siyle gönder
+  useEffect(() => {
+    if (!pendingReport || !room) return;
+    if (room.currentRound !== pendingReport.round) {
+      setPendingReport(null);
+      return;
+    }
+    if (!room.currentPanoPackageId) return;
+    void sendLocationReport(room.currentPanoPackageId, pendingReport.panoId, pendingReport.reason, isSolo ? null : room.id);
+    setPendingReport(null);
+  }, [pendingReport, room, isSolo, sendLocationReport]);
+
   // Cleanup toast timer on unmount
   useEffect(() => {
     return () => {
@@ -126,7 +185,7 @@ export default function HomePage() {
 
   // BUG-003: Update URL when room is active
   useEffect(() => {
-    if (room?.id && screen !== "menu") {
+    if (room?.id && screen !== "menu" && !isSolo) {
       const url = new URL(window.location.href);
       url.searchParams.set("room", room.id);
       window.history.replaceState({}, "", url.toString());
@@ -137,7 +196,7 @@ export default function HomePage() {
         window.history.replaceState({}, "", url.toString());
       }
     }
-  }, [room?.id, screen]);
+  }, [room?.id, screen, isSolo]);
 
   // BUG-003: Save player name to localStorage
   useEffect(() => {
@@ -146,9 +205,19 @@ export default function HomePage() {
     }
   }, [nameInput]);
 
-  // BUG-003: beforeunload guard when game is active
+  // Kariyer profili: multiplayer turları roundEnd'de toplanır, gameOver'da işlenir (solo: onFinished)
   useEffect(() => {
-    if (screen !== "game" || !room) return;
+    if (!room || !playerId) return;
+    if (isSolo) {
+      if (room.status !== "gameOver") profile.clearLastBests();
+      return;
+    }
+    profile.trackRoom(room, playerId);
+  }, [room, playerId, isSolo, profile.trackRoom, profile.clearLastBests]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // BUG-003: beforeunload guard when game is active (solo oyun zaten kayıtlı)
+  useEffect(() => {
+    if (screen !== "game" || !room || isSolo) return;
 
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       e.preventDefault();
@@ -158,7 +227,7 @@ export default function HomePage() {
 
     window.addEventListener("beforeunload", handleBeforeUnload);
     return () => window.removeEventListener("beforeunload", handleBeforeUnload);
-  }, [screen, room]);
+  }, [screen, room, isSolo]);
 
   // Initialize Street View and map when game starts
   useEffect(() => {
@@ -166,7 +235,7 @@ export default function HomePage() {
     if (room.status !== "playing") return;
 
     // DEDUP GUARD
-    const panoKey = room.currentPanoPackage?.id || room.currentPanoPackageId || "";
+    const panoKey = room.currentPano?.panoId || "";
     const dedupKey = `${room.currentRound}_${panoKey}`;
     if (lastShownPanoRoundRef.current === dedupKey) {
       return;
@@ -188,12 +257,11 @@ export default function HomePage() {
       await initializeGoogleMaps();
       initializeMap();
 
-      if (room.currentPanoPackage) {
-        setMoves(room.moveLimit || 3);
-        await showPanoPackage(room.currentPanoPackage);
-      } else if (room.currentPanoPackageId) {
-        setMoves(room.moveLimit || 3);
-        await showStreetView(room.currentPanoPackageId);
+      // Cevap roundEnd'e kadar gizli — sadece yayınlanan pano ID'si ile aç;
+      // süresi dolmuşsa yenisini tur otoritesi cevabın yakınında çözer
+      if (room.currentPano) {
+        setMoves(room.moveLimit ?? 3);
+        await showRoundPano(room.currentPano, isSolo ? solo.refreshPano : refreshPano);
       }
     };
 
@@ -211,8 +279,11 @@ export default function HomePage() {
       setGuessLocation(null);
       resetMap();
       resetMoves();
-      setMoves(room.moveLimit || 3);
+      setMoves(room.moveLimit ?? 3);
       setMapExpanded(false);
+
+      // Harita filtresi dar kaldıysa host'un motoru bu tur için uyarı yazdı
+      if (room.mapNotice) showTrackedToast(room.mapNotice, 5000);
     }
 
     if (room?.status) prevStatusRef.current = room.status;
@@ -220,7 +291,7 @@ export default function HomePage() {
     if (room?.status === "waiting") {
       prevRoundRef.current = null;
     }
-  }, [room?.currentRound, room?.status, room?.timeLimit, room?.moveLimit, resetMap, resetMoves, setMoves]);
+  }, [room?.currentRound, room?.status, room?.timeLimit, room?.moveLimit, room?.mapNotice, resetMap, resetMoves, setMoves, showTrackedToast]);
 
   // Navigate to game/lobby on status change
   useEffect(() => {
@@ -319,25 +390,70 @@ export default function HomePage() {
     }, "joinRoom");
   };
 
+  // Solo: ilk turu sunucudan al (yeni oyun, Günün Turu, tekrar dene ya da bekleyen kayıt)
+  const startSoloFirstRound = async () => {
+    await initializeGoogleMaps();
+    lastShownPanoRoundRef.current = null;
+
+    if (await solo.startRound()) {
+      setScreen("game");
+    } else {
+      solo.leaveSolo();
+      showTrackedToast("Konum yüklenemedi, tekrar deneyin");
+    }
+  };
+
+  const handleStartSolo = async () => {
+    if (!validateName(nameInput)) return;
+    await runLocked(async () => {
+      solo.startSolo(nameInput, selectedMode);
+      await startSoloFirstRound();
+    }, "startSolo");
+  };
+
+  const handleStartDaily = async () => {
+    if (!validateName(nameInput)) return;
+    await runLocked(async () => {
+      const today = daily.begin();
+      if (!today) {
+        showTrackedToast("Günün Turu'nu bugün zaten oynadın");
+        return;
+      }
+      solo.startDaily(nameInput, today.mode, today.dateKey, daily.totalRounds);
+      await startSoloFirstRound();
+    }, "startDaily");
+  };
+
+  const handleResumeSolo = async () => {
+    await runLocked(async () => {
+      const resumed = solo.resumeSolo();
+      if (!resumed) {
+        showTrackedToast("Kayıtlı solo oyun bulunamadı");
+        return;
+      }
+      if (resumed.room.status === "waiting") {
+        await startSoloFirstRound();
+        return;
+      }
+      // Yarıda kalan oyun: sunucu turun cevabını ve oyunun geçmişini tutuyor
+      await initializeGoogleMaps();
+      lastShownPanoRoundRef.current = null;
+      setScreen("game");
+    }, "resumeSolo");
+  };
+
   // BUG-004: startGame with async lock (replaces gameStartingRef)
   const handleStartGame = async () => {
     if (!room) return;
     await runLocked(async () => {
       await initializeGoogleMaps();
-      initStreetViewService();
-      await onNewGameStart();
       lastShownPanoRoundRef.current = null;
 
-      const panoPackage = await getRandomPanoPackage(room.gameMode || "urban");
-      if (panoPackage) {
-        await startGameWithPanoPackage(panoPackage);
+      // Turu sunucu seçer (harita, adaptif zorluk, karantina) — cevap host'a da gelmez
+      if (await startGame()) {
         setScreen("game");
       } else {
-        const location = await loadNewLocation();
-        if (location) {
-          await startGame(location.coordinates, location.panoId, location.locationName);
-          setScreen("game");
-        }
+        showTrackedToast("Oyun başlatılamadı, tekrar deneyin.");
       }
     }, "startGame");
   };
@@ -351,7 +467,7 @@ export default function HomePage() {
       return;
     }
     await runLocked(async () => {
-      const result = await submitGuess(guessLocation);
+      const result = isSolo ? await solo.submitGuess(guessLocation) : await submitGuess(guessLocation);
       if (!result.accepted && result.reason === "time_expired") {
         showTrackedToast("Süre doldu! Tahmin kabul edilmedi.");
       } else if (!result.accepted && result.reason !== "already_guessed" && result.reason !== "already_guessed_db" && result.reason !== "in_flight") {
@@ -374,16 +490,11 @@ export default function HomePage() {
       resetMap();
       setGuessLocation(null);
       resetMoves();
-      setMoves(room.moveLimit || 3);
+      setMoves(room.moveLimit ?? 3);
 
-      const panoPackage = await getRandomPanoPackage(room.gameMode || "urban");
-      if (panoPackage) {
-        await nextRoundWithPanoPackage(panoPackage);
-      } else {
-        const location = await loadNewLocation();
-        if (location) {
-          await nextRound(location.coordinates, location.panoId, location.locationName);
-        }
+      // Sonraki turu sunucu seçer (son turdan sonra oyun biter)
+      if (!(isSolo ? await solo.startRound() : await nextRound())) {
+        showTrackedToast("Sonraki tur başlatılamadı, tekrar deneyin.");
       }
 
       showAdIfNeeded();
@@ -395,16 +506,48 @@ export default function HomePage() {
     if (!room || !isHost) return;
     await runLocked(async () => {
       // Trigger roundEnd with 0 scores, then advance
-      handleTimeUp();
+      if (isSolo) solo.handleTimeUp();
+      else handleTimeUp();
     }, "skipRound");
   };
 
+  const handleSuggestLocation = () => {
+    const panoId = getCurrentPanoId();
+    const pov = getCurrentPov();
+    const position = getCurrentPosition();
+    if (!room || !panoId || !pov || !position) return;
+    setSuggestion({ panoId, ...position, ...pov, mode: room.gameMode, source: "round" });
+  };
+
+  const handleSubmitSuggestion = async (fields: SuggestLocationFields) => {
+    if (!suggestion || !room) return;
+    const sent = await locationSubmission.submit({ ...suggestion, ...fields }, currentPlayer?.name || nameInput, isSolo ? null : room.id);
+    if (sent) {
+      setSuggestion(null);
+      showTrackedToast("Önerin için teşekkürler!");
+    }
+  };
+
+  const handleReportLocation = (reason: ReportReason) => {
+    setReportOpen(false);
+    if (!room?.currentPano) return;
+    setPendingReport({ round: room.currentRound, panoId: room.currentPano.panoId, reason });
+    setReportedRound(`${room.id}:${room.currentRound}`);
+    showTrackedToast("Bildirimin alındı, tur sonunda gönderilecek");
+  };
+
   const handleRestartGame = async () => {
     await runLocked(async () => {
       lastShownPanoRoundRef.current = null;
       resetMap();
       setGuessLocation(null);
       resetMoves();
+      if (isSolo && room) {
+        // Solo "Tekrar Dene": lobi yok, aynı ayarlarla yeni oyun
+        solo.restartSolo();
+        await startSoloFirstRound();
+        return;
+      }
       await restartGame();
       setScreen("lobby");
     }, "restartGame");
@@ -412,7 +555,8 @@ export default function HomePage() {
 
   const handleLeaveRoom = async () => {
     await runLocked(async () => {
-      await leaveRoom();
+      if (isSolo) solo.leaveSolo();
+      else await leaveRoom();
       setScreen("menu");
       resetMap();
       setGuessLocation(null);
@@ -442,6 +586,7 @@ export default function HomePage() {
   };
 
   const handleReturnToMenu = () => {
+    solo.leaveSolo();
     setScreen("menu");
     resetMap();
     setGuessLocation(null);
@@ -463,6 +608,12 @@ export default function HomePage() {
         isLoading={isLoading}
         onCreateRoom={handleCreateRoom}
         onJoinRoom={handleJoinRoom}
+        onStartSolo={handleStartSolo}
+        onResumeSolo={handleResumeSolo}
+        soloResume={solo.savedRun ? { round: solo.savedRun.room.currentRound, totalRounds: solo.savedRun.room.totalRounds } : null}
+        soloBest={solo.results.length > 0 ? Math.max(...solo.results.map((r) => r.totalScore)) : null}
+        onStartDaily={handleStartDaily}
+        dailyPlayed={daily.attempt ? { score: daily.attempt.score } : null}
         nameError={nameError}
       />
     );
@@ -482,6 +633,8 @@ export default function HomePage() {
           onCopyRoomCode={copyRoomCode}
           onShareWhatsApp={shareWhatsApp}
           onSetGameMode={setGameMode}
+          onSetScoringProfile={setScoringProfile}
+          onUpdateSettings={updateRoomSettings}
           onStartGame={handleStartGame}
           onLeaveRoom={handleLeaveRoom}
         />
@@ -498,6 +651,10 @@ export default function HomePage() {
           currentPlayer={currentPlayer}
           players={players}
           isHost={isHost}
+          isSolo={isSolo}
+          daily={isSolo && solo.daily ? { shareCard: daily.shareCard, leaderboard: daily.leaderboard } : null}
+          personalBests={profile.lastBests}
+          hasProfile={profile.isLoading ? undefined : profile.profile !== null}
           streetViewRef={streetViewRef}
           guessMapRef={guessMapRef}
           streetViewLoading={streetViewLoading}
@@ -509,6 +666,10 @@ export default function HomePage() {
           formattedTime={formattedTime}
           mapExpanded={mapExpanded}
           setMapExpanded={setMapExpanded}
+          heatmapOn={heatmapOn}
+          onToggleHeatmap={() => setHeatmapOn((on) => !on)}
+          onSuggestLocation={handleSuggestLocation}
+          onReportLocation={room && reportedRound !== `${room.id}:${room.currentRound}` ? () => setReportOpen(true) : undefined}
           guessLocation={guessLocation}
           showToast={showToast}
           connectionState={connectionState}
@@ -525,6 +686,18 @@ export default function HomePage() {
           isSubmitting={isKeyLocked("submitGuess")}
           isNextRoundLoading={isKeyLocked("nextRound")}
         />
+        {suggestion && (
+          <SuggestLocationModal
+            askRegion={false}
+            isSubmitting={locationSubmission.isSubmitting}
+            error={locationSubmission.error}
+            onSubmit={handleSubmitSuggestion}
+            onClose={() => setSuggestion(null)}
+          />
+        )}
+        {reportOpen && (
+          <ReportLocationModal onSubmit={handleReportLocation} onClose={() => setReportOpen(false)} />
+        )}
       </GameErrorBoundary>
     );
   }
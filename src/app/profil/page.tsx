@@ -0,0 +1,34 @@
+import { Metadata } from "next";
+import { SeoLayout } from "@/components/seo/SeoLayout";
+import { ProfileView } from "@/components/profile/ProfileView";
+
+export const metadata: Metadata = {
+  title: "Profil",
+  description: "TürkiyeGuessr kariyer istatistiklerin: oynanan oyunlar, ortalama mesafe, en iyi tur ve bölge bazında isabet.",
+  alternates: { canonical: "/profil" },
+  robots: { index: false, follow: true },
+};
+
+export default function ProfilPage() {
+  return (
+    <SeoLayout
+      breadcrumbs={[
+        { name: "Anasayfa", url: "/" },
+        { name: "Profil", url: "/profil" },
+      ]}
+    >
+      <article className="space-y-8 max-w-3xl">
+        <header>
+          <h1 className="text-3xl sm:text-4xl font-bold tracking-wide" style={{ fontFamily: "var(--font-display)" }}>
+            Profil
+          </h1>
+          <p className="text-gray-400 mt-2">
+            Profil isteğe bağlıdır. Oluşturduğunda bu cihazdaki her oyun kariyer istatistiklerine eklenir.
+          </p>
+        </header>
+
+        <ProfileView />
+      </article>
+    </SeoLayout>
+  );
+}
@@ -2,8 +2,13 @@ import { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import { SeoLayout } from "@/components/seo/SeoLayout";
+import { CityAccuracyPanel } from "@/components/accuracy/AccuracyPanel";
+import { loadAccuracySnapshot } from "@/services/adminAccuracyStorage";
 import { getAllCities, getCityBySlug, getRegionBySlug } from "@/data/seoData";
 
+// İsabet paneli accuracy/stats'ı sunucuda okur — sayfa saatte bir yeniden üretilir
+export const revalidate = 3600;
+
 interface Props {
   params: { slug: string };
 }
@@ -81,9 +86,10 @@ function getDifficultyLabel(score: number): { text: string; color: string } {
   return { text: "Zor", color: "text-red-400" };
 }
 
-export default function SehirDetailPage({ params }: Props) {
+export default async function SehirDetailPage({ params }: Props) {
   const city = getCityBySlug(params.slug);
   if (!city) notFound();
+  const accuracy = await loadAccuracySnapshot();
 
   const region = getRegionBySlug(city.region);
   const difficulty = getDifficultyLabel(city.qualityScore);
@@ -191,6 +197,9 @@ export default function SehirDetailPage({ params }: Props) {
           </section>
         )}
 
+        {/* Gerçek oyuncu isabeti (accuracy/stats) */}
+        <CityAccuracyPanel snapshot={accuracy} packageIds={city.packageIds} province={city.province} />
+
         {/* CTA */}
         <section className="text-center py-6 space-y-3">
           <Link
@@ -15,6 +15,7 @@ export default function sitemap(): MetadataRoute.Sitemap {
     { url: `${BASE}/bolgeler`, lastModified: now, changeFrequency: "monthly", priority: 0.8 },
     { url: `${BASE}/sehirler`, lastModified: now, changeFrequency: "monthly", priority: 0.8 },
     { url: `${BASE}/blog`, lastModified: now, changeFrequency: "weekly", priority: 0.8 },
+    { url: `${BASE}/liderlik`, lastModified: now, changeFrequency: "daily", priority: 0.7 },
     { url: `${BASE}/sss`, lastModified: now, changeFrequency: "monthly", priority: 0.7 },
     { url: `${BASE}/hakkimizda`, lastModified: now, changeFrequency: "monthly", priority: 0.5 },
   ];
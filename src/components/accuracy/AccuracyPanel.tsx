@@ -0,0 +1,87 @@
+import {
+  AccuracySnapshot,
+  AccuracyStats,
+  ACCURACY_MIN_GUESSES,
+  accuracyHeat,
+  combinePackageStats,
+  heatColor,
+  heatLabel,
+} from "@/services/accuracyStats";
+import { RegionId } from "@/types";
+
+function StatsGrid({ stats }: { stats: AccuracyStats | undefined }) {
+  const heat = accuracyHeat(stats);
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      <div className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-4 text-center">
+        <div className="text-lg font-bold" style={heat !== null ? { color: heatColor(heat) } : undefined}>
+          {heatLabel(heat)}
+        </div>
+        <div className="text-gray-500 text-xs mt-1">Oyuncular için</div>
+      </div>
+      <div className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-4 text-center">
+        <div className="text-lg font-bold text-gray-200">
+          {stats && heat !== null ? `${Math.round(stats.averageDistance)} km` : "—"}
+        </div>
+        <div className="text-gray-500 text-xs mt-1">Ortalama mesafe</div>
+      </div>
+      <div className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-4 text-center">
+        <div className="text-lg font-bold text-gray-200">
+          {stats && heat !== null ? stats.medianScore.toLocaleString("tr-TR") : "—"}
+        </div>
+        <div className="text-gray-500 text-xs mt-1">Medyan puan ({stats?.guesses || 0} tahmin)</div>
+      </div>
+    </div>
+  );
+}
+
+/** /sehirler/[slug] — bu konumun paketleri + ili; snapshot sayfa üretilirken sunucuda okunur */
+export function CityAccuracyPanel({ snapshot, packageIds, province }: { snapshot: AccuracySnapshot | null; packageIds: string[]; province: string }) {
+  const provinceStats = snapshot?.provinces?.[province];
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-xl font-semibold text-red-400">Oyuncular Ne Kadar İsabetli?</h2>
+      <StatsGrid stats={combinePackageStats(snapshot, packageIds)} />
+      {accuracyHeat(provinceStats) !== null && (
+        <p className="text-gray-500 text-sm">
+          {province} genelinde medyan puan {provinceStats!.medianScore.toLocaleString("tr-TR")},
+          ortalama mesafe {Math.round(provinceStats!.averageDistance)} km.
+        </p>
+      )}
+      <p className="text-gray-600 text-xs">
+        Çok oyunculu oyunlardaki gerçek tahminlerden hesaplanır; en az {ACCURACY_MIN_GUESSES} tahmin gerekir.
+      </p>
+    </section>
+  );
+}
+
+/** /bolgeler/[slug] — bölge özeti + illerin zorluk çubukları */
+export function RegionAccuracyPanel({ snapshot, region, provinces }: { snapshot: AccuracySnapshot | null; region: RegionId; provinces: string[] }) {
+  const rows = provinces
+    .map((province) => ({ province, heat: accuracyHeat(snapshot?.provinces?.[province]) }))
+    .sort((a, b) => (b.heat ?? -1) - (a.heat ?? -1) || a.province.localeCompare(b.province, "tr"));
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xl font-semibold text-red-400">Oyuncular İçin Zorluk</h2>
+      <StatsGrid stats={snapshot?.regions?.[region]} />
+      <ul className="space-y-2">
+        {rows.map(({ province, heat }) => (
+          <li key={province} className="flex items-center gap-3 text-sm">
+            <span className="w-32 shrink-0 text-gray-300 truncate">{province}</span>
+            <div className="flex-1 h-2 bg-gray-800 rounded-full overflow-hidden">
+              {heat !== null && (
+                <div
+                  className="h-full rounded-full"
+                  style={{ width: `${Math.max(heat * 100, 4)}%`, backgroundColor: heatColor(heat) }}
+                />
+              )}
+            </div>
+            <span className="w-24 shrink-0 text-right text-gray-500 text-xs">{heatLabel(heat)}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Share2, Copy } from "lucide-react";
+import { DailyRanking } from "@/services/dailyChallenge";
+
+interface DailyResultPanelProps {
+  shareCard: string | null;
+  leaderboard: DailyRanking[];
+}
+
+export function DailyResultPanel({ shareCard, leaderboard }: DailyResultPanelProps) {
+  const [copied, setCopied] = useState(false);
+
+  const share = async () => {
+    if (!shareCard) return;
+    try {
+      if (typeof navigator.share === "function") {
+        await navigator.share({ text: shareCard });
+        return;
+      }
+      await navigator.clipboard.writeText(shareCard);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Paylaşım iptal edildi
+    }
+  };
+
+  return (
+    <div className="space-y-3 mb-5">
+      {shareCard && (
+        <div className="bg-gray-800/50 rounded-xl p-3 text-center">
+          <pre className="text-sm whitespace-pre-wrap font-sans mb-3">{shareCard}</pre>
+          <button
+            onClick={share}
+            className="btn-secondary w-full py-2.5 flex items-center justify-center gap-2 text-sm"
+          >
+            {copied ? <Copy size={16} /> : <Share2 size={16} />}
+            {copied ? "Kopyalandı!" : "Skor Kartını Paylaş"}
+          </button>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs text-gray-400 mb-2">Günün liderleri</p>
+        {leaderboard.length === 0 ? (
+          <p className="text-xs text-gray-500">Henüz skor yok</p>
+        ) : (
+          <ol className="space-y-1">
+            {leaderboard.map((entry) => (
+              <li key={entry.uid} className="flex items-center gap-2 text-sm bg-gray-800/40 rounded-lg px-3 py-1.5">
+                <span className="w-6 text-gray-400">{entry.rank}.</span>
+                <span className="flex-1 truncate">{entry.name}</span>
+                <span className="font-bold text-yellow-400">{entry.score}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
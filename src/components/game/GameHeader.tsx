@@ -76,11 +76,11 @@ export function GameHeader({
           {!isRoundEnd && !isGameOver && (
             <div
               className={`stat-badge ${movesRemaining <= 1 ? "bg-orange-500/20 border-orange-500/50" : ""}`}
-              aria-label={`Hareket: ${movesRemaining}/${room?.moveLimit || 3}`}
+              aria-label={`Hareket: ${movesRemaining}/${room?.moveLimit ?? 3}`}
             >
               <Footprints size={14} className={movesRemaining <= 1 ? "text-orange-400" : "text-green-400"} aria-hidden="true" />
               <span className={movesRemaining <= 1 ? "text-orange-400" : ""}>
-                {movesRemaining}/{room?.moveLimit || 3}
+                {movesRemaining}/{room?.moveLimit ?? 3}
               </span>
             </div>
           )}
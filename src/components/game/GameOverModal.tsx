@@ -1,16 +1,24 @@
+import Link from "next/link";
 import { RotateCcw } from "lucide-react";
 import { Player } from "@/types";
 import { PLAYER_COLORS } from "@/constants/playerColors";
+import { DailyRanking } from "@/services/dailyChallenge";
+import { PersonalBests } from "@/services/playerProfile";
+import { DailyResultPanel } from "./DailyResultPanel";
 
 interface GameOverModalProps {
   players: Player[];
   playerId: string;
   isHost: boolean;
+  isSolo?: boolean; // tek oyuncu: "Tekrar Dene" + ana menü
+  daily?: { shareCard: string | null; leaderboard: DailyRanking[] } | null; // Günün Turu: tekrar yok
+  personalBests?: PersonalBests | null; // profil varsa: bu oyundan sonra rekorlar
+  hasProfile?: boolean;
   onRestart: () => void;
   onLeave: () => void;
 }
 
-export function GameOverModal({ players, playerId, isHost, onRestart, onLeave }: GameOverModalProps) {
+export function GameOverModal({ players, playerId, isHost, isSolo, daily, personalBests, hasProfile, onRestart, onLeave }: GameOverModalProps) {
   const finalRankings = [...players].sort((a, b) => b.totalScore - a.totalScore);
 
   return (
@@ -22,11 +30,14 @@ export function GameOverModal({ players, playerId, isHost, onRestart, onLeave }:
             className="text-2xl sm:text-3xl font-bold"
             style={{ fontFamily: "var(--font-display)" }}
           >
-            Oyun Bitti!
+            {daily ? "Günün Turu Bitti!" : "Oyun Bitti!"}
           </h2>
-          {finalRankings[0] && (
+          {finalRankings[0] && !isSolo && (
             <p className="text-yellow-400 mt-2">🎉 {finalRankings[0].name} kazandı!</p>
           )}
+          {finalRankings[0] && isSolo && (
+            <p className="text-yellow-400 mt-2">Toplam skor: {finalRankings[0].totalScore}</p>
+          )}
         </div>
 
         <div className="space-y-2 sm:space-y-3 mb-5">
@@ -66,20 +77,57 @@ export function GameOverModal({ players, playerId, isHost, onRestart, onLeave }:
           })}
         </div>
 
-        {isHost ? (
+        {personalBests ? (
+          <div className="grid grid-cols-2 gap-2 mb-5">
+            {[
+              { label: "En iyi tur", value: personalBests.bestRound, isNew: personalBests.newBestRound },
+              { label: "En iyi oyun", value: personalBests.bestGame, isNew: personalBests.newBestGame },
+            ].map((best) => (
+              <div key={best.label} className="bg-gray-800/50 rounded-xl p-3 text-center">
+                <p className="text-xs text-gray-400">{best.label}</p>
+                <p className="text-lg font-bold text-yellow-400">{best.value ?? "—"}</p>
+                {best.isNew && <p className="text-xs font-semibold text-green-400">Yeni rekor!</p>}
+              </div>
+            ))}
+          </div>
+        ) : hasProfile === false && (
+          <p className="text-center text-xs text-gray-500 mb-5">
+            Kariyer istatistiklerini tutmak için{" "}
+            <Link href="/profil" className="text-red-400 hover:text-red-300">profil oluştur</Link>
+          </p>
+        )}
+
+        {!isSolo && (
+          <p className="text-center text-xs text-gray-500 -mt-3 mb-5">
+            <Link href="/liderlik" target="_blank" className="hover:text-gray-300">
+              Haftalık ve tüm zamanlar liderlik tablosu →
+            </Link>
+          </p>
+        )}
+
+        {daily && <DailyResultPanel shareCard={daily.shareCard} leaderboard={daily.leaderboard} />}
+
+        {daily ? (
+          <button
+            onClick={onLeave}
+            className="btn-primary w-full py-3.5 sm:py-4 text-base"
+          >
+            Ana Menüye Dön
+          </button>
+        ) : isHost ? (
           <div className="space-y-2">
             <button
               onClick={onRestart}
               className="btn-primary w-full py-3.5 sm:py-4 flex items-center justify-center gap-2 text-base"
             >
               <RotateCcw size={20} />
-              Tekrar Oyna
+              {isSolo ? "Tekrar Dene" : "Tekrar Oyna"}
             </button>
             <button
               onClick={onLeave}
               className="w-full py-2 text-gray-400 hover:text-white transition text-sm"
             >
-              Lobiye Dön
+              {isSolo ? "Ana Menüye Dön" : "Lobiye Dön"}
             </button>
           </div>
         ) : (
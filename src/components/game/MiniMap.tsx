@@ -1,11 +1,14 @@
 import { RefObject, useRef, useCallback, useEffect } from "react";
-import { Maximize2, Minimize2, Check } from "lucide-react";
+import { Maximize2, Minimize2, Check, Flame } from "lucide-react";
 import { Coordinates } from "@/types";
 
 interface MiniMapProps {
   guessMapRef: RefObject<HTMLDivElement | null>;
   mapExpanded: boolean;
   setMapExpanded: (expanded: boolean) => void;
+  // İsabet ısı haritası (accuracyStats) — verilmezse düğme gösterilmez
+  heatmapOn?: boolean;
+  onToggleHeatmap?: () => void;
   hasGuessed: boolean;
   guessLocation: Coordinates | null;
   guessedCount: number;
@@ -21,6 +24,8 @@ export function MiniMap({
   guessMapRef,
   mapExpanded,
   setMapExpanded,
+  heatmapOn,
+  onToggleHeatmap,
   hasGuessed,
   guessLocation,
   guessedCount,
@@ -120,6 +125,23 @@ export function MiniMap({
         {mapExpanded ? <Minimize2 size={16} /> : <Maximize2 size={16} />}
       </button>
 
+      {onToggleHeatmap && mapExpanded && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleHeatmap();
+          }}
+          className={`absolute top-2 right-2 z-10 flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium ${
+            heatmapOn ? "bg-orange-500 text-white" : "bg-black/60 text-gray-200 hover:bg-black/80"
+          }`}
+          aria-pressed={!!heatmapOn}
+          title="Gerçek oyuncular için illerin zorluğu"
+        >
+          <Flame size={14} />
+          Zorluk haritası
+        </button>
+      )}
+
       <div ref={guessMapRef as React.RefObject<HTMLDivElement>} className="w-full h-full pointer-events-auto" />
 
       {!hasGuessed && (
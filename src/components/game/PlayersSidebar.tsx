@@ -1,13 +1,15 @@
-import { Home } from "lucide-react";
+import { Flag, Home, MapPinned } from "lucide-react";
 import { Player } from "@/types";
 import { PLAYER_COLORS } from "@/constants/playerColors";
 
 interface PlayersSidebarProps {
   players: Player[];
   returnToStart: () => void;
+  onSuggestLocation?: () => void;
+  onReportLocation?: () => void;
 }
 
-export function PlayersSidebar({ players, returnToStart }: PlayersSidebarProps) {
+export function PlayersSidebar({ players, returnToStart, onSuggestLocation, onReportLocation }: PlayersSidebarProps) {
   return (
     <div className="players-sidebar">
       <button
@@ -20,6 +22,30 @@ export function PlayersSidebar({ players, returnToStart }: PlayersSidebarProps)
         <span className="text-xs text-gray-300 hidden sm:inline">Başlangıç</span>
       </button>
 
+      {onSuggestLocation && (
+        <button
+          onClick={onSuggestLocation}
+          className="glass rounded-xl p-2.5 sm:p-3 flex items-center gap-2 hover:bg-white/10 transition-all active:scale-95 mb-2 touch-target"
+          title="Konum Öner"
+          aria-label="Bu konumu oyuna öner"
+        >
+          <MapPinned size={16} className="sm:w-[18px] sm:h-[18px] text-red-400" />
+          <span className="text-xs text-gray-300 hidden sm:inline">Konum öner</span>
+        </button>
+      )}
+
+      {onReportLocation && (
+        <button
+          onClick={onReportLocation}
+          className="glass rounded-xl p-2.5 sm:p-3 flex items-center gap-2 hover:bg-white/10 transition-all active:scale-95 mb-2 touch-target"
+          title="Konumu Bildir"
+          aria-label="Bu konumu bozuk olarak bildir"
+        >
+          <Flag size={16} className="sm:w-[18px] sm:h-[18px] text-orange-400" />
+          <span className="text-xs text-gray-300 hidden sm:inline">Bildir</span>
+        </button>
+      )}
+
       <div className="glass rounded-xl p-2 sm:p-3">
         <p className="text-gray-400 text-[10px] sm:text-xs mb-1.5">Oyuncular</p>
         <div className="flex flex-wrap items-center gap-1">
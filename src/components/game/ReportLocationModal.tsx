@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Flag, X } from "lucide-react";
+import { REPORT_REASONS, ReportReason } from "@/services/locationReports";
+
+interface ReportLocationModalProps {
+  onSubmit: (reason: ReportReason) => void;
+  onClose: () => void;
+}
+
+export function ReportLocationModal({ onSubmit, onClose }: ReportLocationModalProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-modal="true" aria-label="Konumu bildir">
+      <div className="modal-content glass p-5 sm:p-6 w-full sm:max-w-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <Flag size={20} className="text-orange-400" />
+            Bu Konumu Bildir
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Kapat">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-400 mb-4">
+          Yeterince oyuncu bildirirse konum oyundan çıkarılır. Bildirim tur sonunda gönderilir.
+        </p>
+
+        <div className="space-y-2 mb-5" role="radiogroup">
+          {(Object.entries(REPORT_REASONS) as [ReportReason, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              role="radio"
+              aria-checked={reason === id}
+              onClick={() => setReason(id)}
+              className={`w-full text-left px-3 py-2.5 rounded-xl text-sm transition-colors ${
+                reason === id ? "bg-orange-500/20 border border-orange-500/60 text-white" : "bg-gray-800/60 text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => reason && onSubmit(reason)}
+          disabled={!reason}
+          className="btn-primary w-full flex items-center justify-center gap-2"
+        >
+          <Flag size={16} />
+          Bildir
+        </button>
+      </div>
+    </div>
+  );
+}
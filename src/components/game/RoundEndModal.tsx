@@ -1,5 +1,5 @@
 import { MapPin, ArrowRight } from "lucide-react";
-import { Room, RoundResult } from "@/types";
+import { Room, RoundResult, SCORING_PROFILES, DEFAULT_SCORING_PROFILE } from "@/types";
 import { formatDistance } from "@/utils";
 
 interface RoundEndModalProps {
@@ -14,6 +14,9 @@ interface RoundEndModalProps {
 
 export function RoundEndModal({ room, playerId, isHost, sortedResults, onNextRound, isNextRoundLoading }: RoundEndModalProps) {
   const buttonLabel = room.currentRound >= room.totalRounds ? "Sonuçları Gör" : "Sonraki Tur";
+  // Puanı üreten profil: sonuçtaki kayıt (authority'nin kullandığı), yoksa odanın seçimi
+  const profileId = sortedResults[0]?.scoringProfile || room.scoringProfile || DEFAULT_SCORING_PROFILE;
+  const profile = SCORING_PROFILES[profileId] || SCORING_PROFILES[DEFAULT_SCORING_PROFILE];
 
   return (
     <div className="modal-overlay" role="dialog" aria-modal="true" aria-label={`Tur ${room.currentRound} Sonuçları`}>
@@ -25,6 +28,10 @@ export function RoundEndModal({ room, playerId, isHost, sortedResults, onNextRou
           Tur {room.currentRound} Sonuçları
         </h2>
 
+        <p className="text-center text-xs text-gray-400 mb-3">
+          {profile.icon} Puanlama: {profile.name}
+        </p>
+
         {room.currentLocationName && (
           <div className="text-center mb-4">
             <div className="inline-flex items-center gap-2 bg-green-500/20 border border-green-500/50 rounded-full px-4 py-2">
@@ -38,6 +45,13 @@ export function RoundEndModal({ room, playerId, isHost, sortedResults, onNextRou
 
         {/* BUG-012: Improved results layout for 375px */}
         <div className="space-y-2 sm:space-y-3 mb-5" aria-live="polite">
+          {/* Puanlar sunucu otoritesinden gelene kadar */}
+          {sortedResults.length === 0 && (
+            <div className="flex items-center justify-center gap-2 py-4 text-gray-400 text-sm">
+              <span className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+              Puanlar hesaplanıyor...
+            </div>
+          )}
           {sortedResults.map((result, i) => (
             <div
               key={result.playerId}
@@ -55,8 +69,13 @@ export function RoundEndModal({ room, playerId, isHost, sortedResults, onNextRou
                     <span className="text-gray-400 text-xs ml-1">(Sen)</span>
                   )}
                 </p>
-                <p className="text-xs sm:text-sm text-gray-400">
+                <p className="text-xs sm:text-sm text-gray-400 truncate">
                   {formatDistance(result.distance)}
+                  {result.guessProvince && (
+                    <span className={result.guessProvince === result.correctProvince ? "text-green-400" : ""}>
+                      {" · "}{result.guessProvince}{result.guessProvince === result.correctProvince ? " ✓" : ""}
+                    </span>
+                  )}
                 </p>
               </div>
               <span className="text-lg sm:text-xl font-bold text-yellow-400 flex-shrink-0">
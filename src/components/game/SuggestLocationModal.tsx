@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { MapPinned, Send, X } from "lucide-react";
+import { MAP_REGIONS, PanoPackage, RegionId } from "@/types";
+import {
+  ROAD_TYPE_LABELS,
+  SUBMISSION_HINT_TAGS,
+  SUBMISSION_MAX_TAGS,
+  SUBMISSION_NOTE_MAX,
+} from "@/services/locationSubmissions";
+
+export interface SuggestLocationFields {
+  roadType: PanoPackage["roadType"];
+  hintTags: string[];
+  region: RegionId | null;
+  note: string | null;
+}
+
+interface SuggestLocationModalProps {
+  // Tur içinde bölge sorulmaz — cevabı ele vermesin (onayda il'den çıkarılır)
+  askRegion: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (fields: SuggestLocationFields) => void;
+  onClose: () => void;
+}
+
+export function SuggestLocationModal({ askRegion, isSubmitting, error, onSubmit, onClose }: SuggestLocationModalProps) {
+  const [roadType, setRoadType] = useState<PanoPackage["roadType"]>("urban_street");
+  const [hintTags, setHintTags] = useState<string[]>([]);
+  const [region, setRegion] = useState<RegionId | "">("");
+  const [note, setNote] = useState("");
+
+  const toggleTag = (tag: string) => {
+    setHintTags((tags) =>
+      tags.includes(tag) ? tags.filter((t) => t !== tag)
+        : tags.length < SUBMISSION_MAX_TAGS ? [...tags, tag] : tags
+    );
+  };
+
+  const handleSubmit = () => {
+    onSubmit({ roadType, hintTags, region: region || null, note: note.trim() || null });
+  };
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-modal="true" aria-label="Konum öner">
+      <div className="modal-content glass p-5 sm:p-6 w-full sm:max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <MapPinned size={20} className="text-red-400" />
+            Bu Konumu Öner
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Kapat">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-400 mb-4">
+          Baktığın panorama ve yön kaydedilir. Onaylanan öneriler oyuna eklenir.
+        </p>
+
+        <label className="block text-xs text-gray-400 mb-1.5" htmlFor="suggest-road-type">Yol tipi</label>
+        <select
+          id="suggest-road-type"
+          value={roadType}
+          onChange={(e) => setRoadType(e.target.value as PanoPackage["roadType"])}
+          className="w-full mb-4 rounded-lg bg-gray-800 px-3 py-2 text-sm"
+        >
+          {Object.entries(ROAD_TYPE_LABELS).map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+
+        {askRegion && (
+          <>
+            <label className="block text-xs text-gray-400 mb-1.5" htmlFor="suggest-region">Bölge (isteğe bağlı)</label>
+            <select
+              id="suggest-region"
+              value={region}
+              onChange={(e) => setRegion(e.target.value as RegionId | "")}
+              className="w-full mb-4 rounded-lg bg-gray-800 px-3 py-2 text-sm"
+            >
+              <option value="">Otomatik</option>
+              {Object.entries(MAP_REGIONS).map(([id, name]) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+          </>
+        )}
+
+        <p className="text-xs text-gray-400 mb-1.5">İpuçları (en fazla {SUBMISSION_MAX_TAGS})</p>
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          {Object.entries(SUBMISSION_HINT_TAGS).map(([tag, label]) => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              aria-pressed={hintTags.includes(tag)}
+              className={`px-2.5 py-1 rounded-full text-xs transition-colors ${
+                hintTags.includes(tag) ? "bg-red-500 text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <label className="block text-xs text-gray-400 mb-1.5" htmlFor="suggest-note">Not (isteğe bağlı)</label>
+        <textarea
+          id="suggest-note"
+          value={note}
+          maxLength={SUBMISSION_NOTE_MAX}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          className="w-full mb-4 rounded-lg bg-gray-800 px-3 py-2 text-sm resize-none"
+        />
+
+        {error && <p className="text-sm text-red-400 mb-3" role="alert">{error}</p>}
+
+        <button onClick={handleSubmit} disabled={isSubmitting} className="btn-primary w-full flex items-center justify-center gap-2">
+          <Send size={16} />
+          {isSubmitting ? "Gönderiliyor..." : "Öneriyi Gönder"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { ChevronLeft, ChevronRight, UserRound } from "lucide-react";
+import { GameMode, GAME_MODE_CONFIG, MAP_REGIONS, RegionId } from "@/types";
+import { useLeaderboard } from "@/hooks/useLeaderboard";
+import { LeaderboardFilter, LEADERBOARD_MIN_ROUNDS } from "@/services/leaderboard";
+
+const FILTER_OPTIONS: { value: string; label: string; filter: LeaderboardFilter }[] = [
+  { value: "all", label: "Tüm oyunlar", filter: { type: "all" } },
+  ...(Object.keys(GAME_MODE_CONFIG) as GameMode[]).map((mode) => ({
+    value: `mode:${mode}`,
+    label: GAME_MODE_CONFIG[mode].name,
+    filter: { type: "mode", mode } as LeaderboardFilter,
+  })),
+  ...(Object.keys(MAP_REGIONS) as RegionId[]).map((region) => ({
+    value: `region:${region}`,
+    label: `${MAP_REGIONS[region]} haritası`,
+    filter: { type: "region", region } as LeaderboardFilter,
+  })),
+];
+
+function filterValue(filter: LeaderboardFilter): string {
+  if (filter.type === "mode") return `mode:${filter.mode}`;
+  if (filter.type === "region") return `region:${filter.region}`;
+  return "all";
+}
+
+export function LeaderboardView() {
+  const { scope, setScope, filter, setFilter, uid, isLoading, page, setPage, standing, myRank, goToMyRank } = useLeaderboard();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded-lg overflow-hidden border border-gray-700" role="tablist" aria-label="Dönem">
+          {([["weekly", "Bu Hafta"], ["alltime", "Tüm Zamanlar"]] as const).map(([value, label]) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={scope === value}
+              onClick={() => setScope(value)}
+              className={`px-4 py-2 text-sm transition-colors ${
+                scope === value ? "bg-red-600 text-white" : "text-gray-400 hover:text-white"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="sr-only" htmlFor="leaderboard-filter">Filtre</label>
+        <select
+          id="leaderboard-filter"
+          value={filterValue(filter)}
+          onChange={(e) => {
+            const option = FILTER_OPTIONS.find((o) => o.value === e.target.value);
+            if (option) setFilter(option.filter);
+          }}
+          className="input-dark text-sm py-2 w-auto"
+        >
+          {FILTER_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {standing ? (
+        <button
+          onClick={goToMyRank}
+          disabled={!myRank}
+          className={`flex items-center gap-2 text-sm bg-gray-800/50 border border-gray-700/50 rounded-xl px-4 py-3 w-full text-left transition-colors ${
+            myRank ? "hover:border-red-500/50" : "cursor-default"
+          }`}
+        >
+          <UserRound size={16} className="text-red-400" />
+          <span className="flex-1">
+            Sıralaman: <strong>{standing.rank}.</strong> / {standing.players} oyuncu ({standing.score} puan)
+          </span>
+          {myRank && <span className="text-gray-500">Göster</span>}
+        </button>
+      ) : (
+        uid && !isLoading && (
+          <p className="text-sm text-gray-500">Bu tabloda henüz kaydın yok.</p>
+        )
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500">Yükleniyor…</p>
+      ) : page.total === 0 ? (
+        <p className="text-gray-500">Henüz skor yok — en az {LEADERBOARD_MIN_ROUNDS} turluk bir çok oyunculu oyunu bitir, ilk sen ol.</p>
+      ) : (
+        <ol className="space-y-1">
+          {page.entries.map((entry) => (
+            <li
+              key={entry.id}
+              className={`flex items-center gap-3 text-sm rounded-lg px-3 py-2 ${
+                entry.uid === uid ? "bg-red-500/15 ring-1 ring-red-500/40" : "bg-gray-800/40"
+              }`}
+            >
+              <span className="w-10 text-gray-400">{entry.rank}.</span>
+              <span className="flex-1 truncate">{entry.name}</span>
+              <span className="text-gray-500 hidden sm:inline">{entry.rounds} tur</span>
+              <span className="font-bold text-yellow-400 w-16 text-right">{entry.score}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {page.pageCount > 1 && (
+        <nav className="flex items-center justify-between text-sm" aria-label="Sayfalar">
+          <button
+            onClick={() => setPage(page.page - 1)}
+            disabled={page.page === 0}
+            className="flex items-center gap-1 text-gray-400 hover:text-white disabled:opacity-40"
+          >
+            <ChevronLeft size={16} /> Önceki
+          </button>
+          <span className="text-gray-500">{page.page + 1} / {page.pageCount}</span>
+          <button
+            onClick={() => setPage(page.page + 1)}
+            disabled={page.page >= page.pageCount - 1}
+            className="flex items-center gap-1 text-gray-400 hover:text-white disabled:opacity-40"
+          >
+            Sonraki <ChevronRight size={16} />
+          </button>
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { KeyRound, RefreshCw } from "lucide-react";
+import { useOpsMetrics } from "@/hooks/useOpsMetrics";
+import { Distribution } from "@/services/opsMetrics";
+import { API_CALL_KINDS, BudgetReport } from "@/services/apiBudget";
+import { OPS_METRICS } from "@/config/production";
+
+const HOUR = 60 * 60 * 1000;
+const BUDGET_DAYS = 7;
+
+const RANGES = [
+  { label: "Son 1 saat", ms: HOUR },
+  { label: "Son 24 saat", ms: 24 * HOUR },
+  { label: "Son 7 gün", ms: 7 * 24 * HOUR },
+  { label: "Son 30 gün", ms: 30 * 24 * HOUR },
+];
+
+const ms = (value: number | null) => (value === null ? "—" : `${Math.round(value)} ms`);
+const usd = (value: number | null) => (value === null ? "—" : `$${value.toFixed(3)}`);
+const pct = (value: number | null) => (value === null ? "—" : `%${(value * 100).toFixed(1)}`);
+
+function Stat({ label, value, hint, alert }: { label: string; value: string | number; hint?: string; alert?: boolean }) {
+  return (
+    <div className="glass rounded-xl p-4">
+      <p className="text-xs text-gray-400">{label}</p>
+      <p className={`text-2xl font-bold ${alert ? "text-red-400" : ""}`}>{value}</p>
+      {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+function BudgetSection({ report }: { report: BudgetReport }) {
+  const [today, ...previous] = report.days;
+  if (!today) return null;
+  const state = today.exhausted ? "Tükendi" : today.degraded ? "Yalnız statik" : "Normal";
+
+  return (
+    <section className="space-y-2">
+      <h2 className="text-lg font-semibold">Street View bütçesi <span className="text-sm text-gray-500 font-normal">({today.day}, UTC)</span></h2>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <Stat label="Çağrı / günlük sınır" value={`${today.calls} / ${report.dailyCalls}`} hint={pct(today.ratio)} alert={today.degraded} />
+        <Stat label="Harcama / bütçe" value={usd(today.costUsd)} hint={`$${report.dailyBudgetUsd.toFixed(2)} günlük`} alert={today.degraded} />
+        <Stat label="Durum" value={state} hint={`${report.degradeAt} çağrıda statiğe geçer`} alert={today.degraded} />
+        <div className="glass rounded-xl p-4 space-y-1 text-sm">
+          {API_CALL_KINDS.map((kind) => (
+            <p key={kind} className="flex justify-between"><span className="text-gray-400">{kind}</span><span>{today.kinds[kind]}</span></p>
+          ))}
+        </div>
+      </div>
+
+      {today.rooms.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-gray-400 text-left">
+              <tr>
+                <th className="py-2 pr-4">Oda / oyuncu</th>
+                <th className="py-2 pr-4">Çağrı</th>
+                <th className="py-2 pr-4">Maliyet</th>
+                {API_CALL_KINDS.map((kind) => <th key={kind} className="py-2 pr-4">{kind}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {today.rooms.map((row) => (
+                <tr key={row.scope} className="border-t border-white/10">
+                  <td className="py-2 pr-4">{row.scope}</td>
+                  <td className="py-2 pr-4">{row.calls}</td>
+                  <td className="py-2 pr-4">{usd(row.costUsd)}</td>
+                  {API_CALL_KINDS.map((kind) => <td key={kind} className="py-2 pr-4">{row.kinds[kind] || 0}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-1">Oda başına sınır: {report.roomDailyCalls} dinamik çağrı / gün</p>
+        </div>
+      )}
+
+      {previous.length > 0 && (
+        <div className="flex flex-wrap gap-3 text-xs text-gray-400">
+          {previous.map((day) => (
+            <span key={day.day} className={day.degraded ? "text-red-400" : ""}>
+              {day.day}: {day.calls} çağrı · {usd(day.costUsd)}
+            </span>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function Percentiles({ title, dist, format }: { title: string; dist: Distribution; format: (value: number | null) => string }) {
+  return (
+    <div className="glass rounded-xl p-4 space-y-2">
+      <p className="text-sm font-semibold">{title} <span className="text-gray-500 font-normal">({dist.count} tur)</span></p>
+      <div className="grid grid-cols-4 gap-2 text-sm">
+        {(["p50", "p90", "p99", "max"] as const).map((key) => (
+          <div key={key}>
+            <p className="text-xs text-gray-400">{key}</p>
+            <p>{format(dist[key])}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function OpsDashboard() {
+  const { secret, setSecret, summary, budget, isLoading, error, load, loadBudget } = useOpsMetrics();
+  const [secretInput, setSecretInput] = useState("");
+  const [rangeMs, setRangeMs] = useState(RANGES[1].ms);
+  const [roomId, setRoomId] = useState("");
+
+  const refresh = () => {
+    const to = Date.now();
+    load(to - rangeMs, to, roomId);
+    loadBudget(BUDGET_DAYS);
+  };
+
+  // Aralık değişince yeniden yükle; oda kodu Enter / Yenile ile
+  useEffect(() => {
+    if (secret) refresh();
+  }, [secret, rangeMs]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!secret) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSecret(secretInput.trim());
+        }}
+        className="flex flex-col sm:flex-row gap-3 max-w-xl"
+      >
+        <input
+          type="password"
+          placeholder="OPS_SECRET"
+          value={secretInput}
+          onChange={(e) => setSecretInput(e.target.value)}
+          className="input-dark flex-1"
+        />
+        <button type="submit" disabled={!secretInput.trim()} className="btn-primary flex items-center justify-center gap-2">
+          <KeyRound size={16} />
+          Giriş
+        </button>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          refresh();
+        }}
+        className="grid sm:grid-cols-4 gap-3"
+      >
+        <select value={rangeMs} onChange={(e) => setRangeMs(Number(e.target.value))} className="input-dark" aria-label="Aralık">
+          {RANGES.map((range) => (
+            <option key={range.ms} value={range.ms}>{range.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Oda kodu (tümü)"
+          value={roomId}
+          maxLength={6}
+          onChange={(e) => setRoomId(e.target.value.toUpperCase())}
+          className="input-dark"
+        />
+        <button type="submit" disabled={isLoading} className="btn-secondary flex items-center justify-center gap-2">
+          <RefreshCw size={16} className={isLoading ? "animate-spin" : ""} />
+          Yenile
+        </button>
+        <button type="button" onClick={() => setSecret("")} className="btn-secondary">
+          Çıkış
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {budget && <BudgetSection report={budget} />}
+
+      {summary && (
+        <>
+          <p className="text-xs text-gray-500">
+            {new Date(summary.from).toLocaleString("tr-TR")} – {new Date(summary.to).toLocaleString("tr-TR")}
+            {summary.roomId && ` · oda ${summary.roomId}`} · {summary.sessions} örneklenmiş oturum, {summary.records} kayıt
+          </p>
+
+          <section className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <Stat label="Tur" value={summary.rounds} />
+            <Stat
+              label={`SLO ihlali (>${OPS_METRICS.ROUND_END_SLO_MS / 1000} sn)`}
+              value={summary.sloBreaches}
+              hint={pct(summary.sloBreachRate)}
+              alert={summary.sloBreaches > 0}
+            />
+            <Stat label="Watchdog eskalasyonu" value={summary.watchdogEscalations} alert={summary.watchdogEscalations > 0} />
+            <Stat label="Hata" value={summary.errors} alert={summary.errors > 0} />
+          </section>
+
+          <section className="grid sm:grid-cols-2 gap-3">
+            <Percentiles title="RoundEndLatency (süre dolunca)" dist={summary.roundEndLatency} format={ms} />
+            <Percentiles title="Erken bitiş (herkes tahmin etti)" dist={summary.earlyFinish} format={ms} />
+            <Percentiles title="Street View maliyeti / tur" dist={summary.streetView.perRoundUsd} format={usd} />
+            <div className="glass rounded-xl p-4 grid grid-cols-2 gap-2 text-sm">
+              <div><p className="text-xs text-gray-400">Toplam maliyet</p><p>{usd(summary.streetView.totalUsd)}</p></div>
+              <div><p className="text-xs text-gray-400">Ortalama / tur</p><p>{usd(summary.streetView.avgUsdPerRound)}</p></div>
+              <div><p className="text-xs text-gray-400">Metadata çağrısı</p><p>{summary.streetView.calls}</p></div>
+              <div><p className="text-xs text-gray-400">Tur (sekme)</p><p>{summary.streetView.rounds}</p></div>
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">Sayaçlar <span className="text-sm text-gray-500 font-normal">({summary.counters.sessions} oturumun son görüntüsü)</span></h2>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat label="Kilit denemesi / alınan" value={`${summary.counters.roundEndLockAcquireAttempts} / ${summary.counters.roundEndLockAcquired}`} />
+              <Stat label="Hayalet oyuncu silindi" value={summary.counters.ghostRemovedCount} />
+              <Stat label="Host değişimi" value={summary.counters.hostMigrationCount} />
+              <Stat label="Watchdog tetik / hata" value={`${summary.counters.watchdogFiredCount} / ${summary.counters.watchdogFailureCount}`} />
+            </div>
+          </section>
+
+          {summary.rooms.length > 0 && (
+            <section className="space-y-2">
+              <h2 className="text-lg font-semibold">Odalar</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-gray-400 text-left">
+                    <tr>
+                      <th className="py-2 pr-4">Oda</th>
+                      <th className="py-2 pr-4">Tur</th>
+                      <th className="py-2 pr-4">Latency p90</th>
+                      <th className="py-2 pr-4">SLO ihlali</th>
+                      <th className="py-2 pr-4">Eskalasyon</th>
+                      <th className="py-2 pr-4">Street View</th>
+                      <th className="py-2">Hata</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.rooms.map((row) => (
+                      <tr key={row.roomId} className="border-t border-white/10">
+                        <td className="py-2 pr-4">
+                          {row.roomId === "—" ? row.roomId : (
+                            <button type="button" onClick={() => setRoomId(row.roomId)} className="text-red-400 hover:underline">
+                              {row.roomId}
+                            </button>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4">{row.rounds}</td>
+                        <td className="py-2 pr-4">{ms(row.latencyP90)}</td>
+                        <td className={`py-2 pr-4 ${row.sloBreaches ? "text-red-400" : ""}`}>{row.sloBreaches}</td>
+                        <td className={`py-2 pr-4 ${row.watchdogEscalations ? "text-red-400" : ""}`}>{row.watchdogEscalations}</td>
+                        <td className="py-2 pr-4">{usd(row.streetViewUsd)}</td>
+                        <td className="py-2">{row.errors}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
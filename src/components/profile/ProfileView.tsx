@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2, UserPlus } from "lucide-react";
+import { GAME_MODE_CONFIG } from "@/types";
+import { useProfile } from "@/hooks/useProfile";
+import { profileStats } from "@/services/playerProfile";
+
+export function ProfileView() {
+  const { profile, isLoading, createProfile, deleteProfile } = useProfile();
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-gray-500">Yükleniyor…</p>;
+  }
+
+  if (!profile) {
+    return (
+      <section className="space-y-4 max-w-md">
+        <h2 className="text-xl font-semibold text-red-400">Profil oluştur</h2>
+        <p className="text-gray-400 text-sm">
+          Kayıt yok: profil bu tarayıcının anonim oturumuna bağlıdır. İstediğin zaman silebilirsin.
+        </p>
+        <input
+          type="text"
+          placeholder="Oyuncu adı"
+          value={name}
+          maxLength={20}
+          onChange={(e) => setName(e.target.value)}
+          className="input-dark"
+        />
+        <button
+          onClick={() => run(() => createProfile(name))}
+          disabled={!name.trim() || busy}
+          className="btn-primary w-full py-3 flex items-center justify-center gap-2"
+        >
+          <UserPlus size={18} />
+          Profil Oluştur
+        </button>
+      </section>
+    );
+  }
+
+  const stats = profileStats(profile);
+  const summary = [
+    { n: profile.games, l: "Oyun" },
+    { n: profile.rounds, l: "Tur" },
+    { n: stats.averageScore, l: "Ort. Tur Puanı" },
+    { n: stats.averageDistance !== null ? `${stats.averageDistance} km` : "—", l: "Ort. Mesafe" },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold text-red-400">{profile.name}</h2>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {summary.map((s) => (
+            <div key={s.l} className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-4 text-center">
+              <div className="text-2xl font-bold text-red-400">{s.n}</div>
+              <div className="text-gray-500 text-sm mt-1">{s.l}</div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold text-red-400">Kişisel Rekorlar</h2>
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-4">
+            <p className="text-gray-500 text-sm">En iyi tur</p>
+            {profile.bestRound ? (
+              <>
+                <p className="text-2xl font-bold text-yellow-400">{profile.bestRound.score}</p>
+                <p className="text-gray-400 text-sm">
+                  {profile.bestRound.locationName || "Bilinmeyen konum"}
+                  {profile.bestRound.distance !== null && ` · ${profile.bestRound.distance} km`}
+                </p>
+              </>
+            ) : (
+              <p className="text-gray-400">—</p>
+            )}
+          </div>
+          <div className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-4">
+            <p className="text-gray-500 text-sm">En iyi oyun</p>
+            {profile.bestGame ? (
+              <>
+                <p className="text-2xl font-bold text-yellow-400">{profile.bestGame.score}</p>
+                <p className="text-gray-400 text-sm">
+                  {profile.bestGame.rounds} tur · {GAME_MODE_CONFIG[profile.bestGame.mode].name}
+                </p>
+              </>
+            ) : (
+              <p className="text-gray-400">—</p>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {stats.modes.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold text-red-400">Mod Ortalamaları</h2>
+          <div className="grid sm:grid-cols-2 gap-4">
+            {stats.modes.map((m) => (
+              <div key={m.mode} className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-4">
+                <p className="font-semibold">{GAME_MODE_CONFIG[m.mode].name}</p>
+                <p className="text-gray-400 text-sm">
+                  {m.games} oyun · oyun başına {m.averageGameScore} · tur başına {m.averageRoundScore}
+                </p>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {stats.regions.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold text-red-400">Bölgelere Göre İsabet</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="py-2 font-normal">Bölge</th>
+                <th className="py-2 font-normal text-right">Tur</th>
+                <th className="py-2 font-normal text-right">Ort. Puan</th>
+                <th className="py-2 font-normal text-right">Ort. Mesafe</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.regions.map((r) => (
+                <tr key={r.region} className="border-t border-gray-800">
+                  <td className="py-2">{r.name}</td>
+                  <td className="py-2 text-right text-gray-400">{r.rounds}</td>
+                  <td className="py-2 text-right text-yellow-400">{r.averageScore}</td>
+                  <td className="py-2 text-right text-gray-400">
+                    {r.averageDistance !== null ? `${r.averageDistance} km` : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <button
+        onClick={() => {
+          if (window.confirm("Profil ve tüm istatistikler silinsin mi?")) void run(deleteProfile);
+        }}
+        disabled={busy}
+        className="text-sm text-gray-500 hover:text-red-400 transition-colors flex items-center gap-2"
+      >
+        <Trash2 size={16} />
+        Profili sil
+      </button>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { RefObject } from "react";
 import { RefreshCw, AlertTriangle, WifiOff, LogOut } from "lucide-react";
 import { Room, Player, Coordinates, RoundResult } from "@/types";
 import { GameNotification } from "@/hooks";
+import { DailyRanking } from "@/services/dailyChallenge";
+import { PersonalBests } from "@/services/playerProfile";
 import { GameHeader } from "@/components/game/GameHeader";
 import { PlayersSidebar } from "@/components/game/PlayersSidebar";
 import { MiniMap } from "@/components/game/MiniMap";
@@ -17,6 +19,10 @@ interface GameScreenProps {
   currentPlayer: Player | null;
   players: Player[];
   isHost: boolean;
+  isSolo?: boolean;
+  daily?: { shareCard: string | null; leaderboard: DailyRanking[] } | null;
+  personalBests?: PersonalBests | null;
+  hasProfile?: boolean;
   // Refs
   streetViewRef: RefObject<HTMLDivElement | null>;
   guessMapRef: RefObject<HTMLDivElement | null>;
@@ -32,6 +38,12 @@ interface GameScreenProps {
   // Map state
   mapExpanded: boolean;
   setMapExpanded: (expanded: boolean) => void;
+  heatmapOn?: boolean;
+  onToggleHeatmap?: () => void;
+  // Topluluk konum önerisi (tur içinden)
+  onSuggestLocation?: () => void;
+  // Bozuk konum bildirimi (undefined = bu tur bildirildi)
+  onReportLocation?: () => void;
   guessLocation: Coordinates | null;
   // Toast
   showToast: string | null;
@@ -61,6 +73,10 @@ export function GameScreen({
   currentPlayer,
   players,
   isHost,
+  isSolo,
+  daily,
+  personalBests,
+  hasProfile,
   streetViewRef,
   guessMapRef,
   streetViewLoading,
@@ -72,6 +88,10 @@ export function GameScreen({
   formattedTime,
   mapExpanded,
   setMapExpanded,
+  heatmapOn,
+  onToggleHeatmap,
+  onSuggestLocation,
+  onReportLocation,
   guessLocation,
   showToast,
   notifications,
@@ -158,7 +178,12 @@ export function GameScreen({
 
       {/* Players Sidebar */}
       {!isRoundEnd && !isGameOver && (
-        <PlayersSidebar players={players} returnToStart={returnToStart} />
+        <PlayersSidebar
+          players={players}
+          returnToStart={returnToStart}
+          onSuggestLocation={onSuggestLocation}
+          onReportLocation={onReportLocation}
+        />
       )}
 
       {/* BUG-009 FIX: Pano load failure overlay with skip option */}
@@ -211,6 +236,8 @@ export function GameScreen({
           guessMapRef={guessMapRef}
           mapExpanded={mapExpanded}
           setMapExpanded={setMapExpanded}
+          heatmapOn={heatmapOn}
+          onToggleHeatmap={onToggleHeatmap}
           hasGuessed={hasGuessed}
           guessLocation={guessLocation}
           guessedCount={guessedCount}
@@ -268,6 +295,10 @@ export function GameScreen({
           players={players}
           playerId={playerId}
           isHost={isHost}
+          isSolo={isSolo}
+          daily={daily}
+          personalBests={personalBests}
+          hasProfile={hasProfile}
           onRestart={onRestart}
           onLeave={onLeaveRoom}
         />
@@ -1,5 +1,24 @@
-import { Users, Crown, Copy, Check, Play, MessageCircle } from "lucide-react";
-import { Room, Player, GameMode, GAME_MODE_CONFIG } from "@/types";
+import { useState } from "react";
+import { Users, Crown, Copy, Check, Play, MessageCircle, Minus, Plus, Map as MapIcon, Gauge } from "lucide-react";
+import {
+  Room,
+  Player,
+  GameMode,
+  GAME_MODE_CONFIG,
+  ScoringProfileId,
+  SCORING_PROFILES,
+  DEFAULT_SCORING_PROFILE,
+  RoomSettings,
+  MapFilter,
+  RegionId,
+  MAP_REGIONS,
+  AdaptiveDifficultyId,
+  ADAPTIVE_DIFFICULTY_LEVELS,
+} from "@/types";
+import { GAME_SETTINGS } from "@/config/production";
+import { TURKEY_PROVINCES } from "@/data/turkeyProvinces";
+import { describeMapFilter } from "@/services/mapFilter";
+import { roomDifficultyMix, formatDifficultyMix } from "@/services/adaptiveDifficulty";
 import { PLAYER_COLORS } from "@/constants/playerColors";
 import { Toast } from "@/components/shared/Toast";
 
@@ -14,6 +33,8 @@ interface LobbyScreenProps {
   onCopyRoomCode: () => void;
   onShareWhatsApp: () => void;
   onSetGameMode: (mode: GameMode) => void;
+  onSetScoringProfile: (profile: ScoringProfileId) => void;
+  onUpdateSettings: (settings: Partial<RoomSettings>) => void;
   onStartGame: () => void;
   onLeaveRoom: () => void;
 }
@@ -29,10 +50,16 @@ export function LobbyScreen({
   onCopyRoomCode,
   onShareWhatsApp,
   onSetGameMode,
+  onSetScoringProfile,
+  onUpdateSettings,
   onStartGame,
   onLeaveRoom,
 }: LobbyScreenProps) {
   const modeConfig = GAME_MODE_CONFIG[room.gameMode || "urban"];
+  const noMoving = room.moveLimit === GAME_SETTINGS.NO_MOVES;
+  const scoringProfile = room.scoringProfile || DEFAULT_SCORING_PROFILE;
+  const profileConfig = SCORING_PROFILES[scoringProfile] || SCORING_PROFILES[DEFAULT_SCORING_PROFILE];
+  const difficulty = roomDifficultyMix(room);
 
   return (
     <main className="min-h-screen overflow-y-auto py-6 px-4 bg-gradient-to-br from-[#0a0a0f] via-[#12121a] to-[#0a0a0f]">
@@ -76,11 +103,27 @@ export function LobbyScreen({
               </div>
             </div>
             <div className="text-right">
-              <p className="text-sm text-gray-400">{modeConfig.timeLimit}sn</p>
-              <p className="text-xs text-gray-500">{modeConfig.moveLimit} hareket</p>
+              <p className="text-sm text-gray-400">{room.totalRounds} tur · {room.timeLimit}sn</p>
+              <p className="text-xs text-gray-500">{noMoving ? "Hareket yok" : `${room.moveLimit} hareket`}</p>
             </div>
           </div>
 
+          {/* Map Info */}
+          <div className="mb-4 p-3 rounded-xl bg-gray-800/30 flex items-center gap-3">
+            <MapIcon size={20} className="text-gray-400" />
+            <p className="text-sm">
+              <span className="text-gray-400">Harita:</span> {describeMapFilter(room.mapFilter)}
+            </p>
+          </div>
+
+          {/* Map Selection (Host only) */}
+          {isHost && (
+            <MapPicker
+              filter={room.mapFilter || null}
+              onChange={(mapFilter) => onUpdateSettings({ mapFilter })}
+            />
+          )}
+
           {/* Mode Selection (Host only) */}
           {isHost && (
             <div className="mb-4 grid grid-cols-2 gap-2">
@@ -103,6 +146,123 @@ export function LobbyScreen({
             </div>
           )}
 
+          {/* Room Settings (Host only) — değişiklikler odaya yazılır, herkes canlı görür */}
+          {isHost && (
+            <div className="mb-4 p-3 rounded-xl bg-gray-800/30 space-y-2" aria-label="Oda ayarları">
+              <SettingStepper
+                label="Tur sayısı"
+                value={room.totalRounds}
+                display={`${room.totalRounds}`}
+                min={GAME_SETTINGS.MIN_ROUNDS}
+                max={GAME_SETTINGS.MAX_ROUNDS}
+                step={1}
+                onChange={(totalRounds) => onUpdateSettings({ totalRounds })}
+              />
+              <SettingStepper
+                label="Tur süresi"
+                value={room.timeLimit}
+                display={`${room.timeLimit}sn`}
+                min={GAME_SETTINGS.MIN_TIME_LIMIT}
+                max={GAME_SETTINGS.MAX_TIME_LIMIT}
+                step={GAME_SETTINGS.TIME_LIMIT_STEP}
+                onChange={(timeLimit) => onUpdateSettings({ timeLimit })}
+              />
+              <SettingStepper
+                label="Hareket hakkı"
+                value={room.moveLimit}
+                display={noMoving ? "—" : `${room.moveLimit}`}
+                min={GAME_SETTINGS.MIN_MOVES}
+                max={GAME_SETTINGS.MAX_MOVES}
+                step={1}
+                disabled={noMoving}
+                onChange={(moveLimit) => onUpdateSettings({ moveLimit })}
+              />
+              <label className="flex items-center justify-between text-sm cursor-pointer pt-1">
+                <span className="text-gray-300">Hareket yok (sadece bakış)</span>
+                <input
+                  type="checkbox"
+                  checked={noMoving}
+                  onChange={(e) =>
+                    onUpdateSettings({ moveLimit: e.target.checked ? GAME_SETTINGS.NO_MOVES : modeConfig.moveLimit })
+                  }
+                  className="w-4 h-4 accent-red-500"
+                />
+              </label>
+            </div>
+          )}
+
+          {/* Scoring Profile Info */}
+          <div className="mb-4 p-3 rounded-xl bg-gray-800/30 flex items-center gap-3">
+            <span className="text-2xl">{profileConfig.icon}</span>
+            <div>
+              <p className="font-medium">Puanlama: {profileConfig.name}</p>
+              <p className="text-gray-500 text-xs">{profileConfig.description}</p>
+            </div>
+          </div>
+
+          {/* Scoring Profile Selection (Host only) */}
+          {isHost && (
+            <div className="mb-4 grid grid-cols-2 gap-2" role="radiogroup" aria-label="Puanlama profili">
+              {(Object.keys(SCORING_PROFILES) as ScoringProfileId[]).map((profile) => {
+                const config = SCORING_PROFILES[profile];
+                return (
+                  <button
+                    key={profile}
+                    onClick={() => onSetScoringProfile(profile)}
+                    role="radio"
+                    aria-checked={scoringProfile === profile}
+                    className={`p-2 rounded-lg border transition-all text-sm ${
+                      scoringProfile === profile
+                        ? "border-red-500 bg-red-500/10"
+                        : "border-gray-700 hover:border-gray-600"
+                    }`}
+                  >
+                    {config.icon} {config.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Adaptive Difficulty (Host only) — seçilen karışım ilk turdan itibaren kullanılır */}
+          {isHost && (
+            <div className="mb-4 p-3 rounded-xl bg-gray-800/30 space-y-2" aria-label="Adaptif zorluk">
+              <div className="flex items-center gap-3">
+                <Gauge size={20} className="text-gray-400" />
+                <div className="flex-1">
+                  <p className="text-sm">
+                    <span className="text-gray-400">Zorluk karışımı:</span> {formatDifficultyMix(difficulty.mix)}
+                    <span className="text-gray-500 text-xs"> (kolay/orta/zor)</span>
+                  </p>
+                  <p className="text-gray-500 text-xs">
+                    {difficulty.level
+                      ? `Adaptif: ${ADAPTIVE_DIFFICULTY_LEVELS[difficulty.level].description}` +
+                        (difficulty.average !== null ? ` · son ortalama ${difficulty.average}` : " · henüz tur yok")
+                      : "Sabit karışım"}
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Adaptif zorluk">
+                {([null, ...Object.keys(ADAPTIVE_DIFFICULTY_LEVELS)] as (AdaptiveDifficultyId | null)[]).map((level) => {
+                  const selected = (room.adaptiveDifficulty || null) === level;
+                  return (
+                    <button
+                      key={level || "off"}
+                      onClick={() => onUpdateSettings({ adaptiveDifficulty: level })}
+                      role="radio"
+                      aria-checked={selected}
+                      className={`p-2 rounded-lg border transition-all text-sm ${
+                        selected ? "border-red-500 bg-red-500/10" : "border-gray-700 hover:border-gray-600"
+                      }`}
+                    >
+                      {level ? ADAPTIVE_DIFFICULTY_LEVELS[level].name : "Kapalı"}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Players */}
           <div className="mb-6">
             <div className="flex items-center justify-between mb-3">
@@ -199,3 +359,132 @@ export function LobbyScreen({
     </main>
   );
 }
+
+const PROVINCE_NAMES = TURKEY_PROVINCES.features
+  .map((f) => f.properties.name)
+  .sort((a, b) => a.localeCompare(b, "tr"));
+
+type MapTab = "all" | MapFilter["type"];
+
+interface MapPickerProps {
+  filter: MapFilter | null;
+  onChange: (filter: MapFilter | null) => void;
+}
+
+/** Tüm Türkiye / bölgeler / iller — boş seçim = tüm Türkiye */
+function MapPicker({ filter, onChange }: MapPickerProps) {
+  const [tab, setTab] = useState<MapTab>(filter?.type || "all");
+  const activeTab: MapTab = filter?.type || tab;
+  const regions: RegionId[] = filter?.type === "regions" ? filter.regions : [];
+  const provinces: string[] = filter?.type === "provinces" ? filter.provinces : [];
+
+  const toggleRegion = (region: RegionId) => {
+    const next = regions.includes(region) ? regions.filter((r) => r !== region) : [...regions, region];
+    onChange(next.length > 0 ? { type: "regions", regions: next } : null);
+  };
+
+  const toggleProvince = (province: string) => {
+    const next = provinces.includes(province) ? provinces.filter((p) => p !== province) : [...provinces, province];
+    onChange(next.length > 0 ? { type: "provinces", provinces: next } : null);
+  };
+
+  const selectTab = (next: MapTab) => {
+    setTab(next);
+    if (next !== activeTab && filter) onChange(null);
+  };
+
+  const chipClass = (selected: boolean) =>
+    `px-2 py-1 rounded-lg border text-xs transition-all ${
+      selected ? "border-red-500 bg-red-500/10" : "border-gray-700 hover:border-gray-600"
+    }`;
+
+  return (
+    <div className="mb-4 p-3 rounded-xl bg-gray-800/30 space-y-2" aria-label="Harita seçimi">
+      <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Harita türü">
+        {([["all", "Tüm Türkiye"], ["regions", "Bölgeler"], ["provinces", "İller"]] as [MapTab, string][]).map(
+          ([value, label]) => (
+            <button
+              key={value}
+              onClick={() => selectTab(value)}
+              role="radio"
+              aria-checked={activeTab === value}
+              className={`p-2 rounded-lg border transition-all text-sm ${
+                activeTab === value ? "border-red-500 bg-red-500/10" : "border-gray-700 hover:border-gray-600"
+              }`}
+            >
+              {label}
+            </button>
+          )
+        )}
+      </div>
+
+      {activeTab === "regions" && (
+        <div className="flex flex-wrap gap-1.5">
+          {(Object.keys(MAP_REGIONS) as RegionId[]).map((region) => (
+            <button
+              key={region}
+              onClick={() => toggleRegion(region)}
+              aria-pressed={regions.includes(region)}
+              className={chipClass(regions.includes(region))}
+            >
+              {MAP_REGIONS[region]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {activeTab === "provinces" && (
+        <div className="flex flex-wrap gap-1.5 max-h-[160px] overflow-y-auto">
+          {PROVINCE_NAMES.map((province) => (
+            <button
+              key={province}
+              onClick={() => toggleProvince(province)}
+              aria-pressed={provinces.includes(province)}
+              className={chipClass(provinces.includes(province))}
+            >
+              {province}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SettingStepperProps {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+function SettingStepper({ label, value, display, min, max, step, disabled, onChange }: SettingStepperProps) {
+  return (
+    <div className={`flex items-center justify-between text-sm ${disabled ? "opacity-50" : ""}`}>
+      <span className="text-gray-300">{label}</span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange(Math.max(min, value - step))}
+          disabled={disabled || value <= min}
+          className="p-1.5 rounded-lg border border-gray-700 hover:border-gray-600 disabled:opacity-40"
+          aria-label={`${label} azalt`}
+        >
+          <Minus size={14} />
+        </button>
+        <span className="w-14 text-center font-medium" aria-live="polite">{display}</span>
+        <button
+          onClick={() => onChange(Math.min(max, value + step))}
+          disabled={disabled || value >= max}
+          className="p-1.5 rounded-lg border border-gray-700 hover:border-gray-600 disabled:opacity-40"
+          aria-label={`${label} artır`}
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
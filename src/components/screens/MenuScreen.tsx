@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { MapPin, Users, ArrowRight } from "lucide-react";
+import { MapPin, Users, ArrowRight, User, Play, CalendarDays } from "lucide-react";
 import { GameMode, GAME_MODE_CONFIG } from "@/types";
 
 interface MenuScreenProps {
@@ -13,6 +13,14 @@ interface MenuScreenProps {
   isLoading: boolean;
   onCreateRoom: () => void;
   onJoinRoom: () => void;
+  // Solo: Firebase odası olmadan tek oyunculu
+  onStartSolo: () => void;
+  onResumeSolo: () => void;
+  soloResume?: { round: number; totalRounds: number } | null; // kayıtlı, bitmemiş solo oyun
+  soloBest?: number | null;
+  // Günün Turu: herkese aynı 5 konum, günde bir deneme
+  onStartDaily: () => void;
+  dailyPlayed?: { score: number | null } | null; // bugün bu cihazda başlandı
   // BUG-005: validation error for name
   nameError?: string | null;
 }
@@ -39,6 +47,8 @@ function SEOLandingContent() {
         <span aria-hidden="true">·</span>
         <Link href="/blog" className="hover:text-gray-400 transition-colors">Blog</Link>
         <span aria-hidden="true">·</span>
+        <Link href="/liderlik" className="hover:text-gray-400 transition-colors">Liderlik</Link>
+        <span aria-hidden="true">·</span>
         <Link href="/sss" className="hover:text-gray-400 transition-colors">SSS</Link>
       </nav>
     </section>
@@ -56,6 +66,12 @@ export function MenuScreen({
   isLoading,
   onCreateRoom,
   onJoinRoom,
+  onStartSolo,
+  onResumeSolo,
+  soloResume,
+  soloBest,
+  onStartDaily,
+  dailyPlayed,
   nameError,
 }: MenuScreenProps) {
   return (
@@ -154,6 +170,48 @@ export function MenuScreen({
             )}
           </button>
 
+          <div className="flex gap-2">
+            <button
+              onClick={onStartSolo}
+              disabled={!nameInput.trim() || isLoading}
+              className="btn-secondary flex-1 py-3 flex items-center justify-center gap-2"
+            >
+              <User size={18} />
+              Tek Başına Oyna
+            </button>
+            {soloResume && (
+              <button
+                onClick={onResumeSolo}
+                disabled={isLoading}
+                className="btn-secondary flex-1 py-3 flex items-center justify-center gap-2"
+                aria-label={`Solo oyuna devam et, tur ${soloResume.round}/${soloResume.totalRounds}`}
+              >
+                <Play size={18} />
+                Devam Et ({Math.max(soloResume.round, 1)}/{soloResume.totalRounds})
+              </button>
+            )}
+          </div>
+          <button
+            onClick={onStartDaily}
+            disabled={!nameInput.trim() || isLoading || !!dailyPlayed}
+            className="btn-secondary w-full py-3 flex items-center justify-center gap-2"
+          >
+            <CalendarDays size={18} />
+            {dailyPlayed
+              ? dailyPlayed.score !== null
+                ? `Günün Turu: ${dailyPlayed.score} puan — yarın yeni tur`
+                : "Günün Turu hakkın kullanıldı"
+              : "Günün Turu"}
+          </button>
+          {soloBest != null && (
+            <p className="text-center text-xs text-gray-500">Solo en iyi skorun: {soloBest}</p>
+          )}
+          <p className="text-center text-xs">
+            <Link href="/profil" className="text-gray-500 hover:text-gray-300 transition-colors">
+              Profil ve kariyer istatistikleri
+            </Link>
+          </p>
+
           <div className="flex items-center gap-4 text-gray-500 py-2">
             <div className="flex-1 h-px bg-gradient-to-r from-transparent via-gray-600 to-transparent" />
             <span className="text-sm text-gray-500">veya odaya katıl</span>
@@ -10,6 +10,7 @@ export function SeoFooter() {
             <li><Link href="/" className="hover:text-white transition-colors">Oyna</Link></li>
             <li><Link href="/nasil-oynanir" className="hover:text-white transition-colors">Nasıl Oynanır</Link></li>
             <li><Link href="/multiplayer" className="hover:text-white transition-colors">Multiplayer</Link></li>
+            <li><Link href="/konum-oner" className="hover:text-white transition-colors">Konum Öner</Link></li>
           </ul>
         </div>
         <div>
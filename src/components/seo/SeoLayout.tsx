@@ -33,6 +33,9 @@ export function SeoLayout({ children, breadcrumbs }: SeoLayoutProps) {
             <Link href="/blog" className="hover:text-white transition-colors">
               Blog
             </Link>
+            <Link href="/liderlik" className="hover:text-white transition-colors">
+              Liderlik
+            </Link>
             <Link
               href="/"
               className="bg-red-600 hover:bg-red-500 text-white px-4 py-1.5 rounded-lg font-semibold transition-colors"
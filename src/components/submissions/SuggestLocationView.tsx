@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MapPinned, Search } from "lucide-react";
+import { GAME_MODE_CONFIG, GameMode } from "@/types";
+import { useLocationSubmission } from "@/hooks/useLocationSubmission";
+import { useStreetView } from "@/hooks/useStreetView";
+import { TURKEY_CITIES } from "@/services/dynamicPanoService";
+import { SubmissionStatus } from "@/services/locationSubmissions";
+import { SuggestLocationModal, SuggestLocationFields } from "@/components/game/SuggestLocationModal";
+
+const STATUS_LABELS: Record<SubmissionStatus, { label: string; className: string }> = {
+  pending: { label: "İncelemede", className: "text-yellow-400" },
+  approved: { label: "Onaylandı", className: "text-green-400" },
+  merged: { label: "Oyunda", className: "text-green-400" },
+  rejected: { label: "Reddedildi", className: "text-gray-500" },
+};
+
+export function SuggestLocationView() {
+  const { submissions, isSubmitting, error, submit, refresh } = useLocationSubmission();
+  const {
+    streetViewRef, isLoading, showStreetViewFromCoords,
+    getCurrentPanoId, getCurrentPov, getCurrentPosition,
+  } = useStreetView();
+  const [city, setCity] = useState(TURKEY_CITIES[0].name);
+  const [mode, setMode] = useState<GameMode>("urban");
+  const [name, setName] = useState("");
+  const [shownPano, setShownPano] = useState<string | null | undefined>(undefined);
+  const [formOpen, setFormOpen] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleShow = async () => {
+    const target = TURKEY_CITIES.find((c) => c.name === city);
+    if (!target) return;
+    setSent(false);
+    setShownPano(await showStreetViewFromCoords({ lat: target.lat, lng: target.lng }));
+  };
+
+  const handleSubmit = async (fields: SuggestLocationFields) => {
+    const panoId = getCurrentPanoId();
+    const pov = getCurrentPov();
+    const position = getCurrentPosition();
+    if (!panoId || !pov || !position) return;
+    const ok = await submit({ panoId, ...position, ...pov, mode, source: "page", ...fields }, name);
+    if (ok) {
+      setFormOpen(false);
+      setSent(true);
+      await refresh();
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-4">
+        <div className="grid sm:grid-cols-3 gap-3">
+          <select value={city} onChange={(e) => setCity(e.target.value)} className="input-dark" aria-label="İl">
+            {TURKEY_CITIES.map((c) => (
+              <option key={c.name} value={c.name}>{c.name}</option>
+            ))}
+          </select>
+          <select value={mode} onChange={(e) => setMode(e.target.value as GameMode)} className="input-dark" aria-label="Mod">
+            {(Object.keys(GAME_MODE_CONFIG) as GameMode[]).map((m) => (
+              <option key={m} value={m}>{GAME_MODE_CONFIG[m].name}</option>
+            ))}
+          </select>
+          <button onClick={handleShow} disabled={isLoading} className="btn-secondary flex items-center justify-center gap-2">
+            <Search size={16} />
+            Sokak Görünümü
+          </button>
+        </div>
+
+        <div
+          ref={streetViewRef as React.RefObject<HTMLDivElement>}
+          className="w-full h-80 sm:h-96 rounded-xl overflow-hidden"
+          style={{ background: "#1a1a24" }}
+        />
+        {shownPano === null && <p className="text-sm text-gray-400">Bu ilin merkezinde panorama bulunamadı, başka bir il dene.</p>}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            placeholder="Oyuncu adı"
+            value={name}
+            maxLength={20}
+            onChange={(e) => setName(e.target.value)}
+            className="input-dark flex-1"
+          />
+          <button
+            onClick={() => setFormOpen(true)}
+            disabled={!name.trim() || !shownPano}
+            className="btn-primary flex items-center justify-center gap-2"
+          >
+            <MapPinned size={18} />
+            Bu Konumu Öner
+          </button>
+        </div>
+        {sent && <p className="text-sm text-green-400">Önerin için teşekkürler! İncelendikten sonra oyuna eklenir.</p>}
+      </section>
+
+      {submissions.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold text-red-400">Önerilerin</h2>
+          <ul className="space-y-2">
+            {submissions.map(({ id, submission }) => (
+              <li key={id} className="glass rounded-xl p-3 flex items-center justify-between gap-3 text-sm">
+                <span className="truncate">
+                  {submission.package?.locationName || `${submission.lat.toFixed(4)}, ${submission.lng.toFixed(4)}`}
+                  <span className="text-gray-500"> · {new Date(submission.createdAt).toLocaleDateString("tr-TR")}</span>
+                </span>
+                <span className={STATUS_LABELS[submission.status].className}>{STATUS_LABELS[submission.status].label}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {formOpen && (
+        <SuggestLocationModal
+          askRegion
+          isSubmitting={isSubmitting}
+          error={error}
+          onSubmit={handleSubmit}
+          onClose={() => setFormOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
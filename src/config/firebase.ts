@@ -1,6 +1,43 @@
 import { initializeApp } from "firebase/app";
-import { getDatabase, ref, set, get, onValue, update, remove, push, onDisconnect, runTransaction, serverTimestamp } from "firebase/database";
-import { getAuth, signInAnonymously, onAuthStateChanged, type User } from "firebase/auth";
+import {
+  getDatabase,
+  ref as firebaseRef,
+  set as firebaseSet,
+  get as firebaseGet,
+  onValue as firebaseOnValue,
+  update as firebaseUpdate,
+  remove as firebaseRemove,
+  push as firebasePush,
+  onDisconnect as firebaseOnDisconnect,
+  runTransaction as firebaseRunTransaction,
+  serverTimestamp as firebaseServerTimestamp,
+  increment as firebaseIncrement,
+  type Database,
+} from "firebase/database";
+import { getAuth, signInAnonymously, onAuthStateChanged, type Auth, type User } from "firebase/auth";
+import * as memoryDb from "./memoryDatabase";
+
+// ==================== BACKEND SEÇİMİ ====================
+// NEXT_PUBLIC_RTDB_BACKEND=memory → Firebase yerine in-memory RTDB (sıfır network).
+// Aynı origin'deki sekmeler BroadcastChannel ile aynı veriyi paylaşır.
+export const USE_MEMORY_DATABASE = process.env.NEXT_PUBLIC_RTDB_BACKEND === "memory";
+
+/** Memory modunda çağrılar memoryDatabase'e gider; tipler Firebase API'si olarak kalır */
+function pick<T>(firebaseImpl: T, memoryImpl: unknown): T {
+  return USE_MEMORY_DATABASE ? (memoryImpl as T) : firebaseImpl;
+}
+
+const ref = pick(firebaseRef, memoryDb.ref);
+const set = pick(firebaseSet, memoryDb.set);
+const get = pick(firebaseGet, memoryDb.get);
+const onValue = pick(firebaseOnValue, memoryDb.onValue);
+const update = pick(firebaseUpdate, memoryDb.update);
+const remove = pick(firebaseRemove, memoryDb.remove);
+const push = pick(firebasePush, memoryDb.push);
+const onDisconnect = pick(firebaseOnDisconnect, memoryDb.onDisconnect);
+const runTransaction = pick(firebaseRunTransaction, memoryDb.runTransaction);
+const serverTimestamp = pick(firebaseServerTimestamp, memoryDb.serverTimestamp);
+const increment = pick(firebaseIncrement, memoryDb.increment);
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -12,27 +49,53 @@ const firebaseConfig = {
   databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL
 };
 
-const app = initializeApp(firebaseConfig);
-const database = getDatabase(app);
-const auth = getAuth(app);
-
-// Anonymous Auth: Uygulama başladığında otomatik giriş yap
-let authReady: Promise<User>;
-const authReadyPromise = new Promise<User>((resolve) => {
-  authReady = signInAnonymously(auth).then((cred) => {
-    return cred.user;
-  }).catch((err) => {
-    console.error("[Auth] Anonymous sign-in failed:", err);
-    throw err;
-  });
-  // Eğer zaten giriş yapılmışsa onAuthStateChanged ile yakala
-  const unsub = onAuthStateChanged(auth, (user) => {
-    if (user) {
-      resolve(user);
-      unsub();
-    }
+let database: Database;
+let auth: Auth;
+let authReadyPromise: Promise<User>;
+
+if (USE_MEMORY_DATABASE) {
+  const memoryDatabase = memoryDb.getMemoryDatabase();
+  if (typeof window !== "undefined") {
+    memoryDatabase.backend.attachBroadcastChannel("turkiye_guessr_memory_rtdb");
+    // Sekme kapanınca onDisconnect handler'ları çalışsın (socket drop simülasyonu)
+    window.addEventListener("pagehide", () => memoryDatabase.simulateSocketDrop());
+  }
+
+  // Yerel anonim kimlik: sekme başına sabit (reload = rejoin, yeni sekme = yeni oyuncu)
+  const uidKey = "turkiye_guessr_memory_uid";
+  let uid = typeof window !== "undefined" ? sessionStorage.getItem(uidKey) : null;
+  if (!uid) {
+    uid = `local_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 10)}`;
+    if (typeof window !== "undefined") sessionStorage.setItem(uidKey, uid);
+  }
+  const localUser = { uid, isAnonymous: true } as User;
+
+  database = memoryDatabase as unknown as Database;
+  auth = { currentUser: localUser } as unknown as Auth;
+  authReadyPromise = Promise.resolve(localUser);
+} else {
+  const app = initializeApp(firebaseConfig);
+  database = getDatabase(app);
+  auth = getAuth(app);
+
+  // Anonymous Auth: Uygulama başladığında otomatik giriş yap
+  const firebaseAuth = auth;
+  authReadyPromise = new Promise<User>((resolve) => {
+    signInAnonymously(firebaseAuth).then((cred) => {
+      return cred.user;
+    }).catch((err) => {
+      console.error("[Auth] Anonymous sign-in failed:", err);
+      throw err;
+    });
+    // Eğer zaten giriş yapılmışsa onAuthStateChanged ile yakala
+    const unsub = onAuthStateChanged(firebaseAuth, (user) => {
+      if (user) {
+        resolve(user);
+        unsub();
+      }
+    });
   });
-});
+}
 
 /**
  * Auth UID'yi al — auth hazır olana kadar bekler
@@ -42,6 +105,15 @@ export async function getAuthUid(): Promise<string> {
   return user.uid;
 }
 
+/**
+ * Firebase ID token — sunucu route'larına `Authorization: Bearer` olarak gider
+ * (callerAuth.ts doğrular). Memory modunda sunucu yok, çağrılmaz.
+ */
+export async function getAuthToken(): Promise<string> {
+  const user = await authReadyPromise;
+  return user.getIdToken();
+}
+
 /**
  * Senkron auth UID — sadece auth hazır olduktan sonra kullan
  */
@@ -49,4 +121,4 @@ export function getAuthUidSync(): string | null {
   return auth.currentUser?.uid || null;
 }
 
-export { database, ref, set, get, onValue, update, remove, push, onDisconnect, runTransaction, serverTimestamp, auth };
+export { database, ref, set, get, onValue, update, remove, push, onDisconnect, runTransaction, serverTimestamp, increment, auth };
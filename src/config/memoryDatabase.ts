@@ -0,0 +1,457 @@
+/**
+ * In-memory Firebase RTDB stand-in
+ *
+ * NEXT_PUBLIC_RTDB_BACKEND=memory ile src/config/firebase.ts bu modülü seçer:
+ * oyun (host migration, roundEnd lock dahil) sıfır network ile çalışır.
+ *
+ * Implements the subset of the modular API the app uses —
+ * ref/get/set/update/remove/push/onValue/onDisconnect/runTransaction/serverTimestamp/increment —
+ * with the semantics useRoom relies on:
+ * - Transactions: first attempt sees the client's cached value (null when the
+ *   client has no listener on the path, exactly like RTDB), retried against the
+ *   server value until it matches; returning undefined aborts.
+ * - onDisconnect: queued per client connection, fired by simulateSocketDrop().
+ * - Server time: `.info/serverTimeOffset` + serverTimestamp() honour a
+ *   configurable server clock skew.
+ * - increment(n): added to the stored number when the write lands (missing → 0).
+ *
+ * One MemoryBackend = the "server"; each MemoryDatabase = one client connection.
+ * Optional BroadcastChannel mirroring lets several tabs share one backend
+ * (transactions are atomic per tab; cross-tab is last-writer-wins).
+ */
+
+// ==================== TYPES ====================
+
+type DataValue = unknown;
+type ValueListener = (snapshot: MemoryDataSnapshot) => void;
+
+interface ListenerEntry {
+  client: MemoryDatabase;
+  path: string;
+  callback: ValueListener;
+  lastJson: string;
+}
+
+interface DisconnectOp {
+  path: string;
+  kind: "set" | "update" | "remove";
+  value: DataValue;
+}
+
+interface BroadcastMessage {
+  type: "write" | "hello" | "state";
+  path?: string;
+  value?: DataValue;
+  root?: DataValue;
+}
+
+const SERVER_TIMESTAMP_SENTINEL = { ".sv": "timestamp" } as const;
+const MAX_TRANSACTION_RETRIES = 25;
+const PUSH_CHARS = "-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz";
+
+// ==================== PATH / VALUE HELPERS ====================
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+function joinPath(...parts: string[]): string {
+  return parts.flatMap(splitPath).join("/");
+}
+
+function isAncestorOrSame(a: string, b: string): boolean {
+  return a === "" || a === b || b.startsWith(`${a}/`);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined || value === null ? (null as T) : JSON.parse(JSON.stringify(value));
+}
+
+function isServerTimestamp(value: unknown): boolean {
+  return !!value && typeof value === "object" && (value as Record<string, unknown>)[".sv"] === "timestamp";
+}
+
+function serverIncrement(value: unknown): number | null {
+  const sv = !!value && typeof value === "object" ? (value as Record<string, unknown>)[".sv"] : null;
+  const delta = !!sv && typeof sv === "object" ? (sv as Record<string, unknown>).increment : null;
+  return typeof delta === "number" ? delta : null;
+}
+
+/** RTDB semantics: null children dropped, empty objects vanish, sentinels resolved (increments against `current`) */
+function normalize(value: DataValue, serverNow: number, current: DataValue = null): DataValue {
+  if (value === undefined || value === null) return null;
+  if (isServerTimestamp(value)) return serverNow;
+  const delta = serverIncrement(value);
+  if (delta !== null) return (typeof current === "number" ? current : 0) + delta;
+  if (Array.isArray(value)) {
+    const items = value.map((item) => normalize(item, serverNow));
+    return items.length > 0 ? items : null;
+  }
+  if (typeof value === "object") {
+    const out: Record<string, DataValue> = {};
+    const base = current && typeof current === "object" ? (current as Record<string, DataValue>) : {};
+    Object.entries(value as Record<string, DataValue>).forEach(([key, child]) => {
+      const normalized = normalize(child, serverNow, base[key] ?? null);
+      if (normalized !== null) out[key] = normalized;
+    });
+    return Object.keys(out).length > 0 ? out : null;
+  }
+  return value;
+}
+
+function readAt(root: DataValue, path: string): DataValue {
+  let node = root;
+  for (const segment of splitPath(path)) {
+    if (node === null || typeof node !== "object") return null;
+    node = (node as Record<string, DataValue>)[segment];
+    if (node === undefined) return null;
+  }
+  return node ?? null;
+}
+
+/** Immutable write: returns a new root with value placed at path (null = delete + prune) */
+function writeAt(root: DataValue, segments: string[], value: DataValue): DataValue {
+  if (segments.length === 0) return value;
+  const [head, ...rest] = segments;
+  const base: Record<string, DataValue> =
+    root && typeof root === "object" ? { ...(root as Record<string, DataValue>) } : {};
+  const child = writeAt(base[head] ?? null, rest, value);
+  if (child === null) delete base[head];
+  else base[head] = child;
+  if (Array.isArray(root)) {
+    // Keep arrays as arrays while indices stay dense
+    const keys = Object.keys(base);
+    if (keys.every((k, i) => k === String(i))) return keys.map((k) => base[k]);
+  }
+  return Object.keys(base).length > 0 ? base : null;
+}
+
+function generatePushKey(now: number): string {
+  let time = now;
+  let key = "";
+  for (let i = 0; i < 8; i++) {
+    key = PUSH_CHARS.charAt(time % 64) + key;
+    time = Math.floor(time / 64);
+  }
+  for (let i = 0; i < 12; i++) {
+    key += PUSH_CHARS.charAt(Math.floor(Math.random() * 64));
+  }
+  return key;
+}
+
+// ==================== SNAPSHOT / REFERENCE ====================
+
+export class MemoryReference {
+  readonly key: string | null;
+
+  constructor(readonly database: MemoryDatabase, readonly path: string) {
+    const segments = splitPath(path);
+    this.key = segments.length > 0 ? segments[segments.length - 1] : null;
+  }
+
+  get parent(): MemoryReference | null {
+    const segments = splitPath(this.path);
+    if (segments.length === 0) return null;
+    return new MemoryReference(this.database, segments.slice(0, -1).join("/"));
+  }
+
+  toString(): string {
+    return `memory://${this.path}`;
+  }
+}
+
+export class MemoryDataSnapshot {
+  readonly key: string | null;
+
+  constructor(readonly ref: MemoryReference, private readonly value: DataValue) {
+    this.key = ref.key;
+  }
+
+  val(): any {
+    return clone(this.value);
+  }
+
+  exists(): boolean {
+    return this.value !== null && this.value !== undefined;
+  }
+
+  child(path: string): MemoryDataSnapshot {
+    return new MemoryDataSnapshot(
+      new MemoryReference(this.ref.database, joinPath(this.ref.path, path)),
+      readAt(this.value, path)
+    );
+  }
+
+  hasChild(path: string): boolean {
+    return this.child(path).exists();
+  }
+
+  forEach(action: (child: MemoryDataSnapshot) => boolean | void): boolean {
+    if (!this.value || typeof this.value !== "object") return false;
+    return Object.keys(this.value as Record<string, DataValue>).some((key) => action(this.child(key)) === true);
+  }
+
+  numChildren(): number {
+    return this.value && typeof this.value === "object" ? Object.keys(this.value as object).length : 0;
+  }
+
+  toJSON(): DataValue {
+    return this.val();
+  }
+}
+
+// ==================== BACKEND ("server") ====================
+
+export class MemoryBackend {
+  private root: DataValue = null;
+  private listeners = new Set<ListenerEntry>();
+  private serverTimeOffset = 0;
+  private channel: BroadcastChannel | null = null;
+
+  /** Debug counters — tests assert retry behaviour through these */
+  readonly stats = { writes: 0, transactionAttempts: 0, transactionRetries: 0, transactionAborts: 0 };
+
+  constructor(private readonly clock: () => number = () => Date.now()) {}
+
+  connect(): MemoryDatabase {
+    return new MemoryDatabase(this);
+  }
+
+  serverNow(): number {
+    return this.clock() + this.serverTimeOffset;
+  }
+
+  getServerTimeOffset(): number {
+    return this.serverTimeOffset;
+  }
+
+  setServerTimeOffset(offsetMs: number): void {
+    this.serverTimeOffset = offsetMs;
+    this.notify(".info");
+  }
+
+  read(path: string): DataValue {
+    return clone(readAt(this.root, path));
+  }
+
+  /** Atomic multi-location write; sentinels resolved against server time */
+  write(changes: Array<{ path: string; value: DataValue }>, fromRemote: boolean = false): void {
+    const now = this.serverNow();
+    const resolved = changes.map(({ path, value }) => ({ path, value: normalize(value, now, readAt(this.root, path)) }));
+    resolved.forEach(({ path, value }) => {
+      this.root = writeAt(this.root, splitPath(path), value);
+    });
+    this.stats.writes++;
+    if (!fromRemote && this.channel) {
+      resolved.forEach(({ path, value }) => this.channel!.postMessage({ type: "write", path, value } as BroadcastMessage));
+    }
+    resolved.forEach(({ path }) => this.notify(path));
+  }
+
+  addListener(entry: ListenerEntry): () => void {
+    this.listeners.add(entry);
+    return () => {
+      this.listeners.delete(entry);
+    };
+  }
+
+  hasListenerCovering(client: MemoryDatabase, path: string): boolean {
+    for (const entry of Array.from(this.listeners)) {
+      if (entry.client === client && isAncestorOrSame(entry.path, path)) return true;
+    }
+    return false;
+  }
+
+  /** Fire listeners whose view overlaps the changed path, only if their value changed */
+  notify(changedPath: string): void {
+    Array.from(this.listeners).forEach((entry) => {
+      if (!this.listeners.has(entry)) return;
+      if (!isAncestorOrSame(entry.path, changedPath) && !isAncestorOrSame(changedPath, entry.path)) return;
+      const value = entry.client.readValue(entry.path);
+      const json = JSON.stringify(value);
+      if (json === entry.lastJson) return;
+      entry.lastJson = json;
+      entry.callback(new MemoryDataSnapshot(new MemoryReference(entry.client, entry.path), value));
+    });
+  }
+
+  /** Mirror writes across tabs of the same origin (best-effort, no cross-tab transactions) */
+  attachBroadcastChannel(name: string): void {
+    if (this.channel || typeof BroadcastChannel === "undefined") return;
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event: MessageEvent<BroadcastMessage>) => {
+      const message = event.data;
+      if (message.type === "write" && message.path !== undefined) {
+        this.write([{ path: message.path, value: message.value }], true);
+      } else if (message.type === "hello" && this.root !== null) {
+        this.channel!.postMessage({ type: "state", root: this.root } as BroadcastMessage);
+      } else if (message.type === "state" && this.root === null && message.root) {
+        this.write([{ path: "", value: message.root }], true);
+      }
+    };
+    this.channel.postMessage({ type: "hello" } as BroadcastMessage);
+  }
+}
+
+// ==================== CLIENT CONNECTION ====================
+
+export class MemoryDatabase {
+  private connected = true;
+  private disconnectOps: DisconnectOp[] = [];
+
+  constructor(readonly backend: MemoryBackend) {}
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /** Reads include the client-local `.info` tree */
+  readValue(path: string): DataValue {
+    const segments = splitPath(path);
+    if (segments[0] === ".info") {
+      const info = { connected: this.connected, serverTimeOffset: this.backend.getServerTimeOffset() };
+      return clone(readAt(info, segments.slice(1).join("/")));
+    }
+    return this.backend.read(path);
+  }
+
+  queueDisconnectOp(op: DisconnectOp): void {
+    this.disconnectOps.push(op);
+  }
+
+  cancelDisconnectOps(path: string): void {
+    this.disconnectOps = this.disconnectOps.filter((op) => !isAncestorOrSame(path, op.path));
+  }
+
+  /** Socket drop: server runs this client's onDisconnect ops, client goes offline */
+  simulateSocketDrop(): void {
+    const ops = this.disconnectOps;
+    this.disconnectOps = [];
+    ops.forEach((op) => {
+      if (op.kind === "update") {
+        const values = op.value as Record<string, DataValue>;
+        this.backend.write(Object.keys(values).map((key) => ({ path: joinPath(op.path, key), value: values[key] })));
+      } else {
+        this.backend.write([{ path: op.path, value: op.kind === "remove" ? null : op.value }]);
+      }
+    });
+    this.connected = false;
+    this.backend.notify(".info");
+  }
+
+  reconnect(): void {
+    this.connected = true;
+    this.backend.notify(".info");
+  }
+}
+
+// ==================== MODULAR API ====================
+
+export function ref(database: MemoryDatabase, path: string = ""): MemoryReference {
+  return new MemoryReference(database, joinPath(path));
+}
+
+export function child(parent: MemoryReference, path: string): MemoryReference {
+  return new MemoryReference(parent.database, joinPath(parent.path, path));
+}
+
+export async function get(query: MemoryReference): Promise<MemoryDataSnapshot> {
+  return new MemoryDataSnapshot(query, query.database.readValue(query.path));
+}
+
+export async function set(target: MemoryReference, value: unknown): Promise<void> {
+  target.database.backend.write([{ path: target.path, value }]);
+}
+
+export async function update(target: MemoryReference, values: object): Promise<void> {
+  const entries = Object.entries(values as Record<string, DataValue>);
+  target.database.backend.write(entries.map(([key, value]) => ({ path: joinPath(target.path, key), value })));
+}
+
+export async function remove(target: MemoryReference): Promise<void> {
+  target.database.backend.write([{ path: target.path, value: null }]);
+}
+
+export function push(parent: MemoryReference, value?: unknown): MemoryReference {
+  const childRef = child(parent, generatePushKey(parent.database.backend.serverNow()));
+  if (value !== undefined) {
+    parent.database.backend.write([{ path: childRef.path, value }]);
+  }
+  return childRef;
+}
+
+export function onValue(query: MemoryReference, callback: ValueListener): () => void {
+  const value = query.database.readValue(query.path);
+  const entry: ListenerEntry = {
+    client: query.database,
+    path: query.path,
+    callback,
+    lastJson: JSON.stringify(value),
+  };
+  const unsubscribe = query.database.backend.addListener(entry);
+  callback(new MemoryDataSnapshot(query, value));
+  return unsubscribe;
+}
+
+export function serverTimestamp(): object {
+  return { ...SERVER_TIMESTAMP_SENTINEL };
+}
+
+export function increment(delta: number): object {
+  return { ".sv": { increment: delta } };
+}
+
+export function onDisconnect(target: MemoryReference) {
+  const client = target.database;
+  return {
+    set: async (value: unknown) => client.queueDisconnectOp({ path: target.path, kind: "set", value: clone(value) }),
+    update: async (values: object) => client.queueDisconnectOp({ path: target.path, kind: "update", value: clone(values) }),
+    remove: async () => client.queueDisconnectOp({ path: target.path, kind: "remove", value: null }),
+    cancel: async () => client.cancelDisconnectOps(target.path),
+  };
+}
+
+export async function runTransaction(
+  target: MemoryReference,
+  transactionUpdate: (currentData: any) => unknown
+): Promise<{ committed: boolean; snapshot: MemoryDataSnapshot }> {
+  const { backend } = target.database;
+  // Cold cache: without a listener the client has no local copy — first attempt sees null
+  let current: DataValue = backend.hasListenerCovering(target.database, target.path)
+    ? backend.read(target.path)
+    : null;
+
+  for (let attempt = 0; attempt < MAX_TRANSACTION_RETRIES; attempt++) {
+    backend.stats.transactionAttempts++;
+    const proposed = transactionUpdate(clone(current));
+    const serverValue = backend.read(target.path);
+
+    if (proposed === undefined) {
+      backend.stats.transactionAborts++;
+      return { committed: false, snapshot: new MemoryDataSnapshot(target, serverValue) };
+    }
+    if (JSON.stringify(current) !== JSON.stringify(serverValue)) {
+      // Server rejects stale base — retry with the authoritative value
+      backend.stats.transactionRetries++;
+      current = serverValue;
+      continue;
+    }
+    backend.write([{ path: target.path, value: proposed }]);
+    return { committed: true, snapshot: new MemoryDataSnapshot(target, backend.read(target.path)) };
+  }
+  throw new Error("maxretry");
+}
+
+// ==================== DEFAULT INSTANCE ====================
+
+let defaultBackend: MemoryBackend | null = null;
+let defaultDatabase: MemoryDatabase | null = null;
+
+/** Process/tab-wide backend + client used by src/config/firebase.ts */
+export function getMemoryDatabase(): MemoryDatabase {
+  if (!defaultDatabase) {
+    defaultBackend = new MemoryBackend();
+    defaultDatabase = defaultBackend.connect();
+  }
+  return defaultDatabase;
+}
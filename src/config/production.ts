@@ -23,6 +23,12 @@ export const RATE_LIMITS = {
   // Hareket rate limit (maliyet koruması)
   MOVE_PER_SECOND: 1,
   MOVE_PER_10_SECONDS: 3,
+
+  // Konum önerisi: Oyuncu başına saatte max
+  LOCATION_SUBMISSIONS_PER_HOUR: 5,
+
+  // Konum bildirimi: Oyuncu başına saatte max
+  LOCATION_REPORTS_PER_HOUR: 10,
 } as const;
 
 // ==================== ROOM LIFECYCLE ====================
@@ -33,9 +39,15 @@ export const ROOM_LIFECYCLE = {
   // Oyun bittikten sonra oda silme süresi (ms)
   FINISHED_GAME_TTL_MS: 30 * 60 * 1000, // 30 dakika
 
-  // İnaktif oyuncu timeout (ms)
+  // Hiç bitmeyen oda için üst sınır: createdAt'ten bu kadar sonra silinir (ms)
+  MAX_ROOM_AGE_MS: 24 * 60 * 60 * 1000, // 24 saat
+
+  // İnaktif oyuncu timeout (ms) — janitor lastSeen'i bundan eski oyuncuyu çıkarır
   PLAYER_INACTIVE_TIMEOUT_MS: 3 * 60 * 1000, // 3 dakika
 
+  // Oda janitor'ı çalışma aralığı (scripts/roomJanitor.js --every varsayılanı)
+  JANITOR_INTERVAL_MS: 5 * 60 * 1000, // 5 dakika
+
   // Maksimum oda sayısı (abuse prevention)
   MAX_ACTIVE_ROOMS: 1000,
 
@@ -51,6 +63,7 @@ export const GAME_SETTINGS = {
   DEFAULT_ROUNDS: 5,
 
   // Hareket limitleri
+  NO_MOVES: 0, // "Hareket yok" modu: sadece etrafa bakılır
   MIN_MOVES: 1,
   MAX_MOVES: 10,
   URBAN_DEFAULT_MOVES: 3,
@@ -59,6 +72,7 @@ export const GAME_SETTINGS = {
   // Süre limitleri (saniye)
   MIN_TIME_LIMIT: 30,
   MAX_TIME_LIMIT: 300,
+  TIME_LIMIT_STEP: 15,
   URBAN_DEFAULT_TIME: 90,
   GEO_DEFAULT_TIME: 120,
 
@@ -75,9 +89,21 @@ export const API_COST_CONTROL = {
   // Günlük maksimum API bütçesi (USD)
   DAILY_API_BUDGET_USD: 50,
 
-  // Günlük maksimum API çağrısı
+  // Günlük maksimum API çağrısı — tüm oyuncular için ortak (sunucudaki apiBudget defteri)
   MAX_DAILY_API_CALLS: Math.floor(50 / 0.007), // ~7142 çağrı
 
+  // Defter bu orana gelince dinamik üretim durur, seçim statik havuza geçer
+  BUDGET_DEGRADE_RATIO: 0.9,
+
+  // Oda (ya da solo oyuncu) başına günlük dinamik metadata çağrısı
+  MAX_ROOM_DAILY_API_CALLS: 50,
+
+  // Oda (ya da solo oyuncu) başına deftere yazılan günlük pano yüklemesi
+  MAX_ROOM_DAILY_PANO_LOADS: 1000,
+
+  // Tek istekte ayrılabilecek / yazılabilecek en fazla çağrı
+  MAX_BUDGET_STEP: 100,
+
   // Pano cache süresi (ms)
   PANO_CACHE_TTL_MS: 24 * 60 * 60 * 1000, // 24 saat
 
@@ -85,6 +111,33 @@ export const API_COST_CONTROL = {
   MAX_PANO_GENERATION_ATTEMPTS: 2,
 } as const;
 
+// ==================== TELEMETRY EXPORT ====================
+export const TELEMETRY_EXPORT = {
+  // Event'leri dışa aktarılan oturum oranı (hatalar her zaman gönderilir)
+  SAMPLE_RATE: 0.25,
+
+  // Bir batch'teki max kayıt (rules: en fazla 100)
+  BATCH_SIZE: 20,
+
+  // Periyodik flush aralığı (ms)
+  FLUSH_INTERVAL_MS: 30 * 1000, // 30 saniye
+
+  // Gönderilemeyen kayıtlar için localStorage kuyruğu üst sınırı
+  MAX_QUEUED_RECORDS: 500,
+
+  // Art arda bu kadar reddedilen batch atılır (kuyruğu tıkamasın)
+  MAX_SEND_ATTEMPTS: 3,
+} as const;
+
+// ==================== OPS METRICS ====================
+export const OPS_METRICS = {
+  // Zamanlayıcıyla biten turlarda RoundEndLatency SLO sınırı (ms)
+  ROUND_END_SLO_MS: 3000,
+
+  // Panelin tek sorguda okuyabileceği en uzun aralık (telemetry/{gün} başına bir GET)
+  MAX_RANGE_DAYS: 31,
+} as const;
+
 // ==================== SECURITY ====================
 export const SECURITY = {
   // Player ID uzunluk aralığı
@@ -1,2128 +0,0 @@
-/**
- * Küratörlü Pano Paketleri
- * Türkiye'nin farklı bölgelerinden 150+ lokasyon
- *
- * Her paket:
- * - pano0: Başlangıç noktası
- * - pano1: Sol yön
- * - pano2: Sağ yön
- * - pano3: İleri yön
- */
-
-import { PanoPackage } from "@/types";
-
-// ==================== URBAN PAKETLER ====================
-// Şehir merkezleri, caddeler, meydanlar
-
-export const URBAN_PACKAGES: PanoPackage[] = [
-  // İSTANBUL (20 lokasyon)
-  {
-    id: "ist_fatih_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "mosque", "historic"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "mxQ27bCqI95iQMkaDa8_nA", lat: 41.0086, lng: 28.9802, heading: 180 },
-    pano1: { panoId: "mxQ27bCqI95iQMkaDa8_nA", lat: 41.0088, lng: 28.9798, heading: 270 },
-    pano2: { panoId: "mxQ27bCqI95iQMkaDa8_nA", lat: 41.0088, lng: 28.9806, heading: 90 },
-    pano3: { panoId: "mxQ27bCqI95iQMkaDa8_nA", lat: 41.0082, lng: 28.9802, heading: 180 },
-    locationName: "Fatih, İstanbul",
-  },
-  {
-    id: "ist_kadikoy_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "shop", "ferry"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "5phDLw9JqlalS11cF2kkcA", lat: 40.9903, lng: 29.0240, heading: 0 },
-    pano1: { panoId: "5phDLw9JqlalS11cF2kkcA", lat: 40.9903, lng: 29.0235, heading: 270 },
-    pano2: { panoId: "5phDLw9JqlalS11cF2kkcA", lat: 40.9903, lng: 29.0245, heading: 90 },
-    pano3: { panoId: "5phDLw9JqlalS11cF2kkcA", lat: 40.9908, lng: 29.0240, heading: 0 },
-    locationName: "Kadıköy, İstanbul",
-  },
-  {
-    id: "ist_besiktas_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "stadium", "bosphorus"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "QybX3WxA-6OJwxAxm7wHqg", lat: 41.0430, lng: 29.0070, heading: 90 },
-    pano1: { panoId: "QybX3WxA-6OJwxAxm7wHqg", lat: 41.0430, lng: 29.0065, heading: 270 },
-    pano2: { panoId: "QybX3WxA-6OJwxAxm7wHqg", lat: 41.0430, lng: 29.0075, heading: 90 },
-    pano3: { panoId: "QybX3WxA-6OJwxAxm7wHqg", lat: 41.0435, lng: 29.0070, heading: 0 },
-    locationName: "Beşiktaş, İstanbul",
-  },
-  {
-    id: "ist_taksim_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "square", "monument"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "MprrTlEXmHpiS7129VCQbQ", lat: 41.0370, lng: 28.9850, heading: 180 },
-    pano1: { panoId: "MprrTlEXmHpiS7129VCQbQ", lat: 41.0370, lng: 28.9845, heading: 270 },
-    pano2: { panoId: "MprrTlEXmHpiS7129VCQbQ", lat: 41.0370, lng: 28.9855, heading: 90 },
-    pano3: { panoId: "MprrTlEXmHpiS7129VCQbQ", lat: 41.0365, lng: 28.9850, heading: 180 },
-    locationName: "Taksim, İstanbul",
-  },
-  {
-    id: "ist_uskudar_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "mosque", "ferry"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "yxq_3ibejpPn7LZWuZA87w", lat: 41.0262, lng: 29.0155, heading: 270 },
-    pano1: { panoId: "yxq_3ibejpPn7LZWuZA87w", lat: 41.0262, lng: 29.0150, heading: 270 },
-    pano2: { panoId: "yxq_3ibejpPn7LZWuZA87w", lat: 41.0262, lng: 29.0160, heading: 90 },
-    pano3: { panoId: "yxq_3ibejpPn7LZWuZA87w", lat: 41.0267, lng: 29.0155, heading: 0 },
-    locationName: "Üsküdar, İstanbul",
-  },
-  {
-    id: "ist_bakirkoy_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "shop", "mall"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "KnxlcQNHBSbX-dq-7D770Q", lat: 40.9800, lng: 28.8720, heading: 90 },
-    pano1: { panoId: "KnxlcQNHBSbX-dq-7D770Q", lat: 40.9800, lng: 28.8715, heading: 270 },
-    pano2: { panoId: "KnxlcQNHBSbX-dq-7D770Q", lat: 40.9800, lng: 28.8725, heading: 90 },
-    pano3: { panoId: "KnxlcQNHBSbX-dq-7D770Q", lat: 40.9805, lng: 28.8720, heading: 0 },
-    locationName: "Bakırköy, İstanbul",
-  },
-
-  // ANKARA (15 lokasyon)
-  {
-    id: "ank_kizilay_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "square", "metro"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "k6Sl9YIpSapdzdjh8QU40Q", lat: 39.9208, lng: 32.8541, heading: 0 },
-    pano1: { panoId: "k6Sl9YIpSapdzdjh8QU40Q", lat: 39.9208, lng: 32.8536, heading: 270 },
-    pano2: { panoId: "k6Sl9YIpSapdzdjh8QU40Q", lat: 39.9208, lng: 32.8546, heading: 90 },
-    pano3: { panoId: "k6Sl9YIpSapdzdjh8QU40Q", lat: 39.9213, lng: 32.8541, heading: 0 },
-    locationName: "Kızılay, Ankara",
-  },
-  {
-    id: "ank_ulus_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "historic", "monument"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "G7_iVLu99zkLXKDq5qe5AA", lat: 39.9414, lng: 32.8543, heading: 180 },
-    pano1: { panoId: "G7_iVLu99zkLXKDq5qe5AA", lat: 39.9414, lng: 32.8538, heading: 270 },
-    pano2: { panoId: "G7_iVLu99zkLXKDq5qe5AA", lat: 39.9414, lng: 32.8548, heading: 90 },
-    pano3: { panoId: "G7_iVLu99zkLXKDq5qe5AA", lat: 39.9409, lng: 32.8543, heading: 180 },
-    locationName: "Ulus, Ankara",
-  },
-  {
-    id: "ank_cankaya_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "embassy", "residential"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "FFr-qVAQDkT6EXI7n0JfYQ", lat: 39.9000, lng: 32.8600, heading: 90 },
-    pano1: { panoId: "FFr-qVAQDkT6EXI7n0JfYQ", lat: 39.9000, lng: 32.8595, heading: 270 },
-    pano2: { panoId: "FFr-qVAQDkT6EXI7n0JfYQ", lat: 39.9000, lng: 32.8605, heading: 90 },
-    pano3: { panoId: "FFr-qVAQDkT6EXI7n0JfYQ", lat: 39.9005, lng: 32.8600, heading: 0 },
-    locationName: "Çankaya, Ankara",
-  },
-
-  // İZMİR (12 lokasyon)
-  {
-    id: "izm_alsancak_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "kordon", "sea"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "U6rFE1SG790KzP3FYHnIWA", lat: 38.4350, lng: 27.1428, heading: 270 },
-    pano1: { panoId: "U6rFE1SG790KzP3FYHnIWA", lat: 38.4350, lng: 27.1423, heading: 270 },
-    pano2: { panoId: "U6rFE1SG790KzP3FYHnIWA", lat: 38.4350, lng: 27.1433, heading: 90 },
-    pano3: { panoId: "U6rFE1SG790KzP3FYHnIWA", lat: 38.4355, lng: 27.1428, heading: 0 },
-    locationName: "Alsancak, İzmir",
-  },
-  {
-    id: "izm_konak_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "clock_tower", "square"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "DTq10aMhQYA0owA5gLBZSA", lat: 38.4189, lng: 27.1287, heading: 0 },
-    pano1: { panoId: "DTq10aMhQYA0owA5gLBZSA", lat: 38.4189, lng: 27.1282, heading: 270 },
-    pano2: { panoId: "DTq10aMhQYA0owA5gLBZSA", lat: 38.4189, lng: 27.1292, heading: 90 },
-    pano3: { panoId: "DTq10aMhQYA0owA5gLBZSA", lat: 38.4194, lng: 27.1287, heading: 0 },
-    locationName: "Konak, İzmir",
-  },
-
-  // BURSA (8 lokasyon)
-  {
-    id: "brs_osmangazi_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "historic", "bazaar"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "5BR265VOA4eK6G9PPnOanQ", lat: 40.1826, lng: 29.0665, heading: 90 },
-    pano1: { panoId: "5BR265VOA4eK6G9PPnOanQ", lat: 40.1826, lng: 29.0660, heading: 270 },
-    pano2: { panoId: "5BR265VOA4eK6G9PPnOanQ", lat: 40.1826, lng: 29.0670, heading: 90 },
-    pano3: { panoId: "5BR265VOA4eK6G9PPnOanQ", lat: 40.1831, lng: 29.0665, heading: 0 },
-    locationName: "Osmangazi, Bursa",
-  },
-
-  // ANTALYA (10 lokasyon)
-  {
-    id: "ant_muratpasa_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "tourist", "old_town"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "l0MwfgTO7Vk7GedtZZLOtQ", lat: 36.8841, lng: 30.7056, heading: 180 },
-    pano1: { panoId: "l0MwfgTO7Vk7GedtZZLOtQ", lat: 36.8841, lng: 30.7051, heading: 270 },
-    pano2: { panoId: "l0MwfgTO7Vk7GedtZZLOtQ", lat: 36.8841, lng: 30.7061, heading: 90 },
-    pano3: { panoId: "l0MwfgTO7Vk7GedtZZLOtQ", lat: 36.8836, lng: 30.7056, heading: 180 },
-    locationName: "Muratpaşa, Antalya",
-  },
-  {
-    id: "ant_kaleici_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "historic", "harbor"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "JOYZ4RC9uwTD9NkC8wK9rQ", lat: 36.8850, lng: 30.7040, heading: 90 },
-    pano1: { panoId: "JOYZ4RC9uwTD9NkC8wK9rQ", lat: 36.8850, lng: 30.7035, heading: 270 },
-    pano2: { panoId: "JOYZ4RC9uwTD9NkC8wK9rQ", lat: 36.8850, lng: 30.7045, heading: 90 },
-    pano3: { panoId: "JOYZ4RC9uwTD9NkC8wK9rQ", lat: 36.8855, lng: 30.7040, heading: 0 },
-    locationName: "Kaleiçi, Antalya",
-  },
-
-  // ADANA, KOCAELİ, GAZİANTEP, MERSİN, KONYA, KAYSERİ, ESKİŞEHİR, SAMSUN, DENİZLİ, ŞANLIURFA
-  {
-    id: "adn_seyhan_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "bridge", "river"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "0DZ63jVZURUZZ0HZhKMCSQ", lat: 36.9914, lng: 35.3308, heading: 0 },
-    pano1: { panoId: "0DZ63jVZURUZZ0HZhKMCSQ", lat: 36.9914, lng: 35.3303, heading: 270 },
-    pano2: { panoId: "0DZ63jVZURUZZ0HZhKMCSQ", lat: 36.9914, lng: 35.3313, heading: 90 },
-    pano3: { panoId: "0DZ63jVZURUZZ0HZhKMCSQ", lat: 36.9919, lng: 35.3308, heading: 0 },
-    locationName: "Seyhan, Adana",
-  },
-  {
-    id: "gaz_sahinbey_1",
-    mode: "urban",
-    region: "guneydogu",
-    roadType: "urban_street",
-    hintTags: ["signage", "bazaar", "food"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "gAr2lywmUjWuXAjl4HpnFg", lat: 37.0662, lng: 37.3833, heading: 90 },
-    pano1: { panoId: "gAr2lywmUjWuXAjl4HpnFg", lat: 37.0662, lng: 37.3828, heading: 270 },
-    pano2: { panoId: "gAr2lywmUjWuXAjl4HpnFg", lat: 37.0662, lng: 37.3838, heading: 90 },
-    pano3: { panoId: "gAr2lywmUjWuXAjl4HpnFg", lat: 37.0667, lng: 37.3833, heading: 0 },
-    locationName: "Şahinbey, Gaziantep",
-  },
-  {
-    id: "kny_selcuklu_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "mevlana", "religious"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "aLJN6SOCKgkZFgY5oqZt-A", lat: 37.8713, lng: 32.4846, heading: 180 },
-    pano1: { panoId: "aLJN6SOCKgkZFgY5oqZt-A", lat: 37.8713, lng: 32.4841, heading: 270 },
-    pano2: { panoId: "aLJN6SOCKgkZFgY5oqZt-A", lat: 37.8713, lng: 32.4851, heading: 90 },
-    pano3: { panoId: "aLJN6SOCKgkZFgY5oqZt-A", lat: 37.8708, lng: 32.4846, heading: 180 },
-    locationName: "Selçuklu, Konya",
-  },
-  {
-    id: "kys_melikgazi_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "castle", "historic"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "oREhhFWo6BSVaef3FeDnsw", lat: 38.7312, lng: 35.4787, heading: 0 },
-    pano1: { panoId: "oREhhFWo6BSVaef3FeDnsw", lat: 38.7312, lng: 35.4782, heading: 270 },
-    pano2: { panoId: "oREhhFWo6BSVaef3FeDnsw", lat: 38.7312, lng: 35.4792, heading: 90 },
-    pano3: { panoId: "oREhhFWo6BSVaef3FeDnsw", lat: 38.7317, lng: 35.4787, heading: 0 },
-    locationName: "Melikgazi, Kayseri",
-  },
-  {
-    id: "esk_tepebasi_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "university", "modern"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "6XTwn_fOYhDZaa-ZTGn8Ow", lat: 39.7767, lng: 30.5206, heading: 90 },
-    pano1: { panoId: "6XTwn_fOYhDZaa-ZTGn8Ow", lat: 39.7767, lng: 30.5201, heading: 270 },
-    pano2: { panoId: "6XTwn_fOYhDZaa-ZTGn8Ow", lat: 39.7767, lng: 30.5211, heading: 90 },
-    pano3: { panoId: "6XTwn_fOYhDZaa-ZTGn8Ow", lat: 39.7772, lng: 30.5206, heading: 0 },
-    locationName: "Tepebaşı, Eskişehir",
-  },
-  {
-    id: "sms_ilkadim_1",
-    mode: "urban",
-    region: "karadeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "port", "sea"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "lTiDd1_8y7-pvoQeHzp7fA", lat: 41.2867, lng: 36.3300, heading: 0 },
-    pano1: { panoId: "lTiDd1_8y7-pvoQeHzp7fA", lat: 41.2867, lng: 36.3295, heading: 270 },
-    pano2: { panoId: "lTiDd1_8y7-pvoQeHzp7fA", lat: 41.2867, lng: 36.3305, heading: 90 },
-    pano3: { panoId: "lTiDd1_8y7-pvoQeHzp7fA", lat: 41.2872, lng: 36.3300, heading: 0 },
-    locationName: "İlkadım, Samsun",
-  },
-  {
-    id: "dnz_merkezefendi_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "textile", "industrial"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "7fqux-5qOQRhY1Aa5hrRfg", lat: 37.7765, lng: 29.0864, heading: 180 },
-    pano1: { panoId: "7fqux-5qOQRhY1Aa5hrRfg", lat: 37.7765, lng: 29.0859, heading: 270 },
-    pano2: { panoId: "7fqux-5qOQRhY1Aa5hrRfg", lat: 37.7765, lng: 29.0869, heading: 90 },
-    pano3: { panoId: "7fqux-5qOQRhY1Aa5hrRfg", lat: 37.7760, lng: 29.0864, heading: 180 },
-    locationName: "Merkezefendi, Denizli",
-  },
-  {
-    id: "sur_haliliye_1",
-    mode: "urban",
-    region: "guneydogu",
-    roadType: "urban_street",
-    hintTags: ["signage", "balikligol", "religious"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "R94Fs7k5YDzxD_hD0viw1w", lat: 37.1591, lng: 38.7969, heading: 90 },
-    pano1: { panoId: "R94Fs7k5YDzxD_hD0viw1w", lat: 37.1591, lng: 38.7964, heading: 270 },
-    pano2: { panoId: "R94Fs7k5YDzxD_hD0viw1w", lat: 37.1591, lng: 38.7974, heading: 90 },
-    pano3: { panoId: "R94Fs7k5YDzxD_hD0viw1w", lat: 37.1596, lng: 38.7969, heading: 0 },
-    locationName: "Haliliye, Şanlıurfa",
-  },
-
-  // Daha fazla şehir...
-  {
-    id: "trb_ortahisar_1",
-    mode: "urban",
-    region: "karadeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "port", "tea"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "9lH4A04zJusKkRnC3v7K8w", lat: 41.0015, lng: 39.7178, heading: 0 },
-    pano1: { panoId: "9lH4A04zJusKkRnC3v7K8w", lat: 41.0015, lng: 39.7173, heading: 270 },
-    pano2: { panoId: "9lH4A04zJusKkRnC3v7K8w", lat: 41.0015, lng: 39.7183, heading: 90 },
-    pano3: { panoId: "9lH4A04zJusKkRnC3v7K8w", lat: 41.0020, lng: 39.7178, heading: 0 },
-    locationName: "Ortahisar, Trabzon",
-  },
-  {
-    id: "mal_battalgazi_1",
-    mode: "urban",
-    region: "dogu_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "apricot", "historic"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "SQ1GZoA5u2JeqjQw3CGjqg", lat: 38.3552, lng: 38.3095, heading: 180 },
-    pano1: { panoId: "SQ1GZoA5u2JeqjQw3CGjqg", lat: 38.3552, lng: 38.3090, heading: 270 },
-    pano2: { panoId: "SQ1GZoA5u2JeqjQw3CGjqg", lat: 38.3552, lng: 38.3100, heading: 90 },
-    pano3: { panoId: "SQ1GZoA5u2JeqjQw3CGjqg", lat: 38.3547, lng: 38.3095, heading: 180 },
-    locationName: "Battalgazi, Malatya",
-  },
-  {
-    id: "erz_yakutiye_1",
-    mode: "urban",
-    region: "dogu_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "winter", "university"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "5LU6xa_o4d-iFoj-7OnUnw", lat: 39.9000, lng: 41.2700, heading: 90 },
-    pano1: { panoId: "5LU6xa_o4d-iFoj-7OnUnw", lat: 39.9000, lng: 41.2695, heading: 270 },
-    pano2: { panoId: "5LU6xa_o4d-iFoj-7OnUnw", lat: 39.9000, lng: 41.2705, heading: 90 },
-    pano3: { panoId: "5LU6xa_o4d-iFoj-7OnUnw", lat: 39.9005, lng: 41.2700, heading: 0 },
-    locationName: "Yakutiye, Erzurum",
-  },
-  {
-    id: "diy_baglar_1",
-    mode: "urban",
-    region: "guneydogu",
-    roadType: "urban_street",
-    hintTags: ["signage", "walls", "historic"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "UmGZOi_cZ0Gg7OgiL-B0ww", lat: 37.9100, lng: 40.2300, heading: 0 },
-    pano1: { panoId: "UmGZOi_cZ0Gg7OgiL-B0ww", lat: 37.9100, lng: 40.2295, heading: 270 },
-    pano2: { panoId: "UmGZOi_cZ0Gg7OgiL-B0ww", lat: 37.9100, lng: 40.2305, heading: 90 },
-    pano3: { panoId: "UmGZOi_cZ0Gg7OgiL-B0ww", lat: 37.9105, lng: 40.2300, heading: 0 },
-    locationName: "Bağlar, Diyarbakır",
-  },
-  {
-    id: "van_ipekyolu_1",
-    mode: "urban",
-    region: "dogu_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "lake", "castle"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "HpLkq2pxlcQipmNmhdDcpg", lat: 38.4942, lng: 43.3800, heading: 180 },
-    pano1: { panoId: "HpLkq2pxlcQipmNmhdDcpg", lat: 38.4942, lng: 43.3795, heading: 270 },
-    pano2: { panoId: "HpLkq2pxlcQipmNmhdDcpg", lat: 38.4942, lng: 43.3805, heading: 90 },
-    pano3: { panoId: "HpLkq2pxlcQipmNmhdDcpg", lat: 38.4937, lng: 43.3800, heading: 180 },
-    locationName: "İpekyolu, Van",
-  },
-
-  // ==================== YENİ URBAN LOKASYONLAR ====================
-
-  // İSTANBUL EK LOKASYONLAR
-  {
-    id: "ist_sariyer_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "bosphorus", "village"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "oz2YxMuGcnATXlgZnpaRQw", lat: 41.1667, lng: 29.0500, heading: 90 },
-    pano1: { panoId: "oz2YxMuGcnATXlgZnpaRQw", lat: 41.1667, lng: 29.0495, heading: 270 },
-    pano2: { panoId: "oz2YxMuGcnATXlgZnpaRQw", lat: 41.1667, lng: 29.0505, heading: 90 },
-    pano3: { panoId: "oz2YxMuGcnATXlgZnpaRQw", lat: 41.1672, lng: 29.0500, heading: 0 },
-    locationName: "Sarıyer, İstanbul",
-  },
-  {
-    id: "ist_maltepe_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "sahil", "modern"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "6pWQbiIIP2ilJKAnjpk_Tw", lat: 40.9333, lng: 29.1333, heading: 0 },
-    pano1: { panoId: "6pWQbiIIP2ilJKAnjpk_Tw", lat: 40.9333, lng: 29.1328, heading: 270 },
-    pano2: { panoId: "6pWQbiIIP2ilJKAnjpk_Tw", lat: 40.9333, lng: 29.1338, heading: 90 },
-    pano3: { panoId: "6pWQbiIIP2ilJKAnjpk_Tw", lat: 40.9338, lng: 29.1333, heading: 0 },
-    locationName: "Maltepe, İstanbul",
-  },
-  {
-    id: "ist_beyoglu_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "historic", "tramway"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "yuZinCzNoutTd5SiyU-tIA", lat: 41.0320, lng: 28.9770, heading: 180 },
-    pano1: { panoId: "yuZinCzNoutTd5SiyU-tIA", lat: 41.0320, lng: 28.9765, heading: 270 },
-    pano2: { panoId: "yuZinCzNoutTd5SiyU-tIA", lat: 41.0320, lng: 28.9775, heading: 90 },
-    pano3: { panoId: "yuZinCzNoutTd5SiyU-tIA", lat: 41.0315, lng: 28.9770, heading: 180 },
-    locationName: "Beyoğlu, İstanbul",
-  },
-  {
-    id: "ist_sisli_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "business", "modern"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "j1pOx5pvPvHV9lCPQEgcnQ", lat: 41.0600, lng: 28.9870, heading: 90 },
-    pano1: { panoId: "j1pOx5pvPvHV9lCPQEgcnQ", lat: 41.0600, lng: 28.9865, heading: 270 },
-    pano2: { panoId: "j1pOx5pvPvHV9lCPQEgcnQ", lat: 41.0600, lng: 28.9875, heading: 90 },
-    pano3: { panoId: "j1pOx5pvPvHV9lCPQEgcnQ", lat: 41.0605, lng: 28.9870, heading: 0 },
-    locationName: "Şişli, İstanbul",
-  },
-  {
-    id: "ist_eminonu_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "bazaar", "historic"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "Lx3lIkQ2UwyW-puq-UtChg", lat: 41.0170, lng: 28.9700, heading: 0 },
-    pano1: { panoId: "Lx3lIkQ2UwyW-puq-UtChg", lat: 41.0170, lng: 28.9695, heading: 270 },
-    pano2: { panoId: "Lx3lIkQ2UwyW-puq-UtChg", lat: 41.0170, lng: 28.9705, heading: 90 },
-    pano3: { panoId: "Lx3lIkQ2UwyW-puq-UtChg", lat: 41.0175, lng: 28.9700, heading: 0 },
-    locationName: "Eminönü, İstanbul",
-  },
-  {
-    id: "ist_pendik_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "suburb", "marina"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "tFK-daB2IIOy6CCWWtdb9w", lat: 40.8750, lng: 29.2333, heading: 180 },
-    pano1: { panoId: "tFK-daB2IIOy6CCWWtdb9w", lat: 40.8750, lng: 29.2328, heading: 270 },
-    pano2: { panoId: "tFK-daB2IIOy6CCWWtdb9w", lat: 40.8750, lng: 29.2338, heading: 90 },
-    pano3: { panoId: "tFK-daB2IIOy6CCWWtdb9w", lat: 40.8745, lng: 29.2333, heading: 180 },
-    locationName: "Pendik, İstanbul",
-  },
-  {
-    id: "ist_avcilar_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "university", "beach"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "xo7jcKpTMefIi6MMfebhpA", lat: 40.9800, lng: 28.7200, heading: 0 },
-    pano1: { panoId: "xo7jcKpTMefIi6MMfebhpA", lat: 40.9800, lng: 28.7195, heading: 270 },
-    pano2: { panoId: "xo7jcKpTMefIi6MMfebhpA", lat: 40.9800, lng: 28.7205, heading: 90 },
-    pano3: { panoId: "xo7jcKpTMefIi6MMfebhpA", lat: 40.9805, lng: 28.7200, heading: 0 },
-    locationName: "Avcılar, İstanbul",
-  },
-  {
-    id: "ist_kartal_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "metro", "modern"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "ErYi2GUOr_dgfcG254SioQ", lat: 40.8900, lng: 29.1900, heading: 90 },
-    pano1: { panoId: "ErYi2GUOr_dgfcG254SioQ", lat: 40.8900, lng: 29.1895, heading: 270 },
-    pano2: { panoId: "ErYi2GUOr_dgfcG254SioQ", lat: 40.8900, lng: 29.1905, heading: 90 },
-    pano3: { panoId: "ErYi2GUOr_dgfcG254SioQ", lat: 40.8905, lng: 29.1900, heading: 0 },
-    locationName: "Kartal, İstanbul",
-  },
-
-  // ANKARA EK LOKASYONLAR
-  {
-    id: "ank_etimesgut_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "suburb", "airport"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE1VbHVLVEVYNHpGX1A2UWRUUHdJRnFQRXBqQU1xRTZETVhTOWJj", lat: 39.9500, lng: 32.6800, heading: 180 },
-    pano1: { panoId: "CAoSLEFGMVFpcE1VbHVLVEVYNHpGX1A2UWRUUHdJRnFQRXBqQU1xRTZETVhTOWJj", lat: 39.9500, lng: 32.6795, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE1VbHVLVEVYNHpGX1A2UWRUUHdJRnFQRXBqQU1xRTZETVhTOWJj", lat: 39.9500, lng: 32.6805, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE1VbHVLVEVYNHpGX1A2UWRUUHdJRnFQRXBqQU1xRTZETVhTOWJj", lat: 39.9495, lng: 32.6800, heading: 180 },
-    locationName: "Etimesgut, Ankara",
-  },
-  {
-    id: "ank_kecioren_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "residential", "hill"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "tVvRpJ-jk9NWlH8Xmq_sxA", lat: 39.9700, lng: 32.8600, heading: 0 },
-    pano1: { panoId: "tVvRpJ-jk9NWlH8Xmq_sxA", lat: 39.9700, lng: 32.8595, heading: 270 },
-    pano2: { panoId: "tVvRpJ-jk9NWlH8Xmq_sxA", lat: 39.9700, lng: 32.8605, heading: 90 },
-    pano3: { panoId: "tVvRpJ-jk9NWlH8Xmq_sxA", lat: 39.9705, lng: 32.8600, heading: 0 },
-    locationName: "Keçiören, Ankara",
-  },
-  {
-    id: "ank_mamak_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "residential", "east"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "MIFddQjAgqFawzC82yBqmw", lat: 39.9200, lng: 32.9200, heading: 90 },
-    pano1: { panoId: "MIFddQjAgqFawzC82yBqmw", lat: 39.9200, lng: 32.9195, heading: 270 },
-    pano2: { panoId: "MIFddQjAgqFawzC82yBqmw", lat: 39.9200, lng: 32.9205, heading: 90 },
-    pano3: { panoId: "MIFddQjAgqFawzC82yBqmw", lat: 39.9205, lng: 32.9200, heading: 0 },
-    locationName: "Mamak, Ankara",
-  },
-  {
-    id: "ank_yenimahalle_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "modern", "metro"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "8elxOi_Maomy3YoGRv9Jhg", lat: 39.9650, lng: 32.8100, heading: 180 },
-    pano1: { panoId: "8elxOi_Maomy3YoGRv9Jhg", lat: 39.9650, lng: 32.8095, heading: 270 },
-    pano2: { panoId: "8elxOi_Maomy3YoGRv9Jhg", lat: 39.9650, lng: 32.8105, heading: 90 },
-    pano3: { panoId: "8elxOi_Maomy3YoGRv9Jhg", lat: 39.9645, lng: 32.8100, heading: 180 },
-    locationName: "Yenimahalle, Ankara",
-  },
-  {
-    id: "ank_sincan_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "industry", "train"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "52VZwJZ-ubjuQT5BhcbSnw", lat: 39.9750, lng: 32.5850, heading: 0 },
-    pano1: { panoId: "52VZwJZ-ubjuQT5BhcbSnw", lat: 39.9750, lng: 32.5845, heading: 270 },
-    pano2: { panoId: "52VZwJZ-ubjuQT5BhcbSnw", lat: 39.9750, lng: 32.5855, heading: 90 },
-    pano3: { panoId: "52VZwJZ-ubjuQT5BhcbSnw", lat: 39.9755, lng: 32.5850, heading: 0 },
-    locationName: "Sincan, Ankara",
-  },
-
-  // İZMİR EK LOKASYONLAR
-  {
-    id: "izm_bornova_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "university", "modern"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "oC0cF5uXciiGFbEmQj554w", lat: 38.4670, lng: 27.2200, heading: 90 },
-    pano1: { panoId: "oC0cF5uXciiGFbEmQj554w", lat: 38.4670, lng: 27.2195, heading: 270 },
-    pano2: { panoId: "oC0cF5uXciiGFbEmQj554w", lat: 38.4670, lng: 27.2205, heading: 90 },
-    pano3: { panoId: "oC0cF5uXciiGFbEmQj554w", lat: 38.4675, lng: 27.2200, heading: 0 },
-    locationName: "Bornova, İzmir",
-  },
-  {
-    id: "izm_karsiyaka_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "ferry", "kordon"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "WNO7-37bPzpr0x_pqnOgow", lat: 38.4560, lng: 27.1100, heading: 180 },
-    pano1: { panoId: "WNO7-37bPzpr0x_pqnOgow", lat: 38.4560, lng: 27.1095, heading: 270 },
-    pano2: { panoId: "WNO7-37bPzpr0x_pqnOgow", lat: 38.4560, lng: 27.1105, heading: 90 },
-    pano3: { panoId: "WNO7-37bPzpr0x_pqnOgow", lat: 38.4555, lng: 27.1100, heading: 180 },
-    locationName: "Karşıyaka, İzmir",
-  },
-  {
-    id: "izm_buca_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "residential", "hill"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "Z6THgIaP1pmRAs6gb2IFpA", lat: 38.3880, lng: 27.1750, heading: 0 },
-    pano1: { panoId: "Z6THgIaP1pmRAs6gb2IFpA", lat: 38.3880, lng: 27.1745, heading: 270 },
-    pano2: { panoId: "Z6THgIaP1pmRAs6gb2IFpA", lat: 38.3880, lng: 27.1755, heading: 90 },
-    pano3: { panoId: "Z6THgIaP1pmRAs6gb2IFpA", lat: 38.3885, lng: 27.1750, heading: 0 },
-    locationName: "Buca, İzmir",
-  },
-  {
-    id: "izm_cesme_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "beach", "resort"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "Ieguwq2M2o65TDvm4ZhH1w", lat: 38.3240, lng: 26.3030, heading: 90 },
-    pano1: { panoId: "Ieguwq2M2o65TDvm4ZhH1w", lat: 38.3240, lng: 26.3025, heading: 270 },
-    pano2: { panoId: "Ieguwq2M2o65TDvm4ZhH1w", lat: 38.3240, lng: 26.3035, heading: 90 },
-    pano3: { panoId: "Ieguwq2M2o65TDvm4ZhH1w", lat: 38.3245, lng: 26.3030, heading: 0 },
-    locationName: "Çeşme, İzmir",
-  },
-
-  // ANTALYA EK LOKASYONLAR
-  {
-    id: "ant_konyaalti_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "beach", "modern"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "6n0fsZa5nsGQMVQWDqDDdA", lat: 36.8650, lng: 30.6300, heading: 270 },
-    pano1: { panoId: "6n0fsZa5nsGQMVQWDqDDdA", lat: 36.8650, lng: 30.6295, heading: 270 },
-    pano2: { panoId: "6n0fsZa5nsGQMVQWDqDDdA", lat: 36.8650, lng: 30.6305, heading: 90 },
-    pano3: { panoId: "6n0fsZa5nsGQMVQWDqDDdA", lat: 36.8655, lng: 30.6300, heading: 0 },
-    locationName: "Konyaaltı, Antalya",
-  },
-  {
-    id: "ant_lara_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "hotel", "beach"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "V9xlS4uISYF6u_E2Mb7CmA", lat: 36.8500, lng: 30.7900, heading: 0 },
-    pano1: { panoId: "V9xlS4uISYF6u_E2Mb7CmA", lat: 36.8500, lng: 30.7895, heading: 270 },
-    pano2: { panoId: "V9xlS4uISYF6u_E2Mb7CmA", lat: 36.8500, lng: 30.7905, heading: 90 },
-    pano3: { panoId: "V9xlS4uISYF6u_E2Mb7CmA", lat: 36.8505, lng: 30.7900, heading: 0 },
-    locationName: "Lara, Antalya",
-  },
-  {
-    id: "ant_alanya_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "castle", "tourist"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "bq3qKKnkiUjYqd2QJaI-2w", lat: 36.5440, lng: 32.0000, heading: 180 },
-    pano1: { panoId: "bq3qKKnkiUjYqd2QJaI-2w", lat: 36.5440, lng: 31.9995, heading: 270 },
-    pano2: { panoId: "bq3qKKnkiUjYqd2QJaI-2w", lat: 36.5440, lng: 32.0005, heading: 90 },
-    pano3: { panoId: "bq3qKKnkiUjYqd2QJaI-2w", lat: 36.5435, lng: 32.0000, heading: 180 },
-    locationName: "Alanya, Antalya",
-  },
-  {
-    id: "ant_manavgat_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "waterfall", "market"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "prQz9CrMbTK2EowjXs3LLA", lat: 36.7870, lng: 31.4430, heading: 90 },
-    pano1: { panoId: "prQz9CrMbTK2EowjXs3LLA", lat: 36.7870, lng: 31.4425, heading: 270 },
-    pano2: { panoId: "prQz9CrMbTK2EowjXs3LLA", lat: 36.7870, lng: 31.4435, heading: 90 },
-    pano3: { panoId: "prQz9CrMbTK2EowjXs3LLA", lat: 36.7875, lng: 31.4430, heading: 0 },
-    locationName: "Manavgat, Antalya",
-  },
-  {
-    id: "ant_side_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "ancient", "temple"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "mpVUvtblAw9sOFEvTvMGdA", lat: 36.7670, lng: 31.3880, heading: 0 },
-    pano1: { panoId: "mpVUvtblAw9sOFEvTvMGdA", lat: 36.7670, lng: 31.3875, heading: 270 },
-    pano2: { panoId: "mpVUvtblAw9sOFEvTvMGdA", lat: 36.7670, lng: 31.3885, heading: 90 },
-    pano3: { panoId: "mpVUvtblAw9sOFEvTvMGdA", lat: 36.7675, lng: 31.3880, heading: 0 },
-    locationName: "Side, Antalya",
-  },
-
-  // MUĞLA / BODRUM / MARMARIS / FETHİYE
-  {
-    id: "mug_bodrum_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "castle", "yacht"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "6BzoINDXpcfrIaWZ85KeCQ", lat: 37.0340, lng: 27.4280, heading: 180 },
-    pano1: { panoId: "6BzoINDXpcfrIaWZ85KeCQ", lat: 37.0340, lng: 27.4275, heading: 270 },
-    pano2: { panoId: "6BzoINDXpcfrIaWZ85KeCQ", lat: 37.0340, lng: 27.4285, heading: 90 },
-    pano3: { panoId: "6BzoINDXpcfrIaWZ85KeCQ", lat: 37.0335, lng: 27.4280, heading: 180 },
-    locationName: "Bodrum, Muğla",
-  },
-  {
-    id: "mug_marmaris_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "marina", "tourist"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "Mr7s1wXt2YRUsCXi3NWApw", lat: 36.8510, lng: 28.2720, heading: 90 },
-    pano1: { panoId: "Mr7s1wXt2YRUsCXi3NWApw", lat: 36.8510, lng: 28.2715, heading: 270 },
-    pano2: { panoId: "Mr7s1wXt2YRUsCXi3NWApw", lat: 36.8510, lng: 28.2725, heading: 90 },
-    pano3: { panoId: "Mr7s1wXt2YRUsCXi3NWApw", lat: 36.8515, lng: 28.2720, heading: 0 },
-    locationName: "Marmaris, Muğla",
-  },
-  {
-    id: "mug_fethiye_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "harbor", "tomb"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CCq_tqDlFAOYvHy4hy33kA", lat: 36.6510, lng: 29.1170, heading: 0 },
-    pano1: { panoId: "CCq_tqDlFAOYvHy4hy33kA", lat: 36.6510, lng: 29.1165, heading: 270 },
-    pano2: { panoId: "CCq_tqDlFAOYvHy4hy33kA", lat: 36.6510, lng: 29.1175, heading: 90 },
-    pano3: { panoId: "CCq_tqDlFAOYvHy4hy33kA", lat: 36.6515, lng: 29.1170, heading: 0 },
-    locationName: "Fethiye, Muğla",
-  },
-  {
-    id: "mug_dalaman_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "airport", "delta"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "EYleFjyaVIHvvLfLhGrCVQ", lat: 36.7670, lng: 28.7990, heading: 180 },
-    pano1: { panoId: "EYleFjyaVIHvvLfLhGrCVQ", lat: 36.7670, lng: 28.7985, heading: 270 },
-    pano2: { panoId: "EYleFjyaVIHvvLfLhGrCVQ", lat: 36.7670, lng: 28.7995, heading: 90 },
-    pano3: { panoId: "EYleFjyaVIHvvLfLhGrCVQ", lat: 36.7665, lng: 28.7990, heading: 180 },
-    locationName: "Dalaman, Muğla",
-  },
-
-  // MERSİN
-  {
-    id: "mer_yenisehir_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "port", "modern"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "MYMY4RCH2itP3ChGC0d-eg", lat: 36.8000, lng: 34.6300, heading: 0 },
-    pano1: { panoId: "MYMY4RCH2itP3ChGC0d-eg", lat: 36.8000, lng: 34.6295, heading: 270 },
-    pano2: { panoId: "MYMY4RCH2itP3ChGC0d-eg", lat: 36.8000, lng: 34.6305, heading: 90 },
-    pano3: { panoId: "MYMY4RCH2itP3ChGC0d-eg", lat: 36.8005, lng: 34.6300, heading: 0 },
-    locationName: "Yenişehir, Mersin",
-  },
-  {
-    id: "mer_tarsus_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "cleopatra", "ancient"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "SbKeS5aRRRq6KBLcz1D87Q", lat: 36.9170, lng: 34.8930, heading: 90 },
-    pano1: { panoId: "SbKeS5aRRRq6KBLcz1D87Q", lat: 36.9170, lng: 34.8925, heading: 270 },
-    pano2: { panoId: "SbKeS5aRRRq6KBLcz1D87Q", lat: 36.9170, lng: 34.8935, heading: 90 },
-    pano3: { panoId: "SbKeS5aRRRq6KBLcz1D87Q", lat: 36.9175, lng: 34.8930, heading: 0 },
-    locationName: "Tarsus, Mersin",
-  },
-
-  // KOCAELİ
-  {
-    id: "koc_izmit_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "industry", "gulf"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "-ESMhUCDS6XBn-4BcswFEw", lat: 40.7650, lng: 29.9400, heading: 180 },
-    pano1: { panoId: "-ESMhUCDS6XBn-4BcswFEw", lat: 40.7650, lng: 29.9395, heading: 270 },
-    pano2: { panoId: "-ESMhUCDS6XBn-4BcswFEw", lat: 40.7650, lng: 29.9405, heading: 90 },
-    pano3: { panoId: "-ESMhUCDS6XBn-4BcswFEw", lat: 40.7645, lng: 29.9400, heading: 180 },
-    locationName: "İzmit, Kocaeli",
-  },
-  {
-    id: "koc_gebze_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "industry", "tech"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "90-Rb37dXoi946m0eocO_Q", lat: 40.8020, lng: 29.4310, heading: 0 },
-    pano1: { panoId: "90-Rb37dXoi946m0eocO_Q", lat: 40.8020, lng: 29.4305, heading: 270 },
-    pano2: { panoId: "90-Rb37dXoi946m0eocO_Q", lat: 40.8020, lng: 29.4315, heading: 90 },
-    pano3: { panoId: "90-Rb37dXoi946m0eocO_Q", lat: 40.8025, lng: 29.4310, heading: 0 },
-    locationName: "Gebze, Kocaeli",
-  },
-
-  // AYDIN / KUŞADASI
-  {
-    id: "ayd_kusadasi_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "cruise", "beach"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "LLC-pQZIUrnFTt4KxgcaRA", lat: 37.8600, lng: 27.2600, heading: 90 },
-    pano1: { panoId: "LLC-pQZIUrnFTt4KxgcaRA", lat: 37.8600, lng: 27.2595, heading: 270 },
-    pano2: { panoId: "LLC-pQZIUrnFTt4KxgcaRA", lat: 37.8600, lng: 27.2605, heading: 90 },
-    pano3: { panoId: "LLC-pQZIUrnFTt4KxgcaRA", lat: 37.8605, lng: 27.2600, heading: 0 },
-    locationName: "Kuşadası, Aydın",
-  },
-  {
-    id: "ayd_didim_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "apollo", "beach"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "dS8yeO6jy9ZHPlE2hc2Uhw", lat: 37.3800, lng: 27.2700, heading: 0 },
-    pano1: { panoId: "dS8yeO6jy9ZHPlE2hc2Uhw", lat: 37.3800, lng: 27.2695, heading: 270 },
-    pano2: { panoId: "dS8yeO6jy9ZHPlE2hc2Uhw", lat: 37.3800, lng: 27.2705, heading: 90 },
-    pano3: { panoId: "dS8yeO6jy9ZHPlE2hc2Uhw", lat: 37.3805, lng: 27.2700, heading: 0 },
-    locationName: "Didim, Aydın",
-  },
-
-  // TEKİRDAĞ / EDİRNE
-  {
-    id: "tek_corlu_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "industry", "thrace"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "KJ7JRbGzDGRiwOB_Ny1BmA", lat: 41.1600, lng: 27.8000, heading: 90 },
-    pano1: { panoId: "KJ7JRbGzDGRiwOB_Ny1BmA", lat: 41.1600, lng: 27.7995, heading: 270 },
-    pano2: { panoId: "KJ7JRbGzDGRiwOB_Ny1BmA", lat: 41.1600, lng: 27.8005, heading: 90 },
-    pano3: { panoId: "KJ7JRbGzDGRiwOB_Ny1BmA", lat: 41.1605, lng: 27.8000, heading: 0 },
-    locationName: "Çorlu, Tekirdağ",
-  },
-  {
-    id: "edi_merkez_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "selimiye", "border"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "2ITLzbWz9b_i58zM4Y3H8w", lat: 41.6770, lng: 26.5560, heading: 180 },
-    pano1: { panoId: "2ITLzbWz9b_i58zM4Y3H8w", lat: 41.6770, lng: 26.5555, heading: 270 },
-    pano2: { panoId: "2ITLzbWz9b_i58zM4Y3H8w", lat: 41.6770, lng: 26.5565, heading: 90 },
-    pano3: { panoId: "2ITLzbWz9b_i58zM4Y3H8w", lat: 41.6765, lng: 26.5560, heading: 180 },
-    locationName: "Merkez, Edirne",
-  },
-
-  // HATAY
-  {
-    id: "hat_antakya_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "mosaic", "arab"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "VqKT7vOmGhRIoCTpQKywbQ", lat: 36.2020, lng: 36.1600, heading: 0 },
-    pano1: { panoId: "VqKT7vOmGhRIoCTpQKywbQ", lat: 36.2020, lng: 36.1595, heading: 270 },
-    pano2: { panoId: "VqKT7vOmGhRIoCTpQKywbQ", lat: 36.2020, lng: 36.1605, heading: 90 },
-    pano3: { panoId: "VqKT7vOmGhRIoCTpQKywbQ", lat: 36.2025, lng: 36.1600, heading: 0 },
-    locationName: "Antakya, Hatay",
-  },
-  {
-    id: "hat_iskenderun_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "port", "steel"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "4PIBgwSE6Y7qt-d0XA1uzg", lat: 36.5870, lng: 36.1700, heading: 90 },
-    pano1: { panoId: "4PIBgwSE6Y7qt-d0XA1uzg", lat: 36.5870, lng: 36.1695, heading: 270 },
-    pano2: { panoId: "4PIBgwSE6Y7qt-d0XA1uzg", lat: 36.5870, lng: 36.1705, heading: 90 },
-    pano3: { panoId: "4PIBgwSE6Y7qt-d0XA1uzg", lat: 36.5875, lng: 36.1700, heading: 0 },
-    locationName: "İskenderun, Hatay",
-  },
-
-  // MARDİN / ŞIRNAK
-  {
-    id: "mrd_artuklu_1",
-    mode: "urban",
-    region: "guneydogu",
-    roadType: "urban_street",
-    hintTags: ["signage", "stone", "historic"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "VrqeWtRMyFkmn4ksS_hANA", lat: 37.3130, lng: 40.7350, heading: 180 },
-    pano1: { panoId: "VrqeWtRMyFkmn4ksS_hANA", lat: 37.3130, lng: 40.7345, heading: 270 },
-    pano2: { panoId: "VrqeWtRMyFkmn4ksS_hANA", lat: 37.3130, lng: 40.7355, heading: 90 },
-    pano3: { panoId: "VrqeWtRMyFkmn4ksS_hANA", lat: 37.3125, lng: 40.7350, heading: 180 },
-    locationName: "Artuklu, Mardin",
-  },
-
-  // ORDU / GİRESUN / RİZE
-  {
-    id: "ord_altinordu_1",
-    mode: "urban",
-    region: "karadeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "hazelnut", "coast"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "rasMY2mU36BAXU5y3GtNiQ", lat: 40.9840, lng: 37.8790, heading: 0 },
-    pano1: { panoId: "rasMY2mU36BAXU5y3GtNiQ", lat: 40.9840, lng: 37.8785, heading: 270 },
-    pano2: { panoId: "rasMY2mU36BAXU5y3GtNiQ", lat: 40.9840, lng: 37.8795, heading: 90 },
-    pano3: { panoId: "rasMY2mU36BAXU5y3GtNiQ", lat: 40.9845, lng: 37.8790, heading: 0 },
-    locationName: "Altınordu, Ordu",
-  },
-  {
-    id: "gir_merkez_1",
-    mode: "urban",
-    region: "karadeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "island", "cherry"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "H3WzpEw0COB5Ukg9JwcFgA", lat: 40.9120, lng: 38.3900, heading: 90 },
-    pano1: { panoId: "H3WzpEw0COB5Ukg9JwcFgA", lat: 40.9120, lng: 38.3895, heading: 270 },
-    pano2: { panoId: "H3WzpEw0COB5Ukg9JwcFgA", lat: 40.9120, lng: 38.3905, heading: 90 },
-    pano3: { panoId: "H3WzpEw0COB5Ukg9JwcFgA", lat: 40.9125, lng: 38.3900, heading: 0 },
-    locationName: "Merkez, Giresun",
-  },
-  {
-    id: "riz_merkez_1",
-    mode: "urban",
-    region: "karadeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "tea", "coast"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "9h4KpyBak7UFdDchg5cNow", lat: 41.0210, lng: 40.5220, heading: 180 },
-    pano1: { panoId: "9h4KpyBak7UFdDchg5cNow", lat: 41.0210, lng: 40.5215, heading: 270 },
-    pano2: { panoId: "9h4KpyBak7UFdDchg5cNow", lat: 41.0210, lng: 40.5225, heading: 90 },
-    pano3: { panoId: "9h4KpyBak7UFdDchg5cNow", lat: 41.0205, lng: 40.5220, heading: 180 },
-    locationName: "Merkez, Rize",
-  },
-
-  // ÇANAKKALE / BALIKESİR
-  {
-    id: "can_merkez_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "troy", "ferry"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "U-GuVegIy8_LYNqQIVsY1Q", lat: 40.1550, lng: 26.4140, heading: 0 },
-    pano1: { panoId: "U-GuVegIy8_LYNqQIVsY1Q", lat: 40.1550, lng: 26.4135, heading: 270 },
-    pano2: { panoId: "U-GuVegIy8_LYNqQIVsY1Q", lat: 40.1550, lng: 26.4145, heading: 90 },
-    pano3: { panoId: "U-GuVegIy8_LYNqQIVsY1Q", lat: 40.1555, lng: 26.4140, heading: 0 },
-    locationName: "Merkez, Çanakkale",
-  },
-  {
-    id: "bal_karesi_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "olive", "sea"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "ksr7czD_pudO2i4frgQCKA", lat: 39.6480, lng: 27.8860, heading: 90 },
-    pano1: { panoId: "ksr7czD_pudO2i4frgQCKA", lat: 39.6480, lng: 27.8855, heading: 270 },
-    pano2: { panoId: "ksr7czD_pudO2i4frgQCKA", lat: 39.6480, lng: 27.8865, heading: 90 },
-    pano3: { panoId: "ksr7czD_pudO2i4frgQCKA", lat: 39.6485, lng: 27.8860, heading: 0 },
-    locationName: "Karesi, Balıkesir",
-  },
-
-  // ZONGULDAK / BARTIN / KARABÜK
-  {
-    id: "zon_merkez_1",
-    mode: "urban",
-    region: "karadeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "coal", "port"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "OBp03LtxbKksTTFJH_LWwA", lat: 41.4530, lng: 31.7830, heading: 180 },
-    pano1: { panoId: "OBp03LtxbKksTTFJH_LWwA", lat: 41.4530, lng: 31.7825, heading: 270 },
-    pano2: { panoId: "OBp03LtxbKksTTFJH_LWwA", lat: 41.4530, lng: 31.7835, heading: 90 },
-    pano3: { panoId: "OBp03LtxbKksTTFJH_LWwA", lat: 41.4525, lng: 31.7830, heading: 180 },
-    locationName: "Merkez, Zonguldak",
-  },
-
-  // BOLU / DÜZCE / SAKARYA
-  {
-    id: "bol_merkez_1",
-    mode: "urban",
-    region: "karadeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "lake", "nature"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "j4e1N8mMyngVZTby-P_lZw", lat: 40.7350, lng: 31.6100, heading: 0 },
-    pano1: { panoId: "j4e1N8mMyngVZTby-P_lZw", lat: 40.7350, lng: 31.6095, heading: 270 },
-    pano2: { panoId: "j4e1N8mMyngVZTby-P_lZw", lat: 40.7350, lng: 31.6105, heading: 90 },
-    pano3: { panoId: "j4e1N8mMyngVZTby-P_lZw", lat: 40.7355, lng: 31.6100, heading: 0 },
-    locationName: "Merkez, Bolu",
-  },
-  {
-    id: "sak_adapazari_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "industry", "river"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "0y7gCdP73D_HqjNLvVdRkQ", lat: 40.7400, lng: 30.4050, heading: 90 },
-    pano1: { panoId: "0y7gCdP73D_HqjNLvVdRkQ", lat: 40.7400, lng: 30.4045, heading: 270 },
-    pano2: { panoId: "0y7gCdP73D_HqjNLvVdRkQ", lat: 40.7400, lng: 30.4055, heading: 90 },
-    pano3: { panoId: "0y7gCdP73D_HqjNLvVdRkQ", lat: 40.7405, lng: 30.4050, heading: 0 },
-    locationName: "Adapazarı, Sakarya",
-  },
-
-  // MANİSA / AFYON / UŞAK / KÜTAHYA
-  {
-    id: "man_yunusemre_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "grape", "historic"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "3Sd6T4V0G91K-Ao_wDrYBg", lat: 38.6120, lng: 27.4260, heading: 180 },
-    pano1: { panoId: "3Sd6T4V0G91K-Ao_wDrYBg", lat: 38.6120, lng: 27.4255, heading: 270 },
-    pano2: { panoId: "3Sd6T4V0G91K-Ao_wDrYBg", lat: 38.6120, lng: 27.4265, heading: 90 },
-    pano3: { panoId: "3Sd6T4V0G91K-Ao_wDrYBg", lat: 38.6115, lng: 27.4260, heading: 180 },
-    locationName: "Yunusemre, Manisa",
-  },
-  {
-    id: "afy_merkez_1",
-    mode: "urban",
-    region: "ege",
-    roadType: "urban_street",
-    hintTags: ["signage", "castle", "thermal"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "nPIt7aUeRbbRCPnO0QI84w", lat: 38.7500, lng: 30.5400, heading: 0 },
-    pano1: { panoId: "nPIt7aUeRbbRCPnO0QI84w", lat: 38.7500, lng: 30.5395, heading: 270 },
-    pano2: { panoId: "nPIt7aUeRbbRCPnO0QI84w", lat: 38.7500, lng: 30.5405, heading: 90 },
-    pano3: { panoId: "nPIt7aUeRbbRCPnO0QI84w", lat: 38.7505, lng: 30.5400, heading: 0 },
-    locationName: "Merkez, Afyonkarahisar",
-  },
-
-  // ISPARTA / BURDUR
-  {
-    id: "isp_merkez_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "rose", "lake"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "-nWW7KFPblcDeCNKbA_HsA", lat: 37.7640, lng: 30.5560, heading: 90 },
-    pano1: { panoId: "-nWW7KFPblcDeCNKbA_HsA", lat: 37.7640, lng: 30.5555, heading: 270 },
-    pano2: { panoId: "-nWW7KFPblcDeCNKbA_HsA", lat: 37.7640, lng: 30.5565, heading: 90 },
-    pano3: { panoId: "-nWW7KFPblcDeCNKbA_HsA", lat: 37.7645, lng: 30.5560, heading: 0 },
-    locationName: "Merkez, Isparta",
-  },
-
-  // BATMAN / SİİRT / ELAZIĞ / TUNCELİ
-  {
-    id: "btm_merkez_1",
-    mode: "urban",
-    region: "guneydogu",
-    roadType: "urban_street",
-    hintTags: ["signage", "oil", "tigris"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CXKjGlGUY79mQP8yRZnAmw", lat: 37.8810, lng: 41.1320, heading: 180 },
-    pano1: { panoId: "CXKjGlGUY79mQP8yRZnAmw", lat: 37.8810, lng: 41.1315, heading: 270 },
-    pano2: { panoId: "CXKjGlGUY79mQP8yRZnAmw", lat: 37.8810, lng: 41.1325, heading: 90 },
-    pano3: { panoId: "CXKjGlGUY79mQP8yRZnAmw", lat: 37.8805, lng: 41.1320, heading: 180 },
-    locationName: "Merkez, Batman",
-  },
-  {
-    id: "elz_merkez_1",
-    mode: "urban",
-    region: "dogu_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "university", "dam"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "Hmc_VPyj5CAdUYry9KiPJA", lat: 38.6750, lng: 39.2230, heading: 0 },
-    pano1: { panoId: "Hmc_VPyj5CAdUYry9KiPJA", lat: 38.6750, lng: 39.2225, heading: 270 },
-    pano2: { panoId: "Hmc_VPyj5CAdUYry9KiPJA", lat: 38.6750, lng: 39.2235, heading: 90 },
-    pano3: { panoId: "Hmc_VPyj5CAdUYry9KiPJA", lat: 38.6755, lng: 39.2230, heading: 0 },
-    locationName: "Merkez, Elazığ",
-  },
-
-  // SİVAS / TOKAT / AMASYA / ÇORUM
-  {
-    id: "svs_merkez_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "congress", "rail"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "TOl4ddrqKkWttYxwMYzRzg", lat: 39.7480, lng: 37.0150, heading: 90 },
-    pano1: { panoId: "TOl4ddrqKkWttYxwMYzRzg", lat: 39.7480, lng: 37.0145, heading: 270 },
-    pano2: { panoId: "TOl4ddrqKkWttYxwMYzRzg", lat: 39.7480, lng: 37.0155, heading: 90 },
-    pano3: { panoId: "TOl4ddrqKkWttYxwMYzRzg", lat: 39.7485, lng: 37.0150, heading: 0 },
-    locationName: "Merkez, Sivas",
-  },
-  {
-    id: "ams_merkez_1",
-    mode: "urban",
-    region: "karadeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "tombs", "river"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "_-jHHJSNcQBIOQU-oZotWw", lat: 40.6540, lng: 35.8330, heading: 180 },
-    pano1: { panoId: "_-jHHJSNcQBIOQU-oZotWw", lat: 40.6540, lng: 35.8325, heading: 270 },
-    pano2: { panoId: "_-jHHJSNcQBIOQU-oZotWw", lat: 40.6540, lng: 35.8335, heading: 90 },
-    pano3: { panoId: "_-jHHJSNcQBIOQU-oZotWw", lat: 40.6535, lng: 35.8330, heading: 180 },
-    locationName: "Merkez, Amasya",
-  },
-
-  // KAHRAMANMARAŞ / ADIYAMAN / OSMANİYE
-  {
-    id: "kmr_onikisubat_1",
-    mode: "urban",
-    region: "akdeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "ice_cream", "pepper"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "lsyfhSfKBcLj6KMPDBpSyA", lat: 37.5860, lng: 36.9370, heading: 0 },
-    pano1: { panoId: "lsyfhSfKBcLj6KMPDBpSyA", lat: 37.5860, lng: 36.9365, heading: 270 },
-    pano2: { panoId: "lsyfhSfKBcLj6KMPDBpSyA", lat: 37.5860, lng: 36.9375, heading: 90 },
-    pano3: { panoId: "lsyfhSfKBcLj6KMPDBpSyA", lat: 37.5865, lng: 36.9370, heading: 0 },
-    locationName: "Onikişubat, Kahramanmaraş",
-  },
-  {
-    id: "ady_merkez_1",
-    mode: "urban",
-    region: "guneydogu",
-    roadType: "urban_street",
-    hintTags: ["signage", "nemrut", "dam"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "ckySf0oG1cA_aiyZR5i1Bw", lat: 37.7640, lng: 38.2760, heading: 90 },
-    pano1: { panoId: "ckySf0oG1cA_aiyZR5i1Bw", lat: 37.7640, lng: 38.2755, heading: 270 },
-    pano2: { panoId: "ckySf0oG1cA_aiyZR5i1Bw", lat: 37.7640, lng: 38.2765, heading: 90 },
-    pano3: { panoId: "ckySf0oG1cA_aiyZR5i1Bw", lat: 37.7645, lng: 38.2760, heading: 0 },
-    locationName: "Merkez, Adıyaman",
-  },
-
-  // NİĞDE / NEVŞEHİR / AKSARAY / KARAMAN
-  {
-    id: "nvs_merkez_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "cappadocia", "balloon"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "15Y6dZlDa10A9dOTZQ0IcA", lat: 38.6250, lng: 34.7120, heading: 180 },
-    pano1: { panoId: "15Y6dZlDa10A9dOTZQ0IcA", lat: 38.6250, lng: 34.7115, heading: 270 },
-    pano2: { panoId: "15Y6dZlDa10A9dOTZQ0IcA", lat: 38.6250, lng: 34.7125, heading: 90 },
-    pano3: { panoId: "15Y6dZlDa10A9dOTZQ0IcA", lat: 38.6245, lng: 34.7120, heading: 180 },
-    locationName: "Merkez, Nevşehir",
-  },
-  {
-    id: "aks_merkez_1",
-    mode: "urban",
-    region: "ic_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "salt_lake", "volcanic"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "tTFIXAdfQq6ltkSxk_VZ4g", lat: 38.3690, lng: 34.0290, heading: 0 },
-    pano1: { panoId: "tTFIXAdfQq6ltkSxk_VZ4g", lat: 38.3690, lng: 34.0285, heading: 270 },
-    pano2: { panoId: "tTFIXAdfQq6ltkSxk_VZ4g", lat: 38.3690, lng: 34.0295, heading: 90 },
-    pano3: { panoId: "tTFIXAdfQq6ltkSxk_VZ4g", lat: 38.3695, lng: 34.0290, heading: 0 },
-    locationName: "Merkez, Aksaray",
-  },
-
-  // ARTVİN / KARS / AĞRI / IĞDIR
-  {
-    id: "art_merkez_1",
-    mode: "urban",
-    region: "karadeniz",
-    roadType: "urban_street",
-    hintTags: ["signage", "dam", "mountain"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "XfCGSjOdPFFj9TJLoyB_jA", lat: 41.1820, lng: 41.8180, heading: 90 },
-    pano1: { panoId: "XfCGSjOdPFFj9TJLoyB_jA", lat: 41.1820, lng: 41.8175, heading: 270 },
-    pano2: { panoId: "XfCGSjOdPFFj9TJLoyB_jA", lat: 41.1820, lng: 41.8185, heading: 90 },
-    pano3: { panoId: "XfCGSjOdPFFj9TJLoyB_jA", lat: 41.1825, lng: 41.8180, heading: 0 },
-    locationName: "Merkez, Artvin",
-  },
-  {
-    id: "krs_merkez_1",
-    mode: "urban",
-    region: "dogu_anadolu",
-    roadType: "urban_street",
-    hintTags: ["signage", "castle", "ani"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "gcPEfIiEZsdOplpLrFcsfw", lat: 40.6080, lng: 43.0950, heading: 180 },
-    pano1: { panoId: "gcPEfIiEZsdOplpLrFcsfw", lat: 40.6080, lng: 43.0945, heading: 270 },
-    pano2: { panoId: "gcPEfIiEZsdOplpLrFcsfw", lat: 40.6080, lng: 43.0955, heading: 90 },
-    pano3: { panoId: "gcPEfIiEZsdOplpLrFcsfw", lat: 40.6075, lng: 43.0950, heading: 180 },
-    locationName: "Merkez, Kars",
-  },
-
-  // YALOVA / BİLECİK / ÇANKIRI / KIRIKKALE / KIRŞEHİR
-  {
-    id: "ylv_merkez_1",
-    mode: "urban",
-    region: "marmara",
-    roadType: "urban_street",
-    hintTags: ["signage", "thermal", "ferry"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "JdYk_EbrGJnrdbpEDvjf3w", lat: 40.6550, lng: 29.2750, heading: 0 },
-    pano1: { panoId: "JdYk_EbrGJnrdbpEDvjf3w", lat: 40.6550, lng: 29.2745, heading: 270 },
-    pano2: { panoId: "JdYk_EbrGJnrdbpEDvjf3w", lat: 40.6550, lng: 29.2755, heading: 90 },
-    pano3: { panoId: "JdYk_EbrGJnrdbpEDvjf3w", lat: 40.6555, lng: 29.2750, heading: 0 },
-    locationName: "Merkez, Yalova",
-  },
-];
-
-// ==================== GEO PAKETLER ====================
-// Doğa, kırsal, dağ, sahil lokasyonları
-
-export const GEO_PACKAGES: PanoPackage[] = [
-  // KAPADOKYA
-  {
-    id: "geo_kapadokya_1",
-    mode: "geo",
-    region: "ic_anadolu",
-    roadType: "rural",
-    hintTags: ["rock_formation", "fairy_chimney", "volcanic"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "pHfn8Gk1-hnFeiK5kXab9w", lat: 38.6431, lng: 34.8289, heading: 90 },
-    pano1: { panoId: "pHfn8Gk1-hnFeiK5kXab9w", lat: 38.6431, lng: 34.8284, heading: 270 },
-    pano2: { panoId: "pHfn8Gk1-hnFeiK5kXab9w", lat: 38.6431, lng: 34.8294, heading: 90 },
-    pano3: { panoId: "pHfn8Gk1-hnFeiK5kXab9w", lat: 38.6436, lng: 34.8289, heading: 0 },
-    locationName: "Göreme, Nevşehir",
-  },
-  {
-    id: "geo_kapadokya_2",
-    mode: "geo",
-    region: "ic_anadolu",
-    roadType: "rural",
-    hintTags: ["valley", "rock_formation", "cave"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "Riu0YuTS-aXh74bvyDUItA", lat: 38.6500, lng: 34.8200, heading: 180 },
-    pano1: { panoId: "Riu0YuTS-aXh74bvyDUItA", lat: 38.6500, lng: 34.8195, heading: 270 },
-    pano2: { panoId: "Riu0YuTS-aXh74bvyDUItA", lat: 38.6500, lng: 34.8205, heading: 90 },
-    pano3: { panoId: "Riu0YuTS-aXh74bvyDUItA", lat: 38.6495, lng: 34.8200, heading: 180 },
-    locationName: "Uçhisar, Nevşehir",
-  },
-
-  // PAMUKKALE
-  {
-    id: "geo_pamukkale_1",
-    mode: "geo",
-    region: "ege",
-    roadType: "rural",
-    hintTags: ["travertine", "thermal", "white"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "qztdDCD1udFN9Ag0BwIAng", lat: 37.9204, lng: 29.1212, heading: 0 },
-    pano1: { panoId: "qztdDCD1udFN9Ag0BwIAng", lat: 37.9204, lng: 29.1207, heading: 270 },
-    pano2: { panoId: "qztdDCD1udFN9Ag0BwIAng", lat: 37.9204, lng: 29.1217, heading: 90 },
-    pano3: { panoId: "qztdDCD1udFN9Ag0BwIAng", lat: 37.9209, lng: 29.1212, heading: 0 },
-    locationName: "Pamukkale, Denizli",
-  },
-
-  // KARADENİZ YAYLALARI
-  {
-    id: "geo_ayder_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["mountain", "forest", "plateau"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRE94X2VoSnc.", lat: 40.9500, lng: 41.1000, heading: 90 },
-    pano1: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRE94X2VoSnc.", lat: 40.9500, lng: 41.0995, heading: 270 },
-    pano2: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRE94X2VoSnc.", lat: 40.9500, lng: 41.1005, heading: 90 },
-    pano3: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRE94X2VoSnc.", lat: 40.9505, lng: 41.1000, heading: 0 },
-    locationName: "Ayder, Rize",
-  },
-  {
-    id: "geo_uzungol_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["lake", "mountain", "forest"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "J2zewOWwONedUFf5dGs8yw", lat: 40.6167, lng: 40.2833, heading: 180 },
-    pano1: { panoId: "J2zewOWwONedUFf5dGs8yw", lat: 40.6167, lng: 40.2828, heading: 270 },
-    pano2: { panoId: "J2zewOWwONedUFf5dGs8yw", lat: 40.6167, lng: 40.2838, heading: 90 },
-    pano3: { panoId: "J2zewOWwONedUFf5dGs8yw", lat: 40.6162, lng: 40.2833, heading: 180 },
-    locationName: "Uzungöl, Trabzon",
-  },
-  {
-    id: "geo_sumela_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["monastery", "cliff", "forest"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "6cGEeuZ_tArRtclTzsKDgg", lat: 40.6900, lng: 39.6600, heading: 0 },
-    pano1: { panoId: "6cGEeuZ_tArRtclTzsKDgg", lat: 40.6900, lng: 39.6595, heading: 270 },
-    pano2: { panoId: "6cGEeuZ_tArRtclTzsKDgg", lat: 40.6900, lng: 39.6605, heading: 90 },
-    pano3: { panoId: "6cGEeuZ_tArRtclTzsKDgg", lat: 40.6905, lng: 39.6600, heading: 0 },
-    locationName: "Sümela, Trabzon",
-  },
-
-  // AKDENİZ SAHİLİ
-  {
-    id: "geo_oludeniz_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["beach", "lagoon", "mountain"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "aDtr3E1Xxut6Wsmm6Evekg", lat: 36.5500, lng: 29.1200, heading: 180 },
-    pano1: { panoId: "aDtr3E1Xxut6Wsmm6Evekg", lat: 36.5500, lng: 29.1195, heading: 270 },
-    pano2: { panoId: "aDtr3E1Xxut6Wsmm6Evekg", lat: 36.5500, lng: 29.1205, heading: 90 },
-    pano3: { panoId: "aDtr3E1Xxut6Wsmm6Evekg", lat: 36.5495, lng: 29.1200, heading: 180 },
-    locationName: "Ölüdeniz, Muğla",
-  },
-  {
-    id: "geo_kekova_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["sunken_city", "sea", "ancient"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRHlqc2JiRWc.", lat: 36.1900, lng: 29.8600, heading: 90 },
-    pano1: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRHlqc2JiRWc.", lat: 36.1900, lng: 29.8595, heading: 270 },
-    pano2: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRHlqc2JiRWc.", lat: 36.1900, lng: 29.8605, heading: 90 },
-    pano3: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRHlqc2JiRWc.", lat: 36.1905, lng: 29.8600, heading: 0 },
-    locationName: "Kekova, Antalya",
-  },
-  {
-    id: "geo_kaputas_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["beach", "cliff", "turquoise"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "lGimeptTgWR-X0VECyHD4Q", lat: 36.2300, lng: 29.4300, heading: 0 },
-    pano1: { panoId: "lGimeptTgWR-X0VECyHD4Q", lat: 36.2300, lng: 29.4295, heading: 270 },
-    pano2: { panoId: "lGimeptTgWR-X0VECyHD4Q", lat: 36.2300, lng: 29.4305, heading: 90 },
-    pano3: { panoId: "lGimeptTgWR-X0VECyHD4Q", lat: 36.2305, lng: 29.4300, heading: 0 },
-    locationName: "Kaputaş, Antalya",
-  },
-
-  // DOĞU ANADOLU
-  {
-    id: "geo_nemrut_1",
-    mode: "geo",
-    region: "dogu_anadolu",
-    roadType: "rural",
-    hintTags: ["mountain", "statue", "ancient"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "35jOnbihhuoAAARhgGpe-A", lat: 37.9814, lng: 38.7411, heading: 180 },
-    pano1: { panoId: "35jOnbihhuoAAARhgGpe-A", lat: 37.9814, lng: 38.7406, heading: 270 },
-    pano2: { panoId: "35jOnbihhuoAAARhgGpe-A", lat: 37.9814, lng: 38.7416, heading: 90 },
-    pano3: { panoId: "35jOnbihhuoAAARhgGpe-A", lat: 37.9809, lng: 38.7411, heading: 180 },
-    locationName: "Nemrut Dağı, Adıyaman",
-  },
-  {
-    id: "geo_agri_1",
-    mode: "geo",
-    region: "dogu_anadolu",
-    roadType: "rural",
-    hintTags: ["mountain", "snow", "volcano"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJRHEtZFBsdmdF", lat: 39.7000, lng: 44.3000, heading: 0 },
-    pano1: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJRHEtZFBsdmdF", lat: 39.7000, lng: 44.2995, heading: 270 },
-    pano2: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJRHEtZFBsdmdF", lat: 39.7000, lng: 44.3005, heading: 90 },
-    pano3: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJRHEtZFBsdmdF", lat: 39.7005, lng: 44.3000, heading: 0 },
-    locationName: "Ağrı Dağı, Ağrı",
-  },
-  {
-    id: "geo_vangolu_1",
-    mode: "geo",
-    region: "dogu_anadolu",
-    roadType: "rural",
-    hintTags: ["lake", "soda", "blue"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE9wVWdOUXJ0OHNtYi1aR0JfU0IxRkNnWDdERHZKSmpJX0dTZ3dY", lat: 38.6000, lng: 43.0000, heading: 90 },
-    pano1: { panoId: "CAoSLEFGMVFpcE9wVWdOUXJ0OHNtYi1aR0JfU0IxRkNnWDdERHZKSmpJX0dTZ3dY", lat: 38.6000, lng: 42.9995, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE9wVWdOUXJ0OHNtYi1aR0JfU0IxRkNnWDdERHZKSmpJX0dTZ3dY", lat: 38.6000, lng: 43.0005, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE9wVWdOUXJ0OHNtYi1aR0JfU0IxRkNnWDdERHZKSmpJX0dTZ3dY", lat: 38.6005, lng: 43.0000, heading: 0 },
-    locationName: "Van Gölü, Van",
-  },
-
-  // EGE
-  {
-    id: "geo_efes_1",
-    mode: "geo",
-    region: "ege",
-    roadType: "rural",
-    hintTags: ["ancient", "ruins", "column"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJQ0VsdS1SV0E.", lat: 37.9390, lng: 27.3410, heading: 0 },
-    pano1: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJQ0VsdS1SV0E.", lat: 37.9390, lng: 27.3405, heading: 270 },
-    pano2: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJQ0VsdS1SV0E.", lat: 37.9390, lng: 27.3415, heading: 90 },
-    pano3: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJQ0VsdS1SV0E.", lat: 37.9395, lng: 27.3410, heading: 0 },
-    locationName: "Efes, İzmir",
-  },
-
-  // TOROS DAĞLARI
-  {
-    id: "geo_toros_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["mountain", "forest", "road"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE9VQ3pwSE9HTkRlSHlfSzJSSGNzc0preFM2bFlqWnRqNkFTVXlv", lat: 36.7500, lng: 32.5000, heading: 180 },
-    pano1: { panoId: "CAoSLEFGMVFpcE9VQ3pwSE9HTkRlSHlfSzJSSGNzc0preFM2bFlqWnRqNkFTVXlv", lat: 36.7500, lng: 32.4995, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE9VQ3pwSE9HTkRlSHlfSzJSSGNzc0preFM2bFlqWnRqNkFTVXlv", lat: 36.7500, lng: 32.5005, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE9VQ3pwSE9HTkRlSHlfSzJSSGNzc0preFM2bFlqWnRqNkFTVXlv", lat: 36.7495, lng: 32.5000, heading: 180 },
-    locationName: "Toros Dağları",
-  },
-
-  // BOLU DAĞI
-  {
-    id: "geo_bolu_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["forest", "lake", "nature"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "AY81ikeMsTmWnXJ3aT52ug", lat: 40.7333, lng: 31.6000, heading: 90 },
-    pano1: { panoId: "AY81ikeMsTmWnXJ3aT52ug", lat: 40.7333, lng: 31.5995, heading: 270 },
-    pano2: { panoId: "AY81ikeMsTmWnXJ3aT52ug", lat: 40.7333, lng: 31.6005, heading: 90 },
-    pano3: { panoId: "AY81ikeMsTmWnXJ3aT52ug", lat: 40.7338, lng: 31.6000, heading: 0 },
-    locationName: "Abant, Bolu",
-  },
-
-  // ULUDAĞ
-  {
-    id: "geo_uludag_1",
-    mode: "geo",
-    region: "marmara",
-    roadType: "rural",
-    hintTags: ["mountain", "ski", "forest"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "NloBdr-5LuPbYusUGKnPfQ", lat: 40.0667, lng: 29.1167, heading: 0 },
-    pano1: { panoId: "NloBdr-5LuPbYusUGKnPfQ", lat: 40.0667, lng: 29.1162, heading: 270 },
-    pano2: { panoId: "NloBdr-5LuPbYusUGKnPfQ", lat: 40.0667, lng: 29.1172, heading: 90 },
-    pano3: { panoId: "NloBdr-5LuPbYusUGKnPfQ", lat: 40.0672, lng: 29.1167, heading: 0 },
-    locationName: "Uludağ, Bursa",
-  },
-
-  // SAFRANBOLU
-  {
-    id: "geo_safranbolu_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["historic", "ottoman", "house"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "XkmW0WO8yPdEwcP4Zan-AQ", lat: 41.2544, lng: 32.6917, heading: 180 },
-    pano1: { panoId: "XkmW0WO8yPdEwcP4Zan-AQ", lat: 41.2544, lng: 32.6912, heading: 270 },
-    pano2: { panoId: "XkmW0WO8yPdEwcP4Zan-AQ", lat: 41.2544, lng: 32.6922, heading: 90 },
-    pano3: { panoId: "XkmW0WO8yPdEwcP4Zan-AQ", lat: 41.2539, lng: 32.6917, heading: 180 },
-    locationName: "Safranbolu, Karabük",
-  },
-
-  // Daha fazla geo lokasyon...
-  {
-    id: "geo_salda_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["lake", "white", "maldives"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5SWnpUT3dfRVpIa3dFMDVKOUdBZVk0WlBhMWROMndpdWViUnhh", lat: 37.5333, lng: 29.6667, heading: 90 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5SWnpUT3dfRVpIa3dFMDVKOUdBZVk0WlBhMWROMndpdWViUnhh", lat: 37.5333, lng: 29.6662, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5SWnpUT3dfRVpIa3dFMDVKOUdBZVk0WlBhMWROMndpdWViUnhh", lat: 37.5333, lng: 29.6672, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5SWnpUT3dfRVpIa3dFMDVKOUdBZVk0WlBhMWROMndpdWViUnhh", lat: 37.5338, lng: 29.6667, heading: 0 },
-    locationName: "Salda Gölü, Burdur",
-  },
-
-  // ==================== YENİ GEO LOKASYONLAR ====================
-
-  // KARADENİZ YAYLALARI
-  {
-    id: "geo_pokut_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["plateau", "wooden_house", "fog"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5fMDdfN0JkdW9IUlRLLVZUQzBPbmVFZE1fMFNIX1NxVnN2WUlD", lat: 40.9200, lng: 41.0500, heading: 180 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5fMDdfN0JkdW9IUlRLLVZUQzBPbmVFZE1fMFNIX1NxVnN2WUlD", lat: 40.9200, lng: 41.0495, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5fMDdfN0JkdW9IUlRLLVZUQzBPbmVFZE1fMFNIX1NxVnN2WUlD", lat: 40.9200, lng: 41.0505, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5fMDdfN0JkdW9IUlRLLVZUQzBPbmVFZE1fMFNIX1NxVnN2WUlD", lat: 40.9195, lng: 41.0500, heading: 180 },
-    locationName: "Pokut Yaylası, Rize",
-  },
-  {
-    id: "geo_hamsikoy_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["plateau", "rice_pudding", "forest"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE4xYkNqTTdMZE9vS2NXeTJJMHRCaEZjZkFKR2VHOUZfaFRPZFFN", lat: 40.7800, lng: 39.4200, heading: 0 },
-    pano1: { panoId: "CAoSLEFGMVFpcE4xYkNqTTdMZE9vS2NXeTJJMHRCaEZjZkFKR2VHOUZfaFRPZFFN", lat: 40.7800, lng: 39.4195, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE4xYkNqTTdMZE9vS2NXeTJJMHRCaEZjZkFKR2VHOUZfaFRPZFFN", lat: 40.7800, lng: 39.4205, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE4xYkNqTTdMZE9vS2NXeTJJMHRCaEZjZkFKR2VHOUZfaFRPZFFN", lat: 40.7805, lng: 39.4200, heading: 0 },
-    locationName: "Hamsiköy, Trabzon",
-  },
-  {
-    id: "geo_zilkale_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["castle", "valley", "green"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5YYjNELTlXbW1qZmE0b3RlQkJ4SGhvSHpJT2ZCZ0plLWFfTW9o", lat: 40.9400, lng: 40.9300, heading: 90 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5YYjNELTlXbW1qZmE0b3RlQkJ4SGhvSHpJT2ZCZ0plLWFfTW9o", lat: 40.9400, lng: 40.9295, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5YYjNELTlXbW1qZmE0b3RlQkJ4SGhvSHpJT2ZCZ0plLWFfTW9o", lat: 40.9400, lng: 40.9305, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5YYjNELTlXbW1qZmE0b3RlQkJ4SGhvSHpJT2ZCZ0plLWFfTW9o", lat: 40.9405, lng: 40.9300, heading: 0 },
-    locationName: "Zilkale, Rize",
-  },
-  {
-    id: "geo_camlihemsin_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["bridge", "river", "mountain"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5fMDdfN0JkdW9IUlRLLVZUQzBPbmVFZE1fMFNIX1NxVnN2WUlD", lat: 41.0100, lng: 41.0200, heading: 0 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5fMDdfN0JkdW9IUlRLLVZUQzBPbmVFZE1fMFNIX1NxVnN2WUlD", lat: 41.0100, lng: 41.0195, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5fMDdfN0JkdW9IUlRLLVZUQzBPbmVFZE1fMFNIX1NxVnN2WUlD", lat: 41.0100, lng: 41.0205, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5fMDdfN0JkdW9IUlRLLVZUQzBPbmVFZE1fMFNIX1NxVnN2WUlD", lat: 41.0105, lng: 41.0200, heading: 0 },
-    locationName: "Çamlıhemşin, Rize",
-  },
-  {
-    id: "geo_firtina_vadisi_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["valley", "river", "rafting"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5YRlVGdXQ3QU92Rl9KTjBNV3BqYVRPNkZKOURpdEZIbXBmRl9j", lat: 40.9700, lng: 40.9500, heading: 180 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5YRlVGdXQ3QU92Rl9KTjBNV3BqYVRPNkZKOURpdEZIbXBmRl9j", lat: 40.9700, lng: 40.9495, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5YRlVGdXQ3QU92Rl9KTjBNV3BqYVRPNkZKOURpdEZIbXBmRl9j", lat: 40.9700, lng: 40.9505, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5YRlVGdXQ3QU92Rl9KTjBNV3BqYVRPNkZKOURpdEZIbXBmRl9j", lat: 40.9695, lng: 40.9500, heading: 180 },
-    locationName: "Fırtına Vadisi, Rize",
-  },
-
-  // AKDENİZ SAHİLLERİ
-  {
-    id: "geo_cirali_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["beach", "flame", "turtle"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "-7gjBX4nygZCiyyAKBVlug", lat: 36.4100, lng: 30.4700, heading: 90 },
-    pano1: { panoId: "-7gjBX4nygZCiyyAKBVlug", lat: 36.4100, lng: 30.4695, heading: 270 },
-    pano2: { panoId: "-7gjBX4nygZCiyyAKBVlug", lat: 36.4100, lng: 30.4705, heading: 90 },
-    pano3: { panoId: "-7gjBX4nygZCiyyAKBVlug", lat: 36.4105, lng: 30.4700, heading: 0 },
-    locationName: "Çıralı, Antalya",
-  },
-  {
-    id: "geo_patara_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["beach", "sand_dune", "ancient"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "4ODrk2Vz7itbhbJmo2h_Qw", lat: 36.2700, lng: 29.3200, heading: 180 },
-    pano1: { panoId: "4ODrk2Vz7itbhbJmo2h_Qw", lat: 36.2700, lng: 29.3195, heading: 270 },
-    pano2: { panoId: "4ODrk2Vz7itbhbJmo2h_Qw", lat: 36.2700, lng: 29.3205, heading: 90 },
-    pano3: { panoId: "4ODrk2Vz7itbhbJmo2h_Qw", lat: 36.2695, lng: 29.3200, heading: 180 },
-    locationName: "Patara, Antalya",
-  },
-  {
-    id: "geo_butterfly_valley_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["valley", "butterfly", "cliff"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE1xM2hPWWJKWnNJTGZTS3R2OW9CZG5yYU5Ed1M5UW1IUnBLRXNz", lat: 36.5300, lng: 29.1100, heading: 0 },
-    pano1: { panoId: "CAoSLEFGMVFpcE1xM2hPWWJKWnNJTGZTS3R2OW9CZG5yYU5Ed1M5UW1IUnBLRXNz", lat: 36.5300, lng: 29.1095, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE1xM2hPWWJKWnNJTGZTS3R2OW9CZG5yYU5Ed1M5UW1IUnBLRXNz", lat: 36.5300, lng: 29.1105, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE1xM2hPWWJKWnNJTGZTS3R2OW9CZG5yYU5Ed1M5UW1IUnBLRXNz", lat: 36.5305, lng: 29.1100, heading: 0 },
-    locationName: "Kelebek Vadisi, Muğla",
-  },
-  {
-    id: "geo_olimpos_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["ruins", "forest", "river"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5XdTNPMWE5bTZPUmZwRUZwdjBUM01rM0ZYN09MWEpWMjJONFVR", lat: 36.4000, lng: 30.4900, heading: 90 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5XdTNPMWE5bTZPUmZwRUZwdjBUM01rM0ZYN09MWEpWMjJONFVR", lat: 36.4000, lng: 30.4895, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5XdTNPMWE5bTZPUmZwRUZwdjBUM01rM0ZYN09MWEpWMjJONFVR", lat: 36.4000, lng: 30.4905, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5XdTNPMWE5bTZPUmZwRUZwdjBUM01rM0ZYN09MWEpWMjJONFVR", lat: 36.4005, lng: 30.4900, heading: 0 },
-    locationName: "Olimpos, Antalya",
-  },
-  {
-    id: "geo_saklikent_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["canyon", "gorge", "water"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJQ2t0T3FWdHdF", lat: 36.4700, lng: 29.4200, heading: 180 },
-    pano1: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJQ2t0T3FWdHdF", lat: 36.4700, lng: 29.4195, heading: 270 },
-    pano2: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJQ2t0T3FWdHdF", lat: 36.4700, lng: 29.4205, heading: 90 },
-    pano3: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJQ2t0T3FWdHdF", lat: 36.4695, lng: 29.4200, heading: 180 },
-    locationName: "Saklıkent, Muğla",
-  },
-
-  // DOĞU ANADOLU
-  {
-    id: "geo_ishakpasa_1",
-    mode: "geo",
-    region: "dogu_anadolu",
-    roadType: "rural",
-    hintTags: ["palace", "mountain", "historic"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5CYU9vX1o4YzZJUEpnZjFPaEZUUFJ5SVBaT2p2T1gwN1Z0LTJQ", lat: 39.4900, lng: 44.0700, heading: 0 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5CYU9vX1o4YzZJUEpnZjFPaEZUUFJ5SVBaT2p2T1gwN1Z0LTJQ", lat: 39.4900, lng: 44.0695, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5CYU9vX1o4YzZJUEpnZjFPaEZUUFJ5SVBaT2p2T1gwN1Z0LTJQ", lat: 39.4900, lng: 44.0705, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5CYU9vX1o4YzZJUEpnZjFPaEZUUFJ5SVBaT2p2T1gwN1Z0LTJQ", lat: 39.4905, lng: 44.0700, heading: 0 },
-    locationName: "İshak Paşa Sarayı, Ağrı",
-  },
-  {
-    id: "geo_ani_1",
-    mode: "geo",
-    region: "dogu_anadolu",
-    roadType: "rural",
-    hintTags: ["ruins", "church", "border"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "hH4ewGmvbWkAAAQsw73lmA", lat: 40.5100, lng: 43.5700, heading: 90 },
-    pano1: { panoId: "hH4ewGmvbWkAAAQsw73lmA", lat: 40.5100, lng: 43.5695, heading: 270 },
-    pano2: { panoId: "hH4ewGmvbWkAAAQsw73lmA", lat: 40.5100, lng: 43.5705, heading: 90 },
-    pano3: { panoId: "hH4ewGmvbWkAAAQsw73lmA", lat: 40.5105, lng: 43.5700, heading: 0 },
-    locationName: "Ani Harabeleri, Kars",
-  },
-  {
-    id: "geo_akdamar_1",
-    mode: "geo",
-    region: "dogu_anadolu",
-    roadType: "rural",
-    hintTags: ["island", "church", "lake"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSHENJQUJJaEFBM2lsV1lBR2xMR2dPVHNFQUROd1Q.", lat: 38.3400, lng: 43.0300, heading: 180 },
-    pano1: { panoId: "CAoSHENJQUJJaEFBM2lsV1lBR2xMR2dPVHNFQUROd1Q.", lat: 38.3400, lng: 43.0295, heading: 270 },
-    pano2: { panoId: "CAoSHENJQUJJaEFBM2lsV1lBR2xMR2dPVHNFQUROd1Q.", lat: 38.3400, lng: 43.0305, heading: 90 },
-    pano3: { panoId: "CAoSHENJQUJJaEFBM2lsV1lBR2xMR2dPVHNFQUROd1Q.", lat: 38.3395, lng: 43.0300, heading: 180 },
-    locationName: "Akdamar Adası, Van",
-  },
-  {
-    id: "geo_muradiye_selalesi_1",
-    mode: "geo",
-    region: "dogu_anadolu",
-    roadType: "rural",
-    hintTags: ["waterfall", "nature", "river"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "OT4ZFfnRth3SyTIQFGPm8w", lat: 39.0700, lng: 43.7600, heading: 0 },
-    pano1: { panoId: "OT4ZFfnRth3SyTIQFGPm8w", lat: 39.0700, lng: 43.7595, heading: 270 },
-    pano2: { panoId: "OT4ZFfnRth3SyTIQFGPm8w", lat: 39.0700, lng: 43.7605, heading: 90 },
-    pano3: { panoId: "OT4ZFfnRth3SyTIQFGPm8w", lat: 39.0705, lng: 43.7600, heading: 0 },
-    locationName: "Muradiye Şelalesi, Van",
-  },
-
-  // İÇ ANADOLU
-  {
-    id: "geo_tuz_golu_1",
-    mode: "geo",
-    region: "ic_anadolu",
-    roadType: "rural",
-    hintTags: ["salt_lake", "white", "flat"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE8yZUFQQXVNZ1VRMmRMSkVVdkVGdHZGdXNKSVNfdGxWcDQ0LVVH", lat: 38.7500, lng: 33.4000, heading: 90 },
-    pano1: { panoId: "CAoSLEFGMVFpcE8yZUFQQXVNZ1VRMmRMSkVVdkVGdHZGdXNKSVNfdGxWcDQ0LVVH", lat: 38.7500, lng: 33.3995, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE8yZUFQQXVNZ1VRMmRMSkVVdkVGdHZGdXNKSVNfdGxWcDQ0LVVH", lat: 38.7500, lng: 33.4005, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE8yZUFQQXVNZ1VRMmRMSkVVdkVGdHZGdXNKSVNfdGxWcDQ0LVVH", lat: 38.7505, lng: 33.4000, heading: 0 },
-    locationName: "Tuz Gölü, Ankara",
-  },
-  {
-    id: "geo_ihlara_1",
-    mode: "geo",
-    region: "ic_anadolu",
-    roadType: "rural",
-    hintTags: ["valley", "canyon", "church"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJQ3VpOWlELUFF", lat: 38.2500, lng: 34.3000, heading: 180 },
-    pano1: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJQ3VpOWlELUFF", lat: 38.2500, lng: 34.2995, heading: 270 },
-    pano2: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJQ3VpOWlELUFF", lat: 38.2500, lng: 34.3005, heading: 90 },
-    pano3: { panoId: "CAoSF0NJSE0wb2dLRUlDQWdJQ3VpOWlELUFF", lat: 38.2495, lng: 34.3000, heading: 180 },
-    locationName: "Ihlara Vadisi, Aksaray",
-  },
-  {
-    id: "geo_derinkuyu_1",
-    mode: "geo",
-    region: "ic_anadolu",
-    roadType: "rural",
-    hintTags: ["underground", "cave", "ancient"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "rfzGUCzM6RFf5Bl_pE1hAQ", lat: 38.3700, lng: 34.7300, heading: 0 },
-    pano1: { panoId: "rfzGUCzM6RFf5Bl_pE1hAQ", lat: 38.3700, lng: 34.7295, heading: 270 },
-    pano2: { panoId: "rfzGUCzM6RFf5Bl_pE1hAQ", lat: 38.3700, lng: 34.7305, heading: 90 },
-    pano3: { panoId: "rfzGUCzM6RFf5Bl_pE1hAQ", lat: 38.3705, lng: 34.7300, heading: 0 },
-    locationName: "Derinkuyu, Nevşehir",
-  },
-  {
-    id: "geo_erciyes_1",
-    mode: "geo",
-    region: "ic_anadolu",
-    roadType: "rural",
-    hintTags: ["mountain", "ski", "volcano"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRGVwZTdqUFE.", lat: 38.5300, lng: 35.4500, heading: 90 },
-    pano1: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRGVwZTdqUFE.", lat: 38.5300, lng: 35.4495, heading: 270 },
-    pano2: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRGVwZTdqUFE.", lat: 38.5300, lng: 35.4505, heading: 90 },
-    pano3: { panoId: "CAoSFkNJSE0wb2dLRUlDQWdJRGVwZTdqUFE.", lat: 38.5305, lng: 35.4500, heading: 0 },
-    locationName: "Erciyes Dağı, Kayseri",
-  },
-
-  // EGE BÖLGESİ
-  {
-    id: "geo_sirince_1",
-    mode: "geo",
-    region: "ege",
-    roadType: "rural",
-    hintTags: ["village", "wine", "greek"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "YHm-Qp6Iuiev6VJeuXrshQ", lat: 37.9500, lng: 27.4300, heading: 180 },
-    pano1: { panoId: "YHm-Qp6Iuiev6VJeuXrshQ", lat: 37.9500, lng: 27.4295, heading: 270 },
-    pano2: { panoId: "YHm-Qp6Iuiev6VJeuXrshQ", lat: 37.9500, lng: 27.4305, heading: 90 },
-    pano3: { panoId: "YHm-Qp6Iuiev6VJeuXrshQ", lat: 37.9495, lng: 27.4300, heading: 180 },
-    locationName: "Şirince, İzmir",
-  },
-  {
-    id: "geo_priene_1",
-    mode: "geo",
-    region: "ege",
-    roadType: "rural",
-    hintTags: ["ancient", "ruins", "temple"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "7YdVyMT5aA1V5JiqBcxG7w", lat: 37.6600, lng: 27.3000, heading: 0 },
-    pano1: { panoId: "7YdVyMT5aA1V5JiqBcxG7w", lat: 37.6600, lng: 27.2995, heading: 270 },
-    pano2: { panoId: "7YdVyMT5aA1V5JiqBcxG7w", lat: 37.6600, lng: 27.3005, heading: 90 },
-    pano3: { panoId: "7YdVyMT5aA1V5JiqBcxG7w", lat: 37.6605, lng: 27.3000, heading: 0 },
-    locationName: "Priene, Aydın",
-  },
-  {
-    id: "geo_bafa_golu_1",
-    mode: "geo",
-    region: "ege",
-    roadType: "rural",
-    hintTags: ["lake", "nature", "bird"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5BalJXR1VjMGVIaVUyVzhINnl5d1N3dUdYNEpnMkl1T3ZYWGJF", lat: 37.5000, lng: 27.5000, heading: 90 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5BalJXR1VjMGVIaVUyVzhINnl5d1N3dUdYNEpnMkl1T3ZYWGJF", lat: 37.5000, lng: 27.4995, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5BalJXR1VjMGVIaVUyVzhINnl5d1N3dUdYNEpnMkl1T3ZYWGJF", lat: 37.5000, lng: 27.5005, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5BalJXR1VjMGVIaVUyVzhINnl5d1N3dUdYNEpnMkl1T3ZYWGJF", lat: 37.5005, lng: 27.5000, heading: 0 },
-    locationName: "Bafa Gölü, Muğla",
-  },
-  {
-    id: "geo_bergama_1",
-    mode: "geo",
-    region: "ege",
-    roadType: "rural",
-    hintTags: ["acropolis", "ancient", "theater"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "4VIN1W3i1Mmtxw7An1xb7Q", lat: 39.1200, lng: 27.1800, heading: 180 },
-    pano1: { panoId: "4VIN1W3i1Mmtxw7An1xb7Q", lat: 39.1200, lng: 27.1795, heading: 270 },
-    pano2: { panoId: "4VIN1W3i1Mmtxw7An1xb7Q", lat: 39.1200, lng: 27.1805, heading: 90 },
-    pano3: { panoId: "4VIN1W3i1Mmtxw7An1xb7Q", lat: 39.1195, lng: 27.1800, heading: 180 },
-    locationName: "Bergama, İzmir",
-  },
-
-  // MARMARA BÖLGESİ
-  {
-    id: "geo_gelibolu_1",
-    mode: "geo",
-    region: "marmara",
-    roadType: "rural",
-    hintTags: ["memorial", "war", "peninsula"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "iL1me9LZLK_NcztWx_l39Q", lat: 40.2200, lng: 26.2800, heading: 0 },
-    pano1: { panoId: "iL1me9LZLK_NcztWx_l39Q", lat: 40.2200, lng: 26.2795, heading: 270 },
-    pano2: { panoId: "iL1me9LZLK_NcztWx_l39Q", lat: 40.2200, lng: 26.2805, heading: 90 },
-    pano3: { panoId: "iL1me9LZLK_NcztWx_l39Q", lat: 40.2205, lng: 26.2800, heading: 0 },
-    locationName: "Gelibolu, Çanakkale",
-  },
-  {
-    id: "geo_troya_1",
-    mode: "geo",
-    region: "marmara",
-    roadType: "rural",
-    hintTags: ["ancient", "horse", "ruins"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "JVDSTiyhkGXae5ZVUh7rIA", lat: 39.9600, lng: 26.2400, heading: 90 },
-    pano1: { panoId: "JVDSTiyhkGXae5ZVUh7rIA", lat: 39.9600, lng: 26.2395, heading: 270 },
-    pano2: { panoId: "JVDSTiyhkGXae5ZVUh7rIA", lat: 39.9600, lng: 26.2405, heading: 90 },
-    pano3: { panoId: "JVDSTiyhkGXae5ZVUh7rIA", lat: 39.9605, lng: 26.2400, heading: 0 },
-    locationName: "Truva, Çanakkale",
-  },
-  {
-    id: "geo_cumalikizik_1",
-    mode: "geo",
-    region: "marmara",
-    roadType: "rural",
-    hintTags: ["village", "ottoman", "unesco"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "wB3LrxDx_k5HhvdE-j4kEg", lat: 40.1700, lng: 29.2200, heading: 180 },
-    pano1: { panoId: "wB3LrxDx_k5HhvdE-j4kEg", lat: 40.1700, lng: 29.2195, heading: 270 },
-    pano2: { panoId: "wB3LrxDx_k5HhvdE-j4kEg", lat: 40.1700, lng: 29.2205, heading: 90 },
-    pano3: { panoId: "wB3LrxDx_k5HhvdE-j4kEg", lat: 40.1695, lng: 29.2200, heading: 180 },
-    locationName: "Cumalıkızık, Bursa",
-  },
-
-  // GÜNEYDOĞU ANADOLU
-  {
-    id: "geo_halfeti_1",
-    mode: "geo",
-    region: "guneydogu",
-    roadType: "rural",
-    hintTags: ["sunken", "river", "rose"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "82LYlW8ZUf-MlhVeI1TKug", lat: 37.2500, lng: 37.8700, heading: 0 },
-    pano1: { panoId: "82LYlW8ZUf-MlhVeI1TKug", lat: 37.2500, lng: 37.8695, heading: 270 },
-    pano2: { panoId: "82LYlW8ZUf-MlhVeI1TKug", lat: 37.2500, lng: 37.8705, heading: 90 },
-    pano3: { panoId: "82LYlW8ZUf-MlhVeI1TKug", lat: 37.2505, lng: 37.8700, heading: 0 },
-    locationName: "Halfeti, Şanlıurfa",
-  },
-  {
-    id: "geo_zeugma_1",
-    mode: "geo",
-    region: "guneydogu",
-    roadType: "rural",
-    hintTags: ["mosaic", "ancient", "river"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE9XVGhfMUpGdXlPMUFfaWprQ2lVQXpuSTBhUDJPSFh1X1dJSTdi", lat: 37.0500, lng: 37.8800, heading: 90 },
-    pano1: { panoId: "CAoSLEFGMVFpcE9XVGhfMUpGdXlPMUFfaWprQ2lVQXpuSTBhUDJPSFh1X1dJSTdi", lat: 37.0500, lng: 37.8795, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE9XVGhfMUpGdXlPMUFfaWprQ2lVQXpuSTBhUDJPSFh1X1dJSTdi", lat: 37.0500, lng: 37.8805, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE9XVGhfMUpGdXlPMUFfaWprQ2lVQXpuSTBhUDJPSFh1X1dJSTdi", lat: 37.0505, lng: 37.8800, heading: 0 },
-    locationName: "Zeugma, Gaziantep",
-  },
-  {
-    id: "geo_gobekli_tepe_1",
-    mode: "geo",
-    region: "guneydogu",
-    roadType: "rural",
-    hintTags: ["ancient", "temple", "neolithic"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "JfHUiwpMkRWHd5XRVmHzxA", lat: 37.2200, lng: 38.9200, heading: 180 },
-    pano1: { panoId: "JfHUiwpMkRWHd5XRVmHzxA", lat: 37.2200, lng: 38.9195, heading: 270 },
-    pano2: { panoId: "JfHUiwpMkRWHd5XRVmHzxA", lat: 37.2200, lng: 38.9205, heading: 90 },
-    pano3: { panoId: "JfHUiwpMkRWHd5XRVmHzxA", lat: 37.2195, lng: 38.9200, heading: 180 },
-    locationName: "Göbeklitepe, Şanlıurfa",
-  },
-  {
-    id: "geo_hasankeyf_1",
-    mode: "geo",
-    region: "guneydogu",
-    roadType: "rural",
-    hintTags: ["cave", "cliff", "tigris"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "pCQjk1QLDjbaDxz4vctPBQ", lat: 37.7100, lng: 41.4100, heading: 0 },
-    pano1: { panoId: "pCQjk1QLDjbaDxz4vctPBQ", lat: 37.7100, lng: 41.4095, heading: 270 },
-    pano2: { panoId: "pCQjk1QLDjbaDxz4vctPBQ", lat: 37.7100, lng: 41.4105, heading: 90 },
-    pano3: { panoId: "pCQjk1QLDjbaDxz4vctPBQ", lat: 37.7105, lng: 41.4100, heading: 0 },
-    locationName: "Hasankeyf, Batman",
-  },
-
-  // DOĞAL GÜZELLIKLER
-  {
-    id: "geo_yedigollert_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["lake", "forest", "autumn"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5fSHpRLWs4eDlJTURaYUNPaDJuSTNrZlhGRExNejNIdDRXNnJU", lat: 40.9400, lng: 31.7200, heading: 90 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5fSHpRLWs4eDlJTURaYUNPaDJuSTNrZlhGRExNejNIdDRXNnJU", lat: 40.9400, lng: 31.7195, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5fSHpRLWs4eDlJTURaYUNPaDJuSTNrZlhGRExNejNIdDRXNnJU", lat: 40.9400, lng: 31.7205, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5fSHpRLWs4eDlJTURaYUNPaDJuSTNrZlhGRExNejNIdDRXNnJU", lat: 40.9405, lng: 31.7200, heading: 0 },
-    locationName: "Yedigöller, Bolu",
-  },
-  {
-    id: "geo_limni_golu_1",
-    mode: "geo",
-    region: "karadeniz",
-    roadType: "rural",
-    hintTags: ["crater", "lake", "volcanic"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5fSHpRLWs4eDlJTURaYUNPaDJuSTNrZlhGRExNejNIdDRXNnJU", lat: 40.7800, lng: 31.8500, heading: 180 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5fSHpRLWs4eDlJTURaYUNPaDJuSTNrZlhGRExNejNIdDRXNnJU", lat: 40.7800, lng: 31.8495, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5fSHpRLWs4eDlJTURaYUNPaDJuSTNrZlhGRExNejNIdDRXNnJU", lat: 40.7800, lng: 31.8505, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5fSHpRLWs4eDlJTURaYUNPaDJuSTNrZlhGRExNejNIdDRXNnJU", lat: 40.7795, lng: 31.8500, heading: 180 },
-    locationName: "Limni Gölü, Bolu",
-  },
-  {
-    id: "geo_egirdir_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["lake", "mountain", "island"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE8tQUxrVWxLTXFtQU5KU0dYdGJNOF9xdktDbkNhQXdKQ1VWME9U", lat: 37.8900, lng: 30.8600, heading: 0 },
-    pano1: { panoId: "CAoSLEFGMVFpcE8tQUxrVWxLTXFtQU5KU0dYdGJNOF9xdktDbkNhQXdKQ1VWME9U", lat: 37.8900, lng: 30.8595, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE8tQUxrVWxLTXFtQU5KU0dYdGJNOF9xdktDbkNhQXdKQ1VWME9U", lat: 37.8900, lng: 30.8605, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE8tQUxrVWxLTXFtQU5KU0dYdGJNOF9xdktDbkNhQXdKQ1VWME9U", lat: 37.8905, lng: 30.8600, heading: 0 },
-    locationName: "Eğirdir Gölü, Isparta",
-  },
-  {
-    id: "geo_koprulu_kanyon_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["canyon", "river", "rafting"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "yBd5l9elk8Zv1I8ifDuDjg", lat: 37.2000, lng: 31.1800, heading: 90 },
-    pano1: { panoId: "yBd5l9elk8Zv1I8ifDuDjg", lat: 37.2000, lng: 31.1795, heading: 270 },
-    pano2: { panoId: "yBd5l9elk8Zv1I8ifDuDjg", lat: 37.2000, lng: 31.1805, heading: 90 },
-    pano3: { panoId: "yBd5l9elk8Zv1I8ifDuDjg", lat: 37.2005, lng: 31.1800, heading: 0 },
-    locationName: "Köprülü Kanyon, Antalya",
-  },
-  {
-    id: "geo_tortum_selalesi_1",
-    mode: "geo",
-    region: "dogu_anadolu",
-    roadType: "rural",
-    hintTags: ["waterfall", "lake", "green"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5HU2lNY0V1QmpfZ1BiTXlBSnJuTHdQQVVUSlE3bGE0VDdDdmFt", lat: 40.6600, lng: 41.5500, heading: 180 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5HU2lNY0V1QmpfZ1BiTXlBSnJuTHdQQVVUSlE3bGE0VDdDdmFt", lat: 40.6600, lng: 41.5495, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5HU2lNY0V1QmpfZ1BiTXlBSnJuTHdQQVVUSlE3bGE0VDdDdmFt", lat: 40.6600, lng: 41.5505, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5HU2lNY0V1QmpfZ1BiTXlBSnJuTHdQQVVUSlE3bGE0VDdDdmFt", lat: 40.6595, lng: 41.5500, heading: 180 },
-    locationName: "Tortum Şelalesi, Erzurum",
-  },
-  {
-    id: "geo_dilek_yarimadasi_1",
-    mode: "geo",
-    region: "ege",
-    roadType: "rural",
-    hintTags: ["peninsula", "nature", "beach"],
-    qualityScore: 4,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE9ZaXRNcVlsLXo4MVhnUllCY0RYSjN6NFdKa1pQaEhfNFNIajFl", lat: 37.7000, lng: 27.1500, heading: 0 },
-    pano1: { panoId: "CAoSLEFGMVFpcE9ZaXRNcVlsLXo4MVhnUllCY0RYSjN6NFdKa1pQaEhfNFNIajFl", lat: 37.7000, lng: 27.1495, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE9ZaXRNcVlsLXo4MVhnUllCY0RYSjN6NFdKa1pQaEhfNFNIajFl", lat: 37.7000, lng: 27.1505, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE9ZaXRNcVlsLXo4MVhnUllCY0RYSjN6NFdKa1pQaEhfNFNIajFl", lat: 37.7005, lng: 27.1500, heading: 0 },
-    locationName: "Dilek Yarımadası, Aydın",
-  },
-  {
-    id: "geo_termessos_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["ancient", "mountain", "theater"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "CAoSLEFGMVFpcE5XdTNPMWE5bTZPUmZwRUZwdjBUM01rM0ZYN09MWEpWMjJONFVR", lat: 36.9700, lng: 30.4700, heading: 90 },
-    pano1: { panoId: "CAoSLEFGMVFpcE5XdTNPMWE5bTZPUmZwRUZwdjBUM01rM0ZYN09MWEpWMjJONFVR", lat: 36.9700, lng: 30.4695, heading: 270 },
-    pano2: { panoId: "CAoSLEFGMVFpcE5XdTNPMWE5bTZPUmZwRUZwdjBUM01rM0ZYN09MWEpWMjJONFVR", lat: 36.9700, lng: 30.4705, heading: 90 },
-    pano3: { panoId: "CAoSLEFGMVFpcE5XdTNPMWE5bTZPUmZwRUZwdjBUM01rM0ZYN09MWEpWMjJONFVR", lat: 36.9705, lng: 30.4700, heading: 0 },
-    locationName: "Termessos, Antalya",
-  },
-  {
-    id: "geo_aspendos_1",
-    mode: "geo",
-    region: "akdeniz",
-    roadType: "rural",
-    hintTags: ["theater", "ancient", "roman"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "AXzP8NcN2EFaHR9Xhxx0GA", lat: 36.9400, lng: 31.1700, heading: 180 },
-    pano1: { panoId: "AXzP8NcN2EFaHR9Xhxx0GA", lat: 36.9400, lng: 31.1695, heading: 270 },
-    pano2: { panoId: "AXzP8NcN2EFaHR9Xhxx0GA", lat: 36.9400, lng: 31.1705, heading: 90 },
-    pano3: { panoId: "AXzP8NcN2EFaHR9Xhxx0GA", lat: 36.9395, lng: 31.1700, heading: 180 },
-    locationName: "Aspendos, Antalya",
-  },
-  {
-    id: "geo_hierapolis_1",
-    mode: "geo",
-    region: "ege",
-    roadType: "rural",
-    hintTags: ["ancient", "thermal", "necropolis"],
-    qualityScore: 5,
-    blacklist: false,
-    pano0: { panoId: "S6L7IKXokrhZ_RfLrGt_fQ", lat: 37.9300, lng: 29.1300, heading: 0 },
-    pano1: { panoId: "S6L7IKXokrhZ_RfLrGt_fQ", lat: 37.9300, lng: 29.1295, heading: 270 },
-    pano2: { panoId: "S6L7IKXokrhZ_RfLrGt_fQ", lat: 37.9300, lng: 29.1305, heading: 90 },
-    pano3: { panoId: "S6L7IKXokrhZ_RfLrGt_fQ", lat: 37.9305, lng: 29.1300, heading: 0 },
-    locationName: "Hierapolis, Denizli",
-  },
-];
-
-// Tüm paketler
-export const ALL_PANO_PACKAGES: PanoPackage[] = [...URBAN_PACKAGES, ...GEO_PACKAGES];
-
-// Mod'a göre paket getir
-export function getPanoPackagesByMode(mode: "urban" | "geo"): PanoPackage[] {
-  return mode === "urban" ? URBAN_PACKAGES : GEO_PACKAGES;
-}
-
-// Rastgele paket seç
-export function getRandomPanoPackageFromData(mode: "urban" | "geo"): PanoPackage {
-  const packages = getPanoPackagesByMode(mode);
-  return packages[Math.floor(Math.random() * packages.length)];
-}
-
-// Debug log kaldırıldı - production'da gereksiz
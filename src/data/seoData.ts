@@ -1,10 +1,12 @@
 /**
  * SEO Veri Katmanı
- * ALL_PANO_PACKAGES'dan şehir ve bölge verilerini çıkarır.
- * Statik sayfa üretimi (generateStaticParams) için kullanılır.
+ * Paket dosyalarından (data/packs) şehir ve bölge verilerini çıkarır.
+ * Statik sayfa üretimi (generateStaticParams) için kullanılır — yalnızca
+ * sunucu tarafı: paketler diskten okunur.
  */
 
-import { ALL_PANO_PACKAGES } from "./panoPackages";
+import { getLoadedPackages } from "@/services/panoPacks";
+import { installPacksFromDisk } from "@/services/panoPackFiles";
 
 // ==================== TYPES ====================
 
@@ -16,6 +18,7 @@ export interface CityData {
   region: string;
   regionDisplayName: string;
   packageCount: number;
+  packageIds: string[];
   modes: string[];
   hintTags: string[];
   coordinates: { lat: number; lng: number };
@@ -85,6 +88,7 @@ export function getAllCities(): CityData[] {
     province: string;
     region: string;
     packageCount: number;
+    packageIds: string[];
     modes: Set<string>;
     hintTags: Set<string>;
     lat: number;
@@ -92,12 +96,14 @@ export function getAllCities(): CityData[] {
     qualityScore: number;
   }>();
 
-  for (const pkg of ALL_PANO_PACKAGES) {
+  installPacksFromDisk();
+  for (const pkg of getLoadedPackages()) {
     const key = pkg.locationName;
     const existing = cityMap.get(key);
 
     if (existing) {
       existing.packageCount++;
+      existing.packageIds.push(pkg.id);
       existing.modes.add(pkg.mode);
       for (const tag of pkg.hintTags) existing.hintTags.add(tag);
       if (pkg.qualityScore > existing.qualityScore) {
@@ -111,6 +117,7 @@ export function getAllCities(): CityData[] {
         province,
         region: pkg.region,
         packageCount: 1,
+        packageIds: [pkg.id],
         modes: new Set([pkg.mode]),
         hintTags: new Set(pkg.hintTags),
         lat: pkg.pano0.lat,
@@ -128,6 +135,7 @@ export function getAllCities(): CityData[] {
     region: c.region,
     regionDisplayName: REGION_DISPLAY_NAMES[c.region] || c.region,
     packageCount: c.packageCount,
+    packageIds: c.packageIds,
     modes: Array.from(c.modes),
     hintTags: Array.from(c.hintTags),
     coordinates: { lat: c.lat, lng: c.lng },
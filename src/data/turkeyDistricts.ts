@@ -0,0 +1,521 @@
+/**
+ * Türkiye ilçe merkezleri (81 il, 972 ilçe) — offline ilçe bölgeleri
+ *
+ * Her ilçe için yaklaşık merkez koordinatı (~1 km). İlçe poligonu yerine bir
+ * noktanın ilçesi, il poligonu içinde en yakın ilçe merkezi olarak çözülür
+ * (il içi Voronoi bölgesi, bkz. adminBoundaries.findDistrict). Gerçek ilçe
+ * sınırına göre kaba bir yaklaşım: sınırdan birkaç km içeride kalan noktalar
+ * komşu ilçeye düşebilir; sunucu ve tüm istemciler yine aynı sonucu alır.
+ *
+ * Merkezler TURKEY_PROVINCES'ın sadeleştirilmiş il sınırına göre ayarlandı:
+ * kıyıdaki ya da sadeleştirilmiş sınırın öbür yanında kalan merkezler en
+ * yakın il içi noktaya kaydırıldı. Adalar (İstanbul) listede yok — adalar il
+ * poligonunda olmadığından oradaki nokta zaten bir ile düşmüyor.
+ * Büyükşehir olmayan illerin merkez ilçesi "Merkez" adıyla durur.
+ */
+
+/** [ilçe adı, enlem, boylam] */
+export type DistrictSeat = readonly [name: string, lat: number, lng: number];
+
+/** Plaka kodu → ilçe merkezleri */
+export const TURKEY_DISTRICTS: Record<number, readonly DistrictSeat[]> = {
+  1: [ // Adana
+    ["Aladağ", 37.548, 35.395], ["Ceyhan", 37.025, 35.817], ["Çukurova", 37.05, 35.285],
+    ["Feke", 37.815, 35.913], ["İmamoğlu", 37.265, 35.657], ["Karaisalı", 37.255, 35.06],
+    ["Karataş", 36.568, 35.383], ["Kozan", 37.455, 35.815], ["Pozantı", 37.427, 34.873],
+    ["Saimbeyli", 37.988, 36.09], ["Sarıçam", 37.045, 35.425], ["Seyhan", 36.99, 35.31],
+    ["Tufanbeyli", 38.263, 36.22], ["Yumurtalık", 36.778, 35.79], ["Yüreğir", 36.985, 35.365],
+  ],
+  2: [ // Adıyaman
+    ["Merkez", 37.764, 38.276], ["Besni", 37.693, 37.861], ["Çelikhan", 38.033, 38.24],
+    ["Gerger", 38.03, 39.03], ["Gölbaşı", 37.785, 37.637], ["Kahta", 37.786, 38.622],
+    ["Samsat", 37.58, 38.48], ["Sincik", 38.035, 38.62], ["Tut", 37.797, 37.913],
+  ],
+  3: [ // Afyonkarahisar
+    ["Merkez", 38.757, 30.54], ["Başmakçı", 37.897, 30.01], ["Bayat", 38.983, 30.93],
+    ["Bolvadin", 38.711, 31.049], ["Çay", 38.592, 31.03], ["Çobanlar", 38.7, 30.78],
+    ["Dazkırı", 37.917, 29.86], ["Dinar", 38.065, 30.165], ["Emirdağ", 39.02, 31.15],
+    ["Evciler", 38.04, 29.89], ["Hocalar", 38.58, 29.96], ["İhsaniye", 39.03, 30.417],
+    ["İscehisar", 38.86, 30.75], ["Kızılören", 38.25, 30.15], ["Sandıklı", 38.465, 30.27],
+    ["Sinanpaşa", 38.743, 30.24], ["Sultandağı", 38.53, 31.23], ["Şuhut", 38.53, 30.545],
+  ],
+  4: [ // Ağrı
+    ["Merkez", 39.719, 43.051], ["Diyadin", 39.54, 43.67], ["Doğubayazıt", 39.547, 44.084],
+    ["Eleşkirt", 39.8, 42.67], ["Hamur", 39.61, 42.99], ["Patnos", 39.232, 42.86], ["Taşlıçay", 39.63, 43.38],
+    ["Tutak", 39.54, 42.77],
+  ],
+  5: [ // Amasya
+    ["Merkez", 40.65, 35.833], ["Göynücek", 40.4, 35.52], ["Gümüşhacıköy", 40.87, 35.215],
+    ["Hamamözü", 40.795, 35.045], ["Merzifon", 40.873, 35.463], ["Suluova", 40.83, 35.65],
+    ["Taşova", 40.76, 36.32],
+  ],
+  6: [ // Ankara
+    ["Akyurt", 40.135, 33.087], ["Altındağ", 39.95, 32.89], ["Ayaş", 40.017, 32.345],
+    ["Bala", 39.555, 33.125], ["Beypazarı", 40.168, 31.92], ["Çamlıdere", 40.49, 32.475],
+    ["Çankaya", 39.87, 32.85], ["Çubuk", 40.238, 33.032], ["Elmadağ", 39.92, 33.23],
+    ["Etimesgut", 39.95, 32.67], ["Evren", 39.02, 33.805], ["Gölbaşı", 39.79, 32.805],
+    ["Güdül", 40.21, 32.245], ["Haymana", 39.432, 32.495], ["Kahramankazan", 40.205, 32.685],
+    ["Kalecik", 40.098, 33.41], ["Keçiören", 40, 32.86], ["Kızılcahamam", 40.47, 32.65],
+    ["Mamak", 39.925, 32.925], ["Nallıhan", 40.187, 31.352], ["Polatlı", 39.585, 32.145],
+    ["Pursaklar", 40.038, 32.898], ["Sincan", 39.968, 32.58], ["Şereflikoçhisar", 38.94, 33.54],
+    ["Yenimahalle", 39.99, 32.78],
+  ],
+  7: [ // Antalya
+    ["Akseki", 37.05, 31.79], ["Aksu", 36.95, 30.84], ["Alanya", 36.555, 32], ["Demre", 36.245, 29.985],
+    ["Döşemealtı", 37.025, 30.6], ["Elmalı", 36.737, 29.917], ["Finike", 36.297, 30.145],
+    ["Gazipaşa", 36.268, 32.315], ["Gündoğmuş", 36.813, 31.998], ["İbradı", 37.097, 31.598],
+    ["Kaş", 36.2, 29.637], ["Kemer", 36.598, 30.56], ["Kepez", 36.945, 30.71], ["Konyaaltı", 36.87, 30.62],
+    ["Korkuteli", 37.065, 30.195], ["Kumluca", 36.37, 30.29], ["Manavgat", 36.787, 31.443],
+    ["Muratpaşa", 36.885, 30.735], ["Serik", 36.917, 31.1],
+  ],
+  8: [ // Artvin
+    ["Merkez", 41.183, 41.818], ["Ardanuç", 41.128, 42.06], ["Arhavi", 41.35, 41.305],
+    ["Borçka", 41.365, 41.678], ["Hopa", 41.39, 41.42], ["Kemalpaşa", 41.483, 41.53],
+    ["Murgul", 41.28, 41.56], ["Şavşat", 41.245, 42.36], ["Yusufeli", 40.82, 41.54],
+  ],
+  9: [ // Aydın
+    ["Bozdoğan", 37.672, 28.31], ["Buharkent", 37.963, 28.742], ["Çine", 37.612, 28.06],
+    ["Didim", 37.375, 27.268], ["Efeler", 37.845, 27.845], ["Germencik", 37.87, 27.6],
+    ["İncirliova", 37.855, 27.72], ["Karacasu", 37.73, 28.6], ["Karpuzlu", 37.557, 27.835],
+    ["Koçarlı", 37.76, 27.705], ["Köşk", 37.853, 28.05], ["Kuşadası", 37.858, 27.26],
+    ["Kuyucak", 37.913, 28.46], ["Nazilli", 37.913, 28.32], ["Söke", 37.75, 27.41],
+    ["Sultanhisar", 37.89, 28.155], ["Yenipazar", 37.825, 28.195],
+  ],
+  10: [ // Balıkesir
+    ["Altıeylül", 39.63, 27.9], ["Ayvalık", 39.318, 26.693], ["Balya", 39.75, 27.58],
+    ["Bandırma", 40.352, 27.97], ["Bigadiç", 39.393, 28.13], ["Burhaniye", 39.5, 26.975],
+    ["Dursunbey", 39.585, 28.625], ["Edremit", 39.595, 27.025], ["Erdek", 40.397, 27.793],
+    ["Gömeç", 39.39, 26.84], ["Gönen", 40.105, 27.652], ["Havran", 39.558, 27.097],
+    ["İvrindi", 39.57, 27.485], ["Karesi", 39.67, 27.87], ["Kepsut", 39.69, 28.15], ["Manyas", 40.045, 27.97],
+    ["Marmara", 40.595, 27.555], ["Savaştepe", 39.383, 27.655], ["Sındırgı", 39.24, 28.175],
+    ["Susurluk", 39.913, 28.16],
+  ],
+  11: [ // Bilecik
+    ["Merkez", 40.142, 29.979], ["Bozüyük", 39.907, 30.037], ["Gölpazarı", 40.285, 30.318],
+    ["İnhisar", 40.05, 30.385], ["Osmaneli", 40.357, 30.013], ["Pazaryeri", 39.997, 29.907],
+    ["Söğüt", 40.018, 30.183], ["Yenipazar", 40.175, 30.52],
+  ],
+  12: [ // Bingöl
+    ["Merkez", 38.885, 40.498], ["Adaklı", 39.23, 40.48], ["Genç", 38.75, 40.56], ["Karlıova", 39.295, 41.01],
+    ["Kiğı", 39.31, 40.35], ["Solhan", 38.965, 41.055], ["Yayladere", 39.225, 40.065],
+    ["Yedisu", 39.435, 40.545],
+  ],
+  13: [ // Bitlis
+    ["Merkez", 38.4, 42.108], ["Adilcevaz", 38.803, 42.73], ["Ahlat", 38.75, 42.48],
+    ["Güroymak", 38.575, 42.02], ["Hizan", 38.225, 42.425], ["Mutki", 38.405, 41.92],
+    ["Tatvan", 38.505, 42.28],
+  ],
+  14: [ // Bolu
+    ["Merkez", 40.735, 31.608], ["Dörtdivan", 40.72, 32.06], ["Gerede", 40.8, 32.197],
+    ["Göynük", 40.398, 30.785], ["Kıbrıscık", 40.405, 31.85], ["Mengen", 40.935, 32.075],
+    ["Mudurnu", 40.465, 31.205], ["Seben", 40.41, 31.575], ["Yeniçağa", 40.772, 32.03],
+  ],
+  15: [ // Burdur
+    ["Merkez", 37.72, 30.29], ["Ağlasun", 37.65, 30.535], ["Altınyayla", 37.01, 29.545],
+    ["Bucak", 37.46, 30.595], ["Çavdır", 37.155, 29.695], ["Çeltikçi", 37.53, 30.48],
+    ["Gölhisar", 37.145, 29.508], ["Karamanlı", 37.373, 29.82], ["Kemer", 37.355, 30.06],
+    ["Tefenni", 37.315, 29.775], ["Yeşilova", 37.508, 29.755],
+  ],
+  16: [ // Bursa
+    ["Büyükorhan", 39.77, 28.89], ["Gemlik", 40.432, 29.155], ["Gürsu", 40.22, 29.19],
+    ["Harmancık", 39.68, 29.15], ["İnegöl", 40.08, 29.51], ["İznik", 40.43, 29.72],
+    ["Karacabey", 40.215, 28.36], ["Keles", 39.915, 29.23], ["Kestel", 40.2, 29.213],
+    ["Mudanya", 40.375, 28.883], ["Mustafakemalpaşa", 40.035, 28.41], ["Nilüfer", 40.215, 28.985],
+    ["Orhaneli", 39.9, 28.99], ["Orhangazi", 40.49, 29.31], ["Osmangazi", 40.2, 29.055],
+    ["Yenişehir", 40.265, 29.65], ["Yıldırım", 40.185, 29.105],
+  ],
+  17: [ // Çanakkale
+    ["Merkez", 40.15, 26.41], ["Ayvacık", 39.6, 26.405], ["Bayramiç", 39.81, 26.61], ["Biga", 40.228, 27.242],
+    ["Bozcaada", 39.835, 26.07], ["Çan", 40.03, 27.05], ["Eceabat", 40.185, 26.342], ["Ezine", 39.785, 26.34],
+    ["Gelibolu", 40.42, 26.665], ["Gökçeada", 40.195, 25.905], ["Lapseki", 40.345, 26.685],
+    ["Yenice", 39.93, 27.26],
+  ],
+  18: [ // Çankırı
+    ["Merkez", 40.6, 33.615], ["Atkaracalar", 40.815, 33.075], ["Bayramören", 40.945, 33.205],
+    ["Çerkeş", 40.815, 32.895], ["Eldivan", 40.53, 33.5], ["Ilgaz", 40.92, 33.625],
+    ["Kızılırmak", 40.345, 33.985], ["Korgun", 40.735, 33.52], ["Kurşunlu", 40.84, 33.26],
+    ["Orta", 40.625, 33.11], ["Şabanözü", 40.485, 33.285], ["Yapraklı", 40.755, 33.78],
+  ],
+  19: [ // Çorum
+    ["Merkez", 40.55, 34.955], ["Alaca", 40.168, 34.843], ["Bayat", 40.645, 34.26],
+    ["Boğazkale", 40.02, 34.61], ["Dodurga", 40.84, 34.81], ["İskilip", 40.735, 34.475],
+    ["Kargı", 41.135, 34.49], ["Laçin", 40.77, 34.89], ["Mecitözü", 40.52, 35.295], ["Oğuzlar", 40.77, 34.68],
+    ["Ortaköy", 40.275, 35.25], ["Osmancık", 40.975, 34.805], ["Sungurlu", 40.165, 34.375],
+    ["Uğurludağ", 40.45, 34.45],
+  ],
+  20: [ // Denizli
+    ["Acıpayam", 37.425, 29.35], ["Babadağ", 37.808, 28.86], ["Baklan", 37.98, 29.61],
+    ["Bekilli", 38.23, 29.425], ["Beyağaç", 37.235, 28.9], ["Bozkurt", 37.82, 29.61],
+    ["Buldan", 38.045, 28.83], ["Çal", 38.085, 29.4], ["Çameli", 37.075, 29.345], ["Çardak", 37.825, 29.665],
+    ["Çivril", 38.3, 29.74], ["Güney", 38.15, 29.07], ["Honaz", 37.76, 29.27], ["Kale", 37.44, 28.845],
+    ["Merkezefendi", 37.77, 29.06], ["Pamukkale", 37.8, 29.11], ["Sarayköy", 37.925, 28.92],
+    ["Serinhisar", 37.58, 29.265], ["Tavas", 37.575, 29.07],
+  ],
+  21: [ // Diyarbakır
+    ["Bağlar", 37.9, 40.19], ["Bismil", 37.845, 40.665], ["Çermik", 38.135, 39.45], ["Çınar", 37.725, 40.415],
+    ["Çüngüş", 38.21, 39.285], ["Dicle", 38.37, 40.07], ["Eğil", 38.255, 40.08], ["Ergani", 38.265, 39.76],
+    ["Hani", 38.405, 40.395], ["Hazro", 38.255, 40.775], ["Kayapınar", 37.95, 40.15],
+    ["Kocaköy", 38.29, 40.5], ["Kulp", 38.5, 41.01], ["Lice", 38.46, 40.65], ["Silvan", 38.137, 41.005],
+    ["Sur", 37.91, 40.235], ["Yenişehir", 37.935, 40.21],
+  ],
+  22: [ // Edirne
+    ["Merkez", 41.677, 26.555], ["Enez", 40.725, 26.085], ["Havsa", 41.55, 26.82], ["İpsala", 40.92, 26.383],
+    ["Keşan", 40.855, 26.63], ["Lalapaşa", 41.84, 26.735], ["Meriç", 41.19, 26.42],
+    ["Süloğlu", 41.765, 26.89], ["Uzunköprü", 41.268, 26.69],
+  ],
+  23: [ // Elazığ
+    ["Merkez", 38.675, 39.22], ["Ağın", 38.94, 38.715], ["Alacakaya", 38.47, 39.83],
+    ["Arıcak", 38.565, 40.135], ["Baskil", 38.57, 38.82], ["Karakoçan", 38.955, 40.04],
+    ["Keban", 38.795, 38.74], ["Kovancılar", 38.72, 39.86], ["Maden", 38.39, 39.67], ["Palu", 38.69, 39.93],
+    ["Sivrice", 38.445, 39.31],
+  ],
+  24: [ // Erzincan
+    ["Merkez", 39.75, 39.49], ["Çayırlı", 39.805, 40.035], ["İliç", 39.455, 38.565], ["Kemah", 39.6, 39.035],
+    ["Kemaliye", 39.26, 38.495], ["Otlukbeli", 39.965, 40.025], ["Refahiye", 39.9, 38.77],
+    ["Tercan", 39.78, 40.385], ["Üzümlü", 39.71, 39.7],
+  ],
+  25: [ // Erzurum
+    ["Aşkale", 39.92, 40.695], ["Aziziye", 39.945, 41.105], ["Çat", 39.61, 40.98], ["Hınıs", 39.37, 41.7],
+    ["Horasan", 40.045, 42.17], ["İspir", 40.485, 40.995], ["Karaçoban", 39.35, 42.11],
+    ["Karayazı", 39.7, 42.15], ["Köprüköy", 39.975, 41.865], ["Narman", 40.345, 41.87],
+    ["Oltu", 40.545, 41.995], ["Olur", 40.825, 42.13], ["Palandöken", 39.86, 41.27],
+    ["Pasinler", 39.98, 41.675], ["Pazaryolu", 40.41, 40.775], ["Şenkaya", 40.56, 42.345],
+    ["Tekman", 39.64, 41.51], ["Tortum", 40.3, 41.545], ["Uzundere", 40.535, 41.55],
+    ["Yakutiye", 39.93, 41.3],
+  ],
+  26: [ // Eskişehir
+    ["Alpu", 39.77, 30.96], ["Beylikova", 39.69, 31.21], ["Çifteler", 39.38, 31.035],
+    ["Günyüzü", 39.39, 31.81], ["Han", 39.18, 30.815], ["İnönü", 39.805, 30.245], ["Mahmudiye", 39.5, 30.98],
+    ["Mihalgazi", 40.03, 30.575], ["Mihalıççık", 39.865, 31.5], ["Odunpazarı", 39.74, 30.53],
+    ["Sarıcakaya", 40.04, 30.62], ["Seyitgazi", 39.445, 30.695], ["Sivrihisar", 39.45, 31.535],
+    ["Tepebaşı", 39.8, 30.49],
+  ],
+  27: [ // Gaziantep
+    ["Araban", 37.425, 37.69], ["İslahiye", 37.025, 36.63], ["Karkamış", 36.835, 37.995],
+    ["Nizip", 37.01, 37.795], ["Nurdağı", 37.175, 36.735], ["Oğuzeli", 36.965, 37.51],
+    ["Şahinbey", 37.035, 37.385], ["Şehitkamil", 37.09, 37.355], ["Yavuzeli", 37.32, 37.57],
+  ],
+  28: [ // Giresun
+    ["Merkez", 40.915, 38.39], ["Alucra", 40.32, 38.76], ["Bulancak", 40.935, 38.23],
+    ["Çamoluk", 40.135, 38.735], ["Çanakçı", 40.91, 39], ["Dereli", 40.74, 38.45],
+    ["Doğankent", 40.805, 38.92], ["Espiye", 40.945, 38.715], ["Eynesil", 41.06, 39.14],
+    ["Görele", 41.03, 39], ["Güce", 40.895, 38.81], ["Keşap", 40.92, 38.515], ["Piraziz", 40.95, 38.125],
+    ["Şebinkarahisar", 40.29, 38.42], ["Tirebolu", 41.005, 38.815], ["Yağlıdere", 40.86, 38.63],
+  ],
+  29: [ // Gümüşhane
+    ["Merkez", 40.46, 39.48], ["Kelkit", 40.13, 39.435], ["Köse", 40.21, 39.65], ["Kürtün", 40.69, 39.09],
+    ["Şiran", 40.19, 39.125], ["Torul", 40.555, 39.29],
+  ],
+  30: [ // Hakkari
+    ["Merkez", 37.575, 43.74], ["Çukurca", 37.25, 43.615], ["Derecik", 37.03, 44.33],
+    ["Şemdinli", 37.3, 44.575], ["Yüksekova", 37.57, 44.29],
+  ],
+  31: [ // Hatay
+    ["Altınözü", 36.115, 36.245], ["Antakya", 36.21, 36.165], ["Arsuz", 36.405, 35.895],
+    ["Belen", 36.49, 36.195], ["Defne", 36.17, 36.125], ["Dörtyol", 36.84, 36.23], ["Erzin", 36.955, 36.2],
+    ["Hassa", 36.8, 36.52], ["İskenderun", 36.585, 36.17], ["Kırıkhan", 36.5, 36.36], ["Kumlu", 36.37, 36.46],
+    ["Payas", 36.755, 36.215], ["Reyhanlı", 36.27, 36.57], ["Samandağ", 36.08, 35.975],
+    ["Yayladağı", 35.905, 36.06],
+  ],
+  32: [ // Isparta
+    ["Merkez", 37.765, 30.555], ["Aksu", 37.8, 31.07], ["Atabey", 37.95, 30.64], ["Eğirdir", 37.875, 30.845],
+    ["Gelendost", 38.12, 31.015], ["Gönen", 37.955, 30.515], ["Keçiborlu", 37.94, 30.3],
+    ["Senirkent", 38.105, 30.55], ["Sütçüler", 37.495, 30.98], ["Şarkikaraağaç", 38.08, 31.365],
+    ["Uluborlu", 38.085, 30.45], ["Yalvaç", 38.295, 31.18], ["Yenişarbademli", 37.71, 31.385],
+  ],
+  33: [ // Mersin
+    ["Akdeniz", 36.815, 34.65], ["Anamur", 36.075, 32.835], ["Aydıncık", 36.145, 33.32],
+    ["Bozyazı", 36.105, 32.965], ["Çamlıyayla", 37.17, 34.605], ["Erdemli", 36.61, 34.3],
+    ["Gülnar", 36.34, 33.4], ["Mezitli", 36.755, 34.53], ["Mut", 36.645, 33.435], ["Silifke", 36.378, 33.93],
+    ["Tarsus", 36.918, 34.895], ["Toroslar", 36.85, 34.6], ["Yenişehir", 36.79, 34.59],
+  ],
+  34: [ // İstanbul
+    ["Arnavutköy", 41.2, 28.72], ["Ataşehir", 40.99, 29.115], ["Avcılar", 40.985, 28.72],
+    ["Bağcılar", 41.04, 28.84], ["Bahçelievler", 41, 28.855], ["Bakırköy", 40.98, 28.85],
+    ["Başakşehir", 41.1, 28.78], ["Bayrampaşa", 41.045, 28.905], ["Beşiktaş", 41.07, 29.025],
+    ["Beykoz", 41.13, 29.15], ["Beylikdüzü", 40.99, 28.64], ["Beyoğlu", 41.037, 28.972],
+    ["Büyükçekmece", 41.04, 28.56], ["Çatalca", 41.25, 28.4], ["Çekmeköy", 41.04, 29.2],
+    ["Esenler", 41.045, 28.875], ["Esenyurt", 41.035, 28.675], ["Eyüpsultan", 41.09, 28.93],
+    ["Fatih", 41.012, 28.955], ["Gaziosmanpaşa", 41.065, 28.905], ["Güngören", 41.02, 28.88],
+    ["Kadıköy", 40.985, 29.06], ["Kağıthane", 41.085, 28.97], ["Kartal", 40.9, 29.2],
+    ["Küçükçekmece", 41.01, 28.78], ["Maltepe", 40.95, 29.14], ["Pendik", 40.915, 29.29],
+    ["Sancaktepe", 41, 29.23], ["Sarıyer", 41.17, 29.03], ["Silivri", 41.1, 28.2],
+    ["Sultanbeyli", 40.965, 29.265], ["Sultangazi", 41.11, 28.87], ["Şile", 41.13, 29.55],
+    ["Şişli", 41.06, 28.985], ["Tuzla", 40.885, 29.255], ["Ümraniye", 41.025, 29.12],
+    ["Üsküdar", 41.025, 29.045], ["Zeytinburnu", 40.995, 28.905],
+  ],
+  35: [ // İzmir
+    ["Aliağa", 38.8, 26.97], ["Balçova", 38.39, 27.05], ["Bayındır", 38.22, 27.65],
+    ["Bayraklı", 38.46, 27.17], ["Bergama", 39.12, 27.18], ["Beydağ", 38.085, 28.21],
+    ["Bornova", 38.465, 27.22], ["Buca", 38.385, 27.175], ["Çeşme", 38.32, 26.31], ["Çiğli", 38.495, 27.07],
+    ["Dikili", 39.07, 26.89], ["Foça", 38.67, 26.755], ["Gaziemir", 38.32, 27.13],
+    ["Güzelbahçe", 38.37, 26.89], ["Karabağlar", 38.38, 27.11], ["Karaburun", 38.64, 26.515],
+    ["Karşıyaka", 38.46, 27.11], ["Kemalpaşa", 38.425, 27.42], ["Kınık", 39.085, 27.38],
+    ["Kiraz", 38.23, 28.205], ["Konak", 38.415, 27.135], ["Menderes", 38.255, 27.135],
+    ["Menemen", 38.61, 27.07], ["Narlıdere", 38.395, 27], ["Ödemiş", 38.23, 27.97],
+    ["Seferihisar", 38.195, 26.84], ["Selçuk", 37.95, 27.37], ["Tire", 38.09, 27.735],
+    ["Torbalı", 38.155, 27.36], ["Urla", 38.325, 26.765],
+  ],
+  36: [ // Kars
+    ["Merkez", 40.605, 43.095], ["Akyaka", 40.74, 43.625], ["Arpaçay", 40.845, 43.33],
+    ["Digor", 40.375, 43.41], ["Kağızman", 40.145, 43.13], ["Sarıkamış", 40.33, 42.59],
+    ["Selim", 40.46, 42.785], ["Susuz", 40.78, 43.125],
+  ],
+  37: [ // Kastamonu
+    ["Merkez", 41.375, 33.775], ["Abana", 41.979, 34.01], ["Ağlı", 41.705, 33.55], ["Araç", 41.24, 33.325],
+    ["Azdavay", 41.64, 33.295], ["Bozkurt", 41.95, 34.013], ["Cide", 41.89, 33],
+    ["Çatalzeytin", 41.955, 34.215], ["Daday", 41.47, 33.465], ["Devrekani", 41.6, 33.84],
+    ["Doğanyurt", 42.005, 33.46], ["Hanönü", 41.63, 34.465], ["İhsangazi", 41.2, 33.555],
+    ["İnebolu", 41.975, 33.76], ["Küre", 41.805, 33.71], ["Pınarbaşı", 41.605, 33.11],
+    ["Seydiler", 41.62, 33.72], ["Şenpazar", 41.81, 33.23], ["Taşköprü", 41.51, 34.215],
+    ["Tosya", 41.015, 34.04],
+  ],
+  38: [ // Kayseri
+    ["Akkışla", 39, 36.175], ["Bünyan", 38.85, 35.86], ["Develi", 38.385, 35.49], ["Felahiye", 39.09, 35.57],
+    ["Hacılar", 38.645, 35.45], ["İncesu", 38.625, 35.185], ["Kocasinan", 38.76, 35.45],
+    ["Melikgazi", 38.71, 35.5], ["Özvatan", 39.11, 35.69], ["Pınarbaşı", 38.725, 36.39],
+    ["Sarıoğlan", 39.08, 35.96], ["Sarız", 38.48, 36.5], ["Talas", 38.69, 35.57], ["Tomarza", 38.45, 35.795],
+    ["Yahyalı", 38.1, 35.36], ["Yeşilhisar", 38.35, 35.085],
+  ],
+  39: [ // Kırklareli
+    ["Merkez", 41.735, 27.225], ["Babaeski", 41.43, 27.095], ["Demirköy", 41.825, 27.765],
+    ["Kofçaz", 41.945, 27.16], ["Lüleburgaz", 41.405, 27.355], ["Pehlivanköy", 41.355, 26.925],
+    ["Pınarhisar", 41.62, 27.52], ["Vize", 41.57, 27.765],
+  ],
+  40: [ // Kırşehir
+    ["Merkez", 39.145, 34.16], ["Akçakent", 39.63, 34.09], ["Akpınar", 39.45, 33.965],
+    ["Boztepe", 39.27, 34.26], ["Çiçekdağı", 39.605, 34.41], ["Kaman", 39.36, 33.72], ["Mucur", 39.06, 34.38],
+  ],
+  41: [ // Kocaeli
+    ["Başiskele", 40.715, 29.93], ["Çayırova", 40.825, 29.375], ["Darıca", 40.77, 29.385],
+    ["Derince", 40.765, 29.83], ["Dilovası", 40.78, 29.54], ["Gebze", 40.85, 29.45],
+    ["Gölcük", 40.715, 29.825], ["İzmit", 40.765, 29.94], ["Kandıra", 41.07, 30.15],
+    ["Karamürsel", 40.69, 29.615], ["Kartepe", 40.72, 30.04], ["Körfez", 40.77, 29.74],
+  ],
+  42: [ // Konya
+    ["Ahırlı", 37.24, 32.12], ["Akören", 37.45, 32.37], ["Akşehir", 38.355, 31.415],
+    ["Altınekin", 38.31, 32.87], ["Beyşehir", 37.68, 31.725], ["Bozkır", 37.19, 32.245],
+    ["Cihanbeyli", 38.66, 32.925], ["Çeltik", 39.025, 31.785], ["Çumra", 37.575, 32.775],
+    ["Derbent", 38.015, 32.015], ["Derebucak", 37.39, 31.51], ["Doğanhisar", 38.145, 31.675],
+    ["Emirgazi", 37.9, 33.835], ["Ereğli", 37.515, 34.05], ["Güneysınır", 37.27, 32.725],
+    ["Hadim", 36.99, 32.455], ["Halkapınar", 37.43, 34.185], ["Hüyük", 37.95, 31.595],
+    ["Ilgın", 38.28, 31.915], ["Kadınhanı", 38.24, 32.21], ["Karapınar", 37.715, 33.55],
+    ["Karatay", 37.87, 32.52], ["Kulu", 39.095, 33.08], ["Meram", 37.84, 32.44], ["Sarayönü", 38.265, 32.405],
+    ["Selçuklu", 37.93, 32.48], ["Seydişehir", 37.42, 31.85], ["Taşkent", 36.925, 32.49],
+    ["Tuzlukçu", 38.48, 31.63], ["Yalıhüyük", 37.3, 32.085], ["Yunak", 38.815, 31.735],
+  ],
+  43: [ // Kütahya
+    ["Merkez", 39.42, 29.985], ["Altıntaş", 39.06, 30.11], ["Aslanapa", 39.215, 29.87],
+    ["Çavdarhisar", 39.2, 29.615], ["Domaniç", 39.8, 29.61], ["Dumlupınar", 38.855, 30],
+    ["Emet", 39.345, 29.26], ["Gediz", 39.005, 29.41], ["Hisarcık", 39.25, 29.235], ["Pazarlar", 39, 29.12],
+    ["Simav", 39.09, 28.98], ["Şaphane", 39.03, 29.22], ["Tavşanlı", 39.545, 29.495],
+  ],
+  44: [ // Malatya
+    ["Akçadağ", 38.34, 37.97], ["Arapgir", 39.04, 38.495], ["Arguvan", 38.78, 38.265],
+    ["Battalgazi", 38.39, 38.37], ["Darende", 38.55, 37.505], ["Doğanşehir", 38.095, 37.88],
+    ["Doğanyol", 38.31, 39.035], ["Hekimhan", 38.815, 37.935], ["Kale", 38.4, 38.755],
+    ["Kuluncak", 38.88, 37.665], ["Pütürge", 38.195, 38.87], ["Yazıhan", 38.595, 38.18],
+    ["Yeşilyurt", 38.3, 38.25],
+  ],
+  45: [ // Manisa
+    ["Ahmetli", 38.52, 27.94], ["Akhisar", 38.92, 27.84], ["Alaşehir", 38.35, 28.515],
+    ["Demirci", 39.045, 28.66], ["Gölmarmara", 38.715, 27.92], ["Gördes", 38.93, 28.29],
+    ["Kırkağaç", 39.105, 27.67], ["Köprübaşı", 38.75, 28.405], ["Kula", 38.545, 28.65],
+    ["Salihli", 38.485, 28.14], ["Sarıgöl", 38.24, 28.695], ["Saruhanlı", 38.735, 27.565],
+    ["Selendi", 38.745, 28.865], ["Soma", 39.185, 27.605], ["Şehzadeler", 38.6, 27.46],
+    ["Turgutlu", 38.495, 27.7], ["Yunusemre", 38.65, 27.38],
+  ],
+  46: [ // Kahramanmaraş
+    ["Afşin", 38.245, 36.915], ["Andırın", 37.575, 36.35], ["Çağlayancerit", 37.745, 37.29],
+    ["Dulkadiroğlu", 37.58, 36.96], ["Ekinözü", 38.06, 37.19], ["Elbistan", 38.205, 37.195],
+    ["Göksun", 38.02, 36.495], ["Nurhak", 37.965, 37.445], ["Onikişubat", 37.6, 36.88],
+    ["Pazarcık", 37.49, 37.29], ["Türkoğlu", 37.385, 36.85],
+  ],
+  47: [ // Mardin
+    ["Artuklu", 37.315, 40.735], ["Dargeçit", 37.545, 41.72], ["Derik", 37.365, 40.27],
+    ["Kızıltepe", 37.195, 40.585], ["Mazıdağı", 37.475, 40.485], ["Midyat", 37.42, 41.34],
+    ["Nusaybin", 37.075, 41.215], ["Ömerli", 37.4, 40.955], ["Savur", 37.54, 40.885],
+    ["Yeşilli", 37.34, 40.825],
+  ],
+  48: [ // Muğla
+    ["Bodrum", 37.035, 27.43], ["Dalaman", 36.765, 28.8], ["Datça", 36.725, 27.68],
+    ["Fethiye", 36.62, 29.115], ["Kavaklıdere", 37.44, 28.365], ["Köyceğiz", 36.97, 28.685],
+    ["Marmaris", 36.855, 28.27], ["Menteşe", 37.215, 28.365], ["Milas", 37.315, 27.785],
+    ["Ortaca", 36.84, 28.765], ["Seydikemer", 36.645, 29.35], ["Ula", 37.105, 28.415],
+    ["Yatağan", 37.34, 28.14],
+  ],
+  49: [ // Muş
+    ["Merkez", 38.745, 41.505], ["Bulanık", 39.09, 42.27], ["Hasköy", 38.685, 41.69],
+    ["Korkut", 38.735, 41.78], ["Malazgirt", 39.145, 42.54], ["Varto", 39.17, 41.455],
+  ],
+  50: [ // Nevşehir
+    ["Merkez", 38.625, 34.715], ["Acıgöl", 38.55, 34.51], ["Avanos", 38.715, 34.845],
+    ["Derinkuyu", 38.38, 34.74], ["Gülşehir", 38.745, 34.625], ["Hacıbektaş", 38.94, 34.56],
+    ["Kozaklı", 39.22, 34.85], ["Ürgüp", 38.63, 34.91],
+  ],
+  51: [ // Niğde
+    ["Merkez", 37.97, 34.68], ["Altunhisar", 37.99, 34.37], ["Bor", 37.89, 34.56], ["Çamardı", 37.83, 34.985],
+    ["Çiftlik", 38.175, 34.485], ["Ulukışla", 37.545, 34.485],
+  ],
+  52: [ // Ordu
+    ["Akkuş", 40.795, 37.015], ["Altınordu", 40.985, 37.88], ["Aybastı", 40.69, 37.4],
+    ["Çamaş", 40.905, 37.525], ["Çatalpınar", 40.875, 37.455], ["Çaybaşı", 41.015, 37.09],
+    ["Fatsa", 41.03, 37.5], ["Gölköy", 40.69, 37.62], ["Gülyalı", 40.965, 38.06], ["Gürgentepe", 40.79, 37.6],
+    ["İkizce", 41.055, 37.08], ["Kabadüz", 40.86, 37.885], ["Kabataş", 40.75, 37.445],
+    ["Korgan", 40.825, 37.345], ["Kumru", 40.87, 37.265], ["Mesudiye", 40.465, 37.775],
+    ["Perşembe", 41.065, 37.77], ["Ulubey", 40.87, 37.755], ["Ünye", 41.13, 37.29],
+  ],
+  53: [ // Rize
+    ["Merkez", 41.025, 40.52], ["Ardeşen", 41.19, 40.985], ["Çamlıhemşin", 41.05, 41.005],
+    ["Çayeli", 41.09, 40.73], ["Derepazarı", 41.025, 40.425], ["Fındıklı", 41.27, 41.14],
+    ["Güneysu", 40.985, 40.61], ["Hemşin", 41.05, 40.9], ["İkizdere", 40.78, 40.555],
+    ["İyidere", 40.995, 40.365], ["Kalkandere", 40.93, 40.44], ["Pazar", 41.18, 40.88],
+  ],
+  54: [ // Sakarya
+    ["Adapazarı", 40.785, 30.395], ["Akyazı", 40.685, 30.625], ["Arifiye", 40.71, 30.365],
+    ["Erenler", 40.755, 30.43], ["Ferizli", 40.94, 30.485], ["Geyve", 40.505, 30.29],
+    ["Hendek", 40.795, 30.745], ["Karapürçek", 40.64, 30.545], ["Karasu", 41.095, 30.69],
+    ["Kaynarca", 41.055, 30.41], ["Kocaali", 41.055, 30.85], ["Pamukova", 40.505, 30.165],
+    ["Sapanca", 40.69, 30.265], ["Serdivan", 40.765, 30.355], ["Söğütlü", 40.905, 30.475],
+    ["Taraklı", 40.395, 30.495],
+  ],
+  55: [ // Samsun
+    ["19 Mayıs", 41.49, 36.06], ["Alaçam", 41.61, 35.595], ["Asarcık", 41.035, 36.23],
+    ["Atakum", 41.33, 36.25], ["Ayvacık", 40.995, 36.63], ["Bafra", 41.565, 35.905], ["Canik", 41.25, 36.36],
+    ["Çarşamba", 41.2, 36.725], ["Havza", 40.97, 35.665], ["İlkadım", 41.29, 36.33],
+    ["Kavak", 41.075, 36.045], ["Ladik", 40.91, 35.895], ["Salıpazarı", 41.085, 36.83],
+    ["Tekkeköy", 41.21, 36.46], ["Terme", 41.21, 36.975], ["Vezirköprü", 41.145, 35.455],
+    ["Yakakent", 41.63, 35.53],
+  ],
+  56: [ // Siirt
+    ["Merkez", 37.93, 41.94], ["Baykan", 38.16, 41.785], ["Eruh", 37.75, 42.18], ["Kurtalan", 37.925, 41.7],
+    ["Pervari", 37.935, 42.55], ["Şirvan", 38.065, 42.025], ["Tillo", 37.95, 42.015],
+  ],
+  57: [ // Sinop
+    ["Merkez", 42.025, 35.15], ["Ayancık", 41.945, 34.59], ["Boyabat", 41.465, 34.77],
+    ["Dikmen", 41.655, 35.265], ["Durağan", 41.415, 35.055], ["Erfelek", 41.88, 34.915],
+    ["Gerze", 41.8, 35.195], ["Saraydüzü", 41.335, 34.86], ["Türkeli", 41.945, 34.34],
+  ],
+  58: [ // Sivas
+    ["Merkez", 39.75, 37.015], ["Akıncılar", 40.075, 38.345], ["Altınyayla", 39.275, 36.75],
+    ["Divriği", 39.37, 38.115], ["Doğanşar", 40.21, 37.535], ["Gemerek", 39.22, 36.095],
+    ["Gölova", 40.06, 38.6], ["Gürün", 38.725, 37.27], ["Hafik", 39.855, 37.385], ["İmranlı", 39.88, 38.115],
+    ["Kangal", 39.235, 37.39], ["Koyulhisar", 40.3, 37.83], ["Suşehri", 40.165, 38.085],
+    ["Şarkışla", 39.35, 36.405], ["Ulaş", 39.445, 37.04], ["Yıldızeli", 39.865, 36.6],
+    ["Zara", 39.895, 37.755],
+  ],
+  59: [ // Tekirdağ
+    ["Çerkezköy", 41.285, 28], ["Çorlu", 41.16, 27.8], ["Ergene", 41.23, 27.72],
+    ["Hayrabolu", 41.215, 27.105], ["Kapaklı", 41.33, 27.975], ["Malkara", 40.89, 26.905],
+    ["Marmaraereğlisi", 40.98, 27.95], ["Muratlı", 41.175, 27.5], ["Saray", 41.445, 27.92],
+    ["Süleymanpaşa", 40.985, 27.505], ["Şarköy", 40.615, 27.11],
+  ],
+  60: [ // Tokat
+    ["Merkez", 40.315, 36.555], ["Almus", 40.375, 36.905], ["Artova", 40.11, 36.3],
+    ["Başçiftlik", 40.545, 37.17], ["Erbaa", 40.69, 36.57], ["Niksar", 40.59, 36.95],
+    ["Pazar", 40.28, 36.285], ["Reşadiye", 40.39, 37.345], ["Sulusaray", 39.995, 36.08],
+    ["Turhal", 40.39, 36.085], ["Yeşilyurt", 40, 36.23], ["Zile", 40.3, 35.885],
+  ],
+  61: [ // Trabzon
+    ["Akçaabat", 41.02, 39.57], ["Araklı", 40.94, 40.055], ["Arsin", 40.95, 39.925],
+    ["Beşikdüzü", 41.05, 39.23], ["Çarşıbaşı", 41.08, 39.38], ["Çaykara", 40.747, 40.24],
+    ["Dernekpazarı", 40.795, 40.245], ["Düzköy", 40.87, 39.42], ["Hayrat", 40.885, 40.365],
+    ["Köprübaşı", 40.81, 40.11], ["Maçka", 40.815, 39.615], ["Of", 40.945, 40.265], ["Ortahisar", 41, 39.72],
+    ["Sürmene", 40.91, 40.115], ["Şalpazarı", 40.94, 39.195], ["Tonya", 40.885, 39.29],
+    ["Vakfıkebir", 41.045, 39.28], ["Yomra", 40.955, 39.855],
+  ],
+  62: [ // Tunceli
+    ["Merkez", 39.105, 39.545], ["Çemişgezek", 39.065, 38.915], ["Hozat", 39.105, 39.22],
+    ["Mazgirt", 39.025, 39.6], ["Nazımiye", 39.18, 39.83], ["Ovacık", 39.36, 39.21],
+    ["Pertek", 38.865, 39.325], ["Pülümür", 39.49, 39.9],
+  ],
+  63: [ // Şanlıurfa
+    ["Akçakale", 36.71, 38.945], ["Birecik", 37.025, 37.98], ["Bozova", 37.365, 38.52],
+    ["Ceylanpınar", 36.845, 40.05], ["Eyyübiye", 37.13, 38.8], ["Halfeti", 37.245, 37.87],
+    ["Haliliye", 37.17, 38.83], ["Harran", 36.86, 39.03], ["Hilvan", 37.585, 38.955],
+    ["Karaköprü", 37.2, 38.78], ["Siverek", 37.755, 39.32], ["Suruç", 36.975, 38.425],
+    ["Viranşehir", 37.235, 39.76],
+  ],
+  64: [ // Uşak
+    ["Merkez", 38.68, 29.405], ["Banaz", 38.735, 29.75], ["Eşme", 38.4, 28.97], ["Karahallı", 38.32, 29.53],
+    ["Sivaslı", 38.5, 29.685], ["Ulubey", 38.42, 29.29],
+  ],
+  65: [ // Van
+    ["Bahçesaray", 38.19, 42.805], ["Başkale", 38.045, 44.015], ["Çaldıran", 39.14, 43.915],
+    ["Çatak", 38.005, 43.06], ["Edremit", 38.425, 43.26], ["Erciş", 39.03, 43.36], ["Gevaş", 38.295, 43.105],
+    ["Gürpınar", 38.325, 43.41], ["İpekyolu", 38.495, 43.39], ["Muradiye", 38.99, 43.765],
+    ["Özalp", 38.66, 43.99], ["Saray", 38.65, 44.16], ["Tuşba", 38.58, 43.43],
+  ],
+  66: [ // Yozgat
+    ["Merkez", 39.82, 34.805], ["Akdağmadeni", 39.66, 35.885], ["Aydıncık", 40.125, 35.285],
+    ["Boğazlıyan", 39.195, 35.25], ["Çandır", 39.245, 35.515], ["Çayıralan", 39.3, 35.645],
+    ["Çekerek", 40.075, 35.495], ["Kadışehri", 39.99, 35.795], ["Saraykent", 39.695, 35.51],
+    ["Sarıkaya", 39.495, 35.375], ["Sorgun", 39.81, 35.185], ["Şefaatli", 39.5, 34.755],
+    ["Yenifakılı", 39.21, 35], ["Yerköy", 39.64, 34.47],
+  ],
+  67: [ // Zonguldak
+    ["Merkez", 41.455, 31.795], ["Alaplı", 41.18, 31.385], ["Çaycuma", 41.425, 32.075],
+    ["Devrek", 41.22, 31.955], ["Ereğli", 41.28, 31.42], ["Gökçebey", 41.305, 32.14],
+    ["Kilimli", 41.485, 31.845], ["Kozlu", 41.43, 31.745],
+  ],
+  68: [ // Aksaray
+    ["Merkez", 38.37, 34.03], ["Ağaçören", 38.875, 33.93], ["Eskil", 38.4, 33.415],
+    ["Gülağaç", 38.395, 34.345], ["Güzelyurt", 38.275, 34.37], ["Ortaköy", 38.74, 34.04],
+    ["Sarıyahşi", 38.96, 33.915], ["Sultanhanı", 38.245, 33.55],
+  ],
+  69: [ // Bayburt
+    ["Merkez", 40.255, 40.225], ["Aydıntepe", 40.385, 40.145], ["Demirözü", 40.16, 39.895],
+  ],
+  70: [ // Karaman
+    ["Merkez", 37.18, 33.215], ["Ayrancı", 37.36, 33.69], ["Başyayla", 36.75, 32.68],
+    ["Ermenek", 36.64, 32.895], ["Kazımkarabekir", 37.23, 32.96], ["Sarıveliler", 36.695, 32.62],
+  ],
+  71: [ // Kırıkkale
+    ["Merkez", 39.845, 33.515], ["Bahşılı", 39.805, 33.455], ["Balışeyh", 39.91, 33.72],
+    ["Çelebi", 39.47, 33.53], ["Delice", 39.955, 34.035], ["Karakeçili", 39.595, 33.38],
+    ["Keskin", 39.675, 33.61], ["Sulakyurt", 40.16, 33.715], ["Yahşihan", 39.85, 33.455],
+  ],
+  72: [ // Batman
+    ["Merkez", 37.885, 41.13], ["Beşiri", 37.92, 41.29], ["Gercüş", 37.57, 41.385],
+    ["Hasankeyf", 37.71, 41.415], ["Kozluk", 38.195, 41.49], ["Sason", 38.335, 41.415],
+  ],
+  73: [ // Şırnak
+    ["Merkez", 37.515, 42.455], ["Beytüşşebap", 37.57, 43.17], ["Cizre", 37.33, 42.19],
+    ["Güçlükonak", 37.47, 41.91], ["İdil", 37.34, 41.89], ["Silopi", 37.25, 42.47],
+    ["Uludere", 37.445, 42.85],
+  ],
+  74: [ // Bartın
+    ["Merkez", 41.635, 32.34], ["Amasra", 41.745, 32.385], ["Kurucaşile", 41.84, 32.715],
+    ["Ulus", 41.585, 32.64],
+  ],
+  75: [ // Ardahan
+    ["Merkez", 41.11, 42.7], ["Çıldır", 41.13, 43.13], ["Damal", 41.34, 42.84], ["Göle", 40.79, 42.605],
+    ["Hanak", 41.235, 42.85], ["Posof", 41.51, 42.73],
+  ],
+  76: [ // Iğdır
+    ["Merkez", 39.92, 44.045], ["Aralık", 39.875, 44.52], ["Karakoyunlu", 40.01, 43.84],
+    ["Tuzluca", 40.045, 43.66],
+  ],
+  77: [ // Yalova
+    ["Merkez", 40.655, 29.275], ["Altınova", 40.68, 29.42], ["Armutlu", 40.52, 28.83],
+    ["Çınarcık", 40.64, 29.12], ["Çiftlikköy", 40.66, 29.325], ["Termal", 40.61, 29.175],
+  ],
+  78: [ // Karabük
+    ["Merkez", 41.205, 32.625], ["Eflani", 41.425, 33], ["Eskipazar", 40.945, 32.535],
+    ["Ovacık", 41.08, 32.925], ["Safranbolu", 41.25, 32.69], ["Yenice", 41.2, 32.33],
+  ],
+  79: [ // Kilis
+    ["Merkez", 36.715, 37.115], ["Elbeyli", 36.675, 37.46], ["Musabeyli", 36.885, 36.92],
+    ["Polateli", 36.84, 37.15],
+  ],
+  80: [ // Osmaniye
+    ["Merkez", 37.075, 36.245], ["Bahçe", 37.2, 36.575], ["Düziçi", 37.245, 36.455],
+    ["Hasanbeyli", 37.13, 36.56], ["Kadirli", 37.375, 36.095], ["Sumbas", 37.45, 36.03],
+    ["Toprakkale", 37.065, 36.145],
+  ],
+  81: [ // Düzce
+    ["Merkez", 40.84, 31.16], ["Akçakoca", 41.085, 31.12], ["Cumayeri", 40.875, 30.95],
+    ["Çilimli", 40.895, 31.045], ["Gölyaka", 40.775, 30.995], ["Gümüşova", 40.85, 30.94],
+    ["Kaynaşlı", 40.775, 31.31], ["Yığılca", 40.96, 31.45],
+  ],
+};
@@ -0,0 +1,108 @@
+/**
+ * Türkiye il sınırları (81 il) — offline GeoJSON
+ *
+ * Kaynak: Natural Earth 1:10m Admin-1 (public domain), geojson-places (ISC)
+ * paketindeki derlemeden. Koordinatlar 4 ondalığa (~10 m) yuvarlandı; her il
+ * MultiPolygon olarak saklanır. properties.plate = plaka kodu (TR-01…TR-81).
+ *
+ * İlçe poligonları bu derlemede yok — ilçe bölgeleri turkeyDistricts.ts'deki
+ * ilçe merkezlerinden çözülür (bkz. adminBoundaries).
+ */
+
+export interface ProvinceFeature {
+  type: "Feature";
+  properties: { plate: number; name: string };
+  geometry: { type: "MultiPolygon"; coordinates: number[][][][] };
+}
+
+export interface ProvinceCollection {
+  type: "FeatureCollection";
+  features: ProvinceFeature[];
+}
+
+export const TURKEY_PROVINCES: ProvinceCollection = {
+  type: "FeatureCollection",
+  features: [
+    { type: "Feature", properties: { plate: 1, name: "Adana" }, geometry: { type: "MultiPolygon", coordinates: [[[[35.9325,36.873],[35.9164,36.8934],[35.917,36.9348],[35.9993,37.0105],[36.0176,37.02],[36.039,37.0167],[36.0616,37.0097],[36.0894,37.0704],[36.1048,37.1221],[36.0927,37.1785],[36.0846,37.1918],[36.0559,37.2105],[35.9907,37.2206],[35.9697,37.2197],[35.9396,37.2925],[35.9396,37.37],[36.0067,37.4991],[36.0635,37.6024],[36.11,37.6643],[36.203,37.6695],[36.2799,37.6691],[36.3071,37.6975],[36.3262,37.7064],[36.3597,37.7318],[36.3623,37.7726],[36.3308,37.8343],[36.3241,37.8813],[36.3257,37.9119],[36.3386,37.9777],[36.3684,38.0421],[36.4181,38.2188],[36.4493,38.2809],[36.5055,38.3229],[36.4626,38.358],[36.4373,38.4097],[36.4001,38.4566],[36.348,38.4747],[36.2669,38.4578],[36.19,38.4235],[36.1459,38.3951],[36.1033,38.3122],[36.0756,38.2819],[36.0331,38.2133],[35.979,38.155],[35.6077,37.9538],[35.6296,37.7702],[35.5772,37.7505],[35.4536,37.7888],[35.3632,37.8073],[35.1906,37.8181],[35.0597,37.7135],[34.9619,37.7007],[34.9106,37.7136],[34.8597,37.7166],[34.8278,37.6802],[34.8326,37.6299],[34.8581,37.5798],[34.8652,37.553],[34.8499,37.5106],[34.8356,37.4985],[34.8198,37.4886],[34.7946,37.4572],[34.7898,37.4351],[34.7916,37.3877],[34.8244,37.3284],[34.8619,37.2727],[34.9098,37.2432],[34.9129,37.141],[34.935,37.0837],[34.9821,37.0555],[35.0432,37.0577],[35.0817,37.026],[35.0522,36.9635],[35.0525,36.907],[35.0672,36.8507],[35.0711,36.8228],[35.0667,36.7957],[35.029,36.7683],[34.9868,36.7591],[34.934,36.7293],[34.9333,36.7275],[34.9465,36.728],[34.9624,36.7267],[34.9823,36.7208],[35.0142,36.7031],[35.0418,36.6952],[35.2947,36.5725],[35.3088,36.569],[35.3202,36.5647],[35.3358,36.5456],[35.346,36.5411],[35.348,36.5444],[35.374,36.5616],[35.3954,36.5676],[35.4045,36.5719],[35.4081,36.5793],[35.4133,36.5837],[35.4372,36.5942],[35.4455,36.5963],[35.4888,36.592],[35.531,36.5827],[35.4968,36.5944],[35.4885,36.5971],[35.4787,36.5985],[35.4812,36.6072],[35.49,36.6139],[35.5037,36.6168],[35.5134,36.613],[35.5447,36.5895],[35.5571,36.5875],[35.5894,36.5895],[35.5988,36.5915],[35.6139,36.6005],[35.6235,36.6025],[35.6314,36.6072],[35.633,36.6182],[35.6331,36.6309],[35.6375,36.641],[35.6437,36.6489],[35.6522,36.6667],[35.658,36.6752],[35.6956,36.7062],[35.68,36.7031],[35.6668,36.6961],[35.6221,36.6542],[35.6087,36.6469],[35.6067,36.6578],[35.6226,36.6807],[35.6502,36.6978],[35.7092,36.7199],[35.6961,36.7239],[35.6856,36.7208],[35.6758,36.7153],[35.6648,36.7124],[35.6574,36.7175],[35.6538,36.7274],[35.6481,36.7332],[35.634,36.7267],[35.6392,36.7204],[35.6405,36.7134],[35.6387,36.7063],[35.634,36.6994],[35.6317,36.7043],[35.6292,36.7082],[35.6255,36.7109],[35.6198,36.7124],[35.6169,36.6962],[35.5945,36.7017],[35.5794,36.6851],[35.573,36.7007],[35.5823,36.7128],[35.5969,36.7249],[35.6067,36.7404],[35.615,36.7357],[35.6182,36.7316],[35.6174,36.7268],[35.6135,36.7199],[35.6245,36.726],[35.6362,36.7446],[35.6477,36.754],[35.6841,36.7646],[35.7671,36.7677],[35.8054,36.7751],[35.8206,36.7851],[35.8539,36.8158],[35.8636,36.8223],[35.8801,36.8259],[35.8938,36.8349],[35.9325,36.873]]]] } },
+    { type: "Feature", properties: { plate: 2, name: "Adıyaman" }, geometry: { type: "MultiPolygon", coordinates: [[[[37.6251,37.5188],[37.7354,37.5367],[37.8436,37.5356],[37.9614,37.5005],[38.0399,37.446],[38.054,37.4364],[38.0655,37.4368],[38.0945,37.4535],[38.1084,37.4409],[38.1256,37.4337],[38.1702,37.4255],[38.1751,37.4226],[38.1766,37.4137],[38.1801,37.4119],[38.1857,37.4129],[38.1883,37.415],[38.1901,37.4171],[38.1932,37.4181],[38.1972,37.4236],[38.1968,37.4358],[38.198,37.4479],[38.2068,37.4535],[38.2499,37.4485],[38.2657,37.4544],[38.272,37.4764],[38.2826,37.4769],[38.3408,37.4944],[38.3723,37.4839],[38.4948,37.5006],[38.5154,37.5111],[38.5754,37.5615],[38.588,37.5795],[38.5974,37.5834],[38.6456,37.6242],[38.8685,37.6514],[38.8185,37.6809],[38.8005,37.697],[38.8207,37.7067],[38.8228,37.7045],[38.836,37.6947],[38.8412,37.6924],[38.8493,37.6933],[38.8561,37.6956],[38.8611,37.6981],[38.8647,37.6992],[38.8693,37.7031],[38.875,37.7104],[38.8824,37.7149],[38.8997,37.7062],[38.9081,37.7062],[38.9164,37.709],[38.9231,37.7135],[38.8979,37.7356],[38.8889,37.7408],[38.9018,37.7527],[38.9222,37.756],[38.9448,37.7569],[38.9647,37.7613],[38.9525,37.7752],[38.9539,37.8014],[38.9436,37.8091],[38.9306,37.8075],[38.9035,37.7918],[38.8889,37.7886],[38.8978,37.8046],[38.9085,37.8168],[38.9214,37.8251],[38.9368,37.8296],[38.9455,37.8288],[38.9653,37.8231],[38.9709,37.8228],[38.9779,37.8302],[38.9792,37.8384],[38.9762,37.8459],[38.9709,37.8507],[38.9827,37.8654],[38.9892,37.878],[38.9885,37.8907],[38.9783,37.906],[39.0272,37.918],[39.0404,37.9252],[39.0505,37.9397],[39.0556,37.9731],[39.0603,37.9879],[39.0723,37.9995],[39.0896,38.007],[39.1499,38.0207],[39.189,38.0431],[39.2249,38.0637],[39.2346,38.0761],[39.2247,38.0903],[39.2486,38.1304],[39.2563,38.1531],[39.2526,38.1797],[39.2219,38.205],[39.1413,38.1786],[39.1149,38.1927],[39.0695,38.1515],[39.0156,38.1308],[38.9727,38.1231],[38.932,38.1073],[38.9052,38.1028],[38.8766,38.1024],[38.8032,38.0903],[38.7334,38.0984],[38.6631,38.0982],[38.6035,38.1104],[38.5875,38.1195],[38.5714,38.1259],[38.5639,38.1467],[38.5844,38.1576],[38.6228,38.1866],[38.6187,38.2191],[38.5609,38.2284],[38.5009,38.2146],[38.4309,38.2141],[38.3579,38.149],[38.295,38.0738],[38.2173,38.0405],[38.1909,38.0008],[38.1892,37.9485],[38.1276,37.905],[38.0444,37.8887],[38.0095,37.875],[37.9735,37.8657],[37.9305,37.8705],[37.888,37.881],[37.796,37.8712],[37.7076,37.842],[37.5653,37.8205],[37.517,37.7725],[37.4619,37.7338],[37.4222,37.6941],[37.4217,37.6351],[37.4571,37.5896],[37.5166,37.5722],[37.6251,37.5188]]]] } },
+    { type: "Feature", properties: { plate: 3, name: "Afyonkarahisar" }, geometry: { type: "MultiPolygon", coordinates: [[[[29.8881,38.7069],[29.8832,38.6654],[29.8681,38.6277],[29.8071,38.5812],[29.7931,38.5417],[29.7739,38.5007],[29.7508,38.4777],[29.7533,38.4502],[29.8915,38.4248],[29.9985,38.2833],[30.0255,38.2582],[30.0409,38.1915],[30.0132,38.1666],[29.7438,38.0074],[29.7124,37.9945],[29.6799,37.9843],[29.6648,37.9558],[29.6641,37.8537],[29.6885,37.8461],[29.7337,37.8464],[29.7476,37.8423],[29.7745,37.8313],[29.7889,37.828],[29.8008,37.8212],[29.8455,37.7593],[29.9264,37.7819],[30.0153,37.7765],[30.0934,37.7792],[30.1653,37.8104],[30.1977,37.8584],[30.2111,37.9619],[30.2322,37.9932],[30.3,38.0244],[30.3903,38.0946],[30.429,38.1122],[30.4812,38.1495],[30.5302,38.193],[30.5665,38.2056],[30.6055,38.2137],[30.6623,38.25],[30.6831,38.2539],[30.7051,38.2545],[30.7811,38.2777],[30.8447,38.3249],[30.9056,38.3805],[31.0304,38.4598],[31.0797,38.5019],[31.0996,38.5152],[31.1238,38.5124],[31.1442,38.5033],[31.1622,38.4908],[31.207,38.4396],[31.2295,38.429],[31.2544,38.423],[31.4308,38.5141],[31.5072,38.5771],[31.5948,38.6664],[31.5983,38.689],[31.5935,38.7086],[31.5922,38.7288],[31.608,38.7821],[31.6383,38.8291],[31.7149,38.9277],[31.7236,38.9675],[31.7048,38.9764],[31.6747,39.0005],[31.679,39.0129],[31.6852,39.026],[31.6978,39.0926],[31.6596,39.1003],[31.5819,39.1019],[31.4528,39.0912],[31.3783,39.1357],[31.3281,39.2239],[31.2577,39.2819],[31.2165,39.2725],[31.1814,39.2484],[31.1462,39.23],[31.1072,39.2226],[31.035,39.1791],[30.9622,39.1546],[30.9186,39.1926],[30.8685,39.2109],[30.833,39.1892],[30.7698,39.1412],[30.7033,39.106],[30.668,39.093],[30.6212,39.0869],[30.5765,39.1066],[30.5606,39.1163],[30.5437,39.1241],[30.521,39.1467],[30.5049,39.1784],[30.4772,39.1996],[30.4418,39.2063],[30.3721,39.1224],[30.2535,39.0807],[30.2344,39.0403],[30.2183,38.9949],[30.1924,38.953],[30.1649,38.8858],[30.1243,38.8327],[30.0957,38.8042],[29.8881,38.7069]]]] } },
+    { type: "Feature", properties: { plate: 4, name: "Ağrı" }, geometry: { type: "MultiPolygon", coordinates: [[[[44.4583,39.6425],[44.4578,39.6428],[44.4422,39.6522],[44.4028,39.6595],[44.2245,39.628],[44.1474,39.635],[44.0726,39.6532],[43.9733,39.6432],[43.8809,39.6549],[43.8754,39.6699],[43.8682,39.6841],[43.805,39.6956],[43.7155,39.7282],[43.6856,39.7582],[43.6635,39.7956],[43.6306,39.8134],[43.6106,39.8135],[43.5771,39.825],[43.5634,39.8332],[43.5316,39.8385],[43.464,39.8175],[43.4004,39.7831],[43.3658,39.7932],[43.35,39.8038],[43.3354,39.8415],[43.3357,39.8652],[43.341,39.9126],[43.3184,39.9693],[43.2653,39.9866],[43.2196,39.9793],[43.1735,39.9885],[43.0645,39.9893],[42.7573,39.9221],[42.5637,39.9519],[42.536,39.9274],[42.503,39.9128],[42.4765,39.9132],[42.4634,39.9117],[42.44,39.9036],[42.4179,39.8802],[42.3816,39.8706],[42.3067,39.8807],[42.2716,39.8693],[42.3529,39.7921],[42.4949,39.7481],[42.4815,39.7406],[42.471,39.7141],[42.4729,39.5786],[42.4632,39.5315],[42.4313,39.4914],[42.4591,39.4287],[42.501,39.3732],[42.5327,39.3506],[42.5632,39.3232],[42.5803,39.2956],[42.6058,39.2765],[42.6413,39.2354],[42.6361,39.171],[42.6417,39.1575],[42.6425,39.1421],[42.6322,39.1031],[42.6237,39.0537],[42.6276,39.0024],[42.6711,39.023],[42.7181,39.0349],[42.7539,39.0514],[42.7874,39.0719],[42.972,39.1041],[43.0885,39.1409],[43.1129,39.1619],[43.1154,39.1963],[43.1217,39.2311],[43.1146,39.2616],[43.0752,39.2744],[43.0375,39.2915],[43.0453,39.3212],[43.0697,39.3286],[43.1295,39.3375],[43.1627,39.3468],[43.2003,39.3843],[43.2437,39.4099],[43.3208,39.4064],[43.3898,39.3821],[43.4472,39.3355],[43.4923,39.3133],[43.5787,39.3001],[43.6136,39.2997],[43.6391,39.3197],[43.6675,39.3367],[43.7056,39.3404],[43.7435,39.3356],[43.7922,39.3232],[43.8513,39.319],[43.8681,39.314],[43.906,39.3084],[44.0471,39.3374],[44.0474,39.3375],[44.0472,39.3379],[44.021,39.362],[44.0149,39.3741],[44.026,39.3862],[44.0464,39.396],[44.0614,39.4003],[44.077,39.4006],[44.0992,39.3985],[44.1222,39.4004],[44.1765,39.4115],[44.2004,39.4095],[44.2695,39.3829],[44.2949,39.3812],[44.317,39.3853],[44.3687,39.4036],[44.388,39.4145],[44.4048,39.4344],[44.4052,39.4525],[44.4017,39.4713],[44.4067,39.4937],[44.4068,39.4937],[44.4168,39.5055],[44.4174,39.5175],[44.414,39.5304],[44.412,39.5445],[44.414,39.5609],[44.4186,39.5743],[44.4517,39.6259],[44.4576,39.6387],[44.4583,39.6425]]]] } },
+    { type: "Feature", properties: { plate: 5, name: "Amasya" }, geometry: { type: "MultiPolygon", coordinates: [[[[35.0893,41.0869],[35.098,41.0591],[35.0832,41.0343],[35.0619,41.0138],[35.0493,40.9837],[35.0466,40.8836],[35.0315,40.8182],[35.0412,40.7911],[35.0816,40.7248],[35.1088,40.6891],[35.1401,40.6741],[35.3064,40.6522],[35.3816,40.6181],[35.4159,40.613],[35.4324,40.6077],[35.4575,40.5622],[35.4579,40.5254],[35.4347,40.4527],[35.3485,40.3523],[35.3391,40.3287],[35.3386,40.3027],[35.3273,40.234],[35.3363,40.2311],[35.3444,40.2109],[35.3631,40.2006],[35.4083,40.1972],[35.4604,40.2003],[35.5098,40.1886],[35.5492,40.2527],[35.5785,40.2774],[35.6329,40.2946],[35.6514,40.2983],[35.6864,40.3105],[35.7157,40.3366],[35.7422,40.3658],[35.7714,40.4059],[35.816,40.4813],[35.8423,40.5052],[35.9251,40.5104],[36.0058,40.4937],[36.0309,40.4774],[36.0592,40.4658],[36.0808,40.4617],[36.1011,40.4544],[36.1182,40.444],[36.1358,40.4437],[36.1972,40.4661],[36.28,40.5079],[36.2947,40.518],[36.3028,40.5208],[36.3103,40.5241],[36.3166,40.575],[36.3973,40.588],[36.4417,40.6361],[36.442,40.6732],[36.459,40.7062],[36.4938,40.7456],[36.4735,40.7852],[36.4565,40.7903],[36.4412,40.7991],[36.421,40.8145],[36.4098,40.8314],[36.4223,40.8449],[36.4223,40.8517],[36.4149,40.8517],[36.4149,40.8585],[36.4431,40.8704],[36.3355,40.9292],[36.3196,40.9504],[36.3071,40.9738],[36.2792,40.9969],[36.2429,41.007],[36.2031,40.9878],[36.1855,40.9422],[36.1548,40.9014],[36.1095,40.8786],[36.0735,40.8548],[36.0314,40.8474],[35.9532,40.8759],[35.8208,40.8772],[35.7823,40.8831],[35.7061,40.8788],[35.673,40.886],[35.6388,40.931],[35.4941,41.015],[35.4611,41.0294],[35.4,41.0207],[35.0893,41.0869]]]] } },
+    { type: "Feature", properties: { plate: 6, name: "Ankara" }, geometry: { type: "MultiPolygon", coordinates: [[[[32.5071,40.7052],[32.4713,40.6939],[32.4427,40.673],[32.439,40.619],[32.4767,40.539],[32.4594,40.5159],[32.4239,40.4856],[32.3961,40.4483],[32.3154,40.4152],[32.1768,40.4313],[32.1349,40.421],[32.0931,40.3989],[31.9751,40.3771],[31.9061,40.3534],[31.8214,40.3384],[31.6965,40.34],[31.6577,40.3361],[31.5679,40.3085],[31.5356,40.3116],[31.5045,40.3211],[31.475,40.3241],[31.4524,40.332],[31.4197,40.3597],[31.2509,40.346],[31.163,40.3869],[31.0692,40.4113],[31.0439,40.3899],[31.0341,40.3524],[31.0382,40.2922],[31.0072,40.2416],[30.9254,40.2057],[30.8636,40.1428],[30.9067,40.1006],[30.9166,40.0409],[30.9221,40.02],[30.9457,40.0146],[30.9865,40.0165],[31.0816,40.0481],[31.1399,40.0436],[31.1647,40.0313],[31.1911,40.0241],[31.2197,40.0391],[31.2469,40.0577],[31.3389,40.0483],[31.3641,40.0545],[31.3891,40.0569],[31.4308,40.0236],[31.4598,40.0301],[31.4926,40.0221],[31.5315,40.0291],[31.6041,40.03],[31.6403,40.0401],[31.6812,40.0184],[31.727,40.0235],[31.7261,39.9941],[31.7387,39.9764],[31.743,39.9514],[31.757,39.9203],[31.7823,39.8905],[31.8116,39.8781],[31.845,39.8761],[31.8525,39.862],[31.8671,39.8453],[31.8795,39.8383],[31.8817,39.8118],[31.8408,39.7758],[31.8473,39.7259],[31.897,39.6206],[31.9469,39.5865],[31.9612,39.5662],[31.9651,39.5349],[31.9795,39.5168],[31.9912,39.4959],[31.9905,39.4652],[31.985,39.4351],[31.9752,39.4049],[31.9796,39.392],[31.9827,39.3865],[31.9833,39.3482],[32.0043,39.3223],[32.0358,39.3053],[32.0427,39.2751],[32.0236,39.2511],[31.9999,39.2327],[31.978,39.2305],[31.9561,39.2255],[31.9485,39.215],[31.9383,39.2045],[31.8853,39.1851],[31.8614,39.1714],[31.9048,39.1566],[31.9482,39.1364],[32.0906,39.0435],[32.127,39.0342],[32.2321,39.059],[32.2823,39.0635],[32.3676,39.0413],[32.3997,39.0269],[32.436,39],[32.4787,38.9972],[32.538,39.0356],[32.6015,39.0584],[32.6761,39.0338],[32.7218,39.0544],[32.7579,39.0921],[32.86,39.1572],[32.908,39.1449],[32.9658,39.1105],[33.0091,39.1051],[33.0236,39.1236],[33.0321,39.1755],[33.0434,39.2021],[33.0624,39.2221],[33.1048,39.2221],[33.1481,39.1968],[33.1661,39.1889],[33.2227,39.1752],[33.3206,39.1199],[33.3744,39.0226],[33.3796,38.9687],[33.3754,38.9146],[33.3638,38.8568],[33.3662,38.7987],[33.3872,38.758],[33.4134,38.7197],[33.4449,38.6837],[33.4666,38.6436],[33.5535,38.662],[33.6354,38.6987],[33.7224,38.7176],[33.8116,38.7154],[33.8497,38.7301],[33.9333,38.7923],[33.9366,38.8504],[33.8967,38.935],[33.9301,39.0011],[33.9374,39.0347],[33.8753,39.0526],[33.8614,39.0633],[33.8288,39.0745],[33.7761,39.0777],[33.7556,39.0893],[33.7393,39.1089],[33.7254,39.1176],[33.7092,39.123],[33.6575,39.1556],[33.545,39.2109],[33.5245,39.2668],[33.4448,39.3874],[33.406,39.5297],[33.3777,39.5681],[33.298,39.6428],[33.2731,39.7275],[33.303,39.8122],[33.3279,39.8969],[33.3727,39.9816],[33.4469,40.0057],[33.5621,40.0165],[33.5766,40.0736],[33.5685,40.1332],[33.5685,40.201],[33.5821,40.2579],[33.5952,40.3396],[33.4597,40.3736],[33.4295,40.387],[33.3982,40.3962],[33.3779,40.3973],[33.36,40.3913],[33.3492,40.3636],[33.3447,40.338],[33.2714,40.3311],[33.2055,40.3705],[33.1943,40.4048],[33.1726,40.4303],[33.1412,40.4444],[33.0982,40.4736],[33.081,40.4796],[33.0434,40.5018],[33.0104,40.5306],[32.9874,40.5644],[32.9586,40.594],[32.6651,40.6979],[32.5862,40.7076],[32.5071,40.7052]]]] } },
+    { type: "Feature", properties: { plate: 7, name: "Antalya" }, geometry: { type: "MultiPolygon", coordinates: [[[[32.5718,36.094],[32.5751,36.1011],[32.5903,36.1199],[32.5978,36.1441],[32.602,36.1693],[32.6148,36.1964],[32.6313,36.2213],[32.6472,36.2693],[32.6426,36.3794],[32.6517,36.438],[32.632,36.4703],[32.5923,36.4874],[32.5587,36.5062],[32.5316,36.5338],[32.4906,36.6016],[32.4562,36.6734],[32.4632,36.7416],[32.4475,36.8083],[32.4264,36.8321],[32.3948,36.8379],[32.3487,36.8412],[32.3053,36.8542],[32.2903,36.8814],[32.3016,36.9116],[32.3272,36.9276],[32.3235,36.9582],[32.2916,36.9739],[32.253,36.9869],[32.1859,37.0372],[32.1555,37.0546],[32.1279,37.0762],[32.0832,37.1266],[32.0331,37.1686],[31.963,37.2076],[31.8987,37.2552],[31.8154,37.2985],[31.5587,37.3407],[31.459,37.3413],[31.4155,37.3549],[31.3764,37.3799],[31.3528,37.3998],[31.3319,37.4222],[31.2777,37.4278],[31.2274,37.4139],[31.1807,37.3867],[31.1265,37.3801],[31.0235,37.3514],[30.935,37.3803],[30.8646,37.3316],[30.8463,37.2887],[30.7855,37.2352],[30.7481,37.2284],[30.6706,37.2276],[30.58,37.2354],[30.4409,37.2308],[30.4174,37.2385],[30.3558,37.2984],[30.2949,37.3049],[30.1469,37.2552],[30.0856,37.2466],[29.906,37.1721],[29.8512,37.1125],[29.8359,37.0371],[29.7965,36.9788],[29.7688,36.9575],[29.7445,36.9308],[29.7184,36.9187],[29.6889,36.9143],[29.5802,36.7161],[29.5938,36.6543],[29.5755,36.599],[29.5269,36.5702],[29.4811,36.5371],[29.472,36.5093],[29.4773,36.4824],[29.4549,36.4733],[29.4244,36.4835],[29.362,36.4631],[29.3289,36.4084],[29.3225,36.3907],[29.3133,36.3763],[29.3129,36.3643],[29.3137,36.3515],[29.3071,36.325],[29.2892,36.3047],[29.2612,36.2936],[29.3223,36.2469],[29.3294,36.2541],[29.3347,36.2477],[29.3408,36.2374],[29.3496,36.2326],[29.3571,36.2357],[29.3613,36.2415],[29.3649,36.2483],[29.37,36.2543],[29.3753,36.2589],[29.3776,36.2616],[29.3816,36.2639],[29.3919,36.2674],[29.3981,36.2662],[29.4019,36.2618],[29.4058,36.2602],[29.4116,36.2674],[29.4152,36.2397],[29.4204,36.2306],[29.4321,36.2401],[29.4945,36.211],[29.5215,36.206],[29.6022,36.207],[29.6239,36.1991],[29.613,36.1999],[29.6023,36.1987],[29.5925,36.1958],[29.5835,36.1916],[29.5835,36.1855],[29.6345,36.1916],[29.6421,36.187],[29.6432,36.1779],[29.6374,36.1724],[29.6239,36.178],[29.634,36.157],[29.6682,36.1438],[29.6724,36.1234],[29.6887,36.1413],[29.6893,36.1445],[29.7,36.1461],[29.7031,36.15],[29.7039,36.1544],[29.707,36.1581],[29.7192,36.1627],[29.7315,36.1643],[29.7434,36.161],[29.7549,36.1507],[29.7593,36.155],[29.7624,36.1566],[29.7754,36.1581],[29.7722,36.1542],[29.7702,36.1508],[29.7673,36.1478],[29.7617,36.1445],[29.7617,36.137],[29.7796,36.1393],[29.7953,36.1452],[29.8096,36.154],[29.8231,36.165],[29.8026,36.165],[29.8026,36.1718],[29.8273,36.178],[29.8369,36.178],[29.8376,36.1828],[29.8361,36.1843],[29.8333,36.1845],[29.8301,36.1855],[29.844,36.1914],[29.8814,36.1984],[29.8982,36.206],[29.9116,36.217],[29.9165,36.2191],[29.9255,36.2196],[29.9383,36.2177],[29.95,36.2144],[29.9613,36.2139],[29.9734,36.2196],[29.9885,36.2178],[30.0559,36.2469],[30.0559,36.2543],[30.0348,36.2543],[30.0482,36.2588],[30.0579,36.2556],[30.0656,36.2499],[30.073,36.2469],[30.1106,36.2401],[30.1111,36.2472],[30.1106,36.2543],[30.1248,36.2469],[30.1248,36.2551],[30.131,36.2742],[30.1372,36.2606],[30.1384,36.2543],[30.1447,36.2543],[30.1455,36.2751],[30.1493,36.2899],[30.1585,36.2987],[30.2337,36.3089],[30.2546,36.3083],[30.3605,36.2686],[30.3843,36.2742],[30.396,36.2655],[30.4004,36.2481],[30.3986,36.206],[30.4274,36.2264],[30.4408,36.2393],[30.4517,36.2618],[30.4639,36.2711],[30.4778,36.2795],[30.488,36.2878],[30.4806,36.2895],[30.4789,36.2919],[30.4782,36.2923],[30.4736,36.2878],[30.4668,36.2878],[30.4788,36.3086],[30.5056,36.3274],[30.5199,36.3419],[30.4942,36.3493],[30.5016,36.3636],[30.4872,36.3703],[30.4763,36.3842],[30.4746,36.4016],[30.488,36.4182],[30.487,36.4269],[30.5088,36.4543],[30.5208,36.4897],[30.536,36.5052],[30.5698,36.528],[30.5672,36.5399],[30.5811,36.5752],[30.5835,36.5963],[30.5767,36.5895],[30.5711,36.6011],[30.5638,36.6093],[30.5579,36.6196],[30.5562,36.6379],[30.5584,36.6523],[30.5627,36.6625],[30.5689,36.6706],[30.5767,36.6789],[30.5767,36.6851],[30.5658,36.7002],[30.5646,36.718],[30.5698,36.7506],[30.5698,36.7813],[30.5745,36.7895],[30.5877,36.8071],[30.6017,36.8381],[30.6286,36.8596],[30.6865,36.8912],[30.7269,36.8659],[30.7481,36.8557],[30.7759,36.8496],[30.9397,36.857],[31.3408,36.8086],[31.3763,36.7919],[31.3786,36.7676],[31.4076,36.7634],[31.5962,36.6957],[31.6107,36.682],[31.6276,36.6708],[31.7035,36.6436],[31.7243,36.641],[31.7366,36.6423],[31.7494,36.6323],[31.7691,36.61],[31.8074,36.5968],[31.8167,36.5895],[31.8346,36.5924],[31.8625,36.5887],[31.888,36.5811],[31.8994,36.5725],[31.908,36.5626],[31.9281,36.5602],[31.9683,36.5616],[31.9741,36.559],[31.9802,36.5544],[31.9878,36.55],[31.9987,36.5479],[32.01,36.5478],[32.0188,36.5465],[32.0261,36.5434],[32.0872,36.4933],[32.1021,36.4862],[32.1145,36.4697],[32.1321,36.4387],[32.135,36.4382],[32.1484,36.4337],[32.1516,36.4303],[32.1629,36.4148],[32.1743,36.4024],[32.1784,36.3953],[32.1799,36.3872],[32.1921,36.3584],[32.2527,36.3153],[32.2761,36.2878],[32.279,36.279],[32.283,36.2506],[32.2873,36.2448],[32.3059,36.2346],[32.3103,36.2295],[32.3187,36.2286],[32.3655,36.178],[32.3815,36.1702],[32.402,36.1655],[32.4196,36.1595],[32.427,36.1476],[32.4373,36.1387],[32.5134,36.103],[32.5314,36.0988],[32.5679,36.0961],[32.5718,36.094]]]] } },
+    { type: "Feature", properties: { plate: 8, name: "Artvin" }, geometry: { type: "MultiPolygon", coordinates: [[[[42.451,41.4314],[42.4379,41.4309],[42.2625,41.4823],[42.2133,41.4802],[42.1893,41.4817],[42.1727,41.4935],[42.1584,41.4999],[42.1432,41.5003],[42.1118,41.4935],[42.0975,41.4983],[42.0835,41.5001],[42.0694,41.4986],[42.0549,41.4935],[42.0196,41.4851],[41.948,41.5056],[41.9078,41.4935],[41.894,41.4855],[41.8627,41.4518],[41.8226,41.426],[41.813,41.4218],[41.8008,41.4257],[41.761,41.4535],[41.7478,41.4569],[41.7185,41.4596],[41.7068,41.4632],[41.7026,41.4695],[41.7028,41.4776],[41.7039,41.4851],[41.7026,41.489],[41.695,41.4891],[41.6698,41.4805],[41.64,41.4787],[41.6273,41.4805],[41.5208,41.5142],[41.5071,41.4954],[41.4486,41.4562],[41.4382,41.4514],[41.4343,41.4291],[41.4242,41.4079],[41.4089,41.3903],[41.3904,41.3793],[41.3775,41.376],[41.3425,41.3725],[41.3318,41.3697],[41.3103,41.3608],[41.285,41.3538],[41.1997,41.3013],[41.1998,41.3012],[41.2019,41.2981],[41.2284,41.2465],[41.2359,41.2072],[41.2553,41.1727],[41.274,41.1596],[41.2945,41.1488],[41.3066,41.1326],[41.3162,41.1146],[41.3557,41.1],[41.3858,41.0753],[41.3587,41.0286],[41.3044,41.0023],[41.2898,40.9814],[41.2803,40.9609],[41.2605,40.9463],[41.2373,40.9366],[41.1417,40.8528],[41.1274,40.8129],[41.2055,40.7792],[41.3293,40.7645],[41.3653,40.7547],[41.3727,40.7221],[41.347,40.6864],[41.3334,40.601],[41.4013,40.5556],[41.4935,40.5818],[41.5788,40.6243],[41.6566,40.6412],[41.7347,40.6236],[41.8208,40.5876],[41.8664,40.6397],[41.868,40.6847],[41.8874,40.7244],[41.9272,40.7551],[41.9526,40.7956],[41.946,40.8385],[41.9589,40.8775],[41.9896,40.8983],[42.0244,40.9119],[42.0923,40.9167],[42.1612,40.9109],[42.2208,40.9208],[42.2792,40.9249],[42.3415,41.0197],[42.4292,41.0919],[42.5121,41.1235],[42.5387,41.1912],[42.5103,41.261],[42.4923,41.2961],[42.4836,41.3071],[42.472,41.3316],[42.4654,41.3736],[42.451,41.4314]]]] } },
+    { type: "Feature", properties: { plate: 9, name: "Aydın" }, geometry: { type: "MultiPolygon", coordinates: [[[[27.4035,37.4126],[27.4154,37.4289],[27.4689,37.5219],[27.4811,37.5392],[27.5125,37.5531],[27.5458,37.5545],[27.5812,37.5357],[27.6196,37.5244],[27.7,37.5149],[27.7704,37.4766],[27.8161,37.4708],[27.8613,37.4798],[27.9073,37.4799],[27.9497,37.4624],[28.0198,37.4598],[28.1414,37.4668],[28.1807,37.4924],[28.2161,37.5473],[28.2699,37.5774],[28.3426,37.5654],[28.4048,37.523],[28.4782,37.4917],[28.6089,37.4775],[28.6035,37.4923],[28.5956,37.5061],[28.5853,37.5115],[28.5754,37.5146],[28.5628,37.553],[28.5832,37.5897],[28.6531,37.6063],[28.7303,37.5984],[28.7833,37.6385],[28.8302,37.6911],[28.869,37.6925],[28.8996,37.7097],[28.9031,37.7377],[28.8929,37.7603],[28.8292,37.7705],[28.8079,37.7963],[28.7924,37.8219],[28.7706,37.8452],[28.7734,37.8711],[28.7949,37.8839],[28.8043,37.9051],[28.7884,37.9652],[28.7905,37.9994],[28.7777,38.0288],[28.7222,38.0591],[28.709,38.081],[28.698,38.1038],[28.5623,38.1062],[28.4046,38.0612],[28.3642,38.0559],[28.3246,38.0468],[28.2902,38.0315],[28.2541,38.0201],[28.0611,38.0183],[27.8293,37.9691],[27.5832,37.9844],[27.5323,37.9778],[27.41,37.9143],[27.3293,37.8895],[27.2636,37.8881],[27.2618,37.8884],[27.2604,37.8842],[27.2555,37.8771],[27.2425,37.8681],[27.2391,37.8644],[27.2372,37.8454],[27.2433,37.8338],[27.2527,37.8253],[27.2604,37.816],[27.2616,37.8035],[27.2605,37.782],[27.2566,37.7595],[27.2495,37.7443],[27.2264,37.7209],[27.2131,37.7134],[27.1272,37.6885],[27.1055,37.6863],[27.0383,37.6901],[27.0208,37.6863],[27.0115,37.6657],[27.0488,37.6501],[27.1362,37.631],[27.1939,37.601],[27.2085,37.5969],[27.2122,37.5856],[27.2093,37.5633],[27.2004,37.5476],[27.1846,37.5559],[27.1804,37.5446],[27.1843,37.5388],[27.1882,37.5345],[27.1846,37.528],[27.1904,37.5127],[27.1878,37.4983],[27.1819,37.4833],[27.1777,37.4665],[27.1853,37.4741],[27.1926,37.4787],[27.1994,37.4786],[27.2051,37.4727],[27.2225,37.4768],[27.2175,37.4313],[27.2262,37.4119],[27.2262,37.4051],[27.2204,37.404],[27.2051,37.3983],[27.2095,37.3869],[27.2075,37.3764],[27.2007,37.3665],[27.1908,37.3573],[27.1986,37.3542],[27.2013,37.3523],[27.2041,37.3529],[27.2119,37.3573],[27.2156,37.3542],[27.2171,37.351],[27.2188,37.3437],[27.2249,37.3482],[27.2317,37.3481],[27.2388,37.3439],[27.2461,37.3362],[27.2577,37.3445],[27.2715,37.3486],[27.3303,37.3516],[27.3364,37.3557],[27.3218,37.3635],[27.3218,37.3709],[27.3462,37.3706],[27.3565,37.3791],[27.3612,37.3922],[27.3703,37.4051],[27.3866,37.4121],[27.4035,37.4126]]]] } },
+    { type: "Feature", properties: { plate: 10, name: "Balıkesir" }, geometry: { type: "MultiPolygon", coordinates: [[[[27.5722,40.3157],[27.5766,40.3065],[27.5649,40.2628],[27.5169,40.2405],[27.4472,40.1847],[27.4319,40.1803],[27.4208,40.173],[27.4396,40.1427],[27.4789,40.1299],[27.4965,40.1278],[27.5009,40.1213],[27.495,40.1019],[27.4817,40.0696],[27.4772,40.0432],[27.4661,40.0199],[27.4589,40.0127],[27.4487,39.9959],[27.4662,39.9744],[27.4828,39.9635],[27.4781,39.9231],[27.4603,39.8821],[27.4388,39.8445],[27.3994,39.8216],[27.3569,39.8076],[27.3171,39.786],[27.2742,39.7727],[27.2007,39.7918],[27.1272,39.8013],[27.0995,39.7897],[27.0685,39.7927],[27.0221,39.7929],[26.9797,39.766],[26.9073,39.7433],[26.87,39.7188],[26.8274,39.7078],[26.7368,39.7166],[26.6967,39.7102],[26.6645,39.6314],[26.6672,39.5508],[26.8079,39.5707],[26.8329,39.5568],[26.8521,39.5634],[26.8705,39.5768],[26.8934,39.5844],[26.9222,39.5822],[26.9377,39.5748],[26.9439,39.561],[26.9451,39.5396],[26.9314,39.5018],[26.9297,39.4914],[26.9299,39.4877],[26.926,39.4858],[26.8679,39.4715],[26.8521,39.4618],[26.863,39.4472],[26.8508,39.4398],[26.8374,39.4356],[26.801,39.4335],[26.8027,39.4251],[26.8026,39.4192],[26.801,39.4124],[26.801,39.4062],[26.8054,39.4051],[26.8147,39.3994],[26.7088,39.3369],[26.6912,39.3162],[26.6812,39.3106],[26.6703,39.306],[26.6648,39.2981],[26.6707,39.2827],[26.6639,39.289],[26.656,39.2943],[26.6467,39.2973],[26.6359,39.2969],[26.6359,39.3032],[26.6538,39.3065],[26.6548,39.3132],[26.6455,39.3176],[26.6326,39.3134],[26.6252,39.3033],[26.6193,39.2831],[26.6092,39.2752],[26.6291,39.2684],[26.6533,39.2669],[26.7014,39.269],[26.7188,39.2629],[26.7266,39.2475],[26.731,39.2276],[26.739,39.2076],[26.7378,39.1972],[26.7516,39.1846],[26.7712,39.1731],[26.7787,39.17],[26.9936,39.2908],[27.0133,39.3071],[27.0301,39.3303],[27.05,39.3512],[27.0781,39.3644],[27.1097,39.374],[27.291,39.4645],[27.3475,39.4558],[27.3907,39.4247],[27.4201,39.3803],[27.4966,39.4113],[27.5431,39.3948],[27.586,39.367],[27.6559,39.3517],[27.7264,39.3593],[27.7679,39.3566],[27.8072,39.3415],[27.823,39.3396],[27.8549,39.3443],[27.8712,39.3448],[27.8962,39.3134],[27.8659,39.2716],[27.8542,39.2364],[27.8933,39.2219],[27.968,39.2433],[27.9846,39.2364],[27.9914,39.2222],[28.0737,39.1527],[28.125,39.063],[28.171,39.0502],[28.2128,39.064],[28.2562,39.0711],[28.2936,39.0883],[28.3208,39.1163],[28.3613,39.1224],[28.4047,39.1194],[28.4427,39.1228],[28.4799,39.1306],[28.5721,39.1675],[28.6595,39.1566],[28.6661,39.1672],[28.6634,39.1923],[28.6578,39.204],[28.6667,39.238],[28.7059,39.253],[28.7787,39.2722],[28.8114,39.2906],[28.8416,39.3338],[28.8497,39.3479],[28.873,39.3701],[28.896,39.3997],[28.9088,39.4707],[28.9224,39.4996],[28.9339,39.5085],[28.9408,39.5211],[28.9417,39.5401],[28.947,39.5599],[28.9672,39.5891],[28.9428,39.6092],[28.9122,39.6199],[28.866,39.6212],[28.8198,39.6145],[28.7803,39.6188],[28.7556,39.6483],[28.7414,39.656],[28.7222,39.6567],[28.7116,39.6631],[28.7058,39.6747],[28.6864,39.6995],[28.6841,39.7271],[28.6891,39.7473],[28.6738,39.7641],[28.6471,39.7548],[28.6258,39.7376],[28.5459,39.7452],[28.2814,39.8958],[28.2637,39.927],[28.246,39.9964],[28.227,40.0217],[28.1731,40.0509],[28.1358,40.0963],[28.1183,40.1338],[28.1128,40.1533],[28.1253,40.1912],[28.1393,40.2074],[28.149,40.2258],[28.1294,40.2581],[28.1064,40.263],[28.0989,40.2972],[28.1259,40.3179],[28.1558,40.3363],[28.2036,40.3924],[28.208,40.3992],[28.2081,40.3993],[28.112,40.3961],[28.0275,40.372],[27.9447,40.366],[27.9085,40.3742],[27.904,40.3999],[27.9299,40.4169],[28.0168,40.4511],[28.0344,40.4744],[28.0142,40.4912],[27.9699,40.503],[27.8047,40.5228],[27.7952,40.5209],[27.7922,40.517],[27.7894,40.5142],[27.7804,40.5153],[27.7791,40.5183],[27.76,40.5371],[27.7502,40.5247],[27.742,40.5263],[27.7332,40.5306],[27.7224,40.5263],[27.7061,40.5119],[27.6963,40.5064],[27.6843,40.5023],[27.6843,40.4962],[27.6932,40.4863],[27.7258,40.4614],[27.7337,40.4591],[27.7427,40.4591],[27.7502,40.4576],[27.7532,40.4508],[27.7541,40.4383],[27.7564,40.4326],[27.7608,40.4284],[27.7674,40.4204],[27.7734,40.4165],[27.7801,40.4157],[27.7858,40.4129],[27.7879,40.403],[27.7918,40.3929],[27.8005,40.393],[27.8153,40.3999],[27.8652,40.3868],[27.8836,40.3863],[27.8674,40.3689],[27.8132,40.3471],[27.7898,40.3205],[27.7627,40.3154],[27.7326,40.3173],[27.7123,40.3242],[27.688,40.3138],[27.665,40.3175],[27.6409,40.3261],[27.613,40.331],[27.597,40.3283],[27.5722,40.3157]]],[[[27.6576,40.6531],[27.6314,40.6635],[27.6052,40.6633],[27.5794,40.6565],[27.5545,40.6469],[27.5515,40.6577],[27.5459,40.6603],[27.5388,40.6569],[27.531,40.6501],[27.5264,40.6391],[27.5321,40.6307],[27.5389,40.6234],[27.536,40.602],[27.5518,40.5911],[27.5715,40.5847],[27.5825,40.5843],[27.6047,40.5768],[27.6245,40.5831],[27.6576,40.6054],[27.6764,40.6102],[27.7142,40.6147],[27.7327,40.6252],[27.7278,40.6426],[27.7024,40.653],[27.6734,40.6564],[27.6576,40.6531]]],[[[27.6452,40.4599],[27.6351,40.4668],[27.6367,40.4783],[27.6421,40.4873],[27.6405,40.4941],[27.6073,40.5054],[27.5991,40.4965],[27.5908,40.4839],[27.5799,40.4765],[27.582,40.4655],[27.5964,40.458],[27.6149,40.4567],[27.6315,40.4538],[27.6457,40.4478],[27.6566,40.4494],[27.657,40.4575],[27.6531,40.4604],[27.6452,40.4599]]]] } },
+    { type: "Feature", properties: { plate: 11, name: "Bilecik" }, geometry: { type: "MultiPolygon", coordinates: [[[[30.626,40.3315],[30.5736,40.341],[30.4985,40.3396],[30.4813,40.3506],[30.4577,40.3791],[30.4263,40.394],[30.3874,40.3942],[30.3507,40.4021],[30.3075,40.399],[30.1691,40.371],[30.081,40.3914],[30.044,40.4221],[30.0046,40.4477],[29.9688,40.4887],[29.9408,40.5335],[29.8879,40.5109],[29.8662,40.4978],[29.8467,40.4818],[29.8283,40.4548],[29.8233,40.4224],[29.8129,40.3956],[29.8,40.3719],[29.8038,40.34],[29.8275,40.3182],[29.8319,40.2909],[29.8144,40.2636],[29.7183,40.1855],[29.6896,40.0855],[29.6916,40.0351],[29.7436,39.9775],[29.7699,39.9616],[29.7842,39.9115],[29.7342,39.897],[29.6777,39.9063],[29.6617,39.8211],[29.6658,39.7788],[29.7,39.7248],[29.7163,39.7093],[29.756,39.6888],[29.7911,39.6771],[29.902,39.6166],[29.9455,39.6076],[30.0241,39.6242],[30.0988,39.6315],[30.1361,39.6388],[30.1917,39.6885],[30.235,39.7477],[30.2452,39.8497],[30.2717,39.8668],[30.3016,39.8791],[30.3189,39.8986],[30.3339,39.9197],[30.3852,39.9367],[30.4395,39.9362],[30.4907,39.9653],[30.5242,40.0116],[30.5372,40.0637],[30.5554,40.1146],[30.6361,40.1646],[30.7386,40.1678],[30.7011,40.204],[30.64,40.2872],[30.626,40.3315]]]] } },
+    { type: "Feature", properties: { plate: 12, name: "Bingöl" }, geometry: { type: "MultiPolygon", coordinates: [[[[40.5548,39.549],[40.5155,39.5127],[40.4653,39.4944],[40.4393,39.4956],[40.3923,39.5022],[40.3764,39.4919],[40.3484,39.447],[40.3017,39.4211],[40.2528,39.4218],[40.2077,39.408],[40.1991,39.3884],[40.1896,39.3718],[40.1757,39.3671],[40.1053,39.3701],[40.0563,39.3579],[40.0416,39.338],[40.0358,39.2886],[40.0248,39.2633],[40.0189,39.237],[40.04,39.1616],[40.0319,39.1281],[40.0151,39.0974],[40.2444,39.1927],[40.279,39.2006],[40.3612,39.2294],[40.3916,39.1817],[40.3496,39.1176],[40.2995,39.0632],[40.2795,38.9929],[40.3038,38.9156],[40.3639,38.8583],[40.3822,38.8251],[40.3753,38.7883],[40.3624,38.7496],[40.3441,38.7225],[40.3111,38.7321],[40.2803,38.7366],[40.2332,38.6304],[40.2868,38.5679],[40.2969,38.5242],[40.3012,38.478],[40.4176,38.481],[40.4585,38.4953],[40.4841,38.5283],[40.4853,38.5584],[40.4911,38.5863],[40.5475,38.6085],[40.6449,38.6193],[40.6797,38.6169],[40.7297,38.606],[40.9003,38.6008],[40.9653,38.6156],[41.0889,38.6753],[41.2105,38.7124],[41.2596,38.7392],[41.253,38.7655],[41.2402,38.7893],[41.2189,38.8033],[41.2072,38.8076],[41.1861,38.8305],[41.1643,38.8879],[41.195,38.9656],[41.2649,39.0322],[41.2769,39.0726],[41.2703,39.1163],[41.2427,39.1551],[41.2236,39.1703],[41.201,39.2018],[41.203,39.2327],[41.2024,39.2479],[41.1936,39.2665],[41.1877,39.2752],[41.1724,39.3048],[41.1773,39.3273],[41.2051,39.3657],[41.1629,39.423],[41.1183,39.4637],[41.0578,39.4688],[40.9831,39.4966],[40.8862,39.5666],[40.855,39.581],[40.8267,39.5689],[40.7973,39.5521],[40.7079,39.5223],[40.6188,39.5324],[40.5548,39.549]]]] } },
+    { type: "Feature", properties: { plate: 13, name: "Bitlis" }, geometry: { type: "MultiPolygon", coordinates: [[[[42.6276,39.0024],[42.5557,38.9564],[42.4734,38.9316],[42.31,38.9457],[42.2748,38.9365],[42.2431,38.9182],[42.2023,38.9056],[42.1596,38.9021],[42.1396,38.8907],[42.1276,38.8441],[42.1063,38.83],[42.018,38.8316],[41.9994,38.7953],[42.0314,38.7559],[42.0377,38.7134],[41.9958,38.6854],[41.9368,38.6338],[41.8666,38.6028],[41.6959,38.6127],[41.5418,38.5676],[41.5312,38.5544],[41.6161,38.5288],[41.6507,38.3937],[41.674,38.3388],[41.6788,38.3028],[41.6791,38.2662],[41.6739,38.2437],[41.6773,38.2214],[41.7799,38.1903],[41.8882,38.1833],[41.9744,38.2012],[42.0602,38.2272],[42.1276,38.2024],[42.1861,38.1554],[42.2509,38.1167],[42.3229,38.0934],[42.3928,38.0788],[42.4378,38.0643],[42.4993,38.0278],[42.6004,37.9825],[42.6685,37.9442],[42.7066,37.9461],[42.7371,37.9824],[42.7409,38.0285],[42.7358,38.0591],[42.7357,38.0902],[42.7462,38.1034],[42.7586,38.1146],[42.7869,38.1811],[42.7335,38.1959],[42.7158,38.246],[42.7253,38.2812],[42.7236,38.3072],[42.7192,38.32],[42.6842,38.3831],[42.678,38.4049],[42.6877,38.4472],[42.7043,38.4618],[42.8116,38.509],[42.8753,38.5442],[42.8963,38.5718],[42.9136,38.6027],[43.005,38.7103],[43.0605,38.7553],[43.132,38.7994],[43.1612,38.8723],[43.1205,38.9223],[43.0036,38.9773],[42.9732,39.0281],[42.972,39.1041],[42.7874,39.0719],[42.7539,39.0514],[42.7181,39.0349],[42.6711,39.023],[42.6276,39.0024]]]] } },
+    { type: "Feature", properties: { plate: 14, name: "Bolu" }, geometry: { type: "MultiPolygon", coordinates: [[[[32.5071,40.7052],[32.5225,40.7599],[32.5246,40.7762],[32.5262,40.7887],[32.5295,40.8152],[32.4922,40.8678],[32.3769,40.9106],[32.3303,40.9328],[32.3027,40.9367],[32.2783,40.9486],[32.2786,40.9762],[32.284,41.0039],[32.1983,41.0181],[32.1494,41.0192],[31.9347,41.0241],[31.8722,41.0365],[31.7991,41.0418],[31.7819,40.955],[31.7334,40.9105],[31.6405,40.8943],[31.5112,40.8782],[31.4627,40.8499],[31.4586,40.7974],[31.4223,40.7246],[31.3455,40.6802],[31.2485,40.6721],[31.1354,40.7085],[30.9737,40.7044],[30.8912,40.7268],[30.8278,40.689],[30.8305,40.6569],[30.8373,40.6255],[30.8252,40.5958],[30.7607,40.5721],[30.6908,40.5744],[30.65,40.5283],[30.6225,40.4662],[30.6068,40.4588],[30.595,40.4489],[30.6011,40.4229],[30.6216,40.403],[30.6448,40.3673],[30.626,40.3315],[30.64,40.2872],[30.7011,40.204],[30.7386,40.1678],[30.7988,40.1509],[30.8636,40.1428],[30.9254,40.2057],[31.0072,40.2416],[31.0382,40.2922],[31.0341,40.3524],[31.0439,40.3899],[31.0692,40.4113],[31.163,40.3869],[31.2509,40.346],[31.4197,40.3597],[31.4524,40.332],[31.475,40.3241],[31.5045,40.3211],[31.5356,40.3116],[31.5679,40.3085],[31.6577,40.3361],[31.6965,40.34],[31.8214,40.3384],[31.9061,40.3534],[31.9751,40.3771],[32.0931,40.3989],[32.1349,40.421],[32.1768,40.4313],[32.3154,40.4152],[32.3961,40.4483],[32.4239,40.4856],[32.4594,40.5159],[32.4767,40.539],[32.439,40.619],[32.4427,40.673],[32.4713,40.6939],[32.5071,40.7052]]]] } },
+    { type: "Feature", properties: { plate: 15, name: "Burdur" }, geometry: { type: "MultiPolygon", coordinates: [[[[29.8455,37.7593],[29.7737,37.7124],[29.7335,37.6929],[29.718,37.6881],[29.6889,37.6744],[29.6759,37.6527],[29.666,37.6303],[29.5381,37.5763],[29.5376,37.55],[29.5475,37.5226],[29.5458,37.4827],[29.5575,37.4449],[29.5657,37.4449],[29.5699,37.4456],[29.5775,37.441],[29.5842,37.433],[29.5877,37.4192],[29.5845,37.41],[29.5402,37.3397],[29.442,37.2225],[29.4147,37.1747],[29.3989,37.1224],[29.3904,37.0686],[29.4134,37.0176],[29.3967,36.9597],[29.435,36.9474],[29.4834,36.9959],[29.604,37.0086],[29.6889,36.9143],[29.7184,36.9187],[29.7445,36.9308],[29.7688,36.9575],[29.7965,36.9788],[29.8359,37.0371],[29.8512,37.1125],[29.906,37.1721],[30.0856,37.2466],[30.1469,37.2552],[30.2949,37.3049],[30.3558,37.2984],[30.4174,37.2385],[30.4409,37.2308],[30.58,37.2354],[30.6706,37.2276],[30.7481,37.2284],[30.7855,37.2352],[30.8463,37.2887],[30.8646,37.3316],[30.935,37.3803],[30.9205,37.409],[30.9002,37.4321],[30.8701,37.4354],[30.8546,37.4334],[30.8359,37.4513],[30.8268,37.4689],[30.7664,37.5421],[30.7393,37.59],[30.7065,37.6706],[30.6463,37.7],[30.5833,37.6994],[30.5129,37.7093],[30.47,37.7354],[30.4308,37.7685],[30.3864,37.8182],[30.3366,37.8461],[30.29,37.808],[30.2627,37.7929],[30.2336,37.7813],[30.1235,37.7168],[30.0862,37.7032],[30.0486,37.7141],[30.0291,37.7433],[30.0153,37.7765],[29.9264,37.7819],[29.8455,37.7593]]]] } },
+    { type: "Feature", properties: { plate: 16, name: "Bursa" }, geometry: { type: "MultiPolygon", coordinates: [[[[28.2081,40.3993],[28.208,40.3992],[28.2036,40.3924],[28.1558,40.3363],[28.1259,40.3179],[28.0989,40.2972],[28.1064,40.263],[28.1294,40.2581],[28.149,40.2258],[28.1393,40.2074],[28.1253,40.1912],[28.1128,40.1533],[28.1183,40.1338],[28.1358,40.0963],[28.1731,40.0509],[28.227,40.0217],[28.246,39.9964],[28.2637,39.927],[28.2814,39.8958],[28.5459,39.7452],[28.6258,39.7376],[28.6471,39.7548],[28.6738,39.7641],[28.6891,39.7473],[28.6841,39.7271],[28.6864,39.6995],[28.7058,39.6747],[28.7116,39.6631],[28.7222,39.6567],[28.7414,39.656],[28.7556,39.6483],[28.7803,39.6188],[28.8198,39.6145],[28.866,39.6212],[28.9122,39.6199],[28.9428,39.6092],[28.9672,39.5891],[29.0048,39.5661],[29.049,39.5579],[29.1193,39.5516],[29.1908,39.5521],[29.2461,39.5793],[29.2525,39.6458],[29.2742,39.6909],[29.3202,39.7172],[29.3478,39.7969],[29.3682,39.8133],[29.3794,39.8365],[29.3995,39.8959],[29.4502,39.9235],[29.5544,39.8919],[29.5864,39.889],[29.6183,39.8924],[29.6468,39.9036],[29.6777,39.9063],[29.7342,39.897],[29.7842,39.9115],[29.7699,39.9616],[29.7436,39.9775],[29.6916,40.0351],[29.6896,40.0855],[29.7183,40.1855],[29.8144,40.2636],[29.8319,40.2909],[29.8275,40.3182],[29.8038,40.34],[29.8,40.3719],[29.8129,40.3956],[29.8233,40.4224],[29.8283,40.4548],[29.8467,40.4818],[29.8662,40.4978],[29.8879,40.5109],[29.9408,40.5335],[29.931,40.5545],[29.9262,40.577],[29.7889,40.6147],[29.7204,40.6043],[29.5353,40.5524],[29.4771,40.5498],[29.4207,40.5632],[29.3581,40.5729],[29.2939,40.5222],[29.2305,40.5116],[29.0784,40.5632],[29.0475,40.5602],[28.978,40.5732],[28.9803,40.4645],[29.0025,40.4787],[29.011,40.4819],[29.0657,40.4819],[29.0879,40.4775],[29.1115,40.4661],[29.1336,40.4508],[29.1515,40.4341],[29.1364,40.4279],[29.119,40.4237],[29.1028,40.423],[29.0901,40.4272],[29.0827,40.4157],[29.0739,40.3887],[29.0657,40.3757],[29.0516,40.3673],[29.0339,40.3644],[28.9566,40.3632],[28.9387,40.3652],[28.9214,40.37],[28.898,40.3813],[28.884,40.3863],[28.8556,40.3912],[28.8255,40.3925],[28.7913,40.4005],[28.772,40.4025],[28.7571,40.3962],[28.7419,40.3864],[28.6854,40.3795],[28.6774,40.376],[28.6668,40.3681],[28.6581,40.3652],[28.6512,40.3664],[28.6475,40.37],[28.6438,40.3712],[28.6377,40.3652],[28.5928,40.3819],[28.5454,40.3913],[28.4995,40.3911],[28.4588,40.3795],[28.4617,40.3884],[28.4675,40.3944],[28.4761,40.3979],[28.4868,40.3999],[28.4004,40.3974],[28.348,40.404],[28.2081,40.3993]]]] } },
+    { type: "Feature", properties: { plate: 17, name: "Çanakkale" }, geometry: { type: "MultiPolygon", coordinates: [[[[26.9635,40.561],[26.9319,40.6358],[26.9324,40.7149],[26.7864,40.7258],[26.7875,40.723],[26.7811,40.6644],[26.7805,40.6594],[26.7904,40.6606],[26.7984,40.6516],[26.8289,40.602],[26.8167,40.581],[26.7883,40.5629],[26.7562,40.5548],[26.7328,40.5638],[26.7183,40.5515],[26.6973,40.5264],[26.6838,40.5153],[26.6698,40.5108],[26.6229,40.5153],[26.5956,40.5104],[26.5645,40.4995],[26.5359,40.4855],[26.4917,40.4565],[26.4328,40.4398],[26.3858,40.4099],[26.3361,40.3853],[26.3211,40.3652],[26.3014,40.3647],[26.2502,40.3495],[26.2388,40.3415],[26.2322,40.34],[26.2191,40.3314],[26.21,40.3219],[26.2147,40.3174],[26.2274,40.3153],[26.2318,40.3101],[26.2285,40.3035],[26.2181,40.2969],[26.2479,40.2791],[26.2669,40.2578],[26.272,40.2304],[26.2598,40.1945],[26.2147,40.1461],[26.2092,40.1364],[26.2014,40.1153],[26.1902,40.0942],[26.1738,40.0846],[26.168,40.0792],[26.16,40.0672],[26.1575,40.0553],[26.167,40.0499],[26.1776,40.0507],[26.2306,40.0649],[26.2429,40.0708],[26.2731,40.0926],[26.313,40.1101],[26.328,40.1187],[26.3758,40.1535],[26.3613,40.1626],[26.3488,40.1813],[26.3456,40.1998],[26.3591,40.2082],[26.3799,40.2113],[26.4037,40.2194],[26.4265,40.2303],[26.4447,40.2416],[26.4709,40.2659],[26.4758,40.2696],[26.4761,40.2734],[26.4972,40.2899],[26.5104,40.2982],[26.5397,40.3037],[26.5467,40.3076],[26.6016,40.3461],[26.6167,40.3595],[26.6229,40.3757],[26.6248,40.3925],[26.6315,40.4001],[26.6638,40.4136],[26.6743,40.4257],[26.6834,40.4555],[26.6946,40.4614],[26.7083,40.4657],[26.7407,40.4875],[26.7595,40.4962],[26.8211,40.5031],[26.8386,40.5123],[26.8537,40.5231],[26.9116,40.5507],[26.9499,40.5596],[26.9635,40.561]]],[[[26.6672,39.5508],[26.6645,39.6314],[26.6967,39.7102],[26.7368,39.7166],[26.8274,39.7078],[26.87,39.7188],[26.9073,39.7433],[26.9797,39.766],[27.0221,39.7929],[27.0685,39.7927],[27.0995,39.7897],[27.1272,39.8013],[27.2007,39.7918],[27.2742,39.7727],[27.3171,39.786],[27.3569,39.8076],[27.3994,39.8216],[27.4388,39.8445],[27.4603,39.8821],[27.4781,39.9231],[27.4828,39.9635],[27.4662,39.9744],[27.4487,39.9959],[27.4589,40.0127],[27.4661,40.0199],[27.4772,40.0432],[27.4817,40.0696],[27.495,40.1019],[27.5009,40.1213],[27.4965,40.1278],[27.4789,40.1299],[27.4396,40.1427],[27.4208,40.173],[27.4319,40.1803],[27.4472,40.1847],[27.5169,40.2405],[27.5649,40.2628],[27.5766,40.3065],[27.5722,40.3157],[27.562,40.3105],[27.5513,40.3088],[27.5233,40.3088],[27.4523,40.322],[27.3929,40.3421],[27.3376,40.3703],[27.2944,40.4062],[27.3018,40.409],[27.3032,40.411],[27.3036,40.4105],[27.3081,40.4062],[27.315,40.4062],[27.3286,40.4136],[27.3137,40.4441],[27.3034,40.4584],[27.287,40.4682],[27.2715,40.4678],[27.2376,40.4518],[27.2153,40.4477],[27.177,40.4488],[27.1431,40.4539],[27.0964,40.4523],[27.0658,40.4335],[27.0413,40.4096],[27.0134,40.3925],[26.9915,40.3886],[26.9344,40.3925],[26.9082,40.4037],[26.8972,40.4062],[26.863,40.3999],[26.7767,40.4055],[26.7356,40.4036],[26.7146,40.3906],[26.6076,40.2904],[26.595,40.2826],[26.5814,40.277],[26.5725,40.2746],[26.5636,40.2702],[26.5194,40.2252],[26.5007,40.213],[26.4675,40.206],[26.4414,40.1966],[26.4276,40.1945],[26.4149,40.1949],[26.408,40.1937],[26.4028,40.1874],[26.3963,40.1728],[26.403,40.1579],[26.4035,40.139],[26.3996,40.1208],[26.3932,40.1082],[26.389,40.1052],[26.3838,40.1042],[26.3728,40.1045],[26.3694,40.1029],[26.3695,40.0992],[26.3704,40.0947],[26.3696,40.0908],[26.3662,40.0846],[26.365,40.0718],[26.3622,40.0635],[26.3532,40.0522],[26.311,40.0195],[26.3003,40.0144],[26.2669,40.0031],[26.2511,39.9949],[26.1978,40.0089],[26.1886,40.0018],[26.1677,39.9736],[26.1636,39.9645],[26.1616,39.9562],[26.1526,39.9426],[26.1499,39.9338],[26.1506,39.9247],[26.156,39.9051],[26.1567,39.899],[26.1419,39.849],[26.1364,39.8376],[26.1517,39.8352],[26.155,39.8262],[26.1499,39.8],[26.1499,39.7761],[26.1467,39.7702],[26.1421,39.7679],[26.1379,39.7646],[26.1364,39.7557],[26.1406,39.7427],[26.1594,39.7149],[26.1636,39.7042],[26.1567,39.6492],[26.1482,39.626],[26.1107,39.5979],[26.095,39.5486],[26.07,39.4963],[26.0742,39.4745],[26.113,39.4592],[26.1528,39.4592],[26.2318,39.4745],[26.2425,39.4676],[26.2493,39.4656],[26.2523,39.4708],[26.2539,39.4728],[26.263,39.4814],[26.2736,39.4824],[26.2866,39.4876],[26.2974,39.4887],[26.3501,39.4814],[26.3622,39.4814],[26.37,39.4858],[26.4139,39.5053],[26.4242,39.5052],[26.4343,39.514],[26.4568,39.5212],[26.6672,39.5508]]],[[[26.0606,39.8376],[26.0555,39.8427],[26.0511,39.8441],[26.0462,39.8441],[26.04,39.845],[26.0042,39.8452],[25.986,39.8422],[25.978,39.8342],[25.9837,39.8221],[25.9971,39.8142],[26.0265,39.8034],[26.0591,39.7861],[26.075,39.7849],[26.0817,39.8],[26.083,39.8349],[26.0772,39.8447],[26.0606,39.8376]]],[[[26.0122,40.1666],[26.0059,40.1666],[25.991,40.1575],[25.9729,40.1532],[25.9631,40.1571],[25.9719,40.1728],[25.9675,40.1806],[25.9673,40.1933],[25.9692,40.206],[25.9719,40.2143],[25.9719,40.2211],[25.9579,40.2231],[25.95,40.2296],[25.9447,40.237],[25.9382,40.2416],[25.926,40.2428],[25.9133,40.2413],[25.8269,40.2166],[25.759,40.2067],[25.719,40.1872],[25.6862,40.1608],[25.6633,40.1324],[25.6633,40.1262],[25.7044,40.1153],[25.7093,40.1099],[25.7212,40.1048],[25.7453,40.0983],[25.766,40.0972],[25.8563,40.1079],[25.9004,40.1227],[25.9678,40.1308],[25.9902,40.1369],[26.0122,40.1461],[26.0122,40.1666]]]] } },
+    { type: "Feature", properties: { plate: 18, name: "Çankırı" }, geometry: { type: "MultiPolygon", coordinates: [[[[32.5262,40.7887],[32.5246,40.7762],[32.5225,40.7599],[32.5071,40.7052],[32.5862,40.7076],[32.6651,40.6979],[32.9586,40.594],[32.9874,40.5644],[33.0104,40.5306],[33.0434,40.5018],[33.081,40.4796],[33.0982,40.4736],[33.1412,40.4444],[33.1726,40.4303],[33.1943,40.4048],[33.2055,40.3705],[33.2714,40.3311],[33.3447,40.338],[33.3492,40.3636],[33.36,40.3913],[33.3779,40.3973],[33.3982,40.3962],[33.4295,40.387],[33.4597,40.3736],[33.5952,40.3396],[33.8705,40.2723],[33.9642,40.2655],[34.043,40.2999],[34.0636,40.3035],[34.0818,40.3102],[34.1104,40.3481],[34.1336,40.3897],[34.1477,40.3969],[34.1502,40.423],[34.1428,40.4482],[34.1316,40.4749],[34.1166,40.4994],[34.0914,40.5311],[34.0787,40.5687],[34.0817,40.6041],[34.0746,40.6391],[34.0505,40.6763],[34.0442,40.7191],[34.0649,40.7588],[34.0766,40.7982],[34.0272,40.8608],[33.9856,40.8622],[33.9445,40.8687],[33.9107,40.8867],[33.8796,40.9094],[33.8209,40.9254],[33.7833,40.9738],[33.795,41.0036],[33.8209,41.025],[33.8512,41.0573],[33.8409,41.0966],[33.8259,41.1037],[33.7922,41.094],[33.63,41.0286],[33.5525,41.0177],[33.4475,40.9709],[33.4089,40.9599],[33.3623,40.9712],[33.3255,41.0049],[33.2346,41.0504],[33.1057,41.0613],[33.0922,41.0704],[33.0692,41.093],[33.0265,41.0115],[32.9295,40.9711],[32.8326,40.9792],[32.7962,40.963],[32.7483,40.8974],[32.6305,40.8256],[32.5262,40.7887]]]] } },
+    { type: "Feature", properties: { plate: 19, name: "Çorum" }, geometry: { type: "MultiPolygon", coordinates: [[[[34.4719,41.3108],[34.4194,41.302],[34.3852,41.2643],[34.3574,41.2094],[34.3337,41.1888],[34.2871,41.1572],[34.2522,41.0913],[34.2177,41.0594],[34.2077,41.0393],[34.2264,41.0021],[34.248,40.996],[34.2802,40.9691],[34.2564,40.9194],[34.1145,40.8747],[34.0272,40.8608],[34.0766,40.7982],[34.0649,40.7588],[34.0442,40.7191],[34.0505,40.6763],[34.0746,40.6391],[34.0817,40.6041],[34.0787,40.5687],[34.0914,40.5311],[34.1166,40.4994],[34.1316,40.4749],[34.1428,40.4482],[34.1502,40.423],[34.1477,40.3969],[34.1336,40.3897],[34.1104,40.3481],[34.0818,40.3102],[34.0636,40.3035],[34.043,40.2999],[33.9642,40.2655],[33.9752,40.218],[34.0164,40.1467],[34.0417,40.1272],[34.0657,40.1246],[34.0845,40.1091],[34.0868,40.0978],[34.0881,40.086],[34.1013,40.0569],[34.0976,40.0243],[34.0776,40.0002],[34.0509,39.9586],[34.0525,39.9076],[34.109,39.9286],[34.2658,39.9427],[34.3613,39.9762],[34.4585,40.0007],[34.6117,39.9799],[34.6711,39.9977],[34.7108,39.9944],[34.7916,39.9977],[34.9415,40.0539],[35.0266,40.0348],[35.0726,40.039],[35.151,40.0754],[35.1779,40.1025],[35.1801,40.1222],[35.1901,40.1439],[35.1941,40.161],[35.1811,40.1722],[35.1914,40.2174],[35.2871,40.2228],[35.3273,40.234],[35.3386,40.3027],[35.3391,40.3287],[35.3485,40.3523],[35.4347,40.4527],[35.4579,40.5254],[35.4575,40.5622],[35.4324,40.6077],[35.4159,40.613],[35.3816,40.6181],[35.3064,40.6522],[35.1401,40.6741],[35.1088,40.6891],[35.0816,40.7248],[35.0412,40.7911],[35.0315,40.8182],[35.0466,40.8836],[35.0493,40.9837],[35.0619,41.0138],[35.0832,41.0343],[35.098,41.0591],[35.0893,41.0869],[35.0516,41.0942],[34.9748,41.0874],[34.959,41.1248],[34.9524,41.1632],[34.9395,41.2003],[34.888,41.2698],[34.8852,41.2629],[34.8835,41.2461],[34.8807,41.2386],[34.8761,41.233],[34.8584,41.2208],[34.8373,41.2016],[34.7239,41.2293],[34.7066,41.2375],[34.6958,41.2524],[34.6704,41.2661],[34.641,41.2721],[34.6082,41.2658],[34.5741,41.2705],[34.5575,41.2846],[34.5357,41.2877],[34.4985,41.2859],[34.4719,41.3108]]]] } },
+    { type: "Feature", properties: { plate: 20, name: "Denizli" }, geometry: { type: "MultiPolygon", coordinates: [[[[28.698,38.1038],[28.709,38.081],[28.7222,38.0591],[28.7777,38.0288],[28.7905,37.9994],[28.7884,37.9652],[28.8043,37.9051],[28.7949,37.8839],[28.7734,37.8711],[28.7706,37.8452],[28.7924,37.8219],[28.8079,37.7963],[28.8292,37.7705],[28.8929,37.7603],[28.9031,37.7377],[28.8996,37.7097],[28.869,37.6925],[28.8302,37.6911],[28.7833,37.6385],[28.7303,37.5984],[28.6531,37.6063],[28.5832,37.5897],[28.5628,37.553],[28.5754,37.5146],[28.5853,37.5115],[28.5956,37.5061],[28.6035,37.4923],[28.6089,37.4775],[28.6208,37.4605],[28.6168,37.4397],[28.6174,37.4112],[28.6273,37.3825],[28.6532,37.3747],[28.688,37.3747],[28.7353,37.3599],[28.765,37.3185],[28.7779,37.2721],[28.8115,37.2335],[28.8861,37.2249],[28.8982,37.2146],[28.9165,37.1878],[28.9283,37.1766],[29.0019,37.1497],[29.0618,37.1029],[29.0754,37.0655],[29.0839,37.0264],[29.0868,36.9934],[29.0902,36.9779],[29.1151,36.9581],[29.1699,36.9549],[29.2704,36.9116],[29.3044,36.9258],[29.3251,36.9474],[29.3357,36.973],[29.3426,37.038],[29.3904,37.0686],[29.3989,37.1224],[29.4147,37.1747],[29.442,37.2225],[29.5402,37.3397],[29.5845,37.41],[29.5877,37.4192],[29.5842,37.433],[29.5775,37.441],[29.5699,37.4456],[29.5657,37.4449],[29.5575,37.4449],[29.5458,37.4827],[29.5475,37.5226],[29.5376,37.55],[29.5381,37.5763],[29.666,37.6303],[29.6759,37.6527],[29.6889,37.6744],[29.718,37.6881],[29.7335,37.6929],[29.7737,37.7124],[29.8455,37.7593],[29.8008,37.8212],[29.7889,37.828],[29.7745,37.8313],[29.7476,37.8423],[29.7337,37.8464],[29.6885,37.8461],[29.6641,37.8537],[29.6648,37.9558],[29.6799,37.9843],[29.7124,37.9945],[29.7438,38.0074],[30.0132,38.1666],[30.0409,38.1915],[30.0255,38.2582],[29.9985,38.2833],[29.8915,38.4248],[29.7533,38.4502],[29.6286,38.4288],[29.6199,38.3683],[29.6277,38.3096],[29.5958,38.2871],[29.5592,38.2783],[29.4833,38.2768],[29.4123,38.2827],[29.3619,38.2517],[29.3614,38.2394],[29.3483,38.2198],[29.3361,38.218],[29.3119,38.2313],[29.2987,38.2269],[29.285,38.2208],[29.2522,38.2122],[29.2191,38.2133],[29.1876,38.2412],[29.1515,38.2464],[29.1011,38.2192],[29.0449,38.2193],[28.9905,38.2452],[28.931,38.2551],[28.8381,38.2388],[28.7936,38.1705],[28.7984,38.1436],[28.7844,38.1199],[28.743,38.1043],[28.698,38.1038]]]] } },
+    { type: "Feature", properties: { plate: 21, name: "Diyarbakır" }, geometry: { type: "MultiPolygon", coordinates: [[[[41.2596,38.7392],[41.2105,38.7124],[41.0889,38.6753],[40.9653,38.6156],[40.9003,38.6008],[40.7297,38.606],[40.6797,38.6169],[40.6449,38.6193],[40.5475,38.6085],[40.4911,38.5863],[40.4853,38.5584],[40.4841,38.5283],[40.4585,38.4953],[40.4176,38.481],[40.3012,38.478],[39.9662,38.4694],[39.9499,38.474],[39.9152,38.4954],[39.893,38.504],[39.8474,38.4974],[39.832,38.4651],[39.8096,38.4328],[39.7843,38.4027],[39.7538,38.3868],[39.72,38.3777],[39.643,38.381],[39.5674,38.3763],[39.5388,38.363],[39.4619,38.3546],[39.4203,38.3402],[39.335,38.3453],[39.2521,38.3622],[39.1149,38.3435],[39.1324,38.3297],[39.145,38.3078],[39.1485,38.2842],[39.1149,38.1927],[39.1413,38.1786],[39.2219,38.205],[39.2526,38.1797],[39.2563,38.1531],[39.2486,38.1304],[39.2247,38.0903],[39.2346,38.0761],[39.2249,38.0637],[39.189,38.0431],[39.2675,38.0091],[39.3486,37.9989],[39.4079,37.997],[39.4626,37.9767],[39.5233,37.9261],[39.5888,37.883],[39.6202,37.871],[39.6527,37.8621],[39.6913,37.8339],[39.7385,37.8172],[39.7493,37.8292],[39.7592,37.8424],[39.7875,37.8328],[39.8128,37.8136],[39.8305,37.8063],[39.8486,37.8019],[39.8632,37.7777],[39.8567,37.6694],[39.8722,37.5936],[39.8815,37.565],[39.8843,37.5501],[39.9202,37.4695],[39.9537,37.4174],[40,37.3757],[40.0978,37.4758],[40.1426,37.5087],[40.2518,37.5693],[40.3009,37.5842],[40.4122,37.6524],[40.492,37.657],[40.5392,37.7073],[40.5516,37.7299],[40.662,37.7484],[41.0118,37.7414],[41.0753,37.7649],[41.0538,37.7956],[41.0455,37.8334],[41.0355,37.8621],[41.0451,37.8859],[41.0933,37.9126],[41.133,37.9491],[41.1804,38.0703],[41.1987,38.092],[41.2146,38.1151],[41.2219,38.1705],[41.2092,38.2801],[41.2208,38.3376],[41.2403,38.3926],[41.2492,38.4281],[41.2716,38.453],[41.3243,38.473],[41.3568,38.4813],[41.3884,38.484],[41.4263,38.5009],[41.4206,38.5346],[41.3901,38.5416],[41.3781,38.5689],[41.3896,38.6091],[41.3784,38.6488],[41.3112,38.6877],[41.2596,38.7392]]]] } },
+    { type: "Feature", properties: { plate: 22, name: "Edirne" }, geometry: { type: "MultiPolygon", coordinates: [[[[26.8379,41.9752],[26.8277,41.9688],[26.8194,41.9657],[26.8084,41.9679],[26.7899,41.9799],[26.7806,41.9834],[26.7686,41.9808],[26.747,41.9645],[26.7367,41.959],[26.7176,41.9573],[26.6236,41.969],[26.6057,41.9674],[26.5895,41.9588],[26.5606,41.9357],[26.5533,41.9316],[26.5471,41.9269],[26.543,41.9204],[26.5447,41.9164],[26.5568,41.9108],[26.5598,41.9073],[26.559,41.9017],[26.5547,41.8929],[26.5536,41.8877],[26.5529,41.8816],[26.5521,41.8744],[26.5478,41.8563],[26.5395,41.838],[26.5261,41.8242],[26.4784,41.8133],[26.3755,41.8166],[26.3342,41.7895],[26.32,41.7655],[26.3163,41.7438],[26.3232,41.7237],[26.3334,41.713],[26.3596,41.7149],[26.3774,41.7106],[26.4044,41.6918],[26.4428,41.6845],[26.4604,41.6788],[26.4762,41.6757],[26.4732,41.6611],[26.4644,41.6485],[26.5212,41.6164],[26.5665,41.5988],[26.5764,41.591],[26.5955,41.6124],[26.5953,41.605],[26.5963,41.5975],[26.5986,41.5908],[26.6023,41.5852],[26.5978,41.5733],[26.6017,41.5473],[26.5955,41.5374],[26.6061,41.523],[26.611,41.5057],[26.6159,41.4685],[26.6322,41.4197],[26.6364,41.3996],[26.6366,41.3785],[26.6317,41.3575],[26.6226,41.3404],[26.6097,41.3307],[26.5911,41.3293],[26.5696,41.3336],[26.5506,41.3418],[26.5402,41.3518],[26.4893,41.3109],[26.4788,41.3096],[26.4744,41.3064],[26.472,41.3019],[26.4664,41.2972],[26.4385,41.2836],[26.4121,41.2657],[26.3951,41.259],[26.3317,41.2541],[26.3205,41.2462],[26.336,41.2289],[26.3255,41.207],[26.3211,41.1876],[26.3242,41.1699],[26.336,41.1526],[26.3173,41.1305],[26.3173,41.1223],[26.3323,41.119],[26.3395,41.1145],[26.3224,41.0886],[26.3251,41.0741],[26.339,41.0516],[26.3476,41.041],[26.3742,41.0311],[26.375,41.0195],[26.3681,41.0077],[26.3596,41.0024],[26.3446,41.0011],[26.3359,40.9971],[26.3332,40.9907],[26.336,40.9819],[26.3465,40.9717],[26.3562,40.9681],[26.3591,40.9647],[26.3491,40.9546],[26.335,40.9462],[26.3065,40.936],[26.2944,40.9267],[26.2973,40.9224],[26.3033,40.9155],[26.304,40.909],[26.2907,40.9061],[26.2822,40.9072],[26.2752,40.9103],[26.27,40.9148],[26.2665,40.9204],[26.2604,40.9204],[26.2522,40.9006],[26.2463,40.8915],[26.2392,40.8857],[26.2324,40.8857],[26.2311,40.8898],[26.2262,40.8993],[26.2263,40.8888],[26.2253,40.8836],[26.2209,40.8813],[26.2119,40.8795],[26.2112,40.8747],[26.2125,40.8731],[26.2151,40.8729],[26.2186,40.872],[26.2087,40.8684],[26.2058,40.865],[26.2051,40.8584],[26.212,40.8474],[26.1583,40.8122],[26.143,40.7938],[26.1345,40.7671],[26.1123,40.747],[26.0816,40.7356],[26.044,40.7385],[26.0409,40.7366],[26.0332,40.7351],[26.0481,40.7196],[26.0581,40.6977],[26.0609,40.6758],[26.0537,40.6606],[26.0623,40.6454],[26.0685,40.6271],[26.0769,40.6118],[26.0913,40.6054],[26.1174,40.602],[26.3026,40.6011],[26.3561,40.613],[26.3731,40.6144],[26.3998,40.6042],[26.4153,40.6082],[26.431,40.6152],[26.4447,40.619],[26.4612,40.6176],[26.4771,40.6131],[26.5056,40.5986],[26.582,40.633],[26.6092,40.6395],[26.6775,40.6395],[26.6908,40.6426],[26.7142,40.6513],[26.7805,40.6594],[26.7811,40.6644],[26.7875,40.723],[26.7864,40.7258],[26.761,40.791],[26.7231,40.8537],[26.7163,40.935],[26.7341,41.0056],[26.765,41.0653],[26.8139,41.1135],[26.8293,41.1728],[26.8215,41.3124],[26.8098,41.3303],[26.7802,41.3756],[26.8284,41.4523],[26.8436,41.5243],[26.8844,41.5705],[26.9062,41.6669],[26.8948,41.7635],[26.8632,41.8592],[26.8382,41.9743],[26.8379,41.9752]]]] } },
+    { type: "Feature", properties: { plate: 23, name: "Elazığ" }, geometry: { type: "MultiPolygon", coordinates: [[[[40.0151,39.0974],[39.9614,39.0946],[39.9111,39.0859],[39.8923,39.0749],[39.8791,39.0593],[39.8899,39.0207],[39.8944,38.9854],[39.8802,38.9386],[39.8536,38.8958],[39.7928,38.8433],[39.6995,38.8143],[39.6024,38.8093],[39.5668,38.8114],[39.5318,38.8061],[39.5064,38.78],[39.4756,38.7633],[39.4509,38.7695],[39.4267,38.7789],[39.4092,38.7752],[39.4005,38.7741],[39.3781,38.7958],[39.3587,38.8071],[39.3143,38.8175],[39.2713,38.841],[39.2254,38.858],[39.1843,38.8611],[39.1437,38.8705],[39.1122,38.8724],[39.0809,38.8872],[39.0708,38.8881],[39.0512,38.884],[39.0414,38.883],[38.9988,38.8975],[38.9198,38.8929],[38.8414,38.8765],[38.8131,38.8772],[38.7698,38.9096],[38.7706,38.9374],[38.7853,38.9642],[38.7843,38.9931],[38.7457,39.0378],[38.7141,39.0334],[38.6879,39.023],[38.6168,39.0203],[38.5893,38.9922],[38.5899,38.9508],[38.6068,38.9248],[38.6194,38.8959],[38.6243,38.8345],[38.6239,38.8126],[38.6357,38.7817],[38.6316,38.7757],[38.633,38.7624],[38.6317,38.7523],[38.6187,38.7482],[38.5089,38.7568],[38.4836,38.753],[38.4713,38.7408],[38.4781,38.7254],[38.4726,38.7075],[38.4604,38.6924],[38.4467,38.6862],[38.4221,38.6827],[38.4024,38.6734],[38.387,38.6603],[38.3757,38.6452],[38.3704,38.6345],[38.3638,38.6163],[38.3489,38.5956],[38.3513,38.5886],[38.3577,38.5826],[38.3614,38.5732],[38.3646,38.5564],[38.3735,38.5365],[38.3866,38.5187],[38.403,38.508],[38.4142,38.5168],[38.4256,38.5124],[38.4433,38.4943],[38.4566,38.4849],[38.4687,38.4792],[38.4817,38.4759],[38.5398,38.4704],[38.5667,38.4646],[38.5714,38.4623],[38.5877,38.4498],[38.5946,38.4502],[38.6006,38.4531],[38.6078,38.4534],[38.6889,38.4207],[38.7177,38.4186],[38.779,38.4369],[38.8105,38.4403],[38.8344,38.4261],[38.8269,38.4186],[38.8529,38.4047],[38.861,38.3988],[38.8839,38.369],[38.8855,38.364],[38.9111,38.3607],[38.9279,38.3523],[38.9572,38.3305],[38.9922,38.326],[39.0734,38.3479],[39.1149,38.3435],[39.2521,38.3622],[39.335,38.3453],[39.4203,38.3402],[39.4619,38.3546],[39.5388,38.363],[39.5674,38.3763],[39.643,38.381],[39.72,38.3777],[39.7538,38.3868],[39.7843,38.4027],[39.8096,38.4328],[39.832,38.4651],[39.8474,38.4974],[39.893,38.504],[39.9152,38.4954],[39.9499,38.474],[39.9662,38.4694],[40.3012,38.478],[40.2969,38.5242],[40.2868,38.5679],[40.2332,38.6304],[40.2803,38.7366],[40.3111,38.7321],[40.3441,38.7225],[40.3624,38.7496],[40.3753,38.7883],[40.3822,38.8251],[40.3639,38.8583],[40.3038,38.9156],[40.2795,38.9929],[40.2995,39.0632],[40.3496,39.1176],[40.3916,39.1817],[40.3612,39.2294],[40.279,39.2006],[40.2444,39.1927],[40.0151,39.0974]]]] } },
+    { type: "Feature", properties: { plate: 24, name: "Erzincan" }, geometry: { type: "MultiPolygon", coordinates: [[[[38.7616,40.0549],[38.7585,40.0038],[38.7372,39.9655],[38.6913,39.9657],[38.6456,39.9715],[38.5932,39.9627],[38.5464,39.937],[38.4977,39.9431],[38.4511,39.9708],[38.4067,39.9507],[38.3692,39.8679],[38.3772,39.8363],[38.4462,39.8382],[38.5192,39.852],[38.5402,39.8328],[38.5297,39.8052],[38.5103,39.8021],[38.49,39.8026],[38.4527,39.7872],[38.4266,39.7541],[38.3786,39.7035],[38.3671,39.5991],[38.3442,39.5648],[38.3556,39.5265],[38.3908,39.5005],[38.4238,39.4841],[38.4467,39.4599],[38.4385,39.444],[38.403,39.426],[38.3922,39.4179],[38.3835,39.4091],[38.3741,39.402],[38.3614,39.3993],[38.3667,39.3886],[38.3682,39.3714],[38.3689,39.3374],[38.3816,39.3093],[38.3875,39.2791],[38.3831,39.2617],[38.3817,39.2427],[38.3879,39.2271],[38.3926,39.211],[38.384,39.1773],[38.3617,39.1503],[38.4409,39.1195],[38.5356,39.1159],[38.5809,39.102],[38.6236,39.0822],[38.6879,39.023],[38.7141,39.0334],[38.7457,39.0378],[38.7372,39.0996],[38.7291,39.1064],[38.7208,39.111],[38.7167,39.1344],[38.7204,39.1579],[38.7281,39.1634],[38.7335,39.164],[38.7556,39.1726],[38.77,39.2296],[38.7937,39.2407],[38.8203,39.2449],[38.8477,39.2578],[38.8338,39.2765],[38.821,39.3072],[38.8368,39.3387],[38.8962,39.3558],[38.908,39.3608],[38.9194,39.3779],[38.9342,39.3936],[38.9627,39.3924],[38.9878,39.4024],[39.006,39.4293],[39.0333,39.4462],[39.1321,39.4748],[39.1846,39.4835],[39.2371,39.4759],[39.2792,39.484],[39.3189,39.5008],[39.3958,39.4969],[39.4724,39.4822],[39.5513,39.4828],[39.7038,39.5009],[39.7741,39.5185],[39.8191,39.5626],[39.8564,39.5715],[39.9104,39.5478],[39.9887,39.5324],[40.0813,39.557],[40.1018,39.5601],[40.1399,39.5737],[40.172,39.5812],[40.1755,39.5844],[40.1859,39.583],[40.2235,39.5731],[40.2427,39.5648],[40.3919,39.561],[40.4729,39.5509],[40.5548,39.549],[40.6188,39.5324],[40.6223,39.5944],[40.6571,39.6461],[40.68,39.6877],[40.6478,39.7168],[40.6056,39.7303],[40.5672,39.7519],[40.5493,39.7696],[40.535,39.7902],[40.5312,39.8177],[40.533,39.8453],[40.4669,39.9135],[40.2953,39.9158],[40.2422,39.9366],[40.2504,39.9939],[40.2814,40.0472],[40.1179,40.0727],[40.0708,40.0585],[40.0302,40.0303],[39.9801,40.0259],[39.9233,40.0299],[39.8691,40.0148],[39.8317,39.9709],[39.7879,39.9348],[39.6764,39.9147],[39.622,39.8938],[39.5647,39.8892],[39.5058,39.8926],[39.447,39.888],[39.3854,39.8933],[39.327,39.9163],[39.2665,39.9303],[39.2489,39.9437],[39.2331,39.9607],[39.1971,39.9783],[39.1583,39.9901],[39.0496,40.0391],[39.0197,40.0455],[38.989,40.0488],[38.9608,40.0585],[38.9333,40.0713],[38.8925,40.0576],[38.8055,40.0525],[38.7616,40.0549]]]] } },
+    { type: "Feature", properties: { plate: 25, name: "Erzurum" }, geometry: { type: "MultiPolygon", coordinates: [[[[42.4313,39.4914],[42.4632,39.5315],[42.4729,39.5786],[42.471,39.7141],[42.4815,39.7406],[42.4949,39.7481],[42.3529,39.7921],[42.2716,39.8693],[42.3067,39.8807],[42.3816,39.8706],[42.4179,39.8802],[42.44,39.9036],[42.4634,39.9117],[42.4765,39.9132],[42.503,39.9128],[42.536,39.9274],[42.5637,39.9519],[42.5347,39.9881],[42.51,40.0283],[42.4846,40.0588],[42.4457,40.0718],[42.4252,40.0763],[42.4085,40.0868],[42.3952,40.1075],[42.3787,40.125],[42.3491,40.1411],[42.3165,40.1496],[42.2309,40.1605],[42.2064,40.1812],[42.1856,40.2084],[42.1504,40.2405],[42.1812,40.2944],[42.3269,40.3319],[42.3906,40.3596],[42.4229,40.3799],[42.4568,40.3972],[42.4988,40.4113],[42.5382,40.4307],[42.5141,40.5305],[42.5306,40.5643],[42.537,40.5992],[42.5068,40.6398],[42.4667,40.6706],[42.4372,40.7034],[42.4163,40.7423],[42.3876,40.7698],[42.3516,40.7891],[42.2992,40.848],[42.2792,40.9249],[42.2208,40.9208],[42.1612,40.9109],[42.0923,40.9167],[42.0244,40.9119],[41.9896,40.8983],[41.9589,40.8775],[41.946,40.8385],[41.9526,40.7956],[41.9272,40.7551],[41.8874,40.7244],[41.868,40.6847],[41.8664,40.6397],[41.8208,40.5876],[41.7347,40.6236],[41.6566,40.6412],[41.5788,40.6243],[41.4935,40.5818],[41.4013,40.5556],[41.3334,40.601],[41.347,40.6864],[41.3727,40.7221],[41.3653,40.7547],[41.3293,40.7645],[41.2055,40.7792],[41.1274,40.8129],[41.0509,40.7784],[40.9444,40.709],[40.9016,40.6983],[40.8575,40.698],[40.8219,40.6866],[40.7918,40.6291],[40.7321,40.6158],[40.6914,40.6123],[40.6514,40.6041],[40.4894,40.5421],[40.5215,40.4815],[40.5497,40.3457],[40.5747,40.2838],[40.6366,40.2579],[40.7025,40.2465],[40.7311,40.2371],[40.7973,40.2322],[40.7998,40.2117],[40.7763,40.1761],[40.7478,40.1492],[40.6231,40.1154],[40.5671,40.0945],[40.525,40.0632],[40.481,40.0366],[40.4447,40.0322],[40.2814,40.0472],[40.2504,39.9939],[40.2422,39.9366],[40.2953,39.9158],[40.4669,39.9135],[40.533,39.8453],[40.5312,39.8177],[40.535,39.7902],[40.5493,39.7696],[40.5672,39.7519],[40.6056,39.7303],[40.6478,39.7168],[40.68,39.6877],[40.6571,39.6461],[40.6223,39.5944],[40.6188,39.5324],[40.7079,39.5223],[40.7973,39.5521],[40.8267,39.5689],[40.855,39.581],[40.8862,39.5666],[40.9831,39.4966],[41.0578,39.4688],[41.1183,39.4637],[41.1629,39.423],[41.2051,39.3657],[41.3652,39.3866],[41.4456,39.3718],[41.4828,39.353],[41.581,39.2782],[41.639,39.214],[41.6626,39.1988],[41.7477,39.1715],[41.8345,39.1688],[41.8732,39.1922],[41.9147,39.2108],[42.0373,39.2271],[42.0675,39.2486],[42.0867,39.2659],[42.1557,39.2991],[42.1839,39.3364],[42.1781,39.3815],[42.1987,39.4261],[42.3357,39.4793],[42.3736,39.4809],[42.4111,39.4859],[42.4313,39.4914]]]] } },
+    { type: "Feature", properties: { plate: 26, name: "Eskişehir" }, geometry: { type: "MultiPolygon", coordinates: [[[[30.7386,40.1678],[30.6361,40.1646],[30.5554,40.1146],[30.5372,40.0637],[30.5242,40.0116],[30.4907,39.9653],[30.4395,39.9362],[30.3852,39.9367],[30.3339,39.9197],[30.3189,39.8986],[30.3016,39.8791],[30.2717,39.8668],[30.2452,39.8497],[30.235,39.7477],[30.1917,39.6885],[30.1361,39.6388],[30.174,39.5905],[30.2845,39.5097],[30.312,39.4495],[30.3238,39.372],[30.4242,39.2695],[30.4418,39.2063],[30.4772,39.1996],[30.5049,39.1784],[30.521,39.1467],[30.5437,39.1241],[30.5606,39.1163],[30.5765,39.1066],[30.6212,39.0869],[30.668,39.093],[30.7033,39.106],[30.7698,39.1412],[30.833,39.1892],[30.8685,39.2109],[30.9186,39.1926],[30.9622,39.1546],[31.035,39.1791],[31.1072,39.2226],[31.1462,39.23],[31.1814,39.2484],[31.2165,39.2725],[31.2577,39.2819],[31.3281,39.2239],[31.3783,39.1357],[31.4528,39.0912],[31.5819,39.1019],[31.6596,39.1003],[31.6978,39.0926],[31.7571,39.0863],[31.8354,39.0979],[31.8505,39.1136],[31.858,39.1422],[31.8614,39.1714],[31.8853,39.1851],[31.9383,39.2045],[31.9485,39.215],[31.9561,39.2255],[31.978,39.2305],[31.9999,39.2327],[32.0236,39.2511],[32.0427,39.2751],[32.0358,39.3053],[32.0043,39.3223],[31.9833,39.3482],[31.9827,39.3865],[31.9796,39.392],[31.9752,39.4049],[31.985,39.4351],[31.9905,39.4652],[31.9912,39.4959],[31.9795,39.5168],[31.9651,39.5349],[31.9612,39.5662],[31.9469,39.5865],[31.897,39.6206],[31.8473,39.7259],[31.8408,39.7758],[31.8817,39.8118],[31.8795,39.8383],[31.8671,39.8453],[31.8525,39.862],[31.845,39.8761],[31.8116,39.8781],[31.7823,39.8905],[31.757,39.9203],[31.743,39.9514],[31.7387,39.9764],[31.7261,39.9941],[31.727,40.0235],[31.6812,40.0184],[31.6403,40.0401],[31.6041,40.03],[31.5315,40.0291],[31.4926,40.0221],[31.4598,40.0301],[31.4308,40.0236],[31.3891,40.0569],[31.3641,40.0545],[31.3389,40.0483],[31.2469,40.0577],[31.2197,40.0391],[31.1911,40.0241],[31.1647,40.0313],[31.1399,40.0436],[31.0816,40.0481],[30.9865,40.0165],[30.9457,40.0146],[30.9221,40.02],[30.9166,40.0409],[30.9067,40.1006],[30.8636,40.1428],[30.7988,40.1509],[30.7386,40.1678]]]] } },
+    { type: "Feature", properties: { plate: 27, name: "Gaziantep" }, geometry: { type: "MultiPolygon", coordinates: [[[[38.026,36.835],[38.0258,36.8353],[38.0212,36.8442],[38.019,36.858],[38.0212,36.8711],[38.0293,36.8768],[38.0406,36.8804],[38.0361,36.8887],[38.0187,36.9042],[38.0152,36.9135],[38.0131,36.9237],[38.0119,36.9492],[38.0079,36.9571],[37.9812,36.9768],[37.9669,36.9904],[37.9639,36.9988],[37.9641,37.014],[37.9766,37.0384],[37.9788,37.05],[37.9675,37.055],[37.9543,37.0528],[37.9308,37.0434],[37.9226,37.0419],[37.9129,37.0471],[37.9038,37.0553],[37.8938,37.0601],[37.8815,37.055],[37.8693,37.0651],[37.8682,37.0776],[37.8747,37.1068],[37.8762,37.1308],[37.8743,37.14],[37.8679,37.1518],[37.8507,37.1733],[37.8435,37.1866],[37.8406,37.203],[37.8442,37.2192],[37.8525,37.2265],[37.8617,37.2245],[37.8679,37.2133],[37.8747,37.2133],[37.8742,37.2343],[37.8669,37.2493],[37.8549,37.2599],[37.8406,37.2679],[37.8522,37.3038],[37.8577,37.3129],[37.865,37.3177],[37.8728,37.3209],[37.879,37.3251],[37.8856,37.3506],[37.8963,37.3638],[37.93,37.3908],[37.9744,37.4354],[37.9897,37.4447],[38.006,37.4452],[38.0229,37.4435],[38.0399,37.446],[37.9614,37.5005],[37.8436,37.5356],[37.7354,37.5367],[37.6251,37.5188],[37.623,37.4889],[37.6304,37.4596],[37.6173,37.4144],[37.5748,37.3919],[37.5117,37.393],[37.4492,37.3863],[37.3148,37.3493],[37.1902,37.3315],[37.1342,37.3097],[37.0432,37.2333],[36.9664,37.2532],[36.9377,37.3422],[36.8896,37.3667],[36.8422,37.3154],[36.7212,37.2712],[36.6761,37.2296],[36.6374,37.1827],[36.5827,37.0966],[36.513,37.0254],[36.4762,36.9973],[36.4519,36.9607],[36.5171,36.909],[36.5969,36.8802],[36.614,36.867],[36.6226,36.8467],[36.6352,36.8378],[36.6513,36.8363],[36.6595,36.8273],[36.6596,36.8272],[36.7142,36.869],[36.7969,36.9],[36.864,36.9362],[36.8743,37.0033],[36.9053,37.024],[36.9415,37.0085],[36.9725,36.9517],[37.0396,36.9413],[37.1171,36.9],[37.1997,36.8329],[37.241,36.7916],[37.272,36.8071],[37.3443,36.7761],[37.4373,36.7348],[37.5221,36.6736],[37.5934,36.7105],[37.6541,36.7321],[37.8197,36.7605],[37.98,36.8197],[38.0079,36.8258],[38.026,36.835]]]] } },
+    { type: "Feature", properties: { plate: 28, name: "Giresun" }, geometry: { type: "MultiPolygon", coordinates: [[[[38.1142,40.9582],[38.1134,40.9543],[38.1153,40.9194],[38.1011,40.8891],[38.0794,40.8705],[38.0629,40.8463],[38.0627,40.8145],[38.0797,40.786],[38.085,40.7523],[38.0805,40.7179],[38.0836,40.6844],[38.0792,40.6511],[38.0673,40.632],[38.0633,40.6052],[38.1583,40.5235],[38.2405,40.2852],[38.2382,40.2286],[38.2748,40.1861],[38.3311,40.1647],[38.3923,40.1283],[38.4542,40.0999],[38.5563,40.1194],[38.661,40.0935],[38.7616,40.0549],[38.8055,40.0525],[38.8925,40.0576],[38.9333,40.0713],[38.9424,40.1051],[38.9147,40.1322],[38.9057,40.167],[38.9102,40.2033],[38.9059,40.2369],[38.9071,40.2699],[38.929,40.2905],[39.0296,40.333],[39.0598,40.3519],[39.0655,40.3884],[39.043,40.3936],[39.0157,40.4147],[38.9879,40.4325],[38.8698,40.4542],[38.8423,40.4802],[38.8397,40.516],[38.8465,40.5608],[38.8487,40.5685],[38.8594,40.58],[38.8898,40.6037],[38.9086,40.63],[38.8955,40.6609],[38.9077,40.6867],[38.9398,40.7021],[38.9689,40.721],[38.9931,40.7262],[39.0124,40.7344],[39.0166,40.7486],[39.0244,40.7605],[39.1444,40.7714],[39.126,40.8096],[39.1174,40.9011],[39.1201,40.9512],[39.1483,41.0725],[39.1312,41.0615],[39.1223,41.0573],[39.0418,41.0434],[38.9275,41.0426],[38.9084,41.0377],[38.8923,41.0271],[38.8758,41.0189],[38.8059,41.0078],[38.7837,41.0018],[38.7791,40.9992],[38.7754,40.9934],[38.7551,40.9753],[38.7433,40.9725],[38.7331,40.9661],[38.7246,40.9592],[38.7176,40.9548],[38.707,40.9529],[38.6878,40.9527],[38.6779,40.9486],[38.6709,40.9545],[38.6554,40.9711],[38.6493,40.9753],[38.6371,40.976],[38.6047,40.9685],[38.5916,40.9626],[38.5549,40.935],[38.5394,40.9269],[38.4637,40.9238],[38.4523,40.9167],[38.4268,40.9186],[38.3893,40.9269],[38.3512,40.9179],[38.3309,40.9179],[38.2874,40.9472],[38.2683,40.9504],[38.2241,40.9411],[38.2014,40.9414],[38.1613,40.9521],[38.1142,40.9582]]]] } },
+    { type: "Feature", properties: { plate: 29, name: "Gümüşhane" }, geometry: { type: "MultiPolygon", coordinates: [[[[39.834,40.561],[39.7859,40.6222],[39.7173,40.6574],[39.6863,40.6395],[39.6747,40.5988],[39.6591,40.5865],[39.6385,40.5819],[39.5789,40.5878],[39.3452,40.6596],[39.2786,40.7125],[39.2635,40.7711],[39.2213,40.7898],[39.2048,40.7719],[39.1842,40.7587],[39.1627,40.7596],[39.1444,40.7714],[39.0244,40.7605],[39.0166,40.7486],[39.0124,40.7344],[38.9931,40.7262],[38.9689,40.721],[38.9398,40.7021],[38.9077,40.6867],[38.8955,40.6609],[38.9086,40.63],[38.8898,40.6037],[38.8594,40.58],[38.8487,40.5685],[38.8465,40.5608],[38.8397,40.516],[38.8423,40.4802],[38.8698,40.4542],[38.9879,40.4325],[39.0157,40.4147],[39.043,40.3936],[39.0655,40.3884],[39.0598,40.3519],[39.0296,40.333],[38.929,40.2905],[38.9071,40.2699],[38.9059,40.2369],[38.9102,40.2033],[38.9057,40.167],[38.9147,40.1322],[38.9424,40.1051],[38.9333,40.0713],[38.9608,40.0585],[38.989,40.0488],[39.0197,40.0455],[39.0496,40.0391],[39.1583,39.9901],[39.1971,39.9783],[39.2331,39.9607],[39.2489,39.9437],[39.2665,39.9303],[39.327,39.9163],[39.3854,39.8933],[39.447,39.888],[39.5058,39.8926],[39.5647,39.8892],[39.622,39.8938],[39.6764,39.9147],[39.7879,39.9348],[39.8317,39.9709],[39.8691,40.0148],[39.8328,40.0769],[39.8115,40.144],[39.8163,40.177],[39.8276,40.2092],[39.86,40.2669],[39.8674,40.4136],[39.834,40.561]]]] } },
+    { type: "Feature", properties: { plate: 30, name: "Hakkari" }, geometry: { type: "MultiPolygon", coordinates: [[[[43.3625,37.3039],[43.376,37.2955],[43.4168,37.2792],[43.4633,37.2487],[43.4796,37.2434],[43.4924,37.2448],[43.5171,37.2523],[43.5295,37.2539],[43.5424,37.2523],[43.5506,37.2487],[43.5689,37.2377],[43.5942,37.2295],[43.6183,37.227],[43.7208,37.2326],[43.7469,37.2306],[43.7706,37.2258],[43.7806,37.2204],[43.8021,37.2036],[43.8094,37.1997],[43.822,37.2024],[43.84,37.2171],[43.8936,37.2249],[43.9242,37.2531],[43.9538,37.2875],[43.9904,37.3125],[44.0356,37.3182],[44.069,37.3137],[44.088,37.3112],[44.1845,37.2792],[44.2069,37.2675],[44.2232,37.2541],[44.235,37.2368],[44.2435,37.2138],[44.2485,37.1919],[44.2496,37.1794],[44.2483,37.1697],[44.2401,37.158],[44.2302,37.1543],[44.2188,37.1526],[44.206,37.1466],[44.1892,37.1292],[44.1806,37.1089],[44.18,37.0876],[44.1875,37.0669],[44.2278,36.9941],[44.2343,36.9837],[44.2433,36.9778],[44.2848,36.9692],[44.2972,36.9699],[44.3066,36.9772],[44.3159,36.994],[44.316,36.994],[44.3161,36.994],[44.3161,36.9941],[44.3316,37.0155],[44.3352,37.0312],[44.3431,37.0424],[44.4281,37.0648],[44.4544,37.0763],[44.4792,37.092],[44.5034,37.1166],[44.5394,37.1437],[44.5782,37.1664],[44.6103,37.1784],[44.6289,37.179],[44.7338,37.1672],[44.7538,37.1592],[44.7661,37.1419],[44.7723,37.1612],[44.7661,37.1781],[44.7567,37.1952],[44.7535,37.2153],[44.7605,37.2332],[44.773,37.2417],[44.7868,37.2481],[44.7985,37.2603],[44.8016,37.2927],[44.779,37.3138],[44.7214,37.3433],[44.713,37.3568],[44.7071,37.371],[44.698,37.38],[44.6616,37.3757],[44.6522,37.384],[44.6382,37.4126],[44.6228,37.4219],[44.5856,37.4247],[44.5721,37.4308],[44.5659,37.4472],[44.5793,37.477],[44.5752,37.4938],[44.5752,37.494],[44.5699,37.5144],[44.5718,37.5392],[44.5783,37.5639],[44.5874,37.584],[44.5835,37.6011],[44.561,37.6147],[44.5409,37.6327],[44.5453,37.663],[44.5535,37.6718],[44.5882,37.694],[44.5984,37.707],[44.5961,37.7164],[44.5594,37.752],[44.5344,37.7692],[44.5065,37.7793],[44.4792,37.7769],[44.4665,37.7711],[44.4505,37.7666],[44.4364,37.7678],[44.4291,37.7791],[44.4298,37.7851],[44.4338,37.8011],[44.433,37.8061],[44.4255,37.8108],[44.419,37.8097],[44.4121,37.8077],[44.4044,37.8097],[44.3932,37.8211],[44.3876,37.8334],[44.3838,37.845],[44.3779,37.8541],[44.3671,37.8602],[44.3312,37.874],[44.3192,37.8769],[44.2544,37.8708],[44.2196,37.8753],[44.2021,37.8972],[44.205,37.9048],[44.2045,37.9048],[44.1169,37.913],[44.0443,37.9012],[44.0037,37.8452],[43.9778,37.7913],[43.923,37.7644],[43.8589,37.754],[43.7944,37.7547],[43.7533,37.7679],[43.7114,37.773],[43.6825,37.7639],[43.6548,37.7517],[43.5212,37.7347],[43.3868,37.7336],[43.3803,37.6425],[43.3597,37.5846],[43.3762,37.5309],[43.4093,37.4648],[43.401,37.378],[43.376,37.3248],[43.3625,37.3039]]]] } },
+    { type: "Feature", properties: { plate: 31, name: "Hatay" }, geometry: { type: "MultiPolygon", coordinates: [[[[36.6596,36.8272],[36.6595,36.8273],[36.6513,36.8363],[36.6352,36.8378],[36.6226,36.8467],[36.614,36.867],[36.5969,36.8802],[36.5171,36.909],[36.4519,36.9607],[36.402,36.9556],[36.3521,36.9566],[36.3136,36.976],[36.2806,37.0043],[36.2353,37.0154],[36.188,37.0054],[36.1462,37.0063],[36.1053,37.0155],[36.0616,37.0097],[36.039,37.0167],[36.0176,37.02],[35.9993,37.0105],[35.917,36.9348],[35.9164,36.8934],[35.9325,36.873],[35.9509,36.891],[35.985,36.9156],[36.0203,36.9263],[36.0586,36.9184],[36.0955,36.8971],[36.1299,36.8693],[36.189,36.8017],[36.1987,36.7846],[36.2025,36.7692],[36.2019,36.7063],[36.2025,36.6994],[36.2066,36.6887],[36.2116,36.6799],[36.2156,36.6705],[36.2162,36.6578],[36.2112,36.6424],[36.2012,36.622],[36.1891,36.604],[36.1787,36.5963],[36.1629,36.5934],[36.0554,36.5383],[36.0449,36.5377],[36.0374,36.527],[35.9902,36.4796],[35.9818,36.4757],[35.9424,36.4643],[35.9356,36.4595],[35.9308,36.4546],[35.9187,36.4482],[35.9133,36.4272],[35.9085,36.4182],[35.8994,36.4123],[35.8818,36.4047],[35.8735,36.3977],[35.8618,36.3735],[35.8568,36.3698],[35.845,36.369],[35.8342,36.3663],[35.8245,36.3611],[35.8159,36.353],[35.7887,36.3203],[35.7874,36.3043],[35.7986,36.2817],[35.8108,36.2696],[35.8269,36.2576],[35.841,36.2445],[35.8522,36.2135],[35.8645,36.1968],[35.8783,36.1821],[35.9484,36.0878],[35.9754,36.0185],[35.9767,36.001],[35.9661,35.9936],[35.9227,35.9316],[35.9114,35.9179],[35.9113,35.9178],[35.9208,35.9151],[35.9406,35.9184],[35.9607,35.9244],[35.9803,35.9269],[35.9928,35.9153],[35.9931,35.9024],[35.9901,35.8893],[35.9924,35.8773],[36.0039,35.8692],[36.0194,35.8662],[36.0507,35.8654],[36.0803,35.8542],[36.1385,35.8198],[36.1553,35.8222],[36.1576,35.8226],[36.1688,35.8521],[36.1749,35.9227],[36.1969,35.9517],[36.229,35.9612],[36.2531,35.9556],[36.269,35.9587],[36.2774,35.994],[36.2775,35.9942],[36.2973,36.0007],[36.3367,35.9882],[36.358,35.994],[36.3555,36.0224],[36.3586,36.167],[36.3605,36.1817],[36.3663,36.1892],[36.3745,36.1959],[36.3758,36.2045],[36.3614,36.2182],[36.373,36.2276],[36.3856,36.2155],[36.3981,36.2082],[36.4119,36.2045],[36.4393,36.2014],[36.4452,36.1999],[36.4507,36.1999],[36.4592,36.2031],[36.464,36.2088],[36.4653,36.2159],[36.4689,36.2224],[36.4802,36.2255],[36.4986,36.2279],[36.5744,36.2184],[36.5935,36.2181],[36.6643,36.229],[36.67,36.2373],[36.6691,36.2599],[36.6655,36.274],[36.6585,36.2905],[36.6488,36.3057],[36.6486,36.3059],[36.6371,36.3168],[36.6207,36.322],[36.5878,36.3248],[36.5776,36.3329],[36.5822,36.3331],[36.5878,36.3421],[36.5943,36.3571],[36.5945,36.3659],[36.5934,36.3735],[36.5906,36.3804],[36.5857,36.387],[36.5808,36.3899],[36.565,36.3956],[36.558,36.4006],[36.5527,36.4082],[36.5338,36.4625],[36.5312,36.479],[36.5355,36.494],[36.5653,36.5325],[36.57,36.5757],[36.5693,36.6201],[36.5828,36.6624],[36.5947,36.6858],[36.5981,36.7055],[36.5989,36.7248],[36.6033,36.747],[36.6157,36.7666],[36.632,36.7843],[36.6433,36.8036],[36.6399,36.8281],[36.6492,36.8286],[36.6586,36.8275],[36.6596,36.8272]]]] } },
+    { type: "Feature", properties: { plate: 32, name: "Isparta" }, geometry: { type: "MultiPolygon", coordinates: [[[[31.2544,38.423],[31.2295,38.429],[31.207,38.4396],[31.1622,38.4908],[31.1442,38.5033],[31.1238,38.5124],[31.0996,38.5152],[31.0797,38.5019],[31.0304,38.4598],[30.9056,38.3805],[30.8447,38.3249],[30.7811,38.2777],[30.7051,38.2545],[30.6831,38.2539],[30.6623,38.25],[30.6055,38.2137],[30.5665,38.2056],[30.5302,38.193],[30.4812,38.1495],[30.429,38.1122],[30.3903,38.0946],[30.3,38.0244],[30.2322,37.9932],[30.2111,37.9619],[30.1977,37.8584],[30.1653,37.8104],[30.0934,37.7792],[30.0153,37.7765],[30.0291,37.7433],[30.0486,37.7141],[30.0862,37.7032],[30.1235,37.7168],[30.2336,37.7813],[30.2627,37.7929],[30.29,37.808],[30.3366,37.8461],[30.3864,37.8182],[30.4308,37.7685],[30.47,37.7354],[30.5129,37.7093],[30.5833,37.6994],[30.6463,37.7],[30.7065,37.6706],[30.7393,37.59],[30.7664,37.5421],[30.8268,37.4689],[30.8359,37.4513],[30.8546,37.4334],[30.8701,37.4354],[30.9002,37.4321],[30.9205,37.409],[30.935,37.3803],[31.0235,37.3514],[31.1265,37.3801],[31.1807,37.3867],[31.2274,37.4139],[31.2777,37.4278],[31.3319,37.4222],[31.3585,37.4776],[31.3677,37.5376],[31.3538,37.5738],[31.3293,37.6039],[31.3292,37.6389],[31.3727,37.6492],[31.4051,37.6815],[31.4093,37.7291],[31.4507,37.7807],[31.4482,37.8592],[31.4252,37.9376],[31.4471,38.0028],[31.4795,38.0187],[31.5496,38.0397],[31.6136,38.072],[31.6207,38.1047],[31.5483,38.1548],[31.5253,38.1809],[31.4914,38.1926],[31.4219,38.2381],[31.3614,38.3],[31.2833,38.3501],[31.2544,38.423]]]] } },
+    { type: "Feature", properties: { plate: 33, name: "Mersin" }, geometry: { type: "MultiPolygon", coordinates: [[[[34.9333,36.7275],[34.934,36.7293],[34.9868,36.7591],[35.029,36.7683],[35.0667,36.7957],[35.0711,36.8228],[35.0672,36.8507],[35.0525,36.907],[35.0522,36.9635],[35.0817,37.026],[35.0432,37.0577],[34.9821,37.0555],[34.935,37.0837],[34.9129,37.141],[34.9098,37.2432],[34.8619,37.2727],[34.8244,37.3284],[34.7916,37.3877],[34.7215,37.4014],[34.6519,37.3783],[34.6209,37.3625],[34.5875,37.3533],[34.5122,37.352],[34.5001,37.3199],[34.4819,37.3089],[34.4288,37.2947],[34.3986,37.2822],[34.3539,37.248],[34.2979,37.2254],[34.2104,37.2013],[34.1832,37.1879],[34.149,37.155],[34.0786,37.133],[34.0027,37.1288],[33.9668,37.1162],[33.8706,37.0577],[33.7975,37.0471],[33.7612,37.0314],[33.7366,37.0287],[33.7021,37.0372],[33.6194,37.0318],[33.54,37.0066],[33.4132,36.9972],[33.3719,36.988],[33.3359,36.9705],[33.3036,36.9469],[33.27,36.928],[33.2327,36.918],[33.2007,36.8871],[33.1888,36.8426],[33.1673,36.8134],[33.1312,36.8211],[33.1237,36.8334],[33.1212,36.8404],[33.1079,36.8464],[33.0786,36.8369],[33.0336,36.8141],[33.0172,36.8097],[32.9795,36.8038],[32.982,36.7716],[33.0028,36.7514],[33.0193,36.7283],[33.0284,36.699],[33.0435,36.6727],[33.0684,36.6632],[33.0869,36.6439],[33.1084,36.6296],[33.1612,36.6185],[33.2068,36.5909],[33.231,36.5607],[33.2048,36.5344],[33.1664,36.546],[33.1318,36.5613],[33.1164,36.5585],[33.1022,36.5535],[33.0881,36.5216],[33.0762,36.4855],[33.0524,36.4666],[33.0194,36.4625],[32.9582,36.4644],[32.8994,36.4533],[32.8425,36.4328],[32.7824,36.4316],[32.7173,36.445],[32.6517,36.438],[32.6426,36.3794],[32.6472,36.2693],[32.6313,36.2213],[32.6148,36.1964],[32.602,36.1693],[32.5978,36.1441],[32.5903,36.1199],[32.5751,36.1011],[32.5718,36.094],[32.6323,36.062],[32.6707,36.0467],[32.7606,36.0295],[32.8037,36.0272],[32.8567,36.061],[32.8652,36.0718],[32.8767,36.0751],[32.9409,36.1035],[32.9605,36.1027],[33.0269,36.0893],[33.0584,36.0906],[33.0711,36.0893],[33.0804,36.0859],[33.0838,36.0827],[33.0877,36.0828],[33.0986,36.0893],[33.1122,36.1034],[33.1214,36.1191],[33.134,36.1318],[33.1569,36.137],[33.1672,36.135],[33.1886,36.1258],[33.2009,36.1234],[33.2124,36.1241],[33.242,36.1308],[33.2865,36.13],[33.3084,36.1322],[33.3268,36.1501],[33.3478,36.1479],[33.3865,36.137],[33.4011,36.1398],[33.4367,36.1547],[33.4583,36.1581],[33.4783,36.156],[33.521,36.1466],[33.5442,36.1445],[33.5442,36.137],[33.5305,36.1308],[33.5523,36.1275],[33.5741,36.1448],[33.5965,36.1688],[33.6199,36.1855],[33.6341,36.1903],[33.6472,36.1926],[33.6566,36.1887],[33.6603,36.1749],[33.6853,36.1432],[33.6882,36.137],[33.6939,36.1441],[33.7004,36.1711],[33.7053,36.1817],[33.7356,36.2087],[33.7428,36.2134],[33.777,36.225],[33.7869,36.2264],[33.7991,36.2307],[33.8137,36.2517],[33.8247,36.2599],[33.8218,36.264],[33.8187,36.2658],[33.811,36.2674],[33.8279,36.2717],[33.8377,36.2804],[33.8555,36.3049],[33.8711,36.3149],[33.8831,36.3125],[33.8953,36.3056],[33.9104,36.3015],[33.9309,36.2905],[33.946,36.2652],[33.9509,36.2377],[33.9414,36.2196],[33.9414,36.2134],[33.959,36.2136],[33.9644,36.2205],[33.9652,36.2324],[33.9688,36.2469],[33.9771,36.2594],[33.9959,36.2795],[33.9983,36.286],[33.9948,36.2833],[33.9893,36.2817],[33.9998,36.3029],[34.0272,36.3108],[34.0578,36.3159],[34.0779,36.3288],[34.0799,36.3555],[34.0749,36.3873],[34.0773,36.4139],[34.112,36.4296],[34.1475,36.4592],[34.1682,36.4669],[34.1777,36.4734],[34.1817,36.4834],[34.1904,36.4985],[34.2762,36.587],[34.3075,36.6086],[34.4152,36.6629],[34.5032,36.7267],[34.5339,36.7404],[34.5391,36.7446],[34.5488,36.7634],[34.5547,36.7676],[34.5851,36.7813],[34.5965,36.7851],[34.6267,36.7888],[34.6929,36.8139],[34.7359,36.8217],[34.765,36.8086],[34.7708,36.8161],[34.8525,36.7813],[34.8936,36.746],[34.9079,36.7404],[34.9026,36.7245],[34.9004,36.7199],[34.9139,36.7247],[34.9299,36.7274],[34.9333,36.7275]]]] } },
+    { type: "Feature", properties: { plate: 34, name: "İstanbul" }, geometry: { type: "MultiPolygon", coordinates: [[[[28.203,41.5402],[28.203,41.5401],[28.1575,41.4921],[28.1557,41.4922],[28.1821,41.421],[28.193,41.3553],[28.163,41.2732],[28.1493,41.213],[28.163,41.1365],[28.1747,41.0808],[28.1817,41.0777],[28.1995,41.0786],[28.2367,41.0852],[28.245,41.083],[28.2559,41.0732],[28.264,41.0709],[28.2981,41.0709],[28.3328,41.0666],[28.4022,41.0473],[28.4353,41.0429],[28.4607,41.0329],[28.5125,40.9927],[28.5414,40.9896],[28.5536,40.9984],[28.5603,41.0123],[28.5628,41.0267],[28.5625,41.0368],[28.5545,41.0537],[28.5329,41.0706],[28.5278,41.0852],[28.5519,41.0805],[28.5724,41.0665],[28.5825,41.0464],[28.5755,41.0237],[28.5848,41.022],[28.5918,41.0189],[28.6035,41.0095],[28.5952,40.978],[28.6253,40.9684],[28.7453,40.9802],[28.7702,40.9793],[28.781,40.9719],[28.786,40.9656],[28.7976,40.9626],[28.822,40.9616],[28.8338,40.9639],[28.84,40.9677],[28.8442,40.9719],[28.8499,40.9753],[28.8595,40.978],[28.8993,40.9843],[28.9175,40.9936],[28.9284,40.9958],[28.9317,40.9977],[28.9404,41.0068],[28.9461,41.0095],[28.9518,41.0086],[28.9605,41.003],[28.9819,41.0017],[28.9865,41.0026],[28.9924,41.0082],[28.9925,41.0137],[28.9896,41.0171],[28.9885,41.0216],[28.988,41.0258],[28.9895,41.0311],[28.9973,41.0399],[29.0055,41.0445],[29.0233,41.0488],[29.0315,41.0539],[29.0422,41.0664],[29.0515,41.0818],[29.0586,41.0996],[29.0623,41.1193],[29.0645,41.1196],[29.0687,41.1245],[29.0706,41.1302],[29.0657,41.133],[29.0637,41.1345],[29.0574,41.1415],[29.0514,41.1498],[29.0433,41.1577],[29.0408,41.1643],[29.0523,41.1671],[29.0693,41.1747],[29.0868,41.1919],[29.0999,41.2104],[29.1092,41.2353],[29.0939,41.2464],[29.0687,41.2537],[29.0452,41.2564],[29.0383,41.2543],[29.032,41.2449],[29.0243,41.2428],[29.0178,41.2437],[29.0151,41.2458],[29.0129,41.2481],[29.0076,41.2497],[28.9085,41.2665],[28.6008,41.3775],[28.3843,41.4475],[28.2328,41.519],[28.203,41.5402]]],[[[29.2537,40.8755],[29.2878,40.9094],[29.3402,40.9433],[29.3652,40.9527],[29.407,40.9841],[29.4509,41.0086],[29.5037,41.005],[29.551,40.9741],[29.5818,40.9253],[29.611,40.9069],[29.6466,40.9099],[29.6638,40.9328],[29.6727,40.9569],[29.7306,40.9878],[29.7948,41.0067],[29.8494,41.0294],[29.8774,41.0798],[29.8737,41.1114],[29.8634,41.142],[29.8846,41.149],[29.6188,41.1789],[29.4196,41.2143],[29.2318,41.2407],[29.2162,41.2394],[29.2062,41.2292],[29.2,41.2292],[29.1697,41.2331],[29.1301,41.2119],[29.0926,41.1804],[29.0691,41.1528],[29.0906,41.1409],[29.0881,41.1289],[29.0762,41.1144],[29.0623,41.0763],[29.0462,41.0555],[29.0261,41.0383],[29.0076,41.0305],[29.0147,41.0175],[29.0183,41.0039],[29.0233,40.9934],[29.0348,40.9896],[29.0329,40.9857],[29.0329,40.9846],[29.0321,40.984],[29.0281,40.9821],[29.0832,40.9597],[29.1035,40.9467],[29.1243,40.9269],[29.1448,40.9141],[29.2013,40.8939],[29.2205,40.8797],[29.241,40.8826],[29.2537,40.8755]]]] } },
+    { type: "Feature", properties: { plate: 35, name: "İzmir" }, geometry: { type: "MultiPolygon", coordinates: [[[[27.2618,37.8884],[27.2636,37.8881],[27.3293,37.8895],[27.41,37.9143],[27.5323,37.9778],[27.5832,37.9844],[27.8293,37.9691],[28.0611,38.0183],[28.2541,38.0201],[28.2902,38.0315],[28.3246,38.0468],[28.3642,38.0559],[28.4046,38.0612],[28.5623,38.1062],[28.5174,38.1593],[28.4758,38.2621],[28.4478,38.2899],[28.4032,38.2993],[28.38,38.3008],[28.345,38.3088],[28.3251,38.3274],[28.2994,38.3311],[28.261,38.3216],[28.1629,38.3088],[28.1357,38.3592],[28.0954,38.3946],[28.0654,38.3873],[28.0344,38.3883],[27.9864,38.4051],[27.9389,38.4068],[27.9224,38.3752],[27.8989,38.3421],[27.8483,38.3329],[27.8061,38.3634],[27.7977,38.3785],[27.7858,38.4102],[27.7778,38.4247],[27.6999,38.453],[27.6303,38.4915],[27.6135,38.5468],[27.5833,38.5699],[27.5628,38.5727],[27.4506,38.5705],[27.3803,38.5759],[27.3213,38.6157],[27.2947,38.6846],[27.2715,38.7078],[27.2559,38.7131],[27.2284,38.7348],[27.2332,38.7558],[27.2608,38.792],[27.291,38.8166],[27.3094,38.8497],[27.3153,38.8884],[27.3271,38.9249],[27.3821,38.9545],[27.4452,38.9744],[27.5101,39.0168],[27.5377,39.0413],[27.5453,39.0939],[27.5081,39.1478],[27.4918,39.1836],[27.4588,39.3037],[27.4201,39.3803],[27.3907,39.4247],[27.3475,39.4558],[27.291,39.4645],[27.1097,39.374],[27.0781,39.3644],[27.05,39.3512],[27.0301,39.3303],[27.0133,39.3071],[26.9936,39.2908],[26.7787,39.17],[26.8098,39.1575],[26.8237,39.1491],[26.8519,39.1213],[26.8753,39.0909],[26.8831,39.0716],[26.8731,39.0629],[26.854,39.0584],[26.8291,39.0473],[26.8064,39.0339],[26.7936,39.022],[26.8096,39.0216],[26.8147,39.022],[26.8147,39.0151],[26.7992,38.9984],[26.7972,38.9731],[26.8065,38.9501],[26.8252,38.9401],[26.8401,38.9359],[26.8556,38.9175],[26.8662,38.9134],[26.8792,38.9162],[26.9134,38.932],[26.9246,38.9401],[26.9343,38.9309],[26.9417,38.9319],[26.95,38.937],[26.9624,38.9401],[26.9675,38.9369],[26.9775,38.9228],[26.9826,38.9196],[27.0012,38.9199],[27.0129,38.9221],[27.0241,38.9282],[27.0413,38.9401],[27.0578,38.9298],[27.0579,38.9185],[27.0413,38.8917],[27.0627,38.8869],[27.055,38.8711],[27.0335,38.8605],[27.0134,38.8712],[27.0039,38.8629],[26.9909,38.855],[26.9754,38.8486],[26.9588,38.8445],[26.9714,38.8192],[26.9608,38.8061],[26.9439,38.8087],[26.9377,38.8302],[26.8972,38.8166],[26.9045,38.8098],[26.9246,38.7817],[26.9314,38.7893],[26.9338,38.779],[26.9351,38.7705],[26.9344,38.7629],[26.9314,38.7551],[26.923,38.7622],[26.9153,38.76],[26.9071,38.7536],[26.8972,38.7483],[26.9035,38.7346],[26.8885,38.734],[26.8745,38.7375],[26.8516,38.7457],[26.8418,38.7458],[26.8306,38.7473],[26.8289,38.7483],[26.8275,38.7502],[26.8237,38.7537],[26.8182,38.7554],[26.7889,38.7394],[26.7376,38.7308],[26.7191,38.7209],[26.7258,38.7027],[26.7332,38.6896],[26.7532,38.6663],[26.7424,38.6662],[26.7337,38.6636],[26.7261,38.659],[26.7191,38.6527],[26.737,38.6425],[26.7464,38.6387],[26.7595,38.6384],[26.7576,38.6338],[26.7551,38.6225],[26.7532,38.6179],[26.7669,38.619],[26.7793,38.6177],[26.801,38.6117],[26.7981,38.6077],[26.7936,38.5974],[26.8137,38.5976],[26.825,38.6048],[26.8342,38.6082],[26.8489,38.5974],[26.8446,38.5854],[26.8394,38.5608],[26.8352,38.549],[26.8512,38.5429],[26.8651,38.5355],[26.8778,38.5264],[26.8898,38.5149],[26.8898,38.508],[26.8742,38.5075],[26.847,38.5207],[26.8293,38.5313],[26.8147,38.5428],[26.8269,38.5262],[26.8493,38.5124],[26.8592,38.5075],[26.884,38.5012],[26.8976,38.4947],[26.9279,38.456],[26.9451,38.4466],[26.9354,38.4349],[26.9386,38.4342],[26.9596,38.442],[27.0223,38.4625],[27.0491,38.4632],[27.0747,38.4534],[27.0833,38.4567],[27.117,38.4539],[27.1362,38.4609],[27.1431,38.4534],[27.1502,38.4587],[27.1545,38.4594],[27.1642,38.4534],[27.1642,38.4466],[27.1354,38.4337],[27.1118,38.414],[27.0886,38.4022],[27.0612,38.4125],[27.0558,38.4085],[27.0544,38.4125],[27.0425,38.4076],[27.033,38.409],[27.0236,38.4121],[27.0134,38.4125],[27.0075,38.4097],[26.9945,38.4008],[26.9898,38.3989],[26.9738,38.3962],[26.9246,38.3777],[26.8455,38.3715],[26.8276,38.3673],[26.8098,38.3601],[26.7951,38.3586],[26.7874,38.3715],[26.783,38.3694],[26.7715,38.3661],[26.7669,38.3641],[26.7482,38.4047],[26.7367,38.4229],[26.7254,38.4329],[26.7191,38.4329],[26.7191,38.4261],[26.7024,38.4302],[26.6873,38.4197],[26.676,38.4023],[26.6707,38.3852],[26.6775,38.3436],[26.6936,38.3344],[26.7,38.3258],[26.6946,38.3132],[26.6731,38.3072],[26.6571,38.3288],[26.6397,38.3746],[26.6283,38.3901],[26.6221,38.4053],[26.6118,38.4162],[26.5881,38.4187],[26.5964,38.4332],[26.605,38.4448],[26.6052,38.4538],[26.5881,38.4609],[26.5993,38.4664],[26.6109,38.4684],[26.6213,38.4666],[26.6292,38.4609],[26.6331,38.4619],[26.6367,38.4634],[26.6433,38.4677],[26.638,38.4777],[26.6375,38.4872],[26.638,38.497],[26.6359,38.508],[26.6304,38.5192],[26.6248,38.5246],[26.618,38.5286],[26.6092,38.5353],[26.584,38.5609],[26.5608,38.59],[26.5558,38.6054],[26.5396,38.6237],[26.5056,38.6527],[26.4876,38.6643],[26.4656,38.6727],[26.4406,38.6777],[26.4141,38.6794],[26.403,38.6773],[26.381,38.6684],[26.366,38.6663],[26.3563,38.6617],[26.3511,38.6502],[26.349,38.6355],[26.3486,38.6213],[26.3601,38.5836],[26.3591,38.577],[26.3607,38.5709],[26.3731,38.5407],[26.3758,38.5286],[26.3696,38.5353],[26.3999,38.4996],[26.4038,38.4875],[26.3972,38.4687],[26.3882,38.4584],[26.3879,38.4543],[26.4072,38.4534],[26.4142,38.4563],[26.422,38.4697],[26.431,38.4739],[26.4408,38.4728],[26.4539,38.4632],[26.4743,38.4573],[26.4989,38.4396],[26.513,38.4329],[26.4979,38.4073],[26.4891,38.4062],[26.4769,38.4167],[26.4515,38.4261],[26.4515,38.4187],[26.468,38.4076],[26.4771,38.3869],[26.4759,38.3669],[26.4622,38.3579],[26.4546,38.3548],[26.4292,38.3408],[26.4175,38.3367],[26.4053,38.3354],[26.3989,38.3355],[26.3833,38.3436],[26.3833,38.3367],[26.3919,38.325],[26.385,38.3184],[26.3706,38.3161],[26.3561,38.3169],[26.3498,38.3201],[26.3483,38.3248],[26.3464,38.3288],[26.3386,38.3305],[26.3306,38.3308],[26.3245,38.3317],[26.3193,38.3336],[26.3143,38.3367],[26.3228,38.3455],[26.3259,38.3549],[26.3252,38.3655],[26.3211,38.3777],[26.3157,38.3735],[26.3118,38.3712],[26.3093,38.3671],[26.3076,38.3579],[26.2941,38.3699],[26.2861,38.359],[26.2889,38.3406],[26.3076,38.3305],[26.3076,38.3231],[26.2859,38.3187],[26.2764,38.3005],[26.2654,38.2867],[26.2388,38.2958],[26.2331,38.2803],[26.2346,38.2738],[26.2866,38.2611],[26.2961,38.2566],[26.3286,38.2351],[26.354,38.2283],[26.375,38.2348],[26.3833,38.2617],[26.3901,38.2617],[26.3949,38.2517],[26.3945,38.2429],[26.3919,38.234],[26.3901,38.2238],[26.4121,38.2064],[26.4175,38.2002],[26.4242,38.2002],[26.422,38.2048],[26.4175,38.2206],[26.4422,38.212],[26.4666,38.1906],[26.4917,38.174],[26.5193,38.1797],[26.5155,38.1657],[26.5173,38.1557],[26.5238,38.1474],[26.5433,38.1305],[26.5569,38.1223],[26.5671,38.124],[26.5676,38.145],[26.5768,38.1327],[26.5886,38.1082],[26.595,38.1039],[26.6071,38.1083],[26.6122,38.1179],[26.6122,38.1308],[26.6092,38.145],[26.6155,38.145],[26.6177,38.1423],[26.6182,38.1415],[26.6229,38.1387],[26.6359,38.2036],[26.6458,38.2067],[26.7083,38.207],[26.7273,38.2103],[26.7446,38.2156],[26.7603,38.2167],[26.7737,38.207],[26.7715,38.1775],[26.7761,38.1652],[26.7936,38.1723],[26.803,38.1624],[26.825,38.145],[26.8352,38.1313],[26.8416,38.1182],[26.8464,38.1034],[26.8474,38.0888],[26.8421,38.0761],[26.8649,38.0404],[26.8731,38.0351],[26.8815,38.0384],[26.8856,38.0456],[26.8885,38.0529],[26.8934,38.0562],[26.9001,38.0568],[26.9177,38.0624],[26.9492,38.0674],[26.9754,38.0653],[27.027,38.0494],[27.0559,38.0457],[27.0647,38.0406],[27.0679,38.0251],[27.0702,38.02],[27.0759,38.017],[27.0838,38.0156],[27.0918,38.0153],[27.1019,38.0127],[27.1076,38.0067],[27.1112,37.9997],[27.1164,37.9941],[27.1411,37.986],[27.1775,37.9809],[27.214,37.9809],[27.2391,37.9879],[27.2663,37.9514],[27.2748,37.929],[27.2604,37.919],[27.2647,37.9098],[27.2654,37.9017],[27.2634,37.8935],[27.2618,37.8884]]]] } },
+    { type: "Feature", properties: { plate: 36, name: "Kars" }, geometry: { type: "MultiPolygon", coordinates: [[[[43.4404,41.1066],[43.3755,41.0899],[43.2749,41.0468],[43.112,40.9941],[42.9491,40.9414],[42.8294,40.8935],[42.8054,40.8169],[42.7911,40.6971],[42.7719,40.6253],[42.6522,40.6157],[42.537,40.5992],[42.5306,40.5643],[42.5141,40.5305],[42.5382,40.4307],[42.4988,40.4113],[42.4568,40.3972],[42.4229,40.3799],[42.3906,40.3596],[42.3269,40.3319],[42.1812,40.2944],[42.1504,40.2405],[42.1856,40.2084],[42.2064,40.1812],[42.2309,40.1605],[42.3165,40.1496],[42.3491,40.1411],[42.3787,40.125],[42.3952,40.1075],[42.4085,40.0868],[42.4252,40.0763],[42.4457,40.0718],[42.4846,40.0588],[42.51,40.0283],[42.5347,39.9881],[42.5637,39.9519],[42.7573,39.9221],[43.0645,39.9893],[43.1735,39.9885],[43.2196,39.9793],[43.2653,39.9866],[43.3184,39.9693],[43.3563,40.0026],[43.3563,40.0409],[43.409,40.0601],[43.5335,40.0744],[43.6654,40.1102],[43.6525,40.139],[43.6664,40.1489],[43.7116,40.1565],[43.7214,40.1694],[43.7149,40.1806],[43.6837,40.2101],[43.6731,40.2277],[43.6914,40.2386],[43.6903,40.2404],[43.676,40.266],[43.6315,40.3103],[43.6044,40.3298],[43.5942,40.3454],[43.601,40.3618],[43.6096,40.373],[43.6245,40.4111],[43.6253,40.4133],[43.6253,40.4202],[43.5849,40.4466],[43.5636,40.4647],[43.5595,40.4779],[43.5937,40.509],[43.6153,40.5204],[43.639,40.5226],[43.6363,40.5298],[43.6346,40.5328],[43.6315,40.5369],[43.6376,40.5351],[43.642,40.5344],[43.6465,40.533],[43.6525,40.5294],[43.6515,40.5534],[43.6648,40.5741],[43.7072,40.6119],[43.6995,40.6346],[43.7056,40.6408],[43.7264,40.669],[43.7294,40.6771],[43.7241,40.7464],[43.7206,40.7629],[43.7113,40.7816],[43.6698,40.8321],[43.6595,40.852],[43.6542,40.8747],[43.6519,40.8948],[43.6477,40.9139],[43.6362,40.9335],[43.6049,40.9633],[43.5654,40.9881],[43.5224,41.0045],[43.4796,41.0091],[43.4605,41.0229],[43.4446,41.0514],[43.4363,41.0832],[43.4404,41.1066]]]] } },
+    { type: "Feature", properties: { plate: 37, name: "Kastamonu" }, geometry: { type: "MultiPolygon", coordinates: [[[[32.7985,41.8597],[32.8083,41.7995],[32.8366,41.7551],[32.873,41.6823],[32.8085,41.6478],[32.818,41.5764],[32.8522,41.5477],[32.9131,41.5548],[32.9861,41.5732],[33.0589,41.5328],[33.0871,41.4439],[33.1154,41.3954],[33.017,41.3804],[32.9647,41.3411],[32.9194,41.2944],[32.9103,41.2606],[32.9297,41.1533],[32.9858,41.147],[33.038,41.1289],[33.0595,41.1058],[33.0692,41.093],[33.0922,41.0704],[33.1057,41.0613],[33.2346,41.0504],[33.3255,41.0049],[33.3623,40.9712],[33.4089,40.9599],[33.4475,40.9709],[33.5525,41.0177],[33.63,41.0286],[33.7922,41.094],[33.8259,41.1037],[33.8409,41.0966],[33.8512,41.0573],[33.8209,41.025],[33.795,41.0036],[33.7833,40.9738],[33.8209,40.9254],[33.8796,40.9094],[33.9107,40.8867],[33.9445,40.8687],[33.9856,40.8622],[34.0272,40.8608],[34.1145,40.8747],[34.2564,40.9194],[34.2802,40.9691],[34.248,40.996],[34.2264,41.0021],[34.2077,41.0393],[34.2177,41.0594],[34.2522,41.0913],[34.2871,41.1572],[34.3337,41.1888],[34.3574,41.2094],[34.3852,41.2643],[34.4194,41.302],[34.4719,41.3108],[34.4798,41.4416],[34.4695,41.461],[34.4629,41.4798],[34.472,41.5185],[34.4918,41.5523],[34.5209,41.5742],[34.5533,41.5912],[34.5879,41.6575],[34.5325,41.7132],[34.4661,41.7275],[34.3443,41.7325],[34.2842,41.7453],[34.2409,41.7486],[34.2051,41.7478],[34.1404,41.7671],[34.1422,41.8002],[34.1926,41.8451],[34.2209,41.9035],[34.2161,41.9601],[34.0036,41.9827],[33.8735,41.9744],[33.8452,41.9827],[33.8272,41.9777],[33.6135,41.9937],[33.5632,42.0077],[33.5405,42.0106],[33.4343,42.0106],[33.3609,42.0207],[33.3245,42.019],[33.1655,41.957],[33.0081,41.9173],[32.9619,41.8941],[32.9261,41.8818],[32.8556,41.8683],[32.8446,41.8728],[32.8275,41.8647],[32.7985,41.8597]]]] } },
+    { type: "Feature", properties: { plate: 38, name: "Kayseri" }, geometry: { type: "MultiPolygon", coordinates: [[[[35.1906,37.8181],[35.3632,37.8073],[35.4536,37.7888],[35.5772,37.7505],[35.6296,37.7702],[35.6077,37.9538],[35.979,38.155],[36.0331,38.2133],[36.0756,38.2819],[36.1033,38.3122],[36.1459,38.3951],[36.19,38.4235],[36.2669,38.4578],[36.348,38.4747],[36.4001,38.4566],[36.4373,38.4097],[36.4626,38.358],[36.5055,38.3229],[36.5417,38.3533],[36.5733,38.3894],[36.65,38.4591],[36.682,38.4999],[36.694,38.5523],[36.7137,38.583],[36.7475,38.5994],[36.7502,38.6404],[36.7739,38.6743],[36.7811,38.6888],[36.785,38.7055],[36.8253,38.7963],[36.8515,38.8755],[36.871,38.9135],[36.8936,38.9497],[36.9363,39.0442],[36.8998,39.1335],[36.8205,39.1663],[36.7343,39.1788],[36.6412,39.1788],[36.5513,39.1551],[36.5013,39.1686],[36.4521,39.1982],[36.2867,39.2164],[36.2104,39.1955],[36.1115,39.2057],[36.0166,39.2594],[35.9837,39.2633],[35.9514,39.2736],[35.9429,39.2816],[35.9301,39.303],[35.921,39.3122],[35.8724,39.3315],[35.8199,39.3344],[35.7357,39.2439],[35.4115,39.0808],[35.3669,39.0691],[35.2548,39.0133],[35.0278,39.0411],[35.0142,39.0226],[35.0036,39.0019],[35.0011,38.9775],[35.0013,38.9533],[34.9808,38.8993],[34.9527,38.8481],[34.9997,38.7759],[35.0691,38.7049],[35.0652,38.6584],[35.0754,38.6126],[35.071,38.5658],[34.9825,38.455],[34.9416,38.4212],[34.915,38.3794],[34.9849,38.2275],[35.044,38.1781],[35.2056,38.1766],[35.2325,38.1099],[35.2228,38.0673],[35.2282,38.0248],[35.2484,37.9905],[35.2589,37.954],[35.2125,37.9308],[35.2075,37.8792],[35.1906,37.8181]]]] } },
+    { type: "Feature", properties: { plate: 39, name: "Kırklareli" }, geometry: { type: "MultiPolygon", coordinates: [[[[28.0168,41.9726],[27.981,41.9785],[27.9659,41.9821],[27.917,41.9779],[27.9034,41.9811],[27.8769,41.9907],[27.8522,41.9954],[27.843,41.9958],[27.824,41.9935],[27.8199,41.9947],[27.816,41.9951],[27.8119,41.9947],[27.808,41.9935],[27.8049,41.9834],[27.8049,41.9699],[27.8027,41.96],[27.8183,41.9529],[27.8153,41.9468],[27.8028,41.9431],[27.7898,41.9427],[27.7762,41.9461],[27.724,41.9676],[27.6871,41.9686],[27.6093,41.9535],[27.6069,41.9435],[27.6034,41.9386],[27.5981,41.9386],[27.5905,41.9429],[27.5824,41.9349],[27.5722,41.9298],[27.5508,41.9242],[27.5521,41.9218],[27.5549,41.9203],[27.5579,41.9191],[27.5607,41.9177],[27.5575,41.9155],[27.5513,41.9131],[27.5489,41.9109],[27.5627,41.9064],[27.5464,41.9012],[27.5332,41.9081],[27.5095,41.9332],[27.4943,41.9428],[27.4208,41.9737],[27.3969,41.9893],[27.3748,42.0087],[27.3325,42.0574],[27.3053,42.0776],[27.2734,42.0917],[27.2382,42.0979],[27.2164,42.0956],[27.2038,42.0881],[27.1816,42.0659],[27.179,42.0619],[27.1782,42.0584],[27.1738,42.0571],[27.1496,42.0618],[27.1272,42.0626],[27.116,42.0618],[27.1007,42.0711],[27.0837,42.0784],[27.0655,42.0827],[27.0479,42.0829],[27.0465,42.0829],[27.0226,42.0739],[27.0004,42.0428],[26.9811,42.0329],[26.9672,42.0285],[26.9582,42.0182],[26.9501,42.0062],[26.9389,41.9962],[26.9302,41.9945],[26.9115,41.9968],[26.9011,41.9935],[26.8903,41.9854],[26.8811,41.9855],[26.8717,41.9881],[26.8608,41.9879],[26.85,41.9829],[26.8379,41.9752],[26.8382,41.9743],[26.8632,41.8592],[26.8948,41.7635],[26.9062,41.6669],[26.8844,41.5705],[26.8436,41.5243],[26.8284,41.4523],[26.7802,41.3756],[26.8098,41.3303],[26.9603,41.3553],[27.1234,41.3648],[27.2398,41.3648],[27.2955,41.3369],[27.3403,41.2924],[27.396,41.2646],[27.4596,41.2782],[27.5179,41.3111],[27.5541,41.3668],[27.6014,41.4197],[27.6989,41.4419],[27.8074,41.4614],[27.9804,41.4781],[28.1557,41.4922],[28.1575,41.4921],[28.203,41.5401],[28.203,41.5402],[28.1777,41.5582],[28.1565,41.5844],[28.1419,41.5989],[28.1133,41.6116],[28.0972,41.6267],[28.0833,41.6449],[28.0759,41.6605],[28.0767,41.6668],[28.0816,41.6674],[28.0871,41.6671],[28.0896,41.6708],[28.0884,41.6769],[28.0858,41.6798],[28.0833,41.6815],[28.0785,41.692],[28.0701,41.6994],[28.0518,41.7121],[28.0402,41.7254],[28.0213,41.7704],[28.0049,41.7886],[27.9868,41.804],[27.972,41.8223],[27.9661,41.8489],[27.9691,41.8738],[27.9775,41.8874],[27.9906,41.8928],[28.007,41.8933],[28.0256,41.8874],[28.0358,41.8859],[28.0449,41.8902],[28.0466,41.8971],[28.0423,41.9049],[28.0359,41.9112],[28.0309,41.9138],[28.0306,41.9245],[28.0168,41.9726]]]] } },
+    { type: "Feature", properties: { plate: 40, name: "Kırşehir" }, geometry: { type: "MultiPolygon", coordinates: [[[[33.9301,39.0011],[33.9438,38.9852],[33.9852,38.9796],[34.0066,38.9808],[34.0459,38.967],[34.0603,38.9271],[34.0997,38.9],[34.1498,38.9229],[34.1707,38.9282],[34.2142,38.9227],[34.2357,38.9268],[34.3463,38.8531],[34.3864,38.8616],[34.3825,38.8846],[34.3707,38.9287],[34.3926,38.9823],[34.5133,39.0216],[34.5677,39.0477],[34.6299,39.0695],[34.6717,39.1109],[34.6489,39.1494],[34.6194,39.1899],[34.6326,39.2548],[34.6205,39.3064],[34.5991,39.3361],[34.5904,39.3717],[34.5952,39.3944],[34.6156,39.4044],[34.6802,39.3927],[34.7371,39.4003],[34.7113,39.4468],[34.6681,39.4761],[34.6173,39.4825],[34.5737,39.5052],[34.4357,39.6361],[34.4229,39.6569],[34.414,39.6799],[34.395,39.7007],[34.3163,39.7014],[34.2705,39.7135],[34.2195,39.7576],[34.1678,39.7949],[34.1135,39.7956],[34.0928,39.8096],[34.0733,39.8257],[33.9128,39.7069],[33.8676,39.6042],[33.7989,39.5204],[33.6366,39.4187],[33.5245,39.2668],[33.545,39.2109],[33.6575,39.1556],[33.7092,39.123],[33.7254,39.1176],[33.7393,39.1089],[33.7556,39.0893],[33.7761,39.0777],[33.8288,39.0745],[33.8614,39.0633],[33.8753,39.0526],[33.9374,39.0347],[33.9301,39.0011]]]] } },
+    { type: "Feature", properties: { plate: 41, name: "Kocaeli" }, geometry: { type: "MultiPolygon", coordinates: [[[[29.8846,41.149],[29.8634,41.142],[29.8737,41.1114],[29.8774,41.0798],[29.8494,41.0294],[29.7948,41.0067],[29.7306,40.9878],[29.6727,40.9569],[29.6638,40.9328],[29.6466,40.9099],[29.611,40.9069],[29.5818,40.9253],[29.551,40.9741],[29.5037,41.005],[29.4509,41.0086],[29.407,40.9841],[29.3652,40.9527],[29.3402,40.9433],[29.2878,40.9094],[29.2537,40.8755],[29.2639,40.8698],[29.2839,40.8516],[29.2949,40.8388],[29.291,40.8386],[29.2884,40.8378],[29.2876,40.8356],[29.2883,40.8313],[29.2842,40.8339],[29.2746,40.8388],[29.2741,40.8288],[29.2708,40.8218],[29.2642,40.8179],[29.2546,40.817],[29.2546,40.8108],[29.2816,40.8154],[29.2935,40.8187],[29.3018,40.8244],[29.311,40.8182],[29.3154,40.8244],[29.3252,40.8201],[29.3333,40.8148],[29.3395,40.8078],[29.3434,40.7978],[29.3386,40.7964],[29.3356,40.7945],[29.333,40.7924],[29.3291,40.7904],[29.3395,40.7876],[29.3442,40.7802],[29.3485,40.7709],[29.3569,40.7624],[29.3778,40.7565],[29.3943,40.7621],[29.4102,40.7712],[29.4287,40.7761],[29.6662,40.7835],[29.6865,40.7816],[29.7215,40.772],[29.7376,40.7698],[29.7438,40.7668],[29.7638,40.7528],[29.7754,40.7487],[29.7866,40.7488],[29.7953,40.7511],[29.8025,40.7539],[29.8094,40.7556],[29.8901,40.7635],[29.9292,40.758],[29.9393,40.7351],[29.9242,40.7165],[29.9036,40.7163],[29.8672,40.7289],[29.7533,40.7246],[29.5599,40.6911],[29.5488,40.691],[29.5422,40.7097],[29.5275,40.7215],[29.5112,40.7275],[29.5011,40.7289],[29.4906,40.7272],[29.4793,40.7241],[29.4701,40.7189],[29.4662,40.7115],[29.4614,40.7042],[29.4504,40.6994],[29.4378,40.6955],[29.4287,40.691],[29.4284,40.6909],[29.4293,40.6014],[29.4207,40.5632],[29.4771,40.5498],[29.5353,40.5524],[29.7204,40.6043],[29.7889,40.6147],[29.9262,40.577],[29.9957,40.5818],[30.0282,40.5911],[30.0589,40.6055],[30.125,40.617],[30.183,40.6463],[30.2239,40.7086],[30.264,40.8572],[30.3289,40.9103],[30.3169,40.9161],[30.3031,40.9193],[30.2949,40.9411],[30.3129,40.9501],[30.3528,40.9435],[30.3849,40.9317],[30.4411,40.9331],[30.4592,40.9357],[30.4653,40.9694],[30.488,41.0003],[30.4829,41.0329],[30.4099,41.0433],[30.3921,41.0941],[30.4242,41.1556],[30.4293,41.1706],[30.37,41.1813],[30.3367,41.2008],[30.2956,41.2074],[30.2825,41.2155],[30.2713,41.2112],[30.259,41.1957],[30.2483,41.1876],[30.2405,41.1923],[30.2337,41.1845],[30.2264,41.1729],[30.2171,41.1671],[30.2035,41.1645],[30.18,41.1516],[30.1652,41.1466],[30.1369,41.1438],[29.8846,41.149]]]] } },
+    { type: "Feature", properties: { plate: 42, name: "Konya" }, geometry: { type: "MultiPolygon", coordinates: [[[[33.4666,38.6436],[33.4449,38.6837],[33.4134,38.7197],[33.3872,38.758],[33.3662,38.7987],[33.3638,38.8568],[33.3754,38.9146],[33.3796,38.9687],[33.3744,39.0226],[33.3206,39.1199],[33.2227,39.1752],[33.1661,39.1889],[33.1481,39.1968],[33.1048,39.2221],[33.0624,39.2221],[33.0434,39.2021],[33.0321,39.1755],[33.0236,39.1236],[33.0091,39.1051],[32.9658,39.1105],[32.908,39.1449],[32.86,39.1572],[32.7579,39.0921],[32.7218,39.0544],[32.6761,39.0338],[32.6015,39.0584],[32.538,39.0356],[32.4787,38.9972],[32.436,39],[32.3997,39.0269],[32.3676,39.0413],[32.2823,39.0635],[32.2321,39.059],[32.127,39.0342],[32.0906,39.0435],[31.9482,39.1364],[31.9048,39.1566],[31.8614,39.1714],[31.858,39.1422],[31.8505,39.1136],[31.8354,39.0979],[31.7571,39.0863],[31.6978,39.0926],[31.6852,39.026],[31.679,39.0129],[31.6747,39.0005],[31.7048,38.9764],[31.7236,38.9675],[31.7149,38.9277],[31.6383,38.8291],[31.608,38.7821],[31.5922,38.7288],[31.5935,38.7086],[31.5983,38.689],[31.5948,38.6664],[31.5072,38.5771],[31.4308,38.5141],[31.2544,38.423],[31.2833,38.3501],[31.3614,38.3],[31.4219,38.2381],[31.4914,38.1926],[31.5253,38.1809],[31.5483,38.1548],[31.6207,38.1047],[31.6136,38.072],[31.5496,38.0397],[31.4795,38.0187],[31.4471,38.0028],[31.4252,37.9376],[31.4482,37.8592],[31.4507,37.7807],[31.4093,37.7291],[31.4051,37.6815],[31.3727,37.6492],[31.3292,37.6389],[31.3293,37.6039],[31.3538,37.5738],[31.3677,37.5376],[31.3585,37.4776],[31.3319,37.4222],[31.3528,37.3998],[31.3764,37.3799],[31.4155,37.3549],[31.459,37.3413],[31.5587,37.3407],[31.8154,37.2985],[31.8987,37.2552],[31.963,37.2076],[32.0331,37.1686],[32.0832,37.1266],[32.1279,37.0762],[32.1555,37.0546],[32.1859,37.0372],[32.253,36.9869],[32.2916,36.9739],[32.3235,36.9582],[32.3272,36.9276],[32.3016,36.9116],[32.2903,36.8814],[32.3053,36.8542],[32.3487,36.8412],[32.3948,36.8379],[32.4264,36.8321],[32.4475,36.8083],[32.4632,36.7416],[32.4562,36.6734],[32.5684,36.7424],[32.7116,36.8555],[32.7418,36.8932],[32.7455,36.9233],[32.7304,36.9497],[32.6702,36.9535],[32.6098,36.9761],[32.6029,37.011],[32.6287,37.0779],[32.7229,37.1759],[32.8436,37.3078],[32.9614,37.4126],[33.0132,37.4586],[33.1074,37.4887],[33.2582,37.5038],[33.4127,37.5113],[33.5145,37.5415],[33.5635,37.5942],[33.5936,37.6244],[33.6389,37.647],[33.7369,37.6433],[33.7783,37.632],[33.7859,37.583],[33.7822,37.5679],[33.8047,37.5038],[33.9178,37.4058],[33.9985,37.336],[34.0573,37.2852],[34.1251,37.1947],[34.149,37.155],[34.1832,37.1879],[34.2104,37.2013],[34.2979,37.2254],[34.3539,37.248],[34.3986,37.2822],[34.4288,37.2947],[34.4819,37.3089],[34.5001,37.3199],[34.5122,37.352],[34.4891,37.3949],[34.452,37.4272],[34.4272,37.4432],[34.3891,37.4865],[34.3887,37.5159],[34.3941,37.5611],[34.4105,37.5869],[34.4329,37.6086],[34.4568,37.6603],[34.4455,37.7171],[34.4128,37.7531],[34.3733,37.7835],[34.3387,37.8321],[34.3005,37.8753],[34.2542,37.8949],[34.2063,37.9099],[34.1731,37.9506],[34.1598,38.0023],[34.0849,38.0118],[34.0094,37.9981],[33.9321,37.9736],[33.8538,37.9578],[33.7746,37.9608],[33.6189,37.9521],[33.4997,37.9318],[33.4561,37.9332],[33.4155,37.9637],[33.3485,38.0292],[33.3331,38.0677],[33.3251,38.1088],[33.3143,38.1198],[33.3012,38.1271],[33.2647,38.2045],[33.2721,38.286],[33.2881,38.3201],[33.294,38.3571],[33.3177,38.4098],[33.353,38.4526],[33.3675,38.5315],[33.3895,38.5649],[33.4474,38.6161],[33.4666,38.6436]]]] } },
+    { type: "Feature", properties: { plate: 43, name: "Kütahya" }, geometry: { type: "MultiPolygon", coordinates: [[[[29.6777,39.9063],[29.6468,39.9036],[29.6183,39.8924],[29.5864,39.889],[29.5544,39.8919],[29.4502,39.9235],[29.3995,39.8959],[29.3794,39.8365],[29.3682,39.8133],[29.3478,39.7969],[29.3202,39.7172],[29.2742,39.6909],[29.2525,39.6458],[29.2461,39.5793],[29.1908,39.5521],[29.1193,39.5516],[29.049,39.5579],[29.0048,39.5661],[28.9672,39.5891],[28.947,39.5599],[28.9417,39.5401],[28.9408,39.5211],[28.9339,39.5085],[28.9224,39.4996],[28.9088,39.4707],[28.896,39.3997],[28.873,39.3701],[28.8497,39.3479],[28.8416,39.3338],[28.8114,39.2906],[28.7787,39.2722],[28.7059,39.253],[28.6667,39.238],[28.6578,39.204],[28.6634,39.1923],[28.6661,39.1672],[28.6595,39.1566],[28.709,39.1132],[28.7304,39.1008],[28.881,39.0753],[28.9099,39.0596],[28.9743,38.9816],[28.9842,38.9654],[28.9909,38.948],[28.982,38.8867],[29.0153,38.84],[29.0363,38.7933],[29.0323,38.7301],[29.0868,38.7672],[29.1455,38.7667],[29.2067,38.7368],[29.2735,38.7291],[29.3457,38.7316],[29.4712,38.7596],[29.5293,38.763],[29.5543,38.8092],[29.5714,38.8652],[29.5966,38.8777],[29.6244,38.8838],[29.6881,38.8851],[29.8118,38.862],[29.8413,38.8525],[29.8887,38.8103],[29.8881,38.7069],[30.0957,38.8042],[30.1243,38.8327],[30.1649,38.8858],[30.1924,38.953],[30.2183,38.9949],[30.2344,39.0403],[30.2535,39.0807],[30.3721,39.1224],[30.4418,39.2063],[30.4242,39.2695],[30.3238,39.372],[30.312,39.4495],[30.2845,39.5097],[30.174,39.5905],[30.1361,39.6388],[30.0988,39.6315],[30.0241,39.6242],[29.9455,39.6076],[29.902,39.6166],[29.7911,39.6771],[29.756,39.6888],[29.7163,39.7093],[29.7,39.7248],[29.6658,39.7788],[29.6617,39.8211],[29.6777,39.9063]]]] } },
+    { type: "Feature", properties: { plate: 44, name: "Malatya" }, geometry: { type: "MultiPolygon", coordinates: [[[[38.3617,39.1503],[38.2839,39.1297],[38.2123,39.0876],[38.1477,39.0726],[38.0802,39.0802],[38.0443,39.0749],[38.01,39.0637],[37.932,39.0623],[37.8949,39.0481],[37.8594,39.0294],[37.8216,39.0169],[37.7858,38.9983],[37.7022,38.9843],[37.6176,39.017],[37.5736,39.0082],[37.5516,38.9694],[37.5614,38.9222],[37.5795,38.8774],[37.5911,38.8566],[37.5969,38.8343],[37.5805,38.7968],[37.5098,38.7366],[37.4669,38.7144],[37.4447,38.7082],[37.3936,38.6613],[37.3429,38.6249],[37.2844,38.6036],[37.2259,38.5263],[37.2371,38.4672],[37.2551,38.4665],[37.2917,38.4735],[37.3107,38.4749],[37.4597,38.4496],[37.5872,38.39],[37.6552,38.3747],[37.7336,38.3462],[37.7823,38.2784],[37.7762,38.2372],[37.7213,38.1226],[37.7152,38.0927],[37.6969,38.0694],[37.6818,38.0567],[37.6582,38.0267],[37.6069,37.8795],[37.5653,37.8205],[37.7076,37.842],[37.796,37.8712],[37.888,37.881],[37.9305,37.8705],[37.9735,37.8657],[38.0095,37.875],[38.0444,37.8887],[38.1276,37.905],[38.1892,37.9485],[38.1909,38.0008],[38.2173,38.0405],[38.295,38.0738],[38.3579,38.149],[38.4309,38.2141],[38.5009,38.2146],[38.5609,38.2284],[38.6187,38.2191],[38.6228,38.1866],[38.5844,38.1576],[38.5639,38.1467],[38.5714,38.1259],[38.5875,38.1195],[38.6035,38.1104],[38.6631,38.0982],[38.7334,38.0984],[38.8032,38.0903],[38.8766,38.1024],[38.9052,38.1028],[38.932,38.1073],[38.9727,38.1231],[39.0156,38.1308],[39.0695,38.1515],[39.1149,38.1927],[39.1485,38.2842],[39.145,38.3078],[39.1324,38.3297],[39.1149,38.3435],[39.0734,38.3479],[38.9922,38.326],[38.9572,38.3305],[38.9279,38.3523],[38.9111,38.3607],[38.8855,38.364],[38.8839,38.369],[38.861,38.3988],[38.8529,38.4047],[38.8269,38.4186],[38.8344,38.4261],[38.8105,38.4403],[38.779,38.4369],[38.7177,38.4186],[38.6889,38.4207],[38.6078,38.4534],[38.6006,38.4531],[38.5946,38.4502],[38.5877,38.4498],[38.5714,38.4623],[38.5667,38.4646],[38.5398,38.4704],[38.4817,38.4759],[38.4687,38.4792],[38.4566,38.4849],[38.4433,38.4943],[38.4256,38.5124],[38.4142,38.5168],[38.403,38.508],[38.3866,38.5187],[38.3735,38.5365],[38.3646,38.5564],[38.3614,38.5732],[38.3577,38.5826],[38.3513,38.5886],[38.3489,38.5956],[38.3638,38.6163],[38.3704,38.6345],[38.3757,38.6452],[38.387,38.6603],[38.4024,38.6734],[38.4221,38.6827],[38.4467,38.6862],[38.4604,38.6924],[38.4726,38.7075],[38.4781,38.7254],[38.4713,38.7408],[38.4836,38.753],[38.5089,38.7568],[38.6187,38.7482],[38.6317,38.7523],[38.633,38.7624],[38.6316,38.7757],[38.6357,38.7817],[38.6239,38.8126],[38.6243,38.8345],[38.6194,38.8959],[38.6068,38.9248],[38.5899,38.9508],[38.5893,38.9922],[38.6168,39.0203],[38.6879,39.023],[38.6236,39.0822],[38.5809,39.102],[38.5356,39.1159],[38.4409,39.1195],[38.3617,39.1503]]]] } },
+    { type: "Feature", properties: { plate: 45, name: "Manisa" }, geometry: { type: "MultiPolygon", coordinates: [[[[28.6595,39.1566],[28.5721,39.1675],[28.4799,39.1306],[28.4427,39.1228],[28.4047,39.1194],[28.3613,39.1224],[28.3208,39.1163],[28.2936,39.0883],[28.2562,39.0711],[28.2128,39.064],[28.171,39.0502],[28.125,39.063],[28.0737,39.1527],[27.9914,39.2222],[27.9846,39.2364],[27.968,39.2433],[27.8933,39.2219],[27.8542,39.2364],[27.8659,39.2716],[27.8962,39.3134],[27.8712,39.3448],[27.8549,39.3443],[27.823,39.3396],[27.8072,39.3415],[27.7679,39.3566],[27.7264,39.3593],[27.6559,39.3517],[27.586,39.367],[27.5431,39.3948],[27.4966,39.4113],[27.4201,39.3803],[27.4588,39.3037],[27.4918,39.1836],[27.5081,39.1478],[27.5453,39.0939],[27.5377,39.0413],[27.5101,39.0168],[27.4452,38.9744],[27.3821,38.9545],[27.3271,38.9249],[27.3153,38.8884],[27.3094,38.8497],[27.291,38.8166],[27.2608,38.792],[27.2332,38.7558],[27.2284,38.7348],[27.2559,38.7131],[27.2715,38.7078],[27.2947,38.6846],[27.3213,38.6157],[27.3803,38.5759],[27.4506,38.5705],[27.5628,38.5727],[27.5833,38.5699],[27.6135,38.5468],[27.6303,38.4915],[27.6999,38.453],[27.7778,38.4247],[27.7858,38.4102],[27.7977,38.3785],[27.8061,38.3634],[27.8483,38.3329],[27.8989,38.3421],[27.9224,38.3752],[27.9389,38.4068],[27.9864,38.4051],[28.0344,38.3883],[28.0654,38.3873],[28.0954,38.3946],[28.1357,38.3592],[28.1629,38.3088],[28.261,38.3216],[28.2994,38.3311],[28.3251,38.3274],[28.345,38.3088],[28.38,38.3008],[28.4032,38.2993],[28.4478,38.2899],[28.4758,38.2621],[28.5174,38.1593],[28.5623,38.1062],[28.698,38.1038],[28.743,38.1043],[28.7844,38.1199],[28.7984,38.1436],[28.7936,38.1705],[28.8381,38.2388],[28.931,38.2551],[28.8938,38.2874],[28.8638,38.288],[28.8385,38.3034],[28.8481,38.3178],[28.8751,38.338],[28.8949,38.3632],[28.9082,38.3932],[28.9155,38.4407],[28.9081,38.4893],[28.9067,38.5133],[28.9029,38.5354],[28.8804,38.5571],[28.8519,38.5647],[28.8484,38.6001],[28.8767,38.6084],[28.9064,38.6339],[28.9179,38.6537],[28.9955,38.701],[29.0323,38.7301],[29.0363,38.7933],[29.0153,38.84],[28.982,38.8867],[28.9909,38.948],[28.9842,38.9654],[28.9743,38.9816],[28.9099,39.0596],[28.881,39.0753],[28.7304,39.1008],[28.709,39.1132],[28.6595,39.1566]]]] } },
+    { type: "Feature", properties: { plate: 46, name: "Kahramanmaraş" }, geometry: { type: "MultiPolygon", coordinates: [[[[36.5055,38.3229],[36.4493,38.2809],[36.4181,38.2188],[36.3684,38.0421],[36.3386,37.9777],[36.3257,37.9119],[36.3241,37.8813],[36.3308,37.8343],[36.3623,37.7726],[36.3597,37.7318],[36.3262,37.7064],[36.3071,37.6975],[36.2799,37.6691],[36.2795,37.591],[36.2568,37.5613],[36.2286,37.5368],[36.2202,37.5064],[36.2328,37.4783],[36.2469,37.4676],[36.2575,37.4553],[36.262,37.389],[36.3036,37.3491],[36.3124,37.3498],[36.3188,37.3597],[36.3293,37.364],[36.3417,37.3666],[36.3541,37.3709],[36.3707,37.3563],[36.4039,37.3611],[36.4411,37.3723],[36.4702,37.3771],[36.5506,37.3897],[36.5888,37.3818],[36.6238,37.3627],[36.6781,37.3225],[36.7212,37.2712],[36.8422,37.3154],[36.8896,37.3667],[36.9377,37.3422],[36.9664,37.2532],[37.0432,37.2333],[37.1342,37.3097],[37.1902,37.3315],[37.3148,37.3493],[37.4492,37.3863],[37.5117,37.393],[37.5748,37.3919],[37.6173,37.4144],[37.6304,37.4596],[37.623,37.4889],[37.6251,37.5188],[37.5166,37.5722],[37.4571,37.5896],[37.4217,37.6351],[37.4222,37.6941],[37.4619,37.7338],[37.517,37.7725],[37.5653,37.8205],[37.6069,37.8795],[37.6582,38.0267],[37.6818,38.0567],[37.6969,38.0694],[37.7152,38.0927],[37.7213,38.1226],[37.7762,38.2372],[37.7823,38.2784],[37.7336,38.3462],[37.6552,38.3747],[37.5872,38.39],[37.4597,38.4496],[37.3107,38.4749],[37.2917,38.4735],[37.2551,38.4665],[37.2371,38.4672],[37.2259,38.5263],[37.2844,38.6036],[37.0597,38.5881],[37.0336,38.5974],[37.0088,38.6105],[36.8789,38.625],[36.7475,38.5994],[36.7137,38.583],[36.694,38.5523],[36.682,38.4999],[36.65,38.4591],[36.5733,38.3894],[36.5417,38.3533],[36.5055,38.3229]]]] } },
+    { type: "Feature", properties: { plate: 47, name: "Mardin" }, geometry: { type: "MultiPolygon", coordinates: [[[[41.8964,37.1543],[41.8963,37.1545],[41.876,37.2168],[41.814,37.2581],[41.6983,37.2871],[41.6818,37.3284],[41.7231,37.3656],[41.8182,37.4069],[41.8926,37.4359],[41.905,37.502],[41.876,37.5888],[41.8169,37.7138],[41.6322,37.6094],[41.5206,37.5433],[41.3677,37.5185],[41.2603,37.5722],[41.19,37.688],[41.1197,37.7582],[41.1007,37.7657],[41.0753,37.7649],[41.0118,37.7414],[40.662,37.7484],[40.5516,37.7299],[40.5392,37.7073],[40.492,37.657],[40.4122,37.6524],[40.3009,37.5842],[40.2518,37.5693],[40.1426,37.5087],[40.0978,37.4758],[40,37.3757],[40.0138,37.2575],[40.0422,37.2327],[40.0741,37.2112],[40.1249,37.1697],[40.1372,37.1486],[40.1275,37.069],[40.2179,36.9417],[40.2609,36.923],[40.2614,36.9228],[40.3937,36.994],[40.4139,37.004],[40.4352,37.0106],[40.457,37.0141],[40.4798,37.0152],[40.5257,37.0259],[40.6595,37.0853],[40.709,37.1005],[40.8964,37.1227],[41.1351,37.0842],[41.1797,37.0696],[41.2013,37.065],[41.4798,37.0756],[41.8964,37.1543]]]] } },
+    { type: "Feature", properties: { plate: 48, name: "Muğla" }, geometry: { type: "MultiPolygon", coordinates: [[[[29.2612,36.2936],[29.2892,36.3047],[29.3071,36.325],[29.3137,36.3515],[29.3129,36.3643],[29.3133,36.3763],[29.3225,36.3907],[29.3289,36.4084],[29.362,36.4631],[29.4244,36.4835],[29.4549,36.4733],[29.4773,36.4824],[29.472,36.5093],[29.4811,36.5371],[29.5269,36.5702],[29.5755,36.599],[29.5938,36.6543],[29.5802,36.7161],[29.6889,36.9143],[29.604,37.0086],[29.4834,36.9959],[29.435,36.9474],[29.3967,36.9597],[29.4134,37.0176],[29.3904,37.0686],[29.3426,37.038],[29.3357,36.973],[29.3251,36.9474],[29.3044,36.9258],[29.2704,36.9116],[29.1699,36.9549],[29.1151,36.9581],[29.0902,36.9779],[29.0868,36.9934],[29.0839,37.0264],[29.0754,37.0655],[29.0618,37.1029],[29.0019,37.1497],[28.9283,37.1766],[28.9165,37.1878],[28.8982,37.2146],[28.8861,37.2249],[28.8115,37.2335],[28.7779,37.2721],[28.765,37.3185],[28.7353,37.3599],[28.688,37.3747],[28.6532,37.3747],[28.6273,37.3825],[28.6174,37.4112],[28.6168,37.4397],[28.6208,37.4605],[28.6089,37.4775],[28.4782,37.4917],[28.4048,37.523],[28.3426,37.5654],[28.2699,37.5774],[28.2161,37.5473],[28.1807,37.4924],[28.1414,37.4668],[28.0198,37.4598],[27.9497,37.4624],[27.9073,37.4799],[27.8613,37.4798],[27.8161,37.4708],[27.7704,37.4766],[27.7,37.5149],[27.6196,37.5244],[27.5812,37.5357],[27.5458,37.5545],[27.5125,37.5531],[27.4811,37.5392],[27.4689,37.5219],[27.4154,37.4289],[27.4035,37.4126],[27.4072,37.4127],[27.4265,37.406],[27.4385,37.3908],[27.4152,37.3817],[27.3967,37.3656],[27.3887,37.3453],[27.3968,37.3231],[27.4183,37.3095],[27.4461,37.3056],[27.4685,37.3156],[27.4727,37.3437],[27.4802,37.3437],[27.4914,37.3273],[27.49,37.3138],[27.4851,37.303],[27.4863,37.2952],[27.4679,37.277],[27.4614,37.2675],[27.4588,37.258],[27.4636,37.252],[27.4736,37.2564],[27.4832,37.2641],[27.4863,37.2679],[27.5088,37.2681],[27.5199,37.2591],[27.5178,37.246],[27.5,37.2338],[27.5147,37.2293],[27.5305,37.2363],[27.5432,37.2498],[27.5484,37.2648],[27.5532,37.2729],[27.5648,37.2755],[27.5894,37.2747],[27.5916,37.277],[27.5921,37.2811],[27.5944,37.2838],[27.603,37.2822],[27.6038,37.2815],[27.616,37.2747],[27.614,37.2675],[27.6128,37.2546],[27.6099,37.2475],[27.6043,37.2423],[27.5916,37.2351],[27.5894,37.2307],[27.5886,37.2111],[27.5942,37.2043],[27.6099,37.1997],[27.5947,37.1859],[27.5867,37.1815],[27.5755,37.1785],[27.5877,37.1988],[27.5747,37.2012],[27.5278,37.1928],[27.5278,37.1854],[27.5396,37.1783],[27.5472,37.1618],[27.5545,37.1301],[27.5591,37.1343],[27.5623,37.1358],[27.5755,37.1376],[27.5755,37.1301],[27.5651,37.1256],[27.5415,37.126],[27.531,37.1208],[27.5222,37.115],[27.5013,37.1075],[27.4751,37.0925],[27.4598,37.0895],[27.4456,37.097],[27.431,37.1177],[27.4334,37.1197],[27.4349,37.1203],[27.4362,37.1212],[27.4385,37.124],[27.4255,37.1196],[27.4182,37.1212],[27.4124,37.1257],[27.4043,37.1301],[27.3938,37.1308],[27.3866,37.1301],[27.383,37.1347],[27.3833,37.1518],[27.3811,37.1495],[27.3805,37.1481],[27.3794,37.1467],[27.3765,37.1444],[27.3693,37.1507],[27.3616,37.1486],[27.3543,37.1409],[27.349,37.1301],[27.3423,37.1301],[27.343,37.1418],[27.3396,37.1505],[27.3325,37.1562],[27.3218,37.1587],[27.3247,37.1479],[27.3235,37.1389],[27.3213,37.1311],[27.3218,37.124],[27.303,37.1196],[27.2717,37.1289],[27.2604,37.1177],[27.2529,37.124],[27.2549,37.1165],[27.2566,37.1137],[27.2604,37.1103],[27.27,37.116],[27.2791,37.1176],[27.2874,37.1154],[27.2944,37.1103],[27.2819,37.0983],[27.2642,37.089],[27.2477,37.0834],[27.2391,37.083],[27.2288,37.0618],[27.2324,37.0473],[27.2412,37.0344],[27.2461,37.0178],[27.2474,37.0002],[27.2527,36.9783],[27.2632,36.9634],[27.2809,36.9669],[27.287,36.9594],[27.294,36.9616],[27.299,36.9615],[27.3081,36.9594],[27.3054,36.9633],[27.3006,36.9731],[27.3146,36.9771],[27.3265,36.986],[27.3327,36.9971],[27.3286,37.0079],[27.3286,37.0141],[27.341,37.0185],[27.3674,37.0228],[27.3765,37.0277],[27.3799,37.0209],[27.3817,37.0189],[27.3809,37.018],[27.3765,37.0141],[27.3779,37.0102],[27.3799,37.0092],[27.3818,37.009],[27.3833,37.0079],[27.3806,37.0024],[27.3789,37.0007],[27.3794,36.999],[27.3833,36.9936],[27.3948,37.0183],[27.3968,37.0277],[27.4043,37.0277],[27.4024,37.0239],[27.4081,37.0168],[27.4235,37.0272],[27.4385,37.0277],[27.4448,37.0225],[27.4627,37.0011],[27.4727,36.9936],[27.4837,36.9908],[27.5142,36.9936],[27.5283,36.9913],[27.5387,36.9867],[27.562,36.9731],[27.5671,36.9966],[27.5903,36.9983],[27.618,36.9892],[27.6365,36.9805],[27.6558,36.9965],[27.6877,37.0054],[27.7197,37.0052],[27.7395,36.9936],[27.7512,36.9969],[27.7629,36.9973],[27.773,36.9958],[27.7804,36.9936],[27.7864,37.0036],[27.7879,37.0079],[27.7941,37.0079],[27.8047,37.0046],[27.8862,37.0262],[27.9114,37.0277],[27.9409,37.0222],[27.9518,37.0215],[27.9631,37.0236],[27.9756,37.0323],[27.9866,37.0351],[28.0929,37.0214],[28.11,37.0141],[28.11,37.0215],[28.1073,37.0321],[28.1262,37.0359],[28.1743,37.0351],[28.3047,37.0508],[28.315,37.0488],[28.3228,37.0439],[28.3294,37.0368],[28.3296,37.0305],[28.3001,37.025],[28.2466,37.0079],[28.2531,36.9937],[28.2446,36.9882],[28.2285,36.9905],[28.2124,37.0004],[28.2069,36.9902],[28.1989,36.9805],[28.2124,36.9805],[28.2124,36.9731],[28.2051,36.9663],[28.1852,36.9389],[28.1807,36.9433],[28.1745,36.946],[28.1665,36.9469],[28.1572,36.9458],[28.1572,36.9389],[28.1642,36.9362],[28.1681,36.9334],[28.1685,36.9302],[28.1653,36.9259],[28.1672,36.9208],[28.1685,36.9189],[28.1681,36.9168],[28.1653,36.9116],[28.1592,36.9246],[28.1572,36.9321],[28.1517,36.9321],[28.1419,36.9287],[28.1201,36.9377],[28.11,36.9321],[28.1033,36.9321],[28.0982,36.9362],[28.0935,36.9379],[28.0886,36.9367],[28.0822,36.9321],[28.075,36.9374],[28.0654,36.9393],[28.0418,36.9389],[28.0418,36.9321],[28.0617,36.9321],[28.0617,36.9259],[28.0532,36.9265],[28.0359,36.9254],[28.0275,36.9259],[28.0311,36.9213],[28.0332,36.9177],[28.0359,36.9146],[28.0418,36.9116],[28.0344,36.9042],[28.0213,36.9116],[28.0275,36.9025],[28.0355,36.8934],[28.0554,36.8769],[28.0554,36.8707],[28.0449,36.8673],[28.0363,36.8626],[28.0287,36.8602],[28.0213,36.8632],[28.0173,36.8611],[28.0145,36.8591],[28.0116,36.8577],[28.007,36.857],[28.0187,36.8486],[28.0246,36.8391],[28.0233,36.8332],[28.0138,36.8359],[28.007,36.8291],[28.0257,36.8288],[28.0396,36.8266],[28.0491,36.8206],[28.0554,36.8086],[28.0369,36.7973],[28.0308,36.7917],[28.0275,36.7813],[28.0105,36.7943],[27.9942,36.7984],[27.9592,36.795],[27.94,36.7956],[27.9197,36.7997],[27.9037,36.8058],[27.8971,36.8123],[27.8865,36.8088],[27.7991,36.8066],[27.7857,36.8011],[27.76,36.7813],[27.7482,36.7844],[27.7352,36.7824],[27.7212,36.7817],[27.7054,36.7888],[27.6912,36.7843],[27.6454,36.8065],[27.6234,36.8017],[27.6178,36.7896],[27.617,36.7762],[27.6115,36.7653],[27.5925,36.7608],[27.5567,36.7627],[27.4832,36.754],[27.4588,36.7557],[27.4496,36.754],[27.4385,36.7471],[27.4273,36.7357],[27.4231,36.7197],[27.4143,36.7093],[27.4016,36.7047],[27.3848,36.705],[27.3683,36.7082],[27.3558,36.7124],[27.3558,36.7062],[27.364,36.7026],[27.3687,36.6974],[27.3687,36.6914],[27.3628,36.6851],[27.3664,36.6845],[27.3692,36.6845],[27.3706,36.6832],[27.3703,36.6789],[27.383,36.6848],[27.3941,36.6841],[27.402,36.6775],[27.4043,36.6652],[27.4158,36.669],[27.4256,36.6686],[27.4484,36.6652],[27.4557,36.6629],[27.468,36.653],[27.4727,36.6509],[27.4777,36.6535],[27.4819,36.6584],[27.4863,36.6652],[27.5545,36.6851],[27.5597,36.6746],[27.5703,36.6738],[27.5851,36.6771],[27.603,36.6789],[27.6199,36.6765],[27.638,36.6713],[27.6712,36.6578],[27.6731,36.6796],[27.6869,36.7111],[27.6843,36.7199],[27.6843,36.7267],[27.6985,36.7342],[27.7194,36.7563],[27.7361,36.7608],[27.7517,36.7592],[27.7645,36.7565],[27.7761,36.7559],[27.7879,36.7608],[27.7879,36.754],[27.8065,36.7608],[27.8262,36.7575],[27.8438,36.7489],[27.8562,36.7404],[27.863,36.7404],[27.8704,36.7526],[27.8768,36.7508],[27.8831,36.7438],[27.8903,36.7404],[27.8977,36.7453],[27.9054,36.7529],[27.9124,36.7541],[27.9177,36.7404],[27.9323,36.7466],[27.9447,36.7563],[27.9541,36.7596],[27.9592,36.7471],[27.9661,36.7471],[27.9807,36.7538],[28.0197,36.7631],[28.0344,36.7751],[28.0393,36.7645],[28.0472,36.7633],[28.0691,36.7751],[28.0863,36.7967],[28.095,36.8014],[28.1067,36.803],[28.1184,36.8006],[28.1237,36.7919],[28.1253,36.7713],[28.1305,36.754],[28.1175,36.7639],[28.1135,36.7682],[28.11,36.7751],[28.1033,36.7676],[28.0916,36.7593],[28.0842,36.7537],[28.0822,36.7471],[28.0877,36.7409],[28.1074,36.7392],[28.1169,36.7335],[28.1164,36.7188],[28.1006,36.7096],[28.0859,36.7106],[28.0896,36.7267],[28.0798,36.7221],[28.0418,36.7199],[28.0425,36.7185],[28.0383,36.7141],[28.0322,36.7092],[28.0275,36.7062],[28.0213,36.7051],[28.0002,36.7062],[28.007,36.6994],[27.9712,36.6925],[27.9661,36.6888],[27.9702,36.6798],[27.9802,36.6758],[27.9915,36.6758],[28.0002,36.6789],[28.0073,36.6752],[28.0189,36.6713],[28.0296,36.6704],[28.0344,36.6752],[28.0353,36.6876],[28.0379,36.6906],[28.048,36.6851],[28.058,36.6767],[28.0612,36.6647],[28.0578,36.6528],[28.048,36.6441],[28.048,36.6379],[28.0567,36.643],[28.0759,36.6578],[28.0896,36.6441],[28.0754,36.6313],[28.0654,36.6195],[28.054,36.6096],[28.0344,36.6025],[27.9592,36.6025],[27.9646,36.5956],[27.9676,36.5926],[27.9729,36.5895],[27.9709,36.5864],[27.968,36.5789],[27.9661,36.5759],[27.9777,36.5657],[27.9909,36.5598],[28.0037,36.5619],[28.0138,36.5759],[28.0183,36.567],[28.0259,36.5637],[28.0359,36.5648],[28.048,36.569],[28.0462,36.5725],[28.044,36.5795],[28.0418,36.5827],[28.0506,36.5847],[28.055,36.5866],[28.0579,36.59],[28.0617,36.5963],[28.0881,36.5891],[28.1115,36.6042],[28.1307,36.629],[28.1443,36.6509],[28.1623,36.6727],[28.1819,36.6846],[28.2336,36.6994],[28.2316,36.7046],[28.2303,36.7047],[28.2254,36.7062],[28.2295,36.7093],[28.2319,36.7119],[28.2332,36.715],[28.2336,36.7199],[28.24,36.7155],[28.2466,36.7124],[28.2531,36.7279],[28.2673,36.7309],[28.2831,36.7266],[28.2951,36.7199],[28.2886,36.7426],[28.2489,36.7668],[28.2534,36.7888],[28.2395,36.7988],[28.2367,36.8132],[28.2432,36.8298],[28.2572,36.8462],[28.2731,36.852],[28.2886,36.8459],[28.3027,36.8357],[28.315,36.8291],[28.315,36.8223],[28.2889,36.8184],[28.2783,36.8142],[28.2739,36.8052],[28.2782,36.7965],[28.2886,36.7937],[28.315,36.795],[28.3128,36.8004],[28.3088,36.8161],[28.315,36.8161],[28.325,36.8101],[28.377,36.7888],[28.396,36.7895],[28.4065,36.7998],[28.4142,36.8146],[28.4248,36.8291],[28.4147,36.8371],[28.4051,36.8376],[28.3967,36.8354],[28.3906,36.8359],[28.3838,36.8414],[28.3775,36.8484],[28.3767,36.8544],[28.3872,36.857],[28.4162,36.8597],[28.4362,36.8647],[28.4452,36.8738],[28.4474,36.883],[28.452,36.8836],[28.4567,36.8775],[28.4588,36.8669],[28.4601,36.8638],[28.4626,36.862],[28.4652,36.8594],[28.4663,36.8533],[28.4641,36.8499],[28.4595,36.8491],[28.4526,36.8496],[28.4561,36.8285],[28.4639,36.8188],[28.478,36.816],[28.5005,36.8161],[28.5005,36.8086],[28.4868,36.8017],[28.4979,36.7985],[28.508,36.7977],[28.5178,36.7956],[28.5278,36.7888],[28.5244,36.8133],[28.5462,36.8234],[28.5759,36.8195],[28.5886,36.808],[28.591,36.8002],[28.5911,36.799],[28.5967,36.795],[28.5974,36.8026],[28.5989,36.8069],[28.6035,36.8161],[28.6104,36.8161],[28.6062,36.8101],[28.6063,36.8069],[28.6084,36.8048],[28.6104,36.8017],[28.6072,36.8008],[28.6045,36.8008],[28.603,36.7996],[28.6035,36.795],[28.6141,36.7853],[28.6167,36.767],[28.6126,36.7471],[28.6035,36.7335],[28.6162,36.706],[28.6234,36.6994],[28.6359,36.7145],[28.6492,36.7183],[28.6599,36.711],[28.6649,36.6926],[28.6717,36.6926],[28.7017,36.7051],[28.7463,36.6977],[28.7827,36.6774],[28.7879,36.6509],[28.805,36.6553],[28.8152,36.6518],[28.8255,36.6447],[28.8425,36.6379],[28.8425,36.6305],[28.8272,36.6278],[28.8186,36.6208],[28.8186,36.6117],[28.8289,36.6025],[28.8416,36.6002],[28.8587,36.6013],[28.8696,36.6066],[28.8635,36.6168],[28.8784,36.6259],[28.8954,36.6414],[28.9017,36.6583],[28.884,36.6715],[28.8901,36.6576],[28.888,36.6484],[28.8823,36.6406],[28.8766,36.6305],[28.8704,36.6305],[28.8669,36.6349],[28.8568,36.6441],[28.8635,36.6509],[28.8579,36.6538],[28.855,36.6566],[28.8499,36.6652],[28.8625,36.6679],[28.8626,36.6751],[28.86,36.6842],[28.8635,36.6926],[28.8709,36.6962],[28.8789,36.6981],[28.8977,36.6994],[28.8977,36.7062],[28.8909,36.7062],[28.8909,36.7124],[28.9041,36.723],[28.9227,36.7414],[28.939,36.7513],[28.9461,36.737],[28.9563,36.7275],[29.0342,36.701],[29.0964,36.6652],[29.1024,36.6596],[29.1092,36.652],[29.1145,36.6431],[29.1169,36.6342],[29.1106,36.6264],[29.0988,36.6236],[29.0906,36.6271],[29.0964,36.6379],[29.0964,36.6441],[29.0809,36.6386],[29.0682,36.6239],[29.0558,36.6142],[29.0418,36.6243],[29.035,36.6147],[29.0261,36.5963],[29.0205,36.5895],[29.0314,36.5748],[29.0369,36.5615],[29.0327,36.5518],[29.0144,36.5479],[29.0364,36.5453],[29.0843,36.5602],[29.0964,36.5479],[29.1038,36.5479],[29.1149,36.5527],[29.1203,36.5356],[29.1243,36.5008],[29.1243,36.4933],[29.1156,36.4914],[29.1095,36.4885],[29.0964,36.4796],[29.0964,36.4735],[29.1113,36.4668],[29.1242,36.4536],[29.1301,36.4365],[29.1243,36.4182],[29.1277,36.4168],[29.1292,36.4169],[29.1299,36.416],[29.1304,36.4114],[29.1189,36.4101],[29.1091,36.4065],[29.1014,36.4002],[29.0964,36.3909],[29.1062,36.3909],[29.1128,36.3894],[29.1243,36.3834],[29.1169,36.3772],[29.1447,36.3772],[29.1447,36.3698],[29.1418,36.3654],[29.1408,36.3625],[29.1447,36.3493],[29.1585,36.3568],[29.175,36.3398],[29.2346,36.3243],[29.2478,36.3117],[29.2567,36.297],[29.2612,36.2936]]]] } },
+    { type: "Feature", properties: { plate: 49, name: "Muş" }, geometry: { type: "MultiPolygon", coordinates: [[[[42.4313,39.4914],[42.4111,39.4859],[42.3736,39.4809],[42.3357,39.4793],[42.1987,39.4261],[42.1781,39.3815],[42.1839,39.3364],[42.1557,39.2991],[42.0867,39.2659],[42.0675,39.2486],[42.0373,39.2271],[41.9147,39.2108],[41.8732,39.1922],[41.8345,39.1688],[41.7477,39.1715],[41.6626,39.1988],[41.639,39.214],[41.581,39.2782],[41.4828,39.353],[41.4456,39.3718],[41.3652,39.3866],[41.2051,39.3657],[41.1773,39.3273],[41.1724,39.3048],[41.1877,39.2752],[41.1936,39.2665],[41.2024,39.2479],[41.203,39.2327],[41.201,39.2018],[41.2236,39.1703],[41.2427,39.1551],[41.2703,39.1163],[41.2769,39.0726],[41.2649,39.0322],[41.195,38.9656],[41.1643,38.8879],[41.1861,38.8305],[41.2072,38.8076],[41.2189,38.8033],[41.2402,38.7893],[41.253,38.7655],[41.2596,38.7392],[41.3112,38.6877],[41.3784,38.6488],[41.3896,38.6091],[41.3781,38.5689],[41.3901,38.5416],[41.4206,38.5346],[41.4753,38.548],[41.5312,38.5544],[41.5418,38.5676],[41.6959,38.6127],[41.8666,38.6028],[41.9368,38.6338],[41.9958,38.6854],[42.0377,38.7134],[42.0314,38.7559],[41.9994,38.7953],[42.018,38.8316],[42.1063,38.83],[42.1276,38.8441],[42.1396,38.8907],[42.1596,38.9021],[42.2023,38.9056],[42.2431,38.9182],[42.2748,38.9365],[42.31,38.9457],[42.4734,38.9316],[42.5557,38.9564],[42.6276,39.0024],[42.6237,39.0537],[42.6322,39.1031],[42.6425,39.1421],[42.6417,39.1575],[42.6361,39.171],[42.6413,39.2354],[42.6058,39.2765],[42.5803,39.2956],[42.5632,39.3232],[42.5327,39.3506],[42.501,39.3732],[42.4591,39.4287],[42.4313,39.4914]]]] } },
+    { type: "Feature", properties: { plate: 50, name: "Nevşehir" }, geometry: { type: "MultiPolygon", coordinates: [[[[34.4898,38.3885],[34.5472,38.3823],[34.6318,38.4023],[34.6897,38.4042],[34.7164,38.3928],[34.7595,38.3598],[34.8103,38.3484],[34.915,38.3794],[34.9416,38.4212],[34.9825,38.455],[35.071,38.5658],[35.0754,38.6126],[35.0652,38.6584],[35.0691,38.7049],[34.9997,38.7759],[34.9527,38.8481],[34.9808,38.8993],[35.0013,38.9533],[35.0011,38.9775],[35.0036,39.0019],[35.0142,39.0226],[35.0278,39.0411],[35.0151,39.0661],[34.9999,39.0902],[34.991,39.1113],[34.9872,39.1341],[34.9961,39.1576],[34.9735,39.1878],[34.8931,39.2267],[34.8806,39.2663],[34.8608,39.2968],[34.8293,39.3097],[34.8035,39.3339],[34.7941,39.353],[34.7904,39.3744],[34.7833,39.3871],[34.7536,39.3971],[34.7371,39.4003],[34.6802,39.3927],[34.6156,39.4044],[34.5952,39.3944],[34.5904,39.3717],[34.5991,39.3361],[34.6205,39.3064],[34.6326,39.2548],[34.6194,39.1899],[34.6489,39.1494],[34.6717,39.1109],[34.6299,39.0695],[34.5677,39.0477],[34.5133,39.0216],[34.3926,38.9823],[34.3707,38.9287],[34.3825,38.8846],[34.3864,38.8616],[34.3463,38.8531],[34.2357,38.9268],[34.2248,38.8864],[34.2575,38.797],[34.2408,38.7464],[34.2062,38.7014],[34.2204,38.6508],[34.2665,38.6274],[34.3167,38.6158],[34.3599,38.6224],[34.3808,38.6174],[34.3895,38.5718],[34.3593,38.5216],[34.3601,38.4732],[34.3776,38.46],[34.4188,38.4349],[34.4519,38.4078],[34.4898,38.3885]]]] } },
+    { type: "Feature", properties: { plate: 51, name: "Niğde" }, geometry: { type: "MultiPolygon", coordinates: [[[[34.5122,37.352],[34.5875,37.3533],[34.6209,37.3625],[34.6519,37.3783],[34.7215,37.4014],[34.7916,37.3877],[34.7898,37.4351],[34.7946,37.4572],[34.8198,37.4886],[34.8356,37.4985],[34.8499,37.5106],[34.8652,37.553],[34.8581,37.5798],[34.8326,37.6299],[34.8278,37.6802],[34.8597,37.7166],[34.9106,37.7136],[34.9619,37.7007],[35.0597,37.7135],[35.1906,37.8181],[35.2075,37.8792],[35.2125,37.9308],[35.2589,37.954],[35.2484,37.9905],[35.2282,38.0248],[35.2228,38.0673],[35.2325,38.1099],[35.2056,38.1766],[35.044,38.1781],[34.9849,38.2275],[34.915,38.3794],[34.8103,38.3484],[34.7595,38.3598],[34.7164,38.3928],[34.6897,38.4042],[34.6318,38.4023],[34.5472,38.3823],[34.4898,38.3885],[34.1598,38.0023],[34.1731,37.9506],[34.2063,37.9099],[34.2542,37.8949],[34.3005,37.8753],[34.3387,37.8321],[34.3733,37.7835],[34.4128,37.7531],[34.4455,37.7171],[34.4568,37.6603],[34.4329,37.6086],[34.4105,37.5869],[34.3941,37.5611],[34.3887,37.5159],[34.3891,37.4865],[34.4272,37.4432],[34.452,37.4272],[34.4891,37.3949],[34.5122,37.352]]]] } },
+    { type: "Feature", properties: { plate: 52, name: "Ordu" }, geometry: { type: "MultiPolygon", coordinates: [[[[37.1517,41.1468],[37.1514,41.1408],[37.0984,41.0866],[37.0423,41.0418],[36.9991,40.9797],[36.9203,40.9458],[36.8807,40.9124],[36.8658,40.9038],[36.8284,40.8878],[36.789,40.8776],[36.746,40.875],[36.7264,40.8674],[36.7052,40.8625],[36.6875,40.836],[36.6989,40.8068],[36.7116,40.7994],[36.7565,40.792],[36.8118,40.7661],[36.8954,40.7447],[36.9468,40.7203],[37.0134,40.6989],[37.0846,40.6943],[37.1525,40.7019],[37.2197,40.6977],[37.4488,40.5759],[37.5841,40.5694],[37.617,40.5212],[37.6349,40.4612],[37.6901,40.3794],[37.7669,40.3319],[37.8019,40.3357],[37.8313,40.3528],[37.8614,40.3839],[37.8977,40.4041],[37.9802,40.4013],[38.0016,40.4116],[38.0059,40.4286],[37.9953,40.4397],[37.998,40.4688],[38.0084,40.481],[38.0492,40.4888],[38.0952,40.4922],[38.1289,40.5037],[38.1583,40.5235],[38.0633,40.6052],[38.0673,40.632],[38.0792,40.6511],[38.0836,40.6844],[38.0805,40.7179],[38.085,40.7523],[38.0797,40.786],[38.0627,40.8145],[38.0629,40.8463],[38.0794,40.8705],[38.1011,40.8891],[38.1153,40.9194],[38.1134,40.9543],[38.1142,40.9582],[38.1022,40.9597],[37.9817,40.9902],[37.9347,40.9951],[37.8958,40.9821],[37.8783,41.0056],[37.8679,41.0156],[37.8543,41.0237],[37.8027,41.0429],[37.7852,41.06],[37.7839,41.1226],[37.7581,41.1193],[37.7512,41.1261],[37.7342,41.1147],[37.7151,41.1147],[37.6985,41.1241],[37.6898,41.1404],[37.672,41.1313],[37.655,41.1176],[37.6401,41.1015],[37.6283,41.0852],[37.6152,41.0585],[37.6079,41.0504],[37.6004,41.0463],[37.5864,41.0422],[37.5806,41.0368],[37.5647,41.0405],[37.5248,41.0372],[37.5047,41.0429],[37.4813,41.0622],[37.4775,41.0678],[37.4365,41.0777],[37.4194,41.0876],[37.3954,41.1085],[37.3779,41.1125],[37.3545,41.1142],[37.3335,41.1193],[37.3224,41.1241],[37.2993,41.1404],[37.2634,41.1479],[37.1517,41.1468]]]] } },
+    { type: "Feature", properties: { plate: 53, name: "Rize" }, geometry: { type: "MultiPolygon", coordinates: [[[[40.3523,40.9941],[40.388,40.9319],[40.413,40.8653],[40.4242,40.7945],[40.4869,40.6733],[40.4754,40.6057],[40.4894,40.5421],[40.6514,40.6041],[40.6914,40.6123],[40.7321,40.6158],[40.7918,40.6291],[40.8219,40.6866],[40.8575,40.698],[40.9016,40.6983],[40.9444,40.709],[41.0509,40.7784],[41.1274,40.8129],[41.1417,40.8528],[41.2373,40.9366],[41.2605,40.9463],[41.2803,40.9609],[41.2898,40.9814],[41.3044,41.0023],[41.3587,41.0286],[41.3858,41.0753],[41.3557,41.1],[41.3162,41.1146],[41.3066,41.1326],[41.2945,41.1488],[41.274,41.1596],[41.2553,41.1727],[41.2359,41.2072],[41.2284,41.2465],[41.2019,41.2981],[41.1998,41.3012],[41.1997,41.3013],[41.1908,41.2957],[41.1726,41.2912],[41.1467,41.29],[41.1213,41.2855],[41.1008,41.2742],[41.0614,41.2428],[41.0427,41.2325],[41.0203,41.2237],[40.9971,41.2177],[40.9761,41.2155],[40.9598,41.2106],[40.922,41.1906],[40.8968,41.1876],[40.854,41.1993],[40.8389,41.2012],[40.8275,41.1979],[40.7576,41.1584],[40.6983,41.0981],[40.6859,41.092],[40.6707,41.088],[40.6397,41.0852],[40.6261,41.0822],[40.5884,41.0573],[40.5574,41.0425],[40.5291,41.0363],[40.4997,41.0388],[40.4649,41.0504],[40.3523,40.9941]]]] } },
+    { type: "Feature", properties: { plate: 54, name: "Sakarya" }, geometry: { type: "MultiPolygon", coordinates: [[[[30.4293,41.1706],[30.4242,41.1556],[30.3921,41.0941],[30.4099,41.0433],[30.4829,41.0329],[30.488,41.0003],[30.4653,40.9694],[30.4592,40.9357],[30.4411,40.9331],[30.3849,40.9317],[30.3528,40.9435],[30.3129,40.9501],[30.2949,40.9411],[30.3031,40.9193],[30.3169,40.9161],[30.3289,40.9103],[30.264,40.8572],[30.2239,40.7086],[30.183,40.6463],[30.125,40.617],[30.0589,40.6055],[30.0282,40.5911],[29.9957,40.5818],[29.9262,40.577],[29.931,40.5545],[29.9408,40.5335],[29.9688,40.4887],[30.0046,40.4477],[30.044,40.4221],[30.081,40.3914],[30.1691,40.371],[30.3075,40.399],[30.3507,40.4021],[30.3874,40.3942],[30.4263,40.394],[30.4577,40.3791],[30.4813,40.3506],[30.4985,40.3396],[30.5736,40.341],[30.626,40.3315],[30.6448,40.3673],[30.6216,40.403],[30.6011,40.4229],[30.595,40.4489],[30.6068,40.4588],[30.6225,40.4662],[30.65,40.5283],[30.6908,40.5744],[30.7607,40.5721],[30.8252,40.5958],[30.8373,40.6255],[30.8305,40.6569],[30.8278,40.689],[30.8912,40.7268],[30.9125,40.7576],[30.8929,40.7804],[30.8831,40.8072],[30.8961,40.8352],[30.8933,40.8655],[30.8765,40.8919],[30.8694,40.9223],[30.9043,40.9816],[30.9617,41.022],[30.9603,41.044],[30.9546,41.0726],[30.9559,41.0824],[30.8333,41.0799],[30.7481,41.092],[30.7324,41.0994],[30.6992,41.1215],[30.4293,41.1706]]]] } },
+    { type: "Feature", properties: { plate: 55, name: "Samsun" }, geometry: { type: "MultiPolygon", coordinates: [[[[35.5001,41.6416],[35.5001,41.6415],[35.4608,41.5742],[35.456,41.5236],[35.4723,41.4755],[35.4745,41.4464],[35.4709,41.4171],[35.4763,41.394],[35.4895,41.3735],[35.4969,41.3444],[35.5048,41.2845],[35.4851,41.2728],[35.4338,41.2833],[35.4139,41.2768],[35.4133,41.2757],[35.3831,41.2602],[35.3399,41.2545],[35.2963,41.2583],[35.2654,41.2712],[35.2481,41.2857],[35.2397,41.2892],[35.1944,41.2934],[35.1849,41.299],[35.1958,41.311],[35.1628,41.3235],[35.1472,41.3322],[35.1406,41.3415],[35.1386,41.3591],[35.1328,41.3771],[35.1241,41.3918],[35.1133,41.3998],[35.1024,41.3853],[35.0768,41.3743],[35.0239,41.3588],[34.9913,41.3348],[34.9792,41.3309],[34.9538,41.3298],[34.9438,41.326],[34.9345,41.3179],[34.9418,41.2999],[34.9267,41.288],[34.9039,41.2791],[34.888,41.2698],[34.9395,41.2003],[34.9524,41.1632],[34.959,41.1248],[34.9748,41.0874],[35.0516,41.0942],[35.0893,41.0869],[35.4,41.0207],[35.4611,41.0294],[35.4941,41.015],[35.6388,40.931],[35.673,40.886],[35.7061,40.8788],[35.7823,40.8831],[35.8208,40.8772],[35.9532,40.8759],[36.0314,40.8474],[36.0735,40.8548],[36.1095,40.8786],[36.1548,40.9014],[36.1855,40.9422],[36.2031,40.9878],[36.2429,41.007],[36.2792,40.9969],[36.3071,40.9738],[36.3196,40.9504],[36.3355,40.9292],[36.4431,40.8704],[36.5526,40.8902],[36.5868,40.9025],[36.5937,40.9101],[36.6,40.9068],[36.6529,40.9056],[36.6872,40.8866],[36.7052,40.8625],[36.7264,40.8674],[36.746,40.875],[36.789,40.8776],[36.8284,40.8878],[36.8658,40.9038],[36.8807,40.9124],[36.9203,40.9458],[36.9991,40.9797],[37.0423,41.0418],[37.0984,41.0866],[37.1514,41.1408],[37.1517,41.1468],[37.1355,41.1466],[37.1157,41.1531],[37.0775,41.1708],[37.0564,41.1745],[37.0397,41.1815],[37.0339,41.1988],[37.0319,41.2428],[37.0153,41.2746],[36.9849,41.2945],[36.8367,41.3508],[36.7581,41.3663],[36.6717,41.3663],[36.6502,41.3693],[36.6336,41.3741],[36.6199,41.3751],[36.6067,41.3663],[36.6087,41.3649],[36.6019,41.3437],[36.5999,41.3415],[36.5967,41.3353],[36.5825,41.3171],[36.5794,41.3073],[36.5708,41.2979],[36.5179,41.2626],[36.4761,41.2449],[36.451,41.2404],[36.4325,41.2462],[36.4238,41.2517],[36.405,41.2536],[36.395,41.2564],[36.3901,41.2603],[36.3801,41.2722],[36.3745,41.277],[36.3633,41.2811],[36.3522,41.2836],[36.3438,41.2887],[36.3405,41.3005],[36.3399,41.3109],[36.3373,41.3185],[36.3319,41.3232],[36.3034,41.3285],[36.2533,41.3488],[36.2368,41.3589],[36.2048,41.4065],[36.1789,41.42],[36.1345,41.4619],[36.1238,41.4792],[36.12,41.4943],[36.1208,41.527],[36.1223,41.5318],[36.131,41.5482],[36.1345,41.5582],[36.1345,41.5991],[36.1205,41.6278],[36.0449,41.7015],[36.0381,41.7015],[36.0381,41.6878],[35.9779,41.7297],[35.9729,41.7286],[35.9624,41.722],[35.9479,41.71],[35.9343,41.6921],[35.9248,41.6702],[35.9227,41.6462],[35.9153,41.6462],[35.9116,41.6628],[35.9305,41.6938],[35.929,41.7089],[35.939,41.7121],[35.9468,41.7172],[35.9525,41.7233],[35.9568,41.7294],[35.9568,41.7363],[35.9348,41.7324],[35.8938,41.7075],[35.8701,41.7015],[35.8462,41.6987],[35.7406,41.665],[35.6787,41.6569],[35.6409,41.6393],[35.6198,41.6326],[35.5767,41.6297],[35.5301,41.6343],[35.5001,41.6416]]]] } },
+    { type: "Feature", properties: { plate: 56, name: "Siirt" }, geometry: { type: "MultiPolygon", coordinates: [[[[42.7869,38.1811],[42.7586,38.1146],[42.7462,38.1034],[42.7357,38.0902],[42.7358,38.0591],[42.7409,38.0285],[42.7371,37.9824],[42.7066,37.9461],[42.6685,37.9442],[42.6004,37.9825],[42.4993,38.0278],[42.4378,38.0643],[42.3928,38.0788],[42.3229,38.0934],[42.2509,38.1167],[42.1861,38.1554],[42.1276,38.2024],[42.0602,38.2272],[41.9744,38.2012],[41.8882,38.1833],[41.7799,38.1903],[41.6773,38.2214],[41.6322,38.1797],[41.6115,38.126],[41.5619,38.0806],[41.4462,38.0558],[41.4131,38.0103],[41.4214,37.9442],[41.5289,37.8656],[41.7107,37.8078],[41.8169,37.7138],[41.9587,37.659],[42.157,37.6466],[42.2354,37.7086],[42.3676,37.7044],[42.5697,37.663],[42.7811,37.6384],[42.9505,37.626],[43.0119,37.6754],[43.0233,37.7317],[42.9835,37.8064],[42.9936,37.8344],[43.0081,37.8582],[43.0115,37.9167],[43.0248,37.9572],[43.0293,37.9994],[43.0227,38.0404],[43.0258,38.0809],[43.0163,38.1518],[42.9455,38.1733],[42.865,38.1853],[42.7869,38.1811]]]] } },
+    { type: "Feature", properties: { plate: 57, name: "Sinop" }, geometry: { type: "MultiPolygon", coordinates: [[[[34.2161,41.9601],[34.2209,41.9035],[34.1926,41.8451],[34.1422,41.8002],[34.1404,41.7671],[34.2051,41.7478],[34.2409,41.7486],[34.2842,41.7453],[34.3443,41.7325],[34.4661,41.7275],[34.5325,41.7132],[34.5879,41.6575],[34.5533,41.5912],[34.5209,41.5742],[34.4918,41.5523],[34.472,41.5185],[34.4629,41.4798],[34.4695,41.461],[34.4798,41.4416],[34.4719,41.3108],[34.4985,41.2859],[34.5357,41.2877],[34.5575,41.2846],[34.5741,41.2705],[34.6082,41.2658],[34.641,41.2721],[34.6704,41.2661],[34.6958,41.2524],[34.7066,41.2375],[34.7239,41.2293],[34.8373,41.2016],[34.8584,41.2208],[34.8761,41.233],[34.8807,41.2386],[34.8835,41.2461],[34.8852,41.2629],[34.888,41.2698],[34.9039,41.2791],[34.9267,41.288],[34.9418,41.2999],[34.9345,41.3179],[34.9438,41.326],[34.9538,41.3298],[34.9792,41.3309],[34.9913,41.3348],[35.0239,41.3588],[35.0768,41.3743],[35.1024,41.3853],[35.1133,41.3998],[35.1241,41.3918],[35.1328,41.3771],[35.1386,41.3591],[35.1406,41.3415],[35.1472,41.3322],[35.1628,41.3235],[35.1958,41.311],[35.1849,41.299],[35.1944,41.2934],[35.2397,41.2892],[35.2481,41.2857],[35.2654,41.2712],[35.2963,41.2583],[35.3399,41.2545],[35.3831,41.2602],[35.4133,41.2757],[35.4139,41.2768],[35.4338,41.2833],[35.4851,41.2728],[35.5048,41.2845],[35.4969,41.3444],[35.4895,41.3735],[35.4763,41.394],[35.4709,41.4171],[35.4745,41.4464],[35.4723,41.4755],[35.456,41.5236],[35.4608,41.5742],[35.5001,41.6415],[35.5001,41.6416],[35.4859,41.6451],[35.4491,41.6605],[35.4173,41.6834],[35.4011,41.6916],[35.3577,41.6968],[35.2982,41.7152],[35.2826,41.7242],[35.2536,41.7506],[35.2248,41.7619],[35.2118,41.7754],[35.202,41.7914],[35.1958,41.8045],[35.2095,41.8045],[35.2095,41.8113],[35.1558,41.8457],[35.1257,41.8753],[35.0986,41.9127],[35.0921,41.928],[35.093,41.9467],[35.0988,41.9697],[35.1074,41.9917],[35.1167,42.0069],[35.1375,42.0195],[35.1626,42.0217],[35.2163,42.0168],[35.2163,42.0236],[35.1958,42.0381],[35.1862,42.0425],[35.1712,42.0441],[35.1604,42.0415],[35.1442,42.0285],[35.1338,42.0236],[35.1045,42.0219],[35.0816,42.0292],[35.0444,42.0516],[35.0444,42.0578],[35.0488,42.0651],[35.0418,42.0721],[35.0311,42.0806],[35.0239,42.0925],[35.0161,42.0922],[35.0101,42.0928],[35.0059,42.0914],[35.0034,42.0851],[34.9907,42.0911],[34.9621,42.095],[34.9481,42.0988],[34.9419,42.0693],[34.9188,42.0355],[34.889,42.0078],[34.8529,41.9915],[34.8151,41.9691],[34.7986,41.9622],[34.7463,41.9504],[34.6942,41.9459],[34.5618,41.9518],[34.527,41.9606],[34.4987,41.9719],[34.4827,41.9752],[34.4455,41.9728],[34.3313,41.9479],[34.2161,41.9601]]]] } },
+    { type: "Feature", properties: { plate: 58, name: "Sivas" }, geometry: { type: "MultiPolygon", coordinates: [[[[38.1583,40.5235],[38.1289,40.5037],[38.0952,40.4922],[38.0492,40.4888],[38.0084,40.481],[37.998,40.4688],[37.9953,40.4397],[38.0059,40.4286],[38.0016,40.4116],[37.9802,40.4013],[37.8977,40.4041],[37.8614,40.3839],[37.8313,40.3528],[37.8019,40.3357],[37.7669,40.3319],[37.6901,40.3794],[37.6349,40.4612],[37.5841,40.382],[37.5241,40.317],[37.4881,40.3061],[37.4511,40.2991],[37.4361,40.2992],[37.4221,40.2955],[37.388,40.2741],[37.3508,40.259],[37.2671,40.2494],[37.1824,40.2529],[37.0894,40.2434],[36.9587,40.2167],[36.9222,40.2049],[36.8077,40.2166],[36.7693,40.2073],[36.7339,40.1913],[36.7072,40.1333],[36.6864,40.073],[36.6669,40.0345],[36.6349,40.0097],[36.4875,39.9659],[36.3221,39.9597],[36.0887,39.9237],[36.1167,39.8505],[36.1653,39.7843],[36.2003,39.7696],[36.2105,39.7482],[36.213,39.7244],[36.1835,39.6426],[36.1104,39.5867],[36.0243,39.5351],[35.9897,39.5024],[35.959,39.4659],[35.9346,39.4275],[35.9033,39.3952],[35.8576,39.3694],[35.8199,39.3344],[35.8724,39.3315],[35.921,39.3122],[35.9301,39.303],[35.9429,39.2816],[35.9514,39.2736],[35.9837,39.2633],[36.0166,39.2594],[36.1115,39.2057],[36.2104,39.1955],[36.2867,39.2164],[36.4521,39.1982],[36.5013,39.1686],[36.5513,39.1551],[36.6412,39.1788],[36.7343,39.1788],[36.8205,39.1663],[36.8998,39.1335],[36.9363,39.0442],[36.8936,38.9497],[36.871,38.9135],[36.8515,38.8755],[36.8253,38.7963],[36.785,38.7055],[36.7811,38.6888],[36.7739,38.6743],[36.7502,38.6404],[36.7475,38.5994],[36.8789,38.625],[37.0088,38.6105],[37.0336,38.5974],[37.0597,38.5881],[37.2844,38.6036],[37.3429,38.6249],[37.3936,38.6613],[37.4447,38.7082],[37.4669,38.7144],[37.5098,38.7366],[37.5805,38.7968],[37.5969,38.8343],[37.5911,38.8566],[37.5795,38.8774],[37.5614,38.9222],[37.5516,38.9694],[37.5736,39.0082],[37.6176,39.017],[37.7022,38.9843],[37.7858,38.9983],[37.8216,39.0169],[37.8594,39.0294],[37.8949,39.0481],[37.932,39.0623],[38.01,39.0637],[38.0443,39.0749],[38.0802,39.0802],[38.1477,39.0726],[38.2123,39.0876],[38.2839,39.1297],[38.3617,39.1503],[38.384,39.1773],[38.3926,39.211],[38.3879,39.2271],[38.3817,39.2427],[38.3831,39.2617],[38.3875,39.2791],[38.3816,39.3093],[38.3689,39.3374],[38.3682,39.3714],[38.3667,39.3886],[38.3614,39.3993],[38.3741,39.402],[38.3835,39.4091],[38.3922,39.4179],[38.403,39.426],[38.4385,39.444],[38.4467,39.4599],[38.4238,39.4841],[38.3908,39.5005],[38.3556,39.5265],[38.3442,39.5648],[38.3671,39.5991],[38.3786,39.7035],[38.4266,39.7541],[38.4527,39.7872],[38.49,39.8026],[38.5103,39.8021],[38.5297,39.8052],[38.5402,39.8328],[38.5192,39.852],[38.4462,39.8382],[38.3772,39.8363],[38.3692,39.8679],[38.4067,39.9507],[38.4511,39.9708],[38.4977,39.9431],[38.5464,39.937],[38.5932,39.9627],[38.6456,39.9715],[38.6913,39.9657],[38.7372,39.9655],[38.7585,40.0038],[38.7616,40.0549],[38.661,40.0935],[38.5563,40.1194],[38.4542,40.0999],[38.3923,40.1283],[38.3311,40.1647],[38.2748,40.1861],[38.2382,40.2286],[38.2405,40.2852],[38.1583,40.5235]]]] } },
+    { type: "Feature", properties: { plate: 59, name: "Tekirdağ" }, geometry: { type: "MultiPolygon", coordinates: [[[[28.1747,41.0808],[28.163,41.1365],[28.1493,41.213],[28.163,41.2732],[28.193,41.3553],[28.1821,41.421],[28.1557,41.4922],[27.9804,41.4781],[27.8074,41.4614],[27.6989,41.4419],[27.6014,41.4197],[27.5541,41.3668],[27.5179,41.3111],[27.4596,41.2782],[27.396,41.2646],[27.3403,41.2924],[27.2955,41.3369],[27.2398,41.3648],[27.1234,41.3648],[26.9603,41.3553],[26.8098,41.3303],[26.8215,41.3124],[26.8293,41.1728],[26.8139,41.1135],[26.765,41.0653],[26.7341,41.0056],[26.7163,40.935],[26.7231,40.8537],[26.761,40.791],[26.7864,40.7258],[26.9324,40.7149],[26.9319,40.6358],[26.9635,40.561],[26.9898,40.5638],[27.0015,40.5703],[27.0306,40.6015],[27.0475,40.6122],[27.0686,40.6144],[27.1152,40.6137],[27.1428,40.6274],[27.167,40.6299],[27.1777,40.6326],[27.1823,40.6364],[27.1927,40.6483],[27.1983,40.6531],[27.2879,40.7036],[27.3308,40.761],[27.4248,40.8313],[27.4465,40.8617],[27.4717,40.9418],[27.4932,40.9753],[27.5242,40.9892],[27.7378,41.0126],[27.7761,41.011],[27.8153,41.0026],[27.8316,40.9951],[27.8457,40.9861],[27.8607,40.9785],[27.9413,40.9711],[27.9592,40.9753],[27.9578,40.9833],[27.9644,40.9963],[27.9866,41.0237],[27.9973,41.032],[28.013,41.0407],[28.0301,41.0476],[28.0449,41.0504],[28.1003,41.0678],[28.11,41.0678],[28.1174,41.0712],[28.1653,41.0852],[28.1747,41.0808]]]] } },
+    { type: "Feature", properties: { plate: 60, name: "Tokat" }, geometry: { type: "MultiPolygon", coordinates: [[[[36.7052,40.8625],[36.6872,40.8866],[36.6529,40.9056],[36.6,40.9068],[36.5937,40.9101],[36.5868,40.9025],[36.5526,40.8902],[36.4431,40.8704],[36.4149,40.8585],[36.4149,40.8517],[36.4223,40.8517],[36.4223,40.8449],[36.4098,40.8314],[36.421,40.8145],[36.4412,40.7991],[36.4565,40.7903],[36.4735,40.7852],[36.4938,40.7456],[36.459,40.7062],[36.442,40.6732],[36.4417,40.6361],[36.3973,40.588],[36.3166,40.575],[36.3103,40.5241],[36.3028,40.5208],[36.2947,40.518],[36.28,40.5079],[36.1972,40.4661],[36.1358,40.4437],[36.1182,40.444],[36.1011,40.4544],[36.0808,40.4617],[36.0592,40.4658],[36.0309,40.4774],[36.0058,40.4937],[35.9251,40.5104],[35.8423,40.5052],[35.816,40.4813],[35.7714,40.4059],[35.7422,40.3658],[35.7157,40.3366],[35.6864,40.3105],[35.6514,40.2983],[35.6329,40.2946],[35.5785,40.2774],[35.5492,40.2527],[35.5098,40.1886],[35.5783,40.1292],[35.6574,40.0868],[35.7503,40.0927],[35.829,40.0805],[35.876,40.0837],[35.9228,40.091],[35.9648,40.105],[36.0064,40.1147],[36.0478,40.0827],[36.0406,40.0266],[36.0394,39.9877],[36.0589,39.9591],[36.0778,39.9454],[36.0887,39.9237],[36.3221,39.9597],[36.4875,39.9659],[36.6349,40.0097],[36.6669,40.0345],[36.6864,40.073],[36.7072,40.1333],[36.7339,40.1913],[36.7693,40.2073],[36.8077,40.2166],[36.9222,40.2049],[36.9587,40.2167],[37.0894,40.2434],[37.1824,40.2529],[37.2671,40.2494],[37.3508,40.259],[37.388,40.2741],[37.4221,40.2955],[37.4361,40.2992],[37.4511,40.2991],[37.4881,40.3061],[37.5241,40.317],[37.5841,40.382],[37.6349,40.4612],[37.617,40.5212],[37.5841,40.5694],[37.4488,40.5759],[37.2197,40.6977],[37.1525,40.7019],[37.0846,40.6943],[37.0134,40.6989],[36.9468,40.7203],[36.8954,40.7447],[36.8118,40.7661],[36.7565,40.792],[36.7116,40.7994],[36.6989,40.8068],[36.6875,40.836],[36.7052,40.8625]]]] } },
+    { type: "Feature", properties: { plate: 61, name: "Trabzon" }, geometry: { type: "MultiPolygon", coordinates: [[[[39.1483,41.0725],[39.1201,40.9512],[39.1174,40.9011],[39.126,40.8096],[39.1444,40.7714],[39.1627,40.7596],[39.1842,40.7587],[39.2048,40.7719],[39.2213,40.7898],[39.2635,40.7711],[39.2786,40.7125],[39.3452,40.6596],[39.5789,40.5878],[39.6385,40.5819],[39.6591,40.5865],[39.6747,40.5988],[39.6863,40.6395],[39.7173,40.6574],[39.7859,40.6222],[39.834,40.561],[39.8547,40.5615],[39.8699,40.5749],[39.8633,40.5994],[39.8766,40.6083],[39.8836,40.6118],[39.9138,40.603],[39.9747,40.5503],[40.0159,40.5327],[40.1017,40.5307],[40.1846,40.5104],[40.2279,40.5112],[40.2767,40.5228],[40.3267,40.53],[40.4294,40.5295],[40.4692,40.5393],[40.4894,40.5421],[40.4754,40.6057],[40.4869,40.6733],[40.4242,40.7945],[40.413,40.8653],[40.388,40.9319],[40.3523,40.9941],[40.301,40.9685],[40.2546,40.9587],[40.2315,40.9468],[40.1956,40.9363],[40.1725,40.9322],[40.1428,40.9228],[40.126,40.9206],[40.0857,40.9265],[40.0568,40.9414],[39.9994,40.9821],[39.9749,40.9803],[39.9119,40.9638],[39.8957,40.9548],[39.8765,40.9578],[39.8587,40.9643],[39.7992,41.0003],[39.7902,41.0026],[39.7683,41.0014],[39.7571,41.0023],[39.73,41.0172],[39.7101,41.015],[39.6898,41.0075],[39.6697,41.0026],[39.6301,41.0085],[39.5921,41.0251],[39.5326,41.0646],[39.5072,41.0901],[39.4929,41.101],[39.4302,41.1125],[39.4182,41.11],[39.4124,41.1065],[39.4089,41.1024],[39.4028,41.0981],[39.3491,41.074],[39.3374,41.0709],[39.3172,41.0681],[39.29,41.0548],[39.2732,41.0504],[39.2507,41.053],[39.22,41.0729],[39.2012,41.0777],[39.1683,41.0797],[39.1565,41.0777],[39.1483,41.0725]]]] } },
+    { type: "Feature", properties: { plate: 62, name: "Tunceli" }, geometry: { type: "MultiPolygon", coordinates: [[[[40.5548,39.549],[40.4729,39.5509],[40.3919,39.561],[40.2427,39.5648],[40.2235,39.5731],[40.1859,39.583],[40.1755,39.5844],[40.172,39.5812],[40.1399,39.5737],[40.1018,39.5601],[40.0813,39.557],[39.9887,39.5324],[39.9104,39.5478],[39.8564,39.5715],[39.8191,39.5626],[39.7741,39.5185],[39.7038,39.5009],[39.5513,39.4828],[39.4724,39.4822],[39.3958,39.4969],[39.3189,39.5008],[39.2792,39.484],[39.2371,39.4759],[39.1846,39.4835],[39.1321,39.4748],[39.0333,39.4462],[39.006,39.4293],[38.9878,39.4024],[38.9627,39.3924],[38.9342,39.3936],[38.9194,39.3779],[38.908,39.3608],[38.8962,39.3558],[38.8368,39.3387],[38.821,39.3072],[38.8338,39.2765],[38.8477,39.2578],[38.8203,39.2449],[38.7937,39.2407],[38.77,39.2296],[38.7556,39.1726],[38.7335,39.164],[38.7281,39.1634],[38.7204,39.1579],[38.7167,39.1344],[38.7208,39.111],[38.7291,39.1064],[38.7372,39.0996],[38.7457,39.0378],[38.7843,38.9931],[38.7853,38.9642],[38.7706,38.9374],[38.7698,38.9096],[38.8131,38.8772],[38.8414,38.8765],[38.9198,38.8929],[38.9988,38.8975],[39.0414,38.883],[39.0512,38.884],[39.0708,38.8881],[39.0809,38.8872],[39.1122,38.8724],[39.1437,38.8705],[39.1843,38.8611],[39.2254,38.858],[39.2713,38.841],[39.3143,38.8175],[39.3587,38.8071],[39.3781,38.7958],[39.4005,38.7741],[39.4092,38.7752],[39.4267,38.7789],[39.4509,38.7695],[39.4756,38.7633],[39.5064,38.78],[39.5318,38.8061],[39.5668,38.8114],[39.6024,38.8093],[39.6995,38.8143],[39.7928,38.8433],[39.8536,38.8958],[39.8802,38.9386],[39.8944,38.9854],[39.8899,39.0207],[39.8791,39.0593],[39.8923,39.0749],[39.9111,39.0859],[39.9614,39.0946],[40.0151,39.0974],[40.0319,39.1281],[40.04,39.1616],[40.0189,39.237],[40.0248,39.2633],[40.0358,39.2886],[40.0416,39.338],[40.0563,39.3579],[40.1053,39.3701],[40.1757,39.3671],[40.1896,39.3718],[40.1991,39.3884],[40.2077,39.408],[40.2528,39.4218],[40.3017,39.4211],[40.3484,39.447],[40.3764,39.4919],[40.3923,39.5022],[40.4393,39.4956],[40.4653,39.4944],[40.5155,39.5127],[40.5548,39.549]]]] } },
+    { type: "Feature", properties: { plate: 63, name: "Şanlıurfa" }, geometry: { type: "MultiPolygon", coordinates: [[[[39.4417,36.6924],[39.7653,36.7422],[39.9798,36.807],[40.0792,36.8549],[40.1152,36.8647],[40.1527,36.8704],[40.1901,36.8844],[40.2614,36.9228],[40.2609,36.923],[40.2179,36.9417],[40.1275,37.069],[40.1372,37.1486],[40.1249,37.1697],[40.0741,37.2112],[40.0422,37.2327],[40.0138,37.2575],[40,37.3757],[39.9537,37.4174],[39.9202,37.4695],[39.8843,37.5501],[39.8815,37.565],[39.8722,37.5936],[39.8567,37.6694],[39.8632,37.7777],[39.8486,37.8019],[39.8305,37.8063],[39.8128,37.8136],[39.7875,37.8328],[39.7592,37.8424],[39.7493,37.8292],[39.7385,37.8172],[39.6913,37.8339],[39.6527,37.8621],[39.6202,37.871],[39.5888,37.883],[39.5233,37.9261],[39.4626,37.9767],[39.4079,37.997],[39.3486,37.9989],[39.2675,38.0091],[39.189,38.0431],[39.1499,38.0207],[39.0896,38.007],[39.0723,37.9995],[39.0603,37.9879],[39.0556,37.9731],[39.0505,37.9397],[39.0404,37.9252],[39.0272,37.918],[38.9783,37.906],[38.9885,37.8907],[38.9892,37.878],[38.9827,37.8654],[38.9709,37.8507],[38.9762,37.8459],[38.9792,37.8384],[38.9779,37.8302],[38.9709,37.8228],[38.9653,37.8231],[38.9455,37.8288],[38.9368,37.8296],[38.9214,37.8251],[38.9085,37.8168],[38.8978,37.8046],[38.8889,37.7886],[38.9035,37.7918],[38.9306,37.8075],[38.9436,37.8091],[38.9539,37.8014],[38.9525,37.7752],[38.9647,37.7613],[38.9448,37.7569],[38.9222,37.756],[38.9018,37.7527],[38.8889,37.7408],[38.8979,37.7356],[38.9231,37.7135],[38.9164,37.709],[38.9081,37.7062],[38.8997,37.7062],[38.8824,37.7149],[38.875,37.7104],[38.8693,37.7031],[38.8647,37.6992],[38.8611,37.6981],[38.8561,37.6956],[38.8493,37.6933],[38.8412,37.6924],[38.836,37.6947],[38.8228,37.7045],[38.8207,37.7067],[38.8005,37.697],[38.8185,37.6809],[38.8685,37.6514],[38.6456,37.6242],[38.5974,37.5834],[38.588,37.5795],[38.5754,37.5615],[38.5154,37.5111],[38.4948,37.5006],[38.3723,37.4839],[38.3408,37.4944],[38.2826,37.4769],[38.272,37.4764],[38.2657,37.4544],[38.2499,37.4485],[38.2068,37.4535],[38.198,37.4479],[38.1968,37.4358],[38.1972,37.4236],[38.1932,37.4181],[38.1901,37.4171],[38.1883,37.415],[38.1857,37.4129],[38.1801,37.4119],[38.1766,37.4137],[38.1751,37.4226],[38.1702,37.4255],[38.1256,37.4337],[38.1084,37.4409],[38.0945,37.4535],[38.0655,37.4368],[38.054,37.4364],[38.0399,37.446],[38.0229,37.4435],[38.006,37.4452],[37.9897,37.4447],[37.9744,37.4354],[37.93,37.3908],[37.8963,37.3638],[37.8856,37.3506],[37.879,37.3251],[37.8728,37.3209],[37.865,37.3177],[37.8577,37.3129],[37.8522,37.3038],[37.8406,37.2679],[37.8549,37.2599],[37.8669,37.2493],[37.8742,37.2343],[37.8747,37.2133],[37.8679,37.2133],[37.8617,37.2245],[37.8525,37.2265],[37.8442,37.2192],[37.8406,37.203],[37.8435,37.1866],[37.8507,37.1733],[37.8679,37.1518],[37.8743,37.14],[37.8762,37.1308],[37.8747,37.1068],[37.8682,37.0776],[37.8693,37.0651],[37.8815,37.055],[37.8938,37.0601],[37.9038,37.0553],[37.9129,37.0471],[37.9226,37.0419],[37.9308,37.0434],[37.9543,37.0528],[37.9675,37.055],[37.9788,37.05],[37.9766,37.0384],[37.9641,37.014],[37.9639,36.9988],[37.9669,36.9904],[37.9812,36.9768],[38.0079,36.9571],[38.0119,36.9492],[38.0131,36.9237],[38.0152,36.9135],[38.0187,36.9042],[38.0361,36.8887],[38.0406,36.8804],[38.0293,36.8768],[38.0212,36.8711],[38.019,36.858],[38.0212,36.8442],[38.0258,36.8353],[38.026,36.835],[38.123,36.8846],[38.1901,36.9055],[38.2243,36.9084],[38.2899,36.9017],[38.48,36.8557],[38.5294,36.8337],[38.6352,36.744],[38.6641,36.7195],[38.725,36.6939],[38.7954,36.6867],[38.958,36.6929],[38.98,36.6982],[39.0322,36.7012],[39.1859,36.6595],[39.2396,36.6613],[39.4417,36.6924]]]] } },
+    { type: "Feature", properties: { plate: 64, name: "Uşak" }, geometry: { type: "MultiPolygon", coordinates: [[[[29.8881,38.7069],[29.8887,38.8103],[29.8413,38.8525],[29.8118,38.862],[29.6881,38.8851],[29.6244,38.8838],[29.5966,38.8777],[29.5714,38.8652],[29.5543,38.8092],[29.5293,38.763],[29.4712,38.7596],[29.3457,38.7316],[29.2735,38.7291],[29.2067,38.7368],[29.1455,38.7667],[29.0868,38.7672],[29.0323,38.7301],[28.9955,38.701],[28.9179,38.6537],[28.9064,38.6339],[28.8767,38.6084],[28.8484,38.6001],[28.8519,38.5647],[28.8804,38.5571],[28.9029,38.5354],[28.9067,38.5133],[28.9081,38.4893],[28.9155,38.4407],[28.9082,38.3932],[28.8949,38.3632],[28.8751,38.338],[28.8481,38.3178],[28.8385,38.3034],[28.8638,38.288],[28.8938,38.2874],[28.931,38.2551],[28.9905,38.2452],[29.0449,38.2193],[29.1011,38.2192],[29.1515,38.2464],[29.1876,38.2412],[29.2191,38.2133],[29.2522,38.2122],[29.285,38.2208],[29.2987,38.2269],[29.3119,38.2313],[29.3361,38.218],[29.3483,38.2198],[29.3614,38.2394],[29.3619,38.2517],[29.4123,38.2827],[29.4833,38.2768],[29.5592,38.2783],[29.5958,38.2871],[29.6277,38.3096],[29.6199,38.3683],[29.6286,38.4288],[29.7533,38.4502],[29.7508,38.4777],[29.7739,38.5007],[29.7931,38.5417],[29.8071,38.5812],[29.8681,38.6277],[29.8832,38.6654],[29.8881,38.7069]]]] } },
+    { type: "Feature", properties: { plate: 65, name: "Van" }, geometry: { type: "MultiPolygon", coordinates: [[[[44.0474,39.3375],[44.0471,39.3374],[43.906,39.3084],[43.8681,39.314],[43.8513,39.319],[43.7922,39.3232],[43.7435,39.3356],[43.7056,39.3404],[43.6675,39.3367],[43.6391,39.3197],[43.6136,39.2997],[43.5787,39.3001],[43.4923,39.3133],[43.4472,39.3355],[43.3898,39.3821],[43.3208,39.4064],[43.2437,39.4099],[43.2003,39.3843],[43.1627,39.3468],[43.1295,39.3375],[43.0697,39.3286],[43.0453,39.3212],[43.0375,39.2915],[43.0752,39.2744],[43.1146,39.2616],[43.1217,39.2311],[43.1154,39.1963],[43.1129,39.1619],[43.0885,39.1409],[42.972,39.1041],[42.9732,39.0281],[43.0036,38.9773],[43.1205,38.9223],[43.1612,38.8723],[43.132,38.7994],[43.0605,38.7553],[43.005,38.7103],[42.9136,38.6027],[42.8963,38.5718],[42.8753,38.5442],[42.8116,38.509],[42.7043,38.4618],[42.6877,38.4472],[42.678,38.4049],[42.6842,38.3831],[42.7192,38.32],[42.7236,38.3072],[42.7253,38.2812],[42.7158,38.246],[42.7335,38.1959],[42.7869,38.1811],[42.865,38.1853],[42.9455,38.1733],[43.0163,38.1518],[43.0258,38.0809],[43.0227,38.0404],[43.0293,37.9994],[43.0248,37.9572],[43.0115,37.9167],[43.0081,37.8582],[42.9936,37.8344],[42.9835,37.8064],[43.0233,37.7317],[43.1029,37.7661],[43.1888,37.757],[43.2643,37.7318],[43.2902,37.7273],[43.3386,37.7282],[43.3868,37.7336],[43.5212,37.7347],[43.6548,37.7517],[43.6825,37.7639],[43.7114,37.773],[43.7533,37.7679],[43.7944,37.7547],[43.8589,37.754],[43.923,37.7644],[43.9778,37.7913],[44.0037,37.8452],[44.0443,37.9012],[44.1169,37.913],[44.2045,37.9048],[44.205,37.9048],[44.2064,37.9083],[44.2167,37.9186],[44.2255,37.9293],[44.2247,37.942],[44.2197,37.9561],[44.2215,37.9688],[44.2276,37.981],[44.236,37.9938],[44.2361,37.994],[44.2454,38.0084],[44.2695,38.03],[44.2783,38.0453],[44.2866,38.0663],[44.2959,38.079],[44.309,38.0872],[44.3283,38.0946],[44.3338,38.1009],[44.3257,38.1197],[44.3271,38.1284],[44.3354,38.1341],[44.3531,38.14],[44.3606,38.1479],[44.3671,38.1625],[44.3732,38.1821],[44.3767,38.2015],[44.3724,38.2495],[44.4006,38.2747],[44.4367,38.2969],[44.4592,38.3224],[44.4588,38.3383],[44.4511,38.354],[44.4388,38.3676],[44.4247,38.377],[44.4091,38.3818],[44.3963,38.3797],[44.3634,38.3646],[44.3134,38.3718],[44.2987,38.3772],[44.2895,38.3823],[44.2866,38.391],[44.2899,38.4074],[44.2905,38.4166],[44.2874,38.4419],[44.2875,38.4537],[44.3002,38.494],[44.3014,38.5112],[44.2922,38.562],[44.2968,38.6016],[44.297,38.6223],[44.2899,38.6389],[44.2825,38.6454],[44.2749,38.6494],[44.2568,38.6539],[44.2443,38.659],[44.2474,38.6651],[44.2561,38.672],[44.2605,38.6792],[44.2555,38.6973],[44.2505,38.7092],[44.2486,38.7218],[44.2527,38.7418],[44.2798,38.8142],[44.275,38.8436],[44.222,38.8634],[44.2058,38.8757],[44.1921,38.8908],[44.1825,38.9131],[44.1782,38.9207],[44.1749,38.9284],[44.1754,38.9367],[44.1746,38.9458],[44.1671,38.952],[44.158,38.9575],[44.152,38.9646],[44.1478,38.9801],[44.1447,38.9868],[44.1392,38.9938],[44.1392,38.994],[44.1534,39.0126],[44.1695,39.023],[44.1791,39.0349],[44.1699,39.0744],[44.175,39.0902],[44.1948,39.1205],[44.1866,39.1451],[44.1481,39.1664],[44.1035,39.1846],[44.0777,39.2001],[44.0766,39.2087],[44.0835,39.2268],[44.0827,39.2357],[44.0706,39.2555],[44.0672,39.264],[44.0667,39.273],[44.0692,39.2796],[44.0694,39.287],[44.0577,39.3068],[44.0518,39.328],[44.0474,39.3375]]]] } },
+    { type: "Feature", properties: { plate: 66, name: "Yozgat" }, geometry: { type: "MultiPolygon", coordinates: [[[[35.5098,40.1886],[35.4604,40.2003],[35.4083,40.1972],[35.3631,40.2006],[35.3444,40.2109],[35.3363,40.2311],[35.3273,40.234],[35.2871,40.2228],[35.1914,40.2174],[35.1811,40.1722],[35.1941,40.161],[35.1901,40.1439],[35.1801,40.1222],[35.1779,40.1025],[35.151,40.0754],[35.0726,40.039],[35.0266,40.0348],[34.9415,40.0539],[34.7916,39.9977],[34.7108,39.9944],[34.6711,39.9977],[34.6117,39.9799],[34.4585,40.0007],[34.3613,39.9762],[34.2658,39.9427],[34.109,39.9286],[34.0525,39.9076],[34.0617,39.8878],[34.0664,39.8669],[34.0632,39.8457],[34.0733,39.8257],[34.0928,39.8096],[34.1135,39.7956],[34.1678,39.7949],[34.2195,39.7576],[34.2705,39.7135],[34.3163,39.7014],[34.395,39.7007],[34.414,39.6799],[34.4229,39.6569],[34.4357,39.6361],[34.5737,39.5052],[34.6173,39.4825],[34.6681,39.4761],[34.7113,39.4468],[34.7371,39.4003],[34.7536,39.3971],[34.7833,39.3871],[34.7904,39.3744],[34.7941,39.353],[34.8035,39.3339],[34.8293,39.3097],[34.8608,39.2968],[34.8806,39.2663],[34.8931,39.2267],[34.9735,39.1878],[34.9961,39.1576],[34.9872,39.1341],[34.991,39.1113],[34.9999,39.0902],[35.0151,39.0661],[35.0278,39.0411],[35.2548,39.0133],[35.3669,39.0691],[35.4115,39.0808],[35.7357,39.2439],[35.8199,39.3344],[35.8576,39.3694],[35.9033,39.3952],[35.9346,39.4275],[35.959,39.4659],[35.9897,39.5024],[36.0243,39.5351],[36.1104,39.5867],[36.1835,39.6426],[36.213,39.7244],[36.2105,39.7482],[36.2003,39.7696],[36.1653,39.7843],[36.1167,39.8505],[36.0887,39.9237],[36.0778,39.9454],[36.0589,39.9591],[36.0394,39.9877],[36.0406,40.0266],[36.0478,40.0827],[36.0064,40.1147],[35.9648,40.105],[35.9228,40.091],[35.876,40.0837],[35.829,40.0805],[35.7503,40.0927],[35.6574,40.0868],[35.5783,40.1292],[35.5098,40.1886]]]] } },
+    { type: "Feature", properties: { plate: 67, name: "Zonguldak" }, geometry: { type: "MultiPolygon", coordinates: [[[[31.3464,41.1507],[31.3846,41.1232],[31.556,41.0595],[31.7991,41.0418],[31.8722,41.0365],[31.9347,41.0241],[32.1494,41.0192],[32.1496,41.1085],[32.182,41.1893],[32.1981,41.2419],[32.2345,41.2742],[32.287,41.3308],[32.3072,41.4156],[32.2709,41.4843],[32.2507,41.5369],[32.1901,41.5571],[32.1341,41.5994],[32.0394,41.5756],[32.0296,41.5712],[31.9933,41.5495],[31.8716,41.5046],[31.6589,41.3979],[31.5086,41.3538],[31.4983,41.352],[31.4927,41.3477],[31.4766,41.329],[31.471,41.3248],[31.4251,41.3226],[31.4036,41.3165],[31.3928,41.3037],[31.3962,41.2955],[31.415,41.2859],[31.4196,41.2803],[31.4175,41.2683],[31.4081,41.2484],[31.406,41.2394],[31.405,41.2182],[31.4011,41.2021],[31.3928,41.1884],[31.3786,41.1745],[31.3464,41.1507]]]] } },
+    { type: "Feature", properties: { plate: 68, name: "Aksaray" }, geometry: { type: "MultiPolygon", coordinates: [[[[33.9301,39.0011],[33.8967,38.935],[33.9366,38.8504],[33.9333,38.7923],[33.8497,38.7301],[33.8116,38.7154],[33.7224,38.7176],[33.6354,38.6987],[33.5535,38.662],[33.4666,38.6436],[33.4474,38.6161],[33.3895,38.5649],[33.3675,38.5315],[33.353,38.4526],[33.3177,38.4098],[33.294,38.3571],[33.2881,38.3201],[33.2721,38.286],[33.2647,38.2045],[33.3012,38.1271],[33.3143,38.1198],[33.3251,38.1088],[33.3331,38.0677],[33.3485,38.0292],[33.4155,37.9637],[33.4561,37.9332],[33.4997,37.9318],[33.6189,37.9521],[33.7746,37.9608],[33.8538,37.9578],[33.9321,37.9736],[34.0094,37.9981],[34.0849,38.0118],[34.1598,38.0023],[34.4898,38.3885],[34.4519,38.4078],[34.4188,38.4349],[34.3776,38.46],[34.3601,38.4732],[34.3593,38.5216],[34.3895,38.5718],[34.3808,38.6174],[34.3599,38.6224],[34.3167,38.6158],[34.2665,38.6274],[34.2204,38.6508],[34.2062,38.7014],[34.2408,38.7464],[34.2575,38.797],[34.2248,38.8864],[34.2357,38.9268],[34.2142,38.9227],[34.1707,38.9282],[34.1498,38.9229],[34.0997,38.9],[34.0603,38.9271],[34.0459,38.967],[34.0066,38.9808],[33.9852,38.9796],[33.9438,38.9852],[33.9301,39.0011]]]] } },
+    { type: "Feature", properties: { plate: 69, name: "Bayburt" }, geometry: { type: "MultiPolygon", coordinates: [[[[40.2814,40.0472],[40.4447,40.0322],[40.481,40.0366],[40.525,40.0632],[40.5671,40.0945],[40.6231,40.1154],[40.7478,40.1492],[40.7763,40.1761],[40.7998,40.2117],[40.7973,40.2322],[40.7311,40.2371],[40.7025,40.2465],[40.6366,40.2579],[40.5747,40.2838],[40.5497,40.3457],[40.5215,40.4815],[40.4894,40.5421],[40.4692,40.5393],[40.4294,40.5295],[40.3267,40.53],[40.2767,40.5228],[40.2279,40.5112],[40.1846,40.5104],[40.1017,40.5307],[40.0159,40.5327],[39.9747,40.5503],[39.9138,40.603],[39.8836,40.6118],[39.8766,40.6083],[39.8633,40.5994],[39.8699,40.5749],[39.8547,40.5615],[39.834,40.561],[39.8674,40.4136],[39.86,40.2669],[39.8276,40.2092],[39.8163,40.177],[39.8115,40.144],[39.8328,40.0769],[39.8691,40.0148],[39.9233,40.0299],[39.9801,40.0259],[40.0302,40.0303],[40.0708,40.0585],[40.1179,40.0727],[40.2814,40.0472]]]] } },
+    { type: "Feature", properties: { plate: 70, name: "Karaman" }, geometry: { type: "MultiPolygon", coordinates: [[[[34.149,37.155],[34.1251,37.1947],[34.0573,37.2852],[33.9985,37.336],[33.9178,37.4058],[33.8047,37.5038],[33.7822,37.5679],[33.7859,37.583],[33.7783,37.632],[33.7369,37.6433],[33.6389,37.647],[33.5936,37.6244],[33.5635,37.5942],[33.5145,37.5415],[33.4127,37.5113],[33.2582,37.5038],[33.1074,37.4887],[33.0132,37.4586],[32.9614,37.4126],[32.8436,37.3078],[32.7229,37.1759],[32.6287,37.0779],[32.6029,37.011],[32.6098,36.9761],[32.6702,36.9535],[32.7304,36.9497],[32.7455,36.9233],[32.7418,36.8932],[32.7116,36.8555],[32.5684,36.7424],[32.4562,36.6734],[32.4906,36.6016],[32.5316,36.5338],[32.5587,36.5062],[32.5923,36.4874],[32.632,36.4703],[32.6517,36.438],[32.7173,36.445],[32.7824,36.4316],[32.8425,36.4328],[32.8994,36.4533],[32.9582,36.4644],[33.0194,36.4625],[33.0524,36.4666],[33.0762,36.4855],[33.0881,36.5216],[33.1022,36.5535],[33.1164,36.5585],[33.1318,36.5613],[33.1664,36.546],[33.2048,36.5344],[33.231,36.5607],[33.2068,36.5909],[33.1612,36.6185],[33.1084,36.6296],[33.0869,36.6439],[33.0684,36.6632],[33.0435,36.6727],[33.0284,36.699],[33.0193,36.7283],[33.0028,36.7514],[32.982,36.7716],[32.9795,36.8038],[33.0172,36.8097],[33.0336,36.8141],[33.0786,36.8369],[33.1079,36.8464],[33.1212,36.8404],[33.1237,36.8334],[33.1312,36.8211],[33.1673,36.8134],[33.1888,36.8426],[33.2007,36.8871],[33.2327,36.918],[33.27,36.928],[33.3036,36.9469],[33.3359,36.9705],[33.3719,36.988],[33.4132,36.9972],[33.54,37.0066],[33.6194,37.0318],[33.7021,37.0372],[33.7366,37.0287],[33.7612,37.0314],[33.7975,37.0471],[33.8706,37.0577],[33.9668,37.1162],[34.0027,37.1288],[34.0786,37.133],[34.149,37.155]]]] } },
+    { type: "Feature", properties: { plate: 71, name: "Kırıkkale" }, geometry: { type: "MultiPolygon", coordinates: [[[[33.5245,39.2668],[33.6366,39.4187],[33.7989,39.5204],[33.8676,39.6042],[33.9128,39.7069],[34.0733,39.8257],[34.0632,39.8457],[34.0664,39.8669],[34.0617,39.8878],[34.0525,39.9076],[34.0509,39.9586],[34.0776,40.0002],[34.0976,40.0243],[34.1013,40.0569],[34.0881,40.086],[34.0868,40.0978],[34.0845,40.1091],[34.0657,40.1246],[34.0417,40.1272],[34.0164,40.1467],[33.9752,40.218],[33.9642,40.2655],[33.8705,40.2723],[33.5952,40.3396],[33.5821,40.2579],[33.5685,40.201],[33.5685,40.1332],[33.5766,40.0736],[33.5621,40.0165],[33.4469,40.0057],[33.3727,39.9816],[33.3279,39.8969],[33.303,39.8122],[33.2731,39.7275],[33.298,39.6428],[33.3777,39.5681],[33.406,39.5297],[33.4448,39.3874],[33.5245,39.2668]]]] } },
+    { type: "Feature", properties: { plate: 72, name: "Batman" }, geometry: { type: "MultiPolygon", coordinates: [[[[41.4206,38.5346],[41.4263,38.5009],[41.3884,38.484],[41.3568,38.4813],[41.3243,38.473],[41.2716,38.453],[41.2492,38.4281],[41.2403,38.3926],[41.2208,38.3376],[41.2092,38.2801],[41.2219,38.1705],[41.2146,38.1151],[41.1987,38.092],[41.1804,38.0703],[41.133,37.9491],[41.0933,37.9126],[41.0451,37.8859],[41.0355,37.8621],[41.0455,37.8334],[41.0538,37.7956],[41.0753,37.7649],[41.1007,37.7657],[41.1197,37.7582],[41.19,37.688],[41.2603,37.5722],[41.3677,37.5185],[41.5206,37.5433],[41.6322,37.6094],[41.8169,37.7138],[41.7107,37.8078],[41.5289,37.8656],[41.4214,37.9442],[41.4131,38.0103],[41.4462,38.0558],[41.5619,38.0806],[41.6115,38.126],[41.6322,38.1797],[41.6773,38.2214],[41.6739,38.2437],[41.6791,38.2662],[41.6788,38.3028],[41.674,38.3388],[41.6507,38.3937],[41.6161,38.5288],[41.5312,38.5544],[41.4753,38.548],[41.4206,38.5346]]]] } },
+    { type: "Feature", properties: { plate: 73, name: "Şırnak" }, geometry: { type: "MultiPolygon", coordinates: [[[[42.3572,37.11],[42.4019,37.1141],[42.4591,37.1293],[42.5452,37.1409],[42.5613,37.1466],[42.5647,37.152],[42.577,37.1792],[42.7023,37.3253],[42.7062,37.3332],[42.7074,37.3402],[42.7095,37.3472],[42.7157,37.3553],[42.7222,37.3589],[42.7716,37.3749],[42.7805,37.3755],[42.7925,37.3743],[42.8011,37.3691],[42.8055,37.3519],[42.8141,37.3468],[42.8967,37.3249],[42.937,37.3202],[42.9796,37.3318],[43.0052,37.3473],[43.0435,37.3603],[43.0837,37.3688],[43.1148,37.3711],[43.132,37.3673],[43.2634,37.3107],[43.2703,37.3087],[43.2786,37.3077],[43.2875,37.3091],[43.2969,37.3167],[43.3057,37.32],[43.3242,37.3222],[43.3361,37.3202],[43.3625,37.3039],[43.376,37.3248],[43.401,37.378],[43.4093,37.4648],[43.3762,37.5309],[43.3597,37.5846],[43.3803,37.6425],[43.3868,37.7336],[43.3386,37.7282],[43.2902,37.7273],[43.2643,37.7318],[43.1888,37.757],[43.1029,37.7661],[43.0233,37.7317],[43.0119,37.6754],[42.9505,37.626],[42.7811,37.6384],[42.5697,37.663],[42.3676,37.7044],[42.2354,37.7086],[42.157,37.6466],[41.9587,37.659],[41.8169,37.7138],[41.876,37.5888],[41.905,37.502],[41.8926,37.4359],[41.8182,37.4069],[41.7231,37.3656],[41.6818,37.3284],[41.6983,37.2871],[41.814,37.2581],[41.876,37.2168],[41.8963,37.1545],[41.8964,37.1543],[42.0092,37.1756],[42.053,37.1966],[42.1283,37.2533],[42.1785,37.3063],[42.193,37.3132],[42.2112,37.3249],[42.2226,37.314],[42.2238,37.3024],[42.2222,37.2924],[42.2232,37.2881],[42.2368,37.2863],[42.2672,37.2745],[42.2729,37.2767],[42.2792,37.2823],[42.2858,37.2866],[42.292,37.2851],[42.2964,37.2797],[42.3014,37.2699],[42.3058,37.2645],[42.3399,37.2426],[42.3467,37.2398],[42.3532,37.227],[42.3353,37.1712],[42.3467,37.1584],[42.3546,37.1524],[42.3565,37.1383],[42.3572,37.11]]]] } },
+    { type: "Feature", properties: { plate: 74, name: "Bartın" }, geometry: { type: "MultiPolygon", coordinates: [[[[32.1341,41.5994],[32.1901,41.5571],[32.2507,41.5369],[32.2709,41.4843],[32.3072,41.4156],[32.287,41.3308],[32.3961,41.3267],[32.5012,41.3469],[32.6224,41.4237],[32.6669,41.4964],[32.7235,41.5086],[32.818,41.5764],[32.8085,41.6478],[32.873,41.6823],[32.8366,41.7551],[32.8083,41.7995],[32.7985,41.8597],[32.7703,41.858],[32.7554,41.8591],[32.7404,41.8532],[32.6792,41.8363],[32.6631,41.8349],[32.6397,41.8439],[32.6126,41.8395],[32.5894,41.827],[32.5778,41.8113],[32.5628,41.8169],[32.5484,41.8157],[32.5348,41.8107],[32.5232,41.8045],[32.4543,41.7772],[32.4395,41.7675],[32.4172,41.7489],[32.3997,41.7425],[32.3963,41.7443],[32.3872,41.7539],[32.3826,41.7561],[32.3772,41.7541],[32.3744,41.7494],[32.3723,41.7425],[32.3618,41.7379],[32.3537,41.7357],[32.3518,41.7294],[32.297,41.7274],[32.2634,41.7202],[32.2482,41.6981],[32.2434,41.6929],[32.1784,41.6369],[32.1619,41.612],[32.1341,41.5994]]]] } },
+    { type: "Feature", properties: { plate: 75, name: "Ardahan" }, geometry: { type: "MultiPolygon", coordinates: [[[[43.4404,41.1066],[43.4518,41.1326],[43.4376,41.1562],[43.4106,41.1752],[43.3833,41.1872],[43.3518,41.1936],[43.3226,41.1921],[43.2306,41.1726],[43.2162,41.1805],[43.1922,41.225],[43.172,41.2423],[43.1523,41.2442],[43.1303,41.2423],[43.1031,41.2488],[43.1572,41.2697],[43.1719,41.2793],[43.1854,41.2938],[43.184,41.299],[43.1548,41.3019],[43.1239,41.3129],[43.0756,41.3449],[43.0021,41.3827],[42.9876,41.3947],[42.9577,41.437],[42.95,41.4437],[42.9411,41.4463],[42.9362,41.4502],[42.9322,41.4548],[42.9261,41.4591],[42.8966,41.4666],[42.889,41.47],[42.8807,41.4812],[42.8751,41.4937],[42.868,41.5002],[42.8546,41.4938],[42.83,41.4725],[42.8112,41.4772],[42.7921,41.4929],[42.7665,41.5043],[42.7749,41.5143],[42.7946,41.5268],[42.8027,41.5341],[42.8068,41.543],[42.8089,41.5529],[42.8122,41.563],[42.8199,41.5723],[42.8009,41.5792],[42.661,41.5883],[42.6106,41.5851],[42.5909,41.5802],[42.5866,41.5791],[42.5852,41.5788],[42.5652,41.5671],[42.555,41.5503],[42.5455,41.5096],[42.5355,41.4935],[42.5138,41.4762],[42.4838,41.4422],[42.4631,41.4318],[42.451,41.4314],[42.4654,41.3736],[42.472,41.3316],[42.4836,41.3071],[42.4923,41.2961],[42.5103,41.261],[42.5387,41.1912],[42.5121,41.1235],[42.4292,41.0919],[42.3415,41.0197],[42.2792,40.9249],[42.2992,40.848],[42.3516,40.7891],[42.3876,40.7698],[42.4163,40.7423],[42.4372,40.7034],[42.4667,40.6706],[42.5068,40.6398],[42.537,40.5992],[42.6522,40.6157],[42.7719,40.6253],[42.7911,40.6971],[42.8054,40.8169],[42.8294,40.8935],[42.9491,40.9414],[43.112,40.9941],[43.2749,41.0468],[43.3755,41.0899],[43.4404,41.1066]]]] } },
+    { type: "Feature", properties: { plate: 76, name: "Iğdır" }, geometry: { type: "MultiPolygon", coordinates: [[[[44.807,39.6399],[44.7957,39.6524],[44.7843,39.6902],[44.7746,39.7028],[44.7591,39.7231],[44.6978,39.7853],[44.692,39.793],[44.6872,39.7964],[44.6824,39.7972],[44.6713,39.7959],[44.6662,39.7964],[44.6477,39.8051],[44.6115,39.8373],[44.5982,39.831],[44.5945,39.8368],[44.5942,39.8481],[44.5911,39.8578],[44.576,39.8664],[44.5675,39.873],[44.5638,39.8817],[44.5591,39.8969],[44.5479,39.9115],[44.5222,39.9335],[44.4643,39.9723],[44.3809,40.0098],[44.3256,40.0347],[44.2891,40.0434],[44.2553,40.0434],[44.195,40.0308],[44.1664,40.028],[44.1459,40.0234],[44.1355,40.0223],[44.127,40.0245],[44.1143,40.0339],[44.1045,40.036],[44.0831,40.0316],[44.0483,40.0129],[44.0324,40.0086],[43.9121,40.0243],[43.8028,40.0707],[43.7112,40.0907],[43.6654,40.1102],[43.5335,40.0744],[43.409,40.0601],[43.3563,40.0409],[43.3563,40.0026],[43.3184,39.9693],[43.341,39.9126],[43.3357,39.8652],[43.3354,39.8415],[43.35,39.8038],[43.3658,39.7932],[43.4004,39.7831],[43.464,39.8175],[43.5316,39.8385],[43.5634,39.8332],[43.5771,39.825],[43.6106,39.8135],[43.6306,39.8134],[43.6635,39.7956],[43.6856,39.7582],[43.7155,39.7282],[43.805,39.6956],[43.8682,39.6841],[43.8754,39.6699],[43.8809,39.6549],[43.9733,39.6432],[44.0726,39.6532],[44.1474,39.635],[44.2245,39.628],[44.4028,39.6595],[44.4422,39.6522],[44.4578,39.6428],[44.4583,39.6425],[44.4602,39.6545],[44.455,39.6871],[44.4595,39.6985],[44.5657,39.7659],[44.5904,39.7715],[44.6058,39.7632],[44.6328,39.7316],[44.6465,39.7195],[44.7063,39.698],[44.7257,39.6853],[44.807,39.6399]]]] } },
+    { type: "Feature", properties: { plate: 77, name: "Yalova" }, geometry: { type: "MultiPolygon", coordinates: [[[[28.9803,40.4645],[28.978,40.5732],[29.0475,40.5602],[29.0784,40.5632],[29.2305,40.5116],[29.2939,40.5222],[29.3581,40.5729],[29.4207,40.5632],[29.4293,40.6014],[29.4284,40.6909],[29.4168,40.6868],[29.4072,40.6931],[29.3992,40.7026],[29.3919,40.7078],[29.3845,40.7065],[29.3638,40.6942],[29.3233,40.6767],[29.2816,40.6659],[28.9863,40.6448],[28.9701,40.6395],[28.9277,40.6064],[28.8977,40.5917],[28.8268,40.5706],[28.7927,40.5533],[28.7742,40.5228],[28.8285,40.513],[28.9167,40.4709],[28.9695,40.4614],[28.9803,40.4645]]]] } },
+    { type: "Feature", properties: { plate: 78, name: "Karabük" }, geometry: { type: "MultiPolygon", coordinates: [[[[32.5262,40.7887],[32.6305,40.8256],[32.7483,40.8974],[32.7962,40.963],[32.8326,40.9792],[32.9295,40.9711],[33.0265,41.0115],[33.0692,41.093],[33.0595,41.1058],[33.038,41.1289],[32.9858,41.147],[32.9297,41.1533],[32.9103,41.2606],[32.9194,41.2944],[32.9647,41.3411],[33.017,41.3804],[33.1154,41.3954],[33.0871,41.4439],[33.0589,41.5328],[32.9861,41.5732],[32.9131,41.5548],[32.8522,41.5477],[32.818,41.5764],[32.7235,41.5086],[32.6669,41.4964],[32.6224,41.4237],[32.5012,41.3469],[32.3961,41.3267],[32.287,41.3308],[32.2345,41.2742],[32.1981,41.2419],[32.182,41.1893],[32.1496,41.1085],[32.1494,41.0192],[32.1983,41.0181],[32.284,41.0039],[32.2786,40.9762],[32.2783,40.9486],[32.3027,40.9367],[32.3303,40.9328],[32.3769,40.9106],[32.4922,40.8678],[32.5295,40.8152],[32.5262,40.7887]]]] } },
+    { type: "Feature", properties: { plate: 79, name: "Kilis" }, geometry: { type: "MultiPolygon", coordinates: [[[[37.5221,36.6736],[37.4373,36.7348],[37.3443,36.7761],[37.272,36.8071],[37.241,36.7916],[37.1997,36.8329],[37.1171,36.9],[37.0396,36.9413],[36.9725,36.9517],[36.9415,37.0085],[36.9053,37.024],[36.8743,37.0033],[36.864,36.9362],[36.7969,36.9],[36.7142,36.869],[36.6596,36.8272],[36.8437,36.7758],[36.9068,36.7726],[36.9259,36.769],[36.9459,36.7627],[36.9647,36.7538],[36.9801,36.7423],[37.0106,36.7195],[37.0184,36.7066],[37.0195,36.6858],[37.0108,36.6537],[37.0145,36.6423],[37.0333,36.6287],[37.0531,36.6199],[37.0624,36.6221],[37.0701,36.6315],[37.0856,36.6442],[37.1044,36.651],[37.121,36.6499],[37.1374,36.6459],[37.1561,36.6439],[37.2197,36.6571],[37.2419,36.6586],[37.4045,36.6345],[37.4461,36.6342],[37.5221,36.6736]]]] } },
+    { type: "Feature", properties: { plate: 80, name: "Osmaniye" }, geometry: { type: "MultiPolygon", coordinates: [[[[36.2799,37.6691],[36.203,37.6695],[36.11,37.6643],[36.0635,37.6024],[36.0067,37.4991],[35.9396,37.37],[35.9396,37.2925],[35.9697,37.2197],[35.9907,37.2206],[36.0559,37.2105],[36.0846,37.1918],[36.0927,37.1785],[36.1048,37.1221],[36.0894,37.0704],[36.0616,37.0097],[36.1053,37.0155],[36.1462,37.0063],[36.188,37.0054],[36.2353,37.0154],[36.2806,37.0043],[36.3136,36.976],[36.3521,36.9566],[36.402,36.9556],[36.4519,36.9607],[36.4762,36.9973],[36.513,37.0254],[36.5827,37.0966],[36.6374,37.1827],[36.6761,37.2296],[36.7212,37.2712],[36.6781,37.3225],[36.6238,37.3627],[36.5888,37.3818],[36.5506,37.3897],[36.4702,37.3771],[36.4411,37.3723],[36.4039,37.3611],[36.3707,37.3563],[36.3541,37.3709],[36.3417,37.3666],[36.3293,37.364],[36.3188,37.3597],[36.3124,37.3498],[36.3036,37.3491],[36.262,37.389],[36.2575,37.4553],[36.2469,37.4676],[36.2328,37.4783],[36.2202,37.5064],[36.2286,37.5368],[36.2568,37.5613],[36.2795,37.591],[36.2799,37.6691]]]] } },
+    { type: "Feature", properties: { plate: 81, name: "Düzce" }, geometry: { type: "MultiPolygon", coordinates: [[[[30.9559,41.0824],[30.9546,41.0726],[30.9603,41.044],[30.9617,41.022],[30.9043,40.9816],[30.8694,40.9223],[30.8765,40.8919],[30.8933,40.8655],[30.8961,40.8352],[30.8831,40.8072],[30.8929,40.7804],[30.9125,40.7576],[30.8912,40.7268],[30.9737,40.7044],[31.1354,40.7085],[31.2485,40.6721],[31.3455,40.6802],[31.4223,40.7246],[31.4586,40.7974],[31.4627,40.8499],[31.5112,40.8782],[31.6405,40.8943],[31.7334,40.9105],[31.7819,40.955],[31.7991,41.0418],[31.556,41.0595],[31.3846,41.1232],[31.3464,41.1507],[31.3236,41.1339],[31.2902,41.1179],[31.2489,41.1057],[31.2429,41.1024],[31.241,41.0977],[31.2388,41.0937],[31.2312,41.092],[31.2261,41.093],[31.2165,41.0972],[31.2105,41.0981],[31.1694,41.092],[31.1585,41.0931],[31.1371,41.0976],[31.1248,41.0981],[31.1152,41.096],[31.0906,41.0852],[30.9559,41.0824]]]] } },
+  ],
+};
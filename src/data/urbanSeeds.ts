@@ -1,5 +1,5 @@
 /**
- * Urban Seed Map — Auto-derived from static URBAN_PACKAGES
+ * Urban Seed Map — Auto-derived from the urban pack (data/packs/urban.ndjson)
  *
  * Each province has 1+ seed points (lat/lng centroid of its static packages)
  * with radius ranges calibrated to the geographic spread of those packages.
@@ -10,10 +10,13 @@
  * These seeds are used by the Dynamic Urban Generator to sample candidate coords
  * within known urban zones, ensuring "urban feel" without new API calls.
  *
- * Generated from 86 URBAN_PACKAGES across 48 provinces.
+ * Generated from the installed urban pack (86 packages across 48 provinces at
+ * revision 1); rebuilt when a new pack revision is installed.
  */
 
-import { URBAN_PACKAGES } from "./panoPackages";
+import { PanoPackage } from "@/types";
+import { getLoadedPackages, getPacksRevision } from "@/services/panoPacks";
+import { nextRandom } from "@/utils/random";
 
 // ==================== TYPES ====================
 
@@ -78,7 +81,7 @@ function extractDistrictFromLocationName(locationName: string): string | undefin
 // ==================== SEED MAP BUILDER ====================
 
 /**
- * Build UrbanSeedMap from URBAN_PACKAGES.
+ * Build UrbanSeedMap from urban packages (default: the installed urban pack).
  *
  * Strategy:
  * - Group packages by province
@@ -89,7 +92,7 @@ function extractDistrictFromLocationName(locationName: string): string | undefin
  *
  * This maximizes seed coverage while keeping radius urban-tight.
  */
-export function buildUrbanSeedMap(): UrbanSeedMap {
+export function buildUrbanSeedMap(packages: readonly PanoPackage[] = getLoadedPackages("urban")): UrbanSeedMap {
   const seedMap: UrbanSeedMap = new Map();
 
   // Group packages by province
@@ -97,7 +100,7 @@ export function buildUrbanSeedMap(): UrbanSeedMap {
     lat: number; lng: number; district?: string; locationName: string;
   }>>();
 
-  for (const pkg of URBAN_PACKAGES) {
+  for (const pkg of packages) {
     if (pkg.blacklist) continue;
 
     const province = extractProvinceFromLocationName(pkg.locationName);
@@ -204,11 +207,11 @@ export function buildUrbanSeedMap(): UrbanSeedMap {
  * but avoid exact center via minimum offset).
  */
 export function sampleFromSeed(seed: UrbanSeed): { lat: number; lng: number } {
-  const angle = Math.random() * 2 * Math.PI;
+  const angle = nextRandom() * 2 * Math.PI;
   // Uniform disk: r = R * sqrt(rand) gives uniform area distribution
   // Min offset = 0.1km to avoid exact seed center (hotspot avoidance)
   const minR = 0.1;
-  const rawR = Math.sqrt(Math.random()) * seed.radiusKm;
+  const rawR = Math.sqrt(nextRandom()) * seed.radiusKm;
   const distance = Math.max(minR, rawR);
 
   const latOffset = (distance * Math.cos(angle)) / 111;
@@ -244,10 +247,12 @@ export function isWithinTurkeyBounds(lat: number, lng: number): boolean {
 // ==================== SINGLETON ====================
 
 let _cachedSeedMap: UrbanSeedMap | null = null;
+let _cachedRevision = -1;
 
 export function getUrbanSeedMap(): UrbanSeedMap {
-  if (!_cachedSeedMap) {
+  if (!_cachedSeedMap || _cachedRevision !== getPacksRevision()) {
     _cachedSeedMap = buildUrbanSeedMap();
+    _cachedRevision = getPacksRevision();
   }
   return _cachedSeedMap;
 }
@@ -1,4 +1,12 @@
 export { useRoom } from "./useRoom";
+export { useSoloGame } from "./useSoloGame";
+export { useDailyChallenge } from "./useDailyChallenge";
+export { useProfile } from "./useProfile";
+export { useLeaderboard } from "./useLeaderboard";
+export { useAccuracyStats } from "./useAccuracyStats";
+export { useLocationSubmission } from "./useLocationSubmission";
+export { useLocationReport } from "./useLocationReport";
+export { useOpsMetrics } from "./useOpsMetrics";
 export type { GameNotification } from "./useRoom";
 export { useStreetView } from "./useStreetView";
 export { getNavigationMetrics, resetNavigationMetrics } from "./useStreetView";
@@ -0,0 +1,43 @@
+"use client";
+
+/**
+ * useAccuracyStats Hook
+ * Gerçek oyuncu isabeti — accuracy/stats anlık görüntüsü (toplama işi yazar)
+ *
+ * - enabled false iken hiçbir şey okunmaz; ilk açılışta bir kez okunur
+ * - provinceHeat: il adı → 0..1 zorluk (tahmin haritası ısı katmanı)
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { AccuracySnapshot, provinceHeatMap } from "@/services/accuracyStats";
+import { createFirebaseAccuracyStorage } from "@/services/firebaseAccuracyStorage";
+import { trackError } from "@/utils/telemetry";
+
+const accuracyStorage = createFirebaseAccuracyStorage();
+
+export function useAccuracyStats(enabled: boolean = true) {
+  const [snapshot, setSnapshot] = useState<AccuracySnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || loaded) return;
+    let cancelled = false;
+    setIsLoading(true);
+    accuracyStorage.getSnapshot()
+      .then((value) => {
+        if (cancelled) return;
+        setSnapshot(value);
+        setLoaded(true);
+      })
+      .catch((err) => trackError(err instanceof Error ? err : String(err), "accuracyLoad"))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [enabled, loaded]);
+
+  const provinceHeat = useMemo(() => provinceHeatMap(snapshot), [snapshot]);
+
+  return { snapshot, provinceHeat, isLoading };
+}
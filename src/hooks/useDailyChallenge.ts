@@ -0,0 +1,82 @@
+"use client";
+
+/**
+ * useDailyChallenge Hook
+ * Günün Turu — bugünün tarihi, bu cihazdaki deneme ve günlük liderlik tablosu
+ *
+ * - Oyunun kendisi useSoloGame ile oynanır (run.daily = tarih)
+ * - begin(): günün hakkını kullanır (yarıda bırakmak da sayılır)
+ * - recordResult(): sonucu bu cihaza kaydeder, tabloyu yeniler — tabloya
+ *   sunucu yazar (son turun puanlanmasıyla, soloRoundAuthority)
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { GameMode } from "@/types";
+import {
+  DailyAttempt,
+  DailyRanking,
+  DAILY_ROUNDS,
+  getDailyKey,
+  getDailyMode,
+  loadDailyAttempt,
+  startDailyAttempt,
+  finishDailyAttempt,
+  rankDailyEntries,
+  buildShareCard,
+} from "@/services/dailyChallenge";
+import { createFirebaseDailyLeaderboard } from "@/services/firebaseDailyLeaderboard";
+import { SoloResult } from "@/services/soloGame";
+import { trackError } from "@/utils/telemetry";
+
+const leaderboardStorage = createFirebaseDailyLeaderboard();
+
+export function useDailyChallenge() {
+  const [dateKey, setDateKey] = useState(() => getDailyKey(Date.now()));
+  const [attempt, setAttempt] = useState<DailyAttempt | null>(null);
+  const [leaderboard, setLeaderboard] = useState<DailyRanking[]>([]);
+
+  // localStorage sadece client'ta — mount'ta oku
+  useEffect(() => {
+    setAttempt(loadDailyAttempt(dateKey));
+  }, [dateKey]);
+
+  const refreshLeaderboard = useCallback(async (key: string = dateKey) => {
+    try {
+      setLeaderboard(rankDailyEntries(await leaderboardStorage.getEntries(key)));
+    } catch (err) {
+      trackError(err instanceof Error ? err : String(err), "dailyLeaderboard");
+    }
+  }, [dateKey]);
+
+  /** Bugünün hakkını kullan — null: bu cihazda zaten oynandı */
+  const begin = useCallback((): { dateKey: string; mode: GameMode } | null => {
+    const today = getDailyKey(Date.now());
+    const started = startDailyAttempt(today, Date.now());
+    setDateKey(today);
+    setAttempt(loadDailyAttempt(today));
+    return started ? { dateKey: today, mode: getDailyMode(today) } : null;
+  }, []);
+
+  /** Biten Günün Turu — yerel kayıt; tablo girişini sunucu son turda yazdı */
+  const recordResult = useCallback(async (result: SoloResult) => {
+    if (!result.daily) return;
+    setAttempt(finishDailyAttempt(result.daily, result.rounds.map((r) => r.score), result.totalScore));
+    await refreshLeaderboard(result.daily);
+  }, [refreshLeaderboard]);
+
+  const shareCard = useMemo(
+    () => (attempt && attempt.score !== null ? buildShareCard(attempt.dateKey, attempt.rounds, attempt.score) : null),
+    [attempt]
+  );
+
+  return {
+    dateKey,
+    totalRounds: DAILY_ROUNDS,
+    attempt,
+    leaderboard,
+    shareCard,
+    begin,
+    recordResult,
+    refreshLeaderboard,
+  };
+}
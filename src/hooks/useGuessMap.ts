@@ -6,12 +6,18 @@
  *
  * FIX: Round 1+ pin placement bug - non-host oyuncularda pin görünmüyordu
  * Sorun: initializeMap erken return yapıyordu, listener kaybediliyordu
+ *
+ * setAccuracyHeatmap(): il poligonlarını oyuncu isabetine göre boyar
+ * (accuracyStats — kırmızı = gerçek oyuncular için zor). Harita yeniden
+ * oluşturulursa katman initializeMap'te tekrar uygulanır.
  */
 
 import { useState, useCallback, useRef } from "react";
 import { Coordinates } from "@/types";
 import { MAPS_CONFIG, TURKEY_MAP_RESTRICTION } from "@/config/maps";
 import { getTurkeyCenter, getTurkeyZoom } from "@/utils";
+import { TURKEY_PROVINCES } from "@/data/turkeyProvinces";
+import { heatColor } from "@/services/accuracyStats";
 
 export function useGuessMap(onLocationSelect: (coord: Coordinates | null) => void) {
   const [selectedLocation, setSelectedLocation] = useState<Coordinates | null>(null);
@@ -24,6 +30,8 @@ export function useGuessMap(onLocationSelect: (coord: Coordinates | null) => voi
   const clickListenerRef = useRef<google.maps.MapsEventListener | null>(null);
   const polylinesRef = useRef<google.maps.Polyline[]>([]);
   const onLocationSelectRef = useRef(onLocationSelect);
+  const heatmapRef = useRef<Record<string, number> | null>(null);
+  const heatmapMapRef = useRef<google.maps.Map | null>(null);
 
   // Callback'i ref'te tut - listener her zaman güncel fonksiyonu çağırır
   onLocationSelectRef.current = onLocationSelect;
@@ -64,6 +72,40 @@ export function useGuessMap(onLocationSelect: (coord: Coordinates | null) => voi
     }
   }, []);
 
+  /**
+   * Isı katmanını mevcut haritaya uygula (il adı → 0..1 zorluk)
+   * Poligonlar tıklanamaz - pin yerleştirme haritanın click'inde kalır
+   */
+  const applyHeatmap = useCallback(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const heat = heatmapRef.current;
+
+    if (heatmapMapRef.current !== map) {
+      if (!heat) return;
+      map.data.addGeoJson(TURKEY_PROVINCES);
+      heatmapMapRef.current = map;
+    }
+
+    map.data.setStyle((feature) => {
+      const value = heat?.[feature.getProperty("name") as string];
+      return {
+        visible: !!heat,
+        clickable: false,
+        fillColor: value === undefined ? "#6b7280" : heatColor(value),
+        fillOpacity: value === undefined ? 0.05 : 0.35,
+        strokeColor: "#ffffff",
+        strokeOpacity: 0.25,
+        strokeWeight: 0.5,
+      };
+    });
+  }, []);
+
+  const setAccuracyHeatmap = useCallback((heat: Record<string, number> | null) => {
+    heatmapRef.current = heat;
+    applyHeatmap();
+  }, [applyHeatmap]);
+
   /**
    * Harita başlat - HER ROUND'DA ÇAĞRILMALI
    * FIX: Artık listener her zaman yeniden bağlanıyor
@@ -106,7 +148,8 @@ export function useGuessMap(onLocationSelect: (coord: Coordinates | null) => voi
     }
 
     clickListenerRef.current = mapRef.current.addListener("click", handleMapClick);
-  }, [handleMapClick]);
+    applyHeatmap();
+  }, [handleMapClick, applyHeatmap]);
 
   /**
    * Harita sıfırla - Yeni round için
@@ -211,5 +254,6 @@ export function useGuessMap(onLocationSelect: (coord: Coordinates | null) => voi
     initializeMap,
     resetMap,
     showResults,
+    setAccuracyHeatmap,
   };
 }
@@ -0,0 +1,96 @@
+"use client";
+
+/**
+ * useLeaderboard Hook
+ * Liderlik tabloları — tüm zamanlar / bu hafta, mod ya da bölge filtresi
+ *
+ * - Tablo bir kerede okunur (en iyi LEADERBOARD_MAX_ENTRIES kayıt), sayfalama client'ta
+ * - standing: tüm oyuncular arasındaki sıra (leaderboardBests + leaderboardCounts),
+ *   kayıt listeye girmese de gösterilir
+ * - myRank: bu oyuncunun listedeki en iyi kaydı; goToMyRank() o sayfaya atlar
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { getAuthUid } from "@/config/firebase";
+import {
+  LeaderboardFilter,
+  LeaderboardRanking,
+  LeaderboardScope,
+  LEADERBOARD_PAGE_SIZE,
+  PlayerStanding,
+  findPlayerRank,
+  getBoardId,
+  getPlayerStanding,
+  pageLeaderboard,
+  rankLeaderboard,
+} from "@/services/leaderboard";
+import { createFirebaseLeaderboard } from "@/services/firebaseLeaderboard";
+import { trackError } from "@/utils/telemetry";
+
+const leaderboardStorage = createFirebaseLeaderboard();
+
+export function useLeaderboard() {
+  const [scope, setScope] = useState<LeaderboardScope>("weekly");
+  const [filter, setFilter] = useState<LeaderboardFilter>({ type: "all" });
+  const [ranked, setRanked] = useState<LeaderboardRanking[]>([]);
+  const [page, setPage] = useState(0);
+  const [uid, setUid] = useState<string | null>(null);
+  const [standing, setStanding] = useState<PlayerStanding | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const boardId = useMemo(() => getBoardId(scope, filter, Date.now()), [scope, filter]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    leaderboardStorage.getBoard(boardId)
+      .then((board) => {
+        if (cancelled) return;
+        setRanked(rankLeaderboard(board));
+        setPage(0);
+      })
+      .catch((err) => trackError(err instanceof Error ? err : String(err), "leaderboardLoad"))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [boardId]);
+
+  useEffect(() => {
+    getAuthUid().then(setUid).catch(() => setUid(null));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStanding(null);
+    if (!uid) return;
+    getPlayerStanding(leaderboardStorage, boardId, uid)
+      .then((result) => {
+        if (!cancelled) setStanding(result);
+      })
+      .catch((err) => trackError(err instanceof Error ? err : String(err), "leaderboardStanding"));
+    return () => { cancelled = true; };
+  }, [boardId, uid]);
+
+  const current = useMemo(() => pageLeaderboard(ranked, page), [ranked, page]);
+  const myRank = useMemo(() => (uid ? findPlayerRank(ranked, uid) : null), [ranked, uid]);
+
+  const goToMyRank = useCallback(() => {
+    if (myRank) setPage(Math.floor((myRank.rank - 1) / LEADERBOARD_PAGE_SIZE));
+  }, [myRank]);
+
+  return {
+    scope,
+    setScope,
+    filter,
+    setFilter,
+    boardId,
+    uid,
+    isLoading,
+    page: current,
+    setPage,
+    standing,
+    myRank,
+    goToMyRank,
+  };
+}
@@ -0,0 +1,64 @@
+"use client";
+
+/**
+ * useLocationReport Hook
+ * "Bu konumu bildir" — bozuk pano bildirimi (iç mekân, siyah ekran, ...)
+ *
+ * - report(): bildirimi /api/report-location'a ID token ile gönderir; sunucu
+ *   kotayı ve (anonim hesapta) paketin oyuncuya dağıtıldığını kontrol edip
+ *   yazar, eşik kontrolünü yapar (memory backend'de sunucu yok → süreç içinde)
+ * - Paket id'si tur sonunda açılır; tur içindeki bildirim o zaman gönderilir
+ *   (page.tsx bekletir)
+ */
+
+import { useCallback } from "react";
+import { getAuthToken, getAuthUid, USE_MEMORY_DATABASE } from "@/config/firebase";
+import { REPORT_ENDPOINT, ReportOutcome, ReportReason, ReportRequest, loadQuarantine, submitReport } from "@/services/locationReports";
+import { createFirebaseReportStorage } from "@/services/firebaseReportStorage";
+import { createFirebaseRoomStorage, createFirebaseRoundAnswerStorage } from "@/services/firebaseRoomStorage";
+import { createFirebaseSoloRoundStorage } from "@/services/firebaseSoloRoundStorage";
+import { canReportLocation } from "@/utils/rateLimiter";
+import { trackError } from "@/utils/telemetry";
+
+const reportStorage = createFirebaseReportStorage();
+
+/** Memory backend: the route's checks in-process (every local player is anonymous) */
+async function submitInProcess(request: ReportRequest): Promise<ReportOutcome> {
+  const sources = {
+    ...createFirebaseRoomStorage(),
+    ...createFirebaseRoundAnswerStorage(),
+    getSoloDeal: createFirebaseSoloRoundStorage().getSoloDeal,
+  };
+  const outcome = await submitReport(reportStorage, sources, { uid: await getAuthUid(), anonymous: true }, request, Date.now());
+  if (outcome.ok) await loadQuarantine(reportStorage);
+  return outcome;
+}
+
+async function submitRemote(request: ReportRequest): Promise<ReportOutcome> {
+  const response = await fetch(REPORT_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${await getAuthToken()}` },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) throw new Error(`Report HTTP ${response.status}`);
+  return (await response.json()) as ReportOutcome;
+}
+
+export function useLocationReport() {
+  const report = useCallback(
+    async (packageId: string, panoId: string, reason: ReportReason, roomId: string | null): Promise<boolean> => {
+      if (!canReportLocation()) return false;
+      try {
+        const request: ReportRequest = { packageId, panoId, reason, roomId };
+        const outcome = await (USE_MEMORY_DATABASE ? submitInProcess(request) : submitRemote(request));
+        return outcome.ok || outcome.reason === "already reported";
+      } catch (err) {
+        trackError(err instanceof Error ? err : String(err), "locationReport");
+        return false;
+      }
+    },
+    []
+  );
+
+  return { report };
+}
@@ -0,0 +1,104 @@
+"use client";
+
+/**
+ * useLocationSubmission Hook
+ * Topluluk konum önerileri — tur içinden ya da /konum-oner'den
+ *
+ * - submit(): taslağı /api/submit-location'a ID token ile gönderir; sunucu
+ *   saatlik kotayı ve (anonim hesapta) oyuncuya bir tur dağıtıldığını kontrol
+ *   edip "pending" olarak yazar (memory backend'de sunucu yok → süreç içinde).
+ *   İstemci hız limiti sadece gereksiz istekleri keser.
+ * - refresh(): oyuncunun kendi önerileri ve durumları (en yeni önce)
+ */
+
+import { useState, useCallback } from "react";
+import { getAuthToken, getAuthUid, USE_MEMORY_DATABASE } from "@/config/firebase";
+import {
+  LocationSubmission,
+  SUBMISSION_ENDPOINT,
+  SubmissionDraft,
+  SubmissionOutcome,
+  SubmissionRequest,
+  submitVerifiedLocation,
+} from "@/services/locationSubmissions";
+import { createFirebaseSubmissionStorage } from "@/services/firebaseSubmissionStorage";
+import { createFirebaseRoomStorage } from "@/services/firebaseRoomStorage";
+import { createFirebaseSoloRoundStorage } from "@/services/firebaseSoloRoundStorage";
+import { canSubmitLocation } from "@/utils/rateLimiter";
+import { trackError } from "@/utils/telemetry";
+
+const submissionStorage = createFirebaseSubmissionStorage();
+
+/** Memory backend: the route's checks in-process (every local player is anonymous) */
+async function submitInProcess(request: SubmissionRequest): Promise<SubmissionOutcome> {
+  const sources = { ...createFirebaseRoomStorage(), getSoloDeal: createFirebaseSoloRoundStorage().getSoloDeal };
+  return submitVerifiedLocation(submissionStorage, sources, { uid: await getAuthUid(), anonymous: true }, request, Date.now());
+}
+
+async function submitRemote(request: SubmissionRequest): Promise<SubmissionOutcome> {
+  const response = await fetch(SUBMISSION_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${await getAuthToken()}` },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) throw new Error(`Submission HTTP ${response.status}`);
+  return (await response.json()) as SubmissionOutcome;
+}
+
+/** Server refusals the player can act on */
+const REFUSAL_MESSAGES: Record<string, string> = {
+  "rate limited": "Çok fazla öneri gönderdin, biraz sonra tekrar dene.",
+  "not played": "Öneri gönderebilmek için önce bir tur oyna.",
+};
+
+export interface OwnSubmission {
+  id: string;
+  submission: LocationSubmission;
+}
+
+export function useLocationSubmission() {
+  const [submissions, setSubmissions] = useState<OwnSubmission[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const uid = await getAuthUid();
+      const own = await submissionStorage.getSubmissions(uid);
+      setSubmissions(
+        Object.entries(own)
+          .map(([id, submission]) => ({ id, submission }))
+          .sort((a, b) => b.submission.createdAt - a.submission.createdAt)
+      );
+    } catch (err) {
+      trackError(err instanceof Error ? err : String(err), "submissionsLoad");
+    }
+  }, []);
+
+  const submit = useCallback(async (draft: SubmissionDraft, name: string, roomId: string | null = null): Promise<boolean> => {
+    setError(null);
+    if (!canSubmitLocation()) {
+      setError("Çok fazla öneri gönderdin, biraz sonra tekrar dene.");
+      return false;
+    }
+    setIsSubmitting(true);
+    try {
+      const request: SubmissionRequest = { draft, name, roomId };
+      const result = await (USE_MEMORY_DATABASE ? submitInProcess(request) : submitRemote(request));
+      if (!result.ok) {
+        setError(REFUSAL_MESSAGES[result.reason] || "Öneri gönderilemedi.");
+        trackError(result.reason, "locationSubmit");
+        return false;
+      }
+      return true;
+    } catch (err) {
+      setError("Öneri gönderilemedi.");
+      trackError(err instanceof Error ? err : String(err), "locationSubmit");
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, []);
+
+  return { submissions, isSubmitting, error, submit, refresh };
+}
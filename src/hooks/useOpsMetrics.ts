@@ -0,0 +1,81 @@
+"use client";
+
+/**
+ * useOpsMetrics Hook
+ * /ops paneli — GET /api/ops özetini OPS_SECRET ile okur
+ *
+ * - Anahtar sekme kapanana kadar sessionStorage'da tutulur
+ * - load(): aralık (ms) + isteğe bağlı oda kodu; 401'de anahtar silinir
+ * - loadBudget(): GET /api/ops/budget — son N günün Street View harcaması
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import { OPS_ENDPOINT, OpsSummary } from "@/services/opsMetrics";
+import { BUDGET_ENDPOINT, BudgetReport } from "@/services/apiBudget";
+import { trackError } from "@/utils/telemetry";
+
+const SECRET_KEY = "tg_ops_secret";
+
+export function useOpsMetrics() {
+  const [secret, setSecretState] = useState("");
+  const [summary, setSummary] = useState<OpsSummary | null>(null);
+  const [budget, setBudget] = useState<BudgetReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // SSR ile aynı ilk render, anahtar mount'ta okunur
+  useEffect(() => {
+    setSecretState(window.sessionStorage.getItem(SECRET_KEY) || "");
+  }, []);
+
+  const setSecret = useCallback((value: string) => {
+    setSecretState(value);
+    if (value) window.sessionStorage.setItem(SECRET_KEY, value);
+    else window.sessionStorage.removeItem(SECRET_KEY);
+  }, []);
+
+  const load = useCallback(async (from: number, to: number, roomId?: string) => {
+    if (!secret) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from: String(from), to: String(to) });
+      if (roomId?.trim()) params.set("roomId", roomId.trim());
+      const response = await fetch(`${OPS_ENDPOINT}?${params}`, { headers: { Authorization: `Bearer ${secret}` } });
+      if (response.status === 401) {
+        setSecret("");
+        setError("Anahtar geçersiz");
+        return;
+      }
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error || `HTTP ${response.status}`);
+        return;
+      }
+      setSummary(body as OpsSummary);
+    } catch (err) {
+      trackError(err instanceof Error ? err : String(err), "opsLoad");
+      setError("Özet yüklenemedi");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [secret, setSecret]);
+
+  // Bütçe raporu özetten bağımsız; hata olursa yalnızca rapor boş kalır
+  const loadBudget = useCallback(async (days: number) => {
+    if (!secret) return;
+    try {
+      const response = await fetch(`${BUDGET_ENDPOINT}?days=${days}`, { headers: { Authorization: `Bearer ${secret}` } });
+      if (!response.ok) {
+        setBudget(null);
+        return;
+      }
+      setBudget((await response.json()) as BudgetReport);
+    } catch (err) {
+      trackError(err instanceof Error ? err : String(err), "opsBudgetLoad");
+      setBudget(null);
+    }
+  }, [secret]);
+
+  return { secret, setSecret, summary, budget, isLoading, error, load, loadBudget };
+}
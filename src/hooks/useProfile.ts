@@ -0,0 +1,132 @@
+"use client";
+
+/**
+ * useProfile Hook
+ * İsteğe bağlı oyuncu profili — auth uid'ye bağlı kariyer istatistikleri
+ *
+ * - Profil yoksa hiçbir şey yazılmaz (anonim oyun aynen devam eder)
+ * - trackRoom(): her roundEnd'de bu oyuncunun satırını toplar, gameOver'da
+ *   oyunu tek transaction ile profile işler
+ * - recordSoloResult(): tek oyuncu / Günün Turu sonucu
+ * - lastBests: son oyundan sonra kişisel rekorlar (GameOverModal)
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Room } from "@/types";
+import { getAuthUid } from "@/config/firebase";
+import {
+  CareerGame,
+  CareerRound,
+  PersonalBests,
+  PlayerProfile,
+  buildCareerGame,
+  careerGameFromSolo,
+  collectRound,
+  createPlayerProfile,
+  personalBests,
+} from "@/services/playerProfile";
+import { createFirebaseProfileStorage } from "@/services/firebaseProfileStorage";
+import { SoloResult } from "@/services/soloGame";
+import { trackError } from "@/utils/telemetry";
+
+const profileStorage = createFirebaseProfileStorage();
+
+export function useProfile() {
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastBests, setLastBests] = useState<PersonalBests | null>(null);
+
+  // Oda başına toplanan turlar + işlenmiş oyunlar
+  const collectedRef = useRef<{ roomId: string; rounds: CareerRound[] }>({ roomId: "", rounds: [] });
+  const recordedRef = useRef<Set<string>>(new Set());
+
+  const refresh = useCallback(async () => {
+    try {
+      const uid = await getAuthUid();
+      setProfile(await profileStorage.getProfile(uid));
+    } catch (err) {
+      trackError(err instanceof Error ? err : String(err), "profileLoad");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createProfile = useCallback(async (name: string) => {
+    try {
+      const uid = await getAuthUid();
+      await profileStorage.createProfile(uid, createPlayerProfile(name, Date.now()));
+    } catch (err) {
+      trackError(err instanceof Error ? err : String(err), "profileCreate");
+    }
+    await refresh();
+  }, [refresh]);
+
+  const deleteProfile = useCallback(async () => {
+    try {
+      const uid = await getAuthUid();
+      await profileStorage.deleteProfile(uid);
+      setProfile(null);
+      setLastBests(null);
+    } catch (err) {
+      trackError(err instanceof Error ? err : String(err), "profileDelete");
+    }
+  }, []);
+
+  const recordGame = useCallback(async (game: CareerGame) => {
+    if (!profile || recordedRef.current.has(game.id)) return;
+    recordedRef.current.add(game.id);
+    try {
+      const uid = await getAuthUid();
+      const result = await profileStorage.recordGame(uid, game);
+      if (!result) return;
+      setProfile(result.after);
+      setLastBests(personalBests(result.before, result.after));
+    } catch (err) {
+      trackError(err instanceof Error ? err : String(err), "profileRecord");
+    }
+  }, [profile]);
+
+  /** Multiplayer: her oda güncellemesinde çağrılır */
+  const trackRoom = useCallback((room: Room, playerId: string) => {
+    const collected = collectedRef.current;
+    if (collected.roomId !== room.id) {
+      collectedRef.current = { roomId: room.id, rounds: [] };
+    }
+    if (room.status !== "gameOver") setLastBests(null);
+    if (room.status === "waiting") {
+      collectedRef.current.rounds = [];
+      return;
+    }
+
+    const round = collectRound(room, playerId);
+    if (round && !collectedRef.current.rounds.some((r) => r.round === round.round)) {
+      collectedRef.current.rounds.push(round);
+    }
+
+    if (room.status === "gameOver") {
+      const game = buildCareerGame(room, playerId, collectedRef.current.rounds);
+      if (game) void recordGame(game);
+    }
+  }, [recordGame]);
+
+  const recordSoloResult = useCallback(async (result: SoloResult) => {
+    await recordGame(careerGameFromSolo(result));
+  }, [recordGame]);
+
+  const clearLastBests = useCallback(() => setLastBests(null), []);
+
+  return {
+    profile,
+    isLoading,
+    lastBests,
+    createProfile,
+    deleteProfile,
+    trackRoom,
+    recordSoloResult,
+    clearLastBests,
+  };
+}
@@ -0,0 +1,259 @@
+"use client";
+
+/**
+ * useSoloGame Hook
+ * Firebase'siz tek oyunculu mod — oda, presence ve skor endpoint'i yok
+ *
+ * - Oyun durumu services/soloGame (saf geçişler) ile yerel Room olarak tutulur;
+ *   GameScreen / RoundEndModal / GameOverModal multiplayer ile aynı
+ * - Turları sunucu dağıtır (soloRoundAuthority — tarayıcıda paket yok); cevap
+ *   tur bitince tahminle birlikte sunucudan açılır, puan yerelde de hesaplanır
+ *   (Günün Turu liderlik puanını sunucu verir)
+ * - Her adım localStorage'a yazılır: sayfa yenilense de "Devam et" ile sürer
+ * - Biten oyunlar sonuç geçmişine eklenir (en yeni önce)
+ * - Günün Turu da bir solo oyundur (run.daily = tarih) — bitince onFinished
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Coordinates, GameMode, RoundAnswer, RoundPano } from "@/types";
+import { USE_MEMORY_DATABASE, getAuthToken, getAuthUid } from "@/config/firebase";
+import { loadPack } from "@/services/panoPacks";
+import { createClientPanoResolver } from "@/services/panoResolver";
+import { getDailyMode, loadDailyPackages } from "@/services/dailyChallenge";
+import { createRemoteSoloRoundAuthority, createSoloDraw, createSoloRoundAuthority } from "@/services/soloRoundAuthority";
+import { createFirebaseSoloRoundStorage } from "@/services/firebaseSoloRoundStorage";
+import { createFirebaseDailyLeaderboard } from "@/services/firebaseDailyLeaderboard";
+import { createFirebaseReportStorage } from "@/services/firebaseReportStorage";
+import {
+  SoloRun,
+  SoloResult,
+  SoloStep,
+  SOLO_PLAYER_ID,
+  createSoloRun,
+  soloRunId,
+  startSoloRound,
+  soloGuessRejection,
+  submitSoloGuess,
+  endSoloRound,
+  restartSoloRun,
+  resumeSoloRun,
+  summarizeSoloRun,
+  loadSoloRun,
+  saveSoloRun,
+  clearSoloRun,
+  loadSoloResults,
+  saveSoloResult,
+} from "@/services/soloGame";
+
+// Solo turları da sunucu otoritesinden; memory backend'de sunucu yok → sayfada
+const soloStorage = createFirebaseSoloRoundStorage();
+const panoResolver = USE_MEMORY_DATABASE ? createClientPanoResolver() : undefined;
+const soloRounds = USE_MEMORY_DATABASE
+  ? createSoloRoundAuthority(soloStorage, {
+      draw: createSoloDraw({ loadPack, resolver: panoResolver }),
+      resolver: panoResolver,
+      dailyPackages: async (dateKey) => {
+        await loadPack(getDailyMode(dateKey));
+        return loadDailyPackages(dateKey, soloStorage, Date.now(), await createFirebaseReportStorage().getQuarantine());
+      },
+      dailyRuns: soloStorage,
+      dailyLeaderboard: createFirebaseDailyLeaderboard(),
+    })
+  : createRemoteSoloRoundAuthority(getAuthToken);
+
+/** Answer of the run's current round from the server, sent with the guess (null = not available, logged) */
+async function revealAnswer(run: SoloRun, guess: Coordinates | null): Promise<RoundAnswer | null> {
+  try {
+    const outcome = await soloRounds.revealSoloRound(await getAuthUid(), {
+      runId: soloRunId(run),
+      roundId: run.room.currentRound,
+      guess,
+    });
+    if (outcome.revealed && outcome.answer) return outcome.answer;
+    console.warn(`[Solo] reveal rejected: ${outcome.reason}`);
+  } catch (err) {
+    console.warn("[Solo] reveal failed:", err);
+  }
+  return null;
+}
+
+interface UseSoloGameOptions {
+  onFinished?: (result: SoloResult) => void;
+}
+
+export function useSoloGame({ onFinished }: UseSoloGameOptions = {}) {
+  const [run, setRun] = useState<SoloRun | null>(null);
+  const [savedRun, setSavedRun] = useState<SoloRun | null>(null);
+  const [results, setResults] = useState<SoloResult[]>([]);
+  const runRef = useRef<SoloRun | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  // localStorage sadece client'ta — mount'ta oku
+  useEffect(() => {
+    setSavedRun(loadSoloRun());
+    setResults(loadSoloResults());
+  }, []);
+
+  const commit = useCallback((next: SoloRun | null) => {
+    runRef.current = next;
+    setRun(next);
+    if (next && next.room.status !== "gameOver") {
+      saveSoloRun(next);
+      setSavedRun(next);
+    }
+  }, []);
+
+  const apply = useCallback((step: SoloStep, label: string): boolean => {
+    if (!step.ok) {
+      console.warn(`[Solo] ${label} rejected: ${step.reason}`);
+      return false;
+    }
+    if (step.run.room.status === "gameOver") {
+      const result = summarizeSoloRun(step.run, Date.now());
+      setResults(saveSoloResult(result));
+      clearSoloRun();
+      setSavedRun(null);
+      onFinishedRef.current?.(result);
+    }
+    commit(step.run);
+    return true;
+  }, [commit]);
+
+  const startSolo = useCallback((playerName: string, gameMode: GameMode): SoloRun => {
+    const created = createSoloRun(playerName, gameMode, Date.now());
+    commit(created);
+    return created;
+  }, [commit]);
+
+  /** Günün Turu — sabit tur sayısı, mod tarihten gelir */
+  const startDaily = useCallback((playerName: string, gameMode: GameMode, dateKey: string, totalRounds: number): SoloRun => {
+    const created = createSoloRun(playerName, gameMode, Date.now(), { totalRounds, daily: dateKey });
+    commit(created);
+    return created;
+  }, [commit]);
+
+  /** Kayıtlı oyunu aç — bekleyen (waiting) oyunda ilk turu page yükler */
+  const resumeSolo = useCallback((): SoloRun | null => {
+    const stored = loadSoloRun();
+    if (!stored) {
+      setSavedRun(null);
+      return null;
+    }
+    const resumed = resumeSoloRun(stored, Date.now());
+    commit(resumed);
+    return resumed;
+  }, [commit]);
+
+  /** İlk tur (waiting) ya da sonraki tur (roundEnd) sunucudan — son turdan sonra gameOver */
+  const startRound = useCallback(async (): Promise<boolean> => {
+    const current = runRef.current;
+    if (!current) return false;
+    const { room } = current;
+    if (room.status === "roundEnd" && room.currentRound >= room.totalRounds) {
+      return apply(startSoloRound(current, null, Date.now()), "startRound");
+    }
+
+    try {
+      const outcome = await soloRounds.dealSoloRound(await getAuthUid(), {
+        runId: soloRunId(current),
+        roundId: room.status === "waiting" ? 1 : room.currentRound + 1,
+        mode: room.gameMode || "urban",
+        mapFilter: room.mapFilter || null,
+        daily: current.daily || null,
+        ...(current.daily ? { playerName: room.players[SOLO_PLAYER_ID]?.name } : {}),
+      });
+      if (!outcome.dealt || !outcome.round) {
+        console.warn(`[Solo] deal rejected: ${outcome.reason}`);
+        return false;
+      }
+      if (runRef.current !== current) return false; // oyun bu arada değişti
+      return apply(startSoloRound(current, outcome.round, Date.now()), "startRound");
+    } catch (err) {
+      console.warn("[Solo] deal failed:", err);
+      return false;
+    }
+  }, [apply]);
+
+  /** Süresi dolan pano yerine cevabın yakınındaki pano (sunucu çözer, koordinat gelmez) */
+  const refreshPano = useCallback(async (): Promise<RoundPano | null> => {
+    const current = runRef.current;
+    if (!current || current.room.status !== "playing") return null;
+    try {
+      const outcome = await soloRounds.refreshSoloPano(await getAuthUid(), {
+        runId: soloRunId(current),
+        roundId: current.room.currentRound,
+      });
+      if (outcome.refreshed && outcome.pano) return outcome.pano;
+      console.warn(`[Solo] pano refresh rejected: ${outcome.reason}`);
+    } catch (err) {
+      console.warn("[Solo] pano refresh failed:", err);
+    }
+    return null;
+  }, []);
+
+  const submitGuess = useCallback(
+    async (guess: Coordinates): Promise<{ accepted: boolean; reason?: string }> => {
+      const current = runRef.current;
+      if (!current) return { accepted: false, reason: "no_room" };
+      // Süre tahmin anına göre; cevap ancak tahminden sonra sunucudan gelir
+      const now = Date.now();
+      const rejection = soloGuessRejection(current, now);
+      if (rejection) return { accepted: false, reason: rejection };
+
+      const answer = await revealAnswer(current, guess);
+      if (!answer || runRef.current !== current) return { accepted: false, reason: "reveal_failed" };
+      const step = submitSoloGuess(current, guess, now, answer);
+      if (!step.ok) return { accepted: false, reason: step.reason };
+      apply(step, "submitGuess");
+      return { accepted: true };
+    },
+    [apply]
+  );
+
+  const handleTimeUp = useCallback(async () => {
+    const current = runRef.current;
+    if (!current || current.room.status !== "playing") return;
+    const now = Date.now();
+    const answer = await revealAnswer(current, null);
+    if (!answer || runRef.current !== current) return;
+    apply(endSoloRound(current, now, answer), "timeUp");
+  }, [apply]);
+
+  /** Aynı ayarlarla baştan (ilk tur page tarafından tekrar yüklenir) */
+  const restartSolo = useCallback((): SoloRun | null => {
+    const current = runRef.current;
+    if (!current) return null;
+    const restarted = restartSoloRun(current, Date.now());
+    commit(restarted);
+    return restarted;
+  }, [commit]);
+
+  /** Oyundan çık — bitmemiş oyun kayıtlı kalır, menüden devam edilebilir */
+  const leaveSolo = useCallback(() => {
+    runRef.current = null;
+    setRun(null);
+  }, []);
+
+  const room = run?.room || null;
+  const currentPlayer = room?.players[SOLO_PLAYER_ID] || null;
+
+  return {
+    room,
+    playerId: SOLO_PLAYER_ID,
+    currentPlayer,
+    players: currentPlayer ? [currentPlayer] : [],
+    savedRun,
+    results,
+    daily: run?.daily || null,
+    startSolo,
+    startDaily,
+    resumeSolo,
+    startRound,
+    refreshPano,
+    submitGuess,
+    handleTimeUp,
+    restartSolo,
+    leaveSolo,
+  };
+}
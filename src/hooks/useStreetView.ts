@@ -37,12 +37,15 @@
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { Loader } from "@googlemaps/js-api-loader";
-import { Coordinates, PanoPackage } from "@/types";
+import { Coordinates, PanoPackage, RoundPano } from "@/types";
 import { GOOGLE_MAPS_API_KEY } from "@/config/maps";
-import { generateRandomCoordinates, isLikelyInTurkey, getLocationName } from "@/utils";
+import { generateRandomCoordinates, isLikelyInTurkey } from "@/utils";
+import { findPlace, formatPlace } from "@/services/adminBoundaries";
 import { database, ref, runTransaction } from "@/config/firebase";
 import rateLimiter from "@/utils/rateLimiter";
-import { RATE_LIMITS } from "@/config/production";
+import { API_COST_CONTROL, RATE_LIMITS } from "@/config/production";
+import { trackEvent } from "@/utils/telemetry";
+import { recordStreetViewCalls, setApiBudgetScope } from "@/services/apiBudget";
 
 // Sabitler
 const MAX_ATTEMPTS = 50;
@@ -56,6 +59,11 @@ const HEADING_CONFIDENCE_THRESHOLD = 60; // Derece cinsinden - bu açıdan uzak
 let globalLoader: Loader | null = null;
 let isLoaded = false;
 
+/** What to do when a pano ID fails to load: resolve from known coords, or ask the round authority */
+type PanoFallback =
+  | { location: Coordinates; label: string }
+  | { refresh: () => Promise<RoundPano | null> };
+
 // ==================== NAVIGATION METRICS ====================
 // Production observability: counters for monitoring navigation health
 export interface NavigationMetrics {
@@ -164,6 +172,33 @@ function logCostMetrics(event: string, extra: Record<string, string | number> =
   console.log(parts.join(" "));
 }
 
+/**
+ * Report the finished round's metadata cost ("streetViewCost" → ops dashboard,
+ * panoLoad → apiBudget ledger) and zero the per-round counters. Runs when the
+ * next round's pano is shown and on unmount, so every round is reported once.
+ */
+function flushRoundCost(): void {
+  const calls = navigationMetrics.resolveFromCoordsCallCountPerRound + navigationMetrics.googleInternalMetadataEstimate;
+  if (calls > 0) {
+    trackEvent("streetViewCost", {
+      calls,
+      resolveCalls: navigationMetrics.resolveFromCoordsCallCountPerRound,
+      setPanoCalls: navigationMetrics.setPanoCallCount,
+      revertCalls: navigationMetrics.revertPanoCallCount,
+      fallbackCalls: navigationMetrics.fallbackMetadataCallCount,
+      costUsd: calls * API_COST_CONTROL.STREET_VIEW_COST_PER_CALL,
+    });
+    // Ortak günlük bütçe defterine de yaz (pano yüklemeleri reddedilemez, sadece sayılır)
+    recordStreetViewCalls("panoLoad", calls);
+  }
+  navigationMetrics.resolveFromCoordsCallCountPerRound = 0;
+  navigationMetrics.resolveFromCoordsCallCountOnRevisit = 0;
+  navigationMetrics.googleInternalMetadataEstimate = 0;
+  navigationMetrics.setPanoCallCount = 0;
+  navigationMetrics.revertPanoCallCount = 0;
+  navigationMetrics.fallbackMetadataCallCount = 0;
+}
+
 export function useStreetView(roomId?: string, playerId?: string) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -434,13 +469,8 @@ export function useStreetView(roomId?: string, playerId?: string) {
       // Başlangıç pano'sunu cache'e ekle
       visitedPanosRef.current.add(panoId);
 
-      // v4: Reset per-round cost metrics
-      navigationMetrics.resolveFromCoordsCallCountPerRound = 0;
-      navigationMetrics.resolveFromCoordsCallCountOnRevisit = 0;
-      navigationMetrics.googleInternalMetadataEstimate = 0;
-      navigationMetrics.setPanoCallCount = 0;
-      navigationMetrics.revertPanoCallCount = 0;
-      navigationMetrics.fallbackMetadataCallCount = 0;
+      // v4: Reset per-round cost metrics (previous round reported first)
+      flushRoundCost();
 
       // Mobil cihaz tespiti — UA regex fails on modern iPadOS (reports as Mac).
       // Use pointer:coarse as primary check, fall back to UA for older browsers.
@@ -868,9 +898,15 @@ export function useStreetView(roomId?: string, playerId?: string) {
     [initializeGoogleMaps, calculateClickHeading, findNearestLink, navigateToLink]
   );
 
-  // Cleanup on unmount — listeners, panorama instance, timers
+  // API bütçe kapsamı: multiplayer'da oda kodu, solo'da oyuncunun kendisi
+  useEffect(() => {
+    setApiBudgetScope(roomId || null);
+  }, [roomId]);
+
+  // Cleanup on unmount — listeners, panorama instance, timers, last round's cost
   useEffect(() => {
     return () => {
+      flushRoundCost();
       if (cleanupFnRef.current) {
         cleanupFnRef.current();
         cleanupFnRef.current = null;
@@ -946,16 +982,21 @@ export function useStreetView(roomId?: string, playerId?: string) {
    *
    * The fallback uses a status_changed listener that fires when the pano fails to load.
    * This is a lazy-evaluation pattern: only pay for fallback when actually needed.
+   *
+   * Dealt rounds (solo + multiplayer): the answer's coordinates are hidden until
+   * roundEnd, so the fallback is { refresh } — the round authority resolves a fresh
+   * pano near the answer and returns only its ID. null = straight to the failure state.
    */
-  const showPanoPackage = useCallback(
-    async (panoPackage: PanoPackage) => {
+  const loadPano = useCallback(
+    async (pano: RoundPano, fallback: PanoFallback | null) => {
       setIsLoading(true);
       try {
         await initializeGoogleMaps();
         resetMoves();
 
-        const panoId = panoPackage.pano0.panoId;
-        const heading = panoPackage.pano0.heading;
+        const panoId = pano.panoId;
+        const heading = pano.heading;
+        const label = (fallback && "label" in fallback && fallback.label) || panoId.substring(0, 12);
 
         if (!streetViewServiceRef.current) {
           streetViewServiceRef.current = new google.maps.StreetViewService();
@@ -988,13 +1029,59 @@ export function useStreetView(roomId?: string, playerId?: string) {
             }
           };
 
+          const failLoad = (message: string) => {
+            console.error(message);
+            // BUG-2 FIX: Show user-visible failure state instead of silent black screen
+            setPanoLoadFailed(true);
+            setError("Street View yüklenemedi");
+          };
+
+          const showFreshPano = (freshPanoId: string) => {
+            console.log(`[Nav] Fresh pano resolved: ${freshPanoId.substring(0, 20)}...`);
+
+            // Update all tracking refs
+            startPanoIdRef.current = freshPanoId;
+            lastPanoIdRef.current = freshPanoId;
+            visitedPanosRef.current.add(freshPanoId);
+            expectedPanoRef.current = freshPanoId;
+
+            if (panoramaRef.current) {
+              panoramaRef.current.setPano(freshPanoId);
+              panoramaRef.current.setPov({ heading, pitch: 0 });
+              navigationMetrics.setPanoCallCount++;
+              navigationMetrics.googleInternalMetadataEstimate++; // setPano triggers Google-internal
+            }
+
+            loadSucceeded = true;
+            logCostMetrics("fallbackSuccess", { pano: freshPanoId.substring(0, 12) });
+          };
+
           const triggerFallback = (status: string) => {
             if (fallbackTriggered) return;
             fallbackTriggered = true;
             clearTimeoutGuard();
 
+            if (!fallback) {
+              failLoad(`[Nav] Pano ID failed (status=${status}) and no coords to resolve from: ${label}`);
+              return;
+            }
+
+            if ("refresh" in fallback) {
+              // Koordinatlar sunucuda — yeni pano ID'sini otorite çözer (arama sunucuda sayılır)
+              console.warn(`[Nav] Pano ID expired (status=${status}), asking the round authority for a fresh one: ${label}`);
+              logCostMetrics("fallbackResolve", { reason: "panoExpired", status });
+              fallback.refresh().then(
+                (fresh) => {
+                  if (fresh && fresh.panoId !== panoId) showFreshPano(fresh.panoId);
+                  else failLoad(`[Nav] No fresh pano from the round authority for ${label}`);
+                },
+                (err) => failLoad(`[Nav] Pano refresh failed for ${label}: ${err}`)
+              );
+              return;
+            }
+
             // PanoId is invalid — fallback to coords-based resolution
-            console.warn(`[Nav] Pano ID expired (status=${status}), resolving from coords: ${panoPackage.locationName}`);
+            console.warn(`[Nav] Pano ID expired (status=${status}), resolving from coords: ${label}`);
             // v4: This IS a real getPanorama call — count it
             navigationMetrics.resolveFromCoordsCallCountPerRound++;
             navigationMetrics.fallbackMetadataCallCount++;
@@ -1002,36 +1089,16 @@ export function useStreetView(roomId?: string, playerId?: string) {
 
             streetViewServiceRef.current!.getPanorama(
               {
-                location: { lat: panoPackage.pano0.lat, lng: panoPackage.pano0.lng },
+                location: fallback.location,
                 radius: 1000,
                 preference: google.maps.StreetViewPreference.NEAREST,
                 source: google.maps.StreetViewSource.OUTDOOR,
               },
               (data, freshStatus) => {
                 if (freshStatus === google.maps.StreetViewStatus.OK && data?.location?.pano) {
-                  const freshPanoId = data.location.pano;
-                  console.log(`[Nav] Fresh pano resolved: ${freshPanoId.substring(0, 20)}...`);
-
-                  // Update all tracking refs
-                  startPanoIdRef.current = freshPanoId;
-                  lastPanoIdRef.current = freshPanoId;
-                  visitedPanosRef.current.add(freshPanoId);
-                  expectedPanoRef.current = freshPanoId;
-
-                  if (panoramaRef.current) {
-                    panoramaRef.current.setPano(freshPanoId);
-                    panoramaRef.current.setPov({ heading, pitch: 0 });
-                    navigationMetrics.setPanoCallCount++;
-                    navigationMetrics.googleInternalMetadataEstimate++; // setPano triggers Google-internal
-                  }
-
-                  loadSucceeded = true;
-                  logCostMetrics("fallbackSuccess", { pano: freshPanoId.substring(0, 12) });
+                  showFreshPano(data.location.pano);
                 } else {
-                  console.error(`[Nav] Could not resolve pano from coords for ${panoPackage.locationName}`);
-                  // BUG-2 FIX: Show user-visible failure state instead of silent black screen
-                  setPanoLoadFailed(true);
-                  setError("Street View yüklenemedi");
+                  failLoad(`[Nav] Could not resolve pano from coords for ${label}`);
                 }
               }
             );
@@ -1069,7 +1136,7 @@ export function useStreetView(roomId?: string, playerId?: string) {
             panoLoadTimeoutRef.current = setTimeout(() => {
               panoLoadTimeoutRef.current = null;
               if (!loadSucceeded && !fallbackTriggered) {
-                console.warn(`[Nav] setPano timeout (10s) — triggering fallback for ${panoPackage.locationName}`);
+                console.warn(`[Nav] setPano timeout (10s) — triggering fallback for ${label}`);
                 triggerFallback("TIMEOUT");
               }
             }, 10000);
@@ -1086,6 +1153,22 @@ export function useStreetView(roomId?: string, playerId?: string) {
     [initializeGoogleMaps, showStreetView, resetMoves]
   );
 
+  /** Full package (solo / host-side): expired pano falls back to pano0 coords */
+  const showPanoPackage = useCallback(
+    (panoPackage: PanoPackage) =>
+      loadPano(
+        { panoId: panoPackage.pano0.panoId, heading: panoPackage.pano0.heading },
+        { location: { lat: panoPackage.pano0.lat, lng: panoPackage.pano0.lng }, label: panoPackage.locationName }
+      ),
+    [loadPano]
+  );
+
+  /** Dealt round: only the published pano ID is known until roundEnd — an expired one is refreshed by the authority */
+  const showRoundPano = useCallback(
+    (pano: RoundPano, refresh?: () => Promise<RoundPano | null>) => loadPano(pano, refresh ? { refresh } : null),
+    [loadPano]
+  );
+
   const showStreetViewFromCoords = useCallback(
     async (coords: Coordinates) => {
       await initializeGoogleMaps();
@@ -1167,7 +1250,7 @@ export function useStreetView(roomId?: string, playerId?: string) {
           };
 
           if (isLikelyInTurkey(coords)) {
-            const locationName = await getLocationName(coords);
+            const locationName = formatPlace(findPlace(coords)) || "Türkiye";
             return {
               coordinates: coords,
               panoId: result.location.pano || "",
@@ -1220,6 +1303,11 @@ export function useStreetView(roomId?: string, playerId?: string) {
     return { heading: pov.heading || 0, pitch: pov.pitch || 0 };
   }, []);
 
+  const getCurrentPosition = useCallback((): Coordinates | null => {
+    const position = panoramaRef.current?.getPosition();
+    return position ? { lat: position.lat(), lng: position.lng() } : null;
+  }, []);
+
   return {
     isLoading,
     error,
@@ -1229,9 +1317,11 @@ export function useStreetView(roomId?: string, playerId?: string) {
     // Yerine read-only accessor'lar:
     getCurrentPanoId,
     getCurrentPov,
+    getCurrentPosition,
     loadNewLocation,
     showStreetView,
     showPanoPackage,
+    showRoundPano,
     showStreetViewFromCoords,
     initializeGoogleMaps,
     // Hareket sistemi
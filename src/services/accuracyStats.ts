@@ -0,0 +1,243 @@
+/**
+ * Accuracy Stats — how hard each place is for real players
+ *
+ * Collection: every round the scoring authority scores becomes one sample
+ * batch (accuracy/samples/{sampleId}) — one sample per player who actually
+ * guessed: package id, il (correctProvince the scoring already resolved),
+ * bölge, score, distance.
+ *
+ * Aggregation job (app/api/aggregate-accuracy → runAccuracyAggregation):
+ * folds the pending samples into running buckets and publishes the public
+ * snapshot (accuracy/stats) in one transaction on the accuracy node, then the
+ * folded samples are gone — re-running the job never counts a sample twice.
+ *
+ * Buckets keep sums + a 100-point score histogram, so the median score is
+ * exact to the bucket without keeping every sample:
+ *   per PanoPackage.id (curated packages only — dynamic ids are one-off),
+ *   per il, per bölge → guesses, average distance, median score
+ *
+ * Consumers: guess map heatmap (useGuessMap), /bolgeler/[slug], /sehirler/[slug].
+ */
+
+import { Room, RegionId, MAP_REGIONS, SCORING } from "@/types";
+import { TransactionOutcome, TransactionUpdater } from "./roomStorage";
+import type { DifficultyCalibration } from "./difficultyCalibration";
+
+// ==================== CONSTANTS ====================
+
+const SCORE_BUCKET_SIZE = 100;
+const NO_GUESS_DISTANCE = 9999;
+/** Below this many guesses a place is shown as "yetersiz veri" */
+export const ACCURACY_MIN_GUESSES = 5;
+
+// ==================== TYPES ====================
+
+export interface AccuracySample {
+  packageId: string;
+  province: string | null;
+  region: RegionId | null;
+  score: number;
+  distance: number;   // km
+}
+
+/** Running sums for one place */
+export interface AccuracyBucket {
+  guesses: number;
+  totalDistance: number;
+  scoreBuckets: Record<string, number>;   // floor(score / 100) → count
+}
+
+export interface AccuracyStats {
+  guesses: number;
+  averageDistance: number;   // km
+  medianScore: number;
+}
+
+export interface AccuracyAggregate {
+  packages: Record<string, AccuracyBucket>;
+  provinces: Record<string, AccuracyBucket>;
+  regions: Partial<Record<RegionId, AccuracyBucket>>;
+}
+
+/** accuracy/stats — public */
+export interface AccuracySnapshot {
+  updatedAt: number;
+  packages: Record<string, AccuracyStats>;
+  provinces: Record<string, AccuracyStats>;
+  regions: Partial<Record<RegionId, AccuracyStats>>;
+}
+
+/** accuracy/ — samples + aggregate are server-only, stats + calibration are public */
+export interface AccuracyNode {
+  samples?: Record<string, AccuracySample[]>;
+  aggregate?: AccuracyAggregate;
+  stats?: AccuracySnapshot;
+  calibration?: DifficultyCalibration;
+}
+
+export interface AccuracySampleSink {
+  addSamples(sampleId: string, samples: AccuracySample[]): Promise<void>;
+}
+
+export interface AccuracyStorage extends AccuracySampleSink {
+  getSnapshot(): Promise<AccuracySnapshot | null>;
+  /** Observed package tiers (difficultyCalibration.ts) */
+  getCalibration(): Promise<DifficultyCalibration | null>;
+  setCalibration(calibration: DifficultyCalibration): Promise<void>;
+  transactAccuracy(updater: TransactionUpdater<AccuracyNode>): Promise<TransactionOutcome<AccuracyNode>>;
+}
+
+// ==================== COLLECTION ====================
+
+/** Samples of a round the authority just scored (players who guessed) */
+export function samplesFromRoom(room: Room): AccuracySample[] {
+  const pkg = room.currentPanoPackage;
+  if (!pkg?.id || !Array.isArray(room.roundResults)) return [];
+  return room.roundResults
+    .filter((r) => r.distance < NO_GUESS_DISTANCE)
+    .map((r) => ({
+      packageId: pkg.id,
+      province: r.correctProvince ?? null,
+      region: pkg.region && pkg.region in MAP_REGIONS ? pkg.region : null,
+      score: r.score,
+      distance: Math.round(r.distance * 10) / 10,
+    }));
+}
+
+/** accuracy/samples key — one per scored round */
+export function sampleIdFor(room: Room): string {
+  return `${room.id}_${room.roundStartTime || 0}_${room.currentRound}`;
+}
+
+// ==================== AGGREGATION ====================
+
+export function emptyAggregate(): AccuracyAggregate {
+  return { packages: {}, provinces: {}, regions: {} };
+}
+
+function addToBucket(bucket: AccuracyBucket | undefined, sample: AccuracySample): AccuracyBucket {
+  const key = String(Math.floor(Math.min(Math.max(sample.score, 0), SCORING.maxScore) / SCORE_BUCKET_SIZE));
+  const scoreBuckets = { ...(bucket?.scoreBuckets || {}) };
+  scoreBuckets[key] = (scoreBuckets[key] || 0) + 1;
+  return {
+    guesses: (bucket?.guesses || 0) + 1,
+    totalDistance: Math.round(((bucket?.totalDistance || 0) + sample.distance) * 10) / 10,
+    scoreBuckets,
+  };
+}
+
+/** Pure fold — dynamic package ids only count towards il / bölge */
+export function foldSamples(aggregate: AccuracyAggregate, samples: AccuracySample[]): AccuracyAggregate {
+  const next: AccuracyAggregate = {
+    packages: { ...(aggregate.packages || {}) },
+    provinces: { ...(aggregate.provinces || {}) },
+    regions: { ...(aggregate.regions || {}) },
+  };
+  samples.forEach((sample) => {
+    if (!sample.packageId.startsWith("dyn")) {
+      next.packages[sample.packageId] = addToBucket(next.packages[sample.packageId], sample);
+    }
+    if (sample.province) {
+      next.provinces[sample.province] = addToBucket(next.provinces[sample.province], sample);
+    }
+    if (sample.region) {
+      next.regions[sample.region] = addToBucket(next.regions[sample.region], sample);
+    }
+  });
+  return next;
+}
+
+/** Median from the histogram: bucket midpoints of the middle guess(es) */
+export function summarizeBucket(bucket: AccuracyBucket): AccuracyStats {
+  const keys = Object.keys(bucket.scoreBuckets || {}).map(Number).sort((a, b) => a - b);
+  const scoreAt = (position: number): number => {
+    let seen = 0;
+    for (const key of keys) {
+      seen += bucket.scoreBuckets[String(key)];
+      if (seen >= position) return Math.min(key * SCORE_BUCKET_SIZE + SCORE_BUCKET_SIZE / 2, SCORING.maxScore);
+    }
+    return 0;
+  };
+  const middle = (bucket.guesses + 1) / 2;
+  return {
+    guesses: bucket.guesses,
+    averageDistance: bucket.guesses > 0 ? Math.round((bucket.totalDistance / bucket.guesses) * 10) / 10 : 0,
+    medianScore: bucket.guesses > 0 ? Math.round((scoreAt(Math.floor(middle)) + scoreAt(Math.ceil(middle))) / 2) : 0,
+  };
+}
+
+export function buildAccuracySnapshot(aggregate: AccuracyAggregate, now: number): AccuracySnapshot {
+  const summarize = <K extends string>(buckets: Partial<Record<K, AccuracyBucket>>) => {
+    const stats: Partial<Record<K, AccuracyStats>> = {};
+    (Object.keys(buckets) as K[]).forEach((key) => {
+      stats[key] = summarizeBucket(buckets[key]!);
+    });
+    return stats;
+  };
+  return {
+    updatedAt: now,
+    packages: summarize(aggregate.packages) as Record<string, AccuracyStats>,
+    provinces: summarize(aggregate.provinces) as Record<string, AccuracyStats>,
+    regions: summarize(aggregate.regions),
+  };
+}
+
+/**
+ * The aggregation job: fold every pending sample and publish the snapshot
+ * atomically. Returns how many samples were folded (0 = nothing pending).
+ */
+export async function runAccuracyAggregation(storage: AccuracyStorage, now: number): Promise<number> {
+  let folded = 0;
+  const outcome = await storage.transactAccuracy((current) => {
+    const pending = Object.values(current?.samples || {}).flat();
+    if (pending.length === 0) return undefined;
+    folded = pending.length;
+    const aggregate = foldSamples(current?.aggregate || emptyAggregate(), pending);
+    // Folded samples go; the published calibration stays
+    const { samples: _folded, ...rest } = current || {};
+    return { ...rest, aggregate, stats: buildAccuracySnapshot(aggregate, now) };
+  });
+  return outcome.committed ? folded : 0;
+}
+
+// ==================== PRESENTATION ====================
+
+/** 0 = easy … 1 = hard (from the median score); null = not enough guesses */
+export function accuracyHeat(stats: AccuracyStats | undefined): number | null {
+  if (!stats || stats.guesses < ACCURACY_MIN_GUESSES) return null;
+  return Math.round((1 - stats.medianScore / SCORING.maxScore) * 100) / 100;
+}
+
+/** il adı → heat, only provinces with enough guesses (guess map layer) */
+export function provinceHeatMap(snapshot: AccuracySnapshot | null): Record<string, number> {
+  const heat: Record<string, number> = {};
+  Object.entries(snapshot?.provinces || {}).forEach(([province, stats]) => {
+    const value = accuracyHeat(stats);
+    if (value !== null) heat[province] = value;
+  });
+  return heat;
+}
+
+/** Green → yellow → red */
+export function heatColor(heat: number): string {
+  const hue = Math.round(120 * (1 - Math.min(Math.max(heat, 0), 1)));
+  return `hsl(${hue}, 75%, 45%)`;
+}
+
+export function heatLabel(heat: number | null): string {
+  if (heat === null) return "Yetersiz veri";
+  if (heat < 0.35) return "Kolay";
+  if (heat < 0.65) return "Orta";
+  return "Zor";
+}
+
+/** Combined stats of several packages (a /sehirler page covers all packages of a place) */
+export function combinePackageStats(snapshot: AccuracySnapshot | null, packageIds: string[]): AccuracyStats | undefined {
+  const parts = packageIds.map((id) => snapshot?.packages?.[id]).filter((s): s is AccuracyStats => !!s);
+  if (parts.length === 0) return undefined;
+  const guesses = parts.reduce((sum, s) => sum + s.guesses, 0);
+  // Guess-weighted; the median of medians is an approximation across packages
+  const weighted = (pick: (s: AccuracyStats) => number) =>
+    Math.round((parts.reduce((sum, s) => sum + pick(s) * s.guesses, 0) / guesses) * 10) / 10;
+  return { guesses, averageDistance: weighted((s) => s.averageDistance), medianScore: Math.round(weighted((s) => s.medianScore)) };
+}
@@ -0,0 +1,83 @@
+/**
+ * Adaptive Difficulty — the room's tier mix follows how well it plays
+ *
+ * With Room.adaptiveDifficulty set, the host picks each round's package from
+ * a mix shifted by the room's recent average round score instead of the
+ * fixed DIFFICULTY_MIX (15/55/30):
+ *
+ *   average over the last ADAPTIVE_WINDOW_ROUNDS rounds of every player
+ *   → position p = (average − pivot) / pivot, clamped to −1..1
+ *   → easy −p·maxShift, hard +p·maxShift, medium takes the rest
+ *
+ * Strong rooms get more hard packages, struggling rooms more easy ones;
+ * maxShift (ADAPTIVE_DIFFICULTY_LEVELS) bounds how far the mix can move and
+ * no tier drops below ADAPTIVE_MIN_SHARE. Round 1 has no scores yet → base mix.
+ *
+ * The mix is host-side only (the host selects packages); the lobby shows it
+ * and page.tsx logs it through telemetry ("difficultyMix") for tuning.
+ */
+
+import { Room, SCORING, ADAPTIVE_DIFFICULTY_LEVELS, AdaptiveDifficultyId } from "@/types";
+import { DIFFICULTY_MIX, DifficultyMix } from "./locationEngine";
+
+// ==================== CONSTANTS ====================
+
+/** How many of each player's latest rounds count towards the average */
+export const ADAPTIVE_WINDOW_ROUNDS = 3;
+
+/** Average round score at which the mix stays at DIFFICULTY_MIX */
+export const ADAPTIVE_PIVOT_SCORE = SCORING.maxScore / 2;
+
+/** Every tier keeps at least this share */
+export const ADAPTIVE_MIN_SHARE = 0.05;
+
+// ==================== TYPES ====================
+
+export interface RoomDifficultyMix {
+  mix: DifficultyMix;
+  average: number | null;               // recent average round score (null = no rounds yet)
+  level: AdaptiveDifficultyId | null;   // null = adaptive off
+}
+
+// ==================== MIX ====================
+
+/**
+ * Average round score of the room's last `window` rounds (every player's own
+ * latest rounds, so late joiners count too). null = nobody has scored yet.
+ */
+export function recentAverageScore(room: Room, window: number = ADAPTIVE_WINDOW_ROUNDS): number | null {
+  const scores: number[] = [];
+  Object.values(room.players || {}).forEach((player) => {
+    // RTDB may hand arrays back as index-keyed objects
+    const rounds = Array.isArray(player.roundScores) ? player.roundScores : Object.values(player.roundScores || {});
+    rounds.slice(-window).forEach((score) => {
+      if (typeof score === "number" && Number.isFinite(score)) scores.push(score);
+    });
+  });
+  if (scores.length === 0) return null;
+  return Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length);
+}
+
+/** Pure: tier mix for a room average, shifted at most `maxShift` per tier */
+export function adaptiveMix(average: number | null, maxShift: number): DifficultyMix {
+  if (average === null) return { ...DIFFICULTY_MIX };
+  const position = Math.min(Math.max((average - ADAPTIVE_PIVOT_SCORE) / ADAPTIVE_PIVOT_SCORE, -1), 1);
+  const shift = position * maxShift;
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const easy = round(Math.max(DIFFICULTY_MIX.easy - shift, ADAPTIVE_MIN_SHARE));
+  const hard = round(Math.max(DIFFICULTY_MIX.hard + shift, ADAPTIVE_MIN_SHARE));
+  return { easy, medium: round(1 - easy - hard), hard };
+}
+
+/** The mix the host should select the room's next package with */
+export function roomDifficultyMix(room: Room): RoomDifficultyMix {
+  const level = room.adaptiveDifficulty && ADAPTIVE_DIFFICULTY_LEVELS[room.adaptiveDifficulty] ? room.adaptiveDifficulty : null;
+  const average = recentAverageScore(room);
+  if (!level) return { mix: { ...DIFFICULTY_MIX }, average, level: null };
+  return { mix: adaptiveMix(average, ADAPTIVE_DIFFICULTY_LEVELS[level].maxShift), average, level };
+}
+
+/** "15/55/30" — easy/medium/hard percentages */
+export function formatDifficultyMix(mix: DifficultyMix): string {
+  return [mix.easy, mix.medium, mix.hard].map((share) => Math.round(share * 100)).join("/");
+}
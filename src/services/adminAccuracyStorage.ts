@@ -0,0 +1,72 @@
+/**
+ * Admin Accuracy Storage — server-only writer of accuracy/
+ *
+ * Same REST + database secret access as adminRoomStorage. Samples are plain
+ * PUTs (one key per scored round, and a round is scored once); the
+ * aggregation job is one ETag transaction over the whole accuracy node, so a
+ * sample written mid-job makes the job retry instead of getting lost.
+ *
+ * loadAccuracySnapshot() serves the statically rendered /sehirler and
+ * /bolgeler pages (build time + ISR), so they never load the Firebase client.
+ */
+
+import { AdminRoomStorageOptions, DEFAULT_MAX_RETRIES, adminTransaction } from "./adminRoomStorage";
+import { AccuracyNode, AccuracySnapshot, AccuracyStorage } from "./accuracyStats";
+import { DifficultyCalibration } from "./difficultyCalibration";
+
+export function createAdminAccuracyStorage(options: AdminRoomStorageOptions): AccuracyStorage {
+  const { databaseURL, secret, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const fetchImpl = options.fetchImpl || fetch;
+  const baseUrl = databaseURL.replace(/\/+$/, "");
+  const url = (path: string) => `${baseUrl}/${path}.json?auth=${encodeURIComponent(secret)}`;
+
+  return {
+    async addSamples(sampleId, samples) {
+      if (samples.length === 0) return;
+      const response = await fetchImpl(url(`accuracy/samples/${encodeURIComponent(sampleId)}`), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(samples),
+      });
+      if (!response.ok) throw new Error(`[AdminStorage] PUT accuracy/samples/${sampleId} failed: HTTP ${response.status}`);
+    },
+
+    async getSnapshot() {
+      const response = await fetchImpl(url("accuracy/stats"));
+      if (!response.ok) throw new Error(`[AdminStorage] GET accuracy/stats failed: HTTP ${response.status}`);
+      return (await response.json()) as AccuracySnapshot | null;
+    },
+
+    async getCalibration() {
+      const response = await fetchImpl(url("accuracy/calibration"));
+      if (!response.ok) throw new Error(`[AdminStorage] GET accuracy/calibration failed: HTTP ${response.status}`);
+      return (await response.json()) as DifficultyCalibration | null;
+    },
+
+    async setCalibration(calibration) {
+      const response = await fetchImpl(url("accuracy/calibration"), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(calibration),
+      });
+      if (!response.ok) throw new Error(`[AdminStorage] PUT accuracy/calibration failed: HTTP ${response.status}`);
+    },
+
+    async transactAccuracy(updater) {
+      return adminTransaction<AccuracyNode>({ fetchImpl, maxRetries }, url("accuracy"), "accuracy", updater);
+    },
+  };
+}
+
+/** accuracy/stats for server-rendered pages — null without server env (local builds) or on a failed read */
+export async function loadAccuracySnapshot(): Promise<AccuracySnapshot | null> {
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!databaseURL || !secret) return null;
+  try {
+    return await createAdminAccuracyStorage({ databaseURL, secret }).getSnapshot();
+  } catch (err) {
+    console.warn("[Accuracy] snapshot unavailable:", err);
+    return null;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Admin Boundaries — offline il/ilçe lookup (point-in-polygon)
+ *
+ * Replaces the network reverse-geocode: everything runs against the bundled
+ * TURKEY_PROVINCES GeoJSON, so the server-side scoring authority and every
+ * client resolve the same coordinates to the same il.
+ *
+ * - findProvince(coords): ray casting over each il's MultiPolygon (holes
+ *   respected), bbox prefilter. Points just off the simplified coastline
+ *   (piers, ferry docks) snap to the nearest il within COAST_TOLERANCE_KM.
+ * - findDistrict(coords): ilçe bölgesi — the nearest bundled ilçe seat
+ *   (TURKEY_DISTRICTS) of the il under the point, i.e. a Voronoi cell clipped
+ *   to the il polygon. No ilçe polygons ship; the zone approximates the real
+ *   border within a few km, and every resolver gets the same zone.
+ * - findPlace(coords): il from the polygons, ilçe from findDistrict.
+ * - formatPlace(place): "İlçe, İl" (the PanoPackage.locationName format)
+ */
+
+import { Coordinates } from "@/types";
+import { TURKEY_PROVINCES } from "@/data/turkeyProvinces";
+import { TURKEY_DISTRICTS } from "@/data/turkeyDistricts";
+
+// ==================== TYPES ====================
+
+export interface Place {
+  province: string;
+  district: string | null;
+}
+
+export interface Province {
+  plate: number;
+  name: string;
+}
+
+interface IndexedProvince extends Province {
+  polygons: number[][][][]; // [polygon][ring][point][lng, lat]
+  bbox: { minLng: number; minLat: number; maxLng: number; maxLat: number };
+}
+
+// ==================== CONSTANTS ====================
+
+const COAST_TOLERANCE_KM = 3;  // kıyı çizgisi sadeleştirmesi için pay
+const KM_PER_DEG_LAT = 111.32;
+
+// ==================== INDEX ====================
+
+const PROVINCES: IndexedProvince[] = TURKEY_PROVINCES.features.map((feature) => {
+  const bbox = { minLng: Infinity, minLat: Infinity, maxLng: -Infinity, maxLat: -Infinity };
+  feature.geometry.coordinates.forEach((polygon) =>
+    polygon[0].forEach(([lng, lat]) => {
+      bbox.minLng = Math.min(bbox.minLng, lng);
+      bbox.minLat = Math.min(bbox.minLat, lat);
+      bbox.maxLng = Math.max(bbox.maxLng, lng);
+      bbox.maxLat = Math.max(bbox.maxLat, lat);
+    })
+  );
+  return { ...feature.properties, polygons: feature.geometry.coordinates, bbox };
+});
+
+const PROVINCE_BY_NAME = new Map(PROVINCES.map((p) => [p.name.toLocaleLowerCase("tr"), p]));
+
+// ==================== GEOMETRY ====================
+
+function inRing(lng: number, lat: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function inPolygon(lng: number, lat: number, polygon: number[][][]): boolean {
+  if (!inRing(lng, lat, polygon[0])) return false;
+  for (let h = 1; h < polygon.length; h++) {
+    if (inRing(lng, lat, polygon[h])) return false; // delik
+  }
+  return true;
+}
+
+/** Equirectangular km distance from a point to a segment — fine at il scale */
+function segmentDistanceKm(lng: number, lat: number, a: number[], b: number[]): number {
+  const kx = KM_PER_DEG_LAT * Math.cos((lat * Math.PI) / 180);
+  const ax = (a[0] - lng) * kx, ay = (a[1] - lat) * KM_PER_DEG_LAT;
+  const bx = (b[0] - lng) * kx, by = (b[1] - lat) * KM_PER_DEG_LAT;
+  const dx = bx - ax, dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+function pointDistanceKm(lng: number, lat: number, point: number[]): number {
+  return segmentDistanceKm(lng, lat, point, point);
+}
+
+function boundaryDistanceKm(lng: number, lat: number, province: IndexedProvince): number {
+  let best = Infinity;
+  province.polygons.forEach((polygon) => {
+    const ring = polygon[0];
+    for (let i = 1; i < ring.length; i++) {
+      best = Math.min(best, segmentDistanceKm(lng, lat, ring[i - 1], ring[i]));
+    }
+  });
+  return best;
+}
+
+function toProvince(p: IndexedProvince): Province {
+  return { plate: p.plate, name: p.name };
+}
+
+// ==================== LOOKUP ====================
+
+/** İl containing the point, or null (sea / abroad) */
+export function findProvince(coords: Coordinates): Province | null {
+  const { lat, lng } = coords;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+
+  for (const p of PROVINCES) {
+    if (lng < p.bbox.minLng || lng > p.bbox.maxLng || lat < p.bbox.minLat || lat > p.bbox.maxLat) continue;
+    if (p.polygons.some((polygon) => inPolygon(lng, lat, polygon))) return toProvince(p);
+  }
+
+  // Kıyı payı: sadeleştirilmiş sınırın hemen dışındaki noktalar
+  const margin = COAST_TOLERANCE_KM / KM_PER_DEG_LAT;
+  let nearest: { province: IndexedProvince; distance: number } | null = null;
+  for (const p of PROVINCES) {
+    if (lng < p.bbox.minLng - margin * 2 || lng > p.bbox.maxLng + margin * 2) continue;
+    if (lat < p.bbox.minLat - margin || lat > p.bbox.maxLat + margin) continue;
+    const distance = boundaryDistanceKm(lng, lat, p);
+    if (distance <= COAST_TOLERANCE_KM && (!nearest || distance < nearest.distance)) {
+      nearest = { province: p, distance };
+    }
+  }
+  return nearest ? toProvince(nearest.province) : null;
+}
+
+/** Case-insensitive (tr) il name → province, or null for non-il names */
+export function findProvinceByName(name: string | null | undefined): Province | null {
+  if (!name) return null;
+  const p = PROVINCE_BY_NAME.get(name.trim().toLocaleLowerCase("tr"));
+  return p ? toProvince(p) : null;
+}
+
+/** İlçe zone of a point inside `province`: its nearest ilçe seat */
+function nearestDistrict(coords: Coordinates, province: Province): string | null {
+  let district: string | null = null;
+  let bestKm = Infinity;
+  (TURKEY_DISTRICTS[province.plate] || []).forEach(([name, lat, lng]) => {
+    const distance = pointDistanceKm(coords.lng, coords.lat, [lng, lat]);
+    if (distance < bestKm) {
+      bestKm = distance;
+      district = name;
+    }
+  });
+  return district;
+}
+
+/** İlçe zone containing the point, or null outside Türkiye */
+export function findDistrict(coords: Coordinates): string | null {
+  const province = findProvince(coords);
+  return province ? nearestDistrict(coords, province) : null;
+}
+
+/** İl from the polygons, ilçe zone from the il's ilçe seats */
+export function findPlace(coords: Coordinates): Place | null {
+  const province = findProvince(coords);
+  if (!province) return null;
+  return { province: province.name, district: nearestDistrict(coords, province) };
+}
+
+/** "İlçe, İl" — merkez ilçe / unknown ilçe → just "İl" */
+export function formatPlace(place: Place | null): string | null {
+  if (!place) return null;
+  if (!place.district || place.district === place.province || place.district.includes("Merkez")) {
+    return place.province;
+  }
+  return `${place.district}, ${place.province}`;
+}
@@ -0,0 +1,33 @@
+/**
+ * Admin Budget Storage — server-only access to the apiBudget/ ledger
+ *
+ * Same REST + database secret access as adminRoomStorage: a GET for the
+ * spend report, one ETag transaction on apiBudget/{day} per charge — a
+ * concurrent charge makes the PUT fail (412) and the caps are re-checked.
+ */
+
+import { AdminRoomStorageOptions, DEFAULT_MAX_RETRIES, adminTransaction } from "./adminRoomStorage";
+import { BudgetDay, BudgetStorage } from "./apiBudget";
+
+export function createAdminBudgetStorage(options: AdminRoomStorageOptions): BudgetStorage {
+  const { databaseURL, secret, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const fetchImpl = options.fetchImpl || fetch;
+  const baseUrl = databaseURL.replace(/\/+$/, "");
+  const url = (path: string) => `${baseUrl}/${path}.json?auth=${encodeURIComponent(secret)}`;
+
+  const read = async <T>(path: string): Promise<T | null> => {
+    const response = await fetchImpl(url(path));
+    if (!response.ok) throw new Error(`[AdminStorage] GET ${path} failed: HTTP ${response.status}`);
+    return (await response.json()) as T | null;
+  };
+
+  return {
+    async transactDay(day, updater) {
+      return adminTransaction<BudgetDay>({ fetchImpl, maxRetries }, url(`apiBudget/${encodeURIComponent(day)}`), `apiBudget/${day}`, updater);
+    },
+
+    async getDay(day) {
+      return read<BudgetDay>(`apiBudget/${encodeURIComponent(day)}`);
+    },
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Admin Janitor Storage — server-only sweep access to rooms/ + roundAnswers/
+ *
+ * Same REST + database secret access as adminRoomStorage. rooms/ is read in
+ * one GET (bounded by MAX_ACTIVE_ROOMS); roundAnswers/ only as a shallow key
+ * list. Deletes and ghost removals are ETag transactions on rooms/{roomId}
+ * (a PUT of null deletes the node).
+ */
+
+import { Room } from "@/types";
+import { AdminRoomStorageOptions, DEFAULT_MAX_RETRIES, adminTransaction } from "./adminRoomStorage";
+import { JanitorStorage } from "./roomJanitor";
+
+export function createAdminJanitorStorage(options: AdminRoomStorageOptions): JanitorStorage {
+  const { databaseURL, secret, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const fetchImpl = options.fetchImpl || fetch;
+  const baseUrl = databaseURL.replace(/\/+$/, "");
+  const url = (path: string) => `${baseUrl}/${path}.json?auth=${encodeURIComponent(secret)}`;
+
+  return {
+    async getRooms() {
+      const response = await fetchImpl(url("rooms"));
+      if (!response.ok) throw new Error(`[AdminStorage] GET rooms failed: HTTP ${response.status}`);
+      return ((await response.json()) as Record<string, Room> | null) || {};
+    },
+
+    async getRoundAnswerRoomIds() {
+      const response = await fetchImpl(`${url("roundAnswers")}&shallow=true`);
+      if (!response.ok) throw new Error(`[AdminStorage] GET roundAnswers failed: HTTP ${response.status}`);
+      return Object.keys(((await response.json()) as Record<string, true> | null) || {});
+    },
+
+    async transactRoom(roomId, updater) {
+      return adminTransaction<Room>(
+        { fetchImpl, maxRetries },
+        url(`rooms/${encodeURIComponent(roomId)}`),
+        `rooms/${roomId}`,
+        updater
+      );
+    },
+
+    async removeRoundAnswers(roomId) {
+      const response = await fetchImpl(url(`roundAnswers/${encodeURIComponent(roomId)}`), { method: "DELETE" });
+      if (!response.ok) throw new Error(`[AdminStorage] DELETE roundAnswers/${roomId} failed: HTTP ${response.status}`);
+    },
+  };
+}
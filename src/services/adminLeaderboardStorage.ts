@@ -0,0 +1,77 @@
+/**
+ * Admin Leaderboard Storage — server-only writer of leaderboards/{boardId}
+ *
+ * Same REST + database secret access as adminRoomStorage (bypasses the
+ * rules, which deny every client write). Each board is one ETag transaction:
+ * write-once merge + trim via mergeIntoBoard; so is each player's best and
+ * each board's score counts.
+ */
+
+import { AdminRoomStorageOptions, DEFAULT_MAX_RETRIES, adminTransaction } from "./adminRoomStorage";
+import { LeaderboardEntry, LeaderboardStorage, ScoreCounts, applyCountDeltas, isBoardId, mergeIntoBoard } from "./leaderboard";
+
+export function createAdminLeaderboardStorage(options: AdminRoomStorageOptions): LeaderboardStorage {
+  const { databaseURL, secret, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const fetchImpl = options.fetchImpl || fetch;
+  const baseUrl = databaseURL.replace(/\/+$/, "");
+  const url = (path: string) => `${baseUrl}/${path}.json?auth=${encodeURIComponent(secret)}`;
+  const boardUrl = (boardId: string) => url(`leaderboards/${boardId}`);
+  const bestPath = (boardId: string, uid: string) => `leaderboardBests/${boardId}/${encodeURIComponent(uid)}`;
+  const countsPath = (boardId: string) => `leaderboardCounts/${boardId}`;
+
+  async function read<T>(path: string): Promise<T | null> {
+    const response = await fetchImpl(url(path));
+    if (!response.ok) throw new Error(`[AdminStorage] GET ${path} failed: HTTP ${response.status}`);
+    return (await response.json()) as T | null;
+  }
+
+  return {
+    async getBoard(boardId) {
+      if (!isBoardId(boardId)) return {};
+      return (await read<Record<string, LeaderboardEntry>>(`leaderboards/${boardId}`)) || {};
+    },
+
+    async addEntries(boardId, entries) {
+      if (!isBoardId(boardId)) return 0;
+      let added = 0;
+      const outcome = await adminTransaction<Record<string, LeaderboardEntry>>(
+        { fetchImpl, maxRetries },
+        boardUrl(boardId),
+        `leaderboards/${boardId}`,
+        (current) => {
+          const merged = mergeIntoBoard(current, entries);
+          added = merged ? merged.added : 0;
+          return merged ? merged.board : undefined;
+        }
+      );
+      return outcome.committed ? added : 0;
+    },
+
+    async getBest(boardId, uid) {
+      if (!isBoardId(boardId)) return null;
+      return read<number>(bestPath(boardId, uid));
+    },
+
+    async raiseBest(boardId, uid, score) {
+      if (!isBoardId(boardId)) return { raised: false, previous: null };
+      let previous: number | null = null;
+      const outcome = await adminTransaction<number>({ fetchImpl, maxRetries }, url(bestPath(boardId, uid)), bestPath(boardId, uid), (current) => {
+        previous = current;
+        return current !== null && current >= score ? undefined : score;
+      });
+      return { raised: outcome.committed, previous };
+    },
+
+    async getCounts(boardId) {
+      if (!isBoardId(boardId)) return {};
+      return (await read<ScoreCounts>(countsPath(boardId))) || {};
+    },
+
+    async adjustCounts(boardId, deltas) {
+      if (!isBoardId(boardId)) return;
+      await adminTransaction<ScoreCounts>({ fetchImpl, maxRetries }, url(countsPath(boardId)), countsPath(boardId), (current) =>
+        applyCountDeltas(current, deltas)
+      );
+    },
+  };
+}
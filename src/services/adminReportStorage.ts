@@ -0,0 +1,61 @@
+/**
+ * Admin Report Storage — server-only access to locationReports/, reportQuota/
+ * and quarantine/
+ *
+ * Same REST + database secret access as adminRoomStorage. Quarantining is an
+ * ETag transaction on quarantine/{packageId}, so concurrent report checks
+ * write the entry once; the reporter's quota moves the same way.
+ */
+
+import { AdminRoomStorageOptions, DEFAULT_MAX_RETRIES, adminTransaction } from "./adminRoomStorage";
+import { LocationReport, Quarantine, QuarantineEntry, ReportQuota, ReportStorage } from "./locationReports";
+
+export function createAdminReportStorage(options: AdminRoomStorageOptions): ReportStorage {
+  const { databaseURL, secret, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const fetchImpl = options.fetchImpl || fetch;
+  const baseUrl = databaseURL.replace(/\/+$/, "");
+  const url = (path: string) => `${baseUrl}/${path}.json?auth=${encodeURIComponent(secret)}`;
+  const reportsPath = (packageId: string) => `locationReports/${encodeURIComponent(packageId)}`;
+
+  return {
+    async addReport(packageId, uid, report) {
+      const outcome = await adminTransaction<LocationReport>(
+        { fetchImpl, maxRetries },
+        url(`${reportsPath(packageId)}/${encodeURIComponent(uid)}`),
+        `locationReports/${packageId}/${uid}`,
+        (current) => (current === null ? report : undefined)
+      );
+      return outcome.committed;
+    },
+
+    async getReports(packageId) {
+      const response = await fetchImpl(url(reportsPath(packageId)));
+      if (!response.ok) throw new Error(`[AdminStorage] GET locationReports/${packageId} failed: HTTP ${response.status}`);
+      return ((await response.json()) as Record<string, LocationReport> | null) || {};
+    },
+
+    async getQuarantine() {
+      const response = await fetchImpl(url("quarantine"));
+      if (!response.ok) throw new Error(`[AdminStorage] GET quarantine failed: HTTP ${response.status}`);
+      return ((await response.json()) as Quarantine | null) || {};
+    },
+
+    async transactQuarantine(packageId, updater) {
+      return adminTransaction<QuarantineEntry>(
+        { fetchImpl, maxRetries },
+        url(`quarantine/${encodeURIComponent(packageId)}`),
+        `quarantine/${packageId}`,
+        updater
+      );
+    },
+
+    async transactQuota(uid, updater) {
+      return adminTransaction<ReportQuota>(
+        { fetchImpl, maxRetries },
+        url(`reportQuota/${encodeURIComponent(uid)}`),
+        `reportQuota/${uid}`,
+        updater
+      );
+    },
+  };
+}
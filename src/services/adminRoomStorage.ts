@@ -0,0 +1,95 @@
+/**
+ * Admin Room Storage — server-only RTDB access over the REST API
+ *
+ * Used by trusted server modules (round + scoring authorities). Authenticates with the
+ * database secret, so writes bypass database.rules.json — never import this
+ * from client code. Transactions use RTDB's ETag conditional writes:
+ *   GET (X-Firebase-ETag) → updater → PUT (if-match) → 412 = someone wrote first, retry
+ */
+
+import { Room, RoundAnswer } from "@/types";
+import { AuthorityStorage } from "./scoringAuthority";
+import { RoundAnswerStorage, TransactionOutcome, TransactionUpdater } from "./roomStorage";
+
+export interface AdminRoomStorageOptions {
+  databaseURL: string;
+  /** Database secret (FIREBASE_DATABASE_SECRET) — server env only */
+  secret: string;
+  fetchImpl?: typeof fetch;
+  maxRetries?: number;
+}
+
+export const DEFAULT_MAX_RETRIES = 25; // RTDB SDK ile aynı
+
+/** What the round authority (deal) and the scoring authority (reveal) need */
+export type AdminRoomStorage = AuthorityStorage & RoundAnswerStorage;
+
+export function createAdminRoomStorage(options: AdminRoomStorageOptions): AdminRoomStorage {
+  const { databaseURL, secret, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const fetchImpl = options.fetchImpl || fetch;
+  const baseUrl = databaseURL.replace(/\/+$/, "");
+  const url = (path: string) => `${baseUrl}/${path}.json?auth=${encodeURIComponent(secret)}`;
+  const roomUrl = (roomId: string) => url(`rooms/${encodeURIComponent(roomId)}`);
+  const answerPath = (roomId: string, roundId: number) => `roundAnswers/${encodeURIComponent(roomId)}/${roundId}`;
+
+  return {
+    async getRoom(roomId) {
+      const response = await fetchImpl(roomUrl(roomId));
+      if (!response.ok) throw new Error(`[AdminStorage] GET rooms/${roomId} failed: HTTP ${response.status}`);
+      return (await response.json()) as Room | null;
+    },
+
+    async getRoundAnswer(roomId, roundId) {
+      const response = await fetchImpl(url(answerPath(roomId, roundId)));
+      if (!response.ok) throw new Error(`[AdminStorage] GET roundAnswers/${roomId}/${roundId} failed: HTTP ${response.status}`);
+      return (await response.json()) as RoundAnswer | null;
+    },
+
+    async setRoundAnswer(roomId, answer) {
+      const response = await fetchImpl(url(answerPath(roomId, answer.roundId)), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(answer),
+      });
+      if (!response.ok) throw new Error(`[AdminStorage] PUT roundAnswers/${roomId}/${answer.roundId} failed: HTTP ${response.status}`);
+    },
+
+    async transactRoom(roomId, updater) {
+      return adminTransaction<Room>({ fetchImpl, maxRetries }, roomUrl(roomId), `rooms/${roomId}`, updater);
+    },
+  };
+}
+
+// ==================== TRANSACTIONS ====================
+
+/**
+ * ETag compare-and-set loop on one REST path. updater returning undefined
+ * aborts (committed: false), like the SDK's runTransaction.
+ */
+export async function adminTransaction<T>(
+  options: { fetchImpl: typeof fetch; maxRetries: number },
+  pathUrl: string,
+  label: string,
+  updater: TransactionUpdater<T>
+): Promise<TransactionOutcome<T>> {
+  const { fetchImpl, maxRetries } = options;
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    const read = await fetchImpl(pathUrl, { headers: { "X-Firebase-ETag": "true" } });
+    if (!read.ok) throw new Error(`[AdminStorage] GET ${label} failed: HTTP ${read.status}`);
+    const etag = read.headers.get("ETag");
+    const current = (await read.json()) as T | null;
+
+    const next = updater(current);
+    if (next === undefined) return { committed: false, value: current };
+
+    const write = await fetchImpl(pathUrl, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", ...(etag ? { "if-match": etag } : {}) },
+      body: JSON.stringify(next),
+    });
+    if (write.status === 412) continue; // concurrent write — re-read and retry
+    if (!write.ok) throw new Error(`[AdminStorage] PUT ${label} failed: HTTP ${write.status}`);
+    return { committed: true, value: next };
+  }
+  throw new Error(`[AdminStorage] transaction on ${label} exceeded ${maxRetries} retries`);
+}
@@ -0,0 +1,107 @@
+/**
+ * Admin Solo Round Storage — server-only access to soloRounds/, dailyDraws/,
+ * dailyRuns/ and the dailyLeaderboard/ writes
+ *
+ * Same REST + database secret access as adminRoomStorage. None of the first
+ * three has a client rule: the open solo round holds its answer, the day's
+ * draw holds all five, the daily run holds the server's scores. Pinning the
+ * day's draw, claiming a run and the leaderboard entry are ETag transactions,
+ * so the first write wins.
+ */
+
+import { AdminRoomStorageOptions, DEFAULT_MAX_RETRIES, adminTransaction } from "./adminRoomStorage";
+import { SoloDeal, SoloRoundStorage } from "./soloRoundAuthority";
+import {
+  DailyDraw,
+  DailyDrawStorage,
+  DailyEntry,
+  DailyLeaderboardStorage,
+  DailyRun,
+  DailyRunStorage,
+} from "./dailyChallenge";
+
+export type AdminSoloRoundStorage = SoloRoundStorage & DailyDrawStorage & DailyRunStorage & DailyLeaderboardStorage;
+
+export function createAdminSoloRoundStorage(options: AdminRoomStorageOptions): AdminSoloRoundStorage {
+  const { databaseURL, secret, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const fetchImpl = options.fetchImpl || fetch;
+  const baseUrl = databaseURL.replace(/\/+$/, "");
+  const url = (path: string) => `${baseUrl}/${path}.json?auth=${encodeURIComponent(secret)}`;
+  const dealPath = (uid: string) => `soloRounds/${encodeURIComponent(uid)}`;
+  const runPath = (dateKey: string, uid: string) => `dailyRuns/${dateKey}/${encodeURIComponent(uid)}`;
+  const entryPath = (dateKey: string, uid: string) => `dailyLeaderboard/${dateKey}/${encodeURIComponent(uid)}`;
+
+  return {
+    async getSoloDeal(uid) {
+      const response = await fetchImpl(url(dealPath(uid)));
+      if (!response.ok) throw new Error(`[AdminStorage] GET soloRounds/${uid} failed: HTTP ${response.status}`);
+      return (await response.json()) as SoloDeal | null;
+    },
+
+    async setSoloDeal(uid, deal) {
+      const response = await fetchImpl(url(dealPath(uid)), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(deal),
+      });
+      if (!response.ok) throw new Error(`[AdminStorage] PUT soloRounds/${uid} failed: HTTP ${response.status}`);
+    },
+
+    async getDraw(dateKey) {
+      const response = await fetchImpl(url(`dailyDraws/${dateKey}`));
+      if (!response.ok) throw new Error(`[AdminStorage] GET dailyDraws/${dateKey} failed: HTTP ${response.status}`);
+      return (await response.json()) as DailyDraw | null;
+    },
+
+    async pinDraw(dateKey, draw) {
+      const outcome = await adminTransaction<DailyDraw>(
+        { fetchImpl, maxRetries },
+        url(`dailyDraws/${dateKey}`),
+        `dailyDraws/${dateKey}`,
+        (current) => (current === null ? draw : undefined)
+      );
+      return outcome.value || draw;
+    },
+
+    async getRun(dateKey, uid) {
+      const response = await fetchImpl(url(runPath(dateKey, uid)));
+      if (!response.ok) throw new Error(`[AdminStorage] GET dailyRuns/${dateKey}/${uid} failed: HTTP ${response.status}`);
+      return (await response.json()) as DailyRun | null;
+    },
+
+    async claimRun(dateKey, uid, run) {
+      const outcome = await adminTransaction<DailyRun>(
+        { fetchImpl, maxRetries },
+        url(runPath(dateKey, uid)),
+        `dailyRuns/${dateKey}/${uid}`,
+        (current) => (current === null ? run : undefined)
+      );
+      return outcome.value || run;
+    },
+
+    async setRun(dateKey, uid, run) {
+      const response = await fetchImpl(url(runPath(dateKey, uid)), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(run),
+      });
+      if (!response.ok) throw new Error(`[AdminStorage] PUT dailyRuns/${dateKey}/${uid} failed: HTTP ${response.status}`);
+    },
+
+    async submitEntry(dateKey, uid, entry) {
+      const outcome = await adminTransaction<DailyEntry>(
+        { fetchImpl, maxRetries },
+        url(entryPath(dateKey, uid)),
+        `dailyLeaderboard/${dateKey}/${uid}`,
+        (current) => (current === null ? entry : undefined)
+      );
+      return outcome.committed;
+    },
+
+    async getEntries(dateKey) {
+      const response = await fetchImpl(url(`dailyLeaderboard/${dateKey}`));
+      if (!response.ok) throw new Error(`[AdminStorage] GET dailyLeaderboard/${dateKey} failed: HTTP ${response.status}`);
+      return ((await response.json()) as Record<string, DailyEntry> | null) || {};
+    },
+  };
+}
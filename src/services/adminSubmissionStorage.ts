@@ -0,0 +1,62 @@
+/**
+ * Admin Submission Storage — server-only access to submissions/
+ *
+ * Same REST + database secret access as adminRoomStorage. The submit route
+ * creates submissions and counts submissionQuota/{uid}; status changes are
+ * ETag transactions on one submission, so two moderators (or the API route
+ * and pull-approved) can't both act on it.
+ */
+
+import { AdminRoomStorageOptions, DEFAULT_MAX_RETRIES, adminTransaction } from "./adminRoomStorage";
+import { LocationSubmission, SubmissionStorage } from "./locationSubmissions";
+import { ReportQuota } from "./locationReports";
+
+export function createAdminSubmissionStorage(options: AdminRoomStorageOptions): SubmissionStorage {
+  const { databaseURL, secret, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const fetchImpl = options.fetchImpl || fetch;
+  const baseUrl = databaseURL.replace(/\/+$/, "");
+  const url = (path: string) => `${baseUrl}/${path}.json?auth=${encodeURIComponent(secret)}`;
+  const submissionPath = (uid: string, id: string) => `submissions/${encodeURIComponent(uid)}/${encodeURIComponent(id)}`;
+
+  return {
+    async addSubmission(uid, id, submission) {
+      const outcome = await adminTransaction<LocationSubmission>(
+        { fetchImpl, maxRetries },
+        url(submissionPath(uid, id)),
+        `submissions/${uid}/${id}`,
+        (current) => (current === null ? submission : undefined)
+      );
+      return outcome.committed;
+    },
+
+    async getSubmissions(uid) {
+      const response = await fetchImpl(url(`submissions/${encodeURIComponent(uid)}`));
+      if (!response.ok) throw new Error(`[AdminStorage] GET submissions/${uid} failed: HTTP ${response.status}`);
+      return ((await response.json()) as Record<string, LocationSubmission> | null) || {};
+    },
+
+    async getAllSubmissions() {
+      const response = await fetchImpl(url("submissions"));
+      if (!response.ok) throw new Error(`[AdminStorage] GET submissions failed: HTTP ${response.status}`);
+      return ((await response.json()) as Record<string, Record<string, LocationSubmission>> | null) || {};
+    },
+
+    async transactSubmission(uid, id, updater) {
+      return adminTransaction<LocationSubmission>(
+        { fetchImpl, maxRetries },
+        url(submissionPath(uid, id)),
+        `submissions/${uid}/${id}`,
+        updater
+      );
+    },
+
+    async transactQuota(uid, updater) {
+      return adminTransaction<ReportQuota>(
+        { fetchImpl, maxRetries },
+        url(`submissionQuota/${encodeURIComponent(uid)}`),
+        `submissionQuota/${uid}`,
+        updater
+      );
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Admin Telemetry Storage — server-only read access to telemetry/
+ *
+ * Same REST + database secret access as adminRoomStorage. Clients can only
+ * write batches (rules: telemetry is never readable); the ops dashboard reads
+ * one telemetry/{day} node per GET.
+ */
+
+import { AdminRoomStorageOptions } from "./adminRoomStorage";
+import { OpsStorage, TelemetryDay } from "./opsMetrics";
+
+export function createAdminTelemetryStorage(options: Omit<AdminRoomStorageOptions, "maxRetries">): OpsStorage {
+  const { databaseURL, secret } = options;
+  const fetchImpl = options.fetchImpl || fetch;
+  const baseUrl = databaseURL.replace(/\/+$/, "");
+  const url = (path: string) => `${baseUrl}/${path}.json?auth=${encodeURIComponent(secret)}`;
+
+  return {
+    async getTelemetryDay(day) {
+      const response = await fetchImpl(url(`telemetry/${encodeURIComponent(day)}`));
+      if (!response.ok) throw new Error(`[AdminStorage] GET telemetry/${day} failed: HTTP ${response.status}`);
+      return (await response.json()) as TelemetryDay | null;
+    },
+  };
+}
@@ -0,0 +1,353 @@
+/**
+ * Street View API Budget — shared daily ledger across all players
+ *
+ * API_COST_CONTROL.MAX_DAILY_API_CALLS used to be declared but never
+ * enforced; the only ceiling was a per-tab counter that reset every game.
+ * Every metadata call now goes through one RTDB ledger:
+ *
+ *   apiBudget/{YYYY-MM-DD}/total                 all calls today (UTC)
+ *   apiBudget/{day}/kinds/{kind}                 findPano | resolvePano | panoLoad
+ *   apiBudget/{day}/rooms/{scope}/{kind}         scope = room code, or solo_{uid}
+ *
+ * Only the server writes it (POST /api/budget with the caller's ID token, no
+ * client rule). The route picks the scope itself — the room code when the
+ * caller plays in that room, otherwise solo_{uid} — so a client can neither
+ * move the counters by hand nor charge another room. A request is one
+ * transaction on apiBudget/{day}: the caps are checked against the value the
+ * charge is written over, so reservations racing each other retry instead of
+ * overshooting. All limits come from API_COST_CONTROL.
+ *
+ * - Dynamic generation (findStreetViewPano, resolvePano) reserves every call
+ *   first — in the round routes through createLedgerPanoResolver (panoResolver). A reservation is refused at BUDGET_DEGRADE_RATIO of the daily cap,
+ *   past DAILY_API_BUDGET_USD, or at MAX_ROOM_DAILY_API_CALLS for the room →
+ *   the tab switches to static-only selection for the rest of the day.
+ * - Pano loads (setPano + fallback resolves in useStreetView) can't be refused
+ *   mid-round; they are recorded once per round, clamped at the daily cap and
+ *   at MAX_ROOM_DAILY_PANO_LOADS per scope.
+ * - Without a ledger (tests, scripts) every call is allowed; a ledger error
+ *   refuses that call (static selection is always safe).
+ */
+
+import { API_COST_CONTROL } from "@/config/production";
+import { RoomStorageAdapter, TransactionOutcome, TransactionUpdater } from "./roomStorage";
+
+export const BUDGET_ENDPOINT = "/api/ops/budget";
+export const LEDGER_ENDPOINT = "/api/budget";
+
+// ==================== TYPES ====================
+
+export type ApiCallKind = "findPano" | "resolvePano" | "panoLoad";
+
+export const API_CALL_KINDS: ApiCallKind[] = ["findPano", "resolvePano", "panoLoad"];
+
+/** Kinds that reserve before calling (count towards the room cap) */
+const METERED_KINDS: ApiCallKind[] = ["findPano", "resolvePano"];
+
+export type RoomSpend = Partial<Record<ApiCallKind, number>>;
+
+/** apiBudget/{day} */
+export interface BudgetDay {
+  total?: number;
+  kinds?: Partial<Record<ApiCallKind, number>>;
+  rooms?: Record<string, RoomSpend>;
+}
+
+export interface BudgetLimits {
+  dailyCalls: number;
+  /** Reservations above this total are refused (static-only) */
+  degradeAt: number;
+  /** Reservations that would take the day's cost past this are refused */
+  dailyBudgetUsd: number;
+  roomDailyCalls: number;
+  /** Pano loads recorded per scope and day */
+  roomDailyLoads: number;
+  /** Most calls one request may reserve or record */
+  maxStep: number;
+}
+
+export const DEFAULT_BUDGET_LIMITS: BudgetLimits = {
+  dailyCalls: API_COST_CONTROL.MAX_DAILY_API_CALLS,
+  degradeAt: Math.floor(API_COST_CONTROL.MAX_DAILY_API_CALLS * API_COST_CONTROL.BUDGET_DEGRADE_RATIO),
+  dailyBudgetUsd: API_COST_CONTROL.DAILY_API_BUDGET_USD,
+  roomDailyCalls: API_COST_CONTROL.MAX_ROOM_DAILY_API_CALLS,
+  roomDailyLoads: API_COST_CONTROL.MAX_ROOM_DAILY_PANO_LOADS,
+  maxStep: API_COST_CONTROL.MAX_BUDGET_STEP,
+};
+
+export interface BudgetStorage {
+  /** apiBudget/{day} — check the caps and charge in one write */
+  transactDay(day: string, updater: TransactionUpdater<BudgetDay>): Promise<TransactionOutcome<BudgetDay>>;
+  getDay(day: string): Promise<BudgetDay | null>;
+}
+
+export type ReserveResult = { ok: true } | { ok: false; reason: "daily budget" | "room budget" | "ledger error" };
+
+/** POST /api/budget — reserve before a metered call, record pano loads already made */
+export interface BudgetRequest {
+  mode: "reserve" | "record";
+  kind: ApiCallKind;
+  calls: number;
+  /** Room the caller plays in, null = solo */
+  roomId: string | null;
+}
+
+export interface BudgetOutcome {
+  ok: boolean;
+  reason: string;
+  /** Calls reserved / recorded */
+  calls: number;
+}
+
+/** Settles a request: the server route, or in-process on the memory backend */
+export type BudgetLedger = (request: BudgetRequest) => Promise<BudgetOutcome>;
+
+const ROOM_ID_PATTERN = /^[A-Z0-9]{6}$/;
+
+// ==================== LEDGER ====================
+
+/** UTC day of the ledger — apiBudget/{day} */
+export function budgetDayKey(at: number): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+/** Room code in multiplayer, otherwise the solo player's own scope */
+export function budgetScope(roomId: string | null | undefined, uid: string): string {
+  return roomId || `solo_${uid}`;
+}
+
+const meteredCalls = (room: RoomSpend | null | undefined) =>
+  METERED_KINDS.reduce((sum, kind) => sum + (room?.[kind] || 0), 0);
+
+const costOf = (calls: number) => calls * API_COST_CONTROL.STREET_VIEW_COST_PER_CALL;
+
+/** Day after charging `calls` to total, kinds/{kind} and rooms/{scope}/{kind} */
+export function chargeBudgetDay(day: BudgetDay | null, scope: string, kind: ApiCallKind, calls: number): BudgetDay {
+  const room = day?.rooms?.[scope] || {};
+  return {
+    ...day,
+    total: (day?.total || 0) + calls,
+    kinds: { ...day?.kinds, [kind]: (day?.kinds?.[kind] || 0) + calls },
+    rooms: { ...day?.rooms, [scope]: { ...room, [kind]: (room[kind] || 0) + calls } },
+  };
+}
+
+/** Reserve metered calls before making them */
+export async function reserveApiCalls(
+  storage: BudgetStorage,
+  scope: string,
+  kind: ApiCallKind,
+  calls: number,
+  now: number,
+  limits: BudgetLimits = DEFAULT_BUDGET_LIMITS
+): Promise<ReserveResult> {
+  let result: ReserveResult = { ok: true };
+  await storage.transactDay(budgetDayKey(now), (current) => {
+    const total = (current?.total || 0) + calls;
+    if (total > limits.degradeAt || costOf(total) > limits.dailyBudgetUsd) {
+      result = { ok: false, reason: "daily budget" };
+      return undefined;
+    }
+    if (meteredCalls(current?.rooms?.[scope]) + calls > limits.roomDailyCalls) {
+      result = { ok: false, reason: "room budget" };
+      return undefined;
+    }
+    result = { ok: true };
+    return chargeBudgetDay(current, scope, kind, calls);
+  });
+  return result;
+}
+
+/**
+ * Record calls that already happened (pano loads). Clamped to the step size,
+ * the daily cap and the scope's daily loads; returns the number recorded.
+ */
+export async function recordApiCalls(
+  storage: BudgetStorage,
+  scope: string,
+  kind: ApiCallKind,
+  calls: number,
+  now: number,
+  limits: BudgetLimits = DEFAULT_BUDGET_LIMITS
+): Promise<number> {
+  let recorded = 0;
+  await storage.transactDay(budgetDayKey(now), (current) => {
+    const loads = current?.rooms?.[scope]?.[kind] || 0;
+    recorded = Math.max(0, Math.min(calls, limits.maxStep, limits.dailyCalls - (current?.total || 0), limits.roomDailyLoads - loads));
+    return recorded > 0 ? chargeBudgetDay(current, scope, kind, recorded) : undefined;
+  });
+  return recorded;
+}
+
+// ==================== SERVER ====================
+
+/** Request body → BudgetRequest (null = reject with 400) */
+export function parseBudgetRequest(input: unknown, limits: BudgetLimits = DEFAULT_BUDGET_LIMITS): BudgetRequest | null {
+  const body = (input || {}) as Record<string, unknown>;
+  const kinds: ApiCallKind[] = body.mode === "reserve" ? METERED_KINDS : body.mode === "record" ? ["panoLoad"] : [];
+  if (!kinds.includes(body.kind as ApiCallKind)) return null;
+  if (typeof body.calls !== "number" || !Number.isInteger(body.calls) || body.calls < 1 || body.calls > limits.maxStep) return null;
+  if (body.roomId !== undefined && body.roomId !== null && (typeof body.roomId !== "string" || !ROOM_ID_PATTERN.test(body.roomId))) return null;
+  return { mode: body.mode as BudgetRequest["mode"], kind: body.kind as ApiCallKind, calls: body.calls, roomId: (body.roomId as string) || null };
+}
+
+/** Charge the caller's scope — a room only when the caller plays in it */
+export async function settleBudgetRequest(
+  storage: BudgetStorage,
+  rooms: Pick<RoomStorageAdapter, "getRoom">,
+  callerId: string,
+  request: BudgetRequest,
+  now: number,
+  limits: BudgetLimits = DEFAULT_BUDGET_LIMITS
+): Promise<BudgetOutcome> {
+  if (request.roomId && !(await rooms.getRoom(request.roomId))?.players?.[callerId]) {
+    return { ok: false, reason: "not in room", calls: 0 };
+  }
+  const scope = budgetScope(request.roomId, callerId);
+
+  if (request.mode === "record") {
+    const recorded = await recordApiCalls(storage, scope, request.kind, request.calls, now, limits);
+    return { ok: true, reason: "recorded", calls: recorded };
+  }
+  const result = await reserveApiCalls(storage, scope, request.kind, request.calls, now, limits);
+  return result.ok ? { ok: true, reason: "reserved", calls: request.calls } : { ok: false, reason: result.reason, calls: 0 };
+}
+
+// ==================== CLIENT ====================
+
+let ledger: BudgetLedger | null = null;
+let roomScope: string | null = null;
+/** Last refusal — static-only until the day or the scope changes */
+let refused: { day: string; scope: string; reason: string } | null = null;
+
+/** Client: install the ledger (panoService.initApiBudget) */
+export function installApiBudget(next: BudgetLedger | null): void {
+  ledger = next;
+  refused = null;
+}
+
+/** Current room (useStreetView); null = solo */
+export function setApiBudgetScope(roomId: string | null): void {
+  roomScope = roomId;
+}
+
+const activeScope = () => roomScope || "solo";
+
+/** True once a reservation was refused today — callers skip dynamic generation */
+export function isApiBudgetDegraded(now: number = Date.now()): boolean {
+  return !!refused && refused.day === budgetDayKey(now) && refused.scope === activeScope();
+}
+
+/** Reserve one metered call; false → don't call Google, fall back to static */
+export async function spendStreetViewCall(kind: ApiCallKind, now: number = Date.now()): Promise<boolean> {
+  if (!ledger) return true;
+  if (isApiBudgetDegraded(now)) return false;
+  const scope = activeScope();
+  let result: BudgetOutcome;
+  try {
+    result = await ledger({ mode: "reserve", kind, calls: 1, roomId: roomScope });
+  } catch (err) {
+    console.warn("[Budget] ledger unavailable — static-only:", err);
+    result = { ok: false, reason: "ledger error", calls: 0 };
+  }
+  if (!result.ok && result.reason !== "ledger error") {
+    // Bütçe doldu — bu gün ve kapsam için bir daha sorma (ağ hatası geçici, sonraki tur yeniden dener)
+    refused = { day: budgetDayKey(now), scope, reason: result.reason };
+    console.log(`[Budget] ${kind} refused (${result.reason}) — static-only mode for ${scope}`);
+  }
+  return result.ok;
+}
+
+/** Fire-and-forget record of calls already made (pano loads) */
+export function recordStreetViewCalls(kind: ApiCallKind, calls: number): void {
+  if (!ledger || calls <= 0) return;
+  ledger({ mode: "record", kind, calls: Math.min(calls, API_COST_CONTROL.MAX_BUDGET_STEP), roomId: roomScope }).catch((err) =>
+    console.warn("[Budget] record failed:", err)
+  );
+}
+
+/** Client-side proxy: sends budget requests to the server ledger with the caller's ID token */
+export function createRemoteBudgetLedger(getToken: () => Promise<string>, endpoint: string = LEDGER_ENDPOINT): BudgetLedger {
+  return async (request) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${await getToken()}` },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) throw new Error(`Budget ledger HTTP ${response.status}`);
+    return (await response.json()) as BudgetOutcome;
+  };
+}
+
+// ==================== REPORT ====================
+
+export interface BudgetRoomRow {
+  scope: string;
+  calls: number;
+  costUsd: number;
+  kinds: RoomSpend;
+}
+
+export interface BudgetDayReport {
+  day: string;
+  calls: number;
+  costUsd: number;
+  /** total / daily cap */
+  ratio: number;
+  degraded: boolean;
+  exhausted: boolean;
+  kinds: Record<ApiCallKind, number>;
+  rooms: BudgetRoomRow[];
+}
+
+export interface BudgetReport {
+  dailyCalls: number;
+  dailyBudgetUsd: number;
+  degradeAt: number;
+  roomDailyCalls: number;
+  days: BudgetDayReport[];
+}
+
+export function summarizeBudgetDay(
+  day: string,
+  value: BudgetDay | null,
+  limits: BudgetLimits = DEFAULT_BUDGET_LIMITS,
+  topRooms: number = 10
+): BudgetDayReport {
+  const calls = value?.total || 0;
+  const kinds = Object.fromEntries(API_CALL_KINDS.map((kind) => [kind, value?.kinds?.[kind] || 0])) as Record<ApiCallKind, number>;
+  const rooms = Object.entries(value?.rooms || {})
+    .map(([scope, spend]) => {
+      const roomCalls = API_CALL_KINDS.reduce((sum, kind) => sum + (spend?.[kind] || 0), 0);
+      return { scope, calls: roomCalls, costUsd: costOf(roomCalls), kinds: spend || {} };
+    })
+    .sort((a, b) => b.calls - a.calls || a.scope.localeCompare(b.scope))
+    .slice(0, topRooms);
+  return {
+    day,
+    calls,
+    costUsd: costOf(calls),
+    ratio: calls / limits.dailyCalls,
+    degraded: calls >= limits.degradeAt,
+    exhausted: calls >= limits.dailyCalls,
+    kinds,
+    rooms,
+  };
+}
+
+/** Spend per day, newest first (admin: GET /api/ops/budget) */
+export async function loadBudgetReport(
+  storage: BudgetStorage,
+  days: string[],
+  limits: BudgetLimits = DEFAULT_BUDGET_LIMITS
+): Promise<BudgetReport> {
+  const values = await Promise.all(days.map((day) => storage.getDay(day)));
+  return {
+    dailyCalls: limits.dailyCalls,
+    dailyBudgetUsd: API_COST_CONTROL.DAILY_API_BUDGET_USD,
+    degradeAt: limits.degradeAt,
+    roomDailyCalls: limits.roomDailyCalls,
+    days: days
+      .map((day, index) => summarizeBudgetDay(day, values[index], limits))
+      .sort((a, b) => b.day.localeCompare(a.day)),
+  };
+}
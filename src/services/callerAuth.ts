@@ -0,0 +1,67 @@
+/**
+ * Caller Auth — which signed-in player is calling a server route
+ *
+ * Clients send their Firebase ID token as `Authorization: Bearer <idToken>`
+ * (config/firebase getAuthToken). firebase-admin isn't a dependency, so the
+ * token is checked with Identity Toolkit's accounts:lookup, keyed with the
+ * project's public API key: a valid, unexpired token returns its account,
+ * anything else HTTP 400.
+ *
+ * Routes that act for a player (deal-round, score-round) verify the caller and
+ * then check it against the stored room — the uid comes from the token, never
+ * from the request body.
+ */
+
+// ==================== TYPES ====================
+
+export interface VerifiedCaller {
+  uid: string;
+  /** Anonymous sign-in (no linked provider) */
+  anonymous: boolean;
+}
+
+export interface CallerAuthOptions {
+  /** NEXT_PUBLIC_FIREBASE_API_KEY */
+  apiKey: string;
+  fetchImpl?: typeof fetch;
+}
+
+export const ACCOUNTS_LOOKUP_URL = "https://identitytoolkit.googleapis.com/v1/accounts:lookup";
+
+interface LookupResponse {
+  users?: Array<{ localId?: string; providerUserInfo?: unknown[] }>;
+}
+
+// ==================== VERIFY ====================
+
+/** Token from `Authorization: Bearer <token>` (null when missing) */
+export function bearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization") || "";
+  const match = /^Bearer\s+(\S+)$/.exec(header);
+  return match ? match[1] : null;
+}
+
+/**
+ * Resolve an ID token to its account. null = invalid / expired token;
+ * throws when the lookup itself fails (route answers 502, not 401).
+ */
+export async function verifyIdToken(idToken: string, options: CallerAuthOptions): Promise<VerifiedCaller | null> {
+  const fetchImpl = options.fetchImpl || fetch;
+  const response = await fetchImpl(`${ACCOUNTS_LOOKUP_URL}?key=${encodeURIComponent(options.apiKey)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idToken }),
+  });
+  if (response.status === 400) return null;
+  if (!response.ok) throw new Error(`[CallerAuth] accounts:lookup failed: HTTP ${response.status}`);
+
+  const user = ((await response.json()) as LookupResponse).users?.[0];
+  if (!user?.localId) return null;
+  return { uid: user.localId, anonymous: !user.providerUserInfo || user.providerUserInfo.length === 0 };
+}
+
+/** Bearer token → verified caller (null when missing or invalid) */
+export async function verifyCaller(request: Request, options: CallerAuthOptions): Promise<VerifiedCaller | null> {
+  const token = bearerToken(request);
+  return token ? verifyIdToken(token, options) : null;
+}
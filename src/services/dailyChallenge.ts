@@ -0,0 +1,265 @@
+/**
+ * Daily Challenge — "Günün Turu"
+ *
+ * Every player gets the same DAILY_ROUNDS static packages on a given day:
+ * locationEngine draws them with a PRNG seeded by the Istanbul date
+ * (drawSeededPackages), so the difficulty mix, anti-repeat windows and
+ * province bag apply exactly as in a normal game. No Street View lookup.
+ * The packs ship with the repo, so the dealer keys the date with the server
+ * secret (keyedSeed) — from the date alone anyone could draw every future
+ * day's tur offline.
+ *
+ * The draw is pinned: the first deal of the day stores the packages under
+ * dailyDraws/{date} (server-only, with the pack revision they came from), so a
+ * pack edit during the day can't change the tur half way. Later days draw
+ * from the new revision.
+ *
+ * The run itself is a solo run (soloGame.ts) tagged with the date key; the
+ * server deals its rounds (soloRoundAuthority.ts), the browser has no pack.
+ *
+ * One attempt per day:
+ * - Local: DAILY_STORAGE_KEY remembers today's attempt from the first round
+ *   on — quitting half way still counts
+ * - Server: the first deal claims dailyRuns/{date}/{uid} for that run; another
+ *   run of the same player gets no rounds that day
+ *
+ * Scores come from the server: the guess goes along with the reveal, the
+ * authority scores it against the hidden answer into dailyRuns (server-only)
+ * and writes dailyLeaderboard/{date}/{uid} itself after the last round. The
+ * rules give clients no write on the board.
+ */
+
+import { GameMode, PanoPackage, SCORING } from "@/types";
+import { createSeededRandom, keyedSeed } from "@/utils/random";
+import { drawSeededPackages } from "./locationEngine";
+import type { Quarantine } from "./locationReports";
+import { getPackHeader } from "./panoPacks";
+import { SoloStorage } from "./soloGame";
+
+// ==================== CONSTANTS ====================
+
+export const DAILY_ROUNDS = 5;
+export const DAILY_MAX_SCORE = DAILY_ROUNDS * SCORING.maxScore;
+export const DAILY_LEADERBOARD_SIZE = 10;
+export const DAILY_STORAGE_KEY = "turkiye_guessr_daily_v1";
+export const DAILY_SHARE_URL = "https://turkiyeguessr.xyz";
+
+// Türkiye sabit UTC+3 (2016'dan beri yaz saati yok)
+const ISTANBUL_OFFSET_MS = 3 * 60 * 60 * 1000;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ==================== TYPES ====================
+
+/** dailyLeaderboard/{date}/{uid} */
+export interface DailyEntry {
+  name: string;
+  score: number;
+  rounds: number[];
+  mode: GameMode;
+  finishedAt: number;
+}
+
+export interface DailyRanking extends DailyEntry {
+  uid: string;
+  rank: number;
+}
+
+/** Today's attempt on this device */
+export interface DailyAttempt {
+  dateKey: string;
+  startedAt: number;
+  score: number | null;   // null = started, not finished
+  rounds: number[];
+}
+
+/** dailyDraws/{date} — the day's packages as first drawn */
+export interface DailyDraw {
+  revision: number;
+  packages: PanoPackage[];
+  drawnAt: number;
+}
+
+export interface DailyDrawStorage {
+  getDraw(dateKey: string): Promise<DailyDraw | null>;
+  /** Write-once — returns the stored draw (the earlier one if another deal won) */
+  pinDraw(dateKey: string, draw: DailyDraw): Promise<DailyDraw>;
+}
+
+/** dailyRuns/{date}/{uid} — the player's tur as scored by the server */
+export interface DailyRun {
+  runId: string;
+  name: string;
+  mode: GameMode;
+  rounds: number[];   // server scores, index = round - 1
+  startedAt: number;
+}
+
+export interface DailyRunStorage {
+  getRun(dateKey: string, uid: string): Promise<DailyRun | null>;
+  /** Write-once — returns the stored run (the earlier one if the player already started) */
+  claimRun(dateKey: string, uid: string, run: DailyRun): Promise<DailyRun>;
+  setRun(dateKey: string, uid: string, run: DailyRun): Promise<void>;
+}
+
+export interface DailyLeaderboardStorage {
+  /** Write-once — false when this uid already has an entry for the day */
+  submitEntry(dateKey: string, uid: string, entry: DailyEntry): Promise<boolean>;
+  getEntries(dateKey: string): Promise<Record<string, DailyEntry>>;
+}
+
+// ==================== DATE + DRAW ====================
+
+/** "YYYY-MM-DD" in Istanbul time — the day switches at 00:00 TRT for everyone */
+export function getDailyKey(now: number): string {
+  return new Date(now + ISTANBUL_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export function isDailyKey(value: string): boolean {
+  return DATE_KEY_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+/** Pazar günleri kırsal (geo), diğer günler şehir (urban) */
+export function getDailyMode(dateKey: string): GameMode {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay() === 0 ? "geo" : "urban";
+}
+
+const packageCache = new Map<string, PanoPackage[]>();
+
+/** Seed message of the day's draw — dealers key it with the server secret */
+export function dailySeedMessage(dateKey: string): string {
+  return `gunun-turu:${dateKey}`;
+}
+
+/**
+ * The day's packages from the installed pack — same seed + pack revision
+ * (+ quarantine) → same packages. Needs the day's pack installed; dealers go
+ * through loadDailyPackages, which keys the seed and pins the first draw.
+ * Memoized without a quarantine: the engine draw is deterministic, no need to
+ * repeat it per round.
+ */
+export function getDailyPackages(
+  dateKey: string,
+  quarantine: Quarantine | null = null,
+  seed: string = dailySeedMessage(dateKey)
+): PanoPackage[] {
+  const memoized = !quarantine || Object.keys(quarantine).length === 0;
+  const cached = memoized ? packageCache.get(seed) : undefined;
+  if (cached) return cached;
+  const packages = drawSeededPackages(getDailyMode(dateKey), DAILY_ROUNDS, createSeededRandom(seed), { quarantine });
+  if (memoized && packages.length > 0) packageCache.set(seed, packages);
+  return packages;
+}
+
+/**
+ * The day's pinned packages — drawn and pinned on the first deal of the day,
+ * skipping what the reports quarantined by then. `secret` keys the seed
+ * (FIREBASE_DATABASE_SECRET; null only on the memory backend / in tests).
+ */
+export async function loadDailyPackages(
+  dateKey: string,
+  storage: DailyDrawStorage,
+  now: number,
+  quarantine: Quarantine | null = null,
+  secret: string | null = null
+): Promise<PanoPackage[]> {
+  const pinned = await storage.getDraw(dateKey);
+  if (pinned?.packages?.length) return pinned.packages;
+
+  const packages = getDailyPackages(dateKey, quarantine, await keyedSeed(secret, dailySeedMessage(dateKey)));
+  if (packages.length === 0) return [];
+  // Aynı revizyonla eşzamanlı ilk çekilişler aynı paketleri verir; ilk yazan kalır
+  const revision = getPackHeader(getDailyMode(dateKey))?.revision ?? 0;
+  return (await storage.pinDraw(dateKey, { revision, packages, drawnAt: now })).packages;
+}
+
+// ==================== SHARE CARD ====================
+
+function scoreEmoji(score: number): string {
+  if (score >= 4500) return "🟩";
+  if (score >= 3000) return "🟨";
+  if (score >= 1000) return "🟧";
+  if (score > 0) return "🟥";
+  return "⬛";
+}
+
+/**
+ * Spoiler-free score card:
+ *   🇹🇷 TürkiyeGuessr — Günün Turu 2026-10-19
+ *   🟩🟨🟧🟥⬛
+ *   18.240 / 25.000
+ */
+export function buildShareCard(dateKey: string, rounds: number[], totalScore: number): string {
+  const squares = Array.from({ length: DAILY_ROUNDS }, (_, i) => scoreEmoji(rounds[i] ?? 0)).join("");
+  const total = `${totalScore.toLocaleString("tr-TR")} / ${DAILY_MAX_SCORE.toLocaleString("tr-TR")}`;
+  return `🇹🇷 TürkiyeGuessr — Günün Turu ${dateKey}\n${squares}\n${total}\n${DAILY_SHARE_URL}`;
+}
+
+// ==================== LEADERBOARD ====================
+
+/** Highest score first, earlier finish breaks ties */
+export function rankDailyEntries(entries: Record<string, DailyEntry>, limit: number = DAILY_LEADERBOARD_SIZE): DailyRanking[] {
+  return Object.entries(entries)
+    .map(([uid, entry]) => ({ ...entry, uid }))
+    .sort((a, b) => b.score - a.score || a.finishedAt - b.finishedAt)
+    .slice(0, limit)
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+}
+
+/** Clamp a finished run into a leaderboard entry (bounded name, scores and round count) */
+export function toDailyEntry(name: string, rounds: number[], mode: GameMode, finishedAt: number): DailyEntry {
+  const scores = rounds.slice(0, DAILY_ROUNDS).map((s) => Math.max(0, Math.min(SCORING.maxScore, Math.round(s))));
+  return {
+    name: (name.trim() || "Oyuncu").slice(0, 20),
+    score: scores.reduce((sum, s) => sum + s, 0),
+    rounds: scores,
+    mode,
+    finishedAt,
+  };
+}
+
+// ==================== ATTEMPT (localStorage) ====================
+
+function browserStorage(): SoloStorage | null {
+  if (typeof window === "undefined" || !window.localStorage) return null;
+  return window.localStorage;
+}
+
+/** Today's attempt, or null if this device hasn't started today's tur */
+export function loadDailyAttempt(dateKey: string, storage: SoloStorage | null = browserStorage()): DailyAttempt | null {
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(DAILY_STORAGE_KEY);
+    const attempt = raw ? (JSON.parse(raw) as DailyAttempt) : null;
+    return attempt && attempt.dateKey === dateKey ? attempt : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveDailyAttempt(attempt: DailyAttempt, storage: SoloStorage | null): void {
+  if (!storage) return;
+  try {
+    storage.setItem(DAILY_STORAGE_KEY, JSON.stringify(attempt));
+  } catch {
+    // Storage unavailable — leaderboard write-once still holds
+  }
+}
+
+/** Claim today's attempt. false = already used on this device */
+export function startDailyAttempt(dateKey: string, now: number, storage: SoloStorage | null = browserStorage()): boolean {
+  if (loadDailyAttempt(dateKey, storage)) return false;
+  saveDailyAttempt({ dateKey, startedAt: now, score: null, rounds: [] }, storage);
+  return true;
+}
+
+export function finishDailyAttempt(
+  dateKey: string,
+  rounds: number[],
+  score: number,
+  storage: SoloStorage | null = browserStorage()
+): DailyAttempt {
+  const started = loadDailyAttempt(dateKey, storage);
+  const attempt: DailyAttempt = { dateKey, startedAt: started?.startedAt ?? Date.now(), score, rounds };
+  saveDailyAttempt(attempt, storage);
+  return attempt;
+}
@@ -0,0 +1,167 @@
+/**
+ * Difficulty Calibration — re-tier packages from real scores
+ *
+ * The engine's tiers (enrichPackages: easyScore percentiles over cluster size,
+ * province coverage, qualityScore, panoId sharing) are a guess about what
+ * players find hard. Once a package has CALIBRATION_MIN_GUESSES guesses in
+ * the accuracy snapshot (accuracyStats.ts), its observed median score decides
+ * instead:
+ *
+ *   calibrated packages ranked by median score (desc) → same DIFFICULTY_MIX
+ *   percentiles as the heuristic (15% easy / 55% medium / 30% hard)
+ *
+ * so the 15/55/30 round mix still holds; packages without enough data keep
+ * their heuristic tier. Dynamic packages (estimateDifficulty) are one-off ids
+ * and never calibrated.
+ *
+ * Pipeline: the accuracy job (app/api/aggregate-accuracy) calibrates after
+ * each aggregation and publishes accuracy/calibration; clients load it via
+ * loadDifficultyCalibration() → setDifficultyCalibration() → selectFromTier.
+ * The drift report (heuristic vs observed tier) is logged and returned by the job.
+ */
+
+import { AccuracyStats, AccuracyStorage } from "./accuracyStats";
+import { DIFFICULTY_MIX, Difficulty, setDifficultyCalibration } from "./locationEngine";
+
+// ==================== CONSTANTS ====================
+
+export const CALIBRATION_MIN_GUESSES = 10;
+
+const TIER_ORDER: Difficulty[] = ["easy", "medium", "hard"];
+
+// ==================== TYPES ====================
+
+/** accuracy/calibration — public */
+export interface DifficultyCalibration {
+  generatedAt: number;
+  tiers: Record<string, Difficulty>;   // package id → observed tier
+}
+
+export interface TierDrift {
+  packageId: string;
+  heuristic: Difficulty;
+  observed: Difficulty;
+  medianScore: number;
+  guesses: number;
+}
+
+export interface DriftReport {
+  calibrated: number;        // packages with enough guesses
+  uncalibrated: number;      // kept their heuristic tier
+  agreement: number;         // share of calibrated packages whose tier didn't move (0..1)
+  matrix: Record<Difficulty, Record<Difficulty, number>>;   // heuristic → observed
+  moved: TierDrift[];        // largest jumps first
+}
+
+/** Heuristic tier of one package (EnrichedPackage shape is enough) */
+export interface HeuristicTier {
+  pkg: { id: string };
+  difficulty: Difficulty;
+}
+
+// ==================== CALIBRATION ====================
+
+function emptyMatrix(): Record<Difficulty, Record<Difficulty, number>> {
+  const row = () => ({ easy: 0, medium: 0, hard: 0 });
+  return { easy: row(), medium: row(), hard: row() };
+}
+
+/**
+ * Observed tiers for every package with enough guesses + the drift report.
+ * Pure — same inputs, same output.
+ */
+export function calibrateDifficulty(
+  packages: readonly HeuristicTier[],
+  stats: Record<string, AccuracyStats>,
+  now: number,
+  minGuesses: number = CALIBRATION_MIN_GUESSES
+): { calibration: DifficultyCalibration; report: DriftReport } {
+  const measured = packages
+    .filter((ep) => (stats[ep.pkg.id]?.guesses || 0) >= minGuesses)
+    .map((ep) => ({ ep, observed: stats[ep.pkg.id] }))
+    // Higher median = easier; closer average distance breaks ties
+    .sort((a, b) =>
+      b.observed.medianScore - a.observed.medianScore ||
+      a.observed.averageDistance - b.observed.averageDistance ||
+      a.ep.pkg.id.localeCompare(b.ep.pkg.id)
+    );
+
+  const easyCount = Math.floor(measured.length * DIFFICULTY_MIX.easy);
+  const mediumCount = Math.floor(measured.length * DIFFICULTY_MIX.medium);
+  const tiers: Record<string, Difficulty> = {};
+  const matrix = emptyMatrix();
+  const moved: TierDrift[] = [];
+
+  measured.forEach(({ ep, observed }, i) => {
+    const tier: Difficulty = i < easyCount ? "easy" : i < easyCount + mediumCount ? "medium" : "hard";
+    tiers[ep.pkg.id] = tier;
+    matrix[ep.difficulty][tier]++;
+    if (tier !== ep.difficulty) {
+      moved.push({
+        packageId: ep.pkg.id,
+        heuristic: ep.difficulty,
+        observed: tier,
+        medianScore: observed.medianScore,
+        guesses: observed.guesses,
+      });
+    }
+  });
+
+  const jump = (d: TierDrift) => Math.abs(TIER_ORDER.indexOf(d.heuristic) - TIER_ORDER.indexOf(d.observed));
+  moved.sort((a, b) => jump(b) - jump(a) || b.guesses - a.guesses || a.packageId.localeCompare(b.packageId));
+
+  return {
+    calibration: { generatedAt: now, tiers },
+    report: {
+      calibrated: measured.length,
+      uncalibrated: packages.length - measured.length,
+      agreement: measured.length > 0 ? Math.round(((measured.length - moved.length) / measured.length) * 100) / 100 : 1,
+      matrix,
+      moved,
+    },
+  };
+}
+
+/** Human-readable drift report (job logs) */
+export function formatDriftReport(report: DriftReport, limit: number = 20): string {
+  const lines: string[] = ["=== DIFFICULTY DRIFT REPORT ==="];
+  lines.push(`Calibrated: ${report.calibrated}  Heuristic only: ${report.uncalibrated}  Agreement: ${Math.round(report.agreement * 100)}%`);
+  lines.push("heuristic → observed   easy  medium  hard");
+  TIER_ORDER.forEach((from) => {
+    const row = report.matrix[from];
+    lines.push(`${from.padEnd(22)} ${String(row.easy).padStart(4)}  ${String(row.medium).padStart(6)}  ${String(row.hard).padStart(4)}`);
+  });
+  if (report.moved.length > 0) {
+    lines.push(`\nMoved (${report.moved.length}):`);
+    report.moved.slice(0, limit).forEach((d) => {
+      lines.push(`  ${d.packageId}: ${d.heuristic} → ${d.observed} (median ${d.medianScore}, ${d.guesses} guesses)`);
+    });
+    if (report.moved.length > limit) lines.push(`  ... and ${report.moved.length - limit} more`);
+  }
+  return lines.join("\n");
+}
+
+// ==================== PIPELINE ====================
+
+/**
+ * Job step: calibrate from the published snapshot and publish the tiers.
+ * null = no snapshot yet (nothing aggregated).
+ */
+export async function runDifficultyCalibration(
+  storage: AccuracyStorage,
+  packages: readonly HeuristicTier[],
+  now: number
+): Promise<DriftReport | null> {
+  const snapshot = await storage.getSnapshot();
+  if (!snapshot) return null;
+  const { calibration, report } = calibrateDifficulty(packages, snapshot.packages || {}, now);
+  await storage.setCalibration(calibration);
+  return report;
+}
+
+/** Client: feed the published tiers into the selection engine */
+export async function loadDifficultyCalibration(storage: Pick<AccuracyStorage, "getCalibration">): Promise<number> {
+  const calibration = await storage.getCalibration();
+  setDifficultyCalibration(calibration);
+  return calibration ? Object.keys(calibration.tiers || {}).length : 0;
+}
@@ -5,9 +5,13 @@
  * 1. Türkiye genelinde rastgele koordinatlar üretir
  * 2. Google Street View API ile gerçek pano ID'leri bulur
  * 3. Her oyunda tekrar etmeyen benzersiz lokasyonlar sağlar
+ *
+ * Turları sunucu dağıtır: drawDynamicRoundPackage aynı HYBRID D2 akışını
+ * izole motor üzerinde çalıştırır, Street View aramaları enjekte edilen
+ * PanoResolver'dan (panoResolver.ts) geçer.
  */
 
-import { PanoPackage, GameMode, PanoData } from "@/types";
+import { PanoPackage, GameMode, PanoData, MapFilter } from "@/types";
 import {
   selectStaticPackage,
   resetLocationEngine,
@@ -17,6 +21,12 @@ import {
   recordDynamicSelection,
   getLastProvince,
   incrementRoundCount,
+  setMapFilter,
+  setDifficultyMix,
+  getMapNotice,
+  withIsolatedEngineAsync,
+  DifficultyMix,
+  IsolatedDrawOptions,
 } from "./locationEngine";
 import {
   mintDynamicPackage,
@@ -24,6 +34,11 @@ import {
   isDynamicGeneratorReady,
 } from "./dynamicUrbanGenerator";
 import { initPersistentHistory } from "./persistentHistory";
+import { findPlace, formatPlace } from "./adminBoundaries";
+import { matchesMapFilter } from "./mapFilter";
+import { isApiBudgetDegraded, spendStreetViewCall } from "./apiBudget";
+import type { PanoResolver } from "./panoResolver";
+import { RandomSource, nextRandom, setRandomSource, createSeededRandom } from "@/utils/random";
 
 // ==================== TÜRKİYE BÖLGE VERİLERİ ====================
 // Her bölge için koordinat sınırları ve ağırlıklar
@@ -171,19 +186,19 @@ function calculateDistanceKm(lat1: number, lng1: number, lat2: number, lng2: num
  */
 function getRandomCoordinateNearCity(city: CityData, mode: GameMode): { lat: number; lng: number } {
   // Rastgele açı
-  const angle = Math.random() * 2 * Math.PI;
+  const angle = nextRandom() * 2 * Math.PI;
 
   let distance: number;
 
   if (mode === "urban") {
     // Urban modda şehir merkezine daha yakın ol (radius'un %40'ı)
-    distance = Math.random() * city.radius * 0.4;
+    distance = nextRandom() * city.radius * 0.4;
   } else {
     // Geo modda şehir merkezinden UZAK ol
     // Minimum mesafe: radius'un %60'ı, maksimum: radius'un %150'si
     const minDistance = city.radius * 0.6;
     const maxDistance = city.radius * 1.5;
-    distance = minDistance + Math.random() * (maxDistance - minDistance);
+    distance = minDistance + nextRandom() * (maxDistance - minDistance);
   }
 
   // Yaklaşık dönüşüm (1 derece ≈ 111 km)
@@ -209,7 +224,7 @@ let usedProvincesInSession: Set<string> = new Set();
 function shuffleArray<T>(array: T[]): T[] {
   const arr = [...array];
   for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(nextRandom() * (i + 1));
     [arr[i], arr[j]] = [arr[j], arr[i]];
   }
   return arr;
@@ -266,20 +281,24 @@ export function resetProvinceBag(): void {
  * Urban mod: Province bag'dan stratified çekim (tüm 81 il eşit şanslı)
  * Geo mod: Mevcut ağırlıklı sistemi korur (doğa/kırsal odaklı)
  */
-function selectWeightedCity(mode: GameMode): CityData {
+function selectWeightedCity(mode: GameMode, mapFilter: MapFilter | null = null): CityData | null {
   if (mode === "urban") {
     // HYBRID D1: Stratified province selection
     return popNextProvince(mode);
   }
 
+  // Harita filtresi: sadece seçili bölge / il şehirleri
+  const cities = TURKEY_CITIES.filter(city => matchesMapFilter(mapFilter, city.name, city.region));
+  if (cities.length === 0) return null;
+
   // Geo mod: Kırsal bölgelere ve doğa alanlarına ağırlık (mevcut davranış korunuyor)
-  let weightedCities: { city: CityData; weight: number }[] = TURKEY_CITIES.map(city => ({
+  let weightedCities: { city: CityData; weight: number }[] = cities.map(city => ({
     city,
     weight: city.isUrban ? city.population * 0.1 : city.population * 2
   }));
 
   const totalWeight = weightedCities.reduce((sum, wc) => sum + wc.weight, 0);
-  let random = Math.random() * totalWeight;
+  let random = nextRandom() * totalWeight;
 
   for (const wc of weightedCities) {
     random -= wc.weight;
@@ -292,72 +311,11 @@ function selectWeightedCity(mode: GameMode): CityData {
 }
 
 /**
- * Koordinatlardan konum adı al (Reverse Geocoding)
+ * Koordinatlardan konum adı al — offline il poligonları (adminBoundaries),
+ * ağ isteği yok. İl bulunamazsa (kıyı dışı vb.) şehir adı.
  */
-async function getLocationNameFromCoords(lat: number, lng: number, fallbackCity: string): Promise<string> {
-  if (typeof google === "undefined" || !google.maps) {
-    return fallbackCity;
-  }
-
-  try {
-    sessionApiCallCount++;
-    const geocoder = new google.maps.Geocoder();
-    const result = await new Promise<google.maps.GeocoderResult[] | null>((resolve) => {
-      geocoder.geocode(
-        { location: { lat, lng } },
-        (results, status) => {
-          if (status === google.maps.GeocoderStatus.OK && results) {
-            resolve(results);
-          } else {
-            resolve(null);
-          }
-        }
-      );
-    });
-
-    if (!result || result.length === 0) {
-      return fallbackCity;
-    }
-
-    let ilce = "";
-    let il = "";
-
-    // Sonuçları tara ve il/ilçe bul
-    for (const r of result) {
-      for (const component of r.address_components) {
-        // İlçe
-        if (
-          component.types.includes("administrative_area_level_2") ||
-          component.types.includes("locality")
-        ) {
-          if (!ilce) ilce = component.long_name;
-        }
-        // İl
-        if (component.types.includes("administrative_area_level_1")) {
-          if (!il) il = component.long_name;
-        }
-      }
-      if (il && ilce) break;
-    }
-
-    // Sonucu formatla: "İlçe, İl"
-    if (ilce && il) {
-      // İlçe ve il aynıysa veya merkez ise sadece il göster
-      if (ilce === il || ilce.includes("Merkez")) {
-        return il;
-      }
-      return `${ilce}, ${il}`;
-    } else if (il) {
-      return il;
-    } else if (ilce) {
-      return ilce;
-    }
-
-    return fallbackCity;
-  } catch (error) {
-    console.error("Geocoding error:", error);
-    return fallbackCity;
-  }
+function getLocationNameFromCoords(lat: number, lng: number, fallbackCity: string): string {
+  return formatPlace(findPlace({ lat, lng })) || fallbackCity;
 }
 
 /**
@@ -381,8 +339,7 @@ function calculateHeading(fromLat: number, fromLng: number, toLat: number, toLng
 let usedLocationHashes: Set<string> = new Set();
 let streetViewService: google.maps.StreetViewService | null = null;
 
-// Session API call ceiling — prevents runaway costs
-const MAX_SESSION_API_CALLS = 50;
+// Bu sekmenin yaptığı metadata çağrıları (gözlem için; tavanı apiBudget defteri uygular)
 let sessionApiCallCount = 0;
 
 /**
@@ -406,17 +363,23 @@ function getLocationHash(lat: number, lng: number): string {
 
 /**
  * Belirli bir koordinat için Street View pano bul
+ * resolver: sunucu çekilişi — bütçeyi kendisi ayırır (budgetedPanoResolver)
  */
 async function findStreetViewPano(
   lat: number,
   lng: number,
-  radius: number = 500
+  radius: number = 500,
+  resolver?: PanoResolver
 ): Promise<{ panoId: string; lat: number; lng: number } | null> {
+  if (resolver) return resolver({ lat, lng, radius, kind: "findPano" });
+
   if (!streetViewService) {
     console.warn("Street View service not initialized");
     return null;
   }
 
+  // Ortak günlük bütçe: rezervasyon yoksa çağrı yok (dal bulunamamış sayılır)
+  if (!(await spendStreetViewCall("findPano"))) return null;
   sessionApiCallCount++;
 
   return new Promise((resolve) => {
@@ -447,9 +410,10 @@ async function findStreetViewPano(
  */
 async function findBranchPanos(
   centerPano: { panoId: string; lat: number; lng: number },
-  searchRadius: number = 100
+  searchRadius: number = 100,
+  resolver?: PanoResolver
 ): Promise<{ pano1: PanoData; pano2: PanoData; pano3: PanoData } | null> {
-  if (!streetViewService) return null;
+  if (!streetViewService && !resolver) return null;
 
   // 3 farklı yönde ara (sol, sağ, ileri)
   const directions = [
@@ -469,7 +433,7 @@ async function findBranchPanos(
     const targetLat = centerPano.lat + offsetDistance * Math.cos(targetHeading * Math.PI / 180);
     const targetLng = centerPano.lng + offsetDistance * Math.sin(targetHeading * Math.PI / 180) / Math.cos(centerPano.lat * Math.PI / 180);
 
-    const foundPano = await findStreetViewPano(targetLat, targetLng, searchRadius);
+    const foundPano = await findStreetViewPano(targetLat, targetLng, searchRadius, resolver);
 
     if (foundPano && foundPano.panoId !== centerPano.panoId) {
       const heading = calculateHeading(centerPano.lat, centerPano.lng, foundPano.lat, foundPano.lng);
@@ -500,31 +464,39 @@ async function findBranchPanos(
 /**
  * Dinamik olarak yeni bir pano paketi oluştur
  */
-export async function generateDynamicPanoPackage(mode: GameMode): Promise<PanoPackage | null> {
-  // Session ceiling check — switch to static-only if exceeded
-  if (sessionApiCallCount >= MAX_SESSION_API_CALLS) {
-    console.log(`[DynamicPano] Session API ceiling reached (${sessionApiCallCount}/${MAX_SESSION_API_CALLS}) — static-only mode`);
+export async function generateDynamicPanoPackage(
+  mode: GameMode,
+  mapFilter: MapFilter | null = null,
+  resolver?: PanoResolver
+): Promise<PanoPackage | null> {
+  // Shared budget near exhaustion (apiBudget) — static-only mode
+  if (isApiBudgetDegraded()) {
+    console.log(`[DynamicPano] API budget near exhaustion (${sessionApiCallCount} calls this tab) — static-only mode`);
     return null;
   }
 
   // Street View servisi yoksa başlat
-  if (!streetViewService && typeof google !== 'undefined') {
+  if (!streetViewService && !resolver && typeof google !== 'undefined') {
     initStreetViewService();
   }
 
-  if (!streetViewService) {
+  if (!streetViewService && !resolver) {
     console.error("Google Maps API not loaded");
     return null;
   }
 
   // Maliyet kontrolü: her deneme 1 center + 3 branch = 4 getPanorama calls.
-  // With maxAttempts=1, worst case is 4 SV calls + 1 geocode = 5 total.
+  // With maxAttempts=1, worst case is 4 SV calls (konum adı offline, geocode yok).
   // (Previously maxAttempts=2 → up to 8 SV calls, too expensive.)
   const maxAttempts = 1;
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     // Rastgele şehir seç
-    const city = selectWeightedCity(mode);
+    const city = selectWeightedCity(mode, mapFilter);
+    if (!city) {
+      console.log("[DynamicPano] Harita filtresinde şehir yok — statik havuza geçiliyor");
+      return null;
+    }
 
     // Urban modda sadece büyükşehirleri kullan
     if (mode === "urban" && !city.isUrban) {
@@ -546,7 +518,8 @@ export async function generateDynamicPanoPackage(mode: GameMode): Promise<PanoPa
     const centerPano = await findStreetViewPano(
       randomCoord.lat,
       randomCoord.lng,
-      mode === "urban" ? 100 : 2000
+      mode === "urban" ? 100 : 2000,
+      resolver
     );
 
     if (!centerPano) {
@@ -554,7 +527,7 @@ export async function generateDynamicPanoPackage(mode: GameMode): Promise<PanoPa
     }
 
     // Dalları bul
-    const branches = await findBranchPanos(centerPano);
+    const branches = await findBranchPanos(centerPano, 100, resolver);
 
     if (!branches) {
       continue;
@@ -564,7 +537,7 @@ export async function generateDynamicPanoPackage(mode: GameMode): Promise<PanoPa
     usedLocationHashes.add(hash);
 
     // Konum adını al (ilçe, il formatında)
-    const locationName = await getLocationNameFromCoords(centerPano.lat, centerPano.lng, city.name);
+    const locationName = getLocationNameFromCoords(centerPano.lat, centerPano.lng, city.name);
 
     // Pano paketi oluştur
     const panoPackage: PanoPackage = {
@@ -617,7 +590,7 @@ export function getSessionApiCallCount(): number {
 // ==================== FALLBACK: STATİK PANO HAVUZU ====================
 // Dinamik üretim başarısız olursa bu havuzdan seç
 
-import { URBAN_PACKAGES, GEO_PACKAGES } from "@/data/panoPackages";
+import { getLoadedPackages, loadPack } from "./panoPacks";
 
 let staticUsedIds: Set<string> = new Set();
 
@@ -639,7 +612,8 @@ export function resetStaticUsage(): void {
 // ==================== ENTEGRE SERVİS ====================
 
 /**
- * Ana pano getirme fonksiyonu — HYBRID D2 MODEL (Dynamic Urban Generator)
+ * HYBRID D2 MODEL (Dynamic Urban Generator) — one package from the engine's
+ * current state (map filter, tier mix, anti-repeat windows)
  *
  * Urban mod akışı:
  * 1. LocationEngine'den province bag'dan sonraki ili çek
@@ -648,14 +622,19 @@ export function resetStaticUsage(): void {
  *    - Province has no available static candidates → try dynamic
  * 3. If dynamic: mint via dynamicUrbanGenerator (max 2 SV calls)
  * 4. If dynamic fails OR not needed: use static locationEngine
- * 5. If static also fails: last-resort static fallback (any province)
+ * 5. If static also fails: static fallback (any province)
  *
- * Geo mod: Unchanged (dynamic → static fallback)
+ * Geo mod: dynamic → static fallback
  *
- * MULTIPLAYER: Host-only minting. Host generates pano, writes to Firebase.
- * All clients receive the same pano package via room state.
+ * resolver: Street View lookups where no StreetViewService exists (server
+ * draw); without it the tab's own service is used. null = nothing on the map.
  */
-export async function getNextPanoPackage(mode: GameMode, roomId?: string): Promise<PanoPackage> {
+async function nextHybridPackage(
+  mode: GameMode,
+  roomId: string | undefined,
+  mapFilter: MapFilter | null,
+  resolver?: PanoResolver
+): Promise<PanoPackage | null> {
   if (mode === "urban") {
     // PHASE 1: Get target province from locationEngine's province bag
     const provinceName = getNextProvince();
@@ -663,11 +642,13 @@ export async function getNextPanoPackage(mode: GameMode, roomId?: string): Promi
     console.log(`[Urban D2] Target province: ${provinceName}, last: ${lastProv}`);
 
     // PHASE 2: Check if dynamic generation should be attempted
-    const tryDynamic = isDynamicGeneratorReady() && shouldAttemptDynamic(provinceName);
+    // Ortak API bütçesi dolmak üzereyse dinamik üretim yok (statik-only)
+    const tryDynamic =
+      (!!resolver || isDynamicGeneratorReady()) && !isApiBudgetDegraded() && shouldAttemptDynamic(provinceName);
 
     if (tryDynamic) {
       console.log(`[Urban D2] Attempting dynamic mint for ${provinceName}`);
-      const mintResult = await mintDynamicPackage(provinceName, lastProv, roomId);
+      const mintResult = await mintDynamicPackage(provinceName, lastProv, roomId, mapFilter, resolver);
 
       if (mintResult.package) {
         console.log(`[Urban D2] Dynamic mint SUCCESS: ${mintResult.package.locationName} (${mintResult.attemptsUsed} attempts)`);
@@ -694,37 +675,79 @@ export async function getNextPanoPackage(mode: GameMode, roomId?: string): Promi
       incrementRoundCount();
       return staticAny;
     }
-
-    // PHASE 5: Last resort — first urban package
-    const fallback = URBAN_PACKAGES[0];
-    console.warn("[Urban D2] Last resort fallback:", fallback.id);
-    incrementRoundCount();
-    return fallback;
+    return null;
   }
 
   // GEO MOD: Unchanged flow
-  const dynamicPano = await generateDynamicPanoPackage(mode);
+  const dynamicPano = await generateDynamicPanoPackage(mode, mapFilter, resolver);
   if (dynamicPano) return dynamicPano;
 
   console.log("Dinamik pano üretilemedi, statik havuz kullanılıyor");
-  const staticPano = getStaticPanoPackage(mode);
-  if (staticPano) return staticPano;
+  return getStaticPanoPackage(mode);
+}
 
-  const fallback = GEO_PACKAGES[0];
-  console.warn("Fallback pano kullanılıyor:", fallback.id);
+/**
+ * Ana pano getirme fonksiyonu — tarayıcı motoru üzerinde HYBRID D2
+ *
+ * Önce modun paketi yüklenir (sadece memory backend'de erişilebilir —
+ * paketler sunucuya özel); yüklenemezse hata fırlar. Hiçbir şey
+ * seçilemezse modun ilk paketi (son çare).
+ */
+export async function getNextPanoPackage(
+  mode: GameMode,
+  roomId?: string,
+  mapFilter: MapFilter | null = null,
+  difficultyMix: DifficultyMix | null = null
+): Promise<PanoPackage> {
+  // Harita filtresi: province bag + statik havuz; önceki turun uyarısını da temizler
+  setMapFilter(mapFilter);
+  // Odanın zorluk karışımı (adaptif zorluk kapalıysa null → 15/55/30)
+  setDifficultyMix(difficultyMix);
+  await loadPack(mode);
+
+  const panoPackage = await nextHybridPackage(mode, roomId, mapFilter);
+  if (panoPackage) return panoPackage;
+
+  const fallback = getLoadedPackages(mode)[0];
+  if (mode === "urban") {
+    console.warn("[Urban D2] Last resort fallback:", fallback.id);
+    incrementRoundCount();
+  } else {
+    console.warn("Fallback pano kullanılıyor:", fallback.id);
+  }
   return fallback;
 }
 
+/**
+ * Server-side round draw with dynamic generation: the HYBRID D2 flow on an
+ * isolated engine (the room's map, tier mix, quarantine and earlier rounds —
+ * locationEngine.drawRoundPackage's inputs), Street View lookups through
+ * `resolver`. Static selection stays the fallback; null only when the map
+ * has nothing left.
+ */
+export async function drawDynamicRoundPackage(
+  mode: GameMode,
+  source: RandomSource,
+  options: IsolatedDrawOptions,
+  resolver: PanoResolver
+): Promise<{ panoPackage: PanoPackage; mapNotice: string | null } | null> {
+  return withIsolatedEngineAsync(mode, source, options, async () => {
+    const panoPackage = await nextHybridPackage(mode, undefined, options.mapFilter || null, resolver);
+    return panoPackage ? { panoPackage, mapNotice: getMapNotice() } : null;
+  });
+}
+
 /**
  * Yeni oyun başladığında çağrılacak
  * @param roomId - Multiplayer room ID (for persistent history from Firebase)
+ * @param seed - Room.seed: bu oyunun tüm konum seçimleri bu seed'den (yoksa Math.random)
  */
-export async function onNewGameStart(roomId?: string): Promise<void> {
+export async function onNewGameStart(roomId?: string, seed?: number | null): Promise<void> {
+  setRandomSource(seed === undefined || seed === null ? null : createSeededRandom(seed));
   resetUsedLocations();
   resetStaticUsage();
   resetProvinceBag();
   resetLocationEngine();
-  sessionApiCallCount = 0;
 
   // Initialize dynamic generator (if Google Maps loaded)
   initDynamicGenerator();
@@ -8,10 +8,12 @@
  * 1. Province selection: uses locationEngine's province bag (48 urban provinces)
  * 2. Seed selection: picks a random seed from the province's UrbanSeedMap
  * 3. Coordinate sampling: random offset within seed radius
- * 4. Pano resolution: uses StreetViewService.getPanorama() (max 2 attempts)
+ * 4. Pano resolution: StreetViewService.getPanorama() in the tab, or the
+ *    injected PanoResolver where rounds are dealt (max 2 attempts)
  * 5. Quality check: urban invariant (within seed envelope + Turkey bounds)
  * 6. Anti-repeat check: persistent history (panoId + locationHash)
  * 7. Fallback: if generation fails → return null (caller falls back to static)
+ * 8. Map filter: provinces outside Room.mapFilter are never minted
  *
  * NO geocode calls — locationName derived from seed data + province name.
  * NO extra metadata RPC loops — navigation uses panoId + getLinks() only.
@@ -19,7 +21,7 @@
  * Host-only in multiplayer: host mints and broadcasts via Firebase.
  */
 
-import { PanoPackage, PanoData, GameMode } from "@/types";
+import { PanoPackage, PanoData, GameMode, MapFilter } from "@/types";
 import {
   getUrbanSeedMap,
   sampleFromSeed,
@@ -32,6 +34,10 @@ import {
   recordPersistentLocation,
   LocationFingerprint,
 } from "./persistentHistory";
+import { matchesMapFilter } from "./mapFilter";
+import { spendStreetViewCall } from "./apiBudget";
+import type { PanoResolver } from "./panoResolver";
+import { nextRandom } from "@/utils/random";
 
 // ==================== TYPES ====================
 
@@ -95,13 +101,18 @@ function createClusterId(province: string, locationHash: string): string {
 /**
  * Resolve a Street View pano near coordinates.
  * Uses OUTDOOR source to get street-level panoramas.
+ * Each call is reserved in the shared API budget first (refused → null);
+ * an injected resolver meters its own lookups (panoResolver.budgetedPanoResolver).
  */
 async function resolvePano(
   lat: number,
   lng: number,
-  radius: number = SV_SEARCH_RADIUS_M
+  radius: number = SV_SEARCH_RADIUS_M,
+  resolver?: PanoResolver
 ): Promise<{ panoId: string; lat: number; lng: number } | null> {
+  if (resolver) return resolver({ lat, lng, radius, kind: "resolvePano" });
   if (!streetViewService) return null;
+  if (!(await spendStreetViewCall("resolvePano"))) return null;
 
   return new Promise((resolve) => {
     streetViewService!.getPanorama(
@@ -176,7 +187,7 @@ function buildPanoPackage(
   difficulty: "easy" | "medium" | "hard",
   region: string
 ): PanoPackage {
-  const heading0 = Math.floor(Math.random() * 360);
+  const heading0 = Math.floor(nextRandom() * 360);
 
   const makeBranch = (headingOffset: number): PanoData => ({
     panoId: pano.panoId,
@@ -249,12 +260,16 @@ function getProvinceRegion(province: string): string {
  * @param province - Target province name
  * @param lastProvince - Previous round's province (for back-to-back guard)
  * @param roomId - Optional multiplayer room ID (for Firebase persistence)
+ * @param mapFilter - Room map restriction (null = all of Türkiye)
+ * @param resolver - Street View lookup where no StreetViewService exists (server draw)
  * @returns DynamicMintResult with package or null
  */
 export async function mintDynamicPackage(
   province: string,
   lastProvince: string | null,
-  roomId?: string
+  roomId?: string,
+  mapFilter: MapFilter | null = null,
+  resolver?: PanoResolver
 ): Promise<DynamicMintResult> {
   metrics.totalMintAttempts++;
 
@@ -264,6 +279,11 @@ export async function mintDynamicPackage(
     return { package: null, attemptsUsed: 0, failReason: "back_to_back_province" };
   }
 
+  if (!matchesMapFilter(mapFilter, province, getProvinceRegion(province))) {
+    metrics.totalMintFail++;
+    return { package: null, attemptsUsed: 0, failReason: "province_outside_map" };
+  }
+
   const seedMap = getUrbanSeedMap();
   const seedEntry = seedMap.get(province);
 
@@ -272,7 +292,7 @@ export async function mintDynamicPackage(
     return { package: null, attemptsUsed: 0, failReason: "no_seeds_for_province" };
   }
 
-  if (!streetViewService) {
+  if (!streetViewService && !resolver) {
     metrics.totalMintFail++;
     return { package: null, attemptsUsed: 0, failReason: "sv_service_not_initialized" };
   }
@@ -284,7 +304,7 @@ export async function mintDynamicPackage(
     metrics.totalSVCalls++;
 
     // Pick a random seed from this province
-    const seed = seedEntry.seeds[Math.floor(Math.random() * seedEntry.seeds.length)];
+    const seed = seedEntry.seeds[Math.floor(nextRandom() * seedEntry.seeds.length)];
 
     // Sample a coordinate within the seed
     const candidate = sampleFromSeed(seed);
@@ -296,7 +316,7 @@ export async function mintDynamicPackage(
     }
 
     // Resolve nearest pano
-    const pano = await resolvePano(candidate.lat, candidate.lng);
+    const pano = await resolvePano(candidate.lat, candidate.lng, SV_SEARCH_RADIUS_M, resolver);
     if (!pano) continue;
 
     // Urban invariant: resolved pano must be within seed envelope
@@ -421,7 +441,8 @@ export function setMockPanoResolver(resolver: MockPanoResolver | null): void {
 export function mintDynamicPackageSync(
   province: string,
   lastProvince: string | null,
-  roomId?: string
+  roomId?: string,
+  mapFilter: MapFilter | null = null
 ): DynamicMintResult {
   metrics.totalMintAttempts++;
 
@@ -430,6 +451,11 @@ export function mintDynamicPackageSync(
     return { package: null, attemptsUsed: 0, failReason: "back_to_back_province" };
   }
 
+  if (!matchesMapFilter(mapFilter, province, getProvinceRegion(province))) {
+    metrics.totalMintFail++;
+    return { package: null, attemptsUsed: 0, failReason: "province_outside_map" };
+  }
+
   const seedMap = getUrbanSeedMap();
   const seedEntry = seedMap.get(province);
 
@@ -449,7 +475,7 @@ export function mintDynamicPackageSync(
     attemptsUsed++;
     metrics.totalSVCalls++;
 
-    const seed = seedEntry.seeds[Math.floor(Math.random() * seedEntry.seeds.length)];
+    const seed = seedEntry.seeds[Math.floor(nextRandom() * seedEntry.seeds.length)];
     const candidate = sampleFromSeed(seed);
 
     if (!isWithinTurkeyBounds(candidate.lat, candidate.lng)) {
@@ -0,0 +1,36 @@
+/**
+ * Firebase RTDB implementation of AccuracyStorage
+ * Path: accuracy/stats + accuracy/calibration — public read; accuracy/samples + accuracy/aggregate
+ * are written only by the scoring authority / aggregation job (rules deny
+ * clients). The write side here serves the in-memory backend, where the
+ * authority runs in-process.
+ */
+
+import { database, ref, get, set, runTransaction } from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { AccuracyNode, AccuracySnapshot, AccuracyStorage } from "./accuracyStats";
+import { DifficultyCalibration } from "./difficultyCalibration";
+
+export function createFirebaseAccuracyStorage(db: Database = database): AccuracyStorage {
+  return {
+    async addSamples(sampleId, samples) {
+      if (samples.length === 0) return;
+      await set(ref(db, `accuracy/samples/${sampleId}`), samples);
+    },
+    async getSnapshot() {
+      const snap = await get(ref(db, "accuracy/stats"));
+      return snap.val() as AccuracySnapshot | null;
+    },
+    async getCalibration() {
+      const snap = await get(ref(db, "accuracy/calibration"));
+      return snap.val() as DifficultyCalibration | null;
+    },
+    async setCalibration(calibration) {
+      await set(ref(db, "accuracy/calibration"), calibration);
+    },
+    async transactAccuracy(updater) {
+      const result = await runTransaction(ref(db, "accuracy"), (current) => updater(current as AccuracyNode | null));
+      return { committed: result.committed, value: result.snapshot.val() as AccuracyNode | null };
+    },
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Firebase RTDB implementation of BudgetStorage
+ * Path: apiBudget/{day}/{total | kinds/{kind} | rooms/{scope}} — no client
+ * rule, so this only works on the memory backend, where the ledger runs
+ * in-process (panoService.initApiBudget); production goes through
+ * /api/budget over adminBudgetStorage.
+ */
+
+import { database, ref, get, runTransaction } from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { BudgetDay, BudgetStorage } from "./apiBudget";
+
+export function createFirebaseBudgetStorage(db: Database = database): BudgetStorage {
+  return {
+    async transactDay(day, updater) {
+      const result = await runTransaction(ref(db, `apiBudget/${day}`), (current) => updater(current as BudgetDay | null));
+      return { committed: result.committed, value: result.snapshot.val() as BudgetDay | null };
+    },
+    async getDay(day) {
+      const snap = await get(ref(db, `apiBudget/${day}`));
+      return snap.val() as BudgetDay | null;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Firebase RTDB implementation of DailyLeaderboardStorage
+ * Path: dailyLeaderboard/{YYYY-MM-DD}/{uid} — public read, written once by the
+ * solo round authority (server-side over admin storage; in-process only on the
+ * memory backend, whose rules don't apply)
+ */
+
+import { database, ref, get, runTransaction } from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { DailyEntry, DailyLeaderboardStorage, isDailyKey } from "./dailyChallenge";
+
+export function createFirebaseDailyLeaderboard(db: Database = database): DailyLeaderboardStorage {
+  const dayPath = (dateKey: string) => `dailyLeaderboard/${dateKey}`;
+
+  return {
+    async submitEntry(dateKey, uid, entry) {
+      if (!isDailyKey(dateKey)) return false;
+      // Abort when an entry exists; rules (!data.exists()) reject a stale-cache write too
+      const result = await runTransaction(ref(db, `${dayPath(dateKey)}/${uid}`), (current) =>
+        current === null ? entry : undefined
+      );
+      return result.committed;
+    },
+    // Whole day node, ranked client-side (the in-memory backend has no queries)
+    async getEntries(dateKey) {
+      if (!isDailyKey(dateKey)) return {};
+      const snap = await get(ref(db, dayPath(dateKey)));
+      return (snap.val() as Record<string, DailyEntry> | null) || {};
+    },
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Firebase RTDB implementation of LeaderboardStorage
+ * Path: leaderboards/{boardId}/{entryId} — public read, written only by the
+ * scoring authority (rules deny client writes); leaderboardBests/{boardId}/{uid}
+ * and leaderboardCounts/{boardId} likewise. The writers here serve the
+ * in-memory backend, where the authority runs in-process.
+ */
+
+import { database, ref, get, runTransaction } from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { LeaderboardEntry, LeaderboardStorage, ScoreCounts, applyCountDeltas, isBoardId, mergeIntoBoard } from "./leaderboard";
+
+export function createFirebaseLeaderboard(db: Database = database): LeaderboardStorage {
+  const boardPath = (boardId: string) => `leaderboards/${boardId}`;
+  const bestPath = (boardId: string, uid: string) => `leaderboardBests/${boardId}/${uid}`;
+  const countsPath = (boardId: string) => `leaderboardCounts/${boardId}`;
+
+  return {
+    // Whole board (≤ LEADERBOARD_MAX_ENTRIES), ranked client-side
+    async getBoard(boardId) {
+      if (!isBoardId(boardId)) return {};
+      const snap = await get(ref(db, boardPath(boardId)));
+      return (snap.val() as Record<string, LeaderboardEntry> | null) || {};
+    },
+    async addEntries(boardId, entries) {
+      if (!isBoardId(boardId)) return 0;
+      let added = 0;
+      const result = await runTransaction(ref(db, boardPath(boardId)), (current) => {
+        const merged = mergeIntoBoard(current as Record<string, LeaderboardEntry> | null, entries);
+        added = merged ? merged.added : 0;
+        return merged ? merged.board : undefined;
+      });
+      return result.committed ? added : 0;
+    },
+    async getBest(boardId, uid) {
+      if (!isBoardId(boardId)) return null;
+      const snap = await get(ref(db, bestPath(boardId, uid)));
+      return (snap.val() as number | null) ?? null;
+    },
+    async raiseBest(boardId, uid, score) {
+      if (!isBoardId(boardId)) return { raised: false, previous: null };
+      let previous: number | null = null;
+      const result = await runTransaction(ref(db, bestPath(boardId, uid)), (current) => {
+        previous = (current as number | null) ?? null;
+        return previous !== null && previous >= score ? undefined : score;
+      });
+      return { raised: result.committed, previous };
+    },
+    // Distinct best scores only — small enough to read whole
+    async getCounts(boardId) {
+      if (!isBoardId(boardId)) return {};
+      const snap = await get(ref(db, countsPath(boardId)));
+      return (snap.val() as ScoreCounts | null) || {};
+    },
+    async adjustCounts(boardId, deltas) {
+      if (!isBoardId(boardId)) return;
+      await runTransaction(ref(db, countsPath(boardId)), (current) => applyCountDeltas(current as ScoreCounts | null, deltas));
+    },
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Firebase RTDB implementation of ProfileStorage
+ * Path: profiles/{uid} — owner-only read/write
+ */
+
+import { database, ref, get, remove, runTransaction } from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { CareerGame, PlayerProfile, ProfileStorage, applyGameToProfile } from "./playerProfile";
+
+export function createFirebaseProfileStorage(db: Database = database): ProfileStorage {
+  const profilePath = (uid: string) => `profiles/${uid}`;
+
+  return {
+    async getProfile(uid) {
+      const snap = await get(ref(db, profilePath(uid)));
+      return snap.val() as PlayerProfile | null;
+    },
+    async createProfile(uid, profile) {
+      const result = await runTransaction(ref(db, profilePath(uid)), (current) =>
+        current === null ? profile : undefined
+      );
+      return result.committed;
+    },
+    async deleteProfile(uid) {
+      await remove(ref(db, profilePath(uid)));
+    },
+    async recordGame(uid: string, game: CareerGame) {
+      let before: PlayerProfile | null = null;
+      const result = await runTransaction(ref(db, profilePath(uid)), (current) => {
+        before = null;
+        const profile = current as PlayerProfile | null;
+        // RTDB may hand us null from local cache first — return as-is so it retries with server data
+        if (!profile) return profile;
+        const next = applyGameToProfile(profile, game);
+        if (next === profile) return undefined;
+        before = profile;
+        return next;
+      });
+      if (!result.committed || !before) return null;
+      return { before, after: result.snapshot.val() as PlayerProfile };
+    },
+  };
+}
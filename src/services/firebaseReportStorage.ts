@@ -0,0 +1,41 @@
+/**
+ * Firebase RTDB implementation of ReportStorage
+ * Paths: locationReports/{packageId}/{uid}, reportQuota/{uid} — server-only;
+ * quarantine/ — public read. Everything but getQuarantine serves the in-memory
+ * backend, where submitReport runs in-process.
+ */
+
+import { database, ref, get, runTransaction } from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { LocationReport, Quarantine, QuarantineEntry, ReportQuota, ReportStorage } from "./locationReports";
+
+export function createFirebaseReportStorage(db: Database = database): ReportStorage {
+  return {
+    async addReport(packageId, uid, report) {
+      const result = await runTransaction(ref(db, `locationReports/${packageId}/${uid}`), (current) =>
+        current === null ? report : undefined
+      );
+      return result.committed;
+    },
+    async getReports(packageId) {
+      const snap = await get(ref(db, `locationReports/${packageId}`));
+      return (snap.val() as Record<string, LocationReport> | null) || {};
+    },
+    async getQuarantine() {
+      const snap = await get(ref(db, "quarantine"));
+      return (snap.val() as Quarantine | null) || {};
+    },
+    async transactQuarantine(packageId, updater) {
+      const result = await runTransaction(ref(db, `quarantine/${packageId}`), (current) =>
+        updater(current as QuarantineEntry | null)
+      );
+      return { committed: result.committed, value: result.snapshot.val() as QuarantineEntry | null };
+    },
+    async transactQuota(uid, updater) {
+      const result = await runTransaction(ref(db, `reportQuota/${uid}`), (current) =>
+        updater(current as ReportQuota | null)
+      );
+      return { committed: result.committed, value: result.snapshot.val() as ReportQuota | null };
+    },
+  };
+}
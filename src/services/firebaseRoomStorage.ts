@@ -0,0 +1,125 @@
+/**
+ * Firebase RTDB implementation of RoomStorageAdapter
+ * Paths: rooms/{roomId}, rooms/{roomId}/players/{playerId}, rooms/{roomId}/meta
+ *
+ * createFirebaseRoundAnswerStorage covers roundAnswers/{roomId}/{roundId}, which
+ * the rules close to every client — it only works on the memory backend, where
+ * the round / scoring authorities run in-process.
+ */
+
+import {
+  database,
+  ref,
+  set,
+  get,
+  onValue,
+  update,
+  remove,
+  onDisconnect,
+  runTransaction,
+  serverTimestamp,
+} from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { Room, Player, RoundAnswer } from "@/types";
+import { RoomStorageAdapter, RoundAnswerStorage } from "./roomStorage";
+
+// ==================== SERVER TIME OFFSET ====================
+// Firebase exposes `.info/serverTimeOffset` — the estimated delta between
+// client clock and server clock (ms). serverNow ≈ Date.now() + offset.
+let _serverTimeOffset = 0;
+let _offsetListenerAttached = false;
+
+function attachServerTimeOffsetListener(db: Database) {
+  if (_offsetListenerAttached) return;
+  _offsetListenerAttached = true;
+  const offsetRef = ref(db, ".info/serverTimeOffset");
+  onValue(offsetRef, (snap) => {
+    _serverTimeOffset = snap.val() || 0;
+  });
+}
+
+// ==================== ADAPTER ====================
+
+/**
+ * @param db RTDB instance — defaults to the app database (Firebase or the
+ *           in-memory stand-in, see config/firebase). Tests pass one memory
+ *           client per simulated player.
+ */
+export function createFirebaseRoomStorage(db: Database = database): RoomStorageAdapter {
+  const roomPath = (roomId: string) => `rooms/${roomId}`;
+  const playerPath = (roomId: string, playerId: string) => `rooms/${roomId}/players/${playerId}`;
+
+  return {
+    async getRoom(roomId) {
+      const snap = await get(ref(db, roomPath(roomId)));
+      return snap.val() as Room | null;
+    },
+    async setRoom(roomId, room) {
+      await set(ref(db, roomPath(roomId)), room);
+    },
+    async updateRoom(roomId, patch) {
+      await update(ref(db, roomPath(roomId)), patch);
+    },
+    async removeRoom(roomId) {
+      await remove(ref(db, roomPath(roomId)));
+    },
+
+    // Player-level paths so the $playerId .write rule applies
+    async setPlayer(roomId, player) {
+      await set(ref(db, playerPath(roomId, player.id)), player);
+    },
+    async updatePlayer(roomId, playerId, patch) {
+      await update(ref(db, playerPath(roomId, playerId)), patch);
+    },
+    async removePlayer(roomId, playerId) {
+      await remove(ref(db, playerPath(roomId, playerId)));
+    },
+
+    async transactRoom(roomId, updater) {
+      const result = await runTransaction(ref(db, roomPath(roomId)), (current) => updater(current as Room | null));
+      return { committed: result.committed, value: result.snapshot.val() as Room | null };
+    },
+    async transactPlayer(roomId, playerId, updater) {
+      const result = await runTransaction(ref(db, playerPath(roomId, playerId)), (current) => updater(current as Player | null));
+      return { committed: result.committed, value: result.snapshot.val() as Player | null };
+    },
+    async incrementGuessCount(roomId) {
+      await runTransaction(ref(db, `${roomPath(roomId)}/currentGuesses`), (current) => (current || 0) + 1);
+    },
+    async touchServerNow(roomId) {
+      await update(ref(db, `${roomPath(roomId)}/meta`), { serverNow: serverTimestamp() });
+    },
+
+    subscribeRoom(roomId, listener) {
+      return onValue(ref(db, roomPath(roomId)), (snapshot) => {
+        listener(snapshot.val() as Room | null);
+      });
+    },
+    onPlayerDisconnect(roomId, playerId, patch) {
+      const disconnectRef = onDisconnect(ref(db, playerPath(roomId, playerId)));
+      disconnectRef.update(patch);
+      return () => {
+        disconnectRef.cancel();
+      };
+    },
+
+    getServerNow() {
+      attachServerTimeOffsetListener(db);
+      return Date.now() + _serverTimeOffset;
+    },
+  };
+}
+
+/** roundAnswers/ for the in-process authorities (memory backend only — rules deny clients) */
+export function createFirebaseRoundAnswerStorage(db: Database = database): RoundAnswerStorage {
+  const answerPath = (roomId: string, roundId: number) => `roundAnswers/${roomId}/${roundId}`;
+  return {
+    async setRoundAnswer(roomId, answer) {
+      await set(ref(db, answerPath(roomId, answer.roundId)), answer);
+    },
+    async getRoundAnswer(roomId, roundId) {
+      const snap = await get(ref(db, answerPath(roomId, roundId)));
+      return snap.val() as RoundAnswer | null;
+    },
+  };
+}
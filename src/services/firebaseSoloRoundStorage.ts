@@ -0,0 +1,47 @@
+/**
+ * Firebase RTDB implementation of SoloRoundStorage + DailyDrawStorage + DailyRunStorage
+ * Paths: soloRounds/{uid}, dailyDraws/{YYYY-MM-DD}, dailyRuns/{YYYY-MM-DD}/{uid}
+ *
+ * The rules close these paths to every client — this only works on the memory
+ * backend, where the solo round authority runs in-process.
+ */
+
+import { database, ref, set, get, runTransaction } from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { SoloDeal, SoloRoundStorage } from "./soloRoundAuthority";
+import { DailyDraw, DailyDrawStorage, DailyRun, DailyRunStorage } from "./dailyChallenge";
+
+export function createFirebaseSoloRoundStorage(db: Database = database): SoloRoundStorage & DailyDrawStorage & DailyRunStorage {
+  return {
+    async getSoloDeal(uid) {
+      const snap = await get(ref(db, `soloRounds/${uid}`));
+      return snap.val() as SoloDeal | null;
+    },
+    async setSoloDeal(uid, deal) {
+      await set(ref(db, `soloRounds/${uid}`), deal);
+    },
+    async getDraw(dateKey) {
+      const snap = await get(ref(db, `dailyDraws/${dateKey}`));
+      return snap.val() as DailyDraw | null;
+    },
+    async pinDraw(dateKey, draw) {
+      const result = await runTransaction(ref(db, `dailyDraws/${dateKey}`), (current) =>
+        current === null ? draw : undefined
+      );
+      return (result.snapshot.val() as DailyDraw | null) || draw;
+    },
+    async getRun(dateKey, uid) {
+      const snap = await get(ref(db, `dailyRuns/${dateKey}/${uid}`));
+      return snap.val() as DailyRun | null;
+    },
+    async claimRun(dateKey, uid, run) {
+      const result = await runTransaction(ref(db, `dailyRuns/${dateKey}/${uid}`), (current) =>
+        current === null ? run : undefined
+      );
+      return (result.snapshot.val() as DailyRun | null) || run;
+    },
+    async setRun(dateKey, uid, run) {
+      await set(ref(db, `dailyRuns/${dateKey}/${uid}`), run);
+    },
+  };
+}
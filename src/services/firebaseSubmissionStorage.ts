@@ -0,0 +1,46 @@
+/**
+ * Firebase RTDB implementation of SubmissionStorage
+ * Path: submissions/{uid}/{submissionId} — the owner reads their own; writes
+ * go through the server (submit-location, moderation) and the admin REST
+ * storage. addSubmission / transactQuota / getAllSubmissions /
+ * transactSubmission here serve the in-memory backend, where the submit
+ * route and moderation run in-process.
+ */
+
+import { database, ref, get, runTransaction } from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { LocationSubmission, SubmissionStorage } from "./locationSubmissions";
+import { ReportQuota } from "./locationReports";
+
+export function createFirebaseSubmissionStorage(db: Database = database): SubmissionStorage {
+  const submissionPath = (uid: string, id: string) => `submissions/${uid}/${id}`;
+
+  return {
+    async addSubmission(uid, id, submission) {
+      const result = await runTransaction(ref(db, submissionPath(uid, id)), (current) =>
+        current === null ? submission : undefined
+      );
+      return result.committed;
+    },
+    async getSubmissions(uid) {
+      const snap = await get(ref(db, `submissions/${uid}`));
+      return (snap.val() as Record<string, LocationSubmission> | null) || {};
+    },
+    async getAllSubmissions() {
+      const snap = await get(ref(db, "submissions"));
+      return (snap.val() as Record<string, Record<string, LocationSubmission>> | null) || {};
+    },
+    async transactSubmission(uid, id, updater) {
+      const result = await runTransaction(ref(db, submissionPath(uid, id)), (current) =>
+        updater(current as LocationSubmission | null)
+      );
+      return { committed: result.committed, value: result.snapshot.val() as LocationSubmission | null };
+    },
+    async transactQuota(uid, updater) {
+      const result = await runTransaction(ref(db, `submissionQuota/${uid}`), (current) =>
+        updater(current as ReportQuota | null)
+      );
+      return { committed: result.committed, value: result.snapshot.val() as ReportQuota | null };
+    },
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Firebase RTDB telemetry sink + the app's export wiring
+ *
+ * Path: telemetry/{YYYY-MM-DD}/{batchId} = { uid, at, records } — write-once
+ * by any signed-in player (rules), never readable by clients; the ops side
+ * reads it with the database secret (opsMetrics → /ops). The batch `at` is
+ * the server's clock: the rules refuse a future `at`, and a player's clock
+ * may run ahead.
+ *
+ * startTelemetryExport picks the sink: NEXT_PUBLIC_TELEMETRY_ENDPOINT set →
+ * HTTP beacon to that collector, otherwise this RTDB sink.
+ */
+
+import { database, ref, set, serverTimestamp, getAuthUid } from "@/config/firebase";
+import type { Database } from "firebase/database";
+import { FEATURE_FLAGS } from "@/config/production";
+import { setTelemetryExporter } from "@/utils/telemetry";
+import {
+  TelemetrySink,
+  createBeaconSink,
+  createTelemetryExporter,
+  installExportTriggers,
+  telemetryDayKey,
+} from "@/utils/telemetryExporter";
+
+export function createFirebaseTelemetrySink(db: Database = database): TelemetrySink {
+  return {
+    name: "rtdb",
+    unloadSafe: false,
+    async send(batch) {
+      const uid = await getAuthUid();
+      await set(ref(db, `telemetry/${telemetryDayKey(batch.at)}/${batch.id}`), {
+        uid,
+        at: serverTimestamp(),
+        records: batch.records,
+      });
+    },
+  };
+}
+
+/**
+ * Client: install the exporter behind FEATURE_FLAGS.ENABLE_ANALYTICS /
+ * ENABLE_ERROR_REPORTING. Returns stop (last flush + uninstall).
+ */
+export function startTelemetryExport(): () => void {
+  const { ENABLE_ANALYTICS, ENABLE_ERROR_REPORTING } = FEATURE_FLAGS;
+  if (typeof window === "undefined" || (!ENABLE_ANALYTICS && !ENABLE_ERROR_REPORTING)) return () => {};
+
+  const endpoint = process.env.NEXT_PUBLIC_TELEMETRY_ENDPOINT;
+  const exporter = createTelemetryExporter({
+    sink: endpoint ? createBeaconSink(endpoint) : createFirebaseTelemetrySink(),
+    analytics: ENABLE_ANALYTICS,
+    errors: ENABLE_ERROR_REPORTING,
+    storage: window.localStorage,
+  });
+  setTelemetryExporter(exporter);
+  const uninstall = installExportTriggers(exporter, window);
+
+  return () => {
+    uninstall();
+    void exporter.flush();
+    setTelemetryExporter(null);
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Leaderboards — all-time + weekly, per mode and per region
+ *
+ * Fed only by the scoring authority: when it scores the final round of a
+ * multiplayer game, recordFinishedGame() turns the room into one entry per
+ * player and fans it out to every board the game belongs to. Clients can
+ * read boards but never write them (database.rules.json), so every score on
+ * a board came from roundScores the authority itself computed.
+ *
+ * Anti-abuse:
+ * - Minimum LEADERBOARD_MIN_ROUNDS rounds (late joiners with fewer scored
+ *   rounds are left out)
+ * - Round scores re-checked against the scoring caps and totalScore
+ * - Entry id = room + final round start + uid → one entry per game per
+ *   player; boards are write-once per id, so a retried authority call is a no-op
+ * - Only comparable games: whole-map or region maps (a hand-picked il list is
+ *   a different game) with the default scoring profile
+ *
+ * Boards (leaderboards/{boardId}/{entryId}):
+ *   alltime, alltime_urban, alltime_ege, 2024-W09, 2024-W09_geo, ...
+ * Each board keeps the best LEADERBOARD_MAX_ENTRIES entries; pagination
+ * works on that ranked list.
+ *
+ * "Your rank" has to reach past the kept list, so every board also has:
+ * - leaderboardBests/{boardId}/{uid}: the player's best score, never trimmed
+ * - leaderboardCounts/{boardId}/s{score}: how many players have that best
+ * Rank = 1 + players whose best is higher. The counts are adjusted right
+ * after the best is raised; a raise that doesn't change the best (retry)
+ * adjusts nothing.
+ */
+
+import { Room, GameMode, RegionId, MAP_REGIONS, SCORING, SCORING_PROFILES, DEFAULT_SCORING_PROFILE } from "@/types";
+import { needsScoring } from "./roomStateMachine";
+
+// ==================== CONSTANTS ====================
+
+export const LEADERBOARD_MIN_ROUNDS = 3;
+export const LEADERBOARD_MAX_ENTRIES = 500;
+export const LEADERBOARD_PAGE_SIZE = 20;
+
+// Türkiye sabit UTC+3 — Günün Turu ile aynı gün sınırı
+const ISTANBUL_OFFSET_MS = 3 * 60 * 60 * 1000;
+const BOARD_ID_PATTERN = /^(alltime|\d{4}-W\d{2})(_[a-z_]+)?$/;
+
+// ==================== TYPES ====================
+
+export type LeaderboardScope = "alltime" | "weekly";
+
+/** At most one of mode / region — keeps the fan-out small */
+export type LeaderboardFilter =
+  | { type: "all" }
+  | { type: "mode"; mode: GameMode }
+  | { type: "region"; region: RegionId };
+
+/** leaderboards/{boardId}/{entryId} */
+export interface LeaderboardEntry {
+  uid: string;
+  name: string;
+  score: number;
+  rounds: number;
+  mode: GameMode;
+  region: RegionId | null;   // tek bölgelik haritada oynandıysa
+  roomId: string;
+  finishedAt: number;
+}
+
+export interface LeaderboardRanking extends LeaderboardEntry {
+  id: string;
+  rank: number;
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardRanking[];
+  page: number;
+  pageCount: number;
+  total: number;
+}
+
+/** leaderboardCounts/{boardId}: s{score} → players whose best is that score */
+export type ScoreCounts = Record<string, number>;
+
+/** A player's place among everyone who ever made the board */
+export interface PlayerStanding {
+  rank: number;
+  score: number;
+  players: number;
+}
+
+export interface LeaderboardStorage {
+  getBoard(boardId: string): Promise<Record<string, LeaderboardEntry>>;
+  /** Write-once merge + trim — returns how many entries were new */
+  addEntries(boardId: string, entries: Record<string, LeaderboardEntry>): Promise<number>;
+  getBest(boardId: string, uid: string): Promise<number | null>;
+  /** Keep the higher score — previous = the best it replaced, raised false = unchanged */
+  raiseBest(boardId: string, uid: string, score: number): Promise<{ raised: boolean; previous: number | null }>;
+  getCounts(boardId: string): Promise<ScoreCounts>;
+  /** Add deltas (s{score} → ±n) to the counts, dropping zeros */
+  adjustCounts(boardId: string, deltas: ScoreCounts): Promise<void>;
+}
+
+// ==================== BOARD IDS ====================
+
+/** ISO week of the Istanbul date, e.g. "2024-W09" — weeks start Monday 00:00 TRT */
+export function getWeekKey(now: number): string {
+  const local = new Date(now + ISTANBUL_OFFSET_MS);
+  const date = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()));
+  const weekday = date.getUTCDay() || 7;
+  // Thursday of this week decides the ISO year
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((date.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return `${date.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+export function getBoardId(scope: LeaderboardScope, filter: LeaderboardFilter, now: number): string {
+  const base = scope === "alltime" ? "alltime" : getWeekKey(now);
+  if (filter.type === "mode") return `${base}_${filter.mode}`;
+  if (filter.type === "region") return `${base}_${filter.region}`;
+  return base;
+}
+
+export function isBoardId(value: string): boolean {
+  return BOARD_ID_PATTERN.test(value);
+}
+
+/** Every board an entry is listed on */
+export function boardIdsForEntry(entry: LeaderboardEntry): string[] {
+  const filters: LeaderboardFilter[] = [{ type: "all" }, { type: "mode", mode: entry.mode }];
+  if (entry.region) filters.push({ type: "region", region: entry.region });
+  const scopes: LeaderboardScope[] = ["alltime", "weekly"];
+  return scopes.flatMap((scope) => filters.map((filter) => getBoardId(scope, filter, entry.finishedAt)));
+}
+
+// ==================== ENTRIES ====================
+
+/** Final round scored → the game's scores are final (status roundEnd or gameOver) */
+export function isFinalRoundScored(room: Room): boolean {
+  return (
+    room.currentRound >= room.totalRounds &&
+    (room.status === "roundEnd" || room.status === "gameOver") &&
+    !needsScoring(room)
+  );
+}
+
+function singleRegion(room: Room): RegionId | null {
+  const filter = room.mapFilter;
+  return filter?.type === "regions" && filter.regions.length === 1 && filter.regions[0] in MAP_REGIONS
+    ? filter.regions[0]
+    : null;
+}
+
+/** Whole map or regions, default scoring — province picks and other profiles score differently */
+function isRankedSetup(room: Room): boolean {
+  const profile = room.scoringProfile && room.scoringProfile in SCORING_PROFILES ? room.scoringProfile : DEFAULT_SCORING_PROFILE;
+  return room.mapFilter?.type !== "provinces" && profile === DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * One entry per eligible player, keyed by entry id. Players whose
+ * roundScores fail the checks are skipped (logged by the caller); games on
+ * an il list or another scoring profile aren't listed at all.
+ */
+export function buildLeaderboardEntries(room: Room): { entries: Record<string, LeaderboardEntry>; rejected: string[] } {
+  const entries: Record<string, LeaderboardEntry> = {};
+  const rejected: string[] = [];
+  if (!isFinalRoundScored(room) || room.totalRounds < LEADERBOARD_MIN_ROUNDS || !isRankedSetup(room)) {
+    return { entries, rejected };
+  }
+
+  const finishedAt = room.lastActivityAt || room.roundStartTime || 0;
+  const gameKey = `${room.id}_${room.roundStartTime || 0}`;
+  Object.entries(room.players || {}).forEach(([uid, player]) => {
+    const scores: number[] = Array.isArray(player.roundScores) ? player.roundScores : Object.values(player.roundScores || {});
+    const valid =
+      scores.length >= LEADERBOARD_MIN_ROUNDS &&
+      scores.length <= room.totalRounds &&
+      scores.every((s) => Number.isInteger(s) && s >= 0 && s <= SCORING.maxScore);
+    const score = scores.reduce((sum, s) => sum + s, 0);
+    if (!valid || score !== (player.totalScore || 0)) {
+      rejected.push(uid);
+      return;
+    }
+    entries[`${gameKey}_${uid}`] = {
+      uid,
+      name: (player.name || "Oyuncu").slice(0, 20),
+      score,
+      rounds: scores.length,
+      mode: room.gameMode,
+      region: singleRegion(room),
+      roomId: room.id,
+      finishedAt,
+    };
+  });
+  return { entries, rejected };
+}
+
+/**
+ * Board after adding entries: existing ids are never overwritten, then
+ * trimmed to the best LEADERBOARD_MAX_ENTRIES. null = nothing new.
+ */
+export function mergeIntoBoard(
+  board: Record<string, LeaderboardEntry> | null,
+  entries: Record<string, LeaderboardEntry>
+): { board: Record<string, LeaderboardEntry>; added: number } | null {
+  const current = board || {};
+  const fresh = Object.keys(entries).filter((id) => !(id in current));
+  if (fresh.length === 0) return null;
+
+  const merged: Record<string, LeaderboardEntry> = { ...current };
+  fresh.forEach((id) => { merged[id] = entries[id]; });
+  const kept = rankLeaderboard(merged).slice(0, LEADERBOARD_MAX_ENTRIES);
+  const trimmed: Record<string, LeaderboardEntry> = {};
+  kept.forEach(({ id }) => { trimmed[id] = merged[id]; });
+  return { board: trimmed, added: fresh.filter((id) => id in trimmed).length };
+}
+
+/** Fan a finished game out to its boards — returns the number of new entries */
+export async function recordFinishedGame(room: Room, storage: LeaderboardStorage): Promise<number> {
+  const { entries, rejected } = buildLeaderboardEntries(room);
+  if (rejected.length > 0) {
+    console.warn(`[Leaderboard] room=${room.id} rejected ${rejected.length} players`);
+  }
+
+  const byBoard = new Map<string, Record<string, LeaderboardEntry>>();
+  Object.entries(entries).forEach(([id, entry]) => {
+    boardIdsForEntry(entry).forEach((boardId) => {
+      byBoard.set(boardId, { ...(byBoard.get(boardId) || {}), [id]: entry });
+    });
+  });
+
+  let added = 0;
+  for (const [boardId, boardEntries] of Array.from(byBoard.entries())) {
+    const count = await storage.addEntries(boardId, boardEntries);
+    if (boardId === "alltime") added = count;
+    await recordBests(storage, boardId, boardEntries);
+  }
+  return added;
+}
+
+/** Raise each player's best on the board, then move them between score counts */
+async function recordBests(storage: LeaderboardStorage, boardId: string, entries: Record<string, LeaderboardEntry>): Promise<void> {
+  const best = new Map<string, number>();
+  Object.values(entries).forEach(({ uid, score }) => best.set(uid, Math.max(score, best.get(uid) ?? 0)));
+
+  const deltas: ScoreCounts = {};
+  const shift = (score: number, by: number) => {
+    const key = scoreCountKey(score);
+    deltas[key] = (deltas[key] || 0) + by;
+  };
+  for (const [uid, score] of Array.from(best.entries())) {
+    const { raised, previous } = await storage.raiseBest(boardId, uid, score);
+    if (!raised) continue;
+    if (previous !== null) shift(previous, -1);
+    shift(score, 1);
+  }
+  if (Object.values(deltas).some((n) => n !== 0)) await storage.adjustCounts(boardId, deltas);
+}
+
+// ==================== RANKING ====================
+
+/** Score desc, earlier finish wins ties */
+export function rankLeaderboard(board: Record<string, LeaderboardEntry>): LeaderboardRanking[] {
+  return Object.entries(board)
+    .map(([id, entry]) => ({ ...entry, id }))
+    .sort((a, b) => b.score - a.score || a.finishedAt - b.finishedAt || a.id.localeCompare(b.id))
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+}
+
+export function pageLeaderboard(ranked: LeaderboardRanking[], page: number, pageSize: number = LEADERBOARD_PAGE_SIZE): LeaderboardPage {
+  const pageCount = Math.max(1, Math.ceil(ranked.length / pageSize));
+  const current = Math.min(Math.max(0, Math.floor(page)), pageCount - 1);
+  return {
+    entries: ranked.slice(current * pageSize, (current + 1) * pageSize),
+    page: current,
+    pageCount,
+    total: ranked.length,
+  };
+}
+
+/** Best entry of this player on the board (null = not in the kept top list) */
+export function findPlayerRank(ranked: LeaderboardRanking[], uid: string): LeaderboardRanking | null {
+  return ranked.find((entry) => entry.uid === uid) || null;
+}
+
+// ==================== STANDINGS ====================
+
+/** Counts key — prefixed so RTDB never turns the node into an array */
+export function scoreCountKey(score: number): string {
+  return `s${score}`;
+}
+
+/** Counts after deltas; zero (or negative) buckets are dropped */
+export function applyCountDeltas(counts: ScoreCounts | null, deltas: ScoreCounts): ScoreCounts {
+  const next: ScoreCounts = { ...(counts || {}) };
+  Object.entries(deltas).forEach(([key, delta]) => {
+    const count = (next[key] || 0) + delta;
+    if (count > 0) next[key] = count;
+    else delete next[key];
+  });
+  return next;
+}
+
+/** Rank among all players: 1 + players with a higher best (equal bests share a rank) */
+export function standingFromCounts(counts: ScoreCounts, score: number): PlayerStanding {
+  let ahead = 0;
+  let players = 0;
+  Object.entries(counts).forEach(([key, count]) => {
+    players += count;
+    if (Number(key.slice(1)) > score) ahead += count;
+  });
+  return { rank: ahead + 1, score, players: Math.max(players, ahead + 1) };
+}
+
+/** The player's standing on a board — null = never made it */
+export async function getPlayerStanding(storage: LeaderboardStorage, boardId: string, uid: string): Promise<PlayerStanding | null> {
+  const best = await storage.getBest(boardId, uid);
+  if (best === null) return null;
+  return standingFromCounts(await storage.getCounts(boardId), best);
+}
@@ -7,6 +7,7 @@
  * 3. Difficulty mix targeting (15% easy, 55% medium, 30% hard)
  * 4. Province bag rotation (URBAN-ONLY provinces, Fisher-Yates, boundary guard)
  * 5. Dynamic integration: heavy-player detection + repeat-risk assessment
+ * 6. Map filter: Room.mapFilter narrows the pool + province bag (mapFilter.ts)
  *
  * HARD INVARIANTS:
  * - Province back-to-back = 0 (urban mode, including fallback)
@@ -20,16 +21,63 @@
  * - recordDynamicSelection(): records dynamic packages in anti-repeat state
  * - getLastProvince(): exposes lastProvince for dynamic generator
  * - isHeavyPlayer(): detects heavy session usage
+ *
+ * MAP FILTER (v5):
+ * - setMapFilter(): once per round, before selection; clears the last notice
+ * - Too narrow for anti-repeat → back-to-back il allowed inside the map (narrow)
+ * - Nothing inside the map → this round from all of Türkiye (fallback)
+ * - getMapNotice(): what happened, for Room.mapNotice
+ *
+ * SEEDED DRAWS (v6):
+ * - shuffle + difficulty tier read the shared source (utils/random nextRandom)
+ * - drawSeededPackages(): isolated, deterministic N-round draw (Günün Turu);
+ *   same rules (mix, anti-repeat, province bag), live game state untouched
+ *
+ * CALIBRATED TIERS (v7):
+ * - setDifficultyCalibration(): observed tiers from real scores
+ *   (difficultyCalibration.ts) override the heuristic tier per package id
+ * - Seeded draws ignore calibration — Günün Turu must match on every device,
+ *   whether or not the calibration has loaded there yet
+ *
+ * ADAPTIVE MIX (v8):
+ * - setDifficultyMix(): once per round, the room's tier mix
+ *   (adaptiveDifficulty.ts); null = DIFFICULTY_MIX
+ * - Seeded draws always use DIFFICULTY_MIX
+ *
+ * DATA PACKS (v9):
+ * - Packages come from the installed packs (panoPacks.ts), not the bundle;
+ *   enrichment is rebuilt whenever a pack is installed (revision change)
+ * - A mode whose pack isn't loaded has an empty pool — callers loadPack first
+ *
+ * QUARANTINE (v10):
+ * - setQuarantine(): packages players reported past the threshold
+ *   (locationReports.ts) are skipped — by id, or by a quarantined pano0 panoId
+ * - Isolated draws (seeded, room rounds) use it only when passed as an
+ *   option — the round authorities and the Günün Turu pin pass the server's
+ *
+ * ROOM ROUNDS (v11):
+ * - drawRoundPackage(): one multiplayer round on an isolated engine, run by
+ *   the server round authority (roundAuthority.ts) — the room's map, mix,
+ *   calibration, quarantine and played packages come in as options
+ * - drawSeededPackages() takes the same options; calibration, mix and
+ *   quarantine stay off unless passed
  */
 
-import { PanoPackage, GameMode } from "@/types";
-import { URBAN_PACKAGES, GEO_PACKAGES } from "@/data/panoPackages";
+import { PanoPackage, GameMode, MapFilter } from "@/types";
+import { getLoadedPackages, getPacksRevision } from "./panoPacks";
 import { TURKEY_CITIES } from "./dynamicPanoService";
+import { matchesMapFilter, mapFilterKey, MAP_NOTICES } from "./mapFilter";
+import { RandomSource, nextRandom, getRandomSource, setRandomSource, createSeededRandom } from "@/utils/random";
+import type { DifficultyCalibration } from "./difficultyCalibration";
+import type { Quarantine } from "./locationReports";
 
 // ==================== TYPES ====================
 
 export type Difficulty = "easy" | "medium" | "hard";
 
+/** Tier shares for pickDifficultyTier — sum to 1 */
+export type DifficultyMix = Record<Difficulty, number>;
+
 export interface EnrichedPackage {
   pkg: PanoPackage;
   province: string;          // Extracted province name (e.g., "İstanbul")
@@ -53,7 +101,7 @@ interface AntiRepeatState {
 
 // ==================== CONSTANTS ====================
 
-const DIFFICULTY_MIX = { easy: 0.15, medium: 0.55, hard: 0.30 };
+export const DIFFICULTY_MIX: DifficultyMix = { easy: 0.15, medium: 0.55, hard: 0.30 };
 const GRID_PRECISION = 3;  // 3 decimals ≈ 111m cells
 // Max province attempts per selection = urbanProvinceList.length
 // Try each province at most once, then fall through to absolute fallback.
@@ -79,6 +127,7 @@ const PANOID_HOTSPOT_THRESHOLD = 6;  // For reporting; NOT used for banning
 
 let enrichedUrbanCache: EnrichedPackage[] = [];
 let enrichedGeoCache: EnrichedPackage[] = [];
+let enrichedRevision = -1;
 let enrichmentReportGenerated = false;
 
 // Province bag state — URBAN-ONLY provinces (only those with packages)
@@ -96,6 +145,19 @@ const antiRepeat: AntiRepeatState = {
   lastProvince: null,
 };
 
+// Calibrated tiers by package id (null = heuristic tiers only)
+let calibratedTiers: Record<string, Difficulty> | null = null;
+
+// Room's tier mix for this round (null = DIFFICULTY_MIX)
+let difficultyMix: DifficultyMix | null = null;
+
+// Reported-broken packages (null = none)
+let quarantined: { ids: Set<string>; panoIds: Set<string> } | null = null;
+
+// Map filter state (null = tüm Türkiye)
+let mapFilter: MapFilter | null = null;
+let mapNotice: string | null = null;
+
 // Note: staticUsedIds removed in v3 hardening. Anti-repeat sliding windows
 // now handle all dedup. This prevents pool exhaustion deadlocks with 86 packages.
 
@@ -235,13 +297,15 @@ function enrichPackages(packages: PanoPackage[], mode: GameMode): EnrichedPackag
 }
 
 /**
- * Initialize enrichment caches. Call once at startup.
+ * Build enrichment caches from the installed packs; rebuilt when a pack is
+ * installed or replaced.
  */
 function ensureEnrichment(): void {
-  if (enrichedUrbanCache.length > 0 && enrichedGeoCache.length > 0) return;
+  if (enrichedRevision === getPacksRevision()) return;
+  enrichedRevision = getPacksRevision();
 
-  enrichedUrbanCache = enrichPackages(URBAN_PACKAGES, "urban");
-  enrichedGeoCache = enrichPackages(GEO_PACKAGES, "geo");
+  enrichedUrbanCache = enrichPackages(getLoadedPackages("urban"), "urban");
+  enrichedGeoCache = enrichPackages(getLoadedPackages("geo"), "geo");
 
   // Build urban-only province list from non-banned enriched packages
   const provSet = new Set<string>();
@@ -418,7 +482,7 @@ function recordSelection(ep: EnrichedPackage): void {
 function shuffle<T>(array: T[]): T[] {
   const arr = [...array];
   for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(nextRandom() * (i + 1));
     [arr[i], arr[j]] = [arr[j], arr[i]];
   }
   return arr;
@@ -433,7 +497,7 @@ function shuffle<T>(array: T[]): T[] {
 function fillProvinceBag(): void {
   ensureEnrichment();
 
-  const shuffled = shuffle([...urbanProvinceList]);
+  const shuffled = shuffle([...mapProvinceList()]);
 
   // Boundary guard: if first province == last province of previous bag, swap it
   if (lastBagProvince && shuffled.length > 1 && shuffled[0] === lastBagProvince) {
@@ -449,6 +513,18 @@ function fillProvinceBag(): void {
   console.log(`[ProvinceBag v3] Bag refilled with ${provinceBag.length} urban provinces`);
 }
 
+/**
+ * Urban provinces inside the map filter. A map with no urban packages keeps
+ * the full list — selection then falls back (MAP_NOTICES.fallback).
+ */
+function mapProvinceList(): string[] {
+  if (!mapFilter) return urbanProvinceList;
+  const inside = urbanProvinceList.filter(province =>
+    enrichedUrbanCache.some(ep => ep.province === province && isAvailable(ep) && inMap(ep))
+  );
+  return inside.length > 0 ? inside : urbanProvinceList;
+}
+
 /**
  * Pop next province from bag. Refills when empty.
  * HARD: never returns the same province as lastProvince (antiRepeat.lastProvince).
@@ -486,15 +562,25 @@ function popProvince(): string {
 // ==================== PART 3: URBAN DIFFICULTY MIX ====================
 
 /**
- * Pick a difficulty tier based on weighted random (15/55/30).
+ * Pick a difficulty tier based on weighted random (15/55/30, or the room's
+ * adaptive mix when one is set).
  */
 function pickDifficultyTier(): Difficulty {
-  const r = Math.random();
-  if (r < DIFFICULTY_MIX.easy) return "easy";
-  if (r < DIFFICULTY_MIX.easy + DIFFICULTY_MIX.medium) return "medium";
+  const mix = difficultyMix || DIFFICULTY_MIX;
+  const r = nextRandom();
+  if (r < mix.easy) return "easy";
+  if (r < mix.easy + mix.medium) return "medium";
   return "hard";
 }
 
+/**
+ * Tier used for selection: calibrated (observed) tier when the package has
+ * one, the enrichment heuristic otherwise.
+ */
+function tierOf(ep: EnrichedPackage): Difficulty {
+  return calibratedTiers?.[ep.pkg.id] ?? ep.difficulty;
+}
+
 /**
  * Select a package for given candidates and difficulty tier.
  * Returns null if no valid candidate found.
@@ -505,7 +591,7 @@ function selectFromTier(
   tier: Difficulty,
   relaxProvince: boolean = false
 ): EnrichedPackage | null {
-  const tierCandidates = candidates.filter(ep => ep.difficulty === tier);
+  const tierCandidates = candidates.filter(ep => tierOf(ep) === tier);
   const shuffled = shuffle(tierCandidates);
 
   for (const ep of shuffled) {
@@ -569,7 +655,7 @@ function selectUrbanPackage(): EnrichedPackage | null {
 
   // All non-banned urban packages are always in the pool.
   // Anti-repeat sliding windows handle dedup — no separate staticUsedIds needed.
-  const allAvailable = enrichedUrbanCache.filter(ep => !ep.bannedUrban);
+  const allAvailable = enrichedUrbanCache.filter(ep => isAvailable(ep) && inMap(ep));
   if (allAvailable.length === 0) return null;
 
   // Last-selected values for back-to-back guards
@@ -590,7 +676,7 @@ function selectUrbanPackage(): EnrichedPackage | null {
   // most provinces lack packages of that tier, try finding a matching
   // package across ALL provinces first (still with province back-to-back guard).
   // This ensures the 15/55/30 mix is achievable despite uneven tier distribution.
-  const tierPackages = allAvailable.filter(ep => ep.difficulty === targetTier);
+  const tierPackages = allAvailable.filter(ep => tierOf(ep) === targetTier);
   if (tierPackages.length > 0) {
     const shuffledTier = shuffle(tierPackages);
     for (const ep of shuffledTier) {
@@ -614,7 +700,7 @@ function selectUrbanPackage(): EnrichedPackage | null {
 
   // PROVINCE-FIRST FALLBACK: If no matching tier found across all provinces,
   // use province bag rotation and accept any difficulty
-  const maxAttempts = Math.max(urbanProvinceList.length, 48);
+  const maxAttempts = Math.max(mapProvinceList().length, 48);
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     const targetProvince = popProvince();
 
@@ -696,7 +782,7 @@ function selectUrbanPackage(): EnrichedPackage | null {
 function selectGeoPackage(): EnrichedPackage | null {
   ensureEnrichment();
 
-  const available = enrichedGeoCache.filter(ep => !ep.bannedUrban);
+  const available = enrichedGeoCache.filter(ep => isAvailable(ep) && inMap(ep));
   if (available.length === 0) return null;
 
   const shuffled = shuffle(available);
@@ -722,6 +808,116 @@ function selectGeoPackage(): EnrichedPackage | null {
   return null;
 }
 
+// ==================== MAP FILTER ====================
+
+function inMap(ep: EnrichedPackage): boolean {
+  return matchesMapFilter(mapFilter, ep.province, ep.pkg.region);
+}
+
+/** Selectable: not blacklisted in the pack, not quarantined by reports */
+function isAvailable(ep: EnrichedPackage): boolean {
+  if (ep.bannedUrban) return false;
+  return !quarantined || (!quarantined.ids.has(ep.pkg.id) && !quarantined.panoIds.has(ep.pkg.pano0.panoId));
+}
+
+/**
+ * Run a selector inside the map; degrade gracefully when the map is too small.
+ * 1. narrow:   relaxed anti-repeat inside the map (back-to-back il allowed,
+ *              only the previous pano is avoided)
+ * 2. fallback: map has no candidates at all → selector over all of Türkiye
+ */
+function selectWithinMap(
+  select: () => EnrichedPackage | null,
+  pool: () => EnrichedPackage[]
+): EnrichedPackage | null {
+  const selected = select();
+  if (selected || !mapFilter) return selected;
+
+  const candidates = shuffle(pool().filter(inMap));
+  if (candidates.length > 0) {
+    const lastPanoId = antiRepeat.recentPanoIds.length > 0
+      ? antiRepeat.recentPanoIds[antiRepeat.recentPanoIds.length - 1]
+      : null;
+    const narrow =
+      candidates.find(ep => !checkAntiRepeat(ep, true)) ||
+      candidates.find(ep => ep.pkg.pano0.panoId !== lastPanoId) ||
+      candidates[0];
+    console.log(`[LocationEngine] Narrow map — relaxed anti-repeat: ${narrow.pkg.id}`);
+    mapNotice = MAP_NOTICES.narrow;
+    recordSelection(narrow);
+    return narrow;
+  }
+
+  const savedFilter = mapFilter;
+  mapFilter = null;
+  try {
+    const fallback = select();
+    if (fallback) {
+      console.log(`[LocationEngine] Map has no candidates — fallback to all of Türkiye: ${fallback.pkg.id}`);
+      mapNotice = MAP_NOTICES.fallback;
+    }
+    return fallback;
+  } finally {
+    mapFilter = savedFilter;
+  }
+}
+
+/**
+ * Set the room's map for the next selection. Call once per round: it also
+ * clears the previous round's notice. A changed map restarts the province bag.
+ */
+export function setMapFilter(filter: MapFilter | null | undefined): void {
+  const next = filter || null;
+  mapNotice = null;
+  if (mapFilterKey(next) === mapFilterKey(mapFilter)) return;
+  mapFilter = next;
+  provinceBag = [];
+  lastBagProvince = null;
+  console.log(`[LocationEngine] Map filter: ${mapFilterKey(next)}`);
+}
+
+/**
+ * Observed tiers from the calibration job (null = back to heuristic tiers).
+ * Unknown package ids are ignored.
+ */
+export function setDifficultyCalibration(calibration: DifficultyCalibration | null): void {
+  calibratedTiers = calibration?.tiers ? { ...calibration.tiers } : null;
+  const count = calibratedTiers ? Object.keys(calibratedTiers).length : 0;
+  console.log(`[LocationEngine] Difficulty calibration: ${count} packages`);
+}
+
+/**
+ * Reported-broken packages from locationReports (null = none quarantined).
+ */
+export function setQuarantine(quarantine: Quarantine | null): void {
+  const entries = Object.entries(quarantine || {});
+  quarantined = entries.length > 0
+    ? { ids: new Set(entries.map(([id]) => id)), panoIds: new Set(entries.map(([, entry]) => entry.panoId)) }
+    : null;
+  console.log(`[LocationEngine] Quarantine: ${entries.length} packages`);
+}
+
+/**
+ * The room's tier mix for the next selection (null = DIFFICULTY_MIX).
+ * Call once per round, like setMapFilter.
+ */
+export function setDifficultyMix(mix: DifficultyMix | null | undefined): void {
+  difficultyMix = mix ? { ...mix } : null;
+}
+
+export function getDifficultyMix(): DifficultyMix {
+  return { ...(difficultyMix || DIFFICULTY_MIX) };
+}
+
+export function getMapFilter(): MapFilter | null {
+  return mapFilter;
+}
+
+/** Fallback notice of the last selection (null = map was honoured normally) */
+export function getMapNotice(): string | null {
+  return mapNotice;
+}
+
 // ==================== DYNAMIC INTEGRATION ====================
 
 /**
@@ -753,7 +949,7 @@ export function wouldStaticRepeatTooSoon(province: string): boolean {
   ensureEnrichment();
 
   const candidates = enrichedUrbanCache.filter(ep =>
-    ep.province === province && !ep.bannedUrban
+    ep.province === province && isAvailable(ep)
   );
 
   if (candidates.length === 0) return true; // No static packages at all
@@ -845,7 +1041,7 @@ export function selectStaticPackage(mode: GameMode, preferredProvince?: string):
       }
 
       const candidates = enrichedUrbanCache.filter(ep =>
-        ep.province === preferredProvince && !ep.bannedUrban
+        ep.province === preferredProvince && isAvailable(ep) && inMap(ep)
       );
 
       if (candidates.length > 0) {
@@ -875,7 +1071,7 @@ export function selectStaticPackage(mode: GameMode, preferredProvince?: string):
     }
 
     // No preferred province — use full selection engine
-    const selected = selectUrbanPackage();
+    const selected = selectWithinMap(selectUrbanPackage, () => enrichedUrbanCache.filter(ep => isAvailable(ep)));
     if (selected) {
       return selected.pkg;
     }
@@ -883,7 +1079,7 @@ export function selectStaticPackage(mode: GameMode, preferredProvince?: string):
   }
 
   // Geo mode
-  const selected = selectGeoPackage();
+  const selected = selectWithinMap(selectGeoPackage, () => enrichedGeoCache.filter(ep => isAvailable(ep)));
   if (selected) {
     return selected.pkg;
   }
@@ -912,6 +1108,7 @@ export function resetLocationEngine(): void {
   provinceBag = [];
   lastBagProvince = null;
   sessionRoundCount = 0;
+  mapNotice = null;
 
   console.log("[LocationEngine v4] Reset complete");
 }
@@ -939,6 +1136,160 @@ export function getUrbanProvinceList(): readonly string[] {
   return urbanProvinceList;
 }
 
+// ==================== ISOLATED DRAWS ====================
+
+interface EngineSnapshot {
+  antiRepeat: AntiRepeatState;
+  provinceBag: string[];
+  lastBagProvince: string | null;
+  sessionRoundCount: number;
+  mapFilter: MapFilter | null;
+  mapNotice: string | null;
+  calibratedTiers: Record<string, Difficulty> | null;
+  difficultyMix: DifficultyMix | null;
+  quarantined: { ids: Set<string>; panoIds: Set<string> } | null;
+  random: RandomSource;
+}
+
+function snapshotEngineState(): EngineSnapshot {
+  return {
+    antiRepeat: {
+      recentPackageIds: [...antiRepeat.recentPackageIds],
+      recentPanoIds: [...antiRepeat.recentPanoIds],
+      recentLocationHashes: [...antiRepeat.recentLocationHashes],
+      recentClusterIds: [...antiRepeat.recentClusterIds],
+      recentProvinces: [...antiRepeat.recentProvinces],
+      lastProvince: antiRepeat.lastProvince,
+    },
+    provinceBag: [...provinceBag],
+    lastBagProvince,
+    sessionRoundCount,
+    mapFilter,
+    mapNotice,
+    calibratedTiers,
+    difficultyMix,
+    quarantined,
+    random: getRandomSource(),
+  };
+}
+
+function restoreEngineState(saved: EngineSnapshot): void {
+  Object.assign(antiRepeat, saved.antiRepeat);
+  provinceBag = saved.provinceBag;
+  lastBagProvince = saved.lastBagProvince;
+  sessionRoundCount = saved.sessionRoundCount;
+  mapFilter = saved.mapFilter;
+  mapNotice = saved.mapNotice;
+  calibratedTiers = saved.calibratedTiers;
+  difficultyMix = saved.difficultyMix;
+  quarantined = saved.quarantined;
+  setRandomSource(saved.random);
+}
+
+export interface IsolatedDrawOptions {
+  mapFilter?: MapFilter | null;
+  difficultyMix?: DifficultyMix | null;
+  calibration?: DifficultyCalibration | null;
+  quarantine?: Quarantine | null;
+  /** Package ids already played, oldest first — primes the anti-repeat window */
+  history?: string[];
+}
+
+/** Fresh engine driven by `source` with only `options` applied */
+function prepareIsolatedEngine(mode: GameMode, source: RandomSource, options: IsolatedDrawOptions): void {
+  resetLocationEngine();
+  mapFilter = options.mapFilter || null;
+  calibratedTiers = options.calibration?.tiers ? { ...options.calibration.tiers } : null;
+  difficultyMix = options.difficultyMix ? { ...options.difficultyMix } : null;
+  quarantined = null;
+  if (options.quarantine) setQuarantine(options.quarantine);
+  setRandomSource(source);
+  const enriched = getEnrichedPackages(mode);
+  (options.history || []).forEach((id) => {
+    const played = enriched.find((ep) => ep.pkg.id === id);
+    if (played) recordSelection(played);
+  });
+}
+
+/**
+ * Run `work` on a fresh engine driven by `source` with only `options` applied.
+ * The live game's anti-repeat window, bag, map filter, calibration and
+ * quarantine are restored afterwards.
+ */
+function withIsolatedEngine<T>(mode: GameMode, source: RandomSource, options: IsolatedDrawOptions, work: () => T): T {
+  const saved = snapshotEngineState();
+  try {
+    prepareIsolatedEngine(mode, source, options);
+    return work();
+  } finally {
+    restoreEngineState(saved);
+  }
+}
+
+let isolatedQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * withIsolatedEngine for work that awaits (dynamic generation looks up
+ * Street View between draws). The engine is module state, so these run one
+ * at a time per process; synchronous isolated draws in between restore
+ * whatever they found.
+ */
+export function withIsolatedEngineAsync<T>(
+  mode: GameMode,
+  source: RandomSource,
+  options: IsolatedDrawOptions,
+  work: () => Promise<T>
+): Promise<T> {
+  const run = isolatedQueue.then(async () => {
+    const saved = snapshotEngineState();
+    try {
+      prepareIsolatedEngine(mode, source, options);
+      return await work();
+    } finally {
+      restoreEngineState(saved);
+    }
+  });
+  isolatedQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Draw `count` static packages from a fresh engine driven by `source`.
+ * Same seed → same packages on every device (dataset permitting).
+ */
+export function drawSeededPackages(
+  mode: GameMode,
+  count: number,
+  source: RandomSource,
+  options: IsolatedDrawOptions = {}
+): PanoPackage[] {
+  return withIsolatedEngine(mode, source, options, () => {
+    const packages: PanoPackage[] = [];
+    for (let i = 0; i < count; i++) {
+      const pkg = selectStaticPackage(mode);
+      if (!pkg) break;
+      packages.push(pkg);
+    }
+    return packages;
+  });
+}
+
+/**
+ * One room round, drawn server-side by the round authority: the room's map,
+ * tier mix and earlier rounds (history) applied on an isolated engine.
+ * Returns the package with the map notice of that selection.
+ */
+export function drawRoundPackage(
+  mode: GameMode,
+  source: RandomSource,
+  options: IsolatedDrawOptions = {}
+): { panoPackage: PanoPackage; mapNotice: string | null } | null {
+  return withIsolatedEngine(mode, source, options, () => {
+    const panoPackage = selectStaticPackage(mode);
+    return panoPackage ? { panoPackage, mapNotice } : null;
+  });
+}
+
 // ==================== SIMULATION v3 (for testing) ====================
 
 export interface SimulationResult {
@@ -963,22 +1314,14 @@ export interface SimulationResult {
 /**
  * Run a simulation of N draws and return detailed statistics.
  * This is for testing/validation only — not called in production.
+ * seed: reproducible run (same seed → same draws); omitted → current source.
  */
-export function runSimulation(draws: number = 1000): SimulationResult {
-  // Save state
-  const savedAntiRepeat = {
-    recentPackageIds: [...antiRepeat.recentPackageIds],
-    recentPanoIds: [...antiRepeat.recentPanoIds],
-    recentLocationHashes: [...antiRepeat.recentLocationHashes],
-    recentClusterIds: [...antiRepeat.recentClusterIds],
-    recentProvinces: [...antiRepeat.recentProvinces],
-    lastProvince: antiRepeat.lastProvince,
-  };
-  const savedBag = [...provinceBag];
-  const savedLastBag = lastBagProvince;
+export function runSimulation(draws: number = 1000, seed?: number | string): SimulationResult {
+  const saved = snapshotEngineState();
 
   resetLocationEngine();
   ensureEnrichment();
+  if (seed !== undefined) setRandomSource(createSeededRandom(seed));
 
   const stats: SimulationResult = {
     totalDraws: draws,
@@ -1013,7 +1356,7 @@ export function runSimulation(draws: number = 1000): SimulationResult {
     }
 
     stats.totalSuccessful++;
-    stats.difficultyDist[result.difficulty]++;
+    stats.difficultyDist[tierOf(result)]++;
     stats.uniqueProvinces.add(result.province);
 
     if (result.bannedUrban) stats.bannedSelections++;
@@ -1055,15 +1398,7 @@ export function runSimulation(draws: number = 1000): SimulationResult {
   stats.rejectionCount = draws - stats.totalSuccessful;
   stats.rejectionRate = stats.attemptCount > 0 ? stats.rejectionCount / stats.attemptCount : 0;
 
-  // Restore state
-  antiRepeat.recentPackageIds = savedAntiRepeat.recentPackageIds;
-  antiRepeat.recentPanoIds = savedAntiRepeat.recentPanoIds;
-  antiRepeat.recentLocationHashes = savedAntiRepeat.recentLocationHashes;
-  antiRepeat.recentClusterIds = savedAntiRepeat.recentClusterIds;
-  antiRepeat.recentProvinces = savedAntiRepeat.recentProvinces;
-  antiRepeat.lastProvince = savedAntiRepeat.lastProvince;
-  provinceBag = savedBag;
-  lastBagProvince = savedLastBag;
+  restoreEngineState(saved);
 
   return stats;
 }
@@ -1082,6 +1417,7 @@ export const _testExports = {
   popProvince,
   pickDifficultyTier,
   selectFromTier,
+  tierOf,
   selectAnyTier,
   selectUrbanPackage,
   selectGeoPackage,
@@ -0,0 +1,246 @@
+/**
+ * Location Reports — players flag broken panos; enough reports quarantine the package
+ *
+ * A pano that is indoor, black, outside Türkiye or shows a sign naming the
+ * city ruins the round for everyone. The report button in GameScreen sends one
+ * report per player per package:
+ *
+ *   locationReports/{packageId}/{uid}   written once by the server, never
+ *                                       readable by clients
+ *   reportQuota/{uid}                   the reporter's hourly count, server-only
+ *   quarantine/{packageId}              public read, server-only write
+ *
+ * The package id is only revealed at roundEnd (roomStateMachine.revealAnswer),
+ * so a report made during the round is sent when the round ends.
+ *
+ * Reports go through app/api/report-location with the player's ID token
+ * (submitReport): at most REPORT_QUOTA per hour and player, and an anonymous
+ * account only for a package it was dealt (its solo round or a round of its
+ * room) — throwaway sign-ins can't quarantine what they never saw. The route
+ * then counts the stored reports and quarantines the package at
+ * QUARANTINE_THRESHOLD distinct reporters.
+ *
+ * Clients load the quarantine at startup (loadQuarantine): the selection
+ * engine skips quarantined packages (by id or pano0 panoId) and the dynamic
+ * generator's persistent history rejects quarantined panoIds.
+ */
+
+import { RATE_LIMITS } from "@/config/production";
+import { RoomStorageAdapter, RoundAnswerStorage, TransactionOutcome, TransactionUpdater } from "./roomStorage";
+import type { SoloRoundStorage } from "./soloRoundAuthority";
+import { setQuarantine } from "./locationEngine";
+import { setQuarantinedPanoIds } from "./persistentHistory";
+
+// ==================== CONSTANTS ====================
+
+export const REPORT_ENDPOINT = "/api/report-location";
+
+/** Distinct reporters that quarantine a package */
+export const QUARANTINE_THRESHOLD = 3;
+
+/** Reports per player and window, checked server-side (the client limiter only saves requests) */
+export const REPORT_QUOTA = RATE_LIMITS.LOCATION_REPORTS_PER_HOUR;
+export const REPORT_QUOTA_WINDOW_MS = 60 * 60 * 1000;
+
+export type ReportReason = "indoor" | "black_screen" | "wrong_country" | "giveaway_sign" | "other";
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  indoor: "İç mekân",
+  black_screen: "Siyah / bozuk görüntü",
+  wrong_country: "Türkiye dışında",
+  giveaway_sign: "Şehri ele veren tabela",
+  other: "Başka bir sorun",
+};
+
+const PACKAGE_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+const ROOM_ID_PATTERN = /^[A-Z0-9]{6}$/;
+const PANO_ID_MAX = 200;
+
+// ==================== TYPES ====================
+
+/** locationReports/{packageId}/{uid} */
+export interface LocationReport {
+  reason: ReportReason;
+  panoId: string;
+  at: number;
+}
+
+/** quarantine/{packageId} */
+export interface QuarantineEntry {
+  panoId: string;
+  at: number;
+  reports: number;
+  reasons: Partial<Record<ReportReason, number>>;
+}
+
+export type Quarantine = Record<string, QuarantineEntry>;
+
+/** reportQuota/{uid} — reports sent in the current window */
+export interface ReportQuota {
+  windowStart: number;
+  count: number;
+}
+
+/** Body of POST /api/report-location */
+export interface ReportRequest {
+  packageId: string;
+  panoId: string;
+  reason: ReportReason;
+  /** Multiplayer room the package was played in (null = solo) */
+  roomId: string | null;
+}
+
+export type ReportOutcome =
+  | { ok: true; quarantined: boolean; reports: number }
+  | { ok: false; reason: string };
+
+/** Where the server looks up whether a player was dealt a package */
+export type PlayHistorySources = Pick<SoloRoundStorage, "getSoloDeal"> &
+  Pick<RoomStorageAdapter, "getRoom"> &
+  Pick<RoundAnswerStorage, "getRoundAnswer">;
+
+export interface ReportStorage {
+  /** Write-once per player and package; false when already reported */
+  addReport(packageId: string, uid: string, report: LocationReport): Promise<boolean>;
+  getReports(packageId: string): Promise<Record<string, LocationReport>>;
+  getQuarantine(): Promise<Quarantine>;
+  transactQuarantine(
+    packageId: string,
+    updater: TransactionUpdater<QuarantineEntry>
+  ): Promise<TransactionOutcome<QuarantineEntry>>;
+  transactQuota(uid: string, updater: TransactionUpdater<ReportQuota>): Promise<TransactionOutcome<ReportQuota>>;
+}
+
+// ==================== REPORTING ====================
+
+export function isValidPackageId(packageId: unknown): packageId is string {
+  return typeof packageId === "string" && PACKAGE_ID_PATTERN.test(packageId);
+}
+
+export async function reportLocation(
+  storage: ReportStorage,
+  uid: string,
+  packageId: string,
+  panoId: string,
+  reason: ReportReason,
+  now: number
+): Promise<{ ok: true } | { ok: false; reason: string }> {
+  if (!isValidPackageId(packageId)) return { ok: false, reason: "invalid packageId" };
+  if (!panoId || panoId.length > PANO_ID_MAX) return { ok: false, reason: "invalid panoId" };
+  if (!(reason in REPORT_REASONS)) return { ok: false, reason: "invalid reason" };
+  const added = await storage.addReport(packageId, uid, { reason, panoId, at: now });
+  return added ? { ok: true } : { ok: false, reason: "already reported" };
+}
+
+/** Request body → report request (null when malformed) */
+export function parseReportRequest(input: unknown): ReportRequest | null {
+  const body = (input || {}) as Record<string, unknown>;
+  if (!isValidPackageId(body.packageId)) return null;
+  if (typeof body.panoId !== "string" || !body.panoId || body.panoId.length > PANO_ID_MAX) return null;
+  if (typeof body.reason !== "string" || !(body.reason in REPORT_REASONS)) return null;
+  if (body.roomId !== undefined && body.roomId !== null && (typeof body.roomId !== "string" || !ROOM_ID_PATTERN.test(body.roomId))) return null;
+  return { packageId: body.packageId, panoId: body.panoId, reason: body.reason as ReportReason, roomId: (body.roomId as string) || null };
+}
+
+/** One more report in the window, undefined when the quota is used up */
+export function takeReportQuota(current: ReportQuota | null, now: number, limit: number = REPORT_QUOTA): ReportQuota | undefined {
+  if (!current || now - current.windowStart >= REPORT_QUOTA_WINDOW_MS) return { windowStart: now, count: 1 };
+  return current.count < limit ? { ...current, count: current.count + 1 } : undefined;
+}
+
+/** Was `uid` dealt the package — its open / earlier solo rounds, or a round of the room it plays in */
+export async function hasPlayedPackage(
+  sources: PlayHistorySources,
+  uid: string,
+  packageId: string,
+  roomId: string | null
+): Promise<boolean> {
+  const deal = await sources.getSoloDeal(uid);
+  if (deal && (deal.answer?.panoPackageId === packageId || (deal.history || []).includes(packageId))) return true;
+  if (!roomId) return false;
+
+  const room = await sources.getRoom(roomId);
+  if (!room?.players?.[uid]) return false;
+  for (let roundId = room.currentRound; roundId >= 1; roundId--) {
+    const answer = await sources.getRoundAnswer(roomId, roundId);
+    if (answer?.panoPackageId === packageId) return true;
+  }
+  return false;
+}
+
+/**
+ * Server: store a verified caller's report and re-check the package's quarantine.
+ * The uid comes from the ID token; anonymous accounts must have been dealt the package.
+ */
+export async function submitReport(
+  storage: ReportStorage,
+  sources: PlayHistorySources,
+  caller: { uid: string; anonymous: boolean },
+  request: ReportRequest,
+  now: number
+): Promise<ReportOutcome> {
+  if (caller.anonymous && !(await hasPlayedPackage(sources, caller.uid, request.packageId, request.roomId))) {
+    return { ok: false, reason: "not played" };
+  }
+  const quota = await storage.transactQuota(caller.uid, (current) => takeReportQuota(current, now));
+  if (!quota.committed) return { ok: false, reason: "rate limited" };
+
+  const stored = await reportLocation(storage, caller.uid, request.packageId, request.panoId, request.reason, now);
+  if (!stored.ok) return stored;
+  return { ok: true, ...(await evaluateQuarantine(storage, request.packageId, now)) };
+}
+
+// ==================== QUARANTINE ====================
+
+/**
+ * One package's reports → its quarantine entry, or null under the threshold.
+ * The quarantined panoId is the one most reporters saw.
+ */
+export function quarantineFromReports(
+  reports: Record<string, LocationReport> | null,
+  now: number,
+  threshold: number = QUARANTINE_THRESHOLD
+): QuarantineEntry | null {
+  const all = Object.values(reports || {}).filter((report) => report && report.reason in REPORT_REASONS);
+  if (all.length < threshold) return null;
+
+  const reasons: Partial<Record<ReportReason, number>> = {};
+  const panoCounts = new Map<string, number>();
+  all.forEach((report) => {
+    reasons[report.reason] = (reasons[report.reason] || 0) + 1;
+    panoCounts.set(report.panoId, (panoCounts.get(report.panoId) || 0) + 1);
+  });
+  const [panoId] = Array.from(panoCounts.entries()).sort((a, b) => b[1] - a[1])[0];
+  return { panoId, at: now, reports: all.length, reasons };
+}
+
+/**
+ * Server: count the package's reports and quarantine it at the threshold.
+ * An existing entry is kept (first quarantine wins).
+ */
+export async function evaluateQuarantine(
+  storage: ReportStorage,
+  packageId: string,
+  now: number
+): Promise<{ quarantined: boolean; reports: number }> {
+  const reports = await storage.getReports(packageId);
+  const entry = quarantineFromReports(reports, now);
+  if (!entry) return { quarantined: false, reports: Object.keys(reports).length };
+
+  const outcome = await storage.transactQuarantine(packageId, (current) => (current ? undefined : entry));
+  if (outcome.committed) console.log(`[Reports] quarantined ${packageId} (${entry.reports} reports)`);
+  return { quarantined: true, reports: entry.reports };
+}
+
+/** Feed a quarantine into the selection engine and the persistent history */
+export function applyQuarantine(quarantine: Quarantine | null): void {
+  setQuarantine(quarantine);
+  setQuarantinedPanoIds(Object.values(quarantine || {}).map((entry) => entry.panoId));
+}
+
+/** Client: load the published quarantine */
+export async function loadQuarantine(storage: Pick<ReportStorage, "getQuarantine">): Promise<number> {
+  const quarantine = await storage.getQuarantine();
+  applyQuarantine(quarantine);
+  return Object.keys(quarantine).length;
+}
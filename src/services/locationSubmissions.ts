@@ -0,0 +1,417 @@
+/**
+ * Location Submissions — community-proposed places + moderation queue
+ *
+ * A player proposes the pano they are looking at, in a round or on
+ * /konum-oner: useStreetView's getCurrentPanoId / getCurrentPov /
+ * getCurrentPosition plus suggested hintTags, roadType and (optionally)
+ * region. In a round the form shows nothing about the place — no spoiler —
+ * so region may stay null; approval derives it from the il polygon.
+ *
+ * submissions/{uid}/{submissionId}: written once as "pending" by the server
+ * (app/api/submit-location with the player's ID token, submitVerifiedLocation),
+ * readable by the owner. The route keeps a per-player hourly quota in
+ * submissionQuota/{uid} (server-only) and takes anonymous accounts only once
+ * they were dealt a round — the client limiter only saves requests.
+ * Moderation is server-side (app/api/moderation, MODERATION_SECRET) over the
+ * admin REST storage:
+ *   pending  → approved: a PanoPackage (blacklist: false), linted against the
+ *              installed packs — lint errors block, warnings are returned
+ *   pending  → rejected
+ *   approved → merged: `npm run packages pull-approved` appended it to its
+ *              pack (data/packs) — players get it as a data change
+ */
+
+import { GameMode, PanoData, PanoPackage, RegionId, MAP_REGIONS, TURKEY_BOUNDS } from "@/types";
+import { RATE_LIMITS } from "@/config/production";
+import { RoomStorageAdapter, TransactionOutcome, TransactionUpdater } from "./roomStorage";
+import type { SoloRoundStorage } from "./soloRoundAuthority";
+import { ReportQuota, takeReportQuota } from "./locationReports";
+import { findPlace, formatPlace } from "./adminBoundaries";
+import { LintReport, lintNewPackages, regionOfProvince } from "./packageAuthoring";
+
+// ==================== CONSTANTS ====================
+
+export const SUBMISSION_ENDPOINT = "/api/submit-location";
+
+/** Submissions per player and hour, checked server-side */
+export const SUBMISSION_QUOTA = RATE_LIMITS.LOCATION_SUBMISSIONS_PER_HOUR;
+
+export const SUBMISSION_MAX_TAGS = 6;
+export const SUBMISSION_NOTE_MAX = 200;
+const TAG_PATTERN = /^[a-z_]{2,24}$/;
+const PANO_ID_MAX = 256;
+const ROOM_ID_PATTERN = /^[A-Z0-9]{6}$/;
+
+/** Suggested hintTags (the curated set's most common ones) */
+export const SUBMISSION_HINT_TAGS: Record<string, string> = {
+  signage: "Tabela",
+  historic: "Tarihi",
+  ancient: "Antik",
+  mosque: "Cami",
+  castle: "Kale",
+  bazaar: "Çarşı",
+  square: "Meydan",
+  port: "Liman",
+  ferry: "Vapur",
+  beach: "Plaj",
+  sea: "Deniz",
+  lake: "Göl",
+  river: "Nehir",
+  mountain: "Dağ",
+  forest: "Orman",
+  valley: "Vadi",
+  university: "Üniversite",
+  industry: "Sanayi",
+};
+
+export const ROAD_TYPE_LABELS: Record<PanoPackage["roadType"], string> = {
+  urban_street: "Şehir içi",
+  highway: "Otoyol",
+  rural: "Kırsal yol",
+  village: "Köy",
+};
+
+// ==================== TYPES ====================
+
+export type SubmissionStatus = "pending" | "approved" | "rejected" | "merged";
+
+/** Where the proposal was made */
+export type SubmissionSource = "round" | "page";
+
+/** What the player sends */
+export interface SubmissionDraft {
+  panoId: string;
+  lat: number;
+  lng: number;
+  heading: number;
+  pitch: number;
+  mode: GameMode;
+  roadType: PanoPackage["roadType"];
+  hintTags: string[];
+  region: RegionId | null;       // null = derive from the il at approval
+  note: string | null;
+  source: SubmissionSource;
+}
+
+export interface SubmissionReview {
+  at: number;
+  note: string | null;
+}
+
+/** submissions/{uid}/{submissionId} */
+export interface LocationSubmission extends SubmissionDraft {
+  name: string;
+  createdAt: number;
+  status: SubmissionStatus;
+  review?: SubmissionReview;
+  package?: PanoPackage;         // set on approval
+}
+
+export interface QueueItem {
+  uid: string;
+  id: string;
+  submission: LocationSubmission;
+}
+
+/** Body of POST /api/submit-location */
+export interface SubmissionRequest {
+  draft: SubmissionDraft;
+  name: string;
+  /** Room the player proposes from (null = solo / /konum-oner) */
+  roomId: string | null;
+}
+
+export type SubmissionOutcome = { ok: true; id: string } | { ok: false; reason: string };
+
+/** Where the server looks up whether an anonymous player was dealt a round */
+export type DealtRoundSources = Pick<SoloRoundStorage, "getSoloDeal"> & Pick<RoomStorageAdapter, "getRoom">;
+
+export interface SubmissionStorage {
+  /** Write-once; false when the id is taken */
+  addSubmission(uid: string, id: string, submission: LocationSubmission): Promise<boolean>;
+  /** submissionQuota/{uid} — same windowed count as reportQuota */
+  transactQuota(uid: string, updater: TransactionUpdater<ReportQuota>): Promise<TransactionOutcome<ReportQuota>>;
+  /** One player's submissions */
+  getSubmissions(uid: string): Promise<Record<string, LocationSubmission>>;
+  /** Everyone's (moderation) */
+  getAllSubmissions(): Promise<Record<string, Record<string, LocationSubmission>>>;
+  transactSubmission(
+    uid: string,
+    id: string,
+    updater: TransactionUpdater<LocationSubmission>
+  ): Promise<TransactionOutcome<LocationSubmission>>;
+}
+
+/** Moderator's edits applied on approval */
+export interface ApprovalOverrides {
+  id?: string;
+  locationName?: string;
+  region?: RegionId;
+  roadType?: PanoPackage["roadType"];
+  hintTags?: string[];
+  qualityScore?: number;
+}
+
+export type ModerationResult =
+  | { ok: true; submission: LocationSubmission; report?: LintReport }
+  | { ok: false; reason: string; report?: LintReport };
+
+// ==================== SUBMIT ====================
+
+/** Problems of an untrusted draft — empty = valid (mirrors the rules) */
+export function draftProblems(draft: SubmissionDraft): string[] {
+  const problems: string[] = [];
+  if (typeof draft.panoId !== "string" || !draft.panoId || draft.panoId.length > PANO_ID_MAX) problems.push("panoId");
+  if (!Number.isFinite(draft.lat) || !Number.isFinite(draft.lng) ||
+      draft.lat < TURKEY_BOUNDS.south || draft.lat > TURKEY_BOUNDS.north ||
+      draft.lng < TURKEY_BOUNDS.west || draft.lng > TURKEY_BOUNDS.east) {
+    problems.push("position");
+  }
+  if (!Number.isFinite(draft.heading) || !Number.isFinite(draft.pitch) || Math.abs(draft.pitch) > 90) problems.push("pov");
+  if (draft.mode !== "urban" && draft.mode !== "geo") problems.push("mode");
+  if (!(draft.roadType in ROAD_TYPE_LABELS)) problems.push("roadType");
+  if (!Array.isArray(draft.hintTags) || draft.hintTags.length > SUBMISSION_MAX_TAGS ||
+      draft.hintTags.some((tag) => !TAG_PATTERN.test(tag))) {
+    problems.push("hintTags");
+  }
+  if (draft.region !== null && !(draft.region in MAP_REGIONS)) problems.push("region");
+  if (draft.note !== null && (typeof draft.note !== "string" || draft.note.length > SUBMISSION_NOTE_MAX)) problems.push("note");
+  if (draft.source !== "round" && draft.source !== "page") problems.push("source");
+  return problems;
+}
+
+const round6 = (value: number) => Math.round(value * 1e6) / 1e6;
+
+/** Stored shape: heading in [0, 360), coordinates to 6 decimals, unique tags, empty note → null */
+export function createSubmission(draft: SubmissionDraft, name: string, now: number): LocationSubmission {
+  const note = draft.note?.trim() || null;
+  return {
+    ...draft,
+    lat: round6(draft.lat),
+    lng: round6(draft.lng),
+    heading: Math.round((((draft.heading % 360) + 360) % 360) * 10) / 10,
+    pitch: Math.round(draft.pitch * 10) / 10,
+    hintTags: Array.from(new Set(draft.hintTags)),
+    note,
+    name: name.trim().slice(0, 20),
+    createdAt: now,
+    status: "pending",
+  };
+}
+
+export async function submitLocation(
+  storage: SubmissionStorage,
+  uid: string,
+  name: string,
+  draft: SubmissionDraft,
+  now: number
+): Promise<SubmissionOutcome> {
+  const problems = draftProblems(draft);
+  if (problems.length > 0) return { ok: false, reason: `invalid ${problems.join(", ")}` };
+  if (!name.trim()) return { ok: false, reason: "name required" };
+  const id = String(now);
+  const added = await storage.addSubmission(uid, id, createSubmission(draft, name, now));
+  return added ? { ok: true, id } : { ok: false, reason: "duplicate submission" };
+}
+
+/** Request body → submission request (null when malformed; the draft is checked by draftProblems) */
+export function parseSubmissionRequest(input: unknown): SubmissionRequest | null {
+  const body = (input || {}) as Record<string, unknown>;
+  const draft = (body.draft || null) as Record<string, unknown> | null;
+  if (!draft || typeof draft !== "object" || typeof body.name !== "string") return null;
+  if (body.roomId !== undefined && body.roomId !== null && (typeof body.roomId !== "string" || !ROOM_ID_PATTERN.test(body.roomId))) return null;
+  const parsed: SubmissionDraft = {
+    panoId: draft.panoId as string,
+    lat: draft.lat as number,
+    lng: draft.lng as number,
+    heading: draft.heading as number,
+    pitch: draft.pitch as number,
+    mode: draft.mode as GameMode,
+    roadType: draft.roadType as PanoPackage["roadType"],
+    hintTags: (draft.hintTags ?? []) as string[],
+    region: (draft.region ?? null) as RegionId | null,
+    note: (draft.note ?? null) as string | null,
+    source: draft.source as SubmissionSource,
+  };
+  if (draftProblems(parsed).length > 0) return null;
+  return { draft: parsed, name: body.name, roomId: (body.roomId as string) || null };
+}
+
+/** Was `uid` dealt any round — a solo deal, or the room it plays in has started */
+export async function hasBeenDealt(sources: DealtRoundSources, uid: string, roomId: string | null): Promise<boolean> {
+  if (await sources.getSoloDeal(uid)) return true;
+  if (!roomId) return false;
+  const room = await sources.getRoom(roomId);
+  return !!room?.players?.[uid] && room.currentRound >= 1;
+}
+
+/**
+ * Server: store a verified caller's submission. The uid comes from the ID
+ * token; anonymous accounts must have been dealt a round, everyone gets
+ * SUBMISSION_QUOTA per hour.
+ */
+export async function submitVerifiedLocation(
+  storage: SubmissionStorage,
+  sources: DealtRoundSources,
+  caller: { uid: string; anonymous: boolean },
+  request: SubmissionRequest,
+  now: number
+): Promise<SubmissionOutcome> {
+  if (caller.anonymous && !(await hasBeenDealt(sources, caller.uid, request.roomId))) {
+    return { ok: false, reason: "not played" };
+  }
+  const quota = await storage.transactQuota(caller.uid, (current) => takeReportQuota(current, now, SUBMISSION_QUOTA));
+  if (!quota.committed) return { ok: false, reason: "rate limited" };
+  return submitLocation(storage, caller.uid, request.name, request.draft, now);
+}
+
+// ==================== QUEUE ====================
+
+/** Submissions with one status, oldest first */
+export function listQueue(
+  all: Record<string, Record<string, LocationSubmission>> | null,
+  status: SubmissionStatus = "pending"
+): QueueItem[] {
+  const items: QueueItem[] = [];
+  Object.entries(all || {}).forEach(([uid, submissions]) => {
+    Object.entries(submissions || {}).forEach(([id, submission]) => {
+      if (submission?.status === status) items.push({ uid, id, submission });
+    });
+  });
+  return items.sort((a, b) => a.submission.createdAt - b.submission.createdAt || a.id.localeCompare(b.id));
+}
+
+// ==================== APPROVAL ====================
+
+function slug(text: string): string {
+  return text
+    .toLocaleLowerCase("tr")
+    .replace(/ç/g, "c").replace(/ğ/g, "g").replace(/ı/g, "i").replace(/ö/g, "o").replace(/ş/g, "s").replace(/ü/g, "u")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/** community_{place}_{n}, first n not taken */
+export function communityPackageId(locationName: string, takenIds: Iterable<string>): string {
+  const taken = new Set(takenIds);
+  const base = `community_${slug(locationName.split(",").reverse().join(" ")) || "tr"}`;
+  let n = 1;
+  while (taken.has(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+}
+
+/**
+ * Submission → PanoPackage. All four arms sit on the proposed pano (the
+ * curated set's single-panoId norm): pano0 the submitted heading, pano1 left,
+ * pano2 right, pano3 behind. Null when the place is outside every il.
+ */
+export function packageFromSubmission(
+  submission: LocationSubmission,
+  takenIds: Iterable<string>,
+  overrides: ApprovalOverrides = {}
+): PanoPackage | null {
+  const place = findPlace({ lat: submission.lat, lng: submission.lng });
+  const locationName = overrides.locationName || formatPlace(place);
+  const region = overrides.region || submission.region || (place && regionOfProvince(place.province));
+  if (!place || !locationName || !region) return null;
+
+  const arm = (turn: number): PanoData => ({
+    panoId: submission.panoId,
+    lat: submission.lat,
+    lng: submission.lng,
+    heading: (submission.heading + turn + 360) % 360,
+  });
+  return {
+    id: overrides.id || communityPackageId(locationName, takenIds),
+    mode: submission.mode,
+    region,
+    roadType: overrides.roadType || submission.roadType,
+    hintTags: overrides.hintTags || submission.hintTags || [],
+    qualityScore: overrides.qualityScore ?? 3,
+    blacklist: false,
+    pano0: arm(0),
+    pano1: arm(-90),
+    pano2: arm(90),
+    pano3: arm(180),
+    locationName,
+  };
+}
+
+/**
+ * pending → approved with its package. The package is linted against
+ * `existing` (the installed packs + earlier approvals): errors block.
+ */
+export async function approveSubmission(
+  storage: SubmissionStorage,
+  uid: string,
+  id: string,
+  existing: PanoPackage[],
+  now: number,
+  options: { note?: string | null; overrides?: ApprovalOverrides } = {}
+): Promise<ModerationResult> {
+  let failure: { reason: string; report?: LintReport } | null = null;
+  let report: LintReport | undefined;
+
+  const outcome = await storage.transactSubmission(uid, id, (current) => {
+    failure = null;
+    report = undefined;
+    if (!current) return current;
+    if (current.status !== "pending") {
+      failure = { reason: `submission is ${current.status}` };
+      return undefined;
+    }
+    const pkg = packageFromSubmission(current, existing.map((p) => p.id), options.overrides);
+    if (!pkg) {
+      failure = { reason: "outside Türkiye" };
+      return undefined;
+    }
+    report = lintNewPackages(existing, [pkg]);
+    if (!report.ok) {
+      failure = { reason: "lint errors", report };
+      return undefined;
+    }
+    return { ...current, status: "approved", review: { at: now, note: options.note ?? null }, package: pkg };
+  });
+
+  if (failure) return { ok: false, ...(failure as { reason: string; report?: LintReport }) };
+  if (!outcome.committed || !outcome.value) return { ok: false, reason: "submission not found" };
+  return { ok: true, submission: outcome.value, report };
+}
+
+/** pending → rejected */
+export async function rejectSubmission(
+  storage: SubmissionStorage,
+  uid: string,
+  id: string,
+  now: number,
+  note: string | null = null
+): Promise<ModerationResult> {
+  return moveStatus(storage, uid, id, "pending", (current) => ({ ...current, status: "rejected", review: { at: now, note } }));
+}
+
+/** approved → merged (its package is in a pack file now) */
+export async function markMerged(storage: SubmissionStorage, uid: string, id: string): Promise<ModerationResult> {
+  return moveStatus(storage, uid, id, "approved", (current) => ({ ...current, status: "merged" }));
+}
+
+async function moveStatus(
+  storage: SubmissionStorage,
+  uid: string,
+  id: string,
+  from: SubmissionStatus,
+  next: (current: LocationSubmission) => LocationSubmission
+): Promise<ModerationResult> {
+  let wrongStatus: SubmissionStatus | null = null;
+  const outcome = await storage.transactSubmission(uid, id, (current) => {
+    wrongStatus = null;
+    if (!current) return current;
+    if (current.status !== from) {
+      wrongStatus = current.status;
+      return undefined;
+    }
+    return next(current);
+  });
+  if (wrongStatus) return { ok: false, reason: `submission is ${wrongStatus}` };
+  if (!outcome.committed || !outcome.value) return { ok: false, reason: "submission not found" };
+  return { ok: true, submission: outcome.value };
+}
@@ -0,0 +1,91 @@
+/**
+ * Map Filter — region / province restricted game maps
+ *
+ * Room.mapFilter narrows every location source (static engine, urban province
+ * bag, dynamic mint, geo city pick) to the chosen regions or hand-picked iller.
+ * null = the whole of Türkiye.
+ *
+ * When the filter is too narrow, locationEngine degrades in two steps and
+ * reports it through MAP_NOTICES (written to Room.mapNotice for that round):
+ * - narrow:   anti-repeat relaxed inside the map (same il may come back to back)
+ * - fallback: nothing left inside the map → this round comes from all of Türkiye
+ */
+
+import { MapFilter, RegionId, MAP_REGIONS } from "@/types";
+import { findProvinceByName } from "./adminBoundaries";
+
+// ==================== CONSTANTS ====================
+
+export const MAX_MAP_PROVINCES = 81;
+
+export const MAP_NOTICES = {
+  narrow: "Seçili harita küçük: bazı konumlar ve iller arka arkaya gelebilir.",
+  fallback: "Seçili haritada uygun konum kalmadı — bu tur tüm Türkiye'den.",
+} as const;
+
+// ==================== VALIDATION ====================
+
+/**
+ * Unknown input → canonical MapFilter, or null for "tüm Türkiye".
+ * Throws on malformed filters (unknown region / il, wrong shape).
+ */
+export function normalizeMapFilter(input: unknown): MapFilter | null {
+  if (input === null || input === undefined) return null;
+  if (typeof input !== "object") throw new Error("mapFilter must be an object");
+  const filter = input as { type?: unknown; regions?: unknown; provinces?: unknown };
+
+  if (filter.type === "regions") {
+    const regions = toList(filter.regions);
+    const invalid = regions.find((r) => typeof r !== "string" || !(r in MAP_REGIONS));
+    if (invalid !== undefined) throw new Error(`unknown region: ${String(invalid)}`);
+    const unique = Array.from(new Set(regions as RegionId[]));
+    if (unique.length === 0 || unique.length === Object.keys(MAP_REGIONS).length) return null;
+    return { type: "regions", regions: unique };
+  }
+
+  if (filter.type === "provinces") {
+    const names = toList(filter.provinces);
+    if (names.length > MAX_MAP_PROVINCES) throw new Error(`too many provinces (${names.length})`);
+    const provinces = names.map((name) => {
+      const province = typeof name === "string" ? findProvinceByName(name) : null;
+      if (!province) throw new Error(`unknown province: ${String(name)}`);
+      return province.name;
+    });
+    const unique = Array.from(new Set(provinces));
+    if (unique.length === 0) return null;
+    return { type: "provinces", provinces: unique };
+  }
+
+  throw new Error(`unknown mapFilter type: ${String(filter.type)}`);
+}
+
+/** RTDB turns sparse arrays into objects — accept both */
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === "object") return Object.values(value);
+  return [];
+}
+
+// ==================== MATCHING ====================
+
+export function matchesMapFilter(filter: MapFilter | null | undefined, province: string, region: string): boolean {
+  if (!filter) return true;
+  if (filter.type === "regions") return toList(filter.regions).includes(region);
+  return toList(filter.provinces).includes(province);
+}
+
+/** Stable key — used to reset the province bag when the map changes */
+export function mapFilterKey(filter: MapFilter | null | undefined): string {
+  if (!filter) return "all";
+  const items = filter.type === "regions" ? toList(filter.regions) : toList(filter.provinces);
+  return `${filter.type}:${items.map(String).sort().join(",")}`;
+}
+
+/** "Tüm Türkiye" / "Karadeniz, Ege" / "İstanbul, İzmir +3" */
+export function describeMapFilter(filter: MapFilter | null | undefined): string {
+  if (!filter) return "Tüm Türkiye";
+  const names = filter.type === "regions"
+    ? toList(filter.regions).map((r) => MAP_REGIONS[r as RegionId] || String(r))
+    : toList(filter.provinces).map(String);
+  return names.length > 3 ? `${names.slice(0, 3).join(", ")} +${names.length - 3}` : names.join(", ");
+}
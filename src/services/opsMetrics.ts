@@ -0,0 +1,274 @@
+/**
+ * Ops Metrics — multiplayer health counters out of exported telemetry
+ *
+ * Clients ship their counters through the telemetry exporter
+ * (telemetry/{day}/{batchId}); this module reads a time range back and
+ * aggregates it for the /ops dashboard:
+ *   roundEnd           latencyMs (timer rounds) / earlyFinishMs, one per round (lock owner)
+ *   watchdogEscalation host watchdog gave up (fires every tick past WATCHDOG_MAX_ATTEMPTS)
+ *   mpCounters         cumulative mpCounters snapshot — last one per session counts
+ *   streetViewCost     metadata calls + USD of one round in one tab
+ *
+ * Event sessions are sampled (TELEMETRY_EXPORT.SAMPLE_RATE), so counts are
+ * sample counts; percentiles and rates are what the dashboard is for.
+ */
+
+import { OPS_METRICS } from "@/config/production";
+import { TelemetryBatch, TelemetryRecord, telemetryDayKey } from "@/utils/telemetryExporter";
+
+export const OPS_ENDPOINT = "/api/ops";
+
+// ==================== TYPES ====================
+
+export interface OpsFilter {
+  from: number;
+  to: number;
+  roomId?: string | null;
+}
+
+export interface Distribution {
+  count: number;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+/** Summed last mpCounters snapshot of every session */
+export interface OpsCounterTotals {
+  sessions: number;
+  roundEndLockAcquireAttempts: number;
+  roundEndLockAcquired: number;
+  ghostRemovedCount: number;
+  hostMigrationCount: number;
+  watchdogFiredCount: number;
+  watchdogFailureCount: number;
+  scoringFailureCount: number;
+  firebaseInternalAbortCount: number;
+}
+
+export interface OpsRoomRow {
+  roomId: string;
+  rounds: number;
+  latencyP90: number | null;
+  sloBreaches: number;
+  watchdogEscalations: number;
+  streetViewUsd: number;
+  errors: number;
+}
+
+export interface OpsSummary {
+  from: number;
+  to: number;
+  roomId: string | null;
+  records: number;
+  sessions: number;
+  rounds: number;
+  roundEndLatency: Distribution;
+  sloBreaches: number;
+  sloBreachRate: number | null;
+  earlyFinish: Distribution;
+  /** Distinct room/round pairs the watchdog escalated on */
+  watchdogEscalations: number;
+  counters: OpsCounterTotals;
+  streetView: {
+    rounds: number;
+    calls: number;
+    totalUsd: number;
+    perRoundUsd: Distribution;
+    avgUsdPerRound: number | null;
+  };
+  errors: number;
+  rooms: OpsRoomRow[];
+}
+
+/** telemetry/{day} node — batchId → stored batch (uid added by the RTDB sink) */
+export type TelemetryDay = Record<string, Omit<TelemetryBatch, "id"> & { uid?: string }>;
+
+export interface OpsStorage {
+  getTelemetryDay(day: string): Promise<TelemetryDay | null>;
+}
+
+const COUNTER_KEYS: Array<Exclude<keyof OpsCounterTotals, "sessions">> = [
+  "roundEndLockAcquireAttempts",
+  "roundEndLockAcquired",
+  "ghostRemovedCount",
+  "hostMigrationCount",
+  "watchdogFiredCount",
+  "watchdogFailureCount",
+  "scoringFailureCount",
+  "firebaseInternalAbortCount",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== MATH ====================
+
+/** Nearest-rank percentile; null for an empty sample */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function distribution(values: number[]): Distribution {
+  return {
+    count: values.length,
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    p99: percentile(values, 99),
+    max: values.length ? Math.max(...values) : null,
+  };
+}
+
+const numberField = (record: TelemetryRecord, key: string): number | null => {
+  const value = record.data?.[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+};
+
+// ==================== AGGREGATION ====================
+
+export function summarizeOps(records: TelemetryRecord[], filter: OpsFilter): OpsSummary {
+  const roomId = filter.roomId || null;
+  const selected = records
+    .filter((record) => record.at >= filter.from && record.at <= filter.to)
+    .filter((record) => !roomId || record.roomId === roomId)
+    .sort((a, b) => a.at - b.at);
+
+  const latencies: number[] = [];
+  const earlyFinishes: number[] = [];
+  const roundCosts: number[] = [];
+  let rounds = 0;
+  let streetViewCalls = 0;
+  let errors = 0;
+  const escalated = new Set<string>();
+  const lastSnapshot = new Map<string, Record<string, unknown>>();
+  const rooms = new Map<string, OpsRoomRow & { latencies: number[] }>();
+
+  const roomRow = (id: string | undefined) => {
+    const key = id || "—";
+    let row = rooms.get(key);
+    if (!row) {
+      row = { roomId: key, rounds: 0, latencyP90: null, sloBreaches: 0, watchdogEscalations: 0, streetViewUsd: 0, errors: 0, latencies: [] };
+      rooms.set(key, row);
+    }
+    return row;
+  };
+
+  for (const record of selected) {
+    if (record.kind === "error") {
+      errors++;
+      roomRow(record.roomId).errors++;
+      continue;
+    }
+    switch (record.event) {
+      case "roundEnd": {
+        const row = roomRow(record.roomId);
+        rounds++;
+        row.rounds++;
+        const latency = numberField(record, "latencyMs");
+        const early = numberField(record, "earlyFinishMs");
+        if (latency !== null) {
+          latencies.push(latency);
+          row.latencies.push(latency);
+          if (latency > OPS_METRICS.ROUND_END_SLO_MS) row.sloBreaches++;
+        } else if (early !== null) {
+          earlyFinishes.push(early);
+        }
+        break;
+      }
+      case "watchdogEscalation": {
+        const key = `${record.roomId || "—"}:${record.roundId ?? "?"}`;
+        if (!escalated.has(key)) {
+          escalated.add(key);
+          roomRow(record.roomId).watchdogEscalations++;
+        }
+        break;
+      }
+      case "mpCounters":
+        if (record.data) lastSnapshot.set(record.sessionId, record.data);
+        break;
+      case "streetViewCost": {
+        const usd = numberField(record, "costUsd");
+        if (usd === null) break;
+        roundCosts.push(usd);
+        streetViewCalls += numberField(record, "calls") ?? 0;
+        roomRow(record.roomId).streetViewUsd += usd;
+        break;
+      }
+    }
+  }
+
+  const counters: OpsCounterTotals = {
+    sessions: lastSnapshot.size,
+    ...(Object.fromEntries(COUNTER_KEYS.map((key) => [key, 0])) as Omit<OpsCounterTotals, "sessions">),
+  };
+  lastSnapshot.forEach((snapshot) => {
+    COUNTER_KEYS.forEach((key) => {
+      const value = snapshot[key];
+      if (typeof value === "number" && Number.isFinite(value)) counters[key] += value;
+    });
+  });
+
+  const sloBreaches = latencies.filter((latency) => latency > OPS_METRICS.ROUND_END_SLO_MS).length;
+  const totalUsd = roundCosts.reduce((sum, usd) => sum + usd, 0);
+
+  return {
+    from: filter.from,
+    to: filter.to,
+    roomId,
+    records: selected.length,
+    sessions: new Set(selected.map((record) => record.sessionId)).size,
+    rounds,
+    roundEndLatency: distribution(latencies),
+    sloBreaches,
+    sloBreachRate: latencies.length ? sloBreaches / latencies.length : null,
+    earlyFinish: distribution(earlyFinishes),
+    watchdogEscalations: escalated.size,
+    counters,
+    streetView: {
+      rounds: roundCosts.length,
+      calls: streetViewCalls,
+      totalUsd,
+      perRoundUsd: distribution(roundCosts),
+      avgUsdPerRound: roundCosts.length ? totalUsd / roundCosts.length : null,
+    },
+    errors,
+    rooms: Array.from(rooms.values())
+      .map(({ latencies: roomLatencies, ...row }) => ({ ...row, latencyP90: percentile(roomLatencies, 90) }))
+      .sort((a, b) => b.rounds - a.rounds || b.errors - a.errors || a.roomId.localeCompare(b.roomId)),
+  };
+}
+
+// ==================== LOADING ====================
+
+/** UTC days covering [from, to]; throws past OPS_METRICS.MAX_RANGE_DAYS */
+export function opsDays(from: number, to: number): string[] {
+  if (!Number.isFinite(from) || !Number.isFinite(to) || to < from) {
+    throw new Error("invalid range");
+  }
+  const days: string[] = [];
+  const last = telemetryDayKey(to);
+  for (let at = Date.parse(telemetryDayKey(from)); ; at += DAY_MS) {
+    const day = telemetryDayKey(at);
+    days.push(day);
+    if (day === last) break;
+    if (days.length >= OPS_METRICS.MAX_RANGE_DAYS) {
+      throw new Error(`range longer than ${OPS_METRICS.MAX_RANGE_DAYS} days`);
+    }
+  }
+  return days;
+}
+
+/** Every record of the days covering the filter (summarizeOps trims the edges) */
+export async function loadOpsRecords(storage: OpsStorage, filter: OpsFilter): Promise<TelemetryRecord[]> {
+  const days = await Promise.all(opsDays(filter.from, filter.to).map((day) => storage.getTelemetryDay(day)));
+  return days.flatMap((batches) =>
+    Object.values(batches || {}).flatMap((batch) => Object.values(batch.records || {}))
+  );
+}
+
+export async function loadOpsSummary(storage: OpsStorage, filter: OpsFilter): Promise<OpsSummary> {
+  return summarizeOps(await loadOpsRecords(storage, filter), filter);
+}
@@ -0,0 +1,285 @@
+/**
+ * Pano Package Authoring — offline lint + edits for the pano packs (data/packs)
+ *
+ * Used by the CLI (scripts/panoPackages.js) and the tests; everything here is
+ * pure, no Street View calls.
+ *
+ * Lint rules (severity):
+ *   schema           error    fields / types / enums of PanoPackage
+ *   duplicateId      error    id used by more than one package
+ *   bounds           error    an arm outside TURKEY_BOUNDS
+ *   heading          error    heading outside 0–360
+ *   unknownProvince  error    il part of "İlçe, İl" is not one of the 81 iller
+ *   locationName     warning  not "İlçe, İl" (legacy names like "Toros Dağları")
+ *   regionMismatch   warning  package region ≠ il's bölge (coastal Muğla is
+ *                             curated as akdeniz)
+ *   provinceMismatch warning  pano0 lies in another il (polygon lookup)
+ *   identicalArms    warning  two arms with the same panoId + coordinates + heading
+ *   sharedPanoId     warning  pano0 panoId also used by another package
+ *
+ * The shipped set has warnings but no errors; new packages (CLI add) must be
+ * clean of both unless forced.
+ *
+ * Single-panoId packages (all four arms on one panoId, different headings)
+ * are the norm in the curated set and are only counted in the summary.
+ *
+ * Pack edits append / remove whole packages and bump the pack revision; the
+ * existing packages keep their order. Incoming packages may use either schema
+ * (v1 pano0..pano3 or v2 `panos`, see panoPacks.ts).
+ */
+
+import { PanoPackage, PanoData, RegionId, TURKEY_BOUNDS, MAP_REGIONS } from "@/types";
+import { findProvince, findProvinceByName } from "./adminBoundaries";
+import { TURKEY_CITIES } from "./dynamicPanoService";
+import type { PanoPack } from "./panoPacks";
+
+// ==================== CONSTANTS ====================
+
+const ARMS = ["pano0", "pano1", "pano2", "pano3"] as const;
+const MODES = ["urban", "geo"];
+const ROAD_TYPES = ["urban_street", "highway", "rural", "village"];
+const ID_PATTERN = /^[a-z0-9_]+$/;
+
+// ==================== TYPES ====================
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "schema"
+  | "duplicateId"
+  | "bounds"
+  | "heading"
+  | "locationName"
+  | "unknownProvince"
+  | "regionMismatch"
+  | "provinceMismatch"
+  | "identicalArms"
+  | "sharedPanoId";
+
+export interface LintIssue {
+  packageId: string;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+}
+
+/** Machine-readable report (CLI --json) */
+export interface LintReport {
+  ok: boolean;              // no errors
+  packages: number;
+  errors: number;
+  warnings: number;
+  singlePanoPackages: number;
+  byRule: Partial<Record<LintRule, number>>;
+  issues: LintIssue[];
+}
+
+const SEVERITY: Record<LintRule, LintSeverity> = {
+  schema: "error",
+  duplicateId: "error",
+  bounds: "error",
+  heading: "error",
+  locationName: "warning",
+  unknownProvince: "error",
+  regionMismatch: "warning",
+  provinceMismatch: "warning",
+  identicalArms: "warning",
+  sharedPanoId: "warning",
+};
+
+// ==================== LINT ====================
+
+const PROVINCE_REGION = new Map(TURKEY_CITIES.map((c) => [c.name, c.region]));
+
+/** The bölge an il belongs to (null for non-il names) */
+export function regionOfProvince(province: string): RegionId | null {
+  return PROVINCE_REGION.get(province) ?? null;
+}
+
+function isArm(value: unknown): value is PanoData {
+  const arm = value as PanoData;
+  return !!arm && typeof arm === "object" &&
+    typeof arm.panoId === "string" && arm.panoId.length > 0 &&
+    Number.isFinite(arm.lat) && Number.isFinite(arm.lng) && Number.isFinite(arm.heading);
+}
+
+/** Schema problems of one (untrusted) package — empty = valid PanoPackage shape */
+export function schemaProblems(input: unknown): string[] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return ["not an object"];
+  const pkg = input as Record<string, unknown>;
+  const problems: string[] = [];
+  if (typeof pkg.id !== "string" || !ID_PATTERN.test(pkg.id)) problems.push(`id must match ${ID_PATTERN}`);
+  if (!MODES.includes(pkg.mode as string)) problems.push(`mode must be ${MODES.join("|")}`);
+  if (typeof pkg.region !== "string" || !(pkg.region in MAP_REGIONS)) problems.push("region must be a bölge id");
+  if (!ROAD_TYPES.includes(pkg.roadType as string)) problems.push(`roadType must be ${ROAD_TYPES.join("|")}`);
+  if (!Array.isArray(pkg.hintTags) || pkg.hintTags.some((t) => typeof t !== "string")) problems.push("hintTags must be string[]");
+  if (!Number.isInteger(pkg.qualityScore) || (pkg.qualityScore as number) < 1 || (pkg.qualityScore as number) > 5) {
+    problems.push("qualityScore must be an integer 1-5");
+  }
+  if (typeof pkg.blacklist !== "boolean") problems.push("blacklist must be boolean");
+  ARMS.forEach((arm) => {
+    if (!isArm(pkg[arm])) problems.push(`${arm} must be { panoId, lat, lng, heading }`);
+  });
+  if (typeof pkg.locationName !== "string") problems.push("locationName must be a string");
+  return problems;
+}
+
+/** "İlçe, İl" → parts, null when the format is off */
+export function parseLocationName(locationName: string): { district: string; province: string } | null {
+  const parts = locationName.split(",").map((s) => s.trim());
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return null;
+  return { district: parts[0], province: parts[1] };
+}
+
+function inTurkeyBounds(arm: PanoData): boolean {
+  return arm.lat >= TURKEY_BOUNDS.south && arm.lat <= TURKEY_BOUNDS.north &&
+    arm.lng >= TURKEY_BOUNDS.west && arm.lng <= TURKEY_BOUNDS.east;
+}
+
+function sameArm(a: PanoData, b: PanoData): boolean {
+  return a.panoId === b.panoId && a.lat === b.lat && a.lng === b.lng && a.heading === b.heading;
+}
+
+/** Lint a package list (untrusted input — schema first, the rest only on valid packages) */
+export function lintPackages(input: readonly unknown[]): LintReport {
+  const issues: LintIssue[] = [];
+  const add = (packageId: string, rule: LintRule, message: string) =>
+    issues.push({ packageId, rule, severity: SEVERITY[rule], message });
+
+  const valid: PanoPackage[] = [];
+  input.forEach((raw, index) => {
+    const problems = schemaProblems(raw);
+    const id = typeof (raw as PanoPackage)?.id === "string" ? (raw as PanoPackage).id : `#${index}`;
+    if (problems.length > 0) add(id, "schema", problems.join("; "));
+    else valid.push(raw as PanoPackage);
+  });
+
+  const idCount = new Map<string, number>();
+  const pano0Owners = new Map<string, string[]>();
+  valid.forEach((pkg) => {
+    idCount.set(pkg.id, (idCount.get(pkg.id) || 0) + 1);
+    pano0Owners.set(pkg.pano0.panoId, [...(pano0Owners.get(pkg.pano0.panoId) || []), pkg.id]);
+  });
+
+  let singlePanoPackages = 0;
+  const reportedDuplicates = new Set<string>();
+  valid.forEach((pkg) => {
+    if ((idCount.get(pkg.id) || 0) > 1 && !reportedDuplicates.has(pkg.id)) {
+      reportedDuplicates.add(pkg.id);
+      add(pkg.id, "duplicateId", `id used by ${idCount.get(pkg.id)} packages`);
+    }
+
+    const arms = ARMS.map((arm) => pkg[arm]);
+    ARMS.forEach((name, i) => {
+      const arm = arms[i];
+      if (!inTurkeyBounds(arm)) add(pkg.id, "bounds", `${name} (${arm.lat}, ${arm.lng}) outside Türkiye`);
+      if (arm.heading < 0 || arm.heading > 360) add(pkg.id, "heading", `${name} heading ${arm.heading} not in 0-360`);
+      for (let j = 0; j < i; j++) {
+        if (sameArm(arms[j], arm)) add(pkg.id, "identicalArms", `${name} is identical to ${ARMS[j]}`);
+      }
+    });
+    if (new Set(arms.map((a) => a.panoId)).size === 1) singlePanoPackages++;
+
+    const shared = (pano0Owners.get(pkg.pano0.panoId) || []).filter((id) => id !== pkg.id);
+    if (shared.length > 0) add(pkg.id, "sharedPanoId", `pano0 panoId also used by ${shared.join(", ")}`);
+
+    const name = parseLocationName(pkg.locationName);
+    if (!name) {
+      add(pkg.id, "locationName", `"${pkg.locationName}" is not "İlçe, İl"`);
+      return;
+    }
+    const province = findProvinceByName(name.province);
+    if (!province) {
+      add(pkg.id, "unknownProvince", `"${name.province}" is not an il`);
+      return;
+    }
+    const region = PROVINCE_REGION.get(province.name);
+    if (region && region !== pkg.region) {
+      add(pkg.id, "regionMismatch", `${province.name} is in ${region}, package says ${pkg.region}`);
+    }
+    const actual = findProvince(pkg.pano0);
+    if (actual && actual.name !== province.name) {
+      add(pkg.id, "provinceMismatch", `pano0 lies in ${actual.name}, locationName says ${province.name}`);
+    }
+  });
+
+  return buildReport(input.length, singlePanoPackages, issues);
+}
+
+function buildReport(packages: number, singlePanoPackages: number, issues: LintIssue[]): LintReport {
+  const byRule: Partial<Record<LintRule, number>> = {};
+  issues.forEach((issue) => { byRule[issue.rule] = (byRule[issue.rule] || 0) + 1; });
+  const errors = issues.filter((i) => i.severity === "error").length;
+  return {
+    ok: errors === 0,
+    packages,
+    errors,
+    warnings: issues.length - errors,
+    singlePanoPackages,
+    byRule,
+    issues,
+  };
+}
+
+/**
+ * Lint packages about to be added, against the existing set (duplicate ids,
+ * shared panoIds). Only issues of the new packages are reported.
+ */
+export function lintNewPackages(existing: readonly PanoPackage[], incoming: readonly unknown[]): LintReport {
+  const schema = lintPackages(incoming).issues.filter((issue) => issue.rule === "schema");
+  const combined = lintPackages([...existing, ...incoming]);
+  const ids = new Set(incoming.map((pkg) => (pkg as PanoPackage)?.id));
+  const issues = [...schema, ...combined.issues.filter((issue) => issue.rule !== "schema" && ids.has(issue.packageId))];
+  const single = incoming.filter((pkg) => schemaProblems(pkg).length === 0 &&
+    new Set(ARMS.map((arm) => (pkg as PanoPackage)[arm].panoId)).size === 1).length;
+  return buildReport(incoming.length, single, issues);
+}
+
+/** Human-readable report (CLI default output) */
+export function formatLintReport(report: LintReport): string {
+  const lines: string[] = ["=== PANO PACKAGE LINT ==="];
+  lines.push(`Packages: ${report.packages}  Errors: ${report.errors}  Warnings: ${report.warnings}  Single-panoId: ${report.singlePanoPackages}`);
+  (Object.keys(report.byRule) as LintRule[]).forEach((rule) => {
+    lines.push(`  ${rule.padEnd(17)} ${String(report.byRule[rule]).padStart(4)}  (${SEVERITY[rule]})`);
+  });
+  report.issues.forEach((issue) => {
+    lines.push(`${issue.severity === "error" ? "ERROR" : "warn "} ${issue.packageId} [${issue.rule}] ${issue.message}`);
+  });
+  lines.push(report.ok ? "OK" : "FAILED");
+  return lines.join("\n");
+}
+
+// ==================== PACK EDITS ====================
+
+/**
+ * Incoming package in either schema: v2 (`panos` array, the pack file shape)
+ * is turned into the v1 / runtime shape the lint rules read. Anything else is
+ * returned as is for schemaProblems to report.
+ */
+export function toLintShape(input: unknown): unknown {
+  if (!input || typeof input !== "object" || !Array.isArray((input as { panos?: unknown }).panos)) return input;
+  const { panos, ...rest } = input as { panos: unknown[] };
+  return { ...rest, pano0: panos[0], pano1: panos[1], pano2: panos[2], pano3: panos[3] };
+}
+
+/** Append packages to the end of their mode's pack, revision + 1. Throws on another mode's package. */
+export function addToPack(pack: PanoPack, packages: PanoPackage[]): PanoPack {
+  packages.forEach((pkg) => {
+    if (pkg.mode !== pack.header.pack) throw new Error(`${pkg.id} is a ${pkg.mode} package, not ${pack.header.pack}`);
+  });
+  return {
+    header: { ...pack.header, revision: pack.header.revision + 1 },
+    packages: [...pack.packages, ...packages],
+  };
+}
+
+/** Remove packages by id, revision + 1. Throws when an id is not in the pack. */
+export function removeFromPack(pack: PanoPack, ids: string[]): PanoPack {
+  ids.forEach((id) => {
+    if (!pack.packages.some((pkg) => pkg.id === id)) throw new Error(`package ${id} not found`);
+  });
+  return {
+    header: { ...pack.header, revision: pack.header.revision + 1 },
+    packages: pack.packages.filter((pkg) => !ids.includes(pkg.id)),
+  };
+}
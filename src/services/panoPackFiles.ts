@@ -0,0 +1,49 @@
+/**
+ * Pano Pack Files — Node tarafı (build, API route'ları, testler, CLI)
+ *
+ * Paket dosyalarını data/packs/'ten okur / yazar. public/ altında değiller:
+ * cevaplar tarayıcıya hiç gitmez, turları sunucu dağıtır. fs kullandığı için
+ * client bileşenlerinden import edilmez; sadece memory backend'de tarayıcı
+ * panoPacks.loadPack ile aynı dosyaları /api/packs üzerinden alır.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { PACK_IDS, PackId, PanoPack, installPack, isPackLoaded, parsePack, serializePack } from "./panoPacks";
+
+export const PACKS_DIR = path.join(process.cwd(), "data", "packs");
+
+export function packFilePath(pack: PackId, dir: string = PACKS_DIR): string {
+  return path.join(dir, `${pack}.ndjson`);
+}
+
+/** Parse one pack file (migrated to the current schema) */
+export function readPackFile(pack: PackId, dir: string = PACKS_DIR): PanoPack {
+  const parsed = parsePack(fs.readFileSync(packFilePath(pack, dir), "utf-8"));
+  if (parsed.header.pack !== pack) {
+    throw new Error(`${packFilePath(pack, dir)} holds the ${parsed.header.pack} pack`);
+  }
+  return parsed;
+}
+
+/** Write a pack at the current schema, keeping a .bak of the previous file */
+export function writePackFile(pack: PanoPack, dir: string = PACKS_DIR): string {
+  const file = packFilePath(pack.header.pack, dir);
+  if (fs.existsSync(file)) fs.copyFileSync(file, file + ".bak");
+  fs.writeFileSync(file, serializePack(pack), "utf-8");
+  return file;
+}
+
+/**
+ * Install packs from disk into the shared store (sync, idempotent).
+ * Already installed packs are kept unless `force`.
+ */
+export function installPacksFromDisk(
+  packs: PackId[] = PACK_IDS,
+  options: { dir?: string; force?: boolean } = {}
+): void {
+  packs.forEach((pack) => {
+    if (!options.force && isPackLoaded(pack)) return;
+    installPack(readPackFile(pack, options.dir));
+  });
+}
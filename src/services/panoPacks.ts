@@ -0,0 +1,259 @@
+/**
+ * Pano Packs — curated packages as versioned data, not code
+ *
+ * The curated PanoPackages live in data/packs/{urban,geo}.ndjson — one pack
+ * per game mode — instead of the client bundle. Editing a location is a data
+ * change, not a code change. The files are server-only: a pack is a panoId →
+ * answer table, so browsers never get one — rounds are dealt by the server
+ * (roundAuthority, soloRoundAuthority) and carry only the pano.
+ *
+ * File format (NDJSON): line 1 is the header, then one package per line
+ *   {"schemaVersion":2,"pack":"urban","revision":1}
+ *   {"id":"ist_fatih_1","mode":"urban",…,"panos":[{…},{…},{…},{…}],"locationName":"Fatih, İstanbul"}
+ * A single JSON document { schemaVersion, pack, revision, packages: [...] } is
+ * accepted too. revision = content version, bumped on every edit.
+ *
+ * Schema versions (PACK_SCHEMA_VERSION = current):
+ *   1  arms as pano0..pano3 fields — the old data/panoPackages.ts shape
+ *   2  arms as one 4-element `panos` array
+ * Older files are migrated on load, one MIGRATIONS step per version; a file
+ * newer than the app is rejected. At runtime every package is a PanoPackage.
+ *
+ * Store: installed packs are module state. Consumers read getLoadedPackages()
+ * synchronously (locationEngine enrichment, urbanSeeds, seoData) and
+ * re-derive when getPacksRevision() changes. Node (build, API routes, tests, CLI) reads the files through
+ * panoPackFiles.ts; only the memory backend's in-browser authorities
+ * loadPack(mode) over HTTP (/api/packs answers 404 everywhere else).
+ */
+
+import { PanoPackage, PanoData, GameMode } from "@/types";
+
+// ==================== CONSTANTS ====================
+
+export const PACK_SCHEMA_VERSION = 2;
+
+export type PackId = GameMode;
+export const PACK_IDS: PackId[] = ["urban", "geo"];
+
+/** Where the memory backend's in-browser authorities fetch packs ({base}/{pack}.ndjson) */
+export const PACKS_BASE_URL = "/api/packs";
+
+// ==================== TYPES ====================
+
+export interface PackHeader {
+  schemaVersion: number;
+  pack: PackId;
+  revision: number;
+}
+
+/** A parsed pack, always at PACK_SCHEMA_VERSION */
+export interface PanoPack {
+  header: PackHeader;
+  packages: PanoPackage[];
+}
+
+/** Package as stored in a schema v2 file */
+export type StoredPackage = Omit<PanoPackage, "pano0" | "pano1" | "pano2" | "pano3"> & {
+  panos: [PanoData, PanoData, PanoData, PanoData];
+};
+
+export class PackFormatError extends Error {
+  constructor(message: string, public readonly line: number | null = null) {
+    super(line === null ? message : `line ${line}: ${message}`);
+    this.name = "PackFormatError";
+  }
+}
+
+// ==================== MIGRATIONS ====================
+
+type RawPackage = Record<string, unknown>;
+
+/** MIGRATIONS[v] turns a schema v package into schema v + 1 */
+export const MIGRATIONS: Record<number, (pkg: RawPackage) => RawPackage> = {
+  1: ({ pano0, pano1, pano2, pano3, ...rest }) => ({ ...rest, panos: [pano0, pano1, pano2, pano3] }),
+};
+
+/** Bring one stored package from `fromVersion` to PACK_SCHEMA_VERSION */
+export function migratePackage(pkg: RawPackage, fromVersion: number): RawPackage {
+  let migrated = pkg;
+  for (let version = fromVersion; version < PACK_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new PackFormatError(`no migration from schema ${version}`);
+    migrated = step(migrated);
+  }
+  return migrated;
+}
+
+// ==================== ENCODING ====================
+
+function isArm(value: unknown): value is PanoData {
+  const arm = value as PanoData;
+  return !!arm && typeof arm.panoId === "string" &&
+    Number.isFinite(arm.lat) && Number.isFinite(arm.lng) && Number.isFinite(arm.heading);
+}
+
+/** Stored (current schema) → runtime. Only the shape the engine relies on is checked; packageAuthoring lints the rest. */
+export function decodePackage(stored: RawPackage, line: number | null = null): PanoPackage {
+  const panos = stored.panos;
+  if (typeof stored.id !== "string" || !stored.id) throw new PackFormatError("package without id", line);
+  if (!Array.isArray(panos) || panos.length !== 4 || !panos.every(isArm)) {
+    throw new PackFormatError(`${stored.id}: panos must be 4 arms`, line);
+  }
+  if (typeof stored.locationName !== "string") throw new PackFormatError(`${stored.id}: locationName missing`, line);
+  const { panos: _arms, ...rest } = stored;
+  const [pano0, pano1, pano2, pano3] = panos as PanoData[];
+  return { ...(rest as Omit<PanoPackage, "pano0" | "pano1" | "pano2" | "pano3">), pano0, pano1, pano2, pano3 };
+}
+
+/** Runtime → stored (current schema), keys in the file's order */
+export function encodePackage(pkg: PanoPackage): StoredPackage {
+  return {
+    id: pkg.id,
+    mode: pkg.mode,
+    region: pkg.region,
+    roadType: pkg.roadType,
+    hintTags: pkg.hintTags,
+    qualityScore: pkg.qualityScore,
+    blacklist: pkg.blacklist,
+    panos: [pkg.pano0, pkg.pano1, pkg.pano2, pkg.pano3],
+    locationName: pkg.locationName,
+  };
+}
+
+function parseHeader(value: unknown): PackHeader {
+  const header = value as Partial<PackHeader> | null;
+  if (!header || !Number.isInteger(header.schemaVersion) || (header.schemaVersion as number) < 1) {
+    throw new PackFormatError("header needs an integer schemaVersion", 1);
+  }
+  if (header.schemaVersion! > PACK_SCHEMA_VERSION) {
+    throw new PackFormatError(`schema ${header.schemaVersion} is newer than this app (${PACK_SCHEMA_VERSION})`, 1);
+  }
+  if (!PACK_IDS.includes(header.pack as PackId)) throw new PackFormatError(`unknown pack "${header.pack}"`, 1);
+  return { schemaVersion: header.schemaVersion!, pack: header.pack!, revision: Number(header.revision) || 0 };
+}
+
+/**
+ * Parse a pack file (NDJSON or one JSON document), migrating it to the
+ * current schema. Throws PackFormatError with the offending line.
+ */
+export function parsePack(text: string): PanoPack {
+  const trimmed = text.trim();
+  let header: PackHeader;
+  let rows: { value: unknown; line: number | null }[];
+
+  const document = (() => {
+    try {
+      const doc = JSON.parse(trimmed);
+      return doc && Array.isArray(doc.packages) ? (doc as { packages: unknown[] }) : null;
+    } catch {
+      return null;
+    }
+  })();
+
+  if (document) {
+    const { packages, ...rest } = document;
+    header = parseHeader(rest);
+    rows = packages.map((value) => ({ value, line: null }));
+  } else {
+    const lines = text.split("\n");
+    const parseLine = (index: number): unknown => {
+      try {
+        return JSON.parse(lines[index]);
+      } catch {
+        throw new PackFormatError("invalid JSON", index + 1);
+      }
+    };
+    header = parseHeader(parseLine(0));
+    rows = [];
+    for (let i = 1; i < lines.length; i++) {
+      if (lines[i].trim()) rows.push({ value: parseLine(i), line: i + 1 });
+    }
+  }
+
+  const seen = new Set<string>();
+  const packages = rows.map(({ value, line }) => {
+    if (!value || typeof value !== "object") throw new PackFormatError("package must be an object", line);
+    const pkg = decodePackage(migratePackage(value as RawPackage, header.schemaVersion), line);
+    if (pkg.mode !== header.pack) throw new PackFormatError(`${pkg.id}: mode ${pkg.mode} in the ${header.pack} pack`, line);
+    if (seen.has(pkg.id)) throw new PackFormatError(`${pkg.id}: duplicate id`, line);
+    seen.add(pkg.id);
+    return pkg;
+  });
+
+  return { header: { ...header, schemaVersion: PACK_SCHEMA_VERSION }, packages };
+}
+
+/** Pack → NDJSON at the current schema (trailing newline) */
+export function serializePack(pack: PanoPack): string {
+  const header: PackHeader = { schemaVersion: PACK_SCHEMA_VERSION, pack: pack.header.pack, revision: pack.header.revision };
+  return [header, ...pack.packages.map(encodePackage)].map((row) => JSON.stringify(row)).join("\n") + "\n";
+}
+
+// ==================== STORE ====================
+
+const installed = new Map<PackId, PanoPack>();
+const inFlight = new Map<PackId, Promise<PanoPackage[]>>();
+let packsRevision = 0;
+
+/** Make a parsed pack the live one for its mode */
+export function installPack(pack: PanoPack): void {
+  installed.set(pack.header.pack, pack);
+  packsRevision++;
+  console.log(`[PanoPacks] ${pack.header.pack} r${pack.header.revision}: ${pack.packages.length} packages`);
+}
+
+/** Drop installed packs (tests) */
+export function clearPacks(): void {
+  installed.clear();
+  inFlight.clear();
+  packsRevision++;
+}
+
+/** Bumped on every install — derived caches compare against it */
+export function getPacksRevision(): number {
+  return packsRevision;
+}
+
+export function isPackLoaded(pack: PackId): boolean {
+  return installed.has(pack);
+}
+
+export function getPackHeader(pack: PackId): PackHeader | null {
+  return installed.get(pack)?.header ?? null;
+}
+
+/** Installed packages of one mode, or of every installed pack (urban first) */
+export function getLoadedPackages(mode?: PackId): PanoPackage[] {
+  if (mode) return installed.get(mode)?.packages ?? [];
+  return PACK_IDS.flatMap((id) => installed.get(id)?.packages ?? []);
+}
+
+/**
+ * Fetch + install a pack once (concurrent callers share the request).
+ * Already installed → no request.
+ */
+export function loadPack(
+  pack: PackId,
+  fetchImpl: typeof fetch = fetch,
+  baseUrl: string = PACKS_BASE_URL
+): Promise<PanoPackage[]> {
+  const loaded = installed.get(pack);
+  if (loaded) return Promise.resolve(loaded.packages);
+  const pending = inFlight.get(pack);
+  if (pending) return pending;
+
+  const request = (async () => {
+    try {
+      const response = await fetchImpl(`${baseUrl}/${pack}.ndjson`);
+      if (!response.ok) throw new Error(`pack ${pack}: HTTP ${response.status}`);
+      const parsed = parsePack(await response.text());
+      if (parsed.header.pack !== pack) throw new PackFormatError(`asked for ${pack}, got ${parsed.header.pack}`);
+      installPack(parsed);
+      return parsed.packages;
+    } finally {
+      inFlight.delete(pack);
+    }
+  })();
+  inFlight.set(pack, request);
+  return request;
+}
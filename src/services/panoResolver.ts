@@ -0,0 +1,147 @@
+/**
+ * Pano Resolver — Street View lookups by location for the round authorities
+ *
+ * Dynamic generation (dynamicPanoService, dynamicUrbanGenerator) and the
+ * expired-pano refresh need "nearest outdoor pano around this point". The
+ * browser's StreetViewService doesn't exist where rounds are dealt, so the
+ * lookup is injected:
+ *
+ * - createMetadataPanoResolver({ apiKey }): server — Street View Image
+ *   Metadata API (REST), keyed with GOOGLE_MAPS_SERVER_KEY. The browser key
+ *   is referrer-restricted and can't be used from the server.
+ * - createStreetViewServiceResolver(): browser — memory backend, where the
+ *   authorities run in the page.
+ * - budgetedPanoResolver(resolver, reserve): reserves every lookup in the
+ *   shared budget first (apiBudget); refused → no call, the draw stays static.
+ * - createLedgerPanoResolver(apiKey, storage, scope): the routes' combination —
+ *   metadata lookups reserved in the server ledger; no key → undefined.
+ * - createClientPanoResolver(): memory backend's — StreetViewService, reserved
+ *   through the tab's ledger (spendStreetViewCall).
+ *
+ * A failed lookup is null, never a throw — static selection is always safe.
+ */
+
+import { ApiCallKind, BudgetStorage, reserveApiCalls, spendStreetViewCall } from "./apiBudget";
+
+// ==================== TYPES ====================
+
+export interface PanoLookup {
+  lat: number;
+  lng: number;
+  /** Search radius in meters */
+  radius: number;
+  /** Budget kind the lookup is charged as */
+  kind: ApiCallKind;
+}
+
+export interface ResolvedPano {
+  panoId: string;
+  lat: number;
+  lng: number;
+}
+
+export type PanoResolver = (lookup: PanoLookup) => Promise<ResolvedPano | null>;
+
+export interface MetadataResolverOptions {
+  /** GOOGLE_MAPS_SERVER_KEY */
+  apiKey: string;
+  fetchImpl?: typeof fetch;
+}
+
+export const STREET_VIEW_METADATA_URL = "https://maps.googleapis.com/maps/api/streetview/metadata";
+
+interface MetadataResponse {
+  status?: string;
+  pano_id?: string;
+  location?: { lat?: number; lng?: number };
+}
+
+// ==================== RESOLVERS ====================
+
+/** Server: nearest outdoor pano via the Street View Image Metadata API */
+export function createMetadataPanoResolver(options: MetadataResolverOptions): PanoResolver {
+  const fetchImpl = options.fetchImpl || fetch;
+  return async ({ lat, lng, radius }) => {
+    const params = new URLSearchParams({
+      location: `${lat},${lng}`,
+      radius: String(Math.round(radius)),
+      source: "outdoor",
+      key: options.apiKey,
+    });
+    try {
+      const response = await fetchImpl(`${STREET_VIEW_METADATA_URL}?${params}`);
+      if (!response.ok) {
+        console.warn(`[PanoResolver] metadata HTTP ${response.status}`);
+        return null;
+      }
+      const data = (await response.json()) as MetadataResponse;
+      if (data.status !== "OK" || !data.pano_id) {
+        if (data.status !== "ZERO_RESULTS" && data.status !== "NOT_FOUND") console.warn(`[PanoResolver] metadata status ${data.status}`);
+        return null;
+      }
+      return { panoId: data.pano_id, lat: data.location?.lat ?? lat, lng: data.location?.lng ?? lng };
+    } catch (err) {
+      console.warn("[PanoResolver] metadata lookup failed:", err);
+      return null;
+    }
+  };
+}
+
+/** Browser (memory backend): the page's StreetViewService; null until Google Maps is loaded */
+export function createStreetViewServiceResolver(): PanoResolver {
+  let service: google.maps.StreetViewService | null = null;
+  return ({ lat, lng, radius }) => {
+    if (!service && typeof google !== "undefined" && google.maps) service = new google.maps.StreetViewService();
+    if (!service) return Promise.resolve(null);
+    return new Promise((resolve) => {
+      service!.getPanorama(
+        {
+          location: { lat, lng },
+          radius,
+          preference: google.maps.StreetViewPreference.NEAREST,
+          source: google.maps.StreetViewSource.OUTDOOR,
+        },
+        (data, status) => {
+          if (status === google.maps.StreetViewStatus.OK && data?.location?.pano) {
+            resolve({ panoId: data.location.pano, lat: data.location.latLng?.lat() ?? lat, lng: data.location.latLng?.lng() ?? lng });
+          } else {
+            resolve(null);
+          }
+        }
+      );
+    });
+  };
+}
+
+/** Reserve each lookup in the shared budget first — refused (or ledger error) → null, no Google call */
+export function budgetedPanoResolver(resolver: PanoResolver, reserve: (kind: ApiCallKind) => Promise<boolean>): PanoResolver {
+  return async (lookup) => {
+    let reserved = false;
+    try {
+      reserved = await reserve(lookup.kind);
+    } catch (err) {
+      console.warn("[PanoResolver] budget unavailable — static-only:", err);
+    }
+    return reserved ? resolver(lookup) : null;
+  };
+}
+
+/** Server routes: metadata lookups reserved under `scope` in the ledger; no server key → undefined (static-only) */
+export function createLedgerPanoResolver(
+  apiKey: string | undefined,
+  storage: BudgetStorage,
+  scope: string,
+  fetchImpl?: typeof fetch
+): PanoResolver | undefined {
+  if (!apiKey) return undefined;
+  return budgetedPanoResolver(createMetadataPanoResolver({ apiKey, fetchImpl }), async (kind) => {
+    const result = await reserveApiCalls(storage, scope, kind, 1, Date.now());
+    if (!result.ok) console.log(`[PanoResolver] ${kind} refused (${result.reason}) — static-only for ${scope}`);
+    return result.ok;
+  });
+}
+
+/** Memory backend: the page's StreetViewService, each lookup reserved through the tab's ledger */
+export function createClientPanoResolver(): PanoResolver {
+  return budgetedPanoResolver(createStreetViewServiceResolver(), (kind) => spendStreetViewCall(kind));
+}
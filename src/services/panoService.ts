@@ -1,35 +1,34 @@
 /**
  * Pano Servisi
- * Dinamik pano üretimi + statik havuz entegrasyonu
+ * Tarayıcı tarafı Street View kurulumu
  *
- * Binlerce benzersiz lokasyon için:
- * 1. Dinamik: Google Street View API ile gerçek zamanlı pano bulma
- * 2. Statik: Önceden hazırlanmış 150+ pano paketi
+ * Turları sunucu seçer (deal-round, solo-round): paketler sunucuya özel,
+ * tarayıcı sadece turun panosunu alır. Seçim, zorluk kalibrasyonu ve
+ * karantina orada uygulanır; burada yalnızca pano yüklemelerinin yazıldığı
+ * ortak bütçe defteri bağlanır.
  */
 
-import { PanoPackage, GameMode } from "@/types";
-import {
-  getNextPanoPackage,
-  onNewGameStart,
-  initStreetViewService,
-  getUsedLocationCount,
-  resetUsedLocations,
-  resetProvinceBag,
-} from "./dynamicPanoService";
-import { getRandomPanoPackageFromData } from "@/data/panoPackages";
-
-export { initStreetViewService, onNewGameStart, getUsedLocationCount, resetUsedLocations, resetProvinceBag };
+import { createRemoteBudgetLedger, installApiBudget, settleBudgetRequest } from "./apiBudget";
+import { createFirebaseBudgetStorage } from "./firebaseBudgetStorage";
+import { createFirebaseRoomStorage } from "./firebaseRoomStorage";
+import { getAuthToken, getAuthUid, USE_MEMORY_DATABASE } from "@/config/firebase";
 
 /**
- * Belirli bir mod için benzersiz pano paketi getir
- * Her çağrıda farklı bir lokasyon döndürür (aynı oturum içinde tekrar etmez)
+ * Ortak Street View bütçe defterini (apiBudget/) bağla — ayırmalar ve pano
+ * yüklemeleri /api/budget'a gider (memory backend'de sunucu yok → süreç
+ * içinde). Bağlanamazsa defter olmadan devam edilir.
  */
-export async function getRandomPanoPackage(mode: GameMode): Promise<PanoPackage | null> {
+export async function initApiBudget(): Promise<void> {
   try {
-    const pano = await getNextPanoPackage(mode);
-    return pano;
+    if (USE_MEMORY_DATABASE) {
+      const uid = await getAuthUid();
+      const storage = createFirebaseBudgetStorage();
+      const rooms = createFirebaseRoomStorage();
+      installApiBudget((request) => settleBudgetRequest(storage, rooms, uid, request, Date.now()));
+    } else {
+      installApiBudget(createRemoteBudgetLedger(getAuthToken));
+    }
   } catch (error) {
-    console.error("Pano paketi alınamadı:", error);
-    return getRandomPanoPackageFromData(mode);
+    console.warn("API bütçe defteri bağlanamadı:", error);
   }
 }
@@ -13,6 +13,9 @@
  * - province: string
  * - clusterId: string (province + grid cell)
  * - timestamp: number (for age-based eviction if needed)
+ *
+ * Quarantined panoIds (locationReports.ts) are rejected like permanent
+ * history entries — a reported-broken pano is never generated again.
  */
 
 // ==================== TYPES ====================
@@ -40,6 +43,7 @@ const HISTORY_VERSION = 1;
 
 let inMemoryHistory: LocationFingerprint[] = [];
 let isInitialized = false;
+let quarantinedPanoIds: Set<string> = new Set();
 
 // ==================== LOCAL STORAGE BACKEND ====================
 
@@ -100,9 +104,8 @@ export async function loadFromFirebase(roomId: string): Promise<LocationFingerpr
 
   try {
     // Dynamic import to avoid SSR issues
-    const { getDatabase, ref, get } = await import("firebase/database");
-    const db = getDatabase();
-    const historyRef = ref(db, `rooms/${roomId}/locationHistory`);
+    const { database, ref, get } = await import("@/config/firebase");
+    const historyRef = ref(database, `rooms/${roomId}/locationHistory`);
     const snapshot = await get(historyRef);
 
     if (!snapshot.exists()) return [];
@@ -129,9 +132,8 @@ export async function saveToFirebase(
   if (typeof window === "undefined") return;
 
   try {
-    const { getDatabase, ref, set } = await import("firebase/database");
-    const db = getDatabase();
-    const historyRef = ref(db, `rooms/${roomId}/locationHistory`);
+    const { database, ref, set } = await import("@/config/firebase");
+    const historyRef = ref(database, `rooms/${roomId}/locationHistory`);
     await set(historyRef, fingerprints.slice(-HISTORY_WINDOW));
   } catch {
     // Firebase unavailable — silent fail
@@ -178,14 +180,25 @@ export function isLocationHashInHistory(locationHash: string): boolean {
   return inMemoryHistory.some(fp => fp.locationHash === locationHash);
 }
 
+/**
+ * Replace the quarantined panoIds (reported-broken panos).
+ */
+export function setQuarantinedPanoIds(panoIds: Iterable<string>): void {
+  quarantinedPanoIds = new Set(panoIds);
+}
+
 /**
  * Check if a location passes persistent anti-repeat checks.
  * Returns rejection reason or null if passes.
+ * Quarantine applies even before the history is initialized.
  */
 export function checkPersistentHistory(
   panoId: string,
   locationHash: string
 ): string | null {
+  if (quarantinedPanoIds.has(panoId)) {
+    return "quarantined_panoId";
+  }
   if (!isInitialized) return null; // Not initialized — skip checks
 
   if (isPanoIdInHistory(panoId)) {
@@ -262,6 +275,7 @@ export function clearPersistentHistory(roomId?: string): void {
 export function resetPersistentHistoryState(): void {
   inMemoryHistory = [];
   isInitialized = false;
+  quarantinedPanoIds = new Set();
 }
 
 // ==================== EXPORTS FOR TESTING ====================
@@ -0,0 +1,276 @@
+/**
+ * Player Profile — optional career statistics keyed by auth uid
+ *
+ * Players stay anonymous; a profile is opt-in ("Profil oluştur" on /profil).
+ * Once it exists, every finished game (multiplayer, solo, Günün Turu) is
+ * folded into lifetime totals at gameOver:
+ * - games / rounds / total score, average distance (guessed rounds only)
+ * - best round, best game
+ * - per-region accuracy, per-mode averages
+ *
+ * Stored as running sums (not averages) so a game is one atomic transaction;
+ * profileStats() derives the averages. lastGameId makes a repeated gameOver
+ * write (re-render, second tab) a no-op.
+ *
+ * Round data source:
+ * - Multiplayer: roundResults is visible at each roundEnd → collectRound()
+ *   keeps this player's row; at gameOver roundScores is authoritative for
+ *   the score (rounds missed by a reload still count, without distance)
+ * - Solo: SoloRoundRecord already holds distance + region
+ */
+
+import { Room, GameMode, RegionId, MAP_REGIONS } from "@/types";
+import { SoloResult } from "./soloGame";
+
+// ==================== CONSTANTS ====================
+
+/** Distance sentinel for "no guess" (time up / skipped) */
+export const NO_GUESS_DISTANCE = 9999;
+
+// ==================== TYPES ====================
+
+export interface CareerRound {
+  round: number;
+  score: number;
+  distance: number | null;    // km, null = no guess / unknown
+  region: RegionId | null;
+  locationName: string | null;
+}
+
+export interface CareerGame {
+  id: string;                 // idempotency key
+  name: string;
+  mode: GameMode;
+  rounds: CareerRound[];
+  finishedAt: number;
+}
+
+export interface RegionStats {
+  rounds: number;
+  guessedRounds: number;
+  totalScore: number;
+  totalDistance: number;
+}
+
+export interface ModeStats {
+  games: number;
+  rounds: number;
+  totalScore: number;
+}
+
+/** profiles/{uid} */
+export interface PlayerProfile {
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  lastGameId: string | null;
+  games: number;
+  rounds: number;
+  guessedRounds: number;
+  totalScore: number;
+  totalDistance: number;
+  bestRound: { score: number; distance: number | null; locationName: string | null; at: number } | null;
+  bestGame: { score: number; rounds: number; mode: GameMode; at: number } | null;
+  regions?: Partial<Record<RegionId, RegionStats>>;
+  modes?: Partial<Record<GameMode, ModeStats>>;
+}
+
+export interface ProfileStats {
+  averageScore: number;             // per round
+  averageDistance: number | null;   // km, guessed rounds
+  regions: { region: RegionId; name: string; rounds: number; averageScore: number; averageDistance: number | null }[];
+  modes: { mode: GameMode; games: number; averageGameScore: number; averageRoundScore: number }[];
+}
+
+export interface PersonalBests {
+  bestRound: number | null;
+  bestGame: number | null;
+  newBestRound: boolean;
+  newBestGame: boolean;
+}
+
+export interface ProfileStorage {
+  getProfile(uid: string): Promise<PlayerProfile | null>;
+  /** false when a profile already exists */
+  createProfile(uid: string, profile: PlayerProfile): Promise<boolean>;
+  deleteProfile(uid: string): Promise<void>;
+  /** null when there is no profile or the game was already recorded */
+  recordGame(uid: string, game: CareerGame): Promise<{ before: PlayerProfile; after: PlayerProfile } | null>;
+}
+
+// ==================== PROFILE MATH ====================
+
+export function createPlayerProfile(name: string, now: number): PlayerProfile {
+  return {
+    name: name.trim().slice(0, 20) || "Oyuncu",
+    createdAt: now,
+    updatedAt: now,
+    lastGameId: null,
+    games: 0,
+    rounds: 0,
+    guessedRounds: 0,
+    totalScore: 0,
+    totalDistance: 0,
+    bestRound: null,
+    bestGame: null,
+    regions: {},
+    modes: {},
+  };
+}
+
+function isGuessed(round: CareerRound): round is CareerRound & { distance: number } {
+  return round.distance !== null && round.distance < NO_GUESS_DISTANCE;
+}
+
+/** Fold one finished game into the lifetime sums (pure, idempotent by game id) */
+export function applyGameToProfile(profile: PlayerProfile, game: CareerGame): PlayerProfile {
+  if (profile.lastGameId === game.id || game.rounds.length === 0) return profile;
+
+  const regions: Partial<Record<RegionId, RegionStats>> = { ...(profile.regions || {}) };
+  let guessedRounds = 0;
+  let gameDistance = 0;
+  let bestRound = profile.bestRound;
+
+  game.rounds.forEach((round) => {
+    const guessed = isGuessed(round);
+    if (guessed) {
+      guessedRounds++;
+      gameDistance += round.distance;
+    }
+    if (round.region) {
+      const current = regions[round.region] || { rounds: 0, guessedRounds: 0, totalScore: 0, totalDistance: 0 };
+      regions[round.region] = {
+        rounds: current.rounds + 1,
+        guessedRounds: current.guessedRounds + (guessed ? 1 : 0),
+        totalScore: current.totalScore + round.score,
+        totalDistance: current.totalDistance + (guessed ? round.distance : 0),
+      };
+    }
+    if (!bestRound || round.score > bestRound.score) {
+      bestRound = { score: round.score, distance: guessed ? round.distance : null, locationName: round.locationName, at: game.finishedAt };
+    }
+  });
+
+  const gameScore = game.rounds.reduce((sum, r) => sum + r.score, 0);
+  const mode = profile.modes?.[game.mode] || { games: 0, rounds: 0, totalScore: 0 };
+
+  return {
+    ...profile,
+    name: game.name.trim().slice(0, 20) || profile.name,
+    updatedAt: game.finishedAt,
+    lastGameId: game.id,
+    games: profile.games + 1,
+    rounds: profile.rounds + game.rounds.length,
+    guessedRounds: profile.guessedRounds + guessedRounds,
+    totalScore: profile.totalScore + gameScore,
+    totalDistance: Math.round((profile.totalDistance + gameDistance) * 10) / 10,
+    bestRound,
+    bestGame: !profile.bestGame || gameScore > profile.bestGame.score
+      ? { score: gameScore, rounds: game.rounds.length, mode: game.mode, at: game.finishedAt }
+      : profile.bestGame,
+    regions,
+    modes: {
+      ...(profile.modes || {}),
+      [game.mode]: { games: mode.games + 1, rounds: mode.rounds + game.rounds.length, totalScore: mode.totalScore + gameScore },
+    },
+  };
+}
+
+/** Averages for the profile page */
+export function profileStats(profile: PlayerProfile): ProfileStats {
+  const average = (total: number, count: number) => (count > 0 ? Math.round(total / count) : 0);
+  return {
+    averageScore: average(profile.totalScore, profile.rounds),
+    averageDistance: profile.guessedRounds > 0 ? Math.round((profile.totalDistance / profile.guessedRounds) * 10) / 10 : null,
+    regions: (Object.keys(MAP_REGIONS) as RegionId[])
+      .filter((region) => (profile.regions?.[region]?.rounds || 0) > 0)
+      .map((region) => {
+        const stats = profile.regions![region]!;
+        return {
+          region,
+          name: MAP_REGIONS[region],
+          rounds: stats.rounds,
+          averageScore: average(stats.totalScore, stats.rounds),
+          averageDistance: stats.guessedRounds > 0 ? Math.round((stats.totalDistance / stats.guessedRounds) * 10) / 10 : null,
+        };
+      }),
+    modes: (["urban", "geo"] as GameMode[])
+      .filter((mode) => (profile.modes?.[mode]?.games || 0) > 0)
+      .map((mode) => {
+        const stats = profile.modes![mode]!;
+        return {
+          mode,
+          games: stats.games,
+          averageGameScore: average(stats.totalScore, stats.games),
+          averageRoundScore: average(stats.totalScore, stats.rounds),
+        };
+      }),
+  };
+}
+
+/** Bests after a game, flagged when this game set them */
+export function personalBests(before: PlayerProfile | null, after: PlayerProfile): PersonalBests {
+  return {
+    bestRound: after.bestRound?.score ?? null,
+    bestGame: after.bestGame?.score ?? null,
+    newBestRound: !!after.bestRound && (!before?.bestRound || after.bestRound.score > before.bestRound.score),
+    newBestGame: !!after.bestGame && (!before?.bestGame || after.bestGame.score > before.bestGame.score),
+  };
+}
+
+// ==================== GAME EXTRACTION ====================
+
+/** This player's row of the round that just ended (roundEnd only) */
+export function collectRound(room: Room, playerId: string): CareerRound | null {
+  if (room.status !== "roundEnd" || !room.roundResults) return null;
+  const result = room.roundResults.find((r) => r.playerId === playerId);
+  if (!result) return null;
+  return {
+    round: room.currentRound,
+    score: result.score,
+    distance: result.distance < NO_GUESS_DISTANCE ? result.distance : null,
+    region: room.currentPanoPackage?.region || null,
+    locationName: room.currentLocationName,
+  };
+}
+
+/**
+ * Finished multiplayer game → CareerGame. roundScores is authoritative;
+ * collected rows fill in distance / region where this client saw the round.
+ */
+export function buildCareerGame(room: Room, playerId: string, collected: CareerRound[]): CareerGame | null {
+  const player = room.players?.[playerId];
+  if (room.status !== "gameOver" || !player) return null;
+  // RTDB may store the array as an object
+  const scores: number[] = Array.isArray(player.roundScores) ? player.roundScores : Object.values(player.roundScores || {});
+  const byRound = new Map(collected.map((r) => [r.round, r]));
+  const rounds: CareerRound[] = scores.map((score, i) => {
+    const seen = byRound.get(i + 1);
+    return seen
+      ? { ...seen, score }
+      : { round: i + 1, score, distance: null, region: null, locationName: null };
+  });
+  return {
+    id: `${room.id}_${room.lastActivityAt || 0}`,
+    name: player.name,
+    mode: room.gameMode,
+    rounds,
+    finishedAt: room.lastActivityAt || Date.now(),
+  };
+}
+
+export function careerGameFromSolo(result: SoloResult): CareerGame {
+  return {
+    id: result.id,
+    name: result.playerName,
+    mode: result.gameMode,
+    rounds: result.rounds.map((r) => ({
+      round: r.round,
+      score: r.score,
+      distance: r.distance < NO_GUESS_DISTANCE ? r.distance : null,
+      region: r.region || null,
+      locationName: r.locationName,
+    })),
+    finishedAt: result.finishedAt,
+  };
+}
@@ -0,0 +1,1040 @@
+/**
+ * RoomEngine — headless multiplayer room logic
+ *
+ * Everything useRoom used to do against Firebase directly, minus React:
+ * roundEnd lock elector, host migration, ghost cleanup, watchdog ticks,
+ * start/next/restart transitions and guess submission. State transitions come
+ * from roomStateMachine (pure); persistence goes through a RoomStorageAdapter
+ * (Firebase in production, in-memory fake in tests). Scores are never written
+ * here — ended rounds are handed to a ScoringAuthority (scoringAuthority.ts).
+ * Rounds are dealt by a RoundAuthority (roundAuthority.ts): it keeps the
+ * answer in the server-only roundAnswers node and START_GAME / NEXT_ROUND
+ * publish only the pano; the scoring authority reveals the answer.
+ *
+ * RoomSession (openSession) is one client's view of one room: it reacts to
+ * listener snapshots with the host-migration election and the host's round-end
+ * triggers, and owns their guards and timers. useRoom keeps presence intervals,
+ * notifications and UI state; it calls into one engine instance.
+ */
+
+import { Room, Player, PlayerStatus, Coordinates, GameMode, GAME_MODE_CONFIG, ScoringProfileId, RoomSettings, RoundPano } from "@/types";
+import { trackEvent, trackError, trackDuplicateAttempt } from "@/utils/telemetry";
+import { OPS_METRICS } from "@/config/production";
+import { RoomStorageAdapter, RoundAnswerStorage } from "./roomStorage";
+import { ScoringAuthority, createScoringAuthority } from "./scoringAuthority";
+import { RoundAuthority, createRoundAuthority } from "./roundAuthority";
+import { resolveScoringProfile } from "./scoringProfiles";
+import {
+  DealtRound,
+  RoomEvent,
+  transitionRoom,
+  findOfflinePlayers,
+  evaluateWatchdog,
+  isAllGuessed,
+  isRoundTimeExpired,
+  getOnlinePlayers,
+  pickHandoffHost,
+  needsHostMigration,
+  electNewHost,
+  needsScoring,
+  WatchdogDecision,
+  WATCHDOG_MAX_ATTEMPTS,
+} from "./roomStateMachine";
+
+// ==================== INSTRUMENTATION ====================
+
+export interface RoundEndTimingContext {
+  serverNow?: number;  // from meta/serverNow, passed by caller
+}
+
+// Per-session counters (reset on page reload)
+export const mpCounters = {
+  listenerFireCount: 0,
+  statusWriteCount: 0,
+  roundEndLockAcquireAttempts: 0,
+  roundEndLockAcquired: 0,
+  roundEndWrites: 0,
+  ghostRemovedCount: 0,
+  notificationFiredCount: 0,
+  hostMigrationCount: 0,
+  watchdogFiredCount: 0,
+  watchdogFailureCount: 0,
+  roundEndLatencyMs: 0,
+  maxRoundEndLatencyMs: 0,
+  unhandledRejectionCount: 0,
+  firebaseInternalAbortCount: 0,  // Firebase SDK repoAbortTransactionsOnNode (not our bug)
+  scoringRequestCount: 0,
+  scoringFailureCount: 0,
+  roundEndLatencies: [] as number[],       // timeUp/watchdog/recovery latencies only
+  earlyFinishLatencies: [] as number[],    // allGuessed early-finish times (positive = ms before timer expiry)
+};
+
+/**
+ * Scalar counters for the "mpCounters" telemetry event (latency arrays stay
+ * local — each round already reports its own latency on "roundEnd").
+ * Cumulative per session: the ops dashboard keeps the last snapshot per session.
+ */
+export function mpCounterSnapshot(): Record<string, number> {
+  const { roundEndLatencies, earlyFinishLatencies, ...scalars } = mpCounters;
+  return { ...scalars, timerRounds: roundEndLatencies.length, earlyFinishRounds: earlyFinishLatencies.length };
+}
+
+export function roomStateDigest(room: Room, trigger: string, clientId: string): void {
+  const players = Object.values(room.players || {});
+  const playerSummary = players.map(p => ({
+    id: p.id.substring(0, 8),
+    name: p.name,
+    status: p.status || 'online',
+    lastSeen: p.lastSeen ? `${Math.round((Date.now() - p.lastSeen) / 1000)}s ago` : 'n/a',
+    hasGuessed: p.hasGuessed,
+    guessPresent: !!p.currentGuess,
+  }));
+
+  console.log(`[MP] ===== ROOM DIGEST (${trigger}) =====`);
+  console.log(`[MP] room=${room.id} client=${clientId.substring(0, 8)} status=${room.status} round=${room.currentRound}`);
+  console.log(`[MP] hostId=${room.hostId.substring(0, 8)} roundStartTime=${room.roundStartTime}`);
+  console.log(`[MP] expected=${room.expectedGuesses} current=${room.currentGuesses} active=${room.activePlayerCount}`);
+  console.log(`[MP] players=`, JSON.stringify(playerSummary));
+  console.log(`[MP] counters=`, JSON.stringify(mpCounters));
+  console.log(`[MP] ===================================`);
+}
+
+const TIMER_TRIGGERS = new Set(["timeUp", "watchdog", "recovery", "stuckRecovery", "postMigrationTimeExpired"]);
+
+// ==================== TYPES ====================
+
+export interface RoundEndRequest {
+  roomId: string;
+  roundId: number;
+  ownerId: string;
+  trigger: string;
+  timing?: RoundEndTimingContext;
+  forceOverrideStaleLock?: boolean; // watchdog stale-lock override
+}
+
+/** Per-round watchdog state held by the caller across ticks */
+export interface WatchdogState {
+  expectedRound: number;
+  roundStartTime: number;
+  timeLimit: number;
+  attempts: number;
+}
+
+export interface GuessOutcome {
+  accepted: boolean;
+  reason: string;
+}
+
+export interface RoomEngineOptions {
+  storage: RoomStorageAdapter;
+  now?: () => number; // client clock (tests inject a fake)
+  /** Who deals rounds (production: createRemoteRoundAuthority) */
+  rounds?: RoundAuthority;
+  /** Who scores ended rounds (production: createRemoteScoringAuthority) */
+  scoring?: ScoringAuthority;
+  /** Hidden answers for the default in-process authorities (memory storage in tests) */
+  answers?: RoundAnswerStorage;
+}
+
+// ==================== ENGINE ====================
+
+export class RoomEngine {
+  private readonly storage: RoomStorageAdapter;
+  private readonly now: () => number;
+  private readonly rounds: RoundAuthority;
+  private readonly scoring: ScoringAuthority;
+
+  constructor(options: RoomEngineOptions) {
+    const { storage, answers } = options;
+    this.storage = storage;
+    this.now = options.now || (() => Date.now());
+
+    const inProcess = () => {
+      if (!answers) throw new Error("[RoomEngine] in-process authorities need an answers storage");
+      return {
+        getRoom: storage.getRoom.bind(storage),
+        transactRoom: storage.transactRoom.bind(storage),
+        getRoundAnswer: answers.getRoundAnswer.bind(answers),
+        setRoundAnswer: answers.setRoundAnswer.bind(answers),
+      };
+    };
+    this.rounds = options.rounds || createRoundAuthority(inProcess());
+    this.scoring = options.scoring || createScoringAuthority(inProcess());
+  }
+
+  getServerNow(): number {
+    return this.storage.getServerNow();
+  }
+
+  readRoom(roomId: string): Promise<Room | null> {
+    return this.storage.getRoom(roomId);
+  }
+
+  subscribe(roomId: string, listener: (room: Room | null) => void): () => void {
+    return this.storage.subscribeRoom(roomId, listener);
+  }
+
+  /** Per-room client session (migration election + round-end triggers). Caller disposes it. */
+  openSession(roomId: string, selfId: string, options: RoomSessionOptions = {}): RoomSession {
+    return new RoomSession(this, roomId, selfId, this.now, options);
+  }
+
+  /**
+   * Apply a state-machine event inside a room transaction.
+   * Returns the committed room, or null if the transition was rejected.
+   */
+  private async applyEvent(roomId: string, event: RoomEvent, label: string): Promise<{ room: Room; gameOver: boolean } | null> {
+    let applied: { room: Room; gameOver: boolean } | null = null;
+    const outcome = await this.storage.transactRoom(roomId, (current) => {
+      applied = null;
+      // RTDB may hand us null from local cache first — return as-is so it retries with server data
+      if (!current) return current;
+      const result = transitionRoom(current, event);
+      if (!result.ok) {
+        console.log(`[MP] ${label} TX abort: ${result.reason}`);
+        return; // abort
+      }
+      applied = { room: result.room, gameOver: !!result.gameOver };
+      return result.room;
+    });
+    return outcome.committed ? applied : null;
+  }
+
+  // ==================== ROOM SETUP ====================
+
+  async createRoom(room: Room): Promise<void> {
+    const now = this.now();
+    await this.storage.setRoom(room.id, { ...room, createdAt: now, lastActivityAt: now });
+  }
+
+  async addPlayer(roomId: string, player: Player): Promise<void> {
+    // Player-level write first — room-level write requires being a player
+    await this.storage.setPlayer(roomId, player);
+    await this.storage.updateRoom(roomId, { lastActivityAt: this.now() });
+  }
+
+  async rejoinPlayer(roomId: string, playerId: string, name: string): Promise<void> {
+    await this.storage.updatePlayer(roomId, playerId, {
+      status: 'online' as PlayerStatus,
+      lastSeen: this.now(),
+      disconnectedAt: null,
+      name,
+    });
+  }
+
+  /** Mode switch carries that mode's default time / move limits — same UPDATE_SETTINGS checks as the lobby. */
+  async setGameMode(roomId: string, hostId: string, mode: GameMode): Promise<Room | null> {
+    const modeConfig = GAME_MODE_CONFIG[mode];
+    return this.updateSettings(roomId, hostId, {
+      gameMode: mode,
+      timeLimit: modeConfig.timeLimit,
+      moveLimit: modeConfig.moveLimit,
+    });
+  }
+
+  async setScoringProfile(roomId: string, hostId: string, profile: ScoringProfileId): Promise<Room | null> {
+    return this.updateSettings(roomId, hostId, { scoringProfile: profile });
+  }
+
+  /** Host lobby settings (mode / profile / rounds / time / moves) — transactional, waiting-only. Returns committed room or null. */
+  async updateSettings(roomId: string, hostId: string, settings: Partial<RoomSettings>): Promise<Room | null> {
+    const committed = await this.applyEvent(roomId, { type: "UPDATE_SETTINGS", actorId: hostId, settings }, "updateSettings");
+    if (committed) {
+      console.log(`[MP] Settings updated: mode=${committed.room.gameMode} rounds=${committed.room.totalRounds} time=${committed.room.timeLimit}s moves=${committed.room.moveLimit}`);
+    }
+    return committed ? committed.room : null;
+  }
+
+  // ==================== PRESENCE ====================
+
+  /** Heartbeat: lastSeen + online. Host also publishes serverNow while playing (watchdog clock). */
+  async heartbeat(roomId: string, playerId: string, publishServerNow: boolean): Promise<void> {
+    await this.storage.updatePlayer(roomId, playerId, {
+      lastSeen: this.now(),
+      status: 'online' as PlayerStatus,
+    });
+    if (publishServerNow) {
+      await this.storage.touchServerNow(roomId);
+    }
+  }
+
+  /** Server-side onDisconnect → status 'disconnected'. Returns cancel. */
+  registerDisconnect(roomId: string, playerId: string): () => void {
+    return this.storage.onPlayerDisconnect(roomId, playerId, { status: 'disconnected' as PlayerStatus });
+  }
+
+  markDisconnected(roomId: string, playerId: string): Promise<void> {
+    return this.storage.updatePlayer(roomId, playerId, { status: 'disconnected' as PlayerStatus });
+  }
+
+  /**
+   * Host-only cleanup cycle over a FRESH read (never a stale closure):
+   * removes ghosts past the grace period, marks stale heartbeats disconnected.
+   */
+  async cleanupOfflinePlayers(roomId: string, selfId: string): Promise<{ removed: string[]; markedStale: string[] }> {
+    const report = { removed: [] as string[], markedStale: [] as string[] };
+
+    let freshRoom: Room | null;
+    try {
+      freshRoom = await this.storage.getRoom(roomId);
+    } catch {
+      return report; // read failed — skip this cycle
+    }
+    if (!freshRoom?.players) return report;
+
+    const now = this.now();
+    const { ghosts, stale } = findOfflinePlayers(freshRoom, selfId, now);
+
+    for (const player of ghosts) {
+      mpCounters.ghostRemovedCount++;
+      console.log(`[MP] Ghost cleanup: removing ${player.name} (status=disconnected, ${now - (player.lastSeen || now)}ms stale) [total: ${mpCounters.ghostRemovedCount}]`);
+      try {
+        await this.storage.removePlayer(roomId, player.id);
+        // If game is playing and player hadn't guessed, decrement expectedGuesses
+        if (freshRoom.status === "playing" && !player.hasGuessed) {
+          await this.applyEvent(roomId, { type: "PLAYER_DROPPED" }, "ghostCleanup");
+        }
+        report.removed.push(player.id);
+        roomStateDigest(freshRoom, `ghostRemoved:${player.name}`, selfId);
+      } catch (err) {
+        console.warn("[MP] Ghost cleanup failed:", err);
+      }
+    }
+
+    for (const player of stale) {
+      console.log(`[MP] Stale heartbeat: ${player.name} (${now - player.lastSeen}ms, still 'online')`);
+      try {
+        await this.storage.updatePlayer(roomId, player.id, { status: 'disconnected' as PlayerStatus });
+        report.markedStale.push(player.id);
+      } catch (err) {
+        console.warn("[MP] Failed to mark stale player:", err);
+      }
+    }
+
+    return report;
+  }
+
+  // ==================== HOST MIGRATION ====================
+
+  /** Atomic host swap. Returns true only if this call committed the migration. */
+  async migrateHost(roomId: string, oldHostId: string, newHostId: string): Promise<boolean> {
+    const result = await this.applyEvent(roomId, { type: "MIGRATE_HOST", expectedHostId: oldHostId, newHostId }, "hostMigration");
+    return result !== null;
+  }
+
+  /**
+   * Post-migration recovery check. Returns true when done (roundEnd written,
+   * state moved on, or no longer host), false to keep polling.
+   */
+  async runPostMigrationCheck(roomId: string, selfId: string, round: number): Promise<boolean> {
+    const freshRoom = await this.storage.getRoom(roomId);
+    if (!freshRoom || freshRoom.status !== "playing" || freshRoom.currentRound !== round) {
+      console.log(`[MP] Post-migration recovery: room state changed, stopping`);
+      return true;
+    }
+    if (freshRoom.hostId !== selfId) {
+      console.log(`[MP] Post-migration recovery: no longer host, stopping`);
+      return true;
+    }
+
+    const now = this.now();
+    const allGuessedNow = isAllGuessed(freshRoom, now);
+    const timeExpired = isRoundTimeExpired(freshRoom, now);
+    const online = getOnlinePlayers(freshRoom, now).length;
+    const elapsed = freshRoom.roundStartTime ? (now - freshRoom.roundStartTime) / 1000 : 0;
+
+    if (allGuessedNow || timeExpired) {
+      const trigger = allGuessedNow ? "postMigrationAllGuessed" : "postMigrationTimeExpired";
+      console.log(`[MP] Post-migration recovery: triggering roundEnd (${trigger}, elapsed=${elapsed.toFixed(1)}s, online=${online})`);
+      await this.endRound({
+        roomId,
+        roundId: round,
+        ownerId: selfId,
+        trigger,
+      });
+      return true;
+    }
+    console.log(`[MP] Post-migration recovery: waiting (allGuessed=${allGuessedNow}, elapsed=${elapsed.toFixed(0)}s/${freshRoom.timeLimit || 90}s, online=${online})`);
+    return false;
+  }
+
+  // ==================== ROUND END LOCK + WRITE ====================
+  // Acquires roundEndLock and writes roundEnd in a single transaction.
+  // Idempotent: if lock already acquired for this round, or status != playing, aborts.
+
+  async endRound(request: RoundEndRequest): Promise<boolean> {
+    const { roomId, roundId, ownerId, trigger, timing = {}, forceOverrideStaleLock = false } = request;
+
+    mpCounters.roundEndLockAcquireAttempts++;
+    console.log(`[MP] acquireAndWriteRoundEnd: ENTER trigger=${trigger} roundId=${roundId} owner=${ownerId.substring(0, 8)} attempt=#${mpCounters.roundEndLockAcquireAttempts}`);
+
+    const freshRoom = await this.storage.getRoom(roomId);
+
+    if (!freshRoom || freshRoom.status !== "playing" || freshRoom.currentRound !== roundId) {
+      console.log(`[MP] roundEnd abort: stale state (status=${freshRoom?.status}, round=${freshRoom?.currentRound}, expected=${roundId}) trigger=${trigger}`);
+      return false;
+    }
+
+    // Check lock — if already locked for this round, abort (unless forcing stale override)
+    const existingLock = freshRoom.roundEndLock;
+    if (existingLock && existingLock.roundId === roundId) {
+      if (!forceOverrideStaleLock) {
+        console.log(`[MP] roundEnd abort: lock already held by ${existingLock.lockedBy.substring(0, 8)} for round ${roundId} trigger=${trigger}`);
+        return false;
+      }
+      console.log(`[MP] roundEnd: OVERRIDING stale lock held by ${existingLock.lockedBy.substring(0, 8)} (age=${this.now() - existingLock.lockedAt}ms) trigger=${trigger}`);
+    }
+
+    // Cevap sunucuda kalır — puanlama otoritesi puanlarken açar
+    const committed = await this.applyEvent(roomId, {
+      type: "END_ROUND",
+      actorId: ownerId,
+      roundId,
+      lockedAt: this.now(),
+      forceOverrideStaleLock,
+    }, `roundEnd(${trigger})`);
+
+    if (!committed) {
+      console.log(`[MP] RoundEnd NOT committed: round=${roundId} trigger=${trigger} — transaction aborted`);
+      return false;
+    }
+
+    mpCounters.roundEndLockAcquired++;
+    mpCounters.roundEndWrites++;
+
+    // Compute roundEnd latency — different metric depending on trigger type
+    const now = timing.serverNow || this.now();
+    const expectedEnd = freshRoom.roundStartTime
+      ? freshRoom.roundStartTime + (freshRoom.timeLimit || 90) * 1000
+      : now;
+    const timeDelta = now - expectedEnd;
+    const timeSource = timing.serverNow ? "server" : "client";
+    const isTimerTrigger = TIMER_TRIGGERS.has(trigger);
+
+    if (isTimerTrigger) {
+      // Timer-expiry triggers: latency = time AFTER timer expired (should be small positive)
+      mpCounters.roundEndLatencyMs = timeDelta;
+      mpCounters.maxRoundEndLatencyMs = Math.max(mpCounters.maxRoundEndLatencyMs, timeDelta);
+      mpCounters.roundEndLatencies.push(timeDelta);
+      console.log(`[MP] RoundEndLatency: ${timeDelta}ms (source=${timeSource}, trigger=${trigger})`);
+      if (timeDelta > OPS_METRICS.ROUND_END_SLO_MS) {
+        console.warn(`[MP] RoundEndLatency SLO breach: ${timeDelta}ms`);
+      }
+    } else {
+      // allGuessed / postMigrationAllGuessed: earlyFinish = time BEFORE timer would expire (positive = early)
+      const earlyFinishByMs = -timeDelta;
+      mpCounters.earlyFinishLatencies.push(earlyFinishByMs);
+      console.log(`[MP] EarlyFinish: ${earlyFinishByMs}ms before timer expiry (source=${timeSource}, trigger=${trigger})`);
+    }
+
+    const scoringProfile = resolveScoringProfile(freshRoom.scoringProfile);
+    trackEvent("roundEnd", {
+      roundId,
+      trigger,
+      scoringProfile,
+      timeSource,
+      players: Object.keys(freshRoom.players || {}).length,
+      ...(isTimerTrigger ? { latencyMs: timeDelta } : { earlyFinishMs: -timeDelta }),
+    });
+    console.log(`[MP] RoundEnd COMMITTED: round=${roundId} trigger=${trigger} by=${ownerId.substring(0, 8)} scoring=${scoringProfile}`);
+    console.table({
+      "Round": roundId,
+      "Trigger": trigger,
+      "Scoring Profile": scoringProfile,
+      "Lock Attempts": mpCounters.roundEndLockAcquireAttempts,
+      "Lock Acquired": mpCounters.roundEndLockAcquired,
+      "RoundEnd Writes": mpCounters.roundEndWrites,
+      "Ghosts Removed": mpCounters.ghostRemovedCount,
+      "Players": Object.keys(freshRoom.players || {}).length,
+      "TimeDelta (ms)": timeDelta,
+      "Metric": isTimerTrigger ? `latency=${timeDelta}ms` : `earlyFinish=${-timeDelta}ms`,
+    });
+    roomStateDigest(committed.room, `roundEnd:${trigger}`, ownerId);
+
+    await this.requestScoring(roomId, roundId, trigger);
+    return true;
+  }
+
+  /**
+   * Ask the scoring authority to score an ended round. Failures are logged, not
+   * thrown — advanceRound retries before NEXT_ROUND (which requires a scored round).
+   */
+  private async requestScoring(roomId: string, roundId: number, trigger: string): Promise<boolean> {
+    mpCounters.scoringRequestCount++;
+    try {
+      const outcome = await this.scoring.scoreRound(roomId, roundId);
+      console.log(`[MP] Scoring: round=${roundId} scored=${outcome.scored} reason=${outcome.reason} trigger=${trigger}`);
+      return outcome.scored;
+    } catch (err) {
+      mpCounters.scoringFailureCount++;
+      console.error(`[MP] Scoring request failed: round=${roundId} trigger=${trigger}`, err);
+      return false;
+    }
+  }
+
+  // ==================== WATCHDOG ====================
+
+  /**
+   * One host watchdog tick. Reads fresh state, decides via evaluateWatchdog,
+   * resolves the round if needed. state.attempts is advanced in place.
+   */
+  async watchdogTick(roomId: string, selfId: string, state: WatchdogState): Promise<WatchdogDecision> {
+    let freshRoom: Room | null;
+    try {
+      freshRoom = await this.storage.getRoom(roomId);
+    } catch {
+      return { action: "idle", reason: "read failed" }; // try next tick
+    }
+
+    const decision = evaluateWatchdog(freshRoom, {
+      selfId,
+      expectedRound: state.expectedRound,
+      roundStartTime: state.roundStartTime,
+      timeLimit: state.timeLimit,
+      attempts: state.attempts,
+      now: this.now(),
+    });
+
+    switch (decision.action) {
+      case "idle":
+        return decision;
+      case "wait":
+        console.log(`[MP] Watchdog: lock held by ${decision.lockedBy.substring(0, 8)}, age=${decision.lockAge}ms — waiting`);
+        return decision;
+      case "escalate":
+        state.attempts++;
+        mpCounters.watchdogFailureCount++;
+        console.error(`[MP] Watchdog FAILURE: max attempts (${WATCHDOG_MAX_ATTEMPTS}) exceeded`, {
+          attempt: state.attempts,
+          freshStatus: freshRoom?.status,
+          freshHostId: freshRoom?.hostId,
+          roundEndLock: freshRoom?.roundEndLock,
+          elapsed: decision.elapsed.toFixed(1),
+          timeLimit: state.timeLimit,
+        });
+        trackEvent("watchdogEscalation", {
+          roundId: state.expectedRound,
+          attempts: state.attempts,
+          elapsedSec: decision.elapsed,
+          lockHeld: !!freshRoom?.roundEndLock,
+        });
+        return decision;
+      case "resolve":
+        state.attempts++;
+        mpCounters.watchdogFiredCount++;
+        if (!decision.serverNow) {
+          console.log("[MP] Watchdog using client time fallback (serverNow missing)");
+        }
+        if (decision.staleLock) {
+          console.log(`[MP] Watchdog: stale lock detected, forcing override`);
+        }
+        console.log(`[MP] Watchdog resolution: round=${state.expectedRound} elapsed=${decision.elapsed.toFixed(1)}s attempt=${state.attempts} staleLock=${decision.staleLock}`);
+        try {
+          await this.endRound({
+            roomId,
+            roundId: state.expectedRound,
+            ownerId: selfId,
+            trigger: "watchdog",
+            timing: { serverNow: decision.serverNow },
+            forceOverrideStaleLock: decision.staleLock,
+          });
+        } catch (err) {
+          console.error("[MP] Watchdog acquireAndWriteRoundEnd error:", err);
+        }
+        return decision;
+    }
+  }
+
+  // ==================== ROUND TRANSITIONS ====================
+
+  /**
+   * Ask the round authority for the room's next round. null (logged) when it
+   * refuses or can't be reached — the host's button stays available to retry.
+   */
+  private async dealRound(roomId: string, hostId: string, label: string): Promise<DealtRound | null> {
+    try {
+      const outcome = await this.rounds.dealRound(roomId, hostId);
+      if (outcome.dealt && outcome.round) return outcome.round;
+      console.warn(`[MP] ${label}: round not dealt (${outcome.reason})`);
+    } catch (err) {
+      console.error(`[MP] ${label}: round authority failed:`, err);
+    }
+    return null;
+  }
+
+  /**
+   * Fresh pano for the round being played when the dealt one expired. null
+   * (logged) when the authority has none — the player sees the failure state.
+   */
+  async refreshPano(roomId: string, playerId: string): Promise<RoundPano | null> {
+    try {
+      const outcome = await this.rounds.refreshPano(roomId, playerId);
+      if (outcome.refreshed && outcome.pano) return outcome.pano;
+      console.warn(`[MP] refreshPano: no fresh pano (${outcome.reason})`);
+    } catch (err) {
+      console.error("[MP] refreshPano: round authority failed:", err);
+    }
+    return null;
+  }
+
+  /** waiting → playing (round 1). Exactly-once via transaction. */
+  async startGame(roomId: string, hostId: string): Promise<boolean> {
+    // Cevap sunucuda (roundAnswers) — START_GAME sadece pano ID'sini yayınlar
+    const round = await this.dealRound(roomId, hostId, "startGame");
+    if (!round) return false;
+
+    const committed = await this.applyEvent(roomId, {
+      type: "START_GAME",
+      actorId: hostId,
+      round,
+      startTime: this.getServerNow(),
+    }, "startGame");
+
+    if (committed) {
+      trackEvent("roundStart", { roundId: 1, panoId: round.pano.panoId });
+      console.log(`[MP] startGame COMMITTED: pano=${round.pano.panoId}`);
+    } else {
+      console.warn(`[MP] startGame NOT committed — transaction aborted`);
+    }
+    return committed !== null;
+  }
+
+  /** roundEnd → playing (next round) | gameOver. Guarded by roundVersion. */
+  async advanceRound(
+    roomId: string,
+    hostId: string,
+    expectedRoundVersion: number
+  ): Promise<{ committed: boolean; isGameOver: boolean }> {
+    // Puanlama isteği kaybolduysa (authority erişilemedi) NEXT_ROUND'dan önce tekrar dene
+    const freshRoom = await this.storage.getRoom(roomId);
+    if (freshRoom && needsScoring(freshRoom)) {
+      await this.requestScoring(roomId, freshRoom.currentRound, "nextRound");
+    }
+
+    // Son turdan sonra NEXT_ROUND oyunu bitirir — dağıtılacak tur yok
+    let round: DealtRound | null = null;
+    if (freshRoom && freshRoom.currentRound < freshRoom.totalRounds) {
+      round = await this.dealRound(roomId, hostId, "nextRound");
+      if (!round) return { committed: false, isGameOver: false };
+    }
+
+    const committed = await this.applyEvent(roomId, {
+      type: "NEXT_ROUND",
+      actorId: hostId,
+      expectedRoundVersion,
+      round,
+      startTime: this.getServerNow(),
+    }, "nextRound");
+
+    if (!committed) {
+      console.warn(`[MP] nextRound NOT committed — transaction aborted`);
+      return { committed: false, isGameOver: false };
+    }
+    if (committed.gameOver) {
+      trackEvent("gameEnd", { totalRounds: committed.room.totalRounds });
+      console.log(`[MP] nextRound → gameOver COMMITTED`);
+    } else {
+      trackEvent("roundStart", { roundId: committed.room.currentRound, panoId: round?.pano.panoId });
+      console.log(`[MP] nextRound COMMITTED: round=${committed.room.currentRound} pano=${round?.pano.panoId}`);
+    }
+    return { committed: true, isGameOver: committed.gameOver };
+  }
+
+  async restartGame(roomId: string, hostId: string, seed?: number): Promise<boolean> {
+    const committed = await this.applyEvent(roomId, { type: "RESTART", actorId: hostId, now: this.now(), seed }, "restart");
+    return committed !== null;
+  }
+
+  // ==================== GUESS ====================
+  // RTDB rules have host-only validation on room-level fields, so non-host
+  // players cannot do a room-level transaction:
+  //   Phase 0: Pre-read room state + server time validation (TOCTOU accepted:
+  //            the rules reject the guess once roundEndLock is taken or time is up)
+  //   Phase 1: transaction on player node — atomic write with hasGuessed idempotency
+  //   Phase 2: atomic currentGuesses increment
+
+  async submitGuess(
+    roomId: string,
+    playerId: string,
+    guess: Coordinates,
+    expectedRound: number,
+    timeLimit: number
+  ): Promise<GuessOutcome> {
+    // === Phase 0 ===
+    const serverNowMs = this.getServerNow();
+    const roomData = await this.storage.getRoom(roomId);
+
+    if (!roomData || roomData.status !== "playing") {
+      console.warn(`[MP] submitGuess REJECTED: not_playing (status=${roomData?.status})`);
+      return { accepted: false, reason: "not_playing" };
+    }
+    if (roomData.currentRound !== expectedRound) {
+      console.warn(`[MP] submitGuess REJECTED: round_mismatch (db=${roomData.currentRound} expected=${expectedRound})`);
+      return { accepted: false, reason: "round_mismatch" };
+    }
+    if (roomData.roundState !== 'active') {
+      console.warn(`[MP] submitGuess REJECTED: round_not_active (state=${roomData.roundState})`);
+      return { accepted: false, reason: "round_not_active" };
+    }
+
+    // Server time check: reject if time expired (2s grace for network latency)
+    const roundEndMs = (roomData.roundStartTime || 0) + timeLimit * 1000;
+    if (serverNowMs > roundEndMs + 2000) {
+      console.warn(`[MP] submitGuess REJECTED: time_expired (serverNow=${serverNowMs} roundEnd=${roundEndMs})`);
+      return { accepted: false, reason: "time_expired" };
+    }
+
+    // === Phase 1 ===
+    let guessWritten = false;
+    await this.storage.transactPlayer(roomId, playerId, (player) => {
+      guessWritten = false;
+      if (!player) return player;
+      // Idempotent: if already guessed, return unchanged (no-op)
+      if (player.hasGuessed) return player;
+      guessWritten = true;
+      return {
+        ...player,
+        currentGuess: guess,
+        hasGuessed: true,
+        lastActiveAt: this.now(),
+      } as Player;
+    });
+
+    if (!guessWritten) {
+      // Player already guessed in DB — treat as success for UI
+      console.log(`[MP] submitGuess: already guessed in DB (idempotent)`);
+      return { accepted: true, reason: "already_guessed_db" };
+    }
+
+    // === Phase 2 ===
+    await this.storage.incrementGuessCount(roomId);
+
+    trackEvent("submitGuess", { roundId: expectedRound, lat: guess.lat, lng: guess.lng });
+    console.log(`[MP] submitGuess ACCEPTED: round=${expectedRound} serverNow=${serverNowMs}`);
+    return { accepted: true, reason: "accepted" };
+  }
+
+  // ==================== LEAVE ====================
+
+  /**
+   * Only removes self. If host, atomically hands off host first.
+   * NO roundEnd computation — the remaining host's listener handles that.
+   */
+  async leaveRoom(room: Room, playerId: string): Promise<void> {
+    const playerList = Object.values(room.players || {});
+
+    if (playerList.length === 1) {
+      // Last player — delete room (its roundAnswers go with the janitor's orphan sweep)
+      await this.storage.removeRoom(room.id);
+      return;
+    }
+
+    if (playerId === room.hostId) {
+      const newHost = pickHandoffHost(room, playerId);
+      if (newHost) {
+        await this.migrateHost(room.id, playerId, newHost.id);
+      }
+    }
+
+    await this.storage.removePlayer(room.id, playerId);
+
+    // If playing and we hadn't guessed, decrement expectedGuesses
+    const myPlayer = room.players?.[playerId];
+    if (room.status === "playing" && myPlayer && !myPlayer.hasGuessed) {
+      await this.applyEvent(room.id, { type: "PLAYER_DROPPED" }, "leave").catch(() => {
+        // May fail if we lost host — OK, new host's listener handles it
+      });
+    }
+  }
+}
+
+// ==================== SESSION ====================
+
+const ALL_GUESSED_DELAY = 100;           // ms — let the last guess count settle
+const RECOVERY_DELAY = 200;              // ms
+const STUCK_RECOVERY_DELAY = 3000;       // ms — avoid hammering
+const STUCK_GRACE = 5;                   // s past timeLimit before a guessed client re-reads
+const POST_MIGRATION_FIRST_CHECK = 3000; // ms — wait for onDisconnect to propagate
+const POST_MIGRATION_INTERVAL = 5000;    // ms
+const POST_MIGRATION_MAX = 180000;       // ms — stop polling after 3 minutes
+
+export interface RoomSessionOptions {
+  /** Stuck recovery read a transition the listener never delivered */
+  onResync?: (room: Room) => void;
+}
+
+type Timer = ReturnType<typeof setTimeout>;
+
+/**
+ * One client in one room. Every round-end attempt from this client (listener
+ * triggers, timeUp, watchdog, post-migration recovery, stuck recovery) runs
+ * behind a single in-flight guard, so the host never races itself for the lock.
+ */
+export class RoomSession {
+  private processingRound = false;
+  private processingRoundId: number | null = null;
+  private migratingFrom: string | null = null; // old hostId being migrated away from
+  private timeUpHandledRound: number | null = null;
+  private stuckTimer: Timer | null = null;
+  private postMigrationTimeout: Timer | null = null;
+  private postMigrationInterval: ReturnType<typeof setInterval> | null = null;
+  private postMigrationSafety: Timer | null = null;
+  private readonly triggerTimers = new Set<Timer>();
+  private disposed = false;
+
+  constructor(
+    private readonly engine: RoomEngine,
+    readonly roomId: string,
+    readonly selfId: string,
+    private readonly now: () => number,
+    private readonly options: RoomSessionOptions,
+  ) {}
+
+  get isProcessingRound(): boolean {
+    return this.processingRound;
+  }
+
+  get isRecoveringAfterMigration(): boolean {
+    return this.postMigrationTimeout !== null || this.postMigrationInterval !== null;
+  }
+
+  /** Every listener snapshot of this room. */
+  handleSnapshot(room: Room): void {
+    if (this.disposed) return;
+    this.checkHostMigration(room);
+    if (this.selfId === room.hostId && room.status === "playing" && room.players) {
+      this.checkRoundEnd(room);
+    }
+    this.checkStuck(room);
+  }
+
+  /**
+   * Host's round timer fired. Server time must agree (1s early tolerance) —
+   * prevents premature roundEnd from client clock skew.
+   */
+  async handleTimeUp(room: Room): Promise<void> {
+    if (this.disposed || this.selfId !== room.hostId) return;
+    if (this.timeUpHandledRound === room.currentRound || this.processingRound) {
+      trackDuplicateAttempt("timeUp", room.currentRound);
+      return;
+    }
+
+    const serverNow = this.engine.getServerNow();
+    const timeLimit = room.timeLimit || 90;
+    const elapsedMs = serverNow - (room.roundStartTime || 0);
+    if (elapsedMs < timeLimit * 1000 - 1000) {
+      console.warn(`[MP] handleTimeUp: server time says ${(elapsedMs / 1000).toFixed(1)}s elapsed, limit=${timeLimit}s — NOT expired yet, skipping`);
+      return;
+    }
+
+    mpCounters.roundEndLockAcquireAttempts++;
+    console.log(`[MP] handleTimeUp: round=${room.currentRound} elapsed=${(elapsedMs / 1000).toFixed(1)}s serverNow=${serverNow}`);
+    this.timeUpHandledRound = room.currentRound;
+    await this.exclusive(async () => {
+      try {
+        await this.engine.endRound({
+          roomId: this.roomId,
+          roundId: room.currentRound,
+          ownerId: this.selfId,
+          trigger: "timeUp",
+          timing: { serverNow },
+        });
+      } catch (err) {
+        console.error("[MP] handleTimeUp error:", err);
+        trackError(err instanceof Error ? err : String(err), "handleTimeUp");
+      }
+    });
+  }
+
+  /** Host watchdog interval — skipped while another roundEnd attempt is in flight. */
+  async watchdogTick(state: WatchdogState): Promise<void> {
+    await this.exclusive(() => this.engine.watchdogTick(this.roomId, this.selfId, state));
+  }
+
+  /** hardResync: drop local guards so the UI can rebuild from fresh room state. */
+  resetGuards(): void {
+    this.processingRound = false;
+    this.processingRoundId = null;
+    this.clearStuckTimer();
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.clearStuckTimer();
+    this.stopPostMigrationRecovery();
+    this.triggerTimers.forEach(clearTimeout);
+    this.triggerTimers.clear();
+  }
+
+  private async exclusive<T>(work: () => Promise<T>): Promise<T | undefined> {
+    if (this.processingRound) return undefined;
+    this.processingRound = true;
+    try {
+      return await work();
+    } finally {
+      this.processingRound = false;
+    }
+  }
+
+  private schedule(delay: number, work: () => Promise<void>): void {
+    const timer = setTimeout(() => {
+      this.triggerTimers.delete(timer);
+      void work();
+    }, delay);
+    this.triggerTimers.add(timer);
+  }
+
+  // --- Host migration ---
+
+  private checkHostMigration(room: Room): void {
+    // Migration finished (by us or someone else) → guard off
+    if (this.migratingFrom && this.migratingFrom !== room.hostId) {
+      this.migratingFrom = null;
+    }
+    if (!needsHostMigration(room) || this.migratingFrom) return;
+
+    // Deterministic election; only the elected candidate writes (prevents race)
+    const newHost = electNewHost(room);
+    if (!newHost || newHost.id !== this.selfId) return;
+
+    this.migratingFrom = room.hostId;
+    mpCounters.hostMigrationCount++;
+    console.log(`[MP] Host migration: ${room.hostId.substring(0, 8)} → ${newHost.id.substring(0, 8)}`);
+    void this.migrate(room);
+  }
+
+  private async migrate(room: Room): Promise<void> {
+    let committed = false;
+    try {
+      committed = await this.engine.migrateHost(this.roomId, room.hostId, this.selfId);
+      if (committed) {
+        console.log(`[MP] Host migration committed: ${this.selfId.substring(0, 8)} is now host`);
+      }
+    } catch (err) {
+      console.error("[MP] Host migration failed:", err);
+    }
+    if (committed && room.status === "playing" && !this.disposed) {
+      this.startPostMigrationRecovery(room.currentRound);
+    }
+  }
+
+  /**
+   * After becoming host mid-round, poll until roundEnd is resolved — the
+   * listener may never fire again if nothing else writes to the room.
+   */
+  private startPostMigrationRecovery(round: number): void {
+    console.log(`[MP] Post-migration recovery interval starting for room=${this.roomId} round=${round}`);
+    this.stopPostMigrationRecovery();
+
+    const check = async (): Promise<boolean> => {
+      const done = await this.exclusive(() =>
+        this.engine.runPostMigrationCheck(this.roomId, this.selfId, round).catch((err) => {
+          console.error("[MP] Post-migration recovery error:", err);
+          return false; // keep trying
+        }),
+      );
+      return done === true; // undefined = busy, try again next tick
+    };
+
+    this.postMigrationTimeout = setTimeout(async () => {
+      this.postMigrationTimeout = null;
+      if (await check()) return;
+      this.postMigrationInterval = setInterval(async () => {
+        if (await check()) this.stopPostMigrationRecovery();
+      }, POST_MIGRATION_INTERVAL);
+      this.postMigrationSafety = setTimeout(() => this.stopPostMigrationRecovery(), POST_MIGRATION_MAX);
+    }, POST_MIGRATION_FIRST_CHECK);
+  }
+
+  private stopPostMigrationRecovery(): void {
+    if (this.postMigrationTimeout) { clearTimeout(this.postMigrationTimeout); this.postMigrationTimeout = null; }
+    if (this.postMigrationInterval) { clearInterval(this.postMigrationInterval); this.postMigrationInterval = null; }
+    if (this.postMigrationSafety) { clearTimeout(this.postMigrationSafety); this.postMigrationSafety = null; }
+  }
+
+  // --- Round end triggers (host-only, transaction-guarded) ---
+
+  private checkRoundEnd(room: Room): void {
+    const now = this.now();
+
+    // (a) allGuessed: every online player has guessed
+    if (isAllGuessed(room, now) && room.currentPano && !this.processingRound) {
+      this.processingRound = true;
+      const roundId = room.currentRound;
+      this.processingRoundId = roundId;
+      this.schedule(ALL_GUESSED_DELAY, async () => {
+        try {
+          if (this.processingRoundId !== roundId) return;
+          await this.engine.endRound({ roomId: this.roomId, roundId, ownerId: this.selfId, trigger: "allGuessed" });
+        } catch (err) {
+          console.error("[MP] allGuessed roundEnd error:", err);
+          trackError(err instanceof Error ? err : String(err), "autoRoundEnd");
+        } finally {
+          this.processingRound = false;
+          this.processingRoundId = null;
+        }
+      });
+    }
+
+    // (b) timeExpired recovery: roundStartTime + timeLimit + buffer passed
+    if (!this.processingRound && isRoundTimeExpired(room, now)) {
+      console.log(`[MP] RoundEnd recovery: elapsed > limit=${room.timeLimit || 90}s`);
+      this.processingRound = true;
+      const roundId = room.currentRound;
+      this.schedule(RECOVERY_DELAY, async () => {
+        try {
+          await this.engine.endRound({ roomId: this.roomId, roundId, ownerId: this.selfId, trigger: "recovery" });
+        } catch (err) {
+          console.error("[MP] RoundEnd recovery error:", err);
+        } finally {
+          this.processingRound = false;
+        }
+      });
+    }
+  }
+
+  /**
+   * This client guessed but the room is still "playing" past the time limit:
+   * the snapshot may have been delayed or missed. Re-read; if the room moved on,
+   * hand it to onResync; if it is truly stuck and we're host, force roundEnd.
+   */
+  private checkStuck(room: Room): void {
+    const stuckCandidate = room.status === "playing" && room.players?.[this.selfId]?.hasGuessed && room.roundStartTime;
+    if (!stuckCandidate) {
+      this.clearStuckTimer();
+      return;
+    }
+    const elapsed = (this.now() - (room.roundStartTime || 0)) / 1000;
+    if (elapsed <= (room.timeLimit || 90) + STUCK_GRACE || this.stuckTimer) return;
+
+    console.log(`[MP] Stuck recovery: client guessed but still playing after ${elapsed.toFixed(0)}s — scheduling fresh read`);
+    this.stuckTimer = setTimeout(async () => {
+      this.stuckTimer = null;
+      try {
+        const fresh = await this.engine.readRoom(this.roomId);
+        if (!fresh || this.disposed) return;
+        if (fresh.status !== "playing") {
+          console.log(`[MP] Stuck recovery: Firebase shows status=${fresh.status}, forcing local update`);
+          this.options.onResync?.(fresh);
+          return;
+        }
+        console.log(`[MP] Stuck recovery: Firebase still shows playing (round=${fresh.currentRound})`);
+        if (this.selfId === fresh.hostId) {
+          await this.exclusive(() => {
+            console.log(`[MP] Stuck recovery: host forcing roundEnd for round ${fresh.currentRound}`);
+            return this.engine.endRound({ roomId: this.roomId, roundId: fresh.currentRound, ownerId: this.selfId, trigger: "stuckRecovery" });
+          });
+        }
+      } catch (err) {
+        console.warn("[MP] Stuck recovery read failed:", err);
+      }
+    }, STUCK_RECOVERY_DELAY);
+  }
+
+  private clearStuckTimer(): void {
+    if (this.stuckTimer) {
+      clearTimeout(this.stuckTimer);
+      this.stuckTimer = null;
+    }
+  }
+}
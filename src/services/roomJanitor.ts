@@ -0,0 +1,254 @@
+/**
+ * Room Janitor — server-side cleanup of rooms/* (replaces the browser timers)
+ *
+ * The old roomLifecycle timers lived in the creator's tab: when the last tab
+ * closed, nothing deleted the room. The janitor runs on a schedule instead
+ * (scripts/roomJanitor.js as a standalone process, or app/api/room-janitor
+ * from cron) and decides from the stored timestamps only:
+ *
+ *   room activity   max(createdAt, lastActivityAt, roundStartTime)
+ *   last activity   room activity or the freshest player lastSeen
+ *
+ * Per room, first match wins:
+ *   expired   createdAt older than MAX_ROOM_AGE_MS (any status)
+ *   empty     no live player and last activity older than EMPTY_ROOM_TTL_MS
+ *   finished  gameOver and room activity older than FINISHED_GAME_TTL_MS
+ *   ghosts    live players remain → players whose lastSeen is older than
+ *             PLAYER_INACTIVE_TIMEOUT_MS are removed (an un-guessed ghost in a
+ *             playing round also drops expectedGuesses, like roomEngine does)
+ * Then, if more than MAX_ACTIVE_ROOMS survive, the least recently active are
+ * deleted (overCapacity). roundAnswers of deleted rooms go with them, and
+ * roundAnswers whose room is already gone are removed as orphans.
+ *
+ * planJanitor is pure; runJanitor applies the plan unless dryRun. Every
+ * delete / removal is a room transaction that re-checks the fresh room, so a
+ * player who came back between plan and apply is never thrown out.
+ */
+
+import { Player, Room } from "@/types";
+import { ROOM_LIFECYCLE } from "@/config/production";
+import { TransactionOutcome, TransactionUpdater } from "./roomStorage";
+import { transitionRoom } from "./roomStateMachine";
+
+// ==================== TYPES ====================
+
+export interface JanitorPolicy {
+  emptyRoomTtlMs: number;
+  finishedGameTtlMs: number;
+  maxRoomAgeMs: number;
+  playerInactiveMs: number;
+  maxActiveRooms: number;
+}
+
+export const DEFAULT_JANITOR_POLICY: JanitorPolicy = {
+  emptyRoomTtlMs: ROOM_LIFECYCLE.EMPTY_ROOM_TTL_MS,
+  finishedGameTtlMs: ROOM_LIFECYCLE.FINISHED_GAME_TTL_MS,
+  maxRoomAgeMs: ROOM_LIFECYCLE.MAX_ROOM_AGE_MS,
+  playerInactiveMs: ROOM_LIFECYCLE.PLAYER_INACTIVE_TIMEOUT_MS,
+  maxActiveRooms: ROOM_LIFECYCLE.MAX_ACTIVE_ROOMS,
+};
+
+export type DeleteReason = "expired" | "empty" | "finished" | "overCapacity";
+
+export type JanitorAction =
+  | { type: "deleteRoom"; roomId: string; reason: DeleteReason; lastActivity: number }
+  | { type: "removeGhosts"; roomId: string; playerIds: string[] }
+  | { type: "removeOrphanAnswers"; roomId: string };
+
+export interface JanitorPlan {
+  scanned: number;
+  actions: JanitorAction[];
+  /** Rooms left after the plan is applied */
+  remaining: number;
+}
+
+export interface JanitorReport extends JanitorPlan {
+  dryRun: boolean;
+  at: number;
+  applied: number;
+  /** Actions the fresh room no longer justified (activity since planning) */
+  skipped: JanitorAction[];
+  failed: { action: JanitorAction; error: string }[];
+}
+
+export interface JanitorStorage {
+  getRooms(): Promise<Record<string, Room>>;
+  /** Room ids that have a roundAnswers/{roomId} node */
+  getRoundAnswerRoomIds(): Promise<string[]>;
+  transactRoom(roomId: string, updater: TransactionUpdater<Room>): Promise<TransactionOutcome<Room>>;
+  removeRoundAnswers(roomId: string): Promise<void>;
+}
+
+// ==================== ACTIVITY ====================
+
+function playerLastSeen(player: Player): number {
+  return player.lastSeen || player.joinedAt || 0;
+}
+
+/** Room-level writes only — lobby creation, joins, restarts, round starts */
+export function roomActivity(room: Room): number {
+  return Math.max(room.createdAt || 0, room.lastActivityAt || 0, room.roundStartTime || 0);
+}
+
+/** Room activity or the freshest player heartbeat */
+export function lastActivity(room: Room): number {
+  return Object.values(room.players || {}).reduce(
+    (latest, player) => Math.max(latest, playerLastSeen(player)),
+    roomActivity(room)
+  );
+}
+
+export function findGhostPlayers(room: Room, now: number, policy: JanitorPolicy = DEFAULT_JANITOR_POLICY): Player[] {
+  return Object.values(room.players || {}).filter((player) => now - playerLastSeen(player) > policy.playerInactiveMs);
+}
+
+/** Why this room should be deleted now, or null */
+export function deleteReason(room: Room, now: number, policy: JanitorPolicy = DEFAULT_JANITOR_POLICY): Exclude<DeleteReason, "overCapacity"> | null {
+  if (room.createdAt && now - room.createdAt > policy.maxRoomAgeMs) return "expired";
+  const players = Object.values(room.players || {});
+  const ghosts = findGhostPlayers(room, now, policy);
+  if (ghosts.length === players.length && now - lastActivity(room) > policy.emptyRoomTtlMs) return "empty";
+  if (room.status === "gameOver" && now - roomActivity(room) > policy.finishedGameTtlMs) return "finished";
+  return null;
+}
+
+// ==================== PLAN ====================
+
+export function planJanitor(
+  rooms: Record<string, Room> | null,
+  roundAnswerRoomIds: string[],
+  now: number,
+  policy: JanitorPolicy = DEFAULT_JANITOR_POLICY
+): JanitorPlan {
+  const actions: JanitorAction[] = [];
+  const surviving: { roomId: string; lastActivity: number }[] = [];
+  const entries = Object.entries(rooms || {}).filter(([, room]) => room);
+
+  entries.forEach(([roomId, room]) => {
+    const reason = deleteReason(room, now, policy);
+    if (reason) {
+      actions.push({ type: "deleteRoom", roomId, reason, lastActivity: lastActivity(room) });
+      return;
+    }
+    // Kimse canlı değilse hayaletler kalır — oda "empty" olarak silinecek
+    const ghosts = findGhostPlayers(room, now, policy);
+    if (ghosts.length > 0 && ghosts.length < Object.keys(room.players || {}).length) {
+      actions.push({ type: "removeGhosts", roomId, playerIds: ghosts.map((player) => player.id) });
+    }
+    surviving.push({ roomId, lastActivity: lastActivity(room) });
+  });
+
+  const excess = surviving.length - policy.maxActiveRooms;
+  if (excess > 0) {
+    surviving
+      .sort((a, b) => a.lastActivity - b.lastActivity)
+      .slice(0, excess)
+      .forEach(({ roomId, lastActivity }) => {
+        const index = actions.findIndex((action) => action.roomId === roomId);
+        if (index >= 0) actions.splice(index, 1); // silinen odanın hayalet temizliği gereksiz
+        actions.push({ type: "deleteRoom", roomId, reason: "overCapacity", lastActivity });
+      });
+  }
+
+  const roomIds = new Set(entries.map(([roomId]) => roomId));
+  roundAnswerRoomIds
+    .filter((roomId) => !roomIds.has(roomId))
+    .forEach((roomId) => actions.push({ type: "removeOrphanAnswers", roomId }));
+
+  return {
+    scanned: entries.length,
+    actions,
+    remaining: entries.length - actions.filter((action) => action.type === "deleteRoom").length,
+  };
+}
+
+// ==================== APPLY ====================
+
+/** Fresh-room updater for one action: null deletes, undefined skips */
+function applyToRoom(action: JanitorAction, now: number, policy: JanitorPolicy): TransactionUpdater<Room> {
+  return (current) => {
+    if (!current) return undefined; // already gone
+    if (action.type === "deleteRoom") {
+      if (lastActivity(current) > action.lastActivity) return undefined; // activity since planning
+      return action.reason === "overCapacity" || deleteReason(current, now, policy) ? null : undefined;
+    }
+
+    const stillGhosts = new Set(findGhostPlayers(current, now, policy).map((player) => player.id));
+    const removed = action.type === "removeGhosts" ? action.playerIds.filter((id) => stillGhosts.has(id)) : [];
+    if (removed.length === 0) return undefined;
+
+    let room: Room = { ...current, players: { ...(current.players || {}) } };
+    removed.forEach((playerId) => {
+      const dropped = room.status === "playing" && !room.players[playerId].hasGuessed;
+      delete room.players[playerId];
+      if (dropped) {
+        const result = transitionRoom(room, { type: "PLAYER_DROPPED" });
+        if (result.ok) room = result.room;
+      }
+    });
+    return room;
+  };
+}
+
+export async function runJanitor(
+  storage: JanitorStorage,
+  now: number,
+  options: { dryRun?: boolean; policy?: JanitorPolicy } = {}
+): Promise<JanitorReport> {
+  const { dryRun = false, policy = DEFAULT_JANITOR_POLICY } = options;
+  const [rooms, answerRoomIds] = await Promise.all([storage.getRooms(), storage.getRoundAnswerRoomIds()]);
+  const plan = planJanitor(rooms, answerRoomIds, now, policy);
+  const report: JanitorReport = { ...plan, dryRun, at: now, applied: 0, skipped: [], failed: [] };
+  if (dryRun) return report;
+
+  let deleted = 0;
+
+  for (const action of plan.actions) {
+    try {
+      if (action.type === "removeOrphanAnswers") {
+        await storage.removeRoundAnswers(action.roomId);
+        report.applied++;
+        continue;
+      }
+      const outcome = await storage.transactRoom(action.roomId, applyToRoom(action, now, policy));
+      if (!outcome.committed) {
+        report.skipped.push(action);
+        continue;
+      }
+      report.applied++;
+      if (action.type === "deleteRoom") {
+        deleted++;
+        await storage.removeRoundAnswers(action.roomId);
+      }
+    } catch (err) {
+      report.failed.push({ action, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  report.remaining = plan.scanned - deleted;
+  console.log(`[Janitor] applied ${report.applied}/${plan.actions.length} actions, ${report.remaining} rooms left`);
+  return report;
+}
+
+// ==================== REPORT ====================
+
+export function formatJanitorReport(report: JanitorReport): string {
+  const lines: string[] = [];
+  const count = (type: JanitorAction["type"]) => report.actions.filter((action) => action.type === type).length;
+  lines.push(`${report.dryRun ? "[dry-run] " : ""}${report.scanned} oda tarandı, ${report.remaining} oda kalıyor`);
+  lines.push(`  oda silme: ${count("deleteRoom")}, hayalet oyuncu temizliği: ${count("removeGhosts")}, yetim roundAnswers: ${count("removeOrphanAnswers")}`);
+  report.actions.forEach((action) => {
+    const failure = report.failed.find((f) => f.action === action);
+    const status = report.skipped.includes(action) ? " (atlandı)" : failure ? ` (HATA: ${failure.error})` : "";
+    if (action.type === "deleteRoom") {
+      const idle = Math.round((report.at - action.lastActivity) / 60_000);
+      lines.push(`  - ${action.roomId}: sil [${action.reason}] (${idle} dk aktivite yok)${status}`);
+    } else if (action.type === "removeGhosts") {
+      lines.push(`  - ${action.roomId}: ${action.playerIds.length} hayalet oyuncu çıkar (${action.playerIds.join(", ")})${status}`);
+    } else {
+      lines.push(`  - ${action.roomId}: yetim roundAnswers sil${status}`);
+    }
+  });
+  if (!report.dryRun) lines.push(`  uygulandı: ${report.applied}, atlandı: ${report.skipped.length}, hata: ${report.failed.length}`);
+  return lines.join("\n");
+}
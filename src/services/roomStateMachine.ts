@@ -0,0 +1,562 @@
+/**
+ * Room State Machine — pure transitions for Room.status + roundState
+ *
+ * Every lifecycle write (start, roundEnd, next round, restart, host migration)
+ * is expressed as an event applied by transitionRoom(). No Firebase, no timers,
+ * no React: same room + same event → same result. The storage layer runs these
+ * inside a transaction; a rejected transition means "abort the transaction".
+ *
+ *   waiting/waiting ──UPDATE_SETTINGS──▶ waiting/waiting  (host, GAME_SETTINGS ranges, mode, profile)
+ *   waiting/waiting ──START_GAME──▶ playing/active
+ *   playing/active  ──END_ROUND───▶ roundEnd/ended   (acquires roundEndLock, reveals answer)
+ *   roundEnd/ended  ──(scoring authority writes roundResults + scores)
+ *   roundEnd/ended  ──NEXT_ROUND──▶ playing/active | gameOver/ended  (only once scored)
+ *   any             ──RESTART─────▶ waiting/waiting
+ *
+ * The answer (location, name, full pano package) never sits in the room while
+ * a round is playing: it lives in the server-only roundAnswers node and
+ * clients only get currentPano (pano ID + heading). END_ROUND copies it in.
+ *
+ * Presence/watchdog decisions (ghost removal, host election, watchdog tick)
+ * live here too as pure functions over a room snapshot + "now".
+ */
+
+import { Room, Player, Coordinates, PanoPackage, RoundResult, RoundEndLock, RoundPano, RoundAnswer, RoomSettings, ADAPTIVE_DIFFICULTY_LEVELS, GAME_MODE_CONFIG, SCORING_PROFILES } from "@/types";
+import { GAME_SETTINGS } from "@/config/production";
+import { normalizeMapFilter } from "./mapFilter";
+import { calculateDistance } from "@/utils";
+import { GuessContext, matchPlaces, resolveScoringProfile, scoreGuess } from "./scoringProfiles";
+
+// ==================== CONSTANTS ====================
+
+export const DISCONNECT_GRACE_PERIOD = 15000;   // 15s before removing disconnected player
+export const STALE_HEARTBEAT_THRESHOLD = 30000; // 30s no heartbeat → mark disconnected
+export const HEARTBEAT_INTERVAL = 5000;         // 5s heartbeat
+export const CLEANUP_INTERVAL = 10000;          // 10s cleanup cycle
+export const ROUND_END_RECOVERY_BUFFER = 3;     // seconds past time limit before recovery kicks in
+export const WATCHDOG_INTERVAL = 5000;          // 5s watchdog tick
+export const WATCHDOG_BUFFER = 5;               // seconds past timeLimit before watchdog acts
+export const WATCHDOG_MAX_ATTEMPTS = 3;         // max resolution attempts before escalation
+export const WATCHDOG_LOCK_STALE_THRESHOLD = 10000; // 10s — lock older than this is considered stale
+
+const DEFAULT_TIME_LIMIT = 90;
+
+// ==================== TYPES ====================
+
+/** Round payload written at START_GAME / NEXT_ROUND */
+export interface RoundPayload {
+  panoPackageId: string;
+  panoPackage: PanoPackage | null; // null = legacy (single pano) flow
+  location: Coordinates;
+  locationName: string | null;
+  mapNotice?: string | null; // dar harita → oyunculara gösterilen uyarı
+}
+
+/** Public half of a round dealt by the round authority — the answer stays server-side */
+export interface DealtRound {
+  pano: RoundPano;
+  mapNotice: string | null;
+}
+
+/** START_GAME / NEXT_ROUND take a dealt round (solo + multiplayer) or a full payload (tests) */
+export type RoundStart = RoundPayload | DealtRound;
+
+export type RoomEvent =
+  | { type: "UPDATE_SETTINGS"; actorId: string; settings: Partial<RoomSettings> }
+  | { type: "START_GAME"; actorId: string; round: RoundStart; startTime: number }
+  | {
+      type: "END_ROUND";
+      actorId: string;
+      roundId: number;
+      lockedAt: number;
+      forceOverrideStaleLock?: boolean;
+      answer?: RoundAnswer | null; // roundAnswers'tan okunan cevap (yoksa authority açar)
+    }
+  | { type: "NEXT_ROUND"; actorId: string; expectedRoundVersion: number; round: RoundStart | null; startTime: number } // null: final round → gameOver
+  | { type: "RESTART"; actorId: string; now: number; seed?: number } // seed: yeni oyun için yeni PRNG seed
+  | { type: "MIGRATE_HOST"; expectedHostId: string; newHostId: string }
+  | { type: "PLAYER_DROPPED" }; // un-guessed player left mid-round → expectedGuesses--
+
+export type TransitionResult =
+  | { ok: true; room: Room; gameOver?: boolean }
+  | { ok: false; reason: string };
+
+function reject(reason: string): TransitionResult {
+  return { ok: false, reason };
+}
+
+// ==================== HELPERS ====================
+
+function resetPlayersForRound(players: Room["players"] | undefined): Room["players"] {
+  const updated: Room["players"] = {};
+  Object.values(players || {}).forEach((player) => {
+    updated[player.id] = {
+      ...player,
+      currentGuess: null,
+      hasGuessed: false,
+      movesUsed: 0,
+    };
+  });
+  return updated;
+}
+
+/** Status-based online count (round başı expectedGuesses snapshot'ı) */
+function countOnlineByStatus(players: Room["players"] | undefined): number {
+  return Object.values(players || {}).filter((p) => !p.status || p.status === "online").length;
+}
+
+function buildActiveRound(room: Room, round: RoundStart, roundNumber: number, startTime: number): Room {
+  const onlineCount = countOnlineByStatus(room.players);
+  return {
+    ...room,
+    status: "playing",
+    currentRound: roundNumber,
+    currentPano: publicPano(round),
+    mapNotice: round.mapNotice || null,
+    currentPanoPackageId: null,
+    currentPanoPackage: null,
+    currentLocation: null,
+    currentLocationName: null,
+    players: resetPlayersForRound(room.players),
+    roundResults: null,
+    roundStartTime: startTime,
+    roundState: "active",
+    roundVersion: (room.roundVersion || 0) + 1,
+    activePlayerCount: onlineCount,
+    expectedGuesses: onlineCount,
+    currentGuesses: 0,
+    roundEndLock: null,
+  };
+}
+
+/** Round payload from a curated/dynamic pano package (pano0 = answer) */
+export function roundFromPanoPackage(panoPackage: PanoPackage, mapNotice: string | null = null): RoundPayload {
+  return {
+    panoPackageId: panoPackage.id,
+    panoPackage,
+    location: { lat: panoPackage.pano0.lat, lng: panoPackage.pano0.lng },
+    locationName: panoPackage.locationName,
+    mapNotice,
+  };
+}
+
+/** Clients get only what Street View needs to open the start pano */
+export function publicPano(round: RoundStart): RoundPano {
+  if ("pano" in round) return round.pano;
+  if (round.panoPackage) {
+    return { panoId: round.panoPackage.pano0.panoId, heading: round.panoPackage.pano0.heading };
+  }
+  return { panoId: round.panoPackageId, heading: 0 }; // legacy: panoPackageId = panoId
+}
+
+/** Hidden answer record written to roundAnswers/{roomId}/{roundId} before the round starts */
+export function roundAnswer(round: RoundPayload, roundId: number): RoundAnswer {
+  return {
+    roundId,
+    panoPackageId: round.panoPackageId,
+    panoPackage: round.panoPackage,
+    location: round.location,
+    locationName: round.locationName,
+  };
+}
+
+/**
+ * Copy the answer into the room (roundEnd reveal). Returns null when the answer
+ * belongs to another round or doesn't match the pano players were shown.
+ */
+export function revealAnswer(room: Room, answer: RoundAnswer): Room | null {
+  if (answer.roundId !== room.currentRound) return null;
+  const shown = publicPano({ ...answer, panoPackage: answer.panoPackage || null });
+  if (room.currentPano && room.currentPano.panoId !== shown.panoId) return null;
+  return {
+    ...room,
+    currentPanoPackageId: answer.panoPackageId,
+    currentPanoPackage: answer.panoPackage || null,
+    currentLocation: answer.location,
+    currentLocationName: answer.locationName || null,
+  };
+}
+
+/**
+ * Round sonuçlarını hesapla. Tahmin yapmayan oyuncu: distance 9999, score 0.
+ * Puan eğrisi room.scoringProfile'dan; il/ilçe eşleşmesi (bonuslar, guessProvince/
+ * correctProvince) revealed currentLocationName + offline il poligonları ve
+ * ilçe bölgelerinden.
+ */
+export function computeRoundResults(
+  room: Room,
+  playerIds: string[] | null,
+  location: Coordinates | null
+): RoundResult[] {
+  const ids = playerIds || Object.keys(room.players || {});
+  const scoringProfile = resolveScoringProfile(room.scoringProfile);
+  return ids
+    .map((id) => room.players?.[id])
+    .filter((p): p is Player => p !== undefined && p !== null)
+    .filter((p) => p.id && p.name)
+    .map((player) => {
+      const distance = player.currentGuess && location
+        ? calculateDistance(location, player.currentGuess)
+        : 9999;
+      const context: GuessContext | null = player.hasGuessed && player.currentGuess
+        ? {
+            distanceKm: distance,
+            guess: player.currentGuess,
+            answerName: room.currentLocationName,
+            answerLocation: location,
+            mode: room.gameMode || "urban",
+          }
+        : null;
+      const places = context ? matchPlaces(context) : null;
+      return {
+        playerId: player.id,
+        playerName: player.name || "Oyuncu",
+        guess: player.currentGuess || { lat: 0, lng: 0 },
+        distance: player.hasGuessed ? distance : 9999,
+        score: context ? scoreGuess(scoringProfile, context) : 0,
+        scoringProfile,
+        guessProvince: places?.guessProvince ?? null,
+        correctProvince: places?.correctProvince ?? null,
+      };
+    });
+}
+
+/** roundEnd reached but the scoring authority has not written results yet */
+export function needsScoring(room: Room): boolean {
+  return room.status === "roundEnd" && !(Array.isArray(room.roundResults) && room.roundResults.length > 0);
+}
+
+// ==================== SETTINGS ====================
+
+export type SettingsValidation =
+  | { ok: true; settings: Partial<RoomSettings> }
+  | { ok: false; reason: string };
+
+function inRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Lobby settings patch → validated against GAME_SETTINGS (same ranges as
+ * database.rules.json). moveLimit 0 = "hareket yok"; timeLimit on TIME_LIMIT_STEP.
+ * mapFilter is normalized (canonical il names); empty / all regions → null.
+ * adaptiveDifficulty: a known ADAPTIVE_DIFFICULTY_LEVELS id or null (off).
+ * gameMode / scoringProfile: known GAME_MODE_CONFIG / SCORING_PROFILES ids.
+ */
+export function validateRoomSettings(settings: Partial<RoomSettings>): SettingsValidation {
+  const valid: Partial<RoomSettings> = {};
+  const { totalRounds, timeLimit, moveLimit } = settings;
+
+  if (settings.gameMode !== undefined) {
+    if (!Object.prototype.hasOwnProperty.call(GAME_MODE_CONFIG, settings.gameMode)) {
+      return { ok: false, reason: `gameMode=${settings.gameMode}` };
+    }
+    valid.gameMode = settings.gameMode;
+  }
+  if (settings.scoringProfile !== undefined) {
+    if (!Object.prototype.hasOwnProperty.call(SCORING_PROFILES, settings.scoringProfile)) {
+      return { ok: false, reason: `scoringProfile=${settings.scoringProfile}` };
+    }
+    valid.scoringProfile = settings.scoringProfile;
+  }
+  if (totalRounds !== undefined) {
+    if (!inRange(totalRounds, GAME_SETTINGS.MIN_ROUNDS, GAME_SETTINGS.MAX_ROUNDS)) {
+      return { ok: false, reason: `totalRounds=${totalRounds} (${GAME_SETTINGS.MIN_ROUNDS}-${GAME_SETTINGS.MAX_ROUNDS})` };
+    }
+    valid.totalRounds = totalRounds;
+  }
+  if (timeLimit !== undefined) {
+    if (
+      !inRange(timeLimit, GAME_SETTINGS.MIN_TIME_LIMIT, GAME_SETTINGS.MAX_TIME_LIMIT) ||
+      timeLimit % GAME_SETTINGS.TIME_LIMIT_STEP !== 0
+    ) {
+      return { ok: false, reason: `timeLimit=${timeLimit} (${GAME_SETTINGS.MIN_TIME_LIMIT}-${GAME_SETTINGS.MAX_TIME_LIMIT}, step ${GAME_SETTINGS.TIME_LIMIT_STEP})` };
+    }
+    valid.timeLimit = timeLimit;
+  }
+  if (moveLimit !== undefined) {
+    if (moveLimit !== GAME_SETTINGS.NO_MOVES && !inRange(moveLimit, GAME_SETTINGS.MIN_MOVES, GAME_SETTINGS.MAX_MOVES)) {
+      return { ok: false, reason: `moveLimit=${moveLimit} (${GAME_SETTINGS.NO_MOVES} or ${GAME_SETTINGS.MIN_MOVES}-${GAME_SETTINGS.MAX_MOVES})` };
+    }
+    valid.moveLimit = moveLimit;
+  }
+  if (settings.mapFilter !== undefined) {
+    try {
+      valid.mapFilter = normalizeMapFilter(settings.mapFilter);
+    } catch (err) {
+      return { ok: false, reason: `mapFilter: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+  if (settings.adaptiveDifficulty !== undefined) {
+    const level = settings.adaptiveDifficulty;
+    if (level !== null && !Object.prototype.hasOwnProperty.call(ADAPTIVE_DIFFICULTY_LEVELS, level)) {
+      return { ok: false, reason: `adaptiveDifficulty=${level}` };
+    }
+    valid.adaptiveDifficulty = level;
+  }
+  if (Object.keys(valid).length === 0) return { ok: false, reason: "no settings" };
+  return { ok: true, settings: valid };
+}
+
+// ==================== TRANSITIONS ====================
+
+export function transitionRoom(room: Room, event: RoomEvent): TransitionResult {
+  switch (event.type) {
+    case "UPDATE_SETTINGS": {
+      if (room.status !== "waiting") return reject(`status=${room.status} (expected waiting)`);
+      if (room.hostId !== event.actorId) return reject("not host");
+      const validation = validateRoomSettings(event.settings);
+      if (!validation.ok) return reject(validation.reason);
+      return { ok: true, room: { ...room, ...validation.settings } };
+    }
+
+    case "START_GAME": {
+      if (room.status !== "waiting") return reject(`status=${room.status} (expected waiting)`);
+      if (room.hostId !== event.actorId) return reject("not host");
+      return { ok: true, room: buildActiveRound(room, event.round, 1, event.startTime) };
+    }
+
+    case "END_ROUND": {
+      if (room.status !== "playing") return reject(`status=${room.status} (expected playing)`);
+      if (room.currentRound !== event.roundId) {
+        return reject(`round=${room.currentRound} (expected ${event.roundId})`);
+      }
+      const lock = room.roundEndLock;
+      if (lock && lock.roundId === event.roundId && !event.forceOverrideStaleLock) {
+        return reject("lock already held");
+      }
+
+      // Puanlar burada hesaplanmaz — roundResults/totalScore'un tek yazarı scoringAuthority
+      const roundEndLock: RoundEndLock = {
+        lockedBy: event.actorId,
+        roundId: event.roundId,
+        lockedAt: event.lockedAt,
+      };
+      const ended: Room = {
+        ...room,
+        status: "roundEnd",
+        roundState: "ended",
+        roundEndLock,
+      };
+      // Cevap okunamadıysa round yine biter; scoringAuthority puanlarken açar
+      return { ok: true, room: (event.answer && revealAnswer(ended, event.answer)) || ended };
+    }
+
+    case "NEXT_ROUND": {
+      if (room.hostId !== event.actorId) return reject("not host");
+      if (room.status !== "roundEnd") return reject(`status=${room.status} (expected roundEnd)`);
+      if (needsScoring(room)) return reject("round not scored yet");
+      if ((room.roundVersion || 0) !== event.expectedRoundVersion) {
+        return reject(`roundVersion=${room.roundVersion} (expected ${event.expectedRoundVersion})`);
+      }
+      if (room.currentRound >= room.totalRounds) {
+        return { ok: true, gameOver: true, room: { ...room, status: "gameOver", roundState: "ended" } };
+      }
+      if (!event.round) return reject("no round dealt");
+      return { ok: true, room: buildActiveRound(room, event.round, room.currentRound + 1, event.startTime) };
+    }
+
+    case "RESTART": {
+      if (room.hostId !== event.actorId) return reject("not host");
+      const players: Room["players"] = {};
+      Object.values(room.players || {}).forEach((player) => {
+        players[player.id] = {
+          ...player,
+          totalScore: 0,
+          currentGuess: null,
+          hasGuessed: false,
+          movesUsed: 0,
+          roundScores: [],
+        };
+      });
+      return {
+        ok: true,
+        room: {
+          ...room,
+          status: "waiting",
+          currentRound: 0,
+          currentPano: null,
+          mapNotice: null,
+          seed: event.seed ?? room.seed,
+          currentLocation: null,
+          currentPanoPackageId: null,
+          currentPanoPackage: null,
+          currentLocationName: null,
+          roundResults: null,
+          roundStartTime: null,
+          players,
+          roundState: "waiting",
+          roundVersion: 0,
+          activePlayerCount: 0,
+          expectedGuesses: 0,
+          currentGuesses: 0,
+          roundEndLock: null,
+          lastActivityAt: event.now,
+        },
+      };
+    }
+
+    case "MIGRATE_HOST": {
+      // Abort if host already changed (someone else migrated first)
+      if (room.hostId !== event.expectedHostId) return reject("host already changed");
+      if (!room.players?.[event.newHostId]) return reject("candidate left");
+      const oldHost = room.players[event.expectedHostId];
+      return {
+        ok: true,
+        room: {
+          ...room,
+          hostId: event.newHostId,
+          players: {
+            ...room.players,
+            [event.newHostId]: { ...room.players[event.newHostId], isHost: true },
+            ...(oldHost ? { [event.expectedHostId]: { ...oldHost, isHost: false } } : {}),
+          },
+        },
+      };
+    }
+
+    case "PLAYER_DROPPED": {
+      // Not playing → nothing to adjust (commit unchanged)
+      if (room.status !== "playing") return { ok: true, room };
+      return { ok: true, room: { ...room, expectedGuesses: Math.max(0, (room.expectedGuesses || 0) - 1) } };
+    }
+  }
+}
+
+// ==================== PRESENCE QUERIES ====================
+
+/**
+ * Elector view of "online": explicitly disconnected or stale heartbeat → offline.
+ * Used by allGuessed detection and post-migration recovery.
+ */
+export function getOnlinePlayers(room: Room, now: number): Player[] {
+  return Object.values(room.players || {}).filter((p) => {
+    if (p.status === "disconnected") return false;
+    if (p.lastSeen && now - p.lastSeen > STALE_HEARTBEAT_THRESHOLD) return false;
+    return true;
+  });
+}
+
+export function isAllGuessed(room: Room, now: number): boolean {
+  const online = getOnlinePlayers(room, now);
+  return online.length > 0 && online.every((p) => p.hasGuessed);
+}
+
+export function isRoundTimeExpired(room: Room, now: number, bufferSeconds: number = ROUND_END_RECOVERY_BUFFER): boolean {
+  if (!room.roundStartTime) return false;
+  const elapsed = (now - room.roundStartTime) / 1000;
+  return elapsed > (room.timeLimit || DEFAULT_TIME_LIMIT) + bufferSeconds;
+}
+
+/** Host kayıp ya da offline ise true */
+export function needsHostMigration(room: Room): boolean {
+  const ids = Object.keys(room.players || {});
+  if (ids.length === 0) return false;
+  const host = room.players?.[room.hostId];
+  return !host || !(host.status === "online" || !host.status);
+}
+
+/**
+ * Deterministic election: lowest joinedAt among online players (excluding dead host).
+ * Only the elected candidate writes the migration, so there is no race.
+ */
+export function electNewHost(room: Room): Player | null {
+  const candidates = Object.values(room.players || {})
+    .filter((p) => (p.status === "online" || !p.status) && p.id !== room.hostId)
+    .sort((a, b) => (a.joinedAt || 0) - (b.joinedAt || 0));
+  return candidates[0] || null;
+}
+
+/** Voluntary leave: prefer an online player, otherwise anyone left in the room */
+export function pickHandoffHost(room: Room, leavingId: string): Player | null {
+  const players = Object.values(room.players || {});
+  const candidates = players
+    .filter((p) => p.id !== leavingId && (!p.status || p.status === "online"))
+    .sort((a, b) => (a.joinedAt || 0) - (b.joinedAt || 0));
+  return candidates[0] || players.find((p) => p.id !== leavingId) || null;
+}
+
+/**
+ * Host cleanup classification (self is never included):
+ * - ghosts: status='disconnected' and grace period exceeded → remove
+ * - stale:  still 'online' but heartbeat too old → mark disconnected (ghost next cycle)
+ */
+export function findOfflinePlayers(room: Room, selfId: string, now: number): { ghosts: Player[]; stale: Player[] } {
+  const ghosts: Player[] = [];
+  const stale: Player[] = [];
+  Object.values(room.players || {}).forEach((player) => {
+    if (player.id === selfId) return;
+    const timeSinceLastSeen = now - (player.lastSeen || now);
+    const status = player.status || "online";
+    if (status === "disconnected" && timeSinceLastSeen > DISCONNECT_GRACE_PERIOD) {
+      ghosts.push(player);
+    } else if (status === "online" && timeSinceLastSeen > STALE_HEARTBEAT_THRESHOLD) {
+      stale.push(player);
+    }
+  });
+  return { ghosts, stale };
+}
+
+// ==================== WATCHDOG ====================
+
+export interface WatchdogContext {
+  selfId: string;
+  expectedRound: number;
+  roundStartTime: number;
+  timeLimit: number;
+  attempts: number; // resolution attempts already made this round
+  now: number;      // client clock — fallback when meta/serverNow is missing
+}
+
+export type WatchdogDecision =
+  | { action: "idle"; reason: string }
+  | { action: "wait"; lockAge: number; lockedBy: string }
+  | { action: "resolve"; elapsed: number; staleLock: boolean; serverNow?: number }
+  | { action: "escalate"; elapsed: number };
+
+/**
+ * One watchdog tick over a FRESH room read. Guarantees no round stays stuck
+ * in "playing": after timeLimit + buffer the host resolves it, overriding a
+ * lock whose holder went silent, and escalates after WATCHDOG_MAX_ATTEMPTS.
+ */
+export function evaluateWatchdog(room: Room | null, ctx: WatchdogContext): WatchdogDecision {
+  if (!room) return { action: "idle", reason: "room deleted" };
+  if (room.status !== "playing") return { action: "idle", reason: `status=${room.status}` };
+  if (room.currentRound !== ctx.expectedRound) return { action: "idle", reason: "round changed" };
+  if (room.hostId !== ctx.selfId) return { action: "idle", reason: "not host" };
+
+  // Server-authoritative elapsed when available
+  const serverNow = room.meta?.serverNow;
+  const elapsed = ((serverNow || ctx.now) - ctx.roundStartTime) / 1000;
+  if (elapsed <= ctx.timeLimit + WATCHDOG_BUFFER) return { action: "idle", reason: "timer running" };
+
+  let staleLock = false;
+  const lock = room.roundEndLock;
+  if (lock && lock.roundId === ctx.expectedRound) {
+    const lockAge = (serverNow || ctx.now) - lock.lockedAt;
+    if (lockAge < WATCHDOG_LOCK_STALE_THRESHOLD) {
+      return { action: "wait", lockAge, lockedBy: lock.lockedBy };
+    }
+    staleLock = true; // holder may have crashed — force override
+  }
+
+  if (ctx.attempts + 1 > WATCHDOG_MAX_ATTEMPTS) return { action: "escalate", elapsed };
+  return { action: "resolve", elapsed, staleLock, serverNow };
+}
+
+// ==================== CLIENT RESYNC ====================
+
+/**
+ * Non-host client after guessing: does a fresh read show a transition we missed?
+ * Returns a reason string, or null if the local snapshot is still accurate.
+ */
+export function detectMissedTransition(freshRoom: Room, expectedRound: number): string | null {
+  if (freshRoom.status !== "playing") return `status=${freshRoom.status} (was playing)`;
+  if (freshRoom.currentRound !== expectedRound) {
+    return `round=${freshRoom.currentRound} (expected ${expectedRound})`;
+  }
+  if (Array.isArray(freshRoom.roundResults) && freshRoom.roundResults.length > 0) {
+    return "roundResults present but status still playing";
+  }
+  return null;
+}
@@ -0,0 +1,58 @@
+/**
+ * Room Storage — persistence boundary for the room engine
+ *
+ * RoomEngine only talks to this interface. Two implementations:
+ * - createFirebaseRoomStorage (firebaseRoomStorage.ts) — production RTDB
+ * - createMemoryRoomStorage (src/__tests__/fakes.ts) — in-process fake for tests
+ *
+ * Transaction semantics mirror RTDB runTransaction: the updater may run more
+ * than once; returning undefined aborts, returning a value commits it.
+ */
+
+import { Room, Player, RoundAnswer } from "@/types";
+
+// ==================== TYPES ====================
+
+export type TransactionUpdater<T> = (current: T | null) => T | null | undefined;
+
+export interface TransactionOutcome<T> {
+  committed: boolean;
+  value: T | null;
+}
+
+export interface RoomStorageAdapter {
+  getRoom(roomId: string): Promise<Room | null>;
+  setRoom(roomId: string, room: Room): Promise<void>;
+  updateRoom(roomId: string, patch: Partial<Room>): Promise<void>;
+  removeRoom(roomId: string): Promise<void>;
+
+  setPlayer(roomId: string, player: Player): Promise<void>;
+  updatePlayer(roomId: string, playerId: string, patch: Partial<Player> & { lastActiveAt?: number }): Promise<void>;
+  removePlayer(roomId: string, playerId: string): Promise<void>;
+
+  transactRoom(roomId: string, updater: TransactionUpdater<Room>): Promise<TransactionOutcome<Room>>;
+  transactPlayer(roomId: string, playerId: string, updater: TransactionUpdater<Player>): Promise<TransactionOutcome<Player>>;
+  /** Atomic currentGuesses++ */
+  incrementGuessCount(roomId: string): Promise<void>;
+  /** meta/serverNow = server timestamp (watchdog clock) */
+  touchServerNow(roomId: string): Promise<void>;
+
+  /** Live room listener; returns unsubscribe */
+  subscribeRoom(roomId: string, listener: (room: Room | null) => void): () => void;
+  /** Server-side disconnect handler (player patch applied when socket drops); returns cancel */
+  onPlayerDisconnect(roomId: string, playerId: string, patch: Partial<Player>): () => void;
+
+  /** Best-estimate of server time (ms since epoch) */
+  getServerNow(): number;
+}
+
+/**
+ * Hidden round answers (roundAnswers/{roomId}/{roundId}). Server-only: the
+ * rules give clients no access, so only the round / scoring authorities use
+ * this (admin REST storage in production, in-process on the memory backend).
+ * Leftovers of deleted rooms are removed by the janitor.
+ */
+export interface RoundAnswerStorage {
+  setRoundAnswer(roomId: string, answer: RoundAnswer): Promise<void>;
+  getRoundAnswer(roomId: string, roundId: number): Promise<RoundAnswer | null>;
+}
@@ -0,0 +1,222 @@
+/**
+ * Round Authority — the only writer of roundAnswers/
+ *
+ * No client ever holds a round's answer while it is being played: the
+ * authority draws the room's next package, stores it under
+ * roundAnswers/{roomId}/{roundId} (no client rule — admin secret only) and
+ * hands the host just the public pano for START_GAME / NEXT_ROUND. The scoring
+ * authority reveals the answer into the room once the round is scored.
+ *
+ * - createRoundAuthority(storage, { draw }): runs server-side
+ *   (app/api/deal-round) over admin storage; in memory mode / tests in-process.
+ * - createRemoteRoundAuthority(getToken): client proxy → POST /api/deal-round
+ *   with the caller's ID token. Only the room's host gets a round dealt.
+ *
+ * Dealing is idempotent per room state: the answer records the game seed +
+ * roundVersion it was dealt for (dealKey), so a retried start / next round
+ * gets the same pano instead of a redraw. The draw is seeded from the same
+ * key under the server's drawSecret (keyedSeed) — Room.seed is readable by
+ * every player, on its own it would let anyone replay the draw. Earlier
+ * rounds of the game prime the anti-repeat window.
+ *
+ * With a resolver (GOOGLE_MAPS_SERVER_KEY on the server, StreetViewService
+ * in memory mode) the draw runs the HYBRID D2 flow — dynamic Street View
+ * generation, static packs as fallback; every lookup is metered in apiBudget.
+ *
+ * Pano IDs expire. A player whose pano won't load asks for refreshPano: the
+ * authority resolves the nearest pano around the hidden answer once per
+ * round (answer.refreshedPano) and hands out only its ID — the coordinates
+ * never leave the server. The room keeps the dealt pano, so the reveal still
+ * matches.
+ */
+
+import { GameMode, PanoPackage, Room, RoundAnswer, RoundPano } from "@/types";
+import { RoomStorageAdapter, RoundAnswerStorage } from "./roomStorage";
+import { DealtRound, publicPano, roundAnswer, roundFromPanoPackage } from "./roomStateMachine";
+import { IsolatedDrawOptions, drawRoundPackage } from "./locationEngine";
+import { roomDifficultyMix, formatDifficultyMix } from "./adaptiveDifficulty";
+import { drawDynamicRoundPackage } from "./dynamicPanoService";
+import type { PanoResolver } from "./panoResolver";
+import { RandomSource, createSeededRandom, keyedSeed } from "@/utils/random";
+
+// ==================== TYPES ====================
+
+export interface DealOutcome {
+  dealt: boolean;
+  reason: string;
+  round?: DealtRound;
+}
+
+export interface RefreshOutcome {
+  refreshed: boolean;
+  reason: string;
+  pano?: RoundPano;
+}
+
+export interface RoundAuthority {
+  /** Deal the room's next round (1 from the lobby, N+1 after round N ended) */
+  dealRound(roomId: string, callerId: string): Promise<DealOutcome>;
+  /** Fresh pano for the round being played when the dealt one expired (any player of the room) */
+  refreshPano(roomId: string, callerId: string): Promise<RefreshOutcome>;
+}
+
+/** Storage surface the authority needs (admin REST storage implements it) */
+export type DealerStorage = Pick<RoomStorageAdapter, "getRoom"> & RoundAnswerStorage;
+
+export type RoundDraw = (
+  room: Room,
+  source: RandomSource,
+  history: string[]
+) => Promise<{ panoPackage: PanoPackage; mapNotice: string | null } | null>;
+
+export interface RoundDrawOptions extends Pick<IsolatedDrawOptions, "calibration" | "quarantine"> {
+  /** Make the mode's pack available first (browser: panoPacks.loadPack) */
+  loadPack?: (mode: GameMode) => Promise<unknown>;
+  /** Street View lookups (metered) — dynamic generation first, static as fallback; missing → static only */
+  resolver?: PanoResolver;
+}
+
+export interface RoundAuthorityOptions {
+  draw?: RoundDraw;
+  /** Server-only key of the draw seed (FIREBASE_DATABASE_SECRET); missing → memory backend / tests */
+  drawSecret?: string | null;
+  /** Street View lookups for refreshPano; missing → no refresh */
+  resolver?: PanoResolver;
+}
+
+/** Same search radius the client used to re-resolve an expired pano from coordinates */
+export const PANO_REFRESH_RADIUS_M = 1000;
+
+export const ROUND_ENDPOINT = "/api/deal-round";
+
+// ==================== PURE HELPERS ====================
+
+/** Round the room would start next, or why it can't */
+export function nextRoundId(room: Room): { roundId: number } | { reason: string } {
+  if (room.status === "waiting") return { roundId: 1 };
+  if (room.status !== "roundEnd") return { reason: `status=${room.status} (expected waiting or roundEnd)` };
+  if (room.currentRound >= room.totalRounds) return { reason: "final round played" };
+  return { roundId: room.currentRound + 1 };
+}
+
+/** Game + room state a deal belongs to — RESTART changes the seed, each round the version */
+export function dealKey(room: Room): string {
+  return `${room.seed ?? room.createdAt}:${room.roundVersion || 0}`;
+}
+
+/**
+ * Pano nearest to the hidden answer, in place of an expired dealt pano (solo
+ * and multiplayer). null when nothing was found or the lookup returned the
+ * dealt pano itself — it isn't expired then, a new ID wouldn't help.
+ */
+export async function resolveFreshPano(answer: RoundAnswer, resolver: PanoResolver): Promise<RoundPano | null> {
+  const dealt = publicPano({ ...answer, panoPackage: answer.panoPackage || null });
+  const found = await resolver({ ...answer.location, radius: PANO_REFRESH_RADIUS_M, kind: "resolvePano" });
+  if (!found || found.panoId === dealt.panoId) return null;
+  return { panoId: found.panoId, heading: dealt.heading };
+}
+
+/** Room's map, tier mix and earlier rounds on an isolated engine */
+export function createRoundDraw(options: RoundDrawOptions = {}): RoundDraw {
+  const { loadPack, resolver, ...extras } = options;
+  return async (room, source, history) => {
+    const mode = room.gameMode || "urban";
+    if (loadPack) await loadPack(mode);
+    // Adaptif zorluk: odanın son turlarına göre karışım (kapalıysa null → 15/55/30), tuning için loglanır
+    let difficultyMix = null;
+    if (room.adaptiveDifficulty) {
+      const { mix, average, level } = roomDifficultyMix(room);
+      console.log(`[Rounds] room=${room.id} mix=${formatDifficultyMix(mix)} level=${level} average=${average}`);
+      difficultyMix = mix;
+    }
+    const drawOptions = { ...extras, mapFilter: room.mapFilter || null, difficultyMix, history };
+    return resolver
+      ? drawDynamicRoundPackage(mode, source, drawOptions, resolver)
+      : drawRoundPackage(mode, source, drawOptions);
+  };
+}
+
+// ==================== AUTHORITY ====================
+
+export function createRoundAuthority(storage: DealerStorage, options: RoundAuthorityOptions = {}): RoundAuthority {
+  const draw = options.draw || createRoundDraw();
+
+  return {
+    async dealRound(roomId, callerId) {
+      const room = await storage.getRoom(roomId);
+      if (!room) return { dealt: false, reason: "room not found" };
+      if (room.hostId !== callerId) return { dealt: false, reason: "not host" };
+      const next = nextRoundId(room);
+      if ("reason" in next) return { dealt: false, reason: next.reason };
+
+      const key = dealKey(room);
+      const existing = await storage.getRoundAnswer(roomId, next.roundId);
+      if (existing && existing.dealKey === key) {
+        const pano = publicPano({ ...existing, panoPackage: existing.panoPackage || null });
+        return { dealt: true, reason: "already dealt", round: { pano, mapNotice: existing.mapNotice || null } };
+      }
+
+      // Bu oyunun önceki turları anti-repeat penceresini doldurur
+      const game = key.split(":")[0];
+      const history: string[] = [];
+      for (let roundId = 1; roundId < next.roundId; roundId++) {
+        const played = await storage.getRoundAnswer(roomId, roundId);
+        if (played?.dealKey?.startsWith(`${game}:`)) history.push(played.panoPackageId);
+      }
+
+      const seed = await keyedSeed(options.drawSecret, `${roomId}:${key}`);
+      const drawn = await draw(room, createSeededRandom(seed), history);
+      if (!drawn) return { dealt: false, reason: "no package available" };
+
+      const payload = roundFromPanoPackage(drawn.panoPackage, drawn.mapNotice);
+      const answer: RoundAnswer = { ...roundAnswer(payload, next.roundId), dealKey: key, mapNotice: drawn.mapNotice };
+      await storage.setRoundAnswer(roomId, answer);
+      console.log(`[Rounds] room=${roomId} round=${next.roundId} dealt ${answer.panoPackageId}`);
+      return { dealt: true, reason: "dealt", round: { pano: publicPano(payload), mapNotice: drawn.mapNotice } };
+    },
+
+    async refreshPano(roomId, callerId) {
+      const room = await storage.getRoom(roomId);
+      if (!room) return { refreshed: false, reason: "room not found" };
+      if (!room.players?.[callerId]) return { refreshed: false, reason: "not in room" };
+      if (room.status !== "playing" || !room.currentPano) return { refreshed: false, reason: `status=${room.status} (expected playing)` };
+
+      const answer = await storage.getRoundAnswer(roomId, room.currentRound);
+      if (!answer || publicPano({ ...answer, panoPackage: answer.panoPackage || null }).panoId !== room.currentPano.panoId) {
+        return { refreshed: false, reason: "not dealt" };
+      }
+      // Turda bir kez çözülür — aynı panoyu isteyen diğer oyuncular aynı yeni ID'yi alır
+      if (answer.refreshedPano) return { refreshed: true, reason: "already refreshed", pano: answer.refreshedPano };
+      if (!options.resolver) return { refreshed: false, reason: "refresh unavailable" };
+
+      const pano = await resolveFreshPano(answer, options.resolver);
+      if (!pano) return { refreshed: false, reason: "no fresh pano" };
+      await storage.setRoundAnswer(roomId, { ...answer, refreshedPano: pano });
+      console.log(`[Rounds] room=${roomId} round=${answer.roundId} pano refreshed for ${callerId}`);
+      return { refreshed: true, reason: "refreshed", pano };
+    },
+  };
+}
+
+/** Client-side proxy: asks the server authority to deal the room's next round / refresh its pano */
+export function createRemoteRoundAuthority(
+  getToken: () => Promise<string>,
+  endpoint: string = ROUND_ENDPOINT
+): RoundAuthority {
+  const post = async <T>(body: object): Promise<T> => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${await getToken()}` },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Round authority HTTP ${response.status}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    dealRound: (roomId) => post<DealOutcome>({ roomId }),
+    refreshPano: (roomId) => post<RefreshOutcome>({ roomId, action: "refresh" }),
+  };
+}
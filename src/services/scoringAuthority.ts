@@ -0,0 +1,153 @@
+/**
+ * Scoring Authority — the only writer of roundResults / totalScore / roundScores
+ *
+ * The host client no longer computes scores: END_ROUND only takes the lock and
+ * flips status to roundEnd. The authority then re-reads the room, takes the
+ * stored currentGuess values + the hidden answer (roundAnswers/{roomId}/{roundId},
+ * dealt by roundAuthority.ts and never readable by clients), recomputes
+ * distance/score with calculateDistance/calculateScore and reveals the answer
+ * into the room in the same write.
+ *
+ * Guesses are frozen at END_ROUND: the rules accept a currentGuess only from its
+ * owner while the room is playing, before roundEndLock is taken for the round
+ * and within the time limit. So the guesses the authority reads after the lock
+ * are exactly the ones stored when the round ended.
+ *
+ * - createScoringAuthority(storage): runs the scoring transaction. In production
+ *   it runs server-side (app/api/score-round) over admin storage that bypasses
+ *   the RTDB rules; in memory mode / tests it runs in-process.
+ * - createRemoteScoringAuthority(getToken): client proxy → POST /api/score-round
+ *   with the caller's ID token; the route only scores for a player of the room.
+ *
+ * Scoring is deterministic and idempotent (a scored round is never rescored),
+ * so any player may trigger it — the outcome is the same whoever asks.
+ *
+ * Scoring the final round also feeds the leaderboards (leaderboard.ts) when a
+ * LeaderboardStorage is given — the only path onto a board. Every scored round
+ * also leaves accuracy samples for the accuracy aggregation job (accuracyStats.ts).
+ */
+
+import { Room, RoundResult, RoundAnswer } from "@/types";
+import { RoomStorageAdapter, RoundAnswerStorage } from "./roomStorage";
+import { computeRoundResults, needsScoring, revealAnswer, TransitionResult } from "./roomStateMachine";
+import { LeaderboardStorage, isFinalRoundScored, recordFinishedGame } from "./leaderboard";
+import { AccuracySampleSink, sampleIdFor, samplesFromRoom } from "./accuracyStats";
+
+// ==================== TYPES ====================
+
+export interface ScoringOutcome {
+  scored: boolean;
+  reason: string;
+  results?: RoundResult[];
+}
+
+export interface ScoringAuthority {
+  scoreRound(roomId: string, roundId: number): Promise<ScoringOutcome>;
+}
+
+/** Storage surface the authority needs (admin REST storage implements only this) */
+export type AuthorityStorage = Pick<RoomStorageAdapter, "getRoom" | "transactRoom"> & Pick<RoundAnswerStorage, "getRoundAnswer">;
+
+export interface ScoringAuthorityOptions {
+  /** Final-round scores go onto the leaderboards */
+  leaderboard?: LeaderboardStorage;
+  /** Per-round accuracy samples (province / package heatmap) */
+  accuracy?: AccuracySampleSink;
+}
+
+export const SCORING_ENDPOINT = "/api/score-round";
+
+// ==================== PURE SCORING ====================
+
+/**
+ * Score the ended round from stored data only. Every player currently in the
+ * room gets a result; non-guessers get distance 9999 / score 0.
+ * `answer` (from roundAnswers) wins over whatever the room already revealed.
+ */
+export function applyRoundScores(room: Room, roundId: number, answer: RoundAnswer | null = null): TransitionResult {
+  if (room.currentRound !== roundId) return { ok: false, reason: `round=${room.currentRound} (expected ${roundId})` };
+  if (room.status !== "roundEnd") return { ok: false, reason: `status=${room.status} (expected roundEnd)` };
+  if (!needsScoring(room)) return { ok: false, reason: "already scored" };
+
+  const revealed = answer ? revealAnswer(room, answer) : room;
+  if (!revealed) return { ok: false, reason: "answer does not match round" };
+  if (!revealed.currentLocation) return { ok: false, reason: "hidden location missing" };
+
+  const results = computeRoundResults(revealed, null, revealed.currentLocation);
+  const players: Room["players"] = { ...(revealed.players || {}) };
+  results.forEach((result) => {
+    const player = players[result.playerId];
+    players[result.playerId] = {
+      ...player,
+      totalScore: (player.totalScore || 0) + result.score,
+      roundScores: [...(player.roundScores || []), result.score],
+      hasGuessed: true,
+    };
+  });
+
+  return { ok: true, room: { ...revealed, roundResults: results, players } };
+}
+
+// ==================== AUTHORITY ====================
+
+export function createScoringAuthority(storage: AuthorityStorage, options: ScoringAuthorityOptions = {}): ScoringAuthority {
+  return {
+    async scoreRound(roomId, roundId) {
+      let rejection = "room not found";
+      const answer = await storage.getRoundAnswer(roomId, roundId);
+
+      const outcome = await storage.transactRoom(roomId, (current) => {
+        if (!current) return current; // cold cache — retry with server value
+        const result = applyRoundScores(current, roundId, answer);
+        if (!result.ok) {
+          rejection = result.reason;
+          return undefined;
+        }
+        return result.room;
+      });
+
+      if (!outcome.committed || !outcome.value) {
+        return { scored: false, reason: rejection };
+      }
+      const results = outcome.value.roundResults || [];
+      console.log(`[Scoring] room=${roomId} round=${roundId} scored ${results.length} players`);
+
+      if (options.accuracy) {
+        try {
+          await options.accuracy.addSamples(sampleIdFor(outcome.value), samplesFromRoom(outcome.value));
+        } catch (err) {
+          console.error(`[Scoring] room=${roomId} accuracy samples failed:`, err);
+        }
+      }
+      if (options.leaderboard && isFinalRoundScored(outcome.value)) {
+        try {
+          await recordFinishedGame(outcome.value, options.leaderboard);
+        } catch (err) {
+          // The round is scored either way — a lost board write is not a scoring failure
+          console.error(`[Scoring] room=${roomId} leaderboard write failed:`, err);
+        }
+      }
+      return { scored: true, reason: "scored", results };
+    },
+  };
+}
+
+/** Client-side proxy: asks the server authority to score the round */
+export function createRemoteScoringAuthority(
+  getToken: () => Promise<string>,
+  endpoint: string = SCORING_ENDPOINT
+): ScoringAuthority {
+  return {
+    async scoreRound(roomId, roundId) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${await getToken()}` },
+        body: JSON.stringify({ roomId, roundId }),
+      });
+      if (!response.ok) {
+        throw new Error(`Scoring authority HTTP ${response.status}`);
+      }
+      return (await response.json()) as ScoringOutcome;
+    },
+  };
+}
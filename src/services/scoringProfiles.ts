@@ -0,0 +1,143 @@
+/**
+ * Scoring Profiles — per-room scoring curves
+ *
+ * Room.scoringProfile picks one of SCORING_PROFILES (types). Every profile
+ * gives full points inside 0.1 km and uses a per-mode distance scale, so a
+ * guess in the right city is worth more in geo mode than in urban mode.
+ *
+ * - exponential:   maxScore · e^(-3·d/max)            + il/ilçe bonus (capped)
+ * - linear:        maxScore · (1 - d/max)             + il/ilçe bonus (capped)
+ * - provinceBonus: exponential scaled to maxScore - bonus, + bonus in the right il
+ * - districtZone:  right ilçe = maxScore, otherwise exponential
+ *
+ * Il/ilçe of a guess comes from a PlaceResolver. The default one is the offline
+ * lookup (adminBoundaries: il polygons, ilçe zones around the bundled ilçe
+ * seats), so the server-side scoring authority gets the same answer as any
+ * client.
+ */
+
+import {
+  Coordinates,
+  GameMode,
+  ScoringProfileId,
+  SCORING,
+  SCORING_PROFILES,
+  DEFAULT_SCORING_PROFILE,
+} from "@/types";
+import { calculateScore } from "@/utils";
+import { Place, findPlace, findProvinceByName } from "./adminBoundaries";
+
+export type { Place } from "./adminBoundaries";
+
+// ==================== TYPES ====================
+
+export type PlaceResolver = (coords: Coordinates) => Place | null;
+
+export interface GuessContext {
+  distanceKm: number;
+  guess: Coordinates;
+  answerName: string | null; // "İlçe, İl"
+  answerLocation?: Coordinates | null;
+  mode: GameMode;
+}
+
+export interface PlaceMatch {
+  guessProvince: string | null;
+  correctProvince: string | null;
+  province: boolean;
+  district: boolean;
+}
+
+// ==================== CONSTANTS ====================
+
+const PERFECT_RADIUS_KM = 0.1;
+
+// ==================== PLACES ====================
+
+/** "İlçe, İl" → { district, province }; "İl" → { province } */
+export function parsePlaceName(locationName: string | null | undefined): Place | null {
+  if (!locationName) return null;
+  const parts = locationName.split(",").map((s) => s.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+  if (parts.length === 1) return { province: parts[0], district: null };
+  return { province: parts[parts.length - 1], district: parts[0] };
+}
+
+function samePlaceName(a: string | null, b: string | null): boolean {
+  return !!a && !!b && a.toLocaleLowerCase("tr") === b.toLocaleLowerCase("tr");
+}
+
+/**
+ * Guess vs answer il/ilçe. The answer's il is the curated name when it is a
+ * real il ("Toros Dağları" isn't), else the polygon under the answer. A guess
+ * counts as the right il if its polygon matches either — curated names near a
+ * border can disagree with the simplified polygons. The ilçe is the zone under
+ * the answer (curated names are mostly landmarks: "Efes, İzmir"), or the
+ * curated name when it is the guessed zone.
+ */
+export function matchPlaces(context: GuessContext, resolvePlace: PlaceResolver = findPlace): PlaceMatch {
+  const named = parsePlaceName(context.answerName);
+  const namedProvince = findProvinceByName(named?.province)?.name ?? null;
+  const answerPlace = context.answerLocation ? resolvePlace(context.answerLocation) : null;
+  const correctProvince = namedProvince ?? answerPlace?.province ?? named?.province ?? null;
+
+  const guessed = resolvePlace(context.guess);
+  const guessProvince = guessed?.province ?? null;
+  const province =
+    samePlaceName(guessProvince, correctProvince) ||
+    samePlaceName(guessProvince, answerPlace?.province ?? null);
+  const guessDistrict = guessed?.district ?? null;
+  const district =
+    province &&
+    ((samePlaceName(guessProvince, answerPlace?.province ?? null) && samePlaceName(guessDistrict, answerPlace?.district ?? null)) ||
+      samePlaceName(guessDistrict, named?.district ?? null));
+
+  return { guessProvince, correctProvince, province, district };
+}
+
+// ==================== SCORING ====================
+
+/** Unknown / legacy values fall back to the default profile */
+export function resolveScoringProfile(id: unknown): ScoringProfileId {
+  return typeof id === "string" && id in SCORING_PROFILES ? (id as ScoringProfileId) : DEFAULT_SCORING_PROFILE;
+}
+
+/** Curve score + il/ilçe bonus, never above maxScore */
+function withPlaceBonus(base: number, match: PlaceMatch): number {
+  const bonus =
+    (match.province ? SCORING.placeBonus.province : 0) +
+    (match.district ? SCORING.placeBonus.district : 0);
+  return Math.min(SCORING.maxScore, base + bonus);
+}
+
+export function scoreGuess(
+  profileId: ScoringProfileId,
+  context: GuessContext,
+  resolvePlace: PlaceResolver = findPlace
+): number {
+  const { distanceKm, mode } = context;
+  const profile = SCORING_PROFILES[profileId];
+  const maxDistance = profile.maxDistanceKm[mode] || SCORING.maxDistance;
+  if (distanceKm <= PERFECT_RADIUS_KM) return SCORING.maxScore;
+
+  switch (profileId) {
+    case "exponential":
+      return withPlaceBonus(calculateScore(distanceKm, maxDistance), matchPlaces(context, resolvePlace));
+
+    case "linear": {
+      const base = distanceKm >= maxDistance ? 0 : Math.round(SCORING.maxScore * (1 - distanceKm / maxDistance));
+      return withPlaceBonus(base, matchPlaces(context, resolvePlace));
+    }
+
+    case "provinceBonus": {
+      const bonus = SCORING_PROFILES.provinceBonus.provinceBonus;
+      const base = Math.round(calculateScore(distanceKm, maxDistance) * (SCORING.maxScore - bonus) / SCORING.maxScore);
+      return base + (matchPlaces(context, resolvePlace).province ? bonus : 0);
+    }
+
+    case "districtZone": {
+      const sameDistrict = matchPlaces(context, resolvePlace).district;
+      return sameDistrict ? SCORING.maxScore : calculateScore(distanceKm, maxDistance);
+    }
+  }
+}
@@ -0,0 +1,746 @@
+/**
+ * Security Rules Evaluator — local allow/deny for database.rules.json
+ *
+ * Loads the RTDB rules file and answers "would this read/write be allowed?"
+ * for a given auth uid, path, current data and new data — no emulator, no
+ * network. Used by the rules spec so anti-cheat regressions fail CI.
+ *
+ * Semantics (RTDB subset this project uses):
+ * - .read / .write cascade top-down: any rule on root→path granting access wins
+ * - A write needs a granting .write for every changed location
+ * - .validate runs on every changed node whose new value is non-null (no cascade)
+ * - $wildcards bind the child key; explicit children take precedence
+ * - Expression errors (e.g. null.length, auth.uid when auth == null) → false
+ */
+
+// ==================== TYPES ====================
+
+export type RuleExpression = string | boolean;
+
+export interface RulesNode {
+  ".read"?: RuleExpression;
+  ".write"?: RuleExpression;
+  ".validate"?: RuleExpression;
+  [key: string]: RulesNode | RuleExpression | undefined;
+}
+
+export interface RulesFile {
+  rules: RulesNode;
+}
+
+export interface RulesDecision {
+  allowed: boolean;
+  /** Deny sebebi (ilk başarısız kural + path); allow'da null */
+  reason: string | null;
+}
+
+interface RequestBase {
+  /** Anonymous auth uid; null = unauthenticated */
+  auth: string | null;
+  /** Slash-separated path, e.g. "rooms/ABC123/status" */
+  path: string;
+  /** Whole database before the operation (root value) */
+  data: unknown;
+  /** Server time for the `now` variable (default Date.now()) */
+  now?: number;
+}
+
+export type ReadRequest = RequestBase;
+
+export interface WriteRequest extends RequestBase {
+  /** Value passed to set() at path (null = remove) */
+  newData: unknown;
+}
+
+export interface UpdateRequest extends RequestBase {
+  /** Multi-path update() patch relative to path */
+  patch: Record<string, unknown>;
+}
+
+export interface RulesEvaluator {
+  canRead(request: ReadRequest): RulesDecision;
+  canWrite(request: WriteRequest): RulesDecision;
+  canUpdate(request: UpdateRequest): RulesDecision;
+}
+
+/** One rules location that carries at least one rule (used for spec coverage) */
+export interface RuleLocation {
+  path: string;
+  kinds: Array<".read" | ".write" | ".validate">;
+}
+
+export class RulesSyntaxError extends Error {
+  constructor(message: string, public readonly expression: string) {
+    super(`${message} in rule: ${expression}`);
+    this.name = "RulesSyntaxError";
+  }
+}
+
+/** Runtime rule error — evaluates the rule to false (RTDB behaviour) */
+class RuleEvaluationError extends Error {}
+
+// ==================== DATA HELPERS ====================
+
+type DataValue = null | string | number | boolean | { [key: string]: DataValue };
+
+/** RTDB storage normalization: null/undefined/empty objects are pruned, arrays become index maps */
+function normalize(value: unknown): DataValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  if (typeof value !== "object") return null;
+
+  const result: { [key: string]: DataValue } = {};
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  for (const [key, child] of entries) {
+    const normalized = normalize(child);
+    if (normalized !== null) result[key] = normalized;
+  }
+  return Object.keys(result).length > 0 ? result : null;
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter((segment) => segment.length > 0);
+}
+
+function isObject(value: DataValue): value is { [key: string]: DataValue } {
+  return value !== null && typeof value === "object";
+}
+
+function readAt(root: DataValue, segments: string[]): DataValue {
+  let current = root;
+  for (const segment of segments) {
+    if (!isObject(current) || !(segment in current)) return null;
+    current = current[segment];
+  }
+  return current;
+}
+
+function writeAt(root: DataValue, segments: string[], value: DataValue): DataValue {
+  if (segments.length === 0) return value;
+  const [head, ...rest] = segments;
+  const base = isObject(root) ? { ...root } : {};
+  base[head] = writeAt(isObject(root) ? root[head] ?? null : null, rest, value);
+  return normalize(base);
+}
+
+function deepEqual(a: DataValue, b: DataValue): boolean {
+  if (a === b) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  const keysA = Object.keys(a);
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every((key) => key in b && deepEqual(a[key], b[key]));
+}
+
+// ==================== RULE SNAPSHOT ====================
+
+/** `data` / `newData` / `root` inside rule expressions */
+class RuleSnapshot {
+  constructor(private readonly root: DataValue, private readonly segments: string[]) {}
+
+  private get value(): DataValue {
+    return readAt(this.root, this.segments);
+  }
+
+  val(): DataValue {
+    return this.value;
+  }
+
+  child(path: string): RuleSnapshot {
+    return new RuleSnapshot(this.root, [...this.segments, ...splitPath(expectString(path))]);
+  }
+
+  parent(): RuleSnapshot {
+    if (this.segments.length === 0) throw new RuleEvaluationError("root has no parent");
+    return new RuleSnapshot(this.root, this.segments.slice(0, -1));
+  }
+
+  hasChild(path: string): boolean {
+    return this.child(path).exists();
+  }
+
+  hasChildren(keys?: string[]): boolean {
+    const value = this.value;
+    if (!isObject(value)) return false;
+    if (keys === undefined) return Object.keys(value).length > 0;
+    if (!Array.isArray(keys)) throw new RuleEvaluationError("hasChildren expects an array");
+    return keys.every((key) => this.hasChild(key));
+  }
+
+  exists(): boolean {
+    return this.value !== null;
+  }
+
+  isNumber(): boolean {
+    return typeof this.value === "number";
+  }
+
+  isString(): boolean {
+    return typeof this.value === "string";
+  }
+
+  isBoolean(): boolean {
+    return typeof this.value === "boolean";
+  }
+
+  getPriority(): null {
+    return null;
+  }
+}
+
+const SNAPSHOT_METHODS = new Set([
+  "val", "child", "parent", "hasChild", "hasChildren", "exists", "isNumber", "isString", "isBoolean", "getPriority",
+]);
+
+function expectString(value: unknown): string {
+  if (typeof value !== "string") throw new RuleEvaluationError(`expected string, got ${typeof value}`);
+  return value;
+}
+
+function expectBoolean(value: unknown): boolean {
+  if (typeof value !== "boolean") throw new RuleEvaluationError(`expected boolean, got ${typeof value}`);
+  return value;
+}
+
+// ==================== EXPRESSION PARSER ====================
+
+type Token =
+  | { kind: "num"; value: number }
+  | { kind: "str"; value: string }
+  | { kind: "regex"; value: RegExp }
+  | { kind: "ident"; value: string }
+  | { kind: "punct"; value: string };
+
+type Node =
+  | { type: "literal"; value: unknown }
+  | { type: "ident"; name: string }
+  | { type: "member"; object: Node; property: string }
+  | { type: "index"; object: Node; index: Node }
+  | { type: "call"; object: Node; method: string; args: Node[] }
+  | { type: "array"; items: Node[] }
+  | { type: "unary"; op: string; arg: Node }
+  | { type: "binary"; op: string; left: Node; right: Node }
+  | { type: "conditional"; test: Node; consequent: Node; alternate: Node };
+
+const PUNCTUATORS = ["===", "!==", "==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "+", "-", "*", "/", "%", "(", ")", "[", "]", ".", ",", "?", ":"];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Regex literal sadece bir değerden sonra gelemez (aksi halde bölme operatörü)
+  const regexAllowed = () => {
+    const last = tokens[tokens.length - 1];
+    if (!last) return true;
+    if (last.kind === "punct") return last.value !== ")" && last.value !== "]";
+    return false;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ kind: "num", value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ kind: "ident", value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === "\\" && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw new RulesSyntaxError("Unterminated string", source);
+      i++;
+      tokens.push({ kind: "str", value });
+      continue;
+    }
+
+    if (ch === "/" && regexAllowed()) {
+      let body = "";
+      let inClass = false;
+      i++;
+      while (i < source.length && (source[i] !== "/" || inClass)) {
+        if (source[i] === "\\" && i + 1 < source.length) body += source[i++];
+        else if (source[i] === "[") inClass = true;
+        else if (source[i] === "]") inClass = false;
+        body += source[i++];
+      }
+      if (i >= source.length) throw new RulesSyntaxError("Unterminated regex", source);
+      i++;
+      const flags = /^[i]*/.exec(source.slice(i))![0];
+      i += flags.length;
+      tokens.push({ kind: "regex", value: new RegExp(body, flags) });
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find((p) => source.startsWith(p, i));
+    if (!punct) throw new RulesSyntaxError(`Unexpected character '${ch}'`, source);
+    tokens.push({ kind: "punct", value: punct });
+    i += punct.length;
+  }
+
+  return tokens;
+}
+
+/** Binary operator precedence (higher binds tighter) */
+const PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3, "!=": 3, "===": 3, "!==": 3,
+  "<": 4, "<=": 4, ">": 4, ">=": 4,
+  "+": 5, "-": 5,
+  "*": 6, "/": 6, "%": 6,
+};
+
+function parseExpression(source: string): Node {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isPunct = (value: string) => peek()?.kind === "punct" && peek()!.value === value;
+  const expect = (value: string) => {
+    if (!isPunct(value)) throw new RulesSyntaxError(`Expected '${value}'`, source);
+    pos++;
+  };
+
+  const parseArgs = (close: string): Node[] => {
+    const args: Node[] = [];
+    if (isPunct(close)) { pos++; return args; }
+    for (;;) {
+      args.push(parseConditional());
+      if (isPunct(",")) { pos++; continue; }
+      expect(close);
+      return args;
+    }
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[pos++];
+    if (!token) throw new RulesSyntaxError("Unexpected end of expression", source);
+    switch (token.kind) {
+      case "num":
+      case "str":
+      case "regex":
+        return { type: "literal", value: token.value };
+      case "ident":
+        if (token.value === "true") return { type: "literal", value: true };
+        if (token.value === "false") return { type: "literal", value: false };
+        if (token.value === "null") return { type: "literal", value: null };
+        return { type: "ident", name: token.value };
+      case "punct":
+        if (token.value === "(") {
+          const inner = parseConditional();
+          expect(")");
+          return inner;
+        }
+        if (token.value === "[") return { type: "array", items: parseArgs("]") };
+        throw new RulesSyntaxError(`Unexpected '${token.value}'`, source);
+    }
+  };
+
+  const parsePostfix = (): Node => {
+    let node = parsePrimary();
+    for (;;) {
+      if (isPunct(".")) {
+        pos++;
+        const name = tokens[pos++];
+        if (!name || name.kind !== "ident") throw new RulesSyntaxError("Expected property name", source);
+        if (isPunct("(")) {
+          pos++;
+          node = { type: "call", object: node, method: name.value, args: parseArgs(")") };
+        } else {
+          node = { type: "member", object: node, property: name.value };
+        }
+      } else if (isPunct("[")) {
+        pos++;
+        const index = parseConditional();
+        expect("]");
+        node = { type: "index", object: node, index };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parseUnary = (): Node => {
+    if (isPunct("!") || isPunct("-")) {
+      const op = (tokens[pos++] as { value: string }).value;
+      return { type: "unary", op, arg: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  const parseBinary = (minPrecedence: number): Node => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      const precedence = token?.kind === "punct" ? PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      pos++;
+      const right = parseBinary(precedence + 1);
+      left = { type: "binary", op: token!.value as string, left, right };
+    }
+  };
+
+  function parseConditional(): Node {
+    const test = parseBinary(1);
+    if (!isPunct("?")) return test;
+    pos++;
+    const consequent = parseConditional();
+    expect(":");
+    const alternate = parseConditional();
+    return { type: "conditional", test, consequent, alternate };
+  }
+
+  const ast = parseConditional();
+  if (pos !== tokens.length) throw new RulesSyntaxError("Unexpected trailing tokens", source);
+  return ast;
+}
+
+// ==================== EXPRESSION EVALUATION ====================
+
+interface EvalScope {
+  variables: Record<string, unknown>;
+}
+
+function callMethod(target: unknown, method: string, args: unknown[]): unknown {
+  if (target instanceof RuleSnapshot) {
+    if (!SNAPSHOT_METHODS.has(method)) throw new RuleEvaluationError(`unknown snapshot method ${method}`);
+    return (target[method as keyof RuleSnapshot] as (...a: unknown[]) => unknown).apply(target, args);
+  }
+
+  if (typeof target === "string") {
+    switch (method) {
+      case "matches": {
+        if (!(args[0] instanceof RegExp)) throw new RuleEvaluationError("matches expects a regex");
+        return args[0].test(target);
+      }
+      case "contains": return target.includes(expectString(args[0]));
+      case "beginsWith": return target.startsWith(expectString(args[0]));
+      case "endsWith": return target.endsWith(expectString(args[0]));
+      case "replace": return target.split(expectString(args[0])).join(expectString(args[1]));
+      case "toLowerCase": return target.toLowerCase();
+      case "toUpperCase": return target.toUpperCase();
+    }
+  }
+
+  throw new RuleEvaluationError(`cannot call ${method} on ${target === null ? "null" : typeof target}`);
+}
+
+function evaluateNode(node: Node, scope: EvalScope): unknown {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+
+    case "ident":
+      if (!(node.name in scope.variables)) throw new RuleEvaluationError(`unknown variable ${node.name}`);
+      return scope.variables[node.name];
+
+    case "array":
+      return node.items.map((item) => evaluateNode(item, scope));
+
+    case "member": {
+      const target = evaluateNode(node.object, scope);
+      if (typeof target === "string" && node.property === "length") return target.length;
+      if (target === null || typeof target !== "object" || target instanceof RuleSnapshot) {
+        throw new RuleEvaluationError(`cannot read ${node.property} of ${target === null ? "null" : typeof target}`);
+      }
+      return (target as Record<string, unknown>)[node.property] ?? null;
+    }
+
+    case "index": {
+      const target = evaluateNode(node.object, scope);
+      const key = evaluateNode(node.index, scope);
+      if (target === null || typeof target !== "object" || target instanceof RuleSnapshot) {
+        throw new RuleEvaluationError("cannot index non-object");
+      }
+      return (target as Record<string, unknown>)[String(key)] ?? null;
+    }
+
+    case "call": {
+      const target = evaluateNode(node.object, scope);
+      const args = node.args.map((arg) => evaluateNode(arg, scope));
+      return callMethod(target, node.method, args);
+    }
+
+    case "unary": {
+      const value = evaluateNode(node.arg, scope);
+      if (node.op === "!") return !expectBoolean(value);
+      if (typeof value !== "number") throw new RuleEvaluationError("unary minus on non-number");
+      return -value;
+    }
+
+    case "binary": {
+      // Short-circuit: `auth != null && auth.uid == ...` hiç hata vermeden false olur
+      if (node.op === "&&") return expectBoolean(evaluateNode(node.left, scope)) && expectBoolean(evaluateNode(node.right, scope));
+      if (node.op === "||") return expectBoolean(evaluateNode(node.left, scope)) || expectBoolean(evaluateNode(node.right, scope));
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.op) {
+        case "==":
+        case "===":
+          return left === right;
+        case "!=":
+        case "!==":
+          return left !== right;
+        case "+":
+          if (typeof left === "number" && typeof right === "number") return left + right;
+          if (typeof left === "string" || typeof right === "string") return `${left}${right}`;
+          throw new RuleEvaluationError("invalid operands for +");
+      }
+      const sameComparable =
+        (typeof left === "number" && typeof right === "number") ||
+        (typeof left === "string" && typeof right === "string" && ["<", "<=", ">", ">="].includes(node.op));
+      if (!sameComparable) throw new RuleEvaluationError(`invalid operands for ${node.op}`);
+      const l = left as number;
+      const r = right as number;
+      switch (node.op) {
+        case "<": return l < r;
+        case "<=": return l <= r;
+        case ">": return l > r;
+        case ">=": return l >= r;
+        case "-": return l - r;
+        case "*": return l * r;
+        case "/": return l / r;
+        case "%": return l % r;
+      }
+      throw new RuleEvaluationError(`unknown operator ${node.op}`);
+    }
+
+    case "conditional":
+      return expectBoolean(evaluateNode(node.test, scope))
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+  }
+}
+
+// ==================== RULE TREE ====================
+
+type RuleKind = ".read" | ".write" | ".validate";
+
+type CompiledRule = (scope: EvalScope) => boolean;
+
+interface RuleFrame {
+  node: RulesNode;
+  /** Data path of this frame */
+  segments: string[];
+  /** $wildcard bindings visible at this frame */
+  bindings: Record<string, string>;
+}
+
+function childRule(frame: RuleFrame, key: string): RuleFrame | null {
+  const explicit = frame.node[key];
+  if (!key.startsWith("$") && !key.startsWith(".") && explicit && typeof explicit === "object") {
+    return { node: explicit, segments: [...frame.segments, key], bindings: frame.bindings };
+  }
+  const wildcard = Object.keys(frame.node).find((candidate) => candidate.startsWith("$"));
+  if (!wildcard) return null;
+  return {
+    node: frame.node[wildcard] as RulesNode,
+    segments: [...frame.segments, key],
+    bindings: { ...frame.bindings, [wildcard]: key },
+  };
+}
+
+/** root→path rule frames; stops where the rules tree ends */
+function ruleChain(rootFrame: RuleFrame, segments: string[]): RuleFrame[] {
+  const chain = [rootFrame];
+  let frame: RuleFrame | null = rootFrame;
+  for (const segment of segments) {
+    frame = childRule(frame, segment);
+    if (!frame) break;
+    chain.push(frame);
+  }
+  return chain;
+}
+
+function hasChildRules(node: RulesNode): boolean {
+  return Object.entries(node).some(([key, value]) => !key.startsWith(".") && typeof value === "object");
+}
+
+/**
+ * All rule-bearing locations in the file, e.g. "rooms/$roomId/status" → [".validate"].
+ * The rules spec uses this to assert every rule has both positive and negative cases.
+ */
+export function listRuleLocations(file: RulesFile): RuleLocation[] {
+  const locations: RuleLocation[] = [];
+  const visit = (node: RulesNode, path: string) => {
+    const kinds = ([".read", ".write", ".validate"] as const).filter((kind) => node[kind] !== undefined);
+    if (kinds.length > 0) locations.push({ path, kinds: [...kinds] });
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith(".") || typeof child !== "object" || child === null) continue;
+      visit(child, path ? `${path}/${key}` : key);
+    }
+  };
+  visit(file.rules, "");
+  return locations;
+}
+
+// ==================== EVALUATOR ====================
+
+export function createRulesEvaluator(file: RulesFile): RulesEvaluator {
+  const compiled = new Map<string, CompiledRule>();
+
+  const compile = (expression: RuleExpression): CompiledRule => {
+    if (typeof expression === "boolean") return () => expression;
+    const cached = compiled.get(expression);
+    if (cached) return cached;
+    const ast = parseExpression(expression);
+    const rule: CompiledRule = (scope) => {
+      try {
+        return evaluateNode(ast, scope) === true;
+      } catch (error) {
+        if (error instanceof RuleEvaluationError) return false;
+        throw error;
+      }
+    };
+    compiled.set(expression, rule);
+    return rule;
+  };
+
+  // Syntax hataları yükleme anında patlasın (deploy'dan önce yakalanır)
+  for (const location of listRuleLocations(file)) {
+    let node: RulesNode = file.rules;
+    for (const segment of splitPath(location.path)) node = node[segment] as RulesNode;
+    location.kinds.forEach((kind) => compile(node[kind]!));
+  }
+
+  const rootFrame: RuleFrame = { node: file.rules, segments: [], bindings: {} };
+
+  const runRule = (
+    frame: RuleFrame,
+    kind: RuleKind,
+    context: { auth: string | null; oldRoot: DataValue; newRoot: DataValue; now: number }
+  ): boolean | null => {
+    const expression = frame.node[kind];
+    if (expression === undefined) return null;
+    const scope: EvalScope = {
+      variables: {
+        ...frame.bindings,
+        auth: context.auth === null ? null : { uid: context.auth, provider: "anonymous", token: {} },
+        now: context.now,
+        root: new RuleSnapshot(context.oldRoot, []),
+        data: new RuleSnapshot(context.oldRoot, frame.segments),
+        newData: new RuleSnapshot(context.newRoot, frame.segments),
+      },
+    };
+    return compile(expression as RuleExpression)(scope);
+  };
+
+  const evaluateMutation = (
+    request: RequestBase,
+    writes: Array<{ segments: string[]; value: DataValue }>
+  ): RulesDecision => {
+    const oldRoot = normalize(request.data);
+    let newRoot = oldRoot;
+    for (const write of writes) newRoot = writeAt(newRoot, write.segments, write.value);
+    const context = { auth: request.auth, oldRoot, newRoot, now: request.now ?? Date.now() };
+
+    // .write: root→location üzerinde herhangi bir kural izin verirse yeter (cascade)
+    const writeMemo = new Map<string, boolean>();
+    const writeGranted = (segments: string[]): boolean => {
+      const key = segments.join("/");
+      const memo = writeMemo.get(key);
+      if (memo !== undefined) return memo;
+      const granted = ruleChain(rootFrame, segments).some((frame) => runRule(frame, ".write", context) === true);
+      writeMemo.set(key, granted);
+      return granted;
+    };
+
+    const changedLocations: string[][] = [];
+    const validateTargets: RuleFrame[] = [];
+
+    // Eski/yeni ağacı kural ağacıyla birlikte gez; sadece değişen dallara in
+    const walk = (frame: RuleFrame | null, segments: string[], oldValue: DataValue, newValue: DataValue) => {
+      if (deepEqual(oldValue, newValue)) return;
+      if (frame && newValue !== null) validateTargets.push(frame);
+
+      const canDescend = frame !== null && hasChildRules(frame.node) && (isObject(oldValue) || isObject(newValue));
+      if (!canDescend) {
+        changedLocations.push(segments);
+        return;
+      }
+      if (!isObject(oldValue) && oldValue !== null) changedLocations.push(segments);
+      if (!isObject(newValue) && newValue !== null) changedLocations.push(segments);
+
+      const keys = new Set([
+        ...Object.keys(isObject(oldValue) ? oldValue : {}),
+        ...Object.keys(isObject(newValue) ? newValue : {}),
+      ]);
+      keys.forEach((key) => {
+        walk(
+          childRule(frame!, key),
+          [...segments, key],
+          isObject(oldValue) ? oldValue[key] ?? null : null,
+          isObject(newValue) ? newValue[key] ?? null : null
+        );
+      });
+    };
+    walk(rootFrame, [], oldRoot, newRoot);
+
+    // No-op write: RTDB yine de hedef path için .write ister
+    if (changedLocations.length === 0) {
+      for (const write of writes) {
+        if (!writeGranted(write.segments)) {
+          return { allowed: false, reason: `write denied at /${write.segments.join("/")}` };
+        }
+      }
+      return { allowed: true, reason: null };
+    }
+
+    for (const segments of changedLocations) {
+      if (!writeGranted(segments)) {
+        return { allowed: false, reason: `write denied at /${segments.join("/")}` };
+      }
+    }
+
+    for (const frame of validateTargets) {
+      if (runRule(frame, ".validate", context) === false) {
+        return { allowed: false, reason: `validation failed at /${frame.segments.join("/")}` };
+      }
+    }
+
+    return { allowed: true, reason: null };
+  };
+
+  return {
+    canRead(request) {
+      const segments = splitPath(request.path);
+      const context = {
+        auth: request.auth,
+        oldRoot: normalize(request.data),
+        newRoot: normalize(request.data),
+        now: request.now ?? Date.now(),
+      };
+      const granted = ruleChain(rootFrame, segments).some((frame) => runRule(frame, ".read", context) === true);
+      return granted ? { allowed: true, reason: null } : { allowed: false, reason: `read denied at /${segments.join("/")}` };
+    },
+
+    canWrite(request) {
+      return evaluateMutation(request, [{ segments: splitPath(request.path), value: normalize(request.newData) }]);
+    },
+
+    canUpdate(request) {
+      const base = splitPath(request.path);
+      const writes = Object.entries(request.patch).map(([relative, value]) => ({
+        segments: [...base, ...splitPath(relative)],
+        value: normalize(value),
+      }));
+      return evaluateMutation(request, writes);
+    },
+  };
+}
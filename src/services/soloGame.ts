@@ -0,0 +1,293 @@
+/**
+ * Solo Game — single-player runs without a Firebase room
+ *
+ * A solo run is a local Room driven by the same pure pieces as multiplayer:
+ * transitionRoom() for the lifecycle and applyRoundScores() for scoring, so the
+ * round / gameOver screens render it unchanged. Nothing touches RTDB: no room
+ * write, no presence heartbeat, no scoring endpoint.
+ *
+ * Persistence (localStorage):
+ * - SOLO_STORAGE_KEYS.run:     unfinished run (room only) → "Devam et"
+ * - SOLO_STORAGE_KEYS.results: finished runs, newest first (MAX_SOLO_RESULTS)
+ *
+ * Rounds are dealt by the server (soloRoundAuthority.ts) — the run only ever
+ * holds the public pano. The answer is revealed from the server once the round
+ * is over and passed to END_ROUND, as in multiplayer, so neither the page nor
+ * a stored run can show the location early.
+ *
+ * Günün Turu (dailyChallenge.ts) is a solo run with `daily` set to the date key.
+ */
+
+import { Room, Player, Coordinates, GameMode, RegionId, RoundAnswer, GAME_MODE_CONFIG, DEFAULT_SCORING_PROFILE, ScoringProfileId } from "@/types";
+import { GAME_SETTINGS } from "@/config/production";
+import { RoundStart, transitionRoom } from "./roomStateMachine";
+import { applyRoundScores } from "./scoringAuthority";
+import { hashSeed } from "@/utils/random";
+
+// ==================== CONSTANTS ====================
+
+export const SOLO_ROOM_ID = "SOLO";
+export const SOLO_PLAYER_ID = "solo";
+export const MAX_SOLO_RESULTS = 20;
+
+export const SOLO_STORAGE_KEYS = {
+  run: "turkiye_guessr_solo_run_v1",
+  results: "turkiye_guessr_solo_results_v1",
+} as const;
+
+// ==================== TYPES ====================
+
+export interface SoloRun {
+  room: Room;
+  rounds: SoloRoundRecord[];  // scored rounds so far (roundResults only holds the last one)
+  startedAt: number;
+  daily?: string;             // Günün Turu date key (YYYY-MM-DD)
+}
+
+export interface SoloRoundRecord {
+  round: number;
+  locationName: string | null;
+  region?: RegionId | null;   // for profile per-region stats
+  distance: number;
+  score: number;
+}
+
+export interface SoloResult {
+  id: string;
+  playerName: string;
+  gameMode: GameMode;
+  scoringProfile: ScoringProfileId;
+  totalRounds: number;
+  totalScore: number;
+  rounds: SoloRoundRecord[];
+  startedAt: number;
+  finishedAt: number;
+  daily?: string;
+}
+
+export type SoloStep =
+  | { ok: true; run: SoloRun; gameOver?: boolean }
+  | { ok: false; reason: string };
+
+/** Storage subset — window.localStorage in the browser, a Map-backed fake in tests */
+export type SoloStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export interface SoloRunOptions {
+  totalRounds?: number;
+  daily?: string;
+  seed?: number;
+}
+
+// ==================== RUN LIFECYCLE ====================
+
+export function createSoloRun(playerName: string, gameMode: GameMode, now: number, options: SoloRunOptions = {}): SoloRun {
+  const modeConfig = GAME_MODE_CONFIG[gameMode];
+  const player: Player = {
+    id: SOLO_PLAYER_ID,
+    name: playerName.trim() || "Oyuncu",
+    isHost: true,
+    totalScore: 0,
+    currentGuess: null,
+    hasGuessed: false,
+    roundScores: [],
+    movesUsed: 0,
+    status: "online",
+    lastSeen: now,
+    disconnectedAt: null,
+    sessionToken: SOLO_PLAYER_ID,
+    joinedAt: now,
+  };
+  const room: Room = {
+    id: SOLO_ROOM_ID,
+    hostId: SOLO_PLAYER_ID,
+    status: "waiting",
+    currentRound: 0,
+    totalRounds: options.totalRounds ?? GAME_SETTINGS.DEFAULT_ROUNDS,
+    players: { [SOLO_PLAYER_ID]: player },
+    gameMode,
+    timeLimit: modeConfig.timeLimit,
+    moveLimit: modeConfig.moveLimit,
+    scoringProfile: DEFAULT_SCORING_PROFILE,
+    mapFilter: null,
+    mapNotice: null,
+    seed: options.seed ?? hashSeed(now),
+    currentPano: null,
+    currentPanoPackageId: null,
+    currentPanoPackage: null,
+    currentLocation: null,
+    currentLocationName: null,
+    roundResults: null,
+    roundStartTime: null,
+    roundState: "waiting",
+    roundVersion: 0,
+    activePlayerCount: 0,
+    expectedGuesses: 0,
+    currentGuesses: 0,
+    createdAt: now,
+    lastActivityAt: now,
+  };
+  const run: SoloRun = { room, rounds: [], startedAt: now };
+  return options.daily ? { ...run, daily: options.daily } : run;
+}
+
+/** Run id the server keys its deals by — a retry (RESTART) gets a new seed, so a new run */
+export function soloRunId(run: SoloRun): string {
+  return String(run.room.seed ?? run.startedAt);
+}
+
+/** START_GAME from the lobby state, NEXT_ROUND after a scored round (may end the game) */
+export function startSoloRound(run: SoloRun, round: RoundStart | null, now: number): SoloStep {
+  const { room } = run;
+  if (room.status === "waiting" && !round) return { ok: false, reason: "no round dealt" };
+  const result = room.status === "waiting" && round
+    ? transitionRoom(room, { type: "START_GAME", actorId: SOLO_PLAYER_ID, round, startTime: now })
+    : transitionRoom(room, {
+        type: "NEXT_ROUND",
+        actorId: SOLO_PLAYER_ID,
+        expectedRoundVersion: room.roundVersion || 0,
+        round,
+        startTime: now,
+      });
+  if (!result.ok) return result;
+  if (result.gameOver) return { ok: true, gameOver: true, run: { ...run, room: result.room } };
+  return { ok: true, run: { ...run, room: result.room } };
+}
+
+/** Why a guess at `now` would be refused (null = accepted) — checked before the answer is revealed */
+export function soloGuessRejection(run: SoloRun, now: number): string | null {
+  const { room } = run;
+  if (room.status !== "playing") return `status=${room.status} (expected playing)`;
+  const player = room.players[SOLO_PLAYER_ID];
+  if (!player || player.hasGuessed) return "already_guessed";
+  // Multiplayer ile aynı pay: süre + 2sn
+  const roundEndMs = (room.roundStartTime || now) + room.timeLimit * 1000;
+  if (now > roundEndMs + 2000) return "time_expired";
+  return null;
+}
+
+/** Record the guess, then end + score the round right away (single player = all guessed) */
+export function submitSoloGuess(run: SoloRun, guess: Coordinates, now: number, answer: RoundAnswer | null): SoloStep {
+  const rejection = soloGuessRejection(run, now);
+  if (rejection) return { ok: false, reason: rejection };
+
+  const { room } = run;
+  const player = room.players[SOLO_PLAYER_ID];
+  const guessed: Room = {
+    ...room,
+    players: { ...room.players, [SOLO_PLAYER_ID]: { ...player, currentGuess: guess, hasGuessed: true } },
+    currentGuesses: (room.currentGuesses || 0) + 1,
+  };
+  return endSoloRound({ ...run, room: guessed }, now, answer);
+}
+
+/** Time up (or skipped pano): end the round with the revealed answer, a missing guess scores 0 */
+export function endSoloRound(run: SoloRun, now: number, answer: RoundAnswer | null): SoloStep {
+  const ended = transitionRoom(run.room, {
+    type: "END_ROUND",
+    actorId: SOLO_PLAYER_ID,
+    roundId: run.room.currentRound,
+    lockedAt: now,
+    answer,
+  });
+  if (!ended.ok) return ended;
+  const scored = applyRoundScores(ended.room, run.room.currentRound, answer);
+  if (!scored.ok) return scored;
+  const result = scored.room.roundResults?.find((r) => r.playerId === SOLO_PLAYER_ID);
+  const record: SoloRoundRecord = {
+    round: scored.room.currentRound,
+    locationName: scored.room.currentLocationName,
+    region: scored.room.currentPanoPackage?.region || null,
+    distance: result?.distance ?? 9999,
+    score: result?.score ?? 0,
+  };
+  return { ok: true, run: { ...run, room: scored.room, rounds: [...run.rounds, record] } };
+}
+
+/** Back to the waiting state with the same settings (retry) */
+export function restartSoloRun(run: SoloRun, now: number): SoloRun {
+  const result = transitionRoom(run.room, { type: "RESTART", actorId: SOLO_PLAYER_ID, now, seed: hashSeed(now) });
+  return { room: result.ok ? result.room : run.room, rounds: [], startedAt: now };
+}
+
+/**
+ * Resume a stored run. An interrupted round gets a fresh clock (the reload
+ * shouldn't eat the player's time); everything else continues as saved.
+ */
+export function resumeSoloRun(run: SoloRun, now: number): SoloRun {
+  if (run.room.status !== "playing") return run;
+  return { ...run, room: { ...run.room, roundStartTime: now } };
+}
+
+/** Summary of a finished run for the results history */
+export function summarizeSoloRun(run: SoloRun, now: number): SoloResult {
+  const player = run.room.players[SOLO_PLAYER_ID];
+  return {
+    id: `solo_${run.startedAt}`,
+    playerName: player?.name || "Oyuncu",
+    gameMode: run.room.gameMode,
+    scoringProfile: run.room.scoringProfile || DEFAULT_SCORING_PROFILE,
+    totalRounds: run.room.totalRounds,
+    totalScore: player?.totalScore || 0,
+    rounds: run.rounds,
+    startedAt: run.startedAt,
+    finishedAt: now,
+    ...(run.daily ? { daily: run.daily } : {}),
+  };
+}
+
+// ==================== PERSISTENCE ====================
+
+function browserStorage(): SoloStorage | null {
+  if (typeof window === "undefined" || !window.localStorage) return null;
+  return window.localStorage;
+}
+
+function readJson<T>(storage: SoloStorage | null, key: string): T | null {
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(storage: SoloStorage | null, key: string, value: unknown): void {
+  if (!storage) return;
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or unavailable — solo run continues in memory
+  }
+}
+
+export function loadSoloRun(storage: SoloStorage | null = browserStorage()): SoloRun | null {
+  const run = readJson<SoloRun>(storage, SOLO_STORAGE_KEYS.run);
+  if (!run || !run.room || run.room.id !== SOLO_ROOM_ID || !run.room.players?.[SOLO_PLAYER_ID]) return null;
+  if (run.room.status === "gameOver") return null;
+  return { ...run, rounds: Array.isArray(run.rounds) ? run.rounds : [] };
+}
+
+export function saveSoloRun(run: SoloRun, storage: SoloStorage | null = browserStorage()): void {
+  writeJson(storage, SOLO_STORAGE_KEYS.run, run);
+}
+
+export function clearSoloRun(storage: SoloStorage | null = browserStorage()): void {
+  try {
+    storage?.removeItem(SOLO_STORAGE_KEYS.run);
+  } catch {
+    // ignore
+  }
+}
+
+export function loadSoloResults(storage: SoloStorage | null = browserStorage()): SoloResult[] {
+  const results = readJson<SoloResult[]>(storage, SOLO_STORAGE_KEYS.results);
+  return Array.isArray(results) ? results : [];
+}
+
+/** Prepend a finished run (same id replaces), keep the newest MAX_SOLO_RESULTS */
+export function saveSoloResult(result: SoloResult, storage: SoloStorage | null = browserStorage()): SoloResult[] {
+  const results = [result, ...loadSoloResults(storage).filter((r) => r.id !== result.id)].slice(0, MAX_SOLO_RESULTS);
+  writeJson(storage, SOLO_STORAGE_KEYS.results, results);
+  return results;
+}
@@ -0,0 +1,334 @@
+/**
+ * Solo Round Authority — solo and Günün Turu rounds from the server
+ *
+ * The browser has no pack (panoPacks.ts), so a solo run asks for each round
+ * like a multiplayer host does: the authority draws the package, keeps the
+ * answer under soloRounds/{uid} (no client rule — admin secret only) and
+ * returns just the public pano. When the round is over the run reveals the
+ * answer and scores it locally (soloGame.ts).
+ *
+ * - createSoloRoundAuthority(storage, options): runs server-side
+ *   (app/api/solo-round) over admin storage; in memory mode in-process.
+ * - createRemoteSoloRoundAuthority(getToken): client proxy → POST
+ *   /api/solo-round with the caller's ID token.
+ *
+ * One open deal per player: dealing the same run + round again returns the
+ * same pano (retry / resume), a new run replaces the old deal. A run's earlier
+ * packages prime the anti-repeat window. The draw seed is keyed with the
+ * server's drawSecret — the run id comes from the client. Günün Turu rounds
+ * come from the day's pinned draw (dailyChallenge.loadDailyPackages) — today's
+ * or, for a tur that ran past midnight, yesterday's.
+ *
+ * Günün Turu is scored here, not in the browser: the first deal claims the
+ * day's run (dailyRuns/{date}/{uid}), each reveal carries the guess, which is
+ * scored once against the hidden answer (0 past the time limit), and the last
+ * round writes the player's dailyLeaderboard entry.
+ *
+ * An expired pano is refreshed like a room's (roundAuthority.refreshPano):
+ * the nearest pano around the open round's answer, resolved once per deal.
+ */
+
+import { Coordinates, GameMode, MapFilter, PanoPackage, RoundAnswer, DEFAULT_SCORING_PROFILE, GAME_MODE_CONFIG } from "@/types";
+import { GAME_SETTINGS } from "@/config/production";
+import { publicPano, roundAnswer, roundFromPanoPackage } from "./roomStateMachine";
+import { DealOutcome, RefreshOutcome, RoundDrawOptions, resolveFreshPano } from "./roundAuthority";
+import { drawRoundPackage } from "./locationEngine";
+import { drawDynamicRoundPackage } from "./dynamicPanoService";
+import type { PanoResolver } from "./panoResolver";
+import { normalizeMapFilter } from "./mapFilter";
+import { scoreGuess } from "./scoringProfiles";
+import {
+  DAILY_ROUNDS,
+  DailyLeaderboardStorage,
+  DailyRunStorage,
+  getDailyKey,
+  getDailyMode,
+  isDailyKey,
+  toDailyEntry,
+} from "./dailyChallenge";
+import { calculateDistance } from "@/utils";
+import { RandomSource, createSeededRandom, keyedSeed } from "@/utils/random";
+
+// ==================== TYPES ====================
+
+/** soloRounds/{uid} — the player's open round */
+export interface SoloDeal {
+  runId: string;
+  roundId: number;
+  answer: RoundAnswer;
+  /** This run's earlier packages (anti-repeat) */
+  history: string[];
+  daily: string | null;
+  dealtAt: number;
+}
+
+export interface SoloDealRequest {
+  runId: string;
+  roundId: number;
+  mode: GameMode;
+  mapFilter: MapFilter | null;
+  daily: string | null;
+  /** Günün Turu leaderboard name (claimed with round 1) */
+  playerName?: string;
+}
+
+export interface SoloRevealRequest {
+  runId: string;
+  roundId: number;
+  /** null = no guess (time up) */
+  guess: Coordinates | null;
+}
+
+/** Open round whose pano should be refreshed */
+export type SoloRefreshRequest = Pick<SoloRevealRequest, "runId" | "roundId">;
+
+export interface SoloRevealOutcome {
+  revealed: boolean;
+  reason: string;
+  answer?: RoundAnswer;
+}
+
+export interface SoloRoundAuthority {
+  dealSoloRound(callerId: string, request: SoloDealRequest): Promise<DealOutcome>;
+  /** Answer of the caller's open round — only for the run + round it was dealt to; scores a daily guess */
+  revealSoloRound(callerId: string, request: SoloRevealRequest): Promise<SoloRevealOutcome>;
+  /** Fresh pano for the caller's open round when the dealt one expired */
+  refreshSoloPano(callerId: string, request: SoloRefreshRequest): Promise<RefreshOutcome>;
+}
+
+export interface SoloRoundStorage {
+  getSoloDeal(uid: string): Promise<SoloDeal | null>;
+  setSoloDeal(uid: string, deal: SoloDeal): Promise<void>;
+}
+
+export type SoloDraw = (
+  request: SoloDealRequest,
+  source: RandomSource,
+  history: string[]
+) => Promise<{ panoPackage: PanoPackage; mapNotice: string | null } | null>;
+
+export interface SoloRoundAuthorityOptions {
+  draw?: SoloDraw;
+  /** The day's pinned packages (dailyChallenge.loadDailyPackages); missing → no Günün Turu */
+  dailyPackages?: (dateKey: string) => Promise<PanoPackage[]>;
+  /** Server-scored daily runs; missing → no Günün Turu */
+  dailyRuns?: DailyRunStorage;
+  /** Where the last daily round's entry goes */
+  dailyLeaderboard?: Pick<DailyLeaderboardStorage, "submitEntry">;
+  /** Server-only key of the draw seed (FIREBASE_DATABASE_SECRET); missing → memory backend / tests */
+  drawSecret?: string | null;
+  /** Street View lookups for refreshSoloPano; missing → no refresh */
+  resolver?: PanoResolver;
+  now?: () => number;
+}
+
+export const SOLO_ROUND_ENDPOINT = "/api/solo-round";
+export const SOLO_HISTORY_SIZE = 20;
+/** Round trip on top of the client's own 2s guess grace */
+export const SOLO_REVEAL_GRACE_MS = 5000;
+
+const RUN_ID_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== PURE HELPERS ====================
+
+function isRoundId(value: unknown, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max;
+}
+
+/** Request body → deal request (null when malformed) */
+export function parseSoloDealRequest(input: unknown): SoloDealRequest | null {
+  const body = (input || {}) as Record<string, unknown>;
+  if (typeof body.runId !== "string" || !RUN_ID_PATTERN.test(body.runId)) return null;
+  if (!isRoundId(body.roundId, GAME_SETTINGS.MAX_ROUNDS)) return null;
+  if (body.mode !== "urban" && body.mode !== "geo") return null;
+  if (body.daily !== undefined && body.daily !== null && (typeof body.daily !== "string" || !isDailyKey(body.daily))) return null;
+  if (body.playerName !== undefined && typeof body.playerName !== "string") return null;
+  let mapFilter: MapFilter | null;
+  try {
+    mapFilter = normalizeMapFilter(body.mapFilter ?? null);
+  } catch {
+    return null;
+  }
+  const request: SoloDealRequest = { runId: body.runId, roundId: body.roundId, mode: body.mode, mapFilter, daily: (body.daily as string) || null };
+  return typeof body.playerName === "string" ? { ...request, playerName: body.playerName.slice(0, 20) } : request;
+}
+
+function isCoordinates(value: unknown): value is Coordinates {
+  const { lat, lng } = (value || {}) as Record<string, unknown>;
+  return typeof lat === "number" && typeof lng === "number" && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+/** Request body → reveal request (null when malformed) */
+export function parseSoloRevealRequest(input: unknown): SoloRevealRequest | null {
+  const body = (input || {}) as Record<string, unknown>;
+  if (typeof body.runId !== "string" || !RUN_ID_PATTERN.test(body.runId)) return null;
+  if (!isRoundId(body.roundId, GAME_SETTINGS.MAX_ROUNDS)) return null;
+  if (body.guess !== undefined && body.guess !== null && !isCoordinates(body.guess)) return null;
+  const guess = body.guess ? { lat: (body.guess as Coordinates).lat, lng: (body.guess as Coordinates).lng } : null;
+  return { runId: body.runId, roundId: body.roundId, guess };
+}
+
+/** Request body → refresh request (null when malformed) */
+export function parseSoloRefreshRequest(input: unknown): SoloRefreshRequest | null {
+  const reveal = parseSoloRevealRequest({ ...((input || {}) as object), guess: null });
+  return reveal && { runId: reveal.runId, roundId: reveal.roundId };
+}
+
+/** Score of a daily guess — same curve + il bonus as computeRoundResults (default profile) */
+export function scoreSoloGuess(answer: RoundAnswer, guess: Coordinates | null, mode: GameMode): number {
+  if (!guess) return 0;
+  return scoreGuess(DEFAULT_SCORING_PROFILE, {
+    distanceKm: calculateDistance(answer.location, guess),
+    guess,
+    answerName: answer.locationName,
+    answerLocation: answer.location,
+    mode,
+  });
+}
+
+/** The run's map, no tier mix, earlier packages of the run on an isolated engine */
+export function createSoloDraw(options: RoundDrawOptions = {}): SoloDraw {
+  const { loadPack, resolver, ...extras } = options;
+  return async (request, source, history) => {
+    if (loadPack) await loadPack(request.mode);
+    const drawOptions = { ...extras, mapFilter: request.mapFilter, history };
+    return resolver
+      ? drawDynamicRoundPackage(request.mode, source, drawOptions, resolver)
+      : drawRoundPackage(request.mode, source, drawOptions);
+  };
+}
+
+function dealtRound(answer: RoundAnswer): DealOutcome["round"] {
+  return { pano: publicPano({ ...answer, panoPackage: answer.panoPackage || null }), mapNotice: answer.mapNotice || null };
+}
+
+// ==================== AUTHORITY ====================
+
+export function createSoloRoundAuthority(storage: SoloRoundStorage, options: SoloRoundAuthorityOptions = {}): SoloRoundAuthority {
+  const draw = options.draw || createSoloDraw();
+  const now = options.now || (() => Date.now());
+
+  const drawDaily = async (callerId: string, request: SoloDealRequest, daily: string) => {
+    const { roundId } = request;
+    const today = getDailyKey(now());
+    if (daily !== today && daily !== getDailyKey(now() - DAY_MS)) return { reason: "not today's tur" };
+    if (roundId > DAILY_ROUNDS) return { reason: `round=${roundId} (tur has ${DAILY_ROUNDS})` };
+    if (!options.dailyPackages || !options.dailyRuns) return { reason: "daily unavailable" };
+
+    // İlk tur günün hakkını bu koşuya bağlar — yeniden başlatılan ya da ikinci bir koşu tur alamaz
+    const run = roundId === 1
+      ? await options.dailyRuns.claimRun(daily, callerId, {
+          runId: request.runId,
+          name: (request.playerName || "").trim() || "Oyuncu",
+          mode: getDailyMode(daily),
+          rounds: [],
+          startedAt: now(),
+        })
+      : await options.dailyRuns.getRun(daily, callerId);
+    if (!run) return { reason: "daily not started" };
+    if (run.runId !== request.runId) return { reason: "daily already played" };
+
+    const panoPackage = (await options.dailyPackages(daily))[roundId - 1];
+    return panoPackage ? { panoPackage, mapNotice: null } : { reason: "no package available" };
+  };
+
+  /** Score the revealed daily round once; the last round goes onto the day's leaderboard */
+  const scoreDailyRound = async (callerId: string, deal: SoloDeal, daily: string, guess: Coordinates | null) => {
+    const run = options.dailyRuns ? await options.dailyRuns.getRun(daily, callerId) : null;
+    if (!run || run.runId !== deal.runId) return;
+    const scored = run.rounds || [];
+    if (scored[deal.roundId - 1] !== undefined && scored[deal.roundId - 1] !== null) return;
+
+    const late = now() > deal.dealtAt + GAME_MODE_CONFIG[run.mode].timeLimit * 1000 + SOLO_REVEAL_GRACE_MS;
+    const score = late ? 0 : scoreSoloGuess(deal.answer, guess, run.mode);
+    // Açılmadan geçilen turlar 0 sayılır
+    const rounds = [...Array.from({ length: deal.roundId - 1 }, (_, i) => scored[i] ?? 0), score];
+    await options.dailyRuns!.setRun(daily, callerId, { ...run, rounds });
+    console.log(`[SoloRounds] uid=${callerId} daily=${daily} round=${deal.roundId} scored ${score}${late ? " (late)" : ""}`);
+
+    if (deal.roundId === DAILY_ROUNDS && options.dailyLeaderboard) {
+      try {
+        await options.dailyLeaderboard.submitEntry(daily, callerId, toDailyEntry(run.name, rounds, run.mode, now()));
+      } catch (err) {
+        // The round is scored either way — a lost board write is not a reveal failure
+        console.error(`[SoloRounds] uid=${callerId} daily=${daily} leaderboard write failed:`, err);
+      }
+    }
+  };
+
+  return {
+    async dealSoloRound(callerId, request) {
+      const existing = await storage.getSoloDeal(callerId);
+      const open = existing && existing.runId === request.runId ? existing : null;
+      if (open && open.roundId === request.roundId) {
+        return { dealt: true, reason: "already dealt", round: dealtRound(open.answer) };
+      }
+
+      const history = open ? [...(open.history || []), open.answer.panoPackageId].slice(-SOLO_HISTORY_SIZE) : [];
+      const seed = `${callerId}:${request.runId}:${request.roundId}`;
+      const drawn = request.daily
+        ? await drawDaily(callerId, request, request.daily)
+        : (await draw(request, createSeededRandom(await keyedSeed(options.drawSecret, seed)), history)) ||
+          { reason: "no package available" };
+      if ("reason" in drawn) return { dealt: false, reason: drawn.reason };
+
+      const payload = roundFromPanoPackage(drawn.panoPackage, drawn.mapNotice);
+      const answer: RoundAnswer = { ...roundAnswer(payload, request.roundId), mapNotice: drawn.mapNotice };
+      await storage.setSoloDeal(callerId, {
+        runId: request.runId,
+        roundId: request.roundId,
+        answer,
+        history,
+        daily: request.daily,
+        dealtAt: now(),
+      });
+      console.log(`[SoloRounds] uid=${callerId} run=${request.runId} round=${request.roundId} dealt ${answer.panoPackageId}`);
+      return { dealt: true, reason: "dealt", round: dealtRound(answer) };
+    },
+
+    async revealSoloRound(callerId, request) {
+      const deal = await storage.getSoloDeal(callerId);
+      if (!deal || deal.runId !== request.runId || deal.roundId !== request.roundId) return { revealed: false, reason: "not dealt" };
+      if (deal.daily) await scoreDailyRound(callerId, deal, deal.daily, request.guess);
+      return { revealed: true, reason: "revealed", answer: deal.answer };
+    },
+
+    async refreshSoloPano(callerId, request) {
+      const deal = await storage.getSoloDeal(callerId);
+      if (!deal || deal.runId !== request.runId || deal.roundId !== request.roundId) return { refreshed: false, reason: "not dealt" };
+      if (deal.answer.refreshedPano) return { refreshed: true, reason: "already refreshed", pano: deal.answer.refreshedPano };
+      if (!options.resolver) return { refreshed: false, reason: "refresh unavailable" };
+
+      const pano = await resolveFreshPano(deal.answer, options.resolver);
+      if (!pano) return { refreshed: false, reason: "no fresh pano" };
+      await storage.setSoloDeal(callerId, { ...deal, answer: { ...deal.answer, refreshedPano: pano } });
+      console.log(`[SoloRounds] uid=${callerId} run=${request.runId} round=${request.roundId} pano refreshed`);
+      return { refreshed: true, reason: "refreshed", pano };
+    },
+  };
+}
+
+/** Client-side proxy: deal / reveal / refresh through POST /api/solo-round */
+export function createRemoteSoloRoundAuthority(
+  getToken: () => Promise<string>,
+  endpoint: string = SOLO_ROUND_ENDPOINT
+): SoloRoundAuthority {
+  const post = async <T>(body: object): Promise<T> => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${await getToken()}` },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Solo round authority HTTP ${response.status}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    dealSoloRound: (_callerId, request) => post<DealOutcome>({ action: "deal", ...request }),
+    revealSoloRound: (_callerId, request) => post<SoloRevealOutcome>({ action: "reveal", ...request }),
+    refreshSoloPano: (_callerId, request) => post<RefreshOutcome>({ action: "refresh", ...request }),
+  };
+}
@@ -30,6 +30,24 @@ export interface PanoPackage {
 // ==================== OYUN MODLARI ====================
 export type GameMode = "urban" | "geo";
 
+// ==================== HARİTALAR ====================
+export type RegionId = PanoPackage["region"];
+
+export const MAP_REGIONS: Record<RegionId, string> = {
+  marmara: "Marmara",
+  ege: "Ege",
+  akdeniz: "Akdeniz",
+  ic_anadolu: "İç Anadolu",
+  karadeniz: "Karadeniz",
+  dogu_anadolu: "Doğu Anadolu",
+  guneydogu: "Güneydoğu Anadolu",
+};
+
+/** Özel harita: seçili bölgeler veya elle seçilmiş iller (null = tüm Türkiye) */
+export type MapFilter =
+  | { type: "regions"; regions: RegionId[] }
+  | { type: "provinces"; provinces: string[] };
+
 export const GAME_MODE_CONFIG = {
   urban: {
     name: "Urban / Yerleşim",
@@ -47,6 +65,56 @@ export const GAME_MODE_CONFIG = {
   },
 } as const;
 
+// ==================== PUANLAMA PROFİLLERİ ====================
+export type ScoringProfileId = "exponential" | "linear" | "provinceBonus" | "districtZone";
+
+export const SCORING_PROFILES = {
+  exponential: {
+    name: "Üstel",
+    description: "Yakın tahmin çok, uzak tahmin hızla az puan; doğru il/ilçe bonusu",
+    icon: "📉",
+    maxDistanceKm: { urban: 500, geo: 1000 },
+  },
+  linear: {
+    name: "Doğrusal",
+    description: "Her kilometre aynı puanı götürür; doğru il/ilçe bonusu",
+    icon: "📏",
+    maxDistanceKm: { urban: 500, geo: 1000 },
+  },
+  provinceBonus: {
+    name: "İl Bonusu",
+    description: "Doğru il +1000 puan",
+    icon: "🏛️",
+    maxDistanceKm: { urban: 500, geo: 1000 },
+    provinceBonus: 1000,
+  },
+  districtZone: {
+    name: "İlçe Bölgesi",
+    description: "Doğru ilçe = tam puan",
+    icon: "🎯",
+    maxDistanceKm: { urban: 500, geo: 1000 },
+  },
+} as const;
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfileId = "exponential";
+
+// Adaptif zorluk: odanın son turlardaki ortalaması zorluk karışımını kaydırır
+// (services/adaptiveDifficulty.ts). maxShift = kolay/zor payının en fazla oynayacağı miktar.
+export type AdaptiveDifficultyId = "gentle" | "strong";
+
+export const ADAPTIVE_DIFFICULTY_LEVELS = {
+  gentle: {
+    name: "Hafif",
+    description: "Karışım en fazla ±10 puan kayar",
+    maxShift: 0.10,
+  },
+  strong: {
+    name: "Güçlü",
+    description: "Karışım en fazla ±20 puan kayar",
+    maxShift: 0.20,
+  },
+} as const;
+
 // ==================== PLAYER ====================
 export type PlayerStatus = 'online' | 'offline' | 'disconnected';
 
@@ -82,8 +150,16 @@ export interface Room {
   gameMode: GameMode;
   timeLimit: number; // saniye
   moveLimit: number; // dal hakkı
+  scoringProfile?: ScoringProfileId; // yoksa DEFAULT_SCORING_PROFILE
+  mapFilter?: MapFilter | null;       // yoksa tüm Türkiye
+  adaptiveDifficulty?: AdaptiveDifficultyId | null; // yoksa sabit 15/55/30 karışım
+  mapNotice?: string | null;          // harita dar kaldıysa bu turun uyarısı
+  seed?: number;                      // oyunun seed'i (32-bit) — dealKey'in parçası; çekiliş ayrıca sunucu sırrıyla anahtarlanır
+
+  // Oyunculara yayınlanan pano — sadece Street View'ı açmak için gereken ID
+  currentPano?: RoundPano | null;
 
-  // Pano paketi
+  // Cevap — playing sırasında null, roundEnd'de roundAnswers/{roomId}/{round}'dan açılır
   currentPanoPackageId: string | null; // Firestore doc ID
   currentPanoPackage: PanoPackage | null; // Tam pano verisi
   currentLocation: Coordinates | null; // pano0 koordinatı (guess hesabı için)
@@ -101,14 +177,55 @@ export interface Room {
   activePlayerCount: number;        // Round başında snapshot
   expectedGuesses: number;          // Round başında online oyuncu sayısı
   currentGuesses: number;           // Atomic counter - kaç kişi guess yaptı
+  roundEndLock?: RoundEndLock | null; // Round sonu elector kilidi (tek yazar garantisi)
+
+  // Lifecycle timestamp'leri (cleanup için)
+  createdAt?: number;
+  lastActivityAt?: number;
+
+  // Host heartbeat ile yazılan sunucu zamanı (watchdog için)
+  meta?: { serverNow?: number };
 }
 
+/** Round sırasında herkesin gördüğü pano bilgisi — koordinat/isim içermez */
+export interface RoundPano {
+  panoId: string;
+  heading: number;
+}
+
+/** Sunucu-only cevap düğümü: roundAnswers/{roomId}/{roundId} (roundAuthority yazar) */
+export interface RoundAnswer {
+  roundId: number;
+  panoPackageId: string;
+  panoPackage: PanoPackage | null; // null = legacy (single pano) flow
+  location: Coordinates;
+  locationName: string | null;
+  dealKey?: string;          // roundAuthority: seed:roundVersion the round was dealt for
+  mapNotice?: string | null; // notice of that draw (repeat deals return it)
+  refreshedPano?: RoundPano | null; // dealt pano expired → fresh one near the answer (refreshPano, resolved once)
+}
+
+export interface RoundEndLock {
+  lockedBy: string;   // uid of lock owner
+  roundId: number;    // which round this lock is for
+  lockedAt: number;   // timestamp when acquired
+}
+
+/** Host'un lobide değiştirebildiği oda ayarları (moveLimit 0 = hareket yok, adaptiveDifficulty null = kapalı) */
+export type RoomSettings = Pick<
+  Room,
+  "gameMode" | "scoringProfile" | "totalRounds" | "timeLimit" | "moveLimit" | "mapFilter" | "adaptiveDifficulty"
+>;
+
 export interface RoundResult {
   playerId: string;
   playerName: string;
   guess: Coordinates;
   distance: number;
   score: number;
+  scoringProfile?: ScoringProfileId; // puanı üreten profil
+  guessProvince?: string | null;      // tahminin düştüğü il (null: deniz / yurt dışı)
+  correctProvince?: string | null;    // doğru cevabın ili
 }
 
 // ==================== SABİTLER ====================
@@ -122,6 +239,8 @@ export const TURKEY_BOUNDS = {
 export const SCORING = {
   maxScore: 5000,
   maxDistance: 500,
+  // Doğru il/ilçe bonusu (exponential/linear profiller, toplam maxScore'u geçmez)
+  placeBonus: { province: 300, district: 200 },
 } as const;
 
 // Reklam frekans limiti (ms)
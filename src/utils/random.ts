@@ -0,0 +1,81 @@
+/**
+ * Seeded Random
+ * Deterministik rastgelelik — aynı seed her cihazda aynı sırayı üretir
+ *
+ * Math.random ile aynı sözleşme: [0, 1) aralığında sayı döndüren fonksiyon.
+ *
+ * Konum seçimindeki tüm rastgelelik (locationEngine, dynamicPanoService,
+ * dynamicUrbanGenerator, urbanSeeds) nextRandom() üzerinden tek kaynaktan
+ * okunur. Aynı seed + aynı geçmiş → aynı paket sırası (simülasyon ve hata
+ * raporları için). ID üretimi (oda kodu, paket id) bilerek bu kaynağın dışında
+ * kalır.
+ *
+ * Sunucunun dağıttığı turlar (oda, solo, Günün Turu) seed'i keyedSeed ile
+ * sunucu sırrından türetir: Room.seed, tarih ve paket havuzu herkese açık,
+ * sadece onlardan gelen bir seed cevabı tur başlamadan ele verirdi.
+ */
+
+/** Math.random uyumlu rastgele kaynak */
+export type RandomSource = () => number;
+
+/** String / sayı seed → 32-bit tam sayı (FNV-1a) */
+export function hashSeed(seed: string | number): number {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32 — küçük, hızlı, 32-bit durumlu PRNG.
+ * Kriptografik değil; oyun içi seçimler için yeterli.
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * HMAC-SHA256(secret, message) as hex — seed for server-side draws, so the
+ * draw can't be replayed from public inputs alone. No secret (memory
+ * backend, tests) → the message itself.
+ */
+export async function keyedSeed(secret: string | null | undefined, message: string): Promise<string> {
+  if (!secret) return message;
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// ==================== SHARED SOURCE ====================
+
+let activeSource: RandomSource = Math.random;
+
+/** Next value from the active source — use instead of Math.random in selection code */
+export function nextRandom(): number {
+  return activeSource();
+}
+
+/** null → back to Math.random */
+export function setRandomSource(source: RandomSource | null): void {
+  activeSource = source || Math.random;
+}
+
+export function getRandomSource(): RandomSource {
+  return activeSource;
+}
+
+/** New 32-bit room seed — always from Math.random so rooms don't share seeds */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -75,6 +75,14 @@ export function resetGuessLimit(playerId: string): void {
   }
 }
 
+export function canSubmitLocation(): boolean {
+  return rateLimiter.check("location_submit", RATE_LIMITS.LOCATION_SUBMISSIONS_PER_HOUR, 60 * 60 * 1000);
+}
+
+export function canReportLocation(): boolean {
+  return rateLimiter.check("location_report", RATE_LIMITS.LOCATION_REPORTS_PER_HOUR, 60 * 60 * 1000);
+}
+
 export function getRoomCreateCooldown(): number {
   return rateLimiter.getTimeUntilReset("room_create");
 }
@@ -1,8 +1,13 @@
 /**
  * TürkiyeGuessr Telemetry Module
  * Prod'da hata yakalamak için telemetry/logging sistemi
+ *
+ * Event ve hatalar, kuruluysa exporter'a da gider (setTelemetryExporter →
+ * telemetryExporter.ts: örnekleme, PII temizliği, batch + sink).
  */
 
+import type { TelemetryExporter } from "./telemetryExporter";
+
 // Event types
 export type TelemetryEvent =
   | "join"
@@ -20,7 +25,11 @@ export type TelemetryEvent =
   | "serverMoveAccepted"
   | "serverMoveRejected"
   | "rateLimitTriggered"
-  | "duplicatePanoPrevented";
+  | "duplicatePanoPrevented"
+  | "difficultyMix"
+  | "watchdogEscalation"
+  | "mpCounters"
+  | "streetViewCost";
 
 // Event data structure
 interface TelemetryEventData {
@@ -61,6 +70,13 @@ interface TelemetrySession {
 // Singleton session
 let session: TelemetrySession | null = null;
 
+// Dışa aktarım (yoksa sadece console)
+let exporter: TelemetryExporter | null = null;
+
+export function setTelemetryExporter(next: TelemetryExporter | null): void {
+  exporter = next;
+}
+
 // Generate unique session ID
 function generateSessionId(): string {
   return `ses_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
@@ -92,6 +108,10 @@ export function initTelemetry(): void {
       serverMoveRejected: 0,
       rateLimitTriggered: 0,
       duplicatePanoPrevented: 0,
+      difficultyMix: 0,
+      watchdogEscalation: 0,
+      mpCounters: 0,
+      streetViewCost: 0,
     },
     duplicateAttempts: {
       roundEnd: [],
@@ -148,6 +168,20 @@ export function trackEvent(
   session.events.push(eventData);
   session.counters[event]++;
 
+  exporter?.enqueue(
+    {
+      kind: "event",
+      event,
+      at: eventData.timestamp,
+      sessionId: session.sessionId,
+      roomId: eventData.roomId,
+      roundId: eventData.roundId,
+      playerId: eventData.playerId,
+      data: metadata,
+    },
+    session.playerName
+  );
+
   // Keep only last 100 events to prevent memory issues
   if (session.events.length > 100) {
     session.events = session.events.slice(-100);
@@ -217,6 +251,21 @@ export function trackError(
   session.errors.push(errorData);
   session.counters.error++;
 
+  exporter?.enqueue(
+    {
+      kind: "error",
+      event: "error",
+      at: errorData.timestamp,
+      sessionId: session.sessionId,
+      roomId: session.roomId || undefined,
+      playerId: session.playerId || undefined,
+      message: errorData.message,
+      stack: errorData.stack,
+      context,
+    },
+    session.playerName
+  );
+
   // Keep only last 50 errors
   if (session.errors.length > 50) {
     session.errors = session.errors.slice(-50);
@@ -321,6 +370,7 @@ export function cleanupTelemetry(): void {
   }
 
   printTelemetryReport();
+  void exporter?.flush();
   session = null;
 }
 
@@ -343,6 +393,10 @@ function getLogStyle(event: TelemetryEvent): string {
     serverMoveRejected: "background: #dc2626; color: white; padding: 2px 6px; border-radius: 3px;",
     rateLimitTriggered: "background: #f97316; color: white; padding: 2px 6px; border-radius: 3px;",
     duplicatePanoPrevented: "background: #a855f7; color: white; padding: 2px 6px; border-radius: 3px;",
+    difficultyMix: "background: #0ea5e9; color: white; padding: 2px 6px; border-radius: 3px;",
+    watchdogEscalation: "background: #b91c1c; color: white; padding: 2px 6px; border-radius: 3px;",
+    mpCounters: "background: #64748b; color: white; padding: 2px 6px; border-radius: 3px;",
+    streetViewCost: "background: #ca8a04; color: white; padding: 2px 6px; border-radius: 3px;",
   };
   return styles[event];
 }
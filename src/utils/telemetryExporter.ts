@@ -0,0 +1,267 @@
+/**
+ * Telemetry Exporter — batches telemetry records out of the tab
+ *
+ * telemetry.ts hands every event and error to the installed exporter
+ * (setTelemetryExporter). The exporter filters, scrubs and batches them and
+ * ships each batch to one pluggable sink:
+ *   createBeaconSink(url)          HTTP POST via navigator.sendBeacon
+ *   createFirebaseTelemetrySink    telemetry/{day}/{batchId} in RTDB (services/)
+ *   createFileSink(path)           NDJSON file for tests / Node (telemetryFileSink.ts)
+ *
+ * Gating: events need FEATURE_FLAGS.ENABLE_ANALYTICS and a sampled session
+ * (SAMPLE_RATE, decided once per exporter so a sampled session is complete);
+ * errors need ENABLE_ERROR_REPORTING and are never sampled out.
+ * PII: playerName never leaves the tab — the field and name-like metadata
+ * keys are dropped, and the player's name is masked inside strings.
+ * Keys: RTDB refuses `.`, `$`, `#`, `[`, `]`, `/` and control characters in
+ * keys (the whole set() throws), so metadata keys are rewritten with `_`.
+ * Offline: a batch the sink rejects, or anything while navigator.onLine is
+ * false, is kept in a capped localStorage queue and re-sent by the next flush
+ * (also on the next visit). A batch rejected MAX_SEND_ATTEMPTS times in a row
+ * is dropped, so one bad batch can't hold the queue forever. On pagehide, a
+ * sink that can't finish during unload (RTDB) leaves the queue in
+ * localStorage instead of losing it.
+ */
+
+import { TELEMETRY_EXPORT } from "@/config/production";
+
+// ==================== TYPES ====================
+
+export interface TelemetryRecord {
+  kind: "event" | "error";
+  event: string;
+  at: number;
+  sessionId: string;
+  roomId?: string;
+  roundId?: number;
+  playerId?: string;
+  data?: Record<string, unknown>;
+  // kind === "error"
+  message?: string;
+  stack?: string;
+  context?: string;
+}
+
+export interface TelemetryBatch {
+  id: string;
+  at: number;
+  records: TelemetryRecord[];
+}
+
+export interface TelemetrySink {
+  name: string;
+  /** Delivery survives pagehide (sendBeacon); otherwise the queue is persisted on unload */
+  unloadSafe: boolean;
+  /** Rejects when the batch was not delivered */
+  send(batch: TelemetryBatch): Promise<void>;
+}
+
+/** window.localStorage in the browser, a Map-backed fake in tests */
+export type TelemetryQueueStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export interface TelemetryExporterOptions {
+  sink: TelemetrySink;
+  analytics: boolean;
+  errors: boolean;
+  sampleRate?: number;
+  batchSize?: number;
+  maxQueued?: number;
+  maxAttempts?: number;
+  storage?: TelemetryQueueStorage | null;
+  random?: () => number;
+  now?: () => number;
+  isOnline?: () => boolean;
+}
+
+export interface TelemetryExporter {
+  /** Events of this session are exported */
+  readonly sampled: boolean;
+  enqueue(record: TelemetryRecord, playerName?: string | null): void;
+  /** Resolves with the number of records delivered */
+  flush(options?: { unloading?: boolean }): Promise<number>;
+  pending(): number;
+}
+
+export const TELEMETRY_QUEUE_KEY = "tg_telemetry_queue";
+
+/** UTC day of a batch — telemetry/{day} */
+export function telemetryDayKey(at: number): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+// ==================== PII SCRUBBING ====================
+
+const PII_KEYS = new Set(["playerName", "playerNames", "name"]);
+const NAME_MASK = "[oyuncu]";
+// eslint-disable-next-line no-control-regex
+const INVALID_KEY_CHARS = /[.#$/[\]\u0000-\u001f\u007f]/g;
+
+/**
+ * Drops name fields at any depth, masks the player's name inside strings and
+ * removes what RTDB can't store (undefined, NaN / Infinity, keys with `.`, `$` ...).
+ */
+export function scrubRecord(record: TelemetryRecord, playerName?: string | null): TelemetryRecord {
+  const mask = (text: string) => (playerName && playerName.trim().length >= 2 ? text.split(playerName.trim()).join(NAME_MASK) : text);
+  const scrub = (value: unknown): unknown => {
+    if (typeof value === "string") return mask(value);
+    if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+    if (Array.isArray(value)) return value.map(scrub).filter((item) => item !== undefined);
+    if (value && typeof value === "object") {
+      const entries = Object.entries(value)
+        .filter(([key]) => !PII_KEYS.has(key))
+        .map(([key, item]) => [key.replace(INVALID_KEY_CHARS, "_") || "_", scrub(item)] as const)
+        .filter(([, item]) => item !== undefined);
+      return Object.fromEntries(entries);
+    }
+    return value === undefined || typeof value === "function" ? undefined : value;
+  };
+  return scrub(record) as TelemetryRecord;
+}
+
+// ==================== EXPORTER ====================
+
+function readQueue(storage: TelemetryQueueStorage | null): TelemetryRecord[] {
+  if (!storage) return [];
+  try {
+    const raw = storage.getItem(TELEMETRY_QUEUE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function createTelemetryExporter(options: TelemetryExporterOptions): TelemetryExporter {
+  const {
+    sink,
+    analytics,
+    errors,
+    sampleRate = TELEMETRY_EXPORT.SAMPLE_RATE,
+    batchSize = TELEMETRY_EXPORT.BATCH_SIZE,
+    maxQueued = TELEMETRY_EXPORT.MAX_QUEUED_RECORDS,
+    maxAttempts = TELEMETRY_EXPORT.MAX_SEND_ATTEMPTS,
+    storage = null,
+    random = Math.random,
+    now = Date.now,
+    isOnline = () => typeof navigator === "undefined" || navigator.onLine !== false,
+  } = options;
+
+  const sampled = analytics && random() < sampleRate;
+  // Önceki ziyaretten kalan kuyruk — başarılı flush'a kadar localStorage'da da durur
+  const queue: TelemetryRecord[] = readQueue(storage);
+  let flushing: Promise<number> | null = null;
+  // Kuyruğun başındaki batch'in art arda kaç kez reddedildiği
+  let headFailures = 0;
+
+  const persist = () => {
+    if (!storage) return;
+    try {
+      if (queue.length === 0) storage.removeItem(TELEMETRY_QUEUE_KEY);
+      else storage.setItem(TELEMETRY_QUEUE_KEY, JSON.stringify(queue.slice(-maxQueued)));
+    } catch {
+      // Quota dolu / private mode — kuyruk sadece bellekte kalır
+    }
+  };
+
+  const batchId = () => `${now()}_${random().toString(36).slice(2, 8)}`;
+
+  const drain = async (): Promise<number> => {
+    let delivered = 0;
+    while (queue.length > 0) {
+      const records = queue.splice(0, batchSize);
+      try {
+        await sink.send({ id: batchId(), at: now(), records });
+        delivered += records.length;
+        headFailures = 0;
+      } catch (err) {
+        if (++headFailures >= maxAttempts) {
+          headFailures = 0;
+          console.warn(`[Telemetry] ${sink.name} rejected a batch ${maxAttempts} times, dropped ${records.length} records:`, err);
+          continue;
+        }
+        queue.unshift(...records);
+        console.warn(`[Telemetry] ${sink.name} export failed, ${queue.length} records queued:`, err);
+        break;
+      }
+    }
+    persist();
+    return delivered;
+  };
+
+  const exporter: TelemetryExporter = {
+    sampled,
+
+    enqueue(record, playerName) {
+      if (record.kind === "event" ? !sampled : !errors) return;
+      queue.push(scrubRecord(record, playerName));
+      if (queue.length > maxQueued) queue.splice(0, queue.length - maxQueued);
+      if (queue.length >= batchSize) void exporter.flush();
+    },
+
+    flush({ unloading = false } = {}) {
+      if (queue.length === 0) return flushing || Promise.resolve(0);
+      if ((unloading && !sink.unloadSafe) || !isOnline()) {
+        persist();
+        return Promise.resolve(0);
+      }
+      if (!flushing) flushing = drain().finally(() => (flushing = null));
+      return flushing;
+    },
+
+    pending() {
+      return queue.length;
+    },
+  };
+  return exporter;
+}
+
+/** Periodic flush, flush when back online, last flush on pagehide; returns uninstall */
+export function installExportTriggers(
+  exporter: TelemetryExporter,
+  target: Window = window,
+  intervalMs: number = TELEMETRY_EXPORT.FLUSH_INTERVAL_MS
+): () => void {
+  const onPageHide = () => void exporter.flush({ unloading: true });
+  const onOnline = () => void exporter.flush();
+  const timer = setInterval(() => void exporter.flush(), intervalMs);
+  target.addEventListener("pagehide", onPageHide);
+  target.addEventListener("online", onOnline);
+  return () => {
+    clearInterval(timer);
+    target.removeEventListener("pagehide", onPageHide);
+    target.removeEventListener("online", onOnline);
+  };
+}
+
+// ==================== SINKS ====================
+
+/**
+ * HTTP collector. sendBeacon is queued by the browser and survives pagehide;
+ * without it (Node, old browsers) a keepalive fetch is used.
+ */
+export function createBeaconSink(
+  url: string,
+  beacon: Pick<Navigator, "sendBeacon"> | null = typeof navigator !== "undefined" ? navigator : null,
+  fetchImpl?: typeof fetch
+): TelemetrySink {
+  return {
+    name: "beacon",
+    unloadSafe: true,
+    async send(batch) {
+      const body = JSON.stringify(batch);
+      if (beacon?.sendBeacon && !fetchImpl) {
+        if (!beacon.sendBeacon(url, new Blob([body], { type: "application/json" }))) {
+          throw new Error("sendBeacon refused the batch");
+        }
+        return;
+      }
+      const response = await (fetchImpl || fetch)(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+        keepalive: true,
+      });
+      if (!response.ok) throw new Error(`POST ${url} failed: HTTP ${response.status}`);
+    },
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Telemetry file sink — appends each batch as one NDJSON line
+ *
+ * Node only (tests, local runs of the exporter); never import from client code.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { TelemetryBatch, TelemetrySink } from "./telemetryExporter";
+
+export function createFileSink(file: string): TelemetrySink {
+  return {
+    name: "file",
+    unloadSafe: true,
+    async send(batch) {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.appendFile(file, `${JSON.stringify(batch)}\n`, "utf-8");
+    },
+  };
+}
+
+/** Batches written by createFileSink, oldest first */
+export function readFileSink(file: string): TelemetryBatch[] {
+  if (!fs.existsSync(file)) return [];
+  return fs
+    .readFileSync(file, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as TelemetryBatch);
+}